@@ -272,13 +272,13 @@ export interface SystemModuleMap {
   commandRegistry: CommandRegistry;
   /** Terminal/CLI commands provider exposed to extensions */
   systemBuiltinCommands: {
-    getUnixCommands: (projectName: string, projectId?: string) => UnixCommandsPublic;
+    getUnixCommands: (projectName: string, projectId?: string, terminalId?: string) => UnixCommandsPublic;
     getGitCommands: (projectName: string, projectId?: string) => GitCommandsPublic;
     getNpmCommands: (projectName: string, projectId?: string, projectPath?: string) => NpmCommandsPublic;
     getShell: (
       projectName: string,
       projectId?: string,
-      opts?: { unix?: any; commandRegistry?: any; fileRepository?: any }
+      opts?: { unix?: any; commandRegistry?: any; fileRepository?: any; terminalId?: string }
     ) => Promise<StreamShell | null>;
   };
 }
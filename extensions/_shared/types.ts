@@ -125,10 +125,7 @@ export interface ExtensionSidebarAPI {
   createPanel: (definition: SidebarPanelDefinition) => void;
   updatePanel: (panelId: string, state: any) => void;
   removePanel: (panelId: string) => void;
-  onPanelActivate: (
-    panelId: string,
-    callback: (panelId: string) => void | Promise<void>
-  ) => void;
+  onPanelActivate: (panelId: string, callback: (panelId: string) => void | Promise<void>) => void;
 }
 
 /**
@@ -159,10 +156,26 @@ export type CommandHandler = (
 ) => Promise<string>;
 
 /**
- * Commands API - 拡張機能がターミナルコマンドを追加
+ * コマンドパレットに追加するコマンドの定義
+ */
+export interface PaletteCommandDefinition {
+  /** コマンドID（拡張機能内で一意） */
+  id: string;
+  /** 表示タイトル */
+  title: string;
+  /** カテゴリ（"Git: Pull" の "Git" の部分。省略時は拡張機能ID） */
+  category?: string;
+  /** 選択時に実行されるハンドラ */
+  handler: () => void | Promise<void>;
+}
+
+/**
+ * Commands API - 拡張機能がターミナルコマンド・コマンドパレットのコマンドを追加
  */
 export interface ExtensionCommandsAPI {
   registerCommand: (commandName: string, handler: CommandHandler) => () => void;
+  /** コマンドパレット（Ctrl+Shift+P）にコマンドを追加し、登録解除関数を返す */
+  registerPaletteCommand: (definition: PaletteCommandDefinition) => () => void;
 }
 
 /**
@@ -226,6 +239,76 @@ export interface ExtensionExplorerMenuAPI {
   removeMenuItem: (itemId: string) => void;
 }
 
+/**
+ * ターミナルを開くときのオプション
+ */
+export interface OpenTerminalOptions {
+  /** タブに表示する名前（省略時は "Terminal n"） */
+  name?: string;
+  /** ターミナルの準備ができたら実行するコマンド */
+  command?: string;
+  /** 初期カレントディレクトリ（例: /projects/app/src） */
+  cwd?: string;
+  /** 新しいタブではなく、アクティブなターミナルの横に分割して開く */
+  split?: boolean;
+}
+
+/**
+ * Terminal API - 拡張機能がボトムパネルにターミナルを開く
+ */
+export interface ExtensionTerminalAPI {
+  /** 現在のプロジェクトにターミナルを開き、開いたターミナルのIDを返す */
+  openTerminal: (options?: OpenTerminalOptions) => Promise<string>;
+}
+
+/**
+ * プロジェクト作成時にユーザーに入力してもらう変数
+ * テンプレートのファイル内容・パスの `{{name}}` が入力値に置き換えられる
+ */
+export interface TemplatePrompt {
+  /** 変数名（英数字と _ のみ） */
+  name: string;
+  /** 表示ラベル */
+  label: string;
+  /** 説明（オプション） */
+  description?: string;
+  /** 既定値（`{{projectName}}` などの組み込み変数を使える） */
+  default?: string;
+  /** 未入力を許可しない */
+  required?: boolean;
+  /** 入力値が一致すべき正規表現（オプション） */
+  pattern?: string;
+}
+
+/**
+ * プロジェクトテンプレートの定義
+ * 組み込み変数 projectName, description, year は全てのテンプレートで使える
+ */
+export interface ProjectTemplateDefinition {
+  /** テンプレートID（拡張機能内で一意） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** 説明 */
+  description: string;
+  /** カテゴリ（省略時は拡張機能ID） */
+  category?: string;
+  /** 入力してもらう変数 */
+  prompts?: TemplatePrompt[];
+  /** ファイル（プロジェクトルートからのパス -> 内容）。フォルダは自動で作成される */
+  files: Record<string, string>;
+  /** 作成後に実行する処理（作成時にユーザーが個別に外せる） */
+  postCreate?: ('git-init' | 'npm-install')[];
+}
+
+/**
+ * Templates API - 拡張機能が新規プロジェクトのテンプレートを追加
+ */
+export interface ExtensionTemplatesAPI {
+  /** ProjectModal の「新規プロジェクト」にテンプレートを追加し、登録解除関数を返す */
+  registerTemplate: (definition: ProjectTemplateDefinition) => () => void;
+}
+
 /**
  * 拡張機能の実行コンテキスト
  * The execution context passed to extension entrypoints (activate).
@@ -259,7 +342,10 @@ export interface ExtensionContext {
     id: string;
     supportedExtensions: string[];
     needsTranspile?: (filePath: string) => boolean;
-    transpile: (code: string, options: any) => Promise<{ code: string; map?: string; dependencies?: string[] }>;
+    transpile: (
+      code: string,
+      options: any
+    ) => Promise<{ code: string; map?: string; dependencies?: string[] }>;
   }) => Promise<void>;
 
   /** ランタイムを登録（language-runtime拡張機能用） */
@@ -276,12 +362,22 @@ export interface ExtensionContext {
     isReady?: () => boolean;
   }) => Promise<void>;
 
-  /** 他の拡張機能との通信 (オプション・未実装) */
-  messaging?: {
+  /**
+   * 他の拡張機能との通信
+   * - send: 宛先の onMessage ハンドラーの戻り値が応答になる（宛先が受信していなければ reject）
+   * - onMessage: sender は送信元の拡張機能ID。登録解除関数を返す
+   */
+  messaging: {
     send: (targetId: string, message: unknown) => Promise<unknown>;
-    onMessage: (handler: (message: unknown) => unknown) => void;
+    onMessage: (handler: (message: unknown, sender: string) => unknown) => () => void;
   };
 
+  /**
+   * 依存する拡張機能（manifest.dependencies）が activate() の api で公開したAPIを取得
+   * 依存関係に宣言されていない、または有効化されていない場合はエラー
+   */
+  getExtensionAPI: <T = unknown>(extensionId: string) => T;
+
   /** Tab API - extension-facing tabs API */
   tabs: ExtensionTabsAPI;
 
@@ -293,6 +389,12 @@ export interface ExtensionContext {
 
   /** Explorer Menu API - Explorerコンテキストメニューに項目を追加 */
   explorerMenu: ExtensionExplorerMenuAPI;
+
+  /** Terminal API - ターミナルを開いてコマンドを実行 */
+  terminal: ExtensionTerminalAPI;
+
+  /** Templates API - 新規プロジェクトのテンプレートを追加 */
+  templates: ExtensionTemplatesAPI;
 }
 
 /**
@@ -309,6 +411,9 @@ export interface ExtensionActivation {
     [key: string]: unknown;
   };
 
+  /** 他の拡張機能に公開するAPI (依存する拡張機能が context.getExtensionAPI() で取得する) */
+  api?: unknown;
+
   /** サービスの実装 (serviceタイプの拡張機能のみ) */
   services?: Record<string, unknown>;
 
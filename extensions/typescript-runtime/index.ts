@@ -58,7 +58,7 @@ export async function activate(context: ExtensionContext): Promise<ExtensionActi
    * Web Workerを使用してトランスパイル
    * transpile.worker.tsファイルを使用
    */
-  async function transpileWithWorker(code: string, filePath: string, isTypeScript: boolean, isJSX: boolean): Promise<TranspileResponse> {
+  async function transpileWithWorker(code: string, filePath: string, isTypeScript: boolean, isJSX: boolean, target: 'node' | 'browser' = 'node'): Promise<TranspileResponse> {
     return new Promise((resolve, reject) => {
       const id = `transpile_${Date.now()}_${Math.random()}`;
       
@@ -146,6 +146,7 @@ export async function activate(context: ExtensionContext): Promise<ExtensionActi
           filePath,
           isTypeScript,
           isJSX,
+          target,
           normalizeCjsEsm: normalizeCjsEsmCode,
           extractDependencies: extractDependenciesCode,
         });
@@ -163,14 +164,15 @@ export async function activate(context: ExtensionContext): Promise<ExtensionActi
      * TypeScriptトランスパイラ（Web Worker使用）
      */
     transpiler: async (code: string, options: any = {}) => {
-      const { filePath = 'unknown.ts', isTypeScript } = options;
+      const { filePath = 'unknown.ts', isTypeScript, isJSX = false, target = 'node' } = options;
       
       context.logger.info(`🔄 Transpiling: ${filePath}`);
       
       try {
-        // TypeScriptの場合: Web Workerでトランスパイル
-        if (isTypeScript) {
-          const result = await transpileWithWorker(code, filePath, true, false);
+        // TypeScript/JSXの場合: Web Workerでトランスパイル
+        // target === 'browser'（Webプレビュー）の場合はESモジュールのまま返す
+        if (isTypeScript || (isJSX && target === 'browser')) {
+          const result = await transpileWithWorker(code, filePath, !!isTypeScript, isJSX, target);
           
           context.logger.info(`✅ Transpiled: ${filePath} (${code.length} -> ${result.code.length} bytes, ${result.dependencies.length} deps)`);
           
@@ -211,7 +213,8 @@ export async function activate(context: ExtensionContext): Promise<ExtensionActi
     /**
      * ファイル拡張子のサポート情報
      */
-    supportedExtensions: ['.ts', '.mts', '.cts'],
+    // .tsx/.jsx はWebプレビュー（target: 'browser'）用
+    supportedExtensions: ['.ts', '.mts', '.cts', '.tsx', '.jsx'],
 
     /**
      * トランスパイルが必要か判定
@@ -20,6 +20,7 @@ interface TranspileRequest {
   filePath: string;
   isTypeScript?: boolean;
   isJSX?: boolean;
+  target?: 'node' | 'browser'; // 'browser' の場合はCJSへ正規化しない
   normalizeCjsEsm: string; // normalizeCjsEsm関数のコード文字列
   extractDependencies: string; // extractDependencies関数のコード文字列
 }
@@ -32,8 +33,13 @@ interface TranspileResponse {
   error?: string;
 }
 
+type NormalizeCjsEsm = (
+  code: string,
+  options?: { sourceMap?: boolean; filePath?: string }
+) => { code: string; dependencies: string[]; map?: string };
+
 // メインスレッドから渡された関数を保持
-let normalizeCjsEsm: ((code: string) => {code: string; dependencies: string[]}) | null = null;
+let normalizeCjsEsm: NormalizeCjsEsm | null = null;
 let extractDependencies: ((code: string) => string[]) | null = null;
 
 // 関数を動的に初期化
@@ -41,7 +47,7 @@ function initializeFunctions(normalizeCjsEsmCode?: string, extractDependenciesCo
   if (normalizeCjsEsmCode && !normalizeCjsEsm) {
     // 関数全体の文字列を評価して関数として取得
      
-    normalizeCjsEsm = eval(`(${normalizeCjsEsmCode})`) as (code: string) => {code: string; dependencies: string[]};
+    normalizeCjsEsm = eval(`(${normalizeCjsEsmCode})`) as NormalizeCjsEsm;
   }
   if (extractDependenciesCode && !extractDependencies) {
      
@@ -70,6 +76,8 @@ function fallbackExtractDependencies(code: string): string[] {
 }
 
 // TypeScript/JSXトランスパイル処理（Babel Standalone使用）
+// retainLines で元のファイルと行を揃え、normalizeCjsEsm の行単位のソースマップが
+// そのまま元のファイルの行を指すようにする（スタックトレース用）
 function transpileTypeScript(code: string, filePath: string, isJSX: boolean): string {
   if (typeof Babel === 'undefined') {
     throw new Error('Babel not loaded');
@@ -87,6 +95,7 @@ function transpileTypeScript(code: string, filePath: string, isJSX: boolean): st
       presets,
       plugins,
       filename: filePath,
+      retainLines: true,
     });
 
     return result.code || code;
@@ -104,7 +113,7 @@ if (typeof Babel === 'undefined') {
 
 // メッセージハンドラー
 self.addEventListener('message', (event: MessageEvent<TranspileRequest>) => {
-  const { id, code, filePath, isTypeScript, isJSX, normalizeCjsEsm: normalizeCjsEsmCode, extractDependencies: extractDependenciesCode } = event.data;
+  const { id, code, filePath, isTypeScript, isJSX, target, normalizeCjsEsm: normalizeCjsEsmCode, extractDependencies: extractDependenciesCode } = event.data;
 
   try {
     // Babelのロード確認
@@ -140,11 +149,16 @@ self.addEventListener('message', (event: MessageEvent<TranspileRequest>) => {
 
     // CJS/ESM正規化（新しい戻り値: {code, dependencies}）
     let normalizedCode: string;
+    let map: string | undefined;
     let deps: string[] = [];
     try {
-      if (normalizeCjsEsm) {
-        const result = normalizeCjsEsm(transpiledCode);
+      // ブラウザ向け（Webプレビュー）はESモジュールのまま返す
+      if (target === 'browser') {
+        normalizedCode = transpiledCode;
+      } else if (normalizeCjsEsm) {
+        const result = normalizeCjsEsm(transpiledCode, { sourceMap: true, filePath });
         normalizedCode = result.code;
+        map = result.map;
         deps = result.dependencies;
       } else {
         normalizedCode = transpiledCode;
@@ -169,6 +183,7 @@ self.addEventListener('message', (event: MessageEvent<TranspileRequest>) => {
     const response: TranspileResponse = {
       id,
       code: normalizedCode,
+      map,
       dependencies,
     };
 
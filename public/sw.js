@@ -1,5 +1,6 @@
 // Service Worker for Pyxis
-// Purpose: keep icons cached (they don't change) and use cache-first strategy for them.
+// Purpose: keep icons cached (they don't change) and use cache-first strategy for them,
+// and serve web previews (/preview/<project>/...) straight from the project files.
 const ICON_CACHE = 'pyxis-icons-v1';
 
 // Derive basePath from the service worker script location.
@@ -59,9 +60,354 @@ function isIconRequest(request) {
   return false;
 }
 
+// ---------------------------------------------------------------------------
+// Preview server: /preview/<project>/<path> is served from the IndexedDB file
+// repository (PyxisProjects), so web previews behave like a real dev server
+// (ES modules, fetch() of JSON, relative images, SPA routing).
+// ---------------------------------------------------------------------------
+const PREVIEW_PREFIX = `${BASE_PATH}/preview/`;
+const PROJECTS_DB_NAME = 'PyxisProjects';
+// Live reload channel; the app posts file changes here (see src/engine/preview/previewServer.ts)
+const PREVIEW_CHANNEL = 'pyxis-preview';
+const TRANSPILE_TIMEOUT_MS = 15000;
+
+const MIME_TYPES = {
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  cjs: 'text/javascript; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  map: 'application/json; charset=utf-8',
+  webmanifest: 'application/manifest+json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  wasm: 'application/wasm',
+  pdf: 'application/pdf',
+};
+
+// Files that are transpiled to plain ES modules by the app before being served
+const TRANSPILE_EXTENSIONS = ['ts', 'mts', 'tsx', 'jsx'];
+
+function getExtension(path) {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+let projectsDbPromise = null;
+
+// Open the file repository read-only. Never create or upgrade it from here:
+// the app owns the schema.
+function openProjectsDb() {
+  if (!projectsDbPromise) {
+    projectsDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(PROJECTS_DB_NAME);
+      request.onupgradeneeded = () => request.transaction.abort();
+      request.onerror = () => reject(request.error || new Error('Project database is not available'));
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let the app upgrade the schema; reopen on the next request
+        db.onversionchange = () => {
+          db.close();
+          projectsDbPromise = null;
+        };
+        resolve(db);
+      };
+    }).catch((err) => {
+      projectsDbPromise = null;
+      throw err;
+    });
+  }
+  return projectsDbPromise;
+}
+
+function idbGet(db, storeName, indexName, key) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName).get(key);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function textResponse(status, body) {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+// Script injected into every HTML page: reloads when a file of the project changes
+function liveReloadScript(projectName) {
+  return `<script>(function(){try{var c=new BroadcastChannel(${JSON.stringify(PREVIEW_CHANNEL)});var t=null;c.onmessage=function(e){var d=e.data;if(!d||d.type!=='file-change'||d.projectName!==${JSON.stringify(projectName)})return;clearTimeout(t);t=setTimeout(function(){location.reload();},100);};}catch(e){}})();</script>`;
+}
+
+function injectLiveReload(html, projectName) {
+  const script = liveReloadScript(projectName);
+  const head = html.match(/<head[^>]*>/i);
+  if (head) return html.replace(head[0], `${head[0]}${script}`);
+  return script + html;
+}
+
+// App windows (not previews): they own transpileManager and the in-browser HTTP servers
+async function getAppWindows() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  return windows.filter((c) => {
+    const pathname = new URL(c.url).pathname;
+    return !pathname.startsWith(PREVIEW_PREFIX) && !pathname.startsWith(LOCAL_SERVER_PREFIX);
+  });
+}
+
+// Send a message to an app window and wait for the reply on a MessageChannel
+function askApp(app, message, timeoutMs, transfer = []) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error(`Timeout: ${message.type}`)), timeoutMs);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data || {});
+    };
+    app.postMessage(message, [channel.port2, ...transfer]);
+  });
+}
+
+// Ask an app window to transpile TS/JSX (transpileManager lives in the page, not here)
+async function transpileInApp(path, code) {
+  const [app] = await getAppWindows();
+  if (!app) throw new Error('Pyxis is not open; cannot transpile ' + path);
+
+  const data = await askApp(app, { type: 'PYXIS_PREVIEW_TRANSPILE', path, code }, TRANSPILE_TIMEOUT_MS);
+  if (data.error) throw new Error(data.error);
+  return data.code;
+}
+
+function fileBody(file) {
+  if (file.isBufferArray && file.bufferContent) return file.bufferContent;
+  return file.content || '';
+}
+
+function fileText(file) {
+  if (file.isBufferArray && file.bufferContent) {
+    return new TextDecoder('utf-8').decode(file.bufferContent);
+  }
+  return file.content || '';
+}
+
+// Walk up from dir looking for index.html (SPA fallback for client-side routes)
+async function findIndexHtml(db, projectId, dir) {
+  let current = dir;
+  for (;;) {
+    const candidate = current === '/' ? '/index.html' : `${current}/index.html`;
+    const file = await idbGet(db, 'files', 'projectId_path', [projectId, candidate]);
+    if (file && file.type === 'file') return file;
+    if (current === '/') return null;
+    current = current.slice(0, current.lastIndexOf('/')) || '/';
+  }
+}
+
+async function handlePreviewRequest(request) {
+  const url = new URL(request.url);
+  const rest = url.pathname.slice(PREVIEW_PREFIX.length);
+  const slash = rest.indexOf('/');
+  const projectName = decodeURIComponent(slash === -1 ? rest : rest.slice(0, slash));
+  const rawPath = slash === -1 ? '' : rest.slice(slash);
+
+  // /preview/<project> -> /preview/<project>/ so relative URLs resolve against the project root
+  if (slash === -1) {
+    return Response.redirect(`${url.origin}${url.pathname}/${url.search}`, 302);
+  }
+
+  let path;
+  try {
+    path = decodeURIComponent(rawPath) || '/';
+  } catch (e) {
+    return textResponse(400, 'Bad request');
+  }
+
+  let db;
+  try {
+    db = await openProjectsDb();
+  } catch (e) {
+    return textResponse(503, 'Project database is not available');
+  }
+
+  const project = await idbGet(db, 'projects', 'name', projectName);
+  if (!project) return textResponse(404, `Project not found: ${projectName}`);
+
+  let filePath = path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+  let file = filePath === '/' ? null : await idbGet(db, 'files', 'projectId_path', [project.id, filePath]);
+
+  // Directories serve their index.html (redirect to the trailing-slash URL first)
+  if (filePath === '/' || (file && file.type === 'folder')) {
+    if (!path.endsWith('/')) {
+      return Response.redirect(`${url.origin}${url.pathname}/${url.search}`, 302);
+    }
+    filePath = filePath === '/' ? '/index.html' : `${filePath}/index.html`;
+    file = await idbGet(db, 'files', 'projectId_path', [project.id, filePath]);
+  }
+
+  // Unknown route of a single page app: serve the closest index.html
+  const accept = request.headers.get('Accept') || '';
+  if (!file && request.mode === 'navigate' && accept.includes('text/html') && !getExtension(filePath)) {
+    const dir = filePath.slice(0, filePath.lastIndexOf('/')) || '/';
+    file = await findIndexHtml(db, project.id, dir);
+    if (file) filePath = file.path;
+  }
+
+  if (!file || file.type !== 'file') return textResponse(404, `Not found: ${path}`);
+
+  const ext = getExtension(filePath);
+  const headers = { 'Cache-Control': 'no-store' };
+
+  if (TRANSPILE_EXTENSIONS.includes(ext)) {
+    try {
+      const code = await transpileInApp(filePath, fileText(file));
+      return new Response(code, { headers: { ...headers, 'Content-Type': MIME_TYPES.js } });
+    } catch (e) {
+      return textResponse(500, e && e.message ? e.message : String(e));
+    }
+  }
+
+  const contentType = MIME_TYPES[ext] || 'application/octet-stream';
+  if (ext === 'html' || ext === 'htm') {
+    return new Response(injectLiveReload(fileText(file), projectName), {
+      headers: { ...headers, 'Content-Type': contentType },
+    });
+  }
+  return new Response(fileBody(file), { headers: { ...headers, 'Content-Type': contentType } });
+}
+
+// ---------------------------------------------------------------------------
+// Local servers: /localhost/<port>/<path> is forwarded to the in-browser HTTP
+// server started by http.createServer().listen(port) in the Node runtime.
+// ---------------------------------------------------------------------------
+const LOCAL_SERVER_PREFIX = `${BASE_PATH}/localhost/`;
+const LOCAL_SERVER_TIMEOUT_MS = 30000;
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseLocalServerPath(pathname) {
+  if (!pathname.startsWith(LOCAL_SERVER_PREFIX)) return null;
+  const match = pathname.slice(LOCAL_SERVER_PREFIX.length).match(/^(\d+)(\/.*)?$/);
+  return match ? { port: Number(match[1]), path: match[2] || '' } : null;
+}
+
+// Keep redirects inside /localhost/<port>/
+function rewriteLocation(location, port) {
+  const local = location.match(/^(?:https?:\/\/(?:localhost|127\.0\.0\.1)(?::(\d+))?)?(\/(?!\/).*)$/);
+  if (!local) return location;
+  return `${LOCAL_SERVER_PREFIX}${local[1] || port}${local[2]}`;
+}
+
+async function handleLocalServerRequest(request, port, path) {
+  const url = new URL(request.url);
+  // /localhost/3000 -> /localhost/3000/
+  if (!path) {
+    return Response.redirect(`${url.origin}${url.pathname}/${url.search}`, 302);
+  }
+
+  const headers = {};
+  request.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  headers.host = `localhost:${port}`;
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const body = hasBody ? new Uint8Array(await request.arrayBuffer()) : undefined;
+  const message = { type: 'PYXIS_PREVIEW_HTTP', port, method: request.method, url: path + url.search, headers, body };
+
+  // The server lives in the app window that ran the script
+  for (const app of await getAppWindows()) {
+    const result = await askApp(app, message, LOCAL_SERVER_TIMEOUT_MS).catch((e) => ({ error: e.message }));
+    if (result.refused) continue;
+    if (result.error) return textResponse(502, result.error);
+
+    const responseHeaders = new Headers(result.headers);
+    if (responseHeaders.has('location')) {
+      responseHeaders.set('location', rewriteLocation(responseHeaders.get('location'), port));
+    }
+    const nullBody = NULL_BODY_STATUSES.includes(result.status) || request.method === 'HEAD';
+    return new Response(nullBody ? null : result.body, {
+      status: result.status,
+      statusText: result.statusText,
+      headers: responseHeaders,
+    });
+  }
+  return textResponse(502, `No server is listening on localhost:${port}`);
+}
+
+// Absolute URLs (/style.css, /api/...) used by a page served from /localhost/<port>/
+// belong to that server, not to Pyxis
+function localServerPortFromReferrer(request) {
+  if (!request.referrer) return null;
+  try {
+    const referrer = new URL(request.referrer);
+    if (referrer.origin !== location.origin) return null;
+    const local = parseLocalServerPath(referrer.pathname);
+    return local ? local.port : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+function isPreviewRequest(request) {
+  try {
+    const url = new URL(request.url);
+    return url.origin === location.origin && url.pathname.startsWith(PREVIEW_PREFIX);
+  } catch (e) {
+    return false;
+  }
+}
+
 self.addEventListener('fetch', (event) => {
   const req = event.request;
 
+  // Web preview: serve project files out of IndexedDB
+  if (isPreviewRequest(req)) {
+    event.respondWith(
+      handlePreviewRequest(req).catch((err) =>
+        textResponse(500, `Preview error: ${err && err.message ? err.message : String(err)}`)
+      )
+    );
+    return;
+  }
+
+  // Local servers started in the Node runtime
+  const reqUrl = new URL(req.url);
+  if (reqUrl.origin === location.origin) {
+    const local = parseLocalServerPath(reqUrl.pathname);
+    const refererPort = local || reqUrl.pathname.startsWith(PREVIEW_PREFIX) ? null : localServerPortFromReferrer(req);
+    if (local || refererPort !== null) {
+      const port = local ? local.port : refererPort;
+      const path = local ? local.path : reqUrl.pathname;
+      event.respondWith(
+        handleLocalServerRequest(req, port, path).catch((err) =>
+          textResponse(502, `Local server error: ${err && err.message ? err.message : String(err)}`)
+        )
+      );
+      return;
+    }
+  }
+
   // For icon requests: cache-first strategy. They rarely change.
   if (isIconRequest(req)) {
     event.respondWith(
@@ -18,6 +18,11 @@ import RightSidebar from '@/components/Right/RightSidebar';
 import OperationWindow from '@/components/Top/OperationWindow/OperationWindow';
 import TopBar from '@/components/Top/TopBar';
 import { useFileSelector } from '@/context/FileSelectorContext';
+import {
+  registerBuiltinCommands,
+  registerGitCommands,
+  registerLocalServerCommands,
+} from '@/engine/commands/registerBuiltinCommands';
 import { useProject } from '@/engine/core/project';
 import {
   useBottomPanelResize,
@@ -25,12 +30,14 @@ import {
   useRightSidebarResize,
 } from '@/engine/helper/resize';
 import type { EditorPane } from '@/engine/tabs/types';
+import { registerBuiltinTemplates } from '@/engine/templates/builtinTemplates';
 import { useKeyBinding } from '@/hooks/keybindings/useKeyBindings';
 import { useFileDeleteTabSync } from '@/hooks/state/useFileDeleteTabSync';
 import { useProjectWelcome } from '@/hooks/state/useProjectWelcome';
 import useGlobalScrollLock from '@/hooks/ui/useGlobalScrollLock';
 import { useOptimizedUIStateSave } from '@/hooks/ui/useOptimizedUIStateSave';
 import { useTabContentRestore } from '@/hooks/ui/useTabContentRestore';
+import { useGitHistorySnapshot } from '@/stores/gitHistoryStore';
 import { setCurrentProject } from '@/stores/projectStore';
 import { sessionStore } from '@/stores/sessionStore';
 import { tabActions, tabState } from '@/stores/tabState';
@@ -69,6 +76,7 @@ export default function Home() {
   const {
     isOpen: isOperationWindowVisible,
     targetPaneId: operationWindowTargetPaneId,
+    initialQuery: operationWindowInitialQuery,
     closeFileSelector,
   } = useFileSelector();
 
@@ -98,6 +106,16 @@ export default function Home() {
     setCurrentProject(currentProject);
   }, [currentProject]);
 
+  // コマンドパレットのコマンドを登録（Git操作は現在のプロジェクトに対して実行）
+  useEffect(() => registerBuiltinCommands(), []);
+  useEffect(() => registerLocalServerCommands(), []);
+  // 新規プロジェクトのビルトインテンプレートを登録（拡張機能のテンプレートは有効化時に追加される）
+  useEffect(() => registerBuiltinTemplates(), []);
+  useEffect(() => {
+    if (!currentProject) return;
+    return registerGitCommands(currentProject.name, currentProject.id);
+  }, [currentProject]);
+
   // タブコンテンツの復元と自動更新
   useTabContentRestore(isRestored);
 
@@ -130,6 +148,14 @@ export default function Home() {
 
   // FileWatcher bridge removed: components now subscribe directly to fileRepository
 
+  // エディタの blame などからコミット表示を要求されたら Git パネルを開く
+  const { revealRequestId } = useGitHistorySnapshot();
+  useEffect(() => {
+    if (revealRequestId === 0) return;
+    setActiveMenuTab('git');
+    setIsLeftSidebarVisible(true);
+  }, [revealRequestId]);
+
   // UI状態の復元（sessionStorage統合）
   useEffect(() => {
     const restoreUIState = async () => {
@@ -219,6 +245,18 @@ export default function Home() {
     }
   };
 
+  // コマンドパレット（'>' 付きでOperationWindowを開く）
+  const toggleCommandPalette = () => {
+    if (isOperationWindowVisible) {
+      closeFileSelector();
+    } else {
+      const targetPaneId = activePane || panes.find(p => p.activeTabId)?.id || panes[0]?.id;
+      if (targetPaneId) {
+        openFileSelector(targetPaneId, '>');
+      }
+    }
+  };
+
   // プロジェクト選択
   const handleProjectSelect = async (project: Project) => {
     // タブを全てクリア
@@ -239,6 +277,11 @@ export default function Home() {
 
   // ショートカットキーの登録
   useKeyBinding('quickOpen', toggleOperationWindow, [panes, activePane]);
+  useKeyBinding('commandPalette', toggleCommandPalette, [
+    panes,
+    activePane,
+    isOperationWindowVisible,
+  ]);
   useKeyBinding('toggleLeftSidebar', () => setIsLeftSidebarVisible(prev => !prev), []);
   useKeyBinding('toggleRightSidebar', () => setIsRightSidebarVisible(prev => !prev), []);
   useKeyBinding('toggleBottomPanel', () => setIsBottomPanelVisible(prev => !prev), []);
@@ -607,6 +650,7 @@ export default function Home() {
             onClose={closeFileSelector}
             projectFiles={projectFiles}
             targetPaneId={operationWindowTargetPaneId}
+            initialQuery={operationWindowInitialQuery}
           />
 
           <PaneNavigator
@@ -16,10 +16,10 @@ import { Confirmation } from '@/components/Confirmation';
 import OperationWindow, {
   type OperationListItem,
 } from '@/components/Top/OperationWindow/OperationWindow';
-import { LOCALSTORAGE_KEY } from '@/constants/config';
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { buildAIFileContextList } from '@/engine/ai/contextBuilder';
+import { getAIProvider, isAIConfigReady, loadAIConfig } from '@/engine/ai/providers';
 import { fileRepository } from '@/engine/core/fileRepository';
 import { useAI } from '@/hooks/ai/useAI';
 import { useAIReview } from '@/hooks/ai/useAIReview';
@@ -38,6 +38,8 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
   const { colors } = useTheme();
   const { t } = useTranslation();
   const [mode, setMode] = useState<'ask' | 'edit'>('ask');
+  // Editモードでツールを使うエージェントとして実行するかどうか
+  const [isAgentMode, setIsAgentMode] = useState(false);
   const [isFileSelectorOpen, setIsFileSelectorOpen] = useState(false);
   const [showSpaceList, setShowSpaceList] = useState(false);
   const [isChangedFilesMinimized, setIsChangedFilesMinimized] = useState(false);
@@ -100,8 +102,12 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
   const {
     messages,
     isProcessing,
+    streamingMessage,
+    streamingChanges,
     fileContexts,
     sendMessage,
+    sendAgentMessage,
+    cancelRequest,
     updateFileContexts,
     toggleFileSelection,
     generatePromptText,
@@ -113,6 +119,7 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
     onUpdateSelectedFiles: updateSpaceSelectedFiles,
     messages: currentSpace?.messages,
     projectId: currentProject?.id,
+    projectName: currentProject?.name,
   });
 
   // Prompt debug modal state
@@ -136,15 +143,13 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
 
   // 履歴キャッシュ: filePath -> history entries
 
-  // API キーのチェック
-  const isApiKeySet = () => {
-    return !!localStorage.getItem(LOCALSTORAGE_KEY.GEMINI_API_KEY);
-  };
-
   // メッセージ送信ハンドラー
   const handleSendMessage = async (content: string) => {
-    if (!isApiKeySet()) {
-      alert('Gemini APIキーが設定されていません。設定画面で設定してください。');
+    // API キーのチェック（プロバイダーは settings.ai で選択）
+    const aiConfig = await loadAIConfig(currentProject?.id);
+    if (!isAIConfigReady(aiConfig)) {
+      const providerName = getAIProvider(aiConfig.provider).name;
+      alert(`${providerName} APIキーが設定されていません。設定画面で設定してください。`);
       return;
     }
 
@@ -154,7 +159,11 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
     }
 
     try {
-      await sendMessage(content, mode);
+      if (mode === 'edit' && isAgentMode) {
+        await sendAgentMessage(content);
+      } else {
+        await sendMessage(content, mode);
+      }
     } catch (error) {
       console.error('Failed to send message:', error);
       alert(`エラーが発生しました: ${(error as Error).message}`);
@@ -335,6 +344,12 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
     .reverse()
     .find(msg => msg.mode === 'edit' && msg.type === 'assistant' && msg.editResponse)?.editResponse;
 
+  // 生成中はストリーミングで組み立て中の変更を、それ以外は未適用の最新提案を表示
+  const isStreamingChanges = isProcessing && streamingChanges.length > 0;
+  const pendingChangedFiles = isStreamingChanges
+    ? streamingChanges
+    : (latestEditResponse?.changedFiles.filter(f => !f.applied) ?? []);
+
   // Convert chatSpaces to OperationListItem[]
   const spaceItems: OperationListItem[] = useMemo(() => {
     return chatSpaces.map(space => {
@@ -514,6 +529,7 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
       <ChatContainer
         messages={messages}
         isProcessing={isProcessing}
+        streamingMessage={streamingMessage}
         emptyMessage={mode === 'ask' ? t('AI.mode.ask') : t('AI.mode.edit')}
         onRevert={async (message: ChatSpaceMessage) => {
           // Show confirmation dialog instead of executing immediately
@@ -524,71 +540,89 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
       {/* 変更ファイル一覧（Editモードで変更がある場合のみ表示）
           ここではパネルを最小化できるようにし、最小化中は ChangedFilesPanel 本体を描画しないことで
           「採用」などのアクションボタン類を表示しないようにする */}
-      {mode === 'edit' &&
-        latestEditResponse &&
-        latestEditResponse.changedFiles.filter(f => !f.applied).length > 0 && (
-          <div className="px-2 pt-2">
-            <div
-              className="flex items-center justify-between px-2 py-1 rounded-md"
-              style={{
-                background: colors.mutedBg,
-                border: `1px solid ${colors.border}`,
-                color: colors.foreground,
-              }}
-            >
-              <div className="text-xs font-medium">{t('ai.changedFilesList.title')}</div>
-              <div className="flex items-center gap-2">
-                <div className="text-xs opacity-80">
-                  {t('ai.changedFilesList.count', {
-                    params: {
-                      count: latestEditResponse.changedFiles.filter(f => !f.applied).length,
-                    },
-                  })}
-                </div>
-                <button
-                  type="button"
-                  aria-label={
-                    isChangedFilesMinimized
-                      ? t('ai.changedFilesList.expand')
-                      : t('ai.changedFilesList.minimize')
-                  }
-                  title={
-                    isChangedFilesMinimized
-                      ? t('ai.changedFilesList.expand')
-                      : t('ai.changedFilesList.minimize')
-                  }
-                  className="p-1 rounded hover:opacity-80"
-                  onClick={() => setIsChangedFilesMinimized(prev => !prev)}
-                  style={{ color: colors.foreground }}
-                >
-                  <ChevronDown
-                    size={12}
-                    style={{ transform: isChangedFilesMinimized ? 'rotate(-180deg)' : 'none' }}
-                  />
-                </button>
+      {mode === 'edit' && pendingChangedFiles.length > 0 && (
+        <div className="px-2 pt-2">
+          <div
+            className="flex items-center justify-between px-2 py-1 rounded-md"
+            style={{
+              background: colors.mutedBg,
+              border: `1px solid ${colors.border}`,
+              color: colors.foreground,
+            }}
+          >
+            <div className="text-xs font-medium">{t('ai.changedFilesList.title')}</div>
+            <div className="flex items-center gap-2">
+              <div className="text-xs opacity-80">
+                {t('ai.changedFilesList.count', {
+                  params: {
+                    count: pendingChangedFiles.length,
+                  },
+                })}
               </div>
-            </div>
-
-            {/* パネル本体は最小化時は非表示にする（これにより採用ボタン等も表示されない） */}
-            {!isChangedFilesMinimized && (
-              <div className="mt-2">
-                <ChangedFilesPanel
-                  changedFiles={latestEditResponse.changedFiles.filter(f => !f.applied)}
-                  onOpenReview={handleOpenReview}
-                  onApplyChanges={handleApplyChanges}
-                  onDiscardChanges={handleDiscardChanges}
+              <button
+                type="button"
+                aria-label={
+                  isChangedFilesMinimized
+                    ? t('ai.changedFilesList.expand')
+                    : t('ai.changedFilesList.minimize')
+                }
+                title={
+                  isChangedFilesMinimized
+                    ? t('ai.changedFilesList.expand')
+                    : t('ai.changedFilesList.minimize')
+                }
+                className="p-1 rounded hover:opacity-80"
+                onClick={() => setIsChangedFilesMinimized(prev => !prev)}
+                style={{ color: colors.foreground }}
+              >
+                <ChevronDown
+                  size={12}
+                  style={{ transform: isChangedFilesMinimized ? 'rotate(-180deg)' : 'none' }}
                 />
-              </div>
-            )}
+              </button>
+            </div>
           </div>
-        )}
+
+          {/* パネル本体は最小化時は非表示にする（これにより採用ボタン等も表示されない） */}
+          {!isChangedFilesMinimized && (
+            <div className="mt-2">
+              <ChangedFilesPanel
+                changedFiles={pendingChangedFiles}
+                onOpenReview={handleOpenReview}
+                onApplyChanges={isStreamingChanges ? undefined : handleApplyChanges}
+                onDiscardChanges={isStreamingChanges ? undefined : handleDiscardChanges}
+              />
+            </div>
+          )}
+        </div>
+      )}
 
       {/* AI 提案履歴は表示しない（ユーザー要望により削除） */}
 
       {/* モードセレクター（下部に移動・小型化） */}
       {/* アクティブタブピルは ChatInput の選択ファイル列へ渡す（ここでは表示を行わない） */}
 
-      <div className="px-2 pb-2 flex justify-end">
+      <div className="px-2 pb-2 flex justify-end items-center gap-1">
+        {mode === 'edit' && (
+          <button
+            type="button"
+            onClick={() => setIsAgentMode(prev => !prev)}
+            disabled={isProcessing}
+            aria-pressed={isAgentMode}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${
+              isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:opacity-90'
+            }`}
+            style={{
+              background: isAgentMode ? colors.accent : colors.mutedBg,
+              color: isAgentMode ? colors.accentFg : colors.mutedFg,
+              minHeight: 26,
+            }}
+            title={t('ai.agent.title')}
+          >
+            <Bot size={13} />
+            {t('ai.agent.label')}
+          </button>
+        )}
         <ModeSelector mode={mode} onChange={setMode} disabled={isProcessing} />
       </div>
 
@@ -596,6 +630,7 @@ function AIPanel({ projectFiles, currentProject, currentProjectId }: AIPanelProp
       <ChatInput
         mode={mode}
         onSubmit={handleSendMessage}
+        onCancel={cancelRequest}
         isProcessing={isProcessing}
         selectedFiles={fileContexts.filter(ctx => ctx.selected).map(ctx => ctx.path)}
         onOpenFileSelector={() => setIsFileSelectorOpen(true)}
@@ -14,6 +14,8 @@ import type { ChatSpaceMessage } from '@/types';
 interface ChatContainerProps {
   messages: ChatSpaceMessage[];
   isProcessing: boolean;
+  // ストリーミング受信中のアシスタントメッセージ（未保存）
+  streamingMessage?: ChatSpaceMessage | null;
   emptyMessage?: string;
   onRevert?: (message: ChatSpaceMessage) => Promise<void>;
 }
@@ -21,6 +23,7 @@ interface ChatContainerProps {
 export default function ChatContainer({
   messages,
   isProcessing,
+  streamingMessage = null,
   emptyMessage = 'AIとチャットを開始してください',
   onRevert,
 }: ChatContainerProps) {
@@ -33,7 +36,7 @@ export default function ChatContainer({
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages.length, isProcessing]);
+  }, [messages.length, isProcessing, streamingMessage?.content.length]);
 
   return (
     <div
@@ -61,8 +64,11 @@ export default function ChatContainer({
             <ChatMessage key={message.id} message={message} onRevert={onRevert} />
           ))}
 
+          {/* Streaming message */}
+          {streamingMessage?.content && <ChatMessage message={streamingMessage} />}
+
           {/* Processing indicator */}
-          {isProcessing && (
+          {isProcessing && !streamingMessage?.content && (
             <div className="flex gap-2">
               <div
                 className="flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center"
@@ -2,7 +2,7 @@
 
 'use client';
 
-import { FileCode, Loader2, Plus, Send } from 'lucide-react';
+import { FileCode, Loader2, Plus, Send, Square } from 'lucide-react';
 import React, { useState, type KeyboardEvent, useRef, useEffect } from 'react';
 import { getIconForFile } from 'vscode-icons-js';
 
@@ -13,6 +13,8 @@ import { useInputHistory } from '@/hooks/ai/useInputHistory';
 interface ChatInputProps {
   mode: 'ask' | 'edit';
   onSubmit: (content: string) => void;
+  // 生成中のリクエストを中断するハンドラー（指定時は生成中に停止ボタンを表示）
+  onCancel?: () => void;
   isProcessing: boolean;
   selectedFiles?: string[];
   onOpenFileSelector?: () => void;
@@ -29,6 +31,7 @@ interface ChatInputProps {
 export default function ChatInput({
   mode,
   onSubmit,
+  onCancel,
   isProcessing,
   selectedFiles = [],
   onOpenFileSelector,
@@ -277,22 +280,37 @@ export default function ChatInput({
               </button>
             )}
 
-            <button
-              onClick={handleSubmit}
-              disabled={!input.trim() || isProcessing || disabled}
-              className={`p-1 rounded transition-all ${
-                !input.trim() || isProcessing || disabled
-                  ? 'opacity-50 cursor-not-allowed'
-                  : 'hover:opacity-90 shadow-sm'
-              }`}
-              style={{
-                background: colors.accent,
-                color: colors.accentFg,
-              }}
-              title={t('ai.sendTitle')}
-            >
-              {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
-            </button>
+            {isProcessing && onCancel ? (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="p-1 rounded transition-all hover:opacity-90 shadow-sm"
+                style={{
+                  background: colors.red,
+                  color: colors.accentFg,
+                }}
+                title={t('ai.cancelTitle')}
+              >
+                <Square size={14} />
+              </button>
+            ) : (
+              <button
+                onClick={handleSubmit}
+                disabled={!input.trim() || isProcessing || disabled}
+                className={`p-1 rounded transition-all ${
+                  !input.trim() || isProcessing || disabled
+                    ? 'opacity-50 cursor-not-allowed'
+                    : 'hover:opacity-90 shadow-sm'
+                }`}
+                style={{
+                  background: colors.accent,
+                  color: colors.accentFg,
+                }}
+                title={t('ai.sendTitle')}
+              >
+                {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+              </button>
+            )}
           </div>
         </div>
 
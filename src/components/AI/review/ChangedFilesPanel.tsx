@@ -13,8 +13,9 @@ import type { AIEditResponse } from '@/types';
 interface ChangedFilesPanelProps {
   changedFiles: AIEditResponse['changedFiles'];
   onOpenReview: (filePath: string, originalContent: string, suggestedContent: string) => void;
-  onApplyChanges: (filePath: string, content: string) => void;
-  onDiscardChanges: (filePath: string) => void;
+  // 生成中など操作を受け付けない場合は省略する（ボタンは無効表示になる）
+  onApplyChanges?: (filePath: string, content: string) => void;
+  onDiscardChanges?: (filePath: string) => void;
 }
 
 export default function ChangedFilesPanel({
@@ -1,14 +1,15 @@
 'use client';
 
-import { useState, useTransition } from 'react';
+import { useEffect, useState, useTransition } from 'react';
 
 import DebugConsole from './DebugConsole';
 import OutputPanel from './OutputPanel';
 import ProblemsPanel from './ProblemsPanel';
-import Terminal from './Terminal';
+import TerminalPanel from './TerminalPanel';
 
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
+import { terminalSessionManager } from '@/engine/cmd/terminalSessions';
 import type { FileItem } from '@/types';
 
 interface BottomPanelProps {
@@ -53,6 +54,11 @@ export default function BottomPanel({
     }
   };
 
+  // 拡張機能などから openTerminal されたらターミナルタブを表示する
+  useEffect(() => {
+    return terminalSessionManager.addRevealListener(() => setActiveTab('terminal'));
+  });
+
   return (
     <>
       {/* Bottom Resizer（高さ調節バーはそのまま） */}
@@ -237,7 +243,7 @@ export default function BottomPanel({
               left: 0,
             }}
           >
-            <OutputPanel/>
+            <OutputPanel />
           </div>
           <div
             style={{
@@ -250,7 +256,7 @@ export default function BottomPanel({
               left: 0,
             }}
           >
-            <Terminal
+            <TerminalPanel
               height={height}
               currentProject={currentProject}
               currentProjectId={currentProjectId}
@@ -4,6 +4,7 @@
 import { useEffect, useRef } from 'react';
 
 import { DebugConsoleAPI, type TerminalAction } from './DebugConsoleAPI';
+import { registerStackFrameLinks } from './stackFrameLinks';
 
 import { useTheme } from '@/context/ThemeContext';
 
@@ -45,6 +46,9 @@ export default function DebugConsole({ height, isActive }: DebugConsoleProps) {
 
       term.open(xtermRef.current);
 
+      // スタックトレースのファイル位置をクリックでエディタに開く
+      registerStackFrameLinks(term);
+
       // 確実な自動スクロール関数
       const scrollToBottom = () => {
         try {
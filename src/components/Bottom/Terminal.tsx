@@ -2,18 +2,21 @@
 
 import { useEffect, useRef, useState } from 'react';
 
-import { pushLogMessage } from '@/stores/loggerStore';
+import { registerStackFrameLinks } from './stackFrameLinks';
+
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import type { GitCommands } from '@/engine/cmd/global/git';
 import type { NpmCommands } from '@/engine/cmd/global/npm';
 import type { UnixCommands } from '@/engine/cmd/global/unix';
 import { TerminalOutputManager } from '@/engine/cmd/terminalOutputManager';
-import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { DEFAULT_TERMINAL_ID, terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { terminalSessionManager } from '@/engine/cmd/terminalSessions';
 import TerminalUI from '@/engine/cmd/terminalUI';
 import { handleVimCommand } from '@/engine/cmd/vim';
 import { fileRepository } from '@/engine/core/fileRepository';
 import { gitFileSystem } from '@/engine/core/gitFileSystem';
+import { pushLogMessage } from '@/stores/loggerStore';
 import {
   clearTerminalHistory,
   getTerminalHistory,
@@ -24,6 +27,8 @@ interface TerminalProps {
   height: number;
   currentProject?: string;
   currentProjectId?: string;
+  /** ターミナルインスタンスのID（cwd・環境変数・履歴・実行中のプロセスはインスタンスごと） */
+  terminalId?: string;
   isActive?: boolean;
   onVimModeChange?: (vimEditor: any | null) => void; // Callback for Vim mode changes
 }
@@ -33,6 +38,7 @@ function ClientTerminal({
   height,
   currentProject = 'default',
   currentProjectId = '',
+  terminalId = DEFAULT_TERMINAL_ID,
   isActive,
   onVimModeChange,
 }: TerminalProps) {
@@ -93,8 +99,14 @@ function ClientTerminal({
         if (!mounted) return;
         unixCommandsRef.current = terminalCommandRegistry.getUnixCommands(
           currentProject,
-          currentProjectId
+          currentProjectId,
+          terminalId
         );
+        // 保存されたカレントディレクトリを復元
+        const savedCwd = terminalSessionManager.getSession(currentProjectId, terminalId)?.cwd;
+        if (savedCwd) {
+          await unixCommandsRef.current.cd([savedCwd]).catch(() => {});
+        }
         gitCommandsRef.current = terminalCommandRegistry.getGitCommands(
           currentProject,
           currentProjectId
@@ -118,6 +130,7 @@ function ClientTerminal({
               unix: unixCommandsRef.current,
               commandRegistry: extRegistry,
               fileRepository,
+              terminalId,
             }
           );
           if (shellInst) shellRef.current = shellInst;
@@ -142,7 +155,7 @@ function ClientTerminal({
       }
     };
 
-    loadRegistry();
+    const registryReady = loadRegistry();
 
     // xterm関連のモジュールをrequire（クライアントサイドでのみ実行）
     const { Terminal: XTerm } = require('@xterm/xterm');
@@ -186,6 +199,8 @@ function ClientTerminal({
 
     term.loadAddon(fitAddon);
     term.loadAddon(webLinksAddon);
+    // node のスタックトレースなどのファイル位置をクリックでエディタに開く
+    registerStackFrameLinks(term);
 
     // DOMに接続
     term.open(terminalRef.current);
@@ -204,6 +219,9 @@ function ClientTerminal({
     } catch (e) {
       console.warn('[Terminal] failed to register TerminalUI with registry', e);
     }
+    // git / npm のスピナーなどはフォーカスされたターミナルに表示する
+    const handleFocus = () => terminalCommandRegistry.setTerminalUI(currentProjectId, terminalUI);
+    term.textarea?.addEventListener('focus', handleFocus);
 
     // タッチスクロール機能を追加
     let startY = 0;
@@ -257,14 +275,19 @@ function ClientTerminal({
     setTimeout(() => {
       fitAddon.fit();
       // Update shell terminal size after fit
-      terminalCommandRegistry.updateShellSize(currentProjectId, term.cols, term.rows);
+      terminalCommandRegistry.updateShellSize(currentProjectId, term.cols, term.rows, terminalId);
       setTimeout(() => {
         term.scrollToBottom();
         setTimeout(() => {
           fitAddon.fit();
           term.scrollToBottom();
           // Update shell terminal size again after second fit
-          terminalCommandRegistry.updateShellSize(currentProjectId, term.cols, term.rows);
+          terminalCommandRegistry.updateShellSize(
+            currentProjectId,
+            term.cols,
+            term.rows,
+            terminalId
+          );
         }, 100);
       }, 50);
     }, 100);
@@ -275,8 +298,21 @@ function ClientTerminal({
       const pyxisVersion = process.env.NEXT_PUBLIC_PYXIS_VERSION || '(dev)';
       await terminalUI.info(`Pyxis Terminal v${pyxisVersion} [NEW ARCHITECTURE]`);
       await terminalUI.println('Type "help" for available commands.');
-      // 初期プロンプト表示
+      // シェルと cwd の準備を待ってから初期プロンプト表示
+      await registryReady;
       await showPrompt();
+
+      // 拡張機能などから開かれたターミナルは指定されたコマンドを実行する
+      const initialCommand = terminalSessionManager.takeInitialCommand(
+        currentProjectId,
+        terminalId
+      );
+      if (initialCommand) {
+        await outputManager.writeRaw(initialCommand);
+        await outputManager.writeln('');
+        await processCommand(initialCommand);
+        await showPrompt();
+      }
     };
 
     // 確実な自動スクロール関数
@@ -309,6 +345,15 @@ function ClientTerminal({
 
     // プロンプトを表示する関数
     const showPrompt = async () => {
+      // 終了したバックグラウンドジョブを通知（"[1]+  Done  cmd"）
+      const jobNotifications: string[] = shellRef.current?.takeJobNotifications?.() ?? [];
+      if (jobNotifications.length > 0) {
+        await outputManager.ensureNewline();
+        for (const notification of jobNotifications) {
+          await outputManager.write(`${notification}\n`);
+        }
+      }
+
       // CRITICAL: Wait for all pending output to complete before checking cursor position
       // This ensures cursor position is accurate
       await outputManager.flush();
@@ -365,7 +410,7 @@ function ClientTerminal({
     // 履歴をロードする（非同期）
     const loadHistory = async () => {
       try {
-        const saved = await getTerminalHistory(currentProject);
+        const saved = await getTerminalHistory(currentProject, terminalId);
         if (Array.isArray(saved)) {
           commandHistory = saved;
           historyIndex = commandHistory.length;
@@ -379,7 +424,7 @@ function ClientTerminal({
 
     // 履歴保存関数（storageServiceへ）
     const saveHistory = async () => {
-      await saveTerminalHistory(currentProject, commandHistory);
+      await saveTerminalHistory(currentProject, commandHistory, terminalId);
     };
 
     // 統一された出力関数 - すべての出力はこれを通る
@@ -439,7 +484,7 @@ function ClientTerminal({
                 commandHistory = [];
                 await saveHistory();
                 // storageServiceから明示的に削除
-                await clearTerminalHistory(currentProject);
+                await clearTerminalHistory(currentProject, terminalId);
                 await captureWriteOutput('ターミナル履歴を削除しました');
               } catch (e) {
                 await captureWriteOutput(`履歴削除エラー: ${(e as Error).message}`);
@@ -591,6 +636,12 @@ function ClientTerminal({
         }
       }
 
+      // cd の結果をリロード後も復元できるように記録
+      if (unixCommandsRef.current) {
+        const cwd = await unixCommandsRef.current.pwd().catch(() => null);
+        if (cwd) terminalSessionManager.setCwd(currentProjectId, terminalId, cwd);
+      }
+
       scrollToBottom();
       setTimeout(() => scrollToBottom(), 50);
       setTimeout(() => scrollToBottom(), 150);
@@ -721,6 +772,8 @@ function ClientTerminal({
 
     // 通常のキー入力
     let vimModeActive = false; // Flag to disable normal input during vim mode
+    // コマンド実行中は Enter で入力行をコマンドの標準入力に送る
+    let commandRunning = false;
 
     term.onData((data: string) => {
       if (ignoreNextOnData) {
@@ -733,7 +786,11 @@ function ClientTerminal({
       switch (data) {
         case '\r':
           scrollToBottom();
-          if (currentLine.trim()) {
+          if (commandRunning) {
+            // 実行中のコマンド（git add -p など）の標準入力に送る
+            outputManagerRef.current?.writeln('');
+            shellRef.current?.writeStdin(`${currentLine}\n`);
+          } else if (currentLine.trim()) {
             // Command entered - add newline and execute
             outputManagerRef.current?.writeln('');
             const command = currentLine.trim();
@@ -747,7 +804,9 @@ function ClientTerminal({
             }
             saveHistory();
             historyIndex = -1;
+            commandRunning = true;
             processCommand(currentLine).then(() => {
+              commandRunning = false;
               showPrompt();
             });
           } else {
@@ -786,6 +845,21 @@ function ClientTerminal({
           selectionEnd = null;
           showPrompt();
           break;
+        case '\u0004':
+          // Ctrl+D: 入力中の行を送ってから実行中のコマンドの標準入力を閉じる（cat などが終わる）
+          if (commandRunning) {
+            if (currentLine) shellRef.current?.writeStdin(currentLine);
+            if (shellRef.current?.endStdin?.()) outputManagerRef.current?.writeln('');
+            currentLine = '';
+            cursorPos = 0;
+          }
+          break;
+        case '\u001a':
+          // Ctrl+Z: フォアグラウンドのジョブを停止（プロンプトは実行中のコマンドの完了時に表示される）
+          if (shellRef.current?.suspendForeground?.()) {
+            outputManagerRef.current?.writeln('^Z');
+          }
+          break;
         case '\u001b[A':
           if (commandHistory.length > 0) {
             if (historyIndex === -1) {
@@ -876,9 +950,10 @@ function ClientTerminal({
         terminalRef.current.removeEventListener('touchend', handleTouchEnd);
         terminalRef.current.removeEventListener('wheel', handleWheel);
       }
+      term.textarea?.removeEventListener('focus', handleFocus);
       term.dispose();
     };
-  }, [currentProject, currentProjectId, colors]);
+  }, [currentProject, currentProjectId, terminalId, colors]);
 
   // Resize handling: run a fit on height/currentProjectId changes and observe DOM resizes
   // This consolidates previous separate effects into a single, debounced handler.
@@ -893,7 +968,8 @@ function ClientTerminal({
           terminalCommandRegistry.updateShellSize(
             currentProjectId,
             xtermRef.current?.cols ?? 80,
-            xtermRef.current?.rows ?? 24
+            xtermRef.current?.rows ?? 24,
+            terminalId
           );
         }
         // Ensure terminal is scrolled to bottom after layout settles
@@ -920,7 +996,7 @@ function ClientTerminal({
       clearTimeout(timeoutId);
       resizeObserver.disconnect();
     };
-  }, [height, currentProjectId]);
+  }, [height, currentProjectId, terminalId]);
 
   // ターミナルがアクティブになった時にフォーカスを当てる
   useEffect(() => {
@@ -965,6 +1041,7 @@ export default function Terminal({
   height,
   currentProject,
   currentProjectId,
+  terminalId,
   isActive,
   onVimModeChange,
 }: TerminalProps) {
@@ -994,6 +1071,7 @@ export default function Terminal({
       height={height}
       currentProject={currentProject}
       currentProjectId={currentProjectId}
+      terminalId={terminalId}
       isActive={isActive}
       onVimModeChange={onVimModeChange}
     />
@@ -0,0 +1,249 @@
+'use client';
+
+import { Columns2, Plus, SquareTerminal, X } from 'lucide-react';
+import { type ComponentProps, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+
+import Terminal from './Terminal';
+
+import { useTranslation } from '@/context/I18nContext';
+import { useTheme } from '@/context/ThemeContext';
+import { type TerminalSession, terminalSessionManager } from '@/engine/cmd/terminalSessions';
+
+interface TerminalPanelProps {
+  height: number;
+  currentProject?: string;
+  currentProjectId?: string;
+  isActive?: boolean;
+  onVimModeChange?: ComponentProps<typeof Terminal>['onVimModeChange'];
+}
+
+// ターミナルインスタンスのタブ（ダブルクリックで名前を変更）
+function SessionTab({
+  session,
+  isActive,
+  inActiveGroup,
+  onActivate,
+  onClose,
+  onRename,
+}: {
+  session: TerminalSession;
+  isActive: boolean;
+  inActiveGroup: boolean;
+  onActivate: () => void;
+  onClose: () => void;
+  onRename: (name: string) => void;
+}) {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(session.name);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editing) inputRef.current?.select();
+  }, [editing]);
+
+  const commit = () => {
+    setEditing(false);
+    if (draft.trim() && draft !== session.name) onRename(draft);
+    else setDraft(session.name);
+  };
+
+  return (
+    <div
+      className="flex items-center gap-1 px-2 h-full cursor-pointer select-none"
+      style={{
+        fontSize: '11px',
+        color: isActive ? colors.foreground : colors.mutedFg,
+        background: inActiveGroup ? colors.editorBg : 'transparent',
+        borderBottom: isActive ? `2px solid ${colors.primary}` : '2px solid transparent',
+      }}
+      onClick={onActivate}
+      onKeyDown={e => {
+        if (e.key === 'Enter') onActivate();
+      }}
+      onDoubleClick={() => {
+        setDraft(session.name);
+        setEditing(true);
+      }}
+      title={t('bottom.terminalSessions.renameHint')}
+    >
+      <SquareTerminal size={12} />
+      {editing ? (
+        <input
+          ref={inputRef}
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') {
+              setDraft(session.name);
+              setEditing(false);
+            }
+          }}
+          onClick={e => e.stopPropagation()}
+          className="px-1 outline-none"
+          style={{
+            width: '96px',
+            fontSize: '11px',
+            background: colors.editorBg,
+            color: colors.editorFg,
+            border: `1px solid ${colors.primary}`,
+          }}
+        />
+      ) : (
+        <span className="truncate" style={{ maxWidth: '120px' }}>
+          {session.name}
+        </span>
+      )}
+      <button
+        type="button"
+        className="flex items-center justify-center rounded hover:opacity-80"
+        style={{ background: 'none', border: 'none', color: colors.mutedFg, padding: 0 }}
+        onClick={e => {
+          e.stopPropagation();
+          onClose();
+        }}
+        title={t('bottom.terminalSessions.close')}
+      >
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * ターミナルパネル
+ * 複数のターミナルインスタンスをタブで切り替え、同じグループのターミナルは横に並べて表示する
+ * すべてのインスタンスをマウントしたまま visibility で切り替える（xterm.jsの幅崩れ・実行中プロセス対策）
+ */
+export default function TerminalPanel({
+  height,
+  currentProject,
+  currentProjectId,
+  isActive,
+  onVimModeChange,
+}: TerminalPanelProps) {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+
+  const state = useSyncExternalStore(
+    listener => terminalSessionManager.addChangeListener(listener),
+    () => (currentProjectId ? terminalSessionManager.getState(currentProjectId) : null),
+    () => null
+  );
+
+  useEffect(() => {
+    if (!currentProject || !currentProjectId) return;
+    terminalSessionManager.setCurrentProject(currentProject, currentProjectId);
+    terminalSessionManager.load(currentProject, currentProjectId);
+  }, [currentProject, currentProjectId]);
+
+  if (!currentProject || !currentProjectId) {
+    return (
+      <Terminal
+        height={height}
+        currentProject={currentProject}
+        currentProjectId={currentProjectId}
+        isActive={isActive}
+        onVimModeChange={onVimModeChange}
+      />
+    );
+  }
+
+  if (!state) return null;
+
+  const activeGroupId = state.sessions.find(s => s.id === state.activeId)?.groupId;
+  const firstInGroupId = state.sessions.find(s => s.groupId === activeGroupId)?.id;
+
+  const createSession = (split: boolean) => {
+    terminalSessionManager.create(currentProject, currentProjectId, { split });
+  };
+
+  const iconButtonStyle = {
+    background: 'none',
+    border: 'none',
+    color: colors.mutedFg,
+    padding: '2px',
+  };
+
+  return (
+    <div className="flex flex-col w-full h-full">
+      {/* ターミナルインスタンスのタブ */}
+      <div
+        className="h-7 flex items-center flex-shrink-0 overflow-x-auto"
+        style={{ background: colors.cardBg, borderBottom: `1px solid ${colors.border}` }}
+      >
+        {state.sessions.map(session => (
+          <SessionTab
+            key={session.id}
+            session={session}
+            isActive={session.id === state.activeId}
+            inActiveGroup={session.groupId === activeGroupId}
+            onActivate={() => terminalSessionManager.activate(currentProjectId, session.id)}
+            onClose={() => terminalSessionManager.close(currentProjectId, session.id)}
+            onRename={name => terminalSessionManager.rename(currentProjectId, session.id, name)}
+          />
+        ))}
+        <div className="flex items-center gap-1 ml-auto px-2">
+          <button
+            type="button"
+            className="flex items-center justify-center rounded hover:opacity-80"
+            style={iconButtonStyle}
+            onClick={() => createSession(false)}
+            title={t('bottom.terminalSessions.new')}
+          >
+            <Plus size={14} />
+          </button>
+          <button
+            type="button"
+            className="flex items-center justify-center rounded hover:opacity-80"
+            style={iconButtonStyle}
+            onClick={() => createSession(true)}
+            title={t('bottom.terminalSessions.split')}
+          >
+            <Columns2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* アクティブなグループのターミナルを横に並べ、それ以外は非表示でマウントしたままにする */}
+      <div className="flex-1 flex overflow-hidden relative">
+        {state.sessions.map(session => {
+          const visible = session.groupId === activeGroupId;
+          return (
+            <div
+              key={session.id}
+              onMouseDown={() => terminalSessionManager.activate(currentProjectId, session.id)}
+              style={{
+                flex: visible ? '1 1 0' : undefined,
+                minWidth: 0,
+                height: '100%',
+                width: visible ? undefined : '100%',
+                position: visible ? 'relative' : 'absolute',
+                visibility: visible ? 'visible' : 'hidden',
+                pointerEvents: visible ? 'auto' : 'none',
+                top: 0,
+                left: 0,
+                borderLeft:
+                  visible && session.id !== firstInGroupId
+                    ? `1px solid ${colors.border}`
+                    : undefined,
+              }}
+            >
+              <Terminal
+                height={height}
+                currentProject={currentProject}
+                currentProjectId={currentProjectId}
+                terminalId={session.id}
+                isActive={isActive && session.id === state.activeId}
+                onVimModeChange={onVimModeChange}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
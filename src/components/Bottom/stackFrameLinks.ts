@@ -0,0 +1,62 @@
+// stackFrameLinks.ts
+// ターミナル / DebugConsole（xterm）に出力されたファイル位置をクリック可能にする
+// スタックトレースの `/projects/app/src/index.ts:12:5` の形（列は省略可）を、
+// エディタでそのファイルを開いて該当行へジャンプするリンクにする
+
+import type { IDisposable, ILink, Terminal } from '@xterm/xterm';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import { fsPathToAppPath } from '@/engine/core/pathUtils';
+import { getCurrentProject } from '@/stores/projectStore';
+import { tabActions } from '@/stores/tabState';
+
+// URL の一部（http://host/x.js:1:2）にはマッチさせない
+const FILE_LOCATION_PATTERN = /(?<![\w:/.])(\/[^\s()'"`:]+\.\w+):(\d+)(?::(\d+))?/g;
+
+/**
+ * ファイル位置のリンクを xterm に登録する
+ */
+export function registerStackFrameLinks(term: Terminal): IDisposable {
+  return term.registerLinkProvider({
+    provideLinks(bufferLineNumber, callback) {
+      const text = term.buffer.active.getLine(bufferLineNumber - 1)?.translateToString(true);
+      if (!text) {
+        callback(undefined);
+        return;
+      }
+
+      const links: ILink[] = [];
+      for (const match of text.matchAll(FILE_LOCATION_PATTERN)) {
+        const start = (match.index ?? 0) + 1;
+        const [, path, line, column] = match;
+        links.push({
+          range: {
+            start: { x: start, y: bufferLineNumber },
+            end: { x: start + match[0].length - 1, y: bufferLineNumber },
+          },
+          text: match[0],
+          activate: () => {
+            openFileLocation(path, Number(line), column ? Number(column) : undefined).catch(error =>
+              console.warn('[stackFrameLinks] Failed to open file:', error)
+            );
+          },
+        });
+      }
+      callback(links.length > 0 ? links : undefined);
+    },
+  });
+}
+
+/**
+ * 現在のプロジェクトのファイルを開き、指定した行・列へジャンプする
+ * パスはプロジェクトルートからの絶対パス（/projects/<name>/...）でもプロジェクト内のパスでもよい
+ */
+async function openFileLocation(path: string, line: number, column?: number): Promise<void> {
+  const project = getCurrentProject();
+  if (!project) return;
+
+  const file = await fileRepository.getFileByPath(project.id, fsPathToAppPath(path, project.name));
+  if (!file || file.type !== 'file') return;
+
+  await tabActions.openTab(file, { kind: 'editor', jumpToLine: line, jumpToColumn: column });
+}
@@ -2,6 +2,7 @@
 
 import {
   Calendar,
+  Cherry,
   ChevronDown,
   ChevronRight,
   FileDiff,
@@ -10,8 +11,10 @@ import {
   FileText,
   GitBranch,
   GitCommit,
+  GitPullRequestArrow,
   Hash,
   Loader2,
+  Tag,
 } from 'lucide-react';
 import type React from 'react';
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -20,6 +23,8 @@ import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
 import { useDiffTabHandlers } from '@/hooks/ui/useDiffTabHandlers';
+import { clearRevealCommit, useGitHistorySnapshot } from '@/stores/gitHistoryStore';
+import { pushLogMessage } from '@/stores/loggerStore';
 import type { GitCommit as GitCommitType } from '@/types/git';
 
 interface GitHistoryProps {
@@ -359,6 +364,7 @@ function GitHistoryComponent({
   const [expandedCommits, setExpandedCommits] = useState<Set<string>>(new Set());
   const [commitChanges, setCommitChanges] = useState<Map<string, CommitChanges>>(new Map());
   const svgRef = useRef<SVGSVGElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
 
   const gitCommands = useMemo(
     () =>
@@ -490,7 +496,82 @@ function GitHistoryComponent({
     [expandedCommits, getCommitChanges]
   );
 
+  // エディタの blame などから要求されたコミットを展開してスクロール
+  const { revealCommit } = useGitHistorySnapshot();
+  useEffect(() => {
+    if (!revealCommit) return;
+    if (!commits.some(c => c.hash === revealCommit)) {
+      // まだ読み込んでいない場合は続きを読み込む
+      if (!hasMore) {
+        clearRevealCommit();
+      } else if (!isLoadingMore) {
+        onLoadMore?.();
+      }
+      return;
+    }
+
+    clearRevealCommit();
+    if (!expandedCommits.has(revealCommit)) {
+      setExpandedCommits(prev => new Set(prev).add(revealCommit));
+      getCommitChanges(revealCommit);
+    }
+    requestAnimationFrame(() => {
+      listRef.current
+        ?.querySelector(`[data-commit-hash="${revealCommit}"]`)
+        ?.scrollIntoView({ block: 'center' });
+    });
+  }, [
+    revealCommit,
+    commits,
+    hasMore,
+    isLoadingMore,
+    onLoadMore,
+    expandedCommits,
+    getCommitChanges,
+  ]);
+
   const { t } = useTranslation();
+
+  // コミットを現在のブランチにチェリーピック（コンフリクト時はマージタブが開く）
+  const handleCherryPick = useCallback(
+    async (commitHash: string) => {
+      if (!gitCommands) return;
+      try {
+        pushLogMessage(await gitCommands.cherryPick(commitHash), 'info', 'git cherry-pick');
+      } catch (err) {
+        pushLogMessage((err as Error).message, 'error', 'git cherry-pick');
+      }
+    },
+    [gitCommands]
+  );
+
+  // タグをチェックアウト（detached HEAD になるため確認する）
+  const handleCheckoutTag = useCallback(
+    async (tagName: string) => {
+      if (!gitCommands) return;
+      if (!confirm(t('gitHistory.checkoutTagConfirm', { params: { tag: tagName } }))) return;
+      try {
+        pushLogMessage(await gitCommands.checkout(tagName), 'info', 'git checkout');
+      } catch (err) {
+        pushLogMessage((err as Error).message, 'error', 'git checkout');
+      }
+    },
+    [gitCommands, t]
+  );
+
+  // このコミットの上に対話的リベース（todoリストエディタのタブを開く）
+  const handleInteractiveRebase = useCallback(
+    async (commitHash: string) => {
+      if (!gitCommands) return;
+      try {
+        await gitCommands.rebase(commitHash, { interactive: true });
+      } catch (err) {
+        pushLogMessage((err as Error).message, 'error', 'git rebase');
+      }
+    },
+    [gitCommands]
+  );
+
   const getRelativeTime = (timestamp: number): string => {
     const now = Date.now();
     const diff = now - timestamp;
@@ -612,11 +693,12 @@ function GitHistoryComponent({
             ))}
           </svg>
           {/* Commit list */}
-          <div className="pl-8">
+          <div className="pl-8" ref={listRef}>
             {extendedCommits.map(commit => {
               return (
                 <div
                   key={commit.hash}
+                  data-commit-hash={commit.hash}
                   className="relative"
                   style={{
                     height: `${getCommitRowHeight(commit.hash)}px`,
@@ -731,6 +813,31 @@ function GitHistoryComponent({
                             {Array.isArray(commit.refs) && commit.refs.length > 0 && (
                               <div className="flex gap-0.5 flex-wrap">
                                 {commit.refs.map((refName: string) => {
+                                  if (refName.startsWith('tag: ')) {
+                                    const tagName = refName.slice('tag: '.length);
+                                    return (
+                                      <button
+                                        type="button"
+                                        key={refName}
+                                        className="flex items-center gap-0.5 px-1 py-0.5 rounded text-[10px] font-medium flex-shrink-0 whitespace-nowrap border cursor-pointer"
+                                        style={{
+                                          background: colors.gitTagBg || 'rgba(234,179,8,0.15)',
+                                          color: colors.gitTagFg || '#ca8a04',
+                                          borderColor: colors.gitTagBorder || 'rgba(234,179,8,0.4)',
+                                        }}
+                                        title={t('gitHistory.checkoutTag', {
+                                          params: { tag: tagName },
+                                        })}
+                                        onClick={e => {
+                                          e.stopPropagation();
+                                          handleCheckoutTag(tagName);
+                                        }}
+                                      >
+                                        <Tag className="w-2 h-2" />
+                                        {tagName}
+                                      </button>
+                                    );
+                                  }
                                   const isCurrentBranch = refName === currentBranch;
                                   const isRemote =
                                     refName.startsWith('origin/') ||
@@ -792,10 +899,30 @@ function GitHistoryComponent({
                       }}
                     >
                       <div
-                        className="text-[11px] mb-1 font-medium"
+                        className="text-[11px] mb-1 font-medium flex items-center justify-between"
                         style={{ color: colors.gitCommitMeta || 'var(--muted-foreground)' }}
                       >
                         {t('gitHistory.changedFiles')}
+                        <div className="flex items-center gap-0.5">
+                          {!commit.isMerge && (
+                            <button
+                              type="button"
+                              className="p-0.5 rounded hover:bg-gray-700"
+                              title={t('gitHistory.cherryPick')}
+                              onClick={() => handleCherryPick(commit.hash)}
+                            >
+                              <Cherry className="w-3 h-3" />
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="p-0.5 rounded hover:bg-gray-700"
+                            title={t('gitHistory.interactiveRebase')}
+                            onClick={() => handleInteractiveRebase(commit.hash)}
+                          >
+                            <GitPullRequestArrow className="w-3 h-3" />
+                          </button>
+                        </div>
                       </div>
                       {commitChanges.has(commit.hash) ? (
                         <>
@@ -19,14 +19,20 @@ import GitHistory from './GitHistory';
 import OperationWindow, {
   type OperationListItem,
 } from '@/components/Top/OperationWindow/OperationWindow';
-import { LOCALSTORAGE_KEY } from '@/constants/config';
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
 import type { BranchFilterMode } from '@/engine/cmd/global/gitOperations/log';
 
+import {
+  type AIProviderConfig,
+  isAIConfigReady,
+  loadAIConfig,
+  setAIApiKey,
+} from '@/engine/ai/providers';
 import { generateCommitMessage } from '@/engine/commitMsgAI';
+import { settingsManager } from '@/engine/helper/settingsManager';
 import { useDiffTabHandlers } from '@/hooks/ui/useDiffTabHandlers';
-import type { GitCommit, GitRepository, GitStatus } from '@/types/git';
+import type { GitCommit, GitRepository, GitStashEntry, GitStatus } from '@/types/git';
 
 interface GitPanelProps {
   currentProject?: string;
@@ -41,6 +47,7 @@ import ChangesList from './GitPanel/ChangesList';
 import CommitBox from './GitPanel/CommitBox';
 import ErrorState from './GitPanel/ErrorState';
 import LoadingState from './GitPanel/LoadingState';
+import StashList from './GitPanel/StashList';
 import { useGitPanel } from './GitPanel/useGitPanel';
 
 export default function GitPanel({
@@ -55,9 +62,11 @@ export default function GitPanel({
   const [commitMessage, setCommitMessage] = useState('');
   const [isCommitting, setIsCommitting] = useState(false);
   const [apiKey, setApiKey] = useState('');
+  const [aiConfig, setAIConfig] = useState<AIProviderConfig | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generateError, setGenerateError] = useState<string | null>(null);
   const [uiError, setUiError] = useState<string | null>(null);
+  const [stashError, setStashError] = useState<string | null>(null);
 
   const [showBranchSelector, setShowBranchSelector] = useState(false);
   const branchButtonRef = useRef<HTMLButtonElement | null>(null);
@@ -87,6 +96,10 @@ export default function GitPanel({
     discardAllUnstaged,
     discardAllStaged,
     commit: commitOp,
+    stashes,
+    stashChanges,
+    applyStash,
+    dropStash,
     getDiff,
   } = useGitPanel({ currentProject, currentProjectId, onGitStatusChange });
 
@@ -185,18 +198,24 @@ export default function GitPanel({
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [confirmTitle, setConfirmTitle] = useState<string | undefined>(undefined);
   const [confirmMessage, setConfirmMessage] = useState<string | undefined>(undefined);
+  const [confirmText, setConfirmText] = useState<string | undefined>(undefined);
   const confirmActionRef = useRef<(() => Promise<void> | void) | null>(null);
 
-  const openConfirm = (
-    title: string | undefined,
-    message: string | undefined,
-    action: () => Promise<void> | void
-  ) => {
-    setConfirmTitle(title);
-    setConfirmMessage(message);
-    confirmActionRef.current = action;
-    setConfirmOpen(true);
-  };
+  const openConfirm = useCallback(
+    (
+      title: string | undefined,
+      message: string | undefined,
+      action: () => Promise<void> | void,
+      actionText?: string
+    ) => {
+      setConfirmTitle(title);
+      setConfirmMessage(message);
+      setConfirmText(actionText);
+      confirmActionRef.current = action;
+      setConfirmOpen(true);
+    },
+    []
+  );
 
   const handleConfirm = async () => {
     setConfirmOpen(false);
@@ -252,6 +271,48 @@ export default function GitPanel({
     });
   }, [gitRepo?.status, discardAllStaged, onRefresh, t]);
 
+  // stash operations
+  const handleStash = useCallback(async () => {
+    try {
+      setStashError(null);
+      await stashChanges();
+      if (onRefresh) onRefresh();
+    } catch (err) {
+      console.error('Failed to stash changes:', err);
+      setStashError(err instanceof Error ? err.message : 'Failed to stash changes');
+    }
+  }, [stashChanges, onRefresh]);
+
+  const handleApplyStash = useCallback(
+    async (stash: GitStashEntry) => {
+      try {
+        setStashError(null);
+        await applyStash(stash.ref);
+        if (onRefresh) onRefresh();
+      } catch (err) {
+        console.error('Failed to apply stash:', err);
+        setStashError(err instanceof Error ? err.message : 'Failed to apply stash');
+      }
+    },
+    [applyStash, onRefresh]
+  );
+
+  const handleRequestDropStash = useCallback(
+    (stash: GitStashEntry) => {
+      openConfirm(
+        t('git.stash.dropTitle'),
+        `${t('git.stash.dropMessage')} ${stash.ref}: ${stash.message}`,
+        async () => {
+          setStashError(null);
+          await dropStash(stash.ref);
+          if (onRefresh) onRefresh();
+        },
+        t('git.stash.drop')
+      );
+    },
+    [dropStash, onRefresh, openConfirm, t]
+  );
+
   const handleCommit = useCallback(async () => {
     if (!commitMessage.trim()) return;
     setIsCommitting(true);
@@ -267,8 +328,10 @@ export default function GitPanel({
     }
   }, [commitMessage, commitOp]);
 
+  const hasApiKey = !!aiConfig && isAIConfigReady(aiConfig);
+
   const handleGenerateCommitMessage = useCallback(async () => {
-    if (!getDiff || !apiKey) return;
+    if (!getDiff || !aiConfig || !hasApiKey) return;
     setIsGenerating(true);
     setGenerateError(null);
     try {
@@ -276,30 +339,49 @@ export default function GitPanel({
       if (!diffText || diffText.trim() === '') {
         throw new Error('変更内容がありません。ファイルを変更してからお試しください。');
       }
-      const message = await generateCommitMessage(diffText, apiKey);
+      const message = await generateCommitMessage(diffText, aiConfig);
       setCommitMessage(message);
     } catch (err) {
       console.error('Failed to generate commit message:', err);
-      setGenerateError(err instanceof Error ? err.message : 'Gemini APIエラー');
+      setGenerateError(err instanceof Error ? err.message : 'AI APIエラー');
     } finally {
       setIsGenerating(false);
     }
-  }, [getDiff, apiKey]);
+  }, [getDiff, aiConfig, hasApiKey]);
 
-  // APIキーをlocalStorageから初期化
+  // AI設定（プロバイダー・APIキー）を読み込み、設定変更に追従
   useEffect(() => {
-    const savedKey = localStorage.getItem(LOCALSTORAGE_KEY.GEMINI_API_KEY) || '';
-    setApiKey(savedKey);
-  }, []);
-
-  const hasApiKey = !!apiKey;
+    let cancelled = false;
+    const refresh = () => {
+      loadAIConfig(currentProjectId)
+        .then(config => {
+          if (cancelled) return;
+          setAIConfig(config);
+          setApiKey(config.apiKey);
+        })
+        .catch(err => console.warn('[GitPanel] Failed to load AI config:', err));
+    };
+    refresh();
+    const unsubscribe = currentProjectId
+      ? settingsManager.addListener(currentProjectId, refresh)
+      : undefined;
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [currentProjectId]);
 
-  // APIキー入力時にlocalStorageへ保存
-  const handleApiKeyChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setApiKey(value);
-    localStorage.setItem(LOCALSTORAGE_KEY.GEMINI_API_KEY, value);
-  }, []);
+  // APIキー入力時に選択中プロバイダーのキーとしてlocalStorageへ保存
+  const handleApiKeyChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      setApiKey(value);
+      if (!aiConfig) return;
+      setAIApiKey(aiConfig.provider, value);
+      setAIConfig({ ...aiConfig, apiKey: value });
+    },
+    [aiConfig]
+  );
 
   // 初期化とプロジェクト変更時の更新
   useEffect(() => {
@@ -557,11 +639,21 @@ export default function GitPanel({
           colors={colors}
         />
 
+        <StashList
+          stashes={stashes}
+          hasChanges={hasChanges}
+          onStash={handleStash}
+          onApply={handleApplyStash}
+          onDrop={handleRequestDropStash}
+          error={stashError}
+          colors={colors}
+        />
+
         <Confirmation
           open={confirmOpen}
           title={confirmTitle}
           message={confirmMessage}
-          confirmText={t('git.discard')}
+          confirmText={confirmText ?? t('git.discard')}
           cancelText={t('common.cancel')}
           onConfirm={handleConfirm}
           onCancel={handleCancelConfirm}
@@ -57,7 +57,7 @@ export default function CommitBox({
       <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
         <button
           onClick={handleGenerateCommitMessage}
-          disabled={!apiKey || isGenerating}
+          disabled={!hasApiKey || isGenerating}
           style={{
             flex: 1,
             background: '#22c55e',
@@ -71,8 +71,8 @@ export default function CommitBox({
             justifyContent: 'center',
             gap: '0.5rem',
             border: 'none',
-            cursor: isGenerating || !apiKey ? 'not-allowed' : 'pointer',
-            opacity: isGenerating || !apiKey ? 0.5 : 1,
+            cursor: isGenerating || !hasApiKey ? 'not-allowed' : 'pointer',
+            opacity: isGenerating || !hasApiKey ? 0.5 : 1,
           }}
           className="select-none"
         >
@@ -0,0 +1,168 @@
+'use client';
+import { Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+
+import { useTranslation } from '@/context/I18nContext';
+import type { GitStashEntry } from '@/types/git';
+
+interface StashListProps {
+  stashes: GitStashEntry[];
+  hasChanges: boolean;
+  onStash: () => void;
+  onApply: (stash: GitStashEntry) => void;
+  onDrop: (stash: GitStashEntry) => void;
+  error?: string | null;
+  colors: {
+    border: string;
+    foreground: string;
+    mutedFg: string;
+    mutedBg: string;
+    primary: string;
+    red: string;
+  };
+}
+
+const iconButtonStyle = {
+  padding: '0.25rem',
+  background: 'transparent',
+  borderRadius: '0.375rem',
+  border: 'none',
+  cursor: 'pointer',
+};
+
+export default function StashList({
+  stashes,
+  hasChanges,
+  onStash,
+  onApply,
+  onDrop,
+  error,
+  colors,
+}: StashListProps) {
+  const { t } = useTranslation();
+
+  if (!hasChanges && stashes.length === 0 && !error) return null;
+
+  return (
+    <div
+      style={{
+        padding: '0.75rem',
+        borderBottom: `1px solid ${colors.border}`,
+        maxHeight: '25%',
+        overflowY: 'auto',
+        minHeight: 0,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: '0.25rem',
+        }}
+      >
+        <h4
+          style={{
+            fontSize: '0.8125rem',
+            fontWeight: 600,
+            color: colors.foreground,
+            display: 'flex',
+            gap: '0.5rem',
+            alignItems: 'center',
+          }}
+        >
+          <Archive style={{ width: '0.875rem', height: '0.875rem', color: colors.mutedFg }} />
+          {t('git.stash.title')} ({stashes.length})
+        </h4>
+        {hasChanges && (
+          <button
+            type="button"
+            onClick={onStash}
+            style={iconButtonStyle}
+            title={t('git.stash.stashChanges')}
+            className="select-none"
+          >
+            <Archive style={{ width: '0.875rem', height: '0.875rem', color: colors.primary }} />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <pre
+          style={{
+            fontSize: '0.6875rem',
+            color: colors.red,
+            whiteSpace: 'pre-wrap',
+            marginBottom: '0.25rem',
+          }}
+        >
+          {error}
+        </pre>
+      )}
+
+      {stashes.length === 0 ? (
+        <p style={{ fontSize: '0.75rem', color: colors.mutedFg }}>{t('git.stash.empty')}</p>
+      ) : (
+        stashes.map(stash => (
+          <div
+            key={stash.oid}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              fontSize: '0.75rem',
+              padding: '0.25rem 0',
+            }}
+          >
+            <span
+              style={{
+                color: colors.foreground,
+                flex: 1,
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+              }}
+              className="select-text"
+              title={`${stash.ref}: ${stash.message}`}
+            >
+              <span style={{ color: colors.mutedFg }}>{stash.ref}</span> {stash.message}
+            </span>
+            <div style={{ display: 'flex', gap: '0.25rem' }}>
+              <button
+                type="button"
+                onClick={() => onApply(stash)}
+                style={iconButtonStyle}
+                title={t('git.stash.apply')}
+                className="select-none"
+                onMouseEnter={e => {
+                  e.currentTarget.style.background = colors.mutedBg;
+                }}
+                onMouseLeave={e => {
+                  e.currentTarget.style.background = 'transparent';
+                }}
+              >
+                <ArchiveRestore
+                  style={{ width: '0.875rem', height: '0.875rem', color: colors.primary }}
+                />
+              </button>
+              <button
+                type="button"
+                onClick={() => onDrop(stash)}
+                style={iconButtonStyle}
+                title={t('git.stash.drop')}
+                className="select-none"
+                onMouseEnter={e => {
+                  e.currentTarget.style.background = colors.mutedBg;
+                }}
+                onMouseLeave={e => {
+                  e.currentTarget.style.background = 'transparent';
+                }}
+              >
+                <Trash2 style={{ width: '0.875rem', height: '0.875rem', color: colors.red }} />
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import type { BranchFilterMode } from '@/engine/cmd/global/gitOperations/log';
 import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
-import type { GitRepository } from '@/types/git';
+import type { GitRepository, GitStashEntry } from '@/types/git';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { parseGitBranches, parseGitLog, parseGitStatus } from './gitUtils';
 
@@ -20,6 +20,7 @@ export function useGitPanel({
   const [error, setError] = useState<string | null>(null);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasRemote, setHasRemote] = useState(false);
+  const [stashes, setStashes] = useState<GitStashEntry[]>([]);
 
   // ブランチフィルタ関連
   const [branchFilterMode, setBranchFilterMode] = useState<BranchFilterMode>('auto');
@@ -65,15 +66,17 @@ export function useGitPanel({
         setIsLoading(true);
         setError(null);
 
-        const [statusResult, branchResult, remotesResult, availableBranchesResult] =
+        const [statusResult, branchResult, remotesResult, availableBranchesResult, stashResult] =
           await Promise.all([
             gitCommands.status(),
             gitCommands.branch(),
             gitCommands.listRemotes(),
             gitCommands.getAvailableBranches(),
+            gitCommands.getStashList().catch(() => [] as GitStashEntry[]),
           ]);
 
         setAvailableBranches(availableBranchesResult);
+        setStashes(stashResult);
 
         const branchFilter =
           actualFilterMode === 'all'
@@ -268,6 +271,34 @@ export function useGitPanel({
     [gitCommands, fetchGitStatus, commitDepth]
   );
 
+  // stash operations (errors are surfaced to the caller)
+  const stashChanges = useCallback(
+    async (message?: string) => {
+      if (!gitCommands) return;
+      await gitCommands.stashPush({ message, includeUntracked: true });
+      await fetchGitStatus(commitDepth);
+    },
+    [gitCommands, fetchGitStatus, commitDepth]
+  );
+
+  const applyStash = useCallback(
+    async (stashRef: string) => {
+      if (!gitCommands) return;
+      await gitCommands.stashApply(stashRef);
+      await fetchGitStatus(commitDepth);
+    },
+    [gitCommands, fetchGitStatus, commitDepth]
+  );
+
+  const dropStash = useCallback(
+    async (stashRef: string) => {
+      if (!gitCommands) return;
+      await gitCommands.stashDrop(stashRef);
+      await fetchGitStatus(commitDepth);
+    },
+    [gitCommands, fetchGitStatus, commitDepth]
+  );
+
   const getDiff = useCallback(
     async ({ staged = false } = {}) => {
       if (!gitCommands) return '';
@@ -292,6 +323,7 @@ export function useGitPanel({
     error,
     isLoadingMore,
     hasRemote,
+    stashes,
     availableBranches,
     branchFilterMode,
     setBranchFilterMode,
@@ -310,6 +342,9 @@ export function useGitPanel({
     discardAllUnstaged,
     discardAllStaged,
     commit,
+    stashChanges,
+    applyStash,
+    dropStash,
     getDiff,
   } as const;
 }
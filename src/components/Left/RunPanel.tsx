@@ -271,6 +271,11 @@ export default function RunPanel({ currentProject, files }: RunPanelProps) {
 
       if (result.stderr) {
         addOutput(result.stderr, 'error');
+        // DebugConsoleにも出力（スタックトレースのファイル位置はクリックでエディタに開ける）
+        const { DebugConsoleAPI } = require('@/components/Bottom/DebugConsoleAPI');
+        for (const line of result.stderr.split('\n')) {
+          DebugConsoleAPI.log(`\x1b[31m${line}\x1b[0m`);
+        }
       } else if (result.stdout) {
         addOutput(result.stdout, 'log');
       }
@@ -5,11 +5,13 @@ import { useEffect, useState } from 'react';
 import { LOCALSTORAGE_KEY } from '@/constants/config';
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
+import { getAIApiKey, getAIProvider, listAIProviders, setAIApiKey } from '@/engine/ai/providers';
 import { settingsManager } from '@/engine/helper/settingsManager';
 import { downloadWorkspaceZip } from '@/engine/in-ex/exportRepo';
+import { authRepository } from '@/engine/user/authRepository';
 import { tabActions } from '@/stores/tabState';
 import type { Project } from '@/types';
-import type { PyxisSettings } from '@/types/settings';
+import { type AIProviderId, DEFAULT_PYXIS_SETTINGS, type PyxisSettings } from '@/types/settings';
 
 interface SettingsPanelProps {
   currentProject: Project; // 現在のプロジェクト
@@ -32,6 +34,12 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ currentProject }) => {
   const [searchExcludeText, setSearchExcludeText] = useState('');
   const [filesExcludeText, setFilesExcludeText] = useState('');
 
+  // GitHub以外のGitホストの認証情報（authRepositoryに暗号化して保存）
+  const [hostCredentials, setHostCredentials] = useState<Array<{ host: string; username: string }>>(
+    []
+  );
+  const [credentialForm, setCredentialForm] = useState({ host: '', username: '', password: '' });
+
   // テーマカラー個別設定 折りたたみ
   const [showColorSettings, setShowColorSettings] = useState(false);
   const handleToggleColorSettings = () => setShowColorSettings(v => !v);
@@ -71,9 +79,6 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ currentProject }) => {
     loadSettings();
 
     // LocalStorageから設定を読み込み
-    const savedApiKey = localStorage.getItem(LOCALSTORAGE_KEY.GEMINI_API_KEY) || '';
-    setApiKey(savedApiKey);
-
     const savedEditor = localStorage.getItem(LOCALSTORAGE_KEY.DEFAULT_EDITOR) || 'monaco';
     if (savedEditor === 'monaco' || savedEditor === 'codemirror') {
       setDefaultEditor(savedEditor);
@@ -111,11 +116,57 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ currentProject }) => {
     };
   }, [currentProject.id]);
 
+  // 選択中のAIプロバイダー（APIキーはプロバイダーごとにLocalStorageへ保存）
+  const aiProviderId: AIProviderId = settings?.ai?.provider ?? 'gemini';
+  const aiProvider = getAIProvider(aiProviderId);
+
+  useEffect(() => {
+    setApiKey(getAIApiKey(aiProviderId));
+  }, [aiProviderId]);
+
   // APIキー変更ハンドラ
   const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setApiKey(value);
-    localStorage.setItem(LOCALSTORAGE_KEY.GEMINI_API_KEY, value);
+    setAIApiKey(aiProviderId, value);
+  };
+
+  useEffect(() => {
+    authRepository
+      .listHostCredentials()
+      .then(setHostCredentials)
+      .catch(error => console.error('[SettingsPanel] Failed to load git credentials:', error));
+  }, []);
+
+  const handleAddHostCredential = async () => {
+    const host = credentialForm.host
+      .trim()
+      .replace(/^https?:\/\//, '')
+      .replace(/\/.*$/, '');
+    if (!host || !credentialForm.password) return;
+    try {
+      await authRepository.saveHostCredential({
+        host,
+        username: credentialForm.username.trim() || 'oauth2',
+        password: credentialForm.password,
+      });
+      setHostCredentials(await authRepository.listHostCredentials());
+      setCredentialForm({ host: '', username: '', password: '' });
+    } catch (error) {
+      console.error('[SettingsPanel] Failed to save git credential:', error);
+    }
+  };
+
+  const handleDeleteHostCredential = async (host: string) => {
+    await authRepository.deleteHostCredential(host);
+    setHostCredentials(await authRepository.listHostCredentials());
+  };
+
+  // AI設定の数値入力（空欄は用途ごとの既定値に戻す）
+  const parseOptionalNumber = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
   };
 
   // デフォルトエディター変更ハンドラ
@@ -372,6 +423,24 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ currentProject }) => {
             <span>{t('settingsPanel.editor.wordWrap')}</span>
           </label>
 
+          <label
+            className="flex items-center gap-2 text-xs cursor-pointer hover:bg-opacity-50 py-1 px-2 rounded transition-colors"
+            style={{ color: colors.foreground }}
+          >
+            <input
+              type="checkbox"
+              checked={settings.editor.gitBlame}
+              onChange={e =>
+                updateSettings({
+                  editor: { ...settings.editor, gitBlame: e.target.checked },
+                })
+              }
+              className="rounded"
+              style={{ accentColor: colors.accentBg }}
+            />
+            <span>{t('settingsPanel.editor.gitBlame')}</span>
+          </label>
+
           <div>
             <label className="block text-xs mb-1.5" style={{ color: colors.foreground }}>
               {t('settingsPanel.editor.fontSize')}
@@ -461,25 +530,360 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ currentProject }) => {
         >
           {t('settingsPanel.api.title')}
         </h2>
-        <div>
-          <label className="block text-xs mb-1.5" style={{ color: colors.foreground }}>
-            {t('settingsPanel.api.geminiApiKey')}
+        <div className="space-y-3">
+          <div>
+            <label
+              htmlFor="settings-ai-provider"
+              className="block text-xs mb-1.5"
+              style={{ color: colors.foreground }}
+            >
+              {t('settingsPanel.api.provider')}
+            </label>
+            <select
+              id="settings-ai-provider"
+              value={aiProviderId}
+              onChange={e =>
+                updateSettings({
+                  ai: { ...settings.ai, provider: e.target.value as AIProviderId },
+                })
+              }
+              className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
+              style={{
+                background: colors.cardBg,
+                color: colors.foreground,
+                border: `1px solid ${colors.border}`,
+              }}
+            >
+              {listAIProviders().map(provider => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label
+              htmlFor="settings-ai-model"
+              className="block text-xs mb-1.5"
+              style={{ color: colors.foreground }}
+            >
+              {t('settingsPanel.api.model')}
+            </label>
+            <input
+              id="settings-ai-model"
+              type="text"
+              value={settings.ai.model}
+              onChange={e => updateSettings({ ai: { ...settings.ai, model: e.target.value } })}
+              placeholder={aiProvider.defaultModel}
+              className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 font-mono"
+              style={{
+                background: colors.cardBg,
+                color: colors.foreground,
+                border: `1px solid ${colors.border}`,
+              }}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="settings-ai-base-url"
+              className="block text-xs mb-1.5"
+              style={{ color: colors.foreground }}
+            >
+              {t('settingsPanel.api.baseUrl')}
+            </label>
+            <input
+              id="settings-ai-base-url"
+              type="text"
+              value={settings.ai.baseUrl}
+              onChange={e => updateSettings({ ai: { ...settings.ai, baseUrl: e.target.value } })}
+              placeholder={aiProvider.defaultBaseUrl}
+              className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 font-mono"
+              style={{
+                background: colors.cardBg,
+                color: colors.foreground,
+                border: `1px solid ${colors.border}`,
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label
+                htmlFor="settings-ai-temperature"
+                className="block text-xs mb-1.5"
+                style={{ color: colors.foreground }}
+              >
+                {t('settingsPanel.api.temperature')}
+              </label>
+              <input
+                id="settings-ai-temperature"
+                type="number"
+                min="0"
+                max="2"
+                step="0.1"
+                value={settings.ai.temperature ?? ''}
+                onChange={e =>
+                  updateSettings({
+                    ai: { ...settings.ai, temperature: parseOptionalNumber(e.target.value) },
+                  })
+                }
+                placeholder={t('settingsPanel.api.auto')}
+                className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
+                style={{
+                  background: colors.cardBg,
+                  color: colors.foreground,
+                  border: `1px solid ${colors.border}`,
+                }}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="settings-ai-max-output-tokens"
+                className="block text-xs mb-1.5"
+                style={{ color: colors.foreground }}
+              >
+                {t('settingsPanel.api.maxOutputTokens')}
+              </label>
+              <input
+                id="settings-ai-max-output-tokens"
+                type="number"
+                min="1"
+                value={settings.ai.maxOutputTokens ?? ''}
+                onChange={e =>
+                  updateSettings({
+                    ai: { ...settings.ai, maxOutputTokens: parseOptionalNumber(e.target.value) },
+                  })
+                }
+                placeholder={t('settingsPanel.api.auto')}
+                className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
+                style={{
+                  background: colors.cardBg,
+                  color: colors.foreground,
+                  border: `1px solid ${colors.border}`,
+                }}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="settings-ai-api-key"
+              className="block text-xs mb-1.5"
+              style={{ color: colors.foreground }}
+            >
+              {t('settingsPanel.api.apiKey', { params: { provider: aiProvider.name } })}
+            </label>
+            <input
+              id="settings-ai-api-key"
+              type="password"
+              value={apiKey}
+              onChange={handleApiKeyChange}
+              placeholder={
+                aiProvider.requiresApiKey
+                  ? t('settingsPanel.api.apiKeyPlaceholder')
+                  : t('settingsPanel.api.apiKeyOptional')
+              }
+              className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
+              style={{
+                background: colors.cardBg,
+                color: colors.foreground,
+                border: `1px solid ${colors.border}`,
+              }}
+            />
+            <p className="text-[10px] mt-1" style={{ color: colors.mutedFg }}>
+              {t('settingsPanel.api.savedToLocalStorage')}
+            </p>
+          </div>
+
+          <label
+            className="flex items-center gap-2 text-xs cursor-pointer hover:bg-opacity-50 py-1 px-2 rounded transition-colors"
+            style={{ color: colors.foreground }}
+          >
+            <input
+              type="checkbox"
+              checked={settings.ai.autoContext}
+              onChange={e =>
+                updateSettings({
+                  ai: { ...settings.ai, autoContext: e.target.checked },
+                })
+              }
+              className="rounded"
+              style={{ accentColor: colors.accentBg }}
+            />
+            <span>{t('settingsPanel.api.autoContext')}</span>
           </label>
-          <input
-            type="password"
-            value={apiKey}
-            onChange={handleApiKeyChange}
-            placeholder={t('settingsPanel.api.apiKeyPlaceholder')}
-            className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
-            style={{
-              background: colors.cardBg,
-              color: colors.foreground,
-              border: `1px solid ${colors.border}`,
-            }}
-          />
-          <p className="text-[10px] mt-1" style={{ color: colors.mutedFg }}>
-            {t('settingsPanel.api.savedToLocalStorage')}
-          </p>
+
+          {settings.ai.autoContext && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label
+                  htmlFor="settings-ai-auto-context-max-files"
+                  className="block text-xs mb-1.5"
+                  style={{ color: colors.foreground }}
+                >
+                  {t('settingsPanel.api.autoContextMaxFiles')}
+                </label>
+                <input
+                  id="settings-ai-auto-context-max-files"
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={settings.ai.autoContextMaxFiles}
+                  onChange={e =>
+                    updateSettings({
+                      ai: {
+                        ...settings.ai,
+                        autoContextMaxFiles:
+                          parseOptionalNumber(e.target.value) ??
+                          DEFAULT_PYXIS_SETTINGS.ai.autoContextMaxFiles,
+                      },
+                    })
+                  }
+                  className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
+                  style={{
+                    background: colors.cardBg,
+                    color: colors.foreground,
+                    border: `1px solid ${colors.border}`,
+                  }}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="settings-ai-auto-context-token-budget"
+                  className="block text-xs mb-1.5"
+                  style={{ color: colors.foreground }}
+                >
+                  {t('settingsPanel.api.autoContextTokenBudget')}
+                </label>
+                <input
+                  id="settings-ai-auto-context-token-budget"
+                  type="number"
+                  min="500"
+                  step="500"
+                  value={settings.ai.autoContextTokenBudget}
+                  onChange={e =>
+                    updateSettings({
+                      ai: {
+                        ...settings.ai,
+                        autoContextTokenBudget:
+                          parseOptionalNumber(e.target.value) ??
+                          DEFAULT_PYXIS_SETTINGS.ai.autoContextTokenBudget,
+                      },
+                    })
+                  }
+                  className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1"
+                  style={{
+                    background: colors.cardBg,
+                    color: colors.foreground,
+                    border: `1px solid ${colors.border}`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Git設定 */}
+      <div className="px-4 py-3 border-b" style={{ borderColor: colors.border }}>
+        <h2
+          className="text-xs font-semibold uppercase tracking-wide mb-3"
+          style={{ color: colors.mutedFg }}
+        >
+          {t('settingsPanel.git.title')}
+        </h2>
+        <div className="space-y-3">
+          <div>
+            <label
+              htmlFor="settings-git-cors-proxy"
+              className="block text-xs mb-1.5"
+              style={{ color: colors.foreground }}
+            >
+              {t('settingsPanel.git.corsProxy')}
+            </label>
+            <input
+              id="settings-git-cors-proxy"
+              type="text"
+              value={settings.git.corsProxy}
+              onChange={e =>
+                updateSettings({ git: { ...settings.git, corsProxy: e.target.value } })
+              }
+              placeholder="https://cors.isomorphic-git.org"
+              className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 font-mono"
+              style={{
+                background: colors.cardBg,
+                color: colors.foreground,
+                border: `1px solid ${colors.border}`,
+              }}
+            />
+            <p className="text-[10px] mt-1" style={{ color: colors.mutedFg }}>
+              {t('settingsPanel.git.corsProxyHint')}
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="settings-git-credential-host"
+              className="block text-xs mb-1.5"
+              style={{ color: colors.foreground }}
+            >
+              {t('settingsPanel.git.credentials')}
+            </label>
+            {hostCredentials.length > 0 && (
+              <ul className="mb-2 space-y-1">
+                {hostCredentials.map(credential => (
+                  <li
+                    key={credential.host}
+                    className="flex items-center justify-between gap-2 text-xs font-mono"
+                  >
+                    <span className="truncate">
+                      {credential.username}@{credential.host}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteHostCredential(credential.host)}
+                      className="px-2 py-0.5 rounded text-[10px] hover:opacity-80"
+                      style={{ background: colors.mutedBg, color: colors.foreground }}
+                    >
+                      {t('settingsPanel.git.removeCredential')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="grid grid-cols-3 gap-1">
+              {(['host', 'username', 'password'] as const).map(field => (
+                <input
+                  key={field}
+                  id={`settings-git-credential-${field}`}
+                  type={field === 'password' ? 'password' : 'text'}
+                  value={credentialForm[field]}
+                  onChange={e => setCredentialForm(form => ({ ...form, [field]: e.target.value }))}
+                  placeholder={t(`settingsPanel.git.${field}Placeholder`)}
+                  className="w-full rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 font-mono"
+                  style={{
+                    background: colors.cardBg,
+                    color: colors.foreground,
+                    border: `1px solid ${colors.border}`,
+                  }}
+                />
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleAddHostCredential}
+              disabled={!credentialForm.host.trim() || !credentialForm.password}
+              className="mt-1.5 px-2 py-1 rounded text-xs hover:opacity-80 disabled:opacity-50"
+              style={{ background: colors.accentBg, color: colors.accentFg }}
+            >
+              {t('settingsPanel.git.addCredential')}
+            </button>
+            <p className="text-[10px] mt-1" style={{ color: colors.mutedFg }}>
+              {t('settingsPanel.git.credentialsHint')}
+            </p>
+          </div>
         </div>
       </div>
 
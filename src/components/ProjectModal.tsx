@@ -1,8 +1,38 @@
-import { Edit, Folder, GitBranch, Plus, Trash2, X } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import {
+  Download,
+  Edit,
+  FileArchive,
+  Folder,
+  FolderInput,
+  GitBranch,
+  Plus,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
 
 import { useTranslation } from '@/context/I18nContext';
 import { fileRepository } from '@/engine/core/fileRepository';
+import {
+  type ProjectImportSource,
+  getImportSourceName,
+  importProject,
+  readImportSource,
+  suggestProjectName,
+} from '@/engine/in-ex/importProject';
+import {
+  type RestoreConflictResolution,
+  type WorkspaceBackup,
+  downloadWorkspaceBackup,
+  findRestoreConflicts,
+  getAvailableProjectName,
+  readWorkspaceBackup,
+  restoreWorkspaceBackup,
+} from '@/engine/in-ex/workspaceBackup';
+import { projectTemplateRegistry } from '@/engine/templates/ProjectTemplateRegistry';
+import { createProjectFromTemplate, getTemplateDefaults } from '@/engine/templates/scaffold';
+import type { TemplatePostCreateStep } from '@/engine/templates/types';
 import { authRepository } from '@/engine/user/authRepository';
 import type { Project } from '@/types';
 
@@ -31,6 +61,29 @@ export default function ProjectModal({
   const [loading, setLoading] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [isGitHubAuthenticated, setIsGitHubAuthenticated] = useState(false);
+  // ワークスペースの復元（読み込んだバックアップと、名前が重複したプロジェクトの扱い）
+  const [restoreBackup, setRestoreBackup] = useState<WorkspaceBackup | null>(null);
+  const [restoreConflicts, setRestoreConflicts] = useState<string[]>([]);
+  const [restoreResolutions, setRestoreResolutions] = useState<
+    Record<string, RestoreConflictResolution>
+  >({});
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  // アーカイブ・フォルダからのプロジェクト作成
+  const [importSource, setImportSource] = useState<ProjectImportSource | null>(null);
+  const [importProjectName, setImportProjectName] = useState('');
+  const [importDescription, setImportDescription] = useState('');
+  const [importRespectGitignore, setImportRespectGitignore] = useState(true);
+  // テンプレートからの作成（空文字は従来の初期ファイル）
+  const templates = useSyncExternalStore(
+    listener => projectTemplateRegistry.addChangeListener(listener),
+    () => projectTemplateRegistry.getAll(),
+    () => projectTemplateRegistry.getAll()
+  );
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateSteps, setTemplateSteps] = useState<TemplatePostCreateStep[]>([]);
+  const [runningStep, setRunningStep] = useState<TemplatePostCreateStep | null>(null);
+  const selectedTemplate = templates.find(template => template.id === templateId);
   const { t } = useTranslation();
 
   useEffect(() => {
@@ -74,6 +127,11 @@ export default function ProjectModal({
       return;
     }
 
+    if (selectedTemplate) {
+      await handleCreateFromTemplate(name);
+      return;
+    }
+
     setLoading(true);
     try {
       if (onProjectCreate) {
@@ -85,9 +143,7 @@ export default function ProjectModal({
         );
         onProjectSelect(project);
       }
-      setNewProjectName('');
-      setNewProjectDescription('');
-      setIsCreating(false);
+      resetCreateForm();
       onClose();
       await loadProjects();
     } catch (error) {
@@ -98,6 +154,63 @@ export default function ProjectModal({
     }
   };
 
+  const handleCreateFromTemplate = async (name: string) => {
+    if (!selectedTemplate) return;
+
+    setLoading(true);
+    try {
+      // 空欄の変数はテンプレートの既定値を使う
+      const variables = Object.fromEntries(
+        Object.entries(templateValues).filter(([, value]) => value.trim())
+      );
+      const result = await createProjectFromTemplate(selectedTemplate, {
+        name,
+        description: newProjectDescription.trim() || undefined,
+        variables,
+        // チェックを付け直した順ではなく、テンプレートに書かれた順に実行する
+        postCreate: (selectedTemplate.postCreate ?? []).filter(step =>
+          templateSteps.includes(step)
+        ),
+        onStep: setRunningStep,
+      });
+
+      onProjectSelect(result.project);
+
+      resetCreateForm();
+      onClose();
+      await loadProjects();
+
+      if (result.failedSteps.length > 0) {
+        alert(
+          t('projectModal.templateStepFailed', {
+            params: {
+              steps: result.failedSteps.map(({ step, error }) => `${step}: ${error}`).join('\n'),
+            },
+          })
+        );
+      }
+    } catch (error) {
+      console.error('Failed to create project from template:', error);
+      alert(`プロジェクト作成に失敗しました: ${(error as Error).message}`);
+    } finally {
+      setRunningStep(null);
+      setLoading(false);
+    }
+  };
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    setTemplateValues({});
+    setTemplateSteps([...(templates.find(template => template.id === id)?.postCreate ?? [])]);
+  };
+
+  const resetCreateForm = () => {
+    setIsCreating(false);
+    setNewProjectName('');
+    setNewProjectDescription('');
+    selectTemplate('');
+  };
+
   const handleCloneProject = async () => {
     const url = cloneUrl.trim();
     let name = cloneProjectName.trim();
@@ -152,6 +265,121 @@ export default function ProjectModal({
     }
   };
 
+  const handleBackupWorkspace = async () => {
+    setLoading(true);
+    try {
+      await downloadWorkspaceBackup();
+    } catch (error) {
+      console.error('Failed to back up workspace:', error);
+      alert(t('projectModal.backupFailed', { params: { error: (error as Error).message } }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackupFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const backup = await readWorkspaceBackup(file);
+      const conflicts = await findRestoreConflicts(backup);
+      setRestoreBackup(backup);
+      setRestoreConflicts(conflicts);
+      setRestoreResolutions(Object.fromEntries(conflicts.map(name => [name, 'rename'])));
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      alert(t('projectModal.restoreFailed', { params: { error: (error as Error).message } }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestoreWorkspace = async () => {
+    if (!restoreBackup) return;
+
+    setLoading(true);
+    try {
+      const result = await restoreWorkspaceBackup(restoreBackup, restoreResolutions);
+      setRestoreBackup(null);
+      await loadProjects();
+      alert(t('projectModal.restoreSuccess', { params: { count: result.restored.length } }));
+    } catch (error) {
+      console.error('Failed to restore workspace:', error);
+      alert(t('projectModal.restoreFailed', { params: { error: (error as Error).message } }));
+      await loadProjects();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pickImportSource = (kind: ProjectImportSource['kind']) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    if (kind === 'archive') {
+      input.accept = '.zip,.tar.gz,.tgz,.tar,application/zip,application/gzip,application/x-tar';
+    } else {
+      input.multiple = true;
+      input.setAttribute('webkitdirectory', '');
+      input.setAttribute('directory', '');
+    }
+    input.onchange = () => {
+      const files = Array.from(input.files ?? []);
+      if (files.length === 0) return;
+
+      const source: ProjectImportSource =
+        kind === 'archive' ? { kind, file: files[0] } : { kind, files };
+      setImportSource(source);
+      setImportProjectName(
+        getAvailableProjectName(
+          suggestProjectName(source),
+          projects.map(p => p.name)
+        )
+      );
+      setImportDescription('');
+      setImportRespectGitignore(true);
+    };
+    input.click();
+  };
+
+  const handleImportProject = async () => {
+    if (!importSource) return;
+    const name = importProjectName.trim().replace(/\s+/g, '-');
+    if (!/^[a-zA-Z0-9-]+$/.test(name)) {
+      alert(t('projectModal.nameValidation'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const entries = await readImportSource(importSource);
+      const result = await importProject(name, entries, {
+        description: importDescription.trim() || undefined,
+        respectGitignore: importRespectGitignore,
+        sourceName: getImportSourceName(importSource),
+      });
+
+      onProjectSelect(result.project);
+
+      setImportSource(null);
+      onClose();
+      await loadProjects();
+
+      alert(
+        t('projectModal.importSuccess', {
+          params: { count: result.fileCount, ignored: result.ignoredCount },
+        })
+      );
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      alert(t('projectModal.importFailed', { params: { error: (error as Error).message } }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleEditProject = async () => {
     if (!editingProject) return;
 
@@ -218,8 +446,144 @@ export default function ProjectModal({
 
         <div className="flex-1 overflow-auto p-4">
           <div className="mb-4">
-            {!isCreating && !isCloning ? (
-              <div className="flex gap-2">
+            {restoreBackup ? (
+              <div className="bg-muted p-4 rounded border">
+                <h3 className="text-sm font-medium mb-2">{t('projectModal.restoreTitle')}</h3>
+                {restoreBackup.sourceVersion < restoreBackup.manifest.version && (
+                  <p className="text-xs text-muted-foreground mb-2">
+                    {t('projectModal.restoreConverted', {
+                      params: { version: restoreBackup.sourceVersion },
+                    })}
+                  </p>
+                )}
+                <div className="space-y-1 mb-3 max-h-48 overflow-auto">
+                  {restoreBackup.manifest.projects.map(project => (
+                    <div
+                      key={project.id}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <span className="truncate">{project.name}</span>
+                      {restoreConflicts.includes(project.name) ? (
+                        <select
+                          value={restoreResolutions[project.name] ?? 'rename'}
+                          onChange={e =>
+                            setRestoreResolutions(prev => ({
+                              ...prev,
+                              [project.name]: e.target.value as RestoreConflictResolution,
+                            }))
+                          }
+                          className="px-2 py-1 bg-background border border-border rounded text-xs"
+                        >
+                          <option value="rename">
+                            {t('projectModal.restoreRename', {
+                              params: {
+                                name: getAvailableProjectName(
+                                  project.name,
+                                  projects.map(p => p.name)
+                                ),
+                              },
+                            })}
+                          </option>
+                          <option value="replace">{t('projectModal.restoreReplace')}</option>
+                          <option value="skip">{t('projectModal.restoreSkip')}</option>
+                        </select>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          {t('projectModal.restoreNew')}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleRestoreWorkspace}
+                    disabled={loading}
+                    className="px-3 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50"
+                  >
+                    {t('projectModal.restore')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRestoreBackup(null)}
+                    className="px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
+                  >
+                    {t('projectModal.cancel')}
+                  </button>
+                </div>
+              </div>
+            ) : importSource ? (
+              <div className="bg-muted p-4 rounded border">
+                <h3 className="text-sm font-medium mb-1">{t('projectModal.importTitle')}</h3>
+                <p className="text-xs text-muted-foreground mb-3 truncate">
+                  {t('projectModal.importSource', {
+                    params: {
+                      name:
+                        importSource.kind === 'archive'
+                          ? importSource.file.name
+                          : (importSource.files[0]?.webkitRelativePath.split('/')[0] ?? ''),
+                    },
+                  })}
+                </p>
+                <div className="mb-3">
+                  <label htmlFor="import-project-name" className="block text-sm font-medium mb-1">
+                    {t('projectModal.projectName')}
+                  </label>
+                  <input
+                    id="import-project-name"
+                    type="text"
+                    value={importProjectName}
+                    onChange={e => setImportProjectName(e.target.value)}
+                    placeholder={t('projectModal.projectNamePlaceholder')}
+                    className="w-full px-3 py-2 bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">{t('projectModal.nameHint')}</p>
+                </div>
+                <div className="mb-3">
+                  <label
+                    htmlFor="import-project-description"
+                    className="block text-sm font-medium mb-1"
+                  >
+                    {t('projectModal.descriptionOptional')}
+                  </label>
+                  <textarea
+                    id="import-project-description"
+                    value={importDescription}
+                    onChange={e => setImportDescription(e.target.value)}
+                    placeholder={t('projectModal.descriptionPlaceholder')}
+                    rows={2}
+                    className="w-full px-3 py-2 bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+                  />
+                </div>
+                <label className="flex items-center gap-2 mb-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={importRespectGitignore}
+                    onChange={e => setImportRespectGitignore(e.target.checked)}
+                  />
+                  {t('projectModal.importRespectGitignore')}
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleImportProject}
+                    disabled={!importProjectName.trim() || loading}
+                    className="px-3 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50"
+                  >
+                    {t('projectModal.import')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setImportSource(null)}
+                    className="px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
+                  >
+                    {t('projectModal.cancel')}
+                  </button>
+                </div>
+              </div>
+            ) : !isCreating && !isCloning ? (
+              <div className="flex flex-wrap gap-2">
                 <button
                   onClick={() => setIsCreating(true)}
                   className="flex items-center gap-2 px-3 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90"
@@ -236,6 +600,51 @@ export default function ProjectModal({
                   <GitBranch size={16} />
                   {t('projectModal.cloneFromGitHub')}
                 </button>
+                <button
+                  type="button"
+                  onClick={() => pickImportSource('archive')}
+                  className="flex items-center gap-2 px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
+                  disabled={loading}
+                  title={t('projectModal.importArchiveHint')}
+                >
+                  <FileArchive size={16} />
+                  {t('projectModal.importArchive')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => pickImportSource('folder')}
+                  className="flex items-center gap-2 px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
+                  disabled={loading}
+                >
+                  <FolderInput size={16} />
+                  {t('projectModal.importFolder')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleBackupWorkspace}
+                  className="flex items-center gap-2 px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
+                  disabled={loading}
+                  title={t('projectModal.backupWorkspaceHint')}
+                >
+                  <Download size={16} />
+                  {t('projectModal.backupWorkspace')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => backupInputRef.current?.click()}
+                  className="flex items-center gap-2 px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
+                  disabled={loading}
+                >
+                  <Upload size={16} />
+                  {t('projectModal.restoreWorkspace')}
+                </button>
+                <input
+                  ref={backupInputRef}
+                  type="file"
+                  accept=".zip,application/zip"
+                  className="hidden"
+                  onChange={handleBackupFileSelect}
+                />
               </div>
             ) : isCreating ? (
               <div className="bg-muted p-4 rounded border">
@@ -264,6 +673,79 @@ export default function ProjectModal({
                     className="w-full px-3 py-2 bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary resize-none"
                   />
                 </div>
+                <div className="mb-3">
+                  <label htmlFor="project-template" className="block text-sm font-medium mb-1">
+                    {t('projectModal.template')}
+                  </label>
+                  <select
+                    id="project-template"
+                    value={templateId}
+                    onChange={e => selectTemplate(e.target.value)}
+                    className="w-full px-3 py-2 bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">{t('projectModal.templateDefault')}</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>
+                        {template.category ? `${template.category}: ` : ''}
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedTemplate && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {selectedTemplate.description}
+                    </p>
+                  )}
+                </div>
+                {selectedTemplate?.prompts?.map(prompt => (
+                  <div key={prompt.name} className="mb-3">
+                    <label
+                      htmlFor={`template-${prompt.name}`}
+                      className="block text-sm font-medium mb-1"
+                    >
+                      {prompt.label}
+                      {prompt.required && ' *'}
+                    </label>
+                    <input
+                      id={`template-${prompt.name}`}
+                      type="text"
+                      value={templateValues[prompt.name] ?? ''}
+                      onChange={e =>
+                        setTemplateValues(prev => ({ ...prev, [prompt.name]: e.target.value }))
+                      }
+                      placeholder={
+                        getTemplateDefaults(selectedTemplate, newProjectName.trim())[prompt.name]
+                      }
+                      className="w-full px-3 py-2 bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    {prompt.description && (
+                      <p className="text-xs text-muted-foreground mt-1">{prompt.description}</p>
+                    )}
+                  </div>
+                ))}
+                {selectedTemplate?.postCreate && selectedTemplate.postCreate.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-sm font-medium mb-1">
+                      {t('projectModal.templatePostCreate')}
+                    </p>
+                    {selectedTemplate.postCreate.map(step => (
+                      <label key={step} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={templateSteps.includes(step)}
+                          onChange={e =>
+                            setTemplateSteps(prev =>
+                              e.target.checked ? [...prev, step] : prev.filter(s => s !== step)
+                            )
+                          }
+                        />
+                        {step === 'git-init'
+                          ? t('projectModal.templateStepGitInit')
+                          : t('projectModal.templateStepNpmInstall')}
+                      </label>
+                    ))}
+                  </div>
+                )}
                 <div className="flex gap-2">
                   <button
                     onClick={handleCreateProject}
@@ -273,11 +755,7 @@ export default function ProjectModal({
                     {t('projectModal.create')}
                   </button>
                   <button
-                    onClick={() => {
-                      setIsCreating(false);
-                      setNewProjectName('');
-                      setNewProjectDescription('');
-                    }}
+                    onClick={resetCreateForm}
                     className="px-3 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90"
                   >
                     {t('projectModal.cancel')}
@@ -338,7 +816,16 @@ export default function ProjectModal({
           {loading ? (
             <div className="text-center py-8 text-muted-foreground">
               <div className="loader" />
-              {t('projectModal.loading')}
+              {runningStep
+                ? t('projectModal.templateRunning', {
+                    params: {
+                      step:
+                        runningStep === 'git-init'
+                          ? t('projectModal.templateStepGitInit')
+                          : t('projectModal.templateStepNpmInstall'),
+                    },
+                  })
+                : t('projectModal.loading')}
             </div>
           ) : projects.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
@@ -233,6 +233,7 @@ export default function CodeEditor({
       <MonacoEditor
         tabId={activeTab.id}
         fileName={activeTab.name}
+        filePath={activeTab.path}
         content={content}
         wordWrapConfig={wordWrapConfig}
         jumpToLine={activeTab.jumpToLine}
@@ -244,6 +245,7 @@ export default function CodeEditor({
         insertSpaces={settings?.editor.insertSpaces ?? true}
         fontSize={settings?.editor.fontSize ?? 14}
         isActive={isActive}
+        gitBlame={settings?.editor.gitBlame ?? false}
       />
       <CharCountDisplay
         charCount={charCount}
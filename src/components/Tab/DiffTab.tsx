@@ -2,12 +2,20 @@ import { DiffEditor } from '@monaco-editor/react';
 import type { Monaco } from '@monaco-editor/react';
 import type * as monacoEditor from 'monaco-editor';
 import type React from 'react';
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 
+import { Confirmation } from '@/components/Confirmation';
 import { getLanguage } from '@/components/Tab/text-editor/editors/editor-utils';
 import { defineAndSetMonacoThemes } from '@/components/Tab/text-editor/editors/monaco-themes';
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
+import {
+  type DiffHunk,
+  type HunkSelection,
+  type LineRange,
+  computeDiffHunks,
+  selectLineRanges,
+} from '@/engine/cmd/global/gitOperations/hunks';
 
 interface SingleFileDiff {
   formerFullPath: string;
@@ -20,6 +28,30 @@ interface SingleFileDiff {
 
 // Use shared getLanguage utility from editor-utils to infer Monaco language ids.
 
+export type HunkAction = 'stage' | 'unstage' | 'discard';
+
+/**
+ * 行番号を含む hunk（なければ次の hunk、それもなければ最後の hunk）のインデックス
+ */
+function findHunkAt(hunks: DiffHunk[], side: LineRange['side'], line: number): number {
+  const index = hunks.findIndex(hunk => {
+    const start = side === 'old' ? hunk.oldStart : hunk.newStart;
+    const count = side === 'old' ? hunk.oldLines : hunk.newLines;
+    return line < start + Math.max(count, 1);
+  });
+  return index === -1 ? hunks.length - 1 : index;
+}
+
+const hunkButtonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  background: '#2d323c',
+  color: '#d4d4d4',
+  border: '1px solid #3c424d',
+  borderRadius: 3,
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
 interface DiffTabProps {
   diffs: ReadonlyArray<SingleFileDiff>;
   editable?: boolean; // 編集可能かどうか（true: 編集可能, false: 読み取り専用）
@@ -28,6 +60,12 @@ interface DiffTabProps {
   onImmediateContentChange?: (content: string) => void;
   // 折り返し設定（CodeEditorと同じくユーザー設定から取得）
   wordWrapConfig?: 'on' | 'off';
+  // hunk / 行単位のステージング（単一ファイルのワーキングツリー / ステージ済みの diff のみ）
+  // staged: true ならアンステージ、false ならステージと破棄を表示
+  hunkActions?: {
+    staged: boolean;
+    onAction: (action: HunkAction, selection: HunkSelection[]) => Promise<void>;
+  };
 }
 
 const DiffTab: React.FC<DiffTabProps> = ({
@@ -36,6 +74,7 @@ const DiffTab: React.FC<DiffTabProps> = ({
   onContentChange,
   onImmediateContentChange,
   wordWrapConfig = 'off',
+  hunkActions,
 }) => {
   const { colors, themeName } = useTheme();
   // 各diff領域へのref
@@ -53,6 +92,25 @@ const DiffTab: React.FC<DiffTabProps> = ({
   // デバウンス保存用のタイマー
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // hunk / 行単位のステージング（単一ファイルのみ）
+  const hunkFormer = hunkActions && diffs.length === 1 ? diffs[0].formerContent : null;
+  const hunkLatter = hunkActions && diffs.length === 1 ? diffs[0].latterContent : null;
+  const hunks = useMemo(
+    () =>
+      hunkFormer === null || hunkLatter === null ? [] : computeDiffHunks(hunkFormer, hunkLatter),
+    [hunkFormer, hunkLatter]
+  );
+  const hunksRef = useRef<DiffHunk[]>(hunks);
+  hunksRef.current = hunks;
+  const [currentHunk, setCurrentHunk] = useState(0);
+  const activeHunk = Math.min(currentHunk, hunks.length - 1);
+  const [hunkBusy, setHunkBusy] = useState(false);
+  // 破棄は確認してから実行する
+  const [pendingDiscard, setPendingDiscard] = useState<HunkSelection[] | null>(null);
+  // 行選択に使うエディタ（最後にフォーカスされた側）
+  const focusedSideRef = useRef<LineRange['side']>('new');
+  const hunkListenersRef = useRef<monacoEditor.IDisposable[]>([]);
+
   // クリーンアップ処理
   useEffect(() => {
     return () => {
@@ -108,6 +166,14 @@ const DiffTab: React.FC<DiffTabProps> = ({
         }
       });
       listenersRef.current.clear();
+      for (const l of hunkListenersRef.current) {
+        try {
+          l.dispose();
+        } catch (e) {
+          /* ignore */
+        }
+      }
+      hunkListenersRef.current = [];
 
       editorsRef.current.clear();
       modelsRef.current.clear();
@@ -181,6 +247,77 @@ const DiffTab: React.FC<DiffTabProps> = ({
         listenersRef.current.set(idx, listener);
       }
     }
+
+    // hunk の操作: カーソル位置の hunk と、行選択に使うエディタを追跡する
+    if (hunkActions && idx === 0) {
+      for (const side of ['old', 'new'] as const) {
+        const sideEditor = side === 'old' ? editor.getOriginalEditor() : editor.getModifiedEditor();
+        hunkListenersRef.current.push(
+          sideEditor.onDidFocusEditorText(() => {
+            focusedSideRef.current = side;
+          }),
+          sideEditor.onDidChangeCursorPosition(e => {
+            if (focusedSideRef.current !== side || hunksRef.current.length === 0) return;
+            setCurrentHunk(findHunkAt(hunksRef.current, side, e.position.lineNumber));
+          })
+        );
+      }
+    }
+  };
+
+  // hunk へ移動（変更後のエディタでその位置を表示）
+  const goToHunk = (index: number) => {
+    const hunk = hunks[index];
+    if (!hunk) return;
+    setCurrentHunk(index);
+    const modifiedEditor = editorsRef.current.get(0)?.getModifiedEditor();
+    if (modifiedEditor) {
+      const line = Math.max(hunk.newStart, 1);
+      modifiedEditor.revealLineInCenter(line);
+      modifiedEditor.setPosition({ lineNumber: line, column: 1 });
+    }
+  };
+
+  // 最後にフォーカスされたエディタの選択範囲（カーソルだけの場合はその行）
+  const getSelectedRanges = (): LineRange[] => {
+    const diffEditor = editorsRef.current.get(0);
+    if (!diffEditor) return [];
+    const side = focusedSideRef.current;
+    const sideEditor =
+      side === 'old' ? diffEditor.getOriginalEditor() : diffEditor.getModifiedEditor();
+    return (sideEditor.getSelections() ?? []).map(selection => ({
+      side,
+      startLine: selection.startLineNumber,
+      // 次の行の先頭までの選択はその前の行まで
+      endLine:
+        selection.endColumn === 1 && selection.endLineNumber > selection.startLineNumber
+          ? selection.endLineNumber - 1
+          : selection.endLineNumber,
+    }));
+  };
+
+  const runHunkAction = async (action: HunkAction, selection: HunkSelection[]) => {
+    if (!hunkActions || selection.length === 0) return;
+    setHunkBusy(true);
+    try {
+      await hunkActions.onAction(action, selection);
+    } catch (e) {
+      console.error(`[DiffTab] Failed to ${action} hunk:`, e);
+    } finally {
+      setHunkBusy(false);
+    }
+  };
+
+  const requestHunkAction = (action: HunkAction, selectedLines: boolean) => {
+    if (hunks.length === 0 || hunkBusy) return;
+    const selection = selectedLines
+      ? selectLineRanges(hunks, getSelectedRanges())
+      : [{ hunk: activeHunk }];
+    if (action === 'discard') {
+      if (selection.length > 0) setPendingDiscard(selection);
+      return;
+    }
+    runHunkAction(action, selection);
   };
 
   // ファイルリストクリック時に該当diff領域へスクロール
@@ -312,6 +449,100 @@ const DiffTab: React.FC<DiffTabProps> = ({
                   </span>
                 </div>
               </div>
+              {isSingleFile && hunkActions && hunks.length > 0 && (
+                <div
+                  style={{
+                    padding: '4px 16px',
+                    background: '#1e2228',
+                    color: '#d4d4d4',
+                    fontSize: 12,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 6,
+                    flexWrap: 'wrap',
+                    borderTop: '1px solid #333',
+                    flexShrink: 0,
+                  }}
+                >
+                  <button
+                    type="button"
+                    style={hunkButtonStyle}
+                    disabled={activeHunk <= 0}
+                    onClick={() => goToHunk(activeHunk - 1)}
+                  >
+                    {t('diffTab.previousHunk')}
+                  </button>
+                  <span style={{ color: '#aaa' }}>
+                    {t('diffTab.hunkPosition', {
+                      params: { current: activeHunk + 1, total: hunks.length },
+                    })}
+                  </span>
+                  <button
+                    type="button"
+                    style={hunkButtonStyle}
+                    disabled={activeHunk >= hunks.length - 1}
+                    onClick={() => goToHunk(activeHunk + 1)}
+                  >
+                    {t('diffTab.nextHunk')}
+                  </button>
+                  <span style={{ flex: 1 }} />
+                  {hunkActions.staged ? (
+                    <>
+                      <button
+                        type="button"
+                        style={hunkButtonStyle}
+                        disabled={hunkBusy}
+                        onClick={() => requestHunkAction('unstage', false)}
+                      >
+                        {t('diffTab.unstageHunk')}
+                      </button>
+                      <button
+                        type="button"
+                        style={hunkButtonStyle}
+                        disabled={hunkBusy}
+                        onClick={() => requestHunkAction('unstage', true)}
+                      >
+                        {t('diffTab.unstageSelectedLines')}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        style={hunkButtonStyle}
+                        disabled={hunkBusy}
+                        onClick={() => requestHunkAction('stage', false)}
+                      >
+                        {t('diffTab.stageHunk')}
+                      </button>
+                      <button
+                        type="button"
+                        style={hunkButtonStyle}
+                        disabled={hunkBusy}
+                        onClick={() => requestHunkAction('stage', true)}
+                      >
+                        {t('diffTab.stageSelectedLines')}
+                      </button>
+                      <button
+                        type="button"
+                        style={hunkButtonStyle}
+                        disabled={hunkBusy}
+                        onClick={() => requestHunkAction('discard', false)}
+                      >
+                        {t('diffTab.discardHunk')}
+                      </button>
+                      <button
+                        type="button"
+                        style={hunkButtonStyle}
+                        disabled={hunkBusy}
+                        onClick={() => requestHunkAction('discard', true)}
+                      >
+                        {t('diffTab.discardSelectedLines')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
               <div
                 style={
                   isSingleFile
@@ -344,6 +575,19 @@ const DiffTab: React.FC<DiffTabProps> = ({
           );
         })}
       </div>
+      <Confirmation
+        open={pendingDiscard !== null}
+        title={t('git.discardChangesTitle')}
+        message={t('diffTab.discardHunkMessage')}
+        confirmText={t('git.discard')}
+        cancelText={t('common.cancel')}
+        onConfirm={() => {
+          const selection = pendingDiscard;
+          setPendingDiscard(null);
+          if (selection) runHunkAction('discard', selection);
+        }}
+        onCancel={() => setPendingDiscard(null)}
+      />
     </div>
   );
 };
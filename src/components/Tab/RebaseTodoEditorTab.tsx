@@ -0,0 +1,226 @@
+/**
+ * Interactive Rebase Todo Editor Tab UI Component
+ *
+ * Edits the todo list of `git rebase -i` (pick / reword / squash / fixup / drop)
+ * and reorders commits before starting the rebase.
+ */
+import { ArrowDown, ArrowUp, GitPullRequestArrow, Loader2, Play } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useState } from 'react';
+
+import { useTranslation } from '@/context/I18nContext';
+import { useTheme } from '@/context/ThemeContext';
+import type { RebaseAction, RebaseTodoItem } from '@/types/git';
+
+interface RebaseTodoEditorTabProps {
+  items: ReadonlyArray<RebaseTodoItem>;
+  upstream: string;
+  branch: string;
+  /** Update the todo list */
+  onChange: (items: RebaseTodoItem[]) => void;
+  /** Start the rebase (rejects with the git error message) */
+  onStart: () => Promise<void>;
+  onCancel: () => void;
+}
+
+const ACTIONS: RebaseAction[] = ['pick', 'reword', 'squash', 'fixup', 'drop'];
+
+const RebaseTodoEditorTab: React.FC<RebaseTodoEditorTabProps> = ({
+  items,
+  upstream,
+  branch,
+  onChange,
+  onStart,
+  onCancel,
+}) => {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateItem = useCallback(
+    (index: number, patch: Partial<RebaseTodoItem>) => {
+      onChange(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+    },
+    [items, onChange]
+  );
+
+  const moveItem = useCallback(
+    (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= items.length) return;
+      const next = [...items];
+      [next[index], next[target]] = [next[target], next[index]];
+      onChange(next);
+    },
+    [items, onChange]
+  );
+
+  const handleStart = useCallback(async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      await onStart();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  }, [onStart]);
+
+  const iconButtonStyle: React.CSSProperties = {
+    padding: '0.25rem',
+    background: 'transparent',
+    border: 'none',
+    borderRadius: '0.25rem',
+    cursor: 'pointer',
+    color: colors.mutedFg,
+  };
+
+  return (
+    <div
+      className="flex flex-col h-full"
+      style={{ background: colors.background, color: colors.foreground }}
+    >
+      {/* Header */}
+      <div
+        className="flex items-center justify-between px-4 py-2 border-b"
+        style={{ background: colors.sidebarBg, borderColor: colors.border }}
+      >
+        <div className="flex items-center gap-2">
+          <GitPullRequestArrow className="w-5 h-5" style={{ color: colors.primary }} />
+          <span className="font-medium">{t('rebaseTodo.title')}</span>
+          <span className="text-xs" style={{ color: colors.mutedFg }}>
+            {branch} → {upstream}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isRunning}
+            className="px-3 py-1 text-sm rounded"
+            style={{ color: colors.foreground, background: colors.mutedBg }}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isRunning}
+            className="px-3 py-1 text-sm rounded flex items-center gap-1"
+            style={{ background: colors.primary, color: colors.background }}
+          >
+            {isRunning ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+            {t('rebaseTodo.start')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <p className="text-xs mb-3" style={{ color: colors.mutedFg }}>
+          {t('rebaseTodo.description')}
+        </p>
+
+        {error && (
+          <pre
+            className="text-xs mb-3 p-2 rounded whitespace-pre-wrap"
+            style={{ color: colors.red, background: colors.mutedBg }}
+          >
+            {error}
+          </pre>
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm" style={{ color: colors.mutedFg }}>
+            {t('rebaseTodo.empty')}
+          </p>
+        ) : (
+          items.map((item, index) => (
+            <div
+              key={item.oid}
+              className="mb-1 p-2 rounded border"
+              style={{
+                borderColor: colors.border,
+                opacity: item.action === 'drop' ? 0.5 : 1,
+              }}
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <select
+                  value={item.action}
+                  onChange={e => updateItem(index, { action: e.target.value as RebaseAction })}
+                  disabled={isRunning}
+                  className="px-1 py-0.5 rounded text-xs font-mono"
+                  style={{
+                    background: colors.mutedBg,
+                    color: colors.foreground,
+                    border: `1px solid ${colors.border}`,
+                  }}
+                >
+                  {ACTIONS.map(action => (
+                    <option key={action} value={action}>
+                      {action}
+                    </option>
+                  ))}
+                </select>
+                <span className="font-mono text-xs" style={{ color: colors.mutedFg }}>
+                  {item.shortOid}
+                </span>
+                <span
+                  className="flex-1 truncate"
+                  style={{ textDecoration: item.action === 'drop' ? 'line-through' : 'none' }}
+                  title={item.subject}
+                >
+                  {item.subject}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, -1)}
+                  disabled={isRunning || index === 0}
+                  style={iconButtonStyle}
+                  title={t('rebaseTodo.moveUp')}
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, 1)}
+                  disabled={isRunning || index === items.length - 1}
+                  style={iconButtonStyle}
+                  title={t('rebaseTodo.moveDown')}
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {(item.action === 'reword' || item.action === 'squash') && (
+                <textarea
+                  value={item.message ?? ''}
+                  onChange={e => updateItem(index, { message: e.target.value || undefined })}
+                  disabled={isRunning}
+                  placeholder={
+                    item.action === 'reword'
+                      ? t('rebaseTodo.rewordPlaceholder')
+                      : t('rebaseTodo.squashPlaceholder')
+                  }
+                  rows={3}
+                  className="w-full mt-2 p-2 text-xs rounded font-mono"
+                  style={{
+                    background: colors.mutedBg,
+                    color: colors.foreground,
+                    border: `1px solid ${colors.border}`,
+                  }}
+                />
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RebaseTodoEditorTab;
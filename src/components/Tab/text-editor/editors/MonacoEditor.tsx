@@ -2,6 +2,7 @@ import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
 import type * as monaco from 'monaco-editor';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+import { useMonacoGitBlame } from '../hooks/useMonacoGitBlame';
 import { useMonacoModels } from '../hooks/useMonacoModels';
 import EditorPlaceholder from '../ui/EditorPlaceholder';
 import { countCharsNoSpaces } from './editor-utils';
@@ -22,6 +23,8 @@ let isLanguageDefaultsConfigured = false;
 interface MonacoEditorProps {
   tabId: string;
   fileName: string;
+  /** プロジェクト内のファイルパス（git blame 用） */
+  filePath?: string;
   content: string;
   wordWrapConfig: 'on' | 'off';
   jumpToLine?: number;
@@ -33,11 +36,14 @@ interface MonacoEditorProps {
   insertSpaces?: boolean;
   fontSize?: number;
   isActive?: boolean;
+  /** 行ごとの git blame 注釈を表示 */
+  gitBlame?: boolean;
 }
 
 export default function MonacoEditor({
   tabId,
   fileName,
+  filePath,
   content,
   wordWrapConfig,
   jumpToLine,
@@ -49,6 +55,7 @@ export default function MonacoEditor({
   tabSize = 2,
   insertSpaces = true,
   isActive = false,
+  gitBlame = false,
 }: MonacoEditorProps) {
   const { colors, themeName } = useTheme();
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
@@ -237,6 +244,16 @@ export default function MonacoEditor({
     }
   }, [tabId, content, isEditorSafe, getOrCreateModel, isModelSafe, fileName]);
 
+  // git blame 注釈
+  useMonacoGitBlame({
+    editorRef,
+    monacoRef,
+    isEditorReady,
+    enabled: gitBlame,
+    filePath,
+    content,
+  });
+
   // ジャンプ機能
   useEffect(() => {
     if (!isEditorReady || !editorRef.current || !monacoRef.current) return;
@@ -0,0 +1,184 @@
+import type { Monaco } from '@monaco-editor/react';
+import type * as monaco from 'monaco-editor';
+import { type RefObject, useEffect, useRef } from 'react';
+
+import { useTranslation } from '@/context/I18nContext';
+import { UNCOMMITTED_OID } from '@/engine/cmd/global/gitOperations/blame';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { toGitPath } from '@/engine/core/fileRepository';
+import { useDiffTabHandlers } from '@/hooks/ui/useDiffTabHandlers';
+import { revealCommitInHistory } from '@/stores/gitHistoryStore';
+import { useProjectSnapshot } from '@/stores/projectStore';
+import type { GitBlameLine } from '@/types/git';
+
+const OPEN_DIFF_COMMAND = 'pyxis.gitBlame.openDiff';
+const REVEAL_COMMIT_COMMAND = 'pyxis.gitBlame.revealCommit';
+// 入力中に毎回blameしないための待ち時間
+const BLAME_DEBOUNCE_MS = 500;
+
+interface UseMonacoGitBlameOptions {
+  editorRef: RefObject<monaco.editor.IStandaloneCodeEditor | null>;
+  monacoRef: RefObject<Monaco | null>;
+  isEditorReady: boolean;
+  enabled: boolean;
+  /** プロジェクト内のファイルパス（先頭スラッシュあり） */
+  filePath?: string;
+  content: string;
+}
+
+function commandLink(command: string, args: unknown[]): string {
+  return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+}
+
+/**
+ * Monaco エディタに git blame を表示するフック
+ * - 各行の行番号ガターに作者・日時・コミットのホバー、変更ブロックの先頭行にインライン注釈
+ * - ホバーのリンクから Git履歴での表示 / 親コミットとの DiffTab を開く
+ * - バッファの内容を渡すため、未保存・未コミットの行は「未コミット」として表示される
+ */
+export function useMonacoGitBlame({
+  editorRef,
+  monacoRef,
+  isEditorReady,
+  enabled,
+  filePath,
+  content,
+}: UseMonacoGitBlameOptions) {
+  const { t } = useTranslation();
+  const { currentProject } = useProjectSnapshot();
+  const { handleCommitsDiff } = useDiffTabHandlers(currentProject);
+  const decorationsRef = useRef<monaco.editor.IEditorDecorationsCollection | null>(null);
+
+  // ホバーのリンクから呼ばれるコマンド（最後に登録したものが有効）
+  useEffect(() => {
+    const mon = monacoRef.current;
+    if (!isEditorReady || !enabled || !mon) return;
+
+    const disposables = [
+      mon.editor.registerCommand(OPEN_DIFF_COMMAND, (_accessor, commitId: string, path: string) => {
+        handleCommitsDiff({ commitId, filePath: path });
+      }),
+      mon.editor.registerCommand(REVEAL_COMMIT_COMMAND, (_accessor, commitId: string) => {
+        revealCommitInHistory(commitId);
+      }),
+    ];
+    return () => {
+      for (const disposable of disposables) disposable.dispose();
+    };
+  }, [isEditorReady, enabled, monacoRef, handleCommitsDiff]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const clear = () => {
+      decorationsRef.current?.clear();
+    };
+    if (!isEditorReady || !editor || !enabled || !filePath || !currentProject) {
+      clear();
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const git = terminalCommandRegistry.getGitCommands(currentProject.name, currentProject.id);
+        const lines = await git.getBlame(toGitPath(filePath), { content });
+        const model = editor.getModel();
+        if (cancelled || !editorRef.current || !model || model.isDisposed()) return;
+
+        if (!decorationsRef.current) {
+          decorationsRef.current = editor.createDecorationsCollection();
+        }
+        decorationsRef.current.set(
+          buildDecorations(model, lines, filePath, {
+            openHistory: t('gitBlame.openHistory'),
+            openDiff: t('gitBlame.openDiff'),
+            notCommitted: t('gitBlame.notCommitted'),
+          })
+        );
+      } catch {
+        // gitリポジトリでない・コミットがない場合は表示しない
+        if (!cancelled) clear();
+      }
+    }, BLAME_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isEditorReady, editorRef, enabled, filePath, content, currentProject, t]);
+
+  // アンマウント時に注釈を消す
+  useEffect(() => {
+    return () => {
+      decorationsRef.current?.clear();
+      decorationsRef.current = null;
+    };
+  }, []);
+}
+
+function buildDecorations(
+  model: monaco.editor.ITextModel,
+  lines: GitBlameLine[],
+  filePath: string,
+  labels: { openHistory: string; openDiff: string; notCommitted: string }
+): monaco.editor.IModelDeltaDecoration[] {
+  const decorations: monaco.editor.IModelDeltaDecoration[] = [];
+  const lineCount = model.getLineCount();
+
+  lines.forEach((line, index) => {
+    if (line.lineNumber > lineCount) return;
+    const uncommitted = line.oid === UNCOMMITTED_OID;
+    const shortOid = line.oid.slice(0, 7);
+    const timestamp = new Date(line.timestamp * 1000);
+    const hover: monaco.IMarkdownString = {
+      value: uncommitted
+        ? `**${labels.notCommitted}**`
+        : [
+            `**${line.author}** <${line.authorEmail}> · ${timestamp.toLocaleString()}`,
+            line.summary,
+            `[\`${shortOid}\` ${labels.openHistory}](${commandLink(REVEAL_COMMIT_COMMAND, [line.oid])})` +
+              ` · [${labels.openDiff}](${commandLink(OPEN_DIFF_COMMAND, [line.oid, filePath])})`,
+          ].join('\n\n'),
+      isTrusted: true,
+    };
+
+    // ガター: 全行に作者・日時・コミットのホバー
+    decorations.push({
+      range: {
+        startLineNumber: line.lineNumber,
+        startColumn: 1,
+        endLineNumber: line.lineNumber,
+        endColumn: 1,
+      },
+      options: {
+        isWholeLine: true,
+        linesDecorationsClassName: uncommitted
+          ? 'pyxis-blame-gutter pyxis-blame-gutter-uncommitted'
+          : 'pyxis-blame-gutter',
+        lineNumberHoverMessage: hover,
+      },
+    });
+
+    // インライン: 同じコミットが続くブロックの先頭行の行末にだけ注釈を付ける
+    if (index > 0 && lines[index - 1].oid === line.oid) return;
+    const annotation = uncommitted
+      ? labels.notCommitted
+      : `${line.author}, ${timestamp.toLocaleDateString()} · ${shortOid} ${line.summary}`;
+    const endColumn = model.getLineMaxColumn(line.lineNumber);
+    decorations.push({
+      range: {
+        startLineNumber: line.lineNumber,
+        startColumn: endColumn,
+        endLineNumber: line.lineNumber,
+        endColumn,
+      },
+      options: {
+        showIfCollapsed: true,
+        hoverMessage: hover,
+        after: { content: `    ${annotation}`, inlineClassName: 'pyxis-blame-annotation' },
+      },
+    });
+  });
+
+  return decorations;
+}
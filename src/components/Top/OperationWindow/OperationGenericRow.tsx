@@ -110,6 +110,19 @@ function OperationGenericRowInner({ item, isSelected, ITEM_HEIGHT, colors, query
               {highlightedDesc}
             </span>
           )}
+          {item.shortcut && (
+            <span
+              style={{
+                fontSize: '11px',
+                color: isSelected ? 'rgba(255,255,255,0.8)' : colors.mutedFg,
+                marginLeft: 'auto',
+                paddingLeft: '8px',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {item.shortcut}
+            </span>
+          )}
         </>
       )}
 
@@ -10,7 +10,7 @@ import OperationGenericRow from './OperationGenericRow';
 import type { OperationListItem } from './OperationWindow';
 
 interface Props {
-  viewMode: 'files' | 'list';
+  viewMode: 'files' | 'list' | 'commands';
   filteredFiles: FileItem[];
   filteredItems: OperationListItem[];
   selectedIndex: number;
@@ -75,7 +75,9 @@ export default function OperationVirtualList({
         <div style={{ padding: '20px', textAlign: 'center', color: colors.mutedFg }}>
           {viewMode === 'files'
             ? t('operationWindow.noFilesFound')
-            : t('operationWindow.noItemsFound')}
+            : viewMode === 'commands'
+              ? t('operationWindow.noCommandsFound')
+              : t('operationWindow.noItemsFound')}
         </div>
       </div>
     );
@@ -4,13 +4,14 @@ import MdPreviewDialog from '@/components/Top/MdPreviewDialog';
 import { flattenFileItems, scoreMatch } from '@/components/Top/OperationWindow/OperationUtils';
 import OperationVirtualList from '@/components/Top/OperationWindow/OperationVirtualList';
 import type React from 'react';
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { createPortal } from 'react-dom';
 
 import { useTranslation } from '@/context/I18nContext';
 import { useTheme } from '@/context/ThemeContext';
+import { commandPaletteRegistry } from '@/engine/commands/CommandPaletteRegistry';
 import { type GitIgnoreRule, isPathIgnored, parseGitignore } from '@/engine/core/gitignore';
-import { formatKeyComboForDisplay } from '@/hooks/keybindings/useKeyBindings';
+import { formatKeyComboForDisplay, useKeyBindings } from '@/hooks/keybindings/useKeyBindings';
 import { useSettings } from '@/hooks/state/useSettings';
 import { tabActions } from '@/stores/tabState';
 import type { FileItem } from '@/types';
@@ -22,6 +23,7 @@ export interface OperationListItem {
   icon?: React.ReactNode | string; // URL string or Component
   onClick?: () => void;
   isActive?: boolean;
+  shortcut?: string; // 右端に表示するショートカットキー（表示用に整形済み）
   // Editing state
   isEditing?: boolean;
   editValue?: string;
@@ -57,6 +59,7 @@ interface OperationWindowProps {
   }[];
 
   initialView?: 'files' | 'list';
+  initialQuery?: string; // 開いた時の検索文字列（'>' で始まるとコマンドパレット）
 }
 
 export default function OperationWindow({
@@ -71,6 +74,7 @@ export default function OperationWindow({
   onSearchList,
   headerActions,
   initialView,
+  initialQuery,
 }: OperationWindowProps) {
   const { colors } = useTheme();
   const { t } = useTranslation();
@@ -86,22 +90,30 @@ export default function OperationWindow({
     typeof document !== 'undefined' ? document.createElement('div') : null
   );
   const { isExcluded } = useSettings();
+  const { bindings } = useKeyBindings();
+  // '>' で始まる場合はファイル検索ではなくコマンドパレット
+  const isCommandMode = !aiMode && viewMode === 'files' && searchQuery.startsWith('>');
+  const activeView: 'files' | 'list' | 'commands' = isCommandMode ? 'commands' : viewMode;
   // 検索クエリをスペースで分割してトークンにする（スペースは区切り）
-  const queryTokens = useMemo(() => searchQuery.trim().split(/\s+/).filter(Boolean), [searchQuery]);
+  const queryTokens = useMemo(
+    () => (isCommandMode ? searchQuery.slice(1) : searchQuery).trim().split(/\s+/).filter(Boolean),
+    [searchQuery, isCommandMode]
+  );
   // 固定アイテム高さを定義（スクロール計算と見た目の基準にする）
   const ITEM_HEIGHT = 20; // slightly more compact
 
   // Reset state when visibility changes
   useEffect(() => {
     if (isVisible) {
-      setSearchQuery('');
+      setSearchQuery(initialQuery ?? '');
       setSelectedIndex(0);
+      commandPaletteRegistry.loadRecent();
       // Focus input
       setTimeout(() => {
         inputRef.current?.focus();
       }, 100);
     }
-  }, [isVisible]);
+  }, [isVisible, initialQuery]);
 
   // Attach a top-level portal element to document.body so the overlay isn't clipped
   useEffect(() => {
@@ -340,7 +352,7 @@ export default function OperationWindow({
 
   // send search requests to worker when tokens change
   useEffect(() => {
-    if (viewMode !== 'files') return;
+    if (viewMode !== 'files' || isCommandMode) return;
 
     if (!queryTokens || queryTokens.length === 0) {
       setFilteredFiles(prev => (arraysEqualById(prev, allFiles) ? prev : allFiles));
@@ -362,10 +374,68 @@ export default function OperationWindow({
     // fallback to local compute if worker not available or postMessage failed
     const fallback = localComputeFilteredFiles(queryTokens, allFiles);
     setFilteredFiles(fallback);
-  }, [queryTokens, allFiles, viewMode]);
+  }, [queryTokens, allFiles, viewMode, isCommandMode]);
+
+  // コマンドパレットのコマンド（最近使った順 → カテゴリ・タイトル順）
+  const paletteCommands = useSyncExternalStore(
+    listener => commandPaletteRegistry.addChangeListener(listener),
+    () => commandPaletteRegistry.getAll(),
+    () => commandPaletteRegistry.getAll()
+  );
+
+  // コマンドをscoreMatchで絞り込む（同点なら最近使ったコマンドが上）
+  const filteredCommands: OperationListItem[] = useMemo(() => {
+    if (!isCommandMode) return [];
+    const combos = new Map(bindings.map(b => [b.id, b.combo]));
+    const recentIds = new Set(commandPaletteRegistry.getRecentIds());
+
+    const scored: Array<{ item: OperationListItem; score: number }> = [];
+    for (const command of paletteCommands) {
+      const label = command.category ? `${command.category}: ${command.title}` : command.title;
+      let totalScore = 0;
+      let matchedAll = true;
+
+      for (const token of queryTokens) {
+        const wordScores = command.title.split(/\s+/).map(word => scoreMatch(word, token));
+        const best = Math.max(
+          scoreMatch(command.title, token),
+          scoreMatch(label, token),
+          scoreMatch(command.category ?? '', token),
+          ...wordScores,
+          0
+        );
+        if (best <= 0) {
+          matchedAll = false;
+          break;
+        }
+        totalScore += best;
+      }
+      if (!matchedAll) continue;
+
+      const combo = command.keybindingId ? combos.get(command.keybindingId) : undefined;
+      scored.push({
+        score: queryTokens.length > 0 ? totalScore / queryTokens.length : 0,
+        item: {
+          id: command.id,
+          label,
+          description: recentIds.has(command.id) ? t('operationWindow.recentlyUsed') : undefined,
+          shortcut: combo ? formatKeyComboForDisplay(combo) : undefined,
+          onClick: () => {
+            onClose();
+            commandPaletteRegistry.execute(command.id);
+          },
+        },
+      });
+    }
+
+    // Array.prototype.sort は安定ソートなので、同点の場合はレジストリの順序（最近使った順）が残る
+    scored.sort((a, b) => b.score - a.score);
+    return scored.map(s => s.item);
+  }, [isCommandMode, paletteCommands, queryTokens, bindings, onClose, t]);
 
   // Filtering for GENERIC ITEMS (support multi-token AND search)
   const filteredItems: OperationListItem[] = useMemo(() => {
+    if (isCommandMode) return filteredCommands;
     if (viewMode !== 'list' || !items) return [];
     if (!queryTokens || queryTokens.length === 0) return items;
 
@@ -377,9 +447,9 @@ export default function OperationWindow({
       // require every token to be found in either label or description
       return lowerTokens.every(tok => label.includes(tok) || desc.includes(tok));
     });
-  }, [items, queryTokens, viewMode]);
+  }, [items, queryTokens, viewMode, isCommandMode, filteredCommands]);
 
-  const currentListLength = viewMode === 'files' ? filteredFiles.length : filteredItems.length;
+  const currentListLength = activeView === 'files' ? filteredFiles.length : filteredItems.length;
 
   // ESCキーで閉じる、上下キーで選択、Enterで開く
   useEffect(() => {
@@ -427,10 +497,10 @@ export default function OperationWindow({
         case 'Enter':
           // If we are in the search input, or just navigating
           // We need to trigger the action of the selected item
-          if (viewMode === 'files' && filteredFiles[selectedIndex]) {
+          if (activeView === 'files' && filteredFiles[selectedIndex]) {
             e.preventDefault();
             handleFileSelectInOperation(filteredFiles[selectedIndex]);
-          } else if (viewMode === 'list' && filteredItems[selectedIndex]) {
+          } else if (activeView !== 'files' && filteredItems[selectedIndex]) {
             e.preventDefault();
             filteredItems[selectedIndex].onClick?.();
           }
@@ -454,7 +524,7 @@ export default function OperationWindow({
     handleFileSelectInOperation,
     mdPreviewPrompt,
     mdDialogSelected,
-    viewMode,
+    activeView,
     currentListLength,
   ]);
 
@@ -543,9 +613,11 @@ export default function OperationWindow({
                   </div>
                 )}
                 <div style={{ fontSize: '12px', color: colors.mutedFg }}>
-                  {viewMode === 'files'
-                    ? `${t('operationWindow.quickOpen') || 'Quick Open'} - ${formatKeyComboForDisplay('Ctrl+P')}`
-                    : listTitle || 'List'}
+                  {activeView === 'commands'
+                    ? `${t('operationWindow.commandPalette')} - ${formatKeyComboForDisplay('Ctrl+Shift+P')}`
+                    : activeView === 'files'
+                      ? `${t('operationWindow.quickOpen') || 'Quick Open'} - ${formatKeyComboForDisplay('Ctrl+P')}`
+                      : listTitle || 'List'}
                 </div>
               </div>
             </div>
@@ -575,7 +647,7 @@ export default function OperationWindow({
           </div>
 
           <OperationVirtualList
-            viewMode={viewMode}
+            viewMode={activeView}
             filteredFiles={filteredFiles}
             filteredItems={filteredItems}
             selectedIndex={selectedIndex}
@@ -600,7 +672,11 @@ export default function OperationWindow({
               justifyContent: 'space-between',
             }}
           >
-            <span>{t('operationWindow.footerHelp')}</span>
+            <span>
+              {activeView === 'commands'
+                ? t('operationWindow.commandFooterHelp')
+                : t('operationWindow.footerHelp')}
+            </span>
             <span
               style={{
                 cursor: 'pointer',
@@ -1,5 +1,8 @@
 export const LOCALSTORAGE_KEY = {
   GEMINI_API_KEY: 'gemini-api-key',
+  OPENAI_API_KEY: 'pyxis-openai-api-key',
+  ANTHROPIC_API_KEY: 'pyxis-anthropic-api-key',
+  LOCAL_AI_API_KEY: 'pyxis-local-ai-api-key',
   RECENT_PROJECTS: 'pyxis-recent-projects',
   DEFAULT_EDITOR: 'pyxis-defaultEditor',
   LAST_EXECUTE_FILE: 'pyxis_last_executed_file',
@@ -6,7 +6,9 @@ import { type ReactNode, createContext, useContext, useState } from 'react';
 interface FileSelectorContextValue {
   isOpen: boolean;
   targetPaneId: string | null;
-  openFileSelector: (paneId: string) => void;
+  /** 開いた時の検索文字列（'>' ならコマンドパレット） */
+  initialQuery: string;
+  openFileSelector: (paneId: string, initialQuery?: string) => void;
   closeFileSelector: () => void;
 }
 
@@ -27,9 +29,11 @@ interface FileSelectorProviderProps {
 export const FileSelectorProvider: React.FC<FileSelectorProviderProps> = ({ children }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [targetPaneId, setTargetPaneId] = useState<string | null>(null);
+  const [initialQuery, setInitialQuery] = useState('');
 
-  const openFileSelector = (paneId: string) => {
+  const openFileSelector = (paneId: string, query = '') => {
     setTargetPaneId(paneId);
+    setInitialQuery(query);
     setIsOpen(true);
   };
 
@@ -43,6 +47,7 @@ export const FileSelectorProvider: React.FC<FileSelectorProviderProps> = ({ chil
       value={{
         isOpen,
         targetPaneId,
+        initialQuery,
         openFileSelector,
         closeFileSelector,
       }}
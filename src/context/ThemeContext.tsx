@@ -40,6 +40,9 @@ export type ThemeColors = {
   gitBranchOtherBg?: string;
   gitBranchOtherFg?: string;
   gitBranchOtherBorder?: string;
+  gitTagBg?: string;
+  gitTagFg?: string;
+  gitTagBorder?: string;
   [key: string]: any;
 };
 
@@ -0,0 +1,246 @@
+/**
+ * AI Agent Loop
+ *
+ * モデルにツールを1つずつ呼び出させ、結果を返しながらタスク完了まで繰り返す
+ * - ツール呼び出しはプロバイダー非依存のテキスト形式（<tool_call>{...}</tool_call>）
+ * - 各ステップは onStep で通知し、ファイル変更は onChanges で変更提案として通知する
+ */
+
+import {
+  type AgentFileChange,
+  type AgentTool,
+  createAgentTools,
+  describeAgentTools,
+} from './tools';
+
+import { generateAgentStep } from '@/engine/ai/fetchAI';
+import { AGENT_PROMPT_TEMPLATE } from '@/engine/ai/prompts';
+import type { AIProviderConfig } from '@/engine/ai/providers';
+import type { RetrievedSnippet } from '@/engine/ai/retrieval';
+import type { AIEditResponse } from '@/types';
+
+/** ステップ数の既定上限 */
+export const DEFAULT_AGENT_MAX_STEPS = 20;
+
+/** プロンプトに含めるツール出力の最大文字数 */
+const MAX_TOOL_OUTPUT = 6000;
+
+/** トランスクリプト上で引数の文字列を省略する長さ */
+const MAX_ARG_PREVIEW = 200;
+
+/**
+ * モデルが要求したツール呼び出し
+ */
+export interface AgentToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * 実行済みの1ステップ
+ */
+export interface AgentStep {
+  index: number;
+  /** ツール呼び出し前にモデルが書いた説明 */
+  thought: string;
+  tool: string;
+  args: Record<string, unknown>;
+  output: string;
+  isError: boolean;
+}
+
+export interface AgentRunOptions {
+  config: AIProviderConfig;
+  instruction: string;
+  projectId: string;
+  projectName: string;
+  /** ユーザーが選択したファイル（初期コンテキスト） */
+  files?: Array<{ path: string; content: string }>;
+  previousMessages?: Array<{
+    type: string;
+    content: string;
+    mode?: string;
+    editResponse?: AIEditResponse;
+  }>;
+  customInstructions?: string;
+  /** 検索インデックスから自動取得した関連スニペット */
+  relatedSnippets?: RetrievedSnippet[];
+  maxSteps?: number;
+  signal?: AbortSignal;
+  /** 使用するツール（省略時は createAgentTools()） */
+  tools?: AgentTool[];
+  onStep?: (step: AgentStep) => void | Promise<void>;
+  onChanges?: (changes: AgentFileChange[]) => void;
+}
+
+export interface AgentRunResult {
+  summary: string;
+  steps: AgentStep[];
+  changedFiles: AgentFileChange[];
+  /** ステップ上限に達して終了したかどうか */
+  reachedStepLimit: boolean;
+}
+
+/**
+ * レスポンスからツール呼び出しを抽出
+ * - ツール呼び出しがない場合は call: null（最終回答として扱う）
+ * - JSON が壊れている場合は error を返す（モデルに修正させる）
+ */
+export function parseToolCall(response: string): {
+  thought: string;
+  call: AgentToolCall | null;
+  error?: string;
+} {
+  const start = response.indexOf('<tool_call>');
+  if (start === -1) {
+    return { thought: response.trim(), call: null };
+  }
+
+  const thought = response.slice(0, start).trim();
+  const bodyStart = start + '<tool_call>'.length;
+  const end = response.indexOf('</tool_call>', bodyStart);
+  const body = response
+    .slice(bodyStart, end === -1 ? undefined : end)
+    .trim()
+    .replace(/^```(?:json)?\s*/, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    const parsed = JSON.parse(body) as { name?: unknown; arguments?: unknown };
+    if (typeof parsed.name !== 'string' || !parsed.name) {
+      return { thought, call: null, error: 'Tool call is missing "name"' };
+    }
+    const args =
+      parsed.arguments && typeof parsed.arguments === 'object'
+        ? (parsed.arguments as Record<string, unknown>)
+        : {};
+    return { thought, call: { name: parsed.name, arguments: args } };
+  } catch (e) {
+    return { thought, call: null, error: `Invalid tool call JSON: ${(e as Error).message}` };
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max
+    ? `${text.slice(0, max)}\n... (truncated ${text.length - max} chars)`
+    : text;
+}
+
+function formatArgs(args: Record<string, unknown>): string {
+  const preview = Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      typeof value === 'string' && value.length > MAX_ARG_PREVIEW
+        ? `${value.slice(0, MAX_ARG_PREVIEW)}...`
+        : value,
+    ])
+  );
+  return JSON.stringify(preview);
+}
+
+function formatTranscript(steps: AgentStep[]): string {
+  return steps
+    .map(step => {
+      const thought = step.thought ? `${step.thought}\n` : '';
+      const label = step.isError ? 'Error' : 'Result';
+      return `### Step ${step.index}\n${thought}Tool: ${step.tool} ${formatArgs(step.args)}\n${label}:\n\`\`\`\n${step.output}\n\`\`\``;
+    })
+    .join('\n\n');
+}
+
+/**
+ * エージェントループを実行
+ * - signal による中断時は AbortError をそのまま投げる
+ */
+export async function runAgent(options: AgentRunOptions): Promise<AgentRunResult> {
+  const tools = options.tools ?? createAgentTools();
+  const toolDescriptions = describeAgentTools(tools);
+  const maxSteps = options.maxSteps ?? DEFAULT_AGENT_MAX_STEPS;
+  const changes = new Map<string, AgentFileChange>();
+  const steps: AgentStep[] = [];
+  const ctx = {
+    projectId: options.projectId,
+    projectName: options.projectName,
+    changes,
+    signal: options.signal,
+  };
+
+  for (let index = 1; index <= maxSteps; index++) {
+    options.signal?.throwIfAborted();
+
+    const prompt = AGENT_PROMPT_TEMPLATE(
+      options.files ?? [],
+      options.instruction,
+      toolDescriptions,
+      formatTranscript(steps),
+      options.previousMessages,
+      options.customInstructions,
+      options.relatedSnippets
+    );
+    const response = await generateAgentStep(prompt, options.config, options.signal);
+    const { thought, call, error } = parseToolCall(response);
+
+    // ツール呼び出しなし: モデルの回答をそのまま最終結果とする
+    if (!call && !error) {
+      return {
+        summary: thought,
+        steps,
+        changedFiles: [...changes.values()],
+        reachedStepLimit: false,
+      };
+    }
+
+    const tool = call ? tools.find(t => t.name === call.name) : undefined;
+    if (tool?.terminal && call) {
+      const summary = await tool.execute(call.arguments, ctx);
+      return {
+        summary: summary || thought,
+        steps,
+        changedFiles: [...changes.values()],
+        reachedStepLimit: false,
+      };
+    }
+
+    const step: AgentStep = {
+      index,
+      thought,
+      tool: call?.name ?? 'invalid',
+      args: call?.arguments ?? {},
+      output: '',
+      isError: false,
+    };
+
+    const snapshot = [...changes.values()];
+    if (error || !call) {
+      step.output = error ?? 'Invalid tool call';
+      step.isError = true;
+    } else if (!tool) {
+      step.output = `Unknown tool: ${call.name}. Available tools: ${tools.map(t => t.name).join(', ')}`;
+      step.isError = true;
+    } else {
+      try {
+        step.output = truncate(await tool.execute(call.arguments, ctx), MAX_TOOL_OUTPUT);
+      } catch (e) {
+        options.signal?.throwIfAborted();
+        step.output = (e as Error).message;
+        step.isError = true;
+      }
+    }
+
+    steps.push(step);
+    await options.onStep?.(step);
+
+    // ツールが変更提案を追加・更新した場合のみ通知（recordChange は常に新しいオブジェクトを設定する）
+    const current = [...changes.values()];
+    if (current.length !== snapshot.length || current.some((c, i) => c !== snapshot[i])) {
+      options.onChanges?.(current);
+    }
+  }
+
+  return {
+    summary: `Stopped after reaching the step limit (${maxSteps}).`,
+    steps,
+    changedFiles: [...changes.values()],
+    reachedStepLimit: true,
+  };
+}
@@ -0,0 +1,363 @@
+/**
+ * AI Agent Tools
+ *
+ * エージェントモードでモデルが呼び出せるツール群
+ * - ファイル読み込みは fileRepository、検索は UnixCommands、コマンド実行は StreamShell を使う
+ * - ファイルの書き込みは実際には行わず、変更提案として記録する（適用は AIReviewTab 経由）
+ * - コマンドは専用のターミナルで実行し、コマンドが変更したファイルも元に戻して変更提案にする
+ */
+
+import { applySearchReplaceBlock } from '@/engine/ai/patchApplier';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository } from '@/engine/core/fileRepository';
+import { toAppPath, toFSPath } from '@/engine/core/pathUtils';
+import { addSaveListener } from '@/stores/tabState';
+import type { ProjectFile } from '@/types';
+
+/**
+ * エージェントが提案したファイル変更
+ */
+export interface AgentFileChange {
+  path: string;
+  originalContent: string;
+  suggestedContent: string;
+  explanation: string;
+  isNewFile: boolean;
+}
+
+/**
+ * ツール実行時のコンテキスト
+ */
+export interface AgentToolContext {
+  projectId: string;
+  projectName: string;
+  /** パスごとの変更提案（read_file はこちらを優先して返す） */
+  changes: Map<string, AgentFileChange>;
+  signal?: AbortSignal;
+}
+
+/**
+ * ツール定義
+ */
+export interface AgentTool {
+  name: string;
+  description: string;
+  /** 引数名 -> 説明（プロンプトに埋め込む） */
+  parameters: Record<string, string>;
+  /** ループを終了するツールかどうか */
+  terminal?: boolean;
+  execute(args: Record<string, unknown>, ctx: AgentToolContext): Promise<string>;
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`Missing required argument: ${key}`);
+  }
+  return value;
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * 現在の内容を取得（変更提案があればそちらを優先）
+ */
+async function readCurrentContent(
+  path: string,
+  ctx: AgentToolContext
+): Promise<{ content: string; exists: boolean }> {
+  const pending = ctx.changes.get(path);
+  if (pending) {
+    return { content: pending.suggestedContent, exists: true };
+  }
+  await fileRepository.init();
+  const file = await fileRepository.getFileByPath(ctx.projectId, path);
+  if (!file || file.type !== 'file') {
+    return { content: '', exists: false };
+  }
+  return { content: file.content ?? '', exists: true };
+}
+
+/**
+ * 変更提案を記録（元の内容は最初の提案時のものを保持する）
+ */
+async function recordChange(
+  path: string,
+  suggestedContent: string,
+  explanation: string,
+  ctx: AgentToolContext
+): Promise<void> {
+  const existing = ctx.changes.get(path);
+  if (existing) {
+    ctx.changes.set(path, {
+      ...existing,
+      suggestedContent,
+      explanation: explanation || existing.explanation,
+    });
+    return;
+  }
+  const original = await readCurrentContent(path, ctx);
+  ctx.changes.set(path, {
+    path,
+    originalContent: original.content,
+    suggestedContent,
+    explanation,
+    isNewFile: !original.exists,
+  });
+}
+
+// コマンドが直接書き込んでよいパス（依存関係・Git の内部データ）
+const UNREVIEWED_PATH_PREFIXES = ['/node_modules/', '/.git/'];
+
+// エージェント用ターミナルの連番（同時実行でも別のシェルを使う）
+let agentTerminalCount = 0;
+
+/**
+ * レビュー対象のテキストファイルを path -> ファイル で取得
+ */
+async function snapshotProjectFiles(projectId: string): Promise<Map<string, ProjectFile>> {
+  await fileRepository.init();
+  const files = await fileRepository.getProjectFiles(projectId);
+  return new Map(
+    files
+      .filter(
+        f =>
+          f.type === 'file' &&
+          !f.isBufferArray &&
+          !UNREVIEWED_PATH_PREFIXES.some(prefix => f.path.startsWith(prefix))
+      )
+      // コマンドの実行中に書き換えられても比較できるようコピーしておく
+      .map(f => [f.path, { ...f }])
+  );
+}
+
+/**
+ * コマンドによるファイル変更を元に戻し、変更提案として記録する
+ * @param userEdited - 実行中にユーザーが保存したパス（コマンドの変更ではないので触らない）
+ * @returns 結果に追記するメッセージ
+ */
+async function routeChangesToReview(
+  before: Map<string, ProjectFile>,
+  command: string,
+  ctx: AgentToolContext,
+  userEdited: Set<string>
+): Promise<string[]> {
+  const after = await snapshotProjectFiles(ctx.projectId);
+  const explanation = `Changed by \`${command}\``;
+  const queued: string[] = [];
+  const restored: string[] = [];
+
+  for (const [path, file] of after) {
+    if (userEdited.has(path)) continue;
+    const previous = before.get(path);
+    const content = file.content ?? '';
+    if (previous && (previous.content ?? '') === content) continue;
+    if (previous) {
+      await fileRepository.saveFileByPath(ctx.projectId, path, previous.content ?? '');
+    } else {
+      await fileRepository.deleteFile(file.id);
+    }
+    await recordChange(path, content, explanation, ctx);
+    queued.push(path);
+  }
+  for (const [path, file] of before) {
+    if (after.has(path) || userEdited.has(path)) continue;
+    await fileRepository.createFile(ctx.projectId, path, file.content ?? '', 'file');
+    restored.push(path);
+  }
+
+  const notes: string[] = [];
+  if (queued.length > 0) notes.push(`[file changes queued for review: ${queued.join(', ')}]`);
+  if (restored.length > 0) notes.push(`[deleted files were restored: ${restored.join(', ')}]`);
+  return notes;
+}
+
+async function runShell(command: string, ctx: AgentToolContext): Promise<string> {
+  // ユーザーのターミナルのジョブに影響しないよう、呼び出しごとに専用のターミナルを使う
+  const terminalId = `ai-agent-${++agentTerminalCount}`;
+  const shell = await terminalCommandRegistry.getShell(ctx.projectName, ctx.projectId, {
+    fileRepository,
+    terminalId,
+  });
+  if (!shell) {
+    throw new Error('Shell is not available');
+  }
+
+  const before = await snapshotProjectFiles(ctx.projectId);
+  // 実行中にエディタで保存されたファイルはユーザーの編集なので、元に戻さず提案にも含めない
+  const userEdited = new Set<string>();
+  const removeSaveListener = addSaveListener((path, success) => {
+    if (success) userEdited.add(toAppPath(path));
+  });
+  // 中断時はフォアグラウンドプロセスへ SIGINT を送る
+  const onAbort = () => shell.killForeground('SIGINT');
+  ctx.signal?.addEventListener('abort', onAbort);
+  try {
+    const result = await shell.run(command);
+    const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+    const notes = await routeChangesToReview(before, command, ctx, userEdited);
+    return [`${output}\n[exit code: ${result.code ?? 'unknown'}]`.trim(), ...notes].join('\n');
+  } finally {
+    ctx.signal?.removeEventListener('abort', onAbort);
+    removeSaveListener();
+    terminalCommandRegistry.disposeTerminal(ctx.projectId, terminalId);
+  }
+}
+
+const readFileTool: AgentTool = {
+  name: 'read_file',
+  description: 'Read the current content of a file (including changes you already proposed).',
+  parameters: { path: 'Project-relative file path, e.g. "/src/index.ts"' },
+  async execute(args, ctx) {
+    const path = toAppPath(requireString(args, 'path'));
+    const { content, exists } = await readCurrentContent(path, ctx);
+    if (!exists) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  },
+};
+
+const grepTool: AgentTool = {
+  name: 'grep',
+  description: 'Search file contents recursively with grep (line numbers included).',
+  parameters: {
+    pattern: 'Regular expression to search for',
+    path: 'Optional directory or file to search (default: project root)',
+    flags: 'Optional extra grep flags, e.g. "-i" or "--include=*.ts"',
+  },
+  async execute(args, ctx) {
+    const pattern = requireString(args, 'pattern');
+    const target = toFSPath(ctx.projectName, optionalString(args, 'path'));
+    const flags = (optionalString(args, 'flags') ?? '').split(/\s+/).filter(Boolean);
+    const unix = terminalCommandRegistry.getUnixCommands(ctx.projectName, ctx.projectId);
+    const output = await unix.grep(['-rn', ...flags, '-e', pattern, target]);
+    return output || '(no matches)';
+  },
+};
+
+const findTool: AgentTool = {
+  name: 'find',
+  description: 'List files and directories with find.',
+  parameters: {
+    path: 'Optional directory to search (default: project root)',
+    name: 'Optional basename glob, e.g. "*.test.ts"',
+    type: 'Optional "f" for files or "d" for directories',
+  },
+  async execute(args, ctx) {
+    const findArgs = [toFSPath(ctx.projectName, optionalString(args, 'path'))];
+    const name = optionalString(args, 'name');
+    const type = optionalString(args, 'type');
+    if (name) findArgs.push('-name', name);
+    if (type === 'f' || type === 'd') findArgs.push('-type', type);
+    const unix = terminalCommandRegistry.getUnixCommands(ctx.projectName, ctx.projectId);
+    const output = await unix.find(findArgs);
+    return output || '(no results)';
+  },
+};
+
+const runCommandTool: AgentTool = {
+  name: 'run_command',
+  description:
+    'Run a shell command in a separate terminal (pipes, redirects, npm and node are supported). Do not use it to modify files; use write_file or edit_file instead. Files changed by the command are reverted and queued for user review.',
+  parameters: { command: 'Command line to execute' },
+  async execute(args, ctx) {
+    return runShell(requireString(args, 'command'), ctx);
+  },
+};
+
+const runTestsTool: AgentTool = {
+  name: 'run_tests',
+  description: 'Run the project tests and return their output.',
+  parameters: { command: 'Optional test command (default: "npm test")' },
+  async execute(args, ctx) {
+    return runShell(optionalString(args, 'command') ?? 'npm test', ctx);
+  },
+};
+
+const writeFileTool: AgentTool = {
+  name: 'write_file',
+  description:
+    'Propose the full new content of a file (creates the file if it does not exist). The change is queued for user review.',
+  parameters: {
+    path: 'Project-relative file path',
+    content: 'Complete new file content',
+    reason: 'Short explanation of the change',
+  },
+  async execute(args, ctx) {
+    const path = toAppPath(requireString(args, 'path'));
+    const content = typeof args.content === 'string' ? args.content : '';
+    await recordChange(path, content, optionalString(args, 'reason') ?? '', ctx);
+    return `Queued change for ${path} (${content.split('\n').length} lines) for review.`;
+  },
+};
+
+const editFileTool: AgentTool = {
+  name: 'edit_file',
+  description:
+    'Replace an exact snippet in a file. "search" must match the current content (3-5 lines of context recommended). The change is queued for user review.',
+  parameters: {
+    path: 'Project-relative file path',
+    search: 'Exact text to find',
+    replace: 'Replacement text',
+    reason: 'Short explanation of the change',
+  },
+  async execute(args, ctx) {
+    const path = toAppPath(requireString(args, 'path'));
+    const search = requireString(args, 'search');
+    const replace = typeof args.replace === 'string' ? args.replace : '';
+    const current = await readCurrentContent(path, ctx);
+    if (!current.exists) {
+      throw new Error(`File not found: ${path}. Use write_file to create it.`);
+    }
+    const result = applySearchReplaceBlock(current.content, { search, replace });
+    if (!result.success) {
+      throw new Error(result.error ?? `Could not apply edit to ${path}`);
+    }
+    await recordChange(path, result.content, optionalString(args, 'reason') ?? '', ctx);
+    return `Queued edit for ${path} for review.`;
+  },
+};
+
+const finishTool: AgentTool = {
+  name: 'finish',
+  description: 'Finish the task. Call this when the work is done or cannot continue.',
+  parameters: { summary: 'Summary of what was done, written for the user' },
+  terminal: true,
+  async execute(args) {
+    return optionalString(args, 'summary') ?? '';
+  },
+};
+
+/**
+ * 既定のツール一覧
+ */
+export function createAgentTools(): AgentTool[] {
+  return [
+    readFileTool,
+    grepTool,
+    findTool,
+    runCommandTool,
+    runTestsTool,
+    writeFileTool,
+    editFileTool,
+    finishTool,
+  ];
+}
+
+/**
+ * プロンプトに埋め込むツール説明を生成
+ */
+export function describeAgentTools(tools: AgentTool[]): string {
+  return tools
+    .map(tool => {
+      const params = Object.entries(tool.parameters)
+        .map(([name, description]) => `  - ${name}: ${description}`)
+        .join('\n');
+      return `### ${tool.name}\n${tool.description}${params ? `\n${params}` : ''}`;
+    })
+    .join('\n\n');
+}
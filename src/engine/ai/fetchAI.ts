@@ -1,80 +1,79 @@
-// src/utils/ai/geminiClient.ts
-const GEMINI_API_URL =
-  'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent';
+// AI生成のエントリーポイント（プロバイダーは settings.ai で切り替え）
+import {
+  type AIProviderConfig,
+  type AIStreamCallback,
+  generateText,
+  streamText,
+} from './providers';
 
-export async function generateCodeEdit(prompt: string, apiKey: string): Promise<string> {
-  if (!apiKey) throw new Error('Gemini API key is missing');
+const CODE_EDIT_PARAMS = {
+  temperature: 0.1, // より確実な回答のため温度を下げる
+  maxOutputTokens: 4096,
+};
 
-  try {
-    const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.1, // より確実な回答のため温度を下げる
-          maxOutputTokens: 4096,
-        },
-      }),
-    });
+const CHAT_PARAMS = {
+  temperature: 0.7,
+  maxOutputTokens: 2048,
+};
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+const AGENT_PARAMS = {
+  temperature: 0.2,
+  maxOutputTokens: 4096,
+};
 
-    const data = await response.json();
-    const result = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    console.log('[original response]', result);
-
-    if (!result) {
-      throw new Error('No response from Gemini API');
-    }
+function buildChatPrompt(message: string, context: string[]): string {
+  const contextText = context.length > 0 ? `\n\n参考コンテキスト:\n${context.join('\n---\n')}` : '';
+  return `${message}${contextText}`;
+}
 
-    return result;
-  } catch (error) {
-    throw new Error(`Gemini API error: ${(error as Error).message}`);
-  }
+export async function generateCodeEdit(prompt: string, config: AIProviderConfig): Promise<string> {
+  return generateText(config, { prompt, ...CODE_EDIT_PARAMS });
 }
 
 export async function generateChatResponse(
   message: string,
   context: string[],
-  apiKey: string
+  config: AIProviderConfig
 ): Promise<string> {
-  if (!apiKey) throw new Error('Gemini API key is missing');
-
-  const contextText = context.length > 0 ? `\n\n参考コンテキスト:\n${context.join('\n---\n')}` : '';
-
-  const prompt = `${message}${contextText}`;
-
-  try {
-    const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 2048,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+  return generateText(config, { prompt: buildChatPrompt(message, context), ...CHAT_PARAMS });
+}
 
-    const data = await response.json();
-    const result = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+/**
+ * エージェントの次の1ステップ（ツール呼び出し）を生成（signal で中断可能）
+ */
+export async function generateAgentStep(
+  prompt: string,
+  config: AIProviderConfig,
+  signal?: AbortSignal
+): Promise<string> {
+  return generateText(config, { prompt, ...AGENT_PARAMS, signal });
+}
 
-    if (!result) {
-      throw new Error('No response from Gemini API');
-    }
-    console.log('[original response]', result);
+/**
+ * コード編集レスポンスをストリーミングで取得（signal で中断可能）
+ */
+export async function streamCodeEdit(
+  prompt: string,
+  config: AIProviderConfig,
+  onChunk: AIStreamCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  return streamText(config, { prompt, ...CODE_EDIT_PARAMS, signal }, onChunk);
+}
 
-    return result;
-  } catch (error) {
-    throw new Error(`Gemini API error: ${(error as Error).message}`);
-  }
+/**
+ * チャットレスポンスをストリーミングで取得（signal で中断可能）
+ */
+export async function streamChatResponse(
+  message: string,
+  context: string[],
+  config: AIProviderConfig,
+  onChunk: AIStreamCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  return streamText(
+    config,
+    { prompt: buildChatPrompt(message, context), ...CHAT_PARAMS, signal },
+    onChunk
+  );
 }
@@ -538,6 +538,104 @@ export function parseSearchReplaceBlocks(text: string): SearchReplaceBlock[] {
   return blocks;
 }
 
+/**
+ * Event emitted by StreamingPatchParser when a block closes
+ */
+export interface StreamedPatchEvent {
+  filePath: string;
+  block?: SearchReplaceBlock; // Completed SEARCH/REPLACE block
+  fullContent?: string; // Completed NEW_FILE block
+}
+
+const STREAM_FILE_HEADER = /###\s*File:[ \t]*(.+?)[ \t]*\n/g;
+
+/**
+ * Incremental parser for streamed AI responses
+ *
+ * Feed chunks as they arrive; each SEARCH/REPLACE or NEW_FILE block is
+ * reported as soon as its closing marker has been received, attributed to
+ * the most recent "### File:" header.
+ */
+export class StreamingPatchParser {
+  private buffer = '';
+  private position = 0;
+  private currentFile: string | null = null;
+
+  /**
+   * Append a chunk and return the blocks completed by it
+   */
+  push(chunk: string): StreamedPatchEvent[] {
+    this.buffer += chunk;
+    return this.drain();
+  }
+
+  /**
+   * Full text received so far (line endings normalized)
+   */
+  get text(): string {
+    return normalizeLineEndings(this.buffer);
+  }
+
+  private drain(): StreamedPatchEvent[] {
+    const events: StreamedPatchEvent[] = [];
+    const text = this.text;
+
+    while (this.position < text.length) {
+      STREAM_FILE_HEADER.lastIndex = this.position;
+      const header = STREAM_FILE_HEADER.exec(text);
+      const headerIndex = header ? header.index : -1;
+      const searchIndex = text.indexOf('<<<<<<< SEARCH', this.position);
+      const newFileIndex = text.indexOf('<<<<<<< NEW_FILE', this.position);
+
+      const candidates = [headerIndex, searchIndex, newFileIndex].filter(i => i !== -1);
+      if (candidates.length === 0) break;
+      const next = Math.min(...candidates);
+
+      if (header && next === headerIndex) {
+        this.currentFile = header[1].trim();
+        this.position = headerIndex + header[0].length;
+        continue;
+      }
+
+      if (next === searchIndex) {
+        const markerEnd = text.indexOf('\n', searchIndex);
+        if (markerEnd === -1) break;
+        const separator = text.indexOf('\n=======\n', markerEnd);
+        if (separator === -1) break;
+        const replaceEnd = text.indexOf('\n>>>>>>> REPLACE', separator);
+        if (replaceEnd === -1) break;
+
+        if (this.currentFile) {
+          events.push({
+            filePath: this.currentFile,
+            block: {
+              search: text.substring(markerEnd + 1, separator),
+              replace: text.substring(separator + 9, replaceEnd),
+            },
+          });
+        }
+        this.position = replaceEnd + 16;
+        continue;
+      }
+
+      const markerEnd = text.indexOf('\n', newFileIndex);
+      if (markerEnd === -1) break;
+      const newFileEnd = text.indexOf('\n>>>>>>> NEW_FILE', markerEnd);
+      if (newFileEnd === -1) break;
+
+      if (this.currentFile) {
+        events.push({
+          filePath: this.currentFile,
+          fullContent: text.substring(markerEnd + 1, newFileEnd),
+        });
+      }
+      this.position = newFileEnd + 17;
+    }
+
+    return events;
+  }
+}
+
 /**
  * Validate that search text exists in content
  */
@@ -5,6 +5,8 @@
  * for precise, minimal code changes.
  */
 
+import type { AIEditResponse } from '@/types';
+
 const SYSTEM_PROMPT = `You are an expert code editing assistant. You receive code editing instructions and provide precise, minimal changes.
 
 CRITICAL: You MUST follow the exact response format below. Do not deviate from this format.
@@ -92,7 +94,12 @@ function greet(name: string, greeting: string = "Hello") {
  * - Assistant messages (ask): answer content
  */
 function formatHistoryMessages(
-  previousMessages?: Array<{ type: string; content: string; mode?: string; editResponse?: any }>
+  previousMessages?: Array<{
+    type: string;
+    content: string;
+    mode?: string;
+    editResponse?: AIEditResponse;
+  }>
 ): string {
   if (!previousMessages || previousMessages.length === 0) return '';
 
@@ -107,9 +114,7 @@ function formatHistoryMessages(
       if (msg.type === 'assistant' && msg.mode === 'edit' && msg.editResponse) {
         const files = msg.editResponse.changedFiles || [];
         if (files.length > 0) {
-          const summary = files
-            .map((f: any) => `- ${f.path}: ${f.explanation || 'modified'}`)
-            .join('\n');
+          const summary = files.map(f => `- ${f.path}: ${f.explanation || 'modified'}`).join('\n');
           return `### ${role} ${modeLabel}\nChanged files:\n${summary}`;
         }
       }
@@ -140,14 +145,45 @@ ${customInstructions}
 `;
 }
 
+/**
+ * Format snippets retrieved automatically from the project index
+ */
+function formatRelatedSnippets(
+  snippets?: Array<{ path: string; startLine: number; endLine: number; content: string }>
+): string {
+  if (!snippets || snippets.length === 0) return '';
+
+  const body = snippets
+    .map(
+      snippet => `
+### ${snippet.path} (lines ${snippet.startLine}-${snippet.endLine})
+\`\`\`
+${snippet.content}
+\`\`\`
+`
+    )
+    .join('\n');
+
+  return `## Related Snippets (automatically retrieved, may be partial)
+${body}
+`;
+}
+
 export const ASK_PROMPT_TEMPLATE = (
   files: Array<{ path: string; content: string }>,
   question: string,
-  previousMessages?: Array<{ type: string; content: string; mode?: string; editResponse?: any }>,
-  customInstructions?: string
+  previousMessages?: Array<{
+    type: string;
+    content: string;
+    mode?: string;
+    editResponse?: AIEditResponse;
+  }>,
+  customInstructions?: string,
+  relatedSnippets?: Array<{ path: string; startLine: number; endLine: number; content: string }>
 ) => {
   const history = formatHistoryMessages(previousMessages);
   const customInstr = formatCustomInstructions(customInstructions);
+  const related = formatRelatedSnippets(relatedSnippets);
 
   const fileContexts = files
     .map(
@@ -164,8 +200,7 @@ ${file.content}
 
 ${customInstr}${history ? `## Conversation History\n${history}\n` : ''}
 
-${fileContexts ? `## Provided Files\n${fileContexts}\n` : ''}
-
+${fileContexts ? `## Provided Files\n${fileContexts}\n` : ''}${related}
 ## Question
 ${question}
 
@@ -176,11 +211,18 @@ Provide a clear, helpful response. Use code blocks when showing code examples.`;
 export const EDIT_PROMPT_TEMPLATE = (
   files: Array<{ path: string; content: string }>,
   instruction: string,
-  previousMessages?: Array<{ type: string; content: string; mode?: string; editResponse?: any }>,
-  customInstructions?: string
+  previousMessages?: Array<{
+    type: string;
+    content: string;
+    mode?: string;
+    editResponse?: AIEditResponse;
+  }>,
+  customInstructions?: string,
+  relatedSnippets?: Array<{ path: string; startLine: number; endLine: number; content: string }>
 ) => {
   const history = formatHistoryMessages(previousMessages);
   const customInstr = formatCustomInstructions(customInstructions);
+  const related = formatRelatedSnippets(relatedSnippets);
 
   // Current file contents (these are the editing targets)
   const fileContexts = files
@@ -201,7 +243,7 @@ ${customInstr}${history ? `## Conversation History\n${history}\n` : ''}
 ## Files to Edit (Current State)
 ${fileContexts}
 
-## Edit Instructions
+${related}## Edit Instructions
 ${instruction}
 
 ---
@@ -221,7 +263,12 @@ IMPORTANT REMINDERS:
 export const EDIT_PROMPT_TEMPLATE_LEGACY = (
   files: Array<{ path: string; content: string }>,
   instruction: string,
-  previousMessages?: Array<{ type: string; content: string; mode?: string; editResponse?: any }>,
+  previousMessages?: Array<{
+    type: string;
+    content: string;
+    mode?: string;
+    editResponse?: AIEditResponse;
+  }>,
   customInstructions?: string
 ) => {
   const history = formatHistoryMessages(previousMessages);
@@ -281,3 +328,68 @@ New File Format:
 <AI_EDIT_CONTENT_END:[new/filepath]>
 ---`;
 };
+
+/**
+ * Agent mode - the model calls tools step by step until the task is done
+ */
+export const AGENT_PROMPT_TEMPLATE = (
+  files: Array<{ path: string; content: string }>,
+  instruction: string,
+  toolDescriptions: string,
+  transcript: string,
+  previousMessages?: Array<{
+    type: string;
+    content: string;
+    mode?: string;
+    editResponse?: AIEditResponse;
+  }>,
+  customInstructions?: string,
+  relatedSnippets?: Array<{ path: string; startLine: number; endLine: number; content: string }>
+) => {
+  const history = formatHistoryMessages(previousMessages);
+  const customInstr = formatCustomInstructions(customInstructions);
+  const related = formatRelatedSnippets(relatedSnippets);
+
+  const fileContexts = files
+    .map(
+      file => `
+## File: ${file.path}
+\`\`\`
+${file.content}
+\`\`\`
+`
+    )
+    .join('\n');
+
+  return `You are an autonomous coding agent working inside a browser-based IDE. You complete the user's task by calling tools one at a time and reading their results.
+
+## Response Format
+
+Every response MUST contain exactly ONE tool call in this format:
+
+<tool_call>
+{"name": "tool_name", "arguments": {"arg": "value"}}
+</tool_call>
+
+You may write a short explanation of your reasoning before the tool call. The arguments MUST be valid JSON (escape newlines and quotes inside strings).
+
+## Available Tools
+
+${toolDescriptions}
+
+## Rules
+
+1. Read files before editing them; never guess file contents
+2. File changes are NOT written immediately - they are queued for the user to review
+3. Prefer edit_file for small changes and write_file for new files
+4. Run the tests after making changes when the project has tests
+5. Call finish with a summary when the task is done. Match the user's language in the summary
+
+${customInstr}${history ? `## Conversation History\n${history}\n` : ''}
+${fileContexts ? `## Provided Files\n${fileContexts}\n` : ''}${related}
+## Task
+${instruction}
+${transcript ? `\n## Previous Steps\n${transcript}\n` : ''}
+---
+Respond with your next tool call.`;
+};
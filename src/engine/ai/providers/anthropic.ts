@@ -0,0 +1,95 @@
+/**
+ * Anthropic (Messages API) プロバイダー
+ */
+
+import { LOCALSTORAGE_KEY } from '@/constants/config';
+
+import { postJson, readEventStream, resolveGenerationParams } from './request';
+import type { AIGenerateRequest, AIProvider, AIProviderConfig } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface MessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+function buildHeaders(config: AIProviderConfig): Record<string, string> {
+  return {
+    'x-api-key': config.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    // ブラウザから直接呼び出すために必要
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+}
+
+function buildBody(config: AIProviderConfig, request: AIGenerateRequest, stream: boolean) {
+  const { temperature, maxOutputTokens } = resolveGenerationParams(config, request);
+  return {
+    model: config.model,
+    messages: [{ role: 'user', content: request.prompt }],
+    temperature,
+    max_tokens: maxOutputTokens,
+    stream,
+  };
+}
+
+export const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  defaultModel: 'claude-3-5-haiku-latest',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  requiresApiKey: true,
+  apiKeyStorageKey: LOCALSTORAGE_KEY.ANTHROPIC_API_KEY,
+
+  async generate(config, request) {
+    const response = await postJson(
+      `${config.baseUrl}/messages`,
+      buildHeaders(config),
+      buildBody(config, request, false),
+      request.signal
+    );
+
+    const data: MessagesResponse = await response.json();
+    const blocks = data?.content ?? [];
+    const result = blocks
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+    if (!result) {
+      throw new Error('No response from Anthropic API');
+    }
+    return result;
+  },
+
+  async stream(config, request, onChunk) {
+    const response = await postJson(
+      `${config.baseUrl}/messages`,
+      buildHeaders(config),
+      buildBody(config, request, true),
+      request.signal
+    );
+
+    let result = '';
+    await readEventStream<MessagesStreamEvent>(response, data => {
+      if (data?.type === 'error') {
+        throw new Error(data.error?.message ?? 'Stream error');
+      }
+      if (data?.type !== 'content_block_delta' || data.delta?.type !== 'text_delta') return;
+      const chunk = data.delta.text ?? '';
+      if (!chunk) return;
+      result += chunk;
+      onChunk(chunk);
+    });
+
+    if (!result) {
+      throw new Error('No response from Anthropic API');
+    }
+    return result;
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Gemini (Google Generative Language API) プロバイダー
+ */
+
+import { LOCALSTORAGE_KEY } from '@/constants/config';
+
+import { postJson, readEventStream, resolveGenerationParams } from './request';
+import type { AIGenerateRequest, AIProvider, AIProviderConfig } from './types';
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+}
+
+function buildBody(config: AIProviderConfig, request: AIGenerateRequest) {
+  const { temperature, maxOutputTokens } = resolveGenerationParams(config, request);
+  return {
+    contents: [{ parts: [{ text: request.prompt }] }],
+    generationConfig: { temperature, maxOutputTokens },
+  };
+}
+
+function buildUrl(config: AIProviderConfig, method: string, query = ''): string {
+  return `${config.baseUrl}/models/${encodeURIComponent(config.model)}:${method}?${query}key=${config.apiKey}`;
+}
+
+function extractText(data: GeminiResponse): string {
+  const parts = data?.candidates?.[0]?.content?.parts ?? [];
+  return parts.map(part => part.text ?? '').join('');
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+  apiKeyStorageKey: LOCALSTORAGE_KEY.GEMINI_API_KEY,
+
+  async generate(config, request) {
+    const response = await postJson(
+      buildUrl(config, 'generateContent'),
+      {},
+      buildBody(config, request),
+      request.signal
+    );
+
+    const result = extractText(await response.json());
+    if (!result) {
+      throw new Error('No response from Gemini API');
+    }
+    return result;
+  },
+
+  async stream(config, request, onChunk) {
+    const response = await postJson(
+      buildUrl(config, 'streamGenerateContent', 'alt=sse&'),
+      {},
+      buildBody(config, request),
+      request.signal
+    );
+
+    let result = '';
+    await readEventStream<GeminiResponse>(response, data => {
+      const chunk = extractText(data);
+      if (!chunk) return;
+      result += chunk;
+      onChunk(chunk);
+    });
+
+    if (!result) {
+      throw new Error('No response from Gemini API');
+    }
+    return result;
+  },
+};
@@ -0,0 +1,142 @@
+/**
+ * AI Provider Registry
+ *
+ * - プロバイダーの登録・取得
+ * - .pyxis/settings.json の ai セクションと localStorage のAPIキーから実行設定を解決
+ */
+
+import { settingsManager } from '@/engine/helper/settingsManager';
+import { type AIProviderId, DEFAULT_PYXIS_SETTINGS, type PyxisSettings } from '@/types/settings';
+
+import { anthropicProvider } from './anthropic';
+import { geminiProvider } from './gemini';
+import { localProvider, openaiProvider } from './openaiCompatible';
+import type { AIGenerateRequest, AIProvider, AIProviderConfig, AIStreamCallback } from './types';
+
+export type { AIGenerateRequest, AIProvider, AIProviderConfig, AIStreamCallback } from './types';
+
+const providers: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+};
+
+/**
+ * 登録済みプロバイダーの一覧
+ */
+export function listAIProviders(): AIProvider[] {
+  return Object.values(providers);
+}
+
+/**
+ * プロバイダーを取得（未知のIDはGeminiにフォールバック）
+ */
+export function getAIProvider(id: AIProviderId | string | undefined): AIProvider {
+  return providers[id as AIProviderId] ?? geminiProvider;
+}
+
+/**
+ * プロバイダーのAPIキーを取得
+ */
+export function getAIApiKey(id: AIProviderId): string {
+  if (typeof localStorage === 'undefined') return '';
+  return localStorage.getItem(getAIProvider(id).apiKeyStorageKey) || '';
+}
+
+/**
+ * プロバイダーのAPIキーを保存
+ */
+export function setAIApiKey(id: AIProviderId, apiKey: string): void {
+  localStorage.setItem(getAIProvider(id).apiKeyStorageKey, apiKey);
+}
+
+/**
+ * settings.ai とAPIキーから実行設定を組み立てる
+ */
+export function resolveAIConfig(
+  aiSettings: PyxisSettings['ai'] | undefined,
+  apiKey?: string
+): AIProviderConfig {
+  const settings = { ...DEFAULT_PYXIS_SETTINGS.ai, ...aiSettings };
+  const provider = getAIProvider(settings.provider);
+  const baseUrl = (settings.baseUrl?.trim() || provider.defaultBaseUrl).replace(/\/+$/, '');
+
+  return {
+    provider: provider.id,
+    model: settings.model?.trim() || provider.defaultModel,
+    baseUrl,
+    apiKey: apiKey ?? getAIApiKey(provider.id),
+    temperature: settings.temperature,
+    maxOutputTokens: settings.maxOutputTokens,
+  };
+}
+
+/**
+ * プロジェクトの設定を読み込んで実行設定を解決
+ * projectId が無い場合はデフォルト設定（Gemini）を使う
+ */
+export async function loadAIConfig(projectId?: string | null): Promise<AIProviderConfig> {
+  if (!projectId) return resolveAIConfig(undefined);
+  const settings = await settingsManager.loadSettings(projectId);
+  return resolveAIConfig(settings.ai);
+}
+
+/**
+ * APIキー等、リクエストに必要な設定が揃っているか
+ */
+export function isAIConfigReady(config: AIProviderConfig): boolean {
+  return !getAIProvider(config.provider).requiresApiKey || !!config.apiKey;
+}
+
+/**
+ * AbortController による中断かどうか
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * プロバイダー呼び出しの共通処理（キーの検証とエラーメッセージの整形）
+ * 中断エラーは呼び出し側で判別できるようそのまま投げ直す
+ */
+async function runWithProvider(
+  config: AIProviderConfig,
+  call: (provider: AIProvider) => Promise<string>
+): Promise<string> {
+  const provider = getAIProvider(config.provider);
+  if (!isAIConfigReady(config)) {
+    throw new Error(`${provider.name} API key is missing`);
+  }
+
+  try {
+    const result = await call(provider);
+    console.log('[original response]', result);
+    return result;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new Error(`${provider.name} API error: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 設定されたプロバイダーでテキストを生成
+ */
+export async function generateText(
+  config: AIProviderConfig,
+  request: AIGenerateRequest
+): Promise<string> {
+  return runWithProvider(config, provider => provider.generate(config, request));
+}
+
+/**
+ * 設定されたプロバイダーでテキストをストリーミング生成
+ * - 受信した断片ごとに onChunk を呼び、完了時に全文を返す
+ */
+export async function streamText(
+  config: AIProviderConfig,
+  request: AIGenerateRequest,
+  onChunk: AIStreamCallback
+): Promise<string> {
+  return runWithProvider(config, provider => provider.stream(config, request, onChunk));
+}
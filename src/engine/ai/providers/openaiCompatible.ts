@@ -0,0 +1,113 @@
+/**
+ * OpenAI互換 (chat/completions) プロバイダー
+ * - OpenAI 本家と、llama.cpp server 等のローカルOpenAI互換サーバーで共用
+ */
+
+import { LOCALSTORAGE_KEY } from '@/constants/config';
+
+import { postJson, readEventStream, resolveGenerationParams } from './request';
+import type { AIGenerateRequest, AIProvider, AIProviderConfig, AIStreamCallback } from './types';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+function buildHeaders(config: AIProviderConfig): Record<string, string> {
+  return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+}
+
+function buildBody(config: AIProviderConfig, request: AIGenerateRequest, stream: boolean) {
+  const { temperature, maxOutputTokens } = resolveGenerationParams(config, request);
+  return {
+    model: config.model,
+    messages: [{ role: 'user', content: request.prompt }],
+    temperature,
+    max_tokens: maxOutputTokens,
+    stream,
+  };
+}
+
+async function generateChatCompletion(
+  providerName: string,
+  config: AIProviderConfig,
+  request: AIGenerateRequest
+): Promise<string> {
+  const response = await postJson(
+    `${config.baseUrl}/chat/completions`,
+    buildHeaders(config),
+    buildBody(config, request, false),
+    request.signal
+  );
+
+  const data: ChatCompletionResponse = await response.json();
+  const result = data?.choices?.[0]?.message?.content;
+  if (!result) {
+    throw new Error(`No response from ${providerName} API`);
+  }
+  return result;
+}
+
+async function streamChatCompletion(
+  providerName: string,
+  config: AIProviderConfig,
+  request: AIGenerateRequest,
+  onChunk: AIStreamCallback
+): Promise<string> {
+  const response = await postJson(
+    `${config.baseUrl}/chat/completions`,
+    buildHeaders(config),
+    buildBody(config, request, true),
+    request.signal
+  );
+
+  let result = '';
+  await readEventStream<ChatCompletionChunk>(response, data => {
+    const chunk = data?.choices?.[0]?.delta?.content;
+    if (!chunk) return;
+    result += chunk;
+    onChunk(chunk);
+  });
+
+  if (!result) {
+    throw new Error(`No response from ${providerName} API`);
+  }
+  return result;
+}
+
+export const openaiProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+  apiKeyStorageKey: LOCALSTORAGE_KEY.OPENAI_API_KEY,
+
+  generate(config, request) {
+    return generateChatCompletion('OpenAI', config, request);
+  },
+
+  stream(config, request, onChunk) {
+    return streamChatCompletion('OpenAI', config, request, onChunk);
+  },
+};
+
+export const localProvider: AIProvider = {
+  id: 'local',
+  name: 'Local (OpenAI compatible)',
+  defaultModel: 'local-model',
+  defaultBaseUrl: 'http://localhost:8080/v1',
+  requiresApiKey: false,
+  apiKeyStorageKey: LOCALSTORAGE_KEY.LOCAL_AI_API_KEY,
+
+  generate(config, request) {
+    return generateChatCompletion('Local AI', config, request);
+  },
+
+  stream(config, request, onChunk) {
+    return streamChatCompletion('Local AI', config, request, onChunk);
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * プロバイダー共通のリクエストヘルパー
+ */
+
+import type { AIGenerateRequest, AIProviderConfig } from './types';
+
+/**
+ * settings.ai の値を優先して温度・最大トークン数を決定
+ */
+export function resolveGenerationParams(
+  config: AIProviderConfig,
+  request: AIGenerateRequest
+): { temperature: number; maxOutputTokens: number } {
+  return {
+    temperature: config.temperature ?? request.temperature,
+    maxOutputTokens: config.maxOutputTokens ?? request.maxOutputTokens,
+  };
+}
+
+/**
+ * エラーレスポンスから error.message を取り出す（取れなければ空文字）
+ */
+export async function readErrorDetail(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  const message = errorData?.error?.message;
+  return typeof message === 'string' && message ? ` - ${message}` : '';
+}
+
+/**
+ * JSON を POST し、エラーステータスなら例外にする
+ */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}${await readErrorDetail(response)}`);
+  }
+  return response;
+}
+
+/**
+ * Server-Sent Events のレスポンスを読み、各イベントの data 部を JSON として渡す
+ * - "[DONE]" や JSON でない data は無視する
+ */
+export async function readEventStream<T>(
+  response: Response,
+  onEvent: (data: T) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (rawEvent: string) => {
+    const data = rawEvent
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data || data === '[DONE]') return;
+    let parsed: T;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      // keep-alive 等の非JSONイベントは無視
+      return;
+    }
+    onEvent(parsed);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,77 @@
+/**
+ * AI Provider Interface
+ *
+ * AIプロバイダーの抽象インターフェース
+ * - Gemini / OpenAI互換 / Anthropic / ローカルサーバー等はこのインターフェースを実装
+ * - 使用するプロバイダーは .pyxis/settings.json の ai セクションで切り替える
+ */
+
+import type { AIProviderId } from '@/types/settings';
+
+/**
+ * 生成リクエスト
+ */
+export interface AIGenerateRequest {
+  /** 送信するプロンプト */
+  prompt: string;
+  /** 呼び出し側の既定温度（settings.ai.temperature が優先される） */
+  temperature: number;
+  /** 呼び出し側の既定最大出力トークン数（settings.ai.maxOutputTokens が優先される） */
+  maxOutputTokens: number;
+  /** リクエストを中断するためのシグナル */
+  signal?: AbortSignal;
+}
+
+/**
+ * ストリーミング時に受信したテキスト断片を受け取るコールバック
+ */
+export type AIStreamCallback = (chunk: string) => void;
+
+/**
+ * 解決済みのプロバイダー設定
+ * settings.ai とAPIキーを合成したもの
+ */
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  /** モデル名（解決済み） */
+  model: string;
+  /** ベースURL（末尾スラッシュなし、解決済み） */
+  baseUrl: string;
+  /** APIキー（不要なプロバイダーでは空文字） */
+  apiKey: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * AIプロバイダーインターフェース
+ */
+export interface AIProvider {
+  /** プロバイダーの識別子 */
+  readonly id: AIProviderId;
+  /** 表示名 */
+  readonly name: string;
+  /** モデル未指定時に使うモデル */
+  readonly defaultModel: string;
+  /** ベースURL未指定時に使うURL */
+  readonly defaultBaseUrl: string;
+  /** APIキーが必須かどうか */
+  readonly requiresApiKey: boolean;
+  /** APIキーを保存する localStorage のキー */
+  readonly apiKeyStorageKey: string;
+
+  /**
+   * テキストを生成
+   */
+  generate(config: AIProviderConfig, request: AIGenerateRequest): Promise<string>;
+
+  /**
+   * テキストをストリーミング生成
+   * - 受信した断片ごとに onChunk を呼び、完了時に全文を返す
+   */
+  stream(
+    config: AIProviderConfig,
+    request: AIGenerateRequest,
+    onChunk: AIStreamCallback
+  ): Promise<string>;
+}
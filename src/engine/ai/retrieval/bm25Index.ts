@@ -0,0 +1,181 @@
+/**
+ * BM25 Index
+ *
+ * ファイル単位の BM25 全文検索インデックス（純粋なデータ構造、永続化は呼び出し側で行う）
+ * - パス・シンボル名に一致した語はスコアを加算する
+ * - toJSON / fromJSON でシリアライズ可能
+ */
+
+import { extractSymbols, splitIdentifier, tokenize } from './tokenizer';
+
+// BM25 パラメータ
+const K1 = 1.2;
+const B = 0.75;
+
+// パス・シンボル一致時の加算重み
+const PATH_BOOST = 1.5;
+const SYMBOL_BOOST = 2.0;
+
+/**
+ * インデックス済みのファイル
+ */
+export interface IndexedDocument {
+  path: string;
+  /** ファイルの更新時刻（ms）。再構築時の差分判定に使う */
+  updatedAt: number;
+  /** 語 -> 出現回数 */
+  termFreqs: Record<string, number>;
+  length: number;
+  symbols: string[];
+}
+
+/**
+ * シリアライズ形式
+ */
+export interface SerializedBM25Index {
+  version: number;
+  documents: IndexedDocument[];
+}
+
+export interface BM25SearchResult {
+  path: string;
+  score: number;
+  /** クエリに一致したシンボル */
+  matchedSymbols: string[];
+}
+
+const INDEX_FORMAT_VERSION = 1;
+
+export class BM25Index {
+  private documents = new Map<string, IndexedDocument>();
+  /** 語 -> その語を含むドキュメント数 */
+  private docFreqs = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(path: string): boolean {
+    return this.documents.has(path);
+  }
+
+  getDocument(path: string): IndexedDocument | undefined {
+    return this.documents.get(path);
+  }
+
+  paths(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  /**
+   * ファイルを追加（既存の場合は置き換え）
+   */
+  addDocument(path: string, content: string, updatedAt = Date.now()): void {
+    this.removeDocument(path);
+
+    const tokens = tokenize(content);
+    // "constructor" などの語が Object.prototype と衝突しないようにプロトタイプなしで作る
+    const termFreqs: Record<string, number> = Object.create(null);
+    for (const token of tokens) {
+      termFreqs[token] = (termFreqs[token] ?? 0) + 1;
+    }
+
+    this.insert({
+      path,
+      updatedAt,
+      termFreqs,
+      length: tokens.length,
+      symbols: extractSymbols(content),
+    });
+  }
+
+  removeDocument(path: string): boolean {
+    const doc = this.documents.get(path);
+    if (!doc) return false;
+
+    for (const term of Object.keys(doc.termFreqs)) {
+      const df = (this.docFreqs.get(term) ?? 1) - 1;
+      if (df <= 0) {
+        this.docFreqs.delete(term);
+      } else {
+        this.docFreqs.set(term, df);
+      }
+    }
+    this.totalLength -= doc.length;
+    this.documents.delete(path);
+    return true;
+  }
+
+  /**
+   * クエリに関連するファイルをスコア順に返す
+   */
+  search(query: string, limit = 10): BM25SearchResult[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const n = this.documents.size;
+    const avgLength = this.totalLength / n || 1;
+    const results: BM25SearchResult[] = [];
+
+    for (const doc of this.documents.values()) {
+      let score = 0;
+      for (const term of queryTerms) {
+        // fromJSON で復元した termFreqs は通常のオブジェクトなので自身のプロパティだけを見る
+        const tf = Object.prototype.hasOwnProperty.call(doc.termFreqs, term)
+          ? doc.termFreqs[term]
+          : 0;
+        if (!tf) continue;
+        const df = this.docFreqs.get(term) ?? 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += (idf * (tf * (K1 + 1))) / (tf + K1 * (1 - B + (B * doc.length) / avgLength));
+      }
+
+      // ファイル名・ディレクトリ名に含まれる語
+      const pathTerms = new Set(tokenize(doc.path));
+      const pathHits = queryTerms.filter(term => pathTerms.has(term)).length;
+      score += pathHits * PATH_BOOST;
+
+      // 宣言されたシンボル名（またはそのサブワード）に一致
+      const matchedSymbols = doc.symbols.filter(symbol => {
+        const lower = symbol.toLowerCase();
+        if (queryTerms.includes(lower)) return true;
+        const parts = splitIdentifier(symbol).map(p => p.toLowerCase());
+        return parts.length > 1 && parts.every(p => queryTerms.includes(p));
+      });
+      score += matchedSymbols.length * SYMBOL_BOOST;
+
+      if (score > 0) {
+        results.push({ path: doc.path, score, matchedSymbols });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  toJSON(): SerializedBM25Index {
+    return { version: INDEX_FORMAT_VERSION, documents: [...this.documents.values()] };
+  }
+
+  /**
+   * シリアライズ形式から復元（形式が異なる場合は null）
+   */
+  static fromJSON(data: SerializedBM25Index | null | undefined): BM25Index | null {
+    if (!data || data.version !== INDEX_FORMAT_VERSION || !Array.isArray(data.documents)) {
+      return null;
+    }
+    const index = new BM25Index();
+    for (const doc of data.documents) {
+      index.insert(doc);
+    }
+    return index;
+  }
+
+  private insert(doc: IndexedDocument): void {
+    this.documents.set(doc.path, doc);
+    for (const term of Object.keys(doc.termFreqs)) {
+      this.docFreqs.set(term, (this.docFreqs.get(term) ?? 0) + 1);
+    }
+    this.totalLength += doc.length;
+  }
+}
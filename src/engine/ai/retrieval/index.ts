@@ -0,0 +1,334 @@
+/**
+ * AI Retrieval Index
+ *
+ * プロジェクトごとの関連ファイル検索インデックス
+ * - BM25 インデックスを IndexedDB（storageService）に保存し、次回起動時は差分のみ再インデックスする
+ * - fileRepository の変更イベントでインデックスを逐次更新する
+ * - .gitignore に一致するファイル・バイナリ・巨大ファイルは対象外
+ * - 質問に対して上位N件のファイルと、トークン予算内に収まるスニペットを返す
+ */
+
+import { BM25Index, type SerializedBM25Index } from './bm25Index';
+import { tokenize } from './tokenizer';
+
+import { type FileChangeEvent, fileRepository } from '@/engine/core/fileRepository';
+import { type GitIgnoreRule, isPathIgnored, parseGitignore } from '@/engine/core/gitignore';
+import { STORES, storageService } from '@/engine/storage';
+import type { ProjectFile } from '@/types';
+
+export { BM25Index } from './bm25Index';
+export type { BM25SearchResult, IndexedDocument, SerializedBM25Index } from './bm25Index';
+
+/**
+ * 検索結果のスニペット
+ */
+export interface RetrievedSnippet {
+  path: string;
+  score: number;
+  /** 1始まりの行番号（両端を含む） */
+  startLine: number;
+  endLine: number;
+  content: string;
+  /** クエリに一致した宣言シンボル */
+  symbols: string[];
+}
+
+export interface RetrieveOptions {
+  /** 返すファイル数の上限 */
+  limit?: number;
+  /** スニペット全体のトークン予算（概算） */
+  tokenBudget?: number;
+  /** 除外するパス（手動で選択済みのファイルなど） */
+  exclude?: string[];
+}
+
+export const DEFAULT_RETRIEVAL_LIMIT = 5;
+export const DEFAULT_RETRIEVAL_TOKEN_BUDGET = 6000;
+
+// これより大きいファイルはインデックスしない（文字数）
+const MAX_INDEXED_FILE_SIZE = 200_000;
+// スニペットの最大行数
+const SNIPPET_WINDOW_LINES = 40;
+// 予算の残りがこれ未満なら新しいスニペットを追加しない
+const MIN_SNIPPET_TOKENS = 100;
+// 変更後に IndexedDB へ保存するまでの待ち時間
+const PERSIST_DELAY_MS = 2000;
+
+const GITIGNORE_PATH = '/.gitignore';
+
+// .gitignore の有無に関わらず除外するパス
+const ALWAYS_IGNORED = parseGitignore(
+  ['node_modules/', '.git/', 'package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'].join('\n')
+);
+
+/**
+ * トークン数の概算（1トークン ≒ 4文字）
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function storageKey(projectId: string): string {
+  return `retrieval:${projectId}`;
+}
+
+function toTimestamp(value: Date | string | number | undefined): number {
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * ファイル内でクエリ語が最も集中している範囲を選ぶ
+ */
+export function selectSnippet(
+  content: string,
+  query: string,
+  maxLines = SNIPPET_WINDOW_LINES
+): { startLine: number; endLine: number; content: string } {
+  const lines = content.split('\n');
+  if (lines.length <= maxLines) {
+    return { startLine: 1, endLine: lines.length, content };
+  }
+
+  const queryTerms = new Set(tokenize(query));
+  const lineScores = lines.map(line => {
+    let hits = 0;
+    for (const token of new Set(tokenize(line))) {
+      if (queryTerms.has(token)) hits++;
+    }
+    return hits;
+  });
+
+  // 窓内のスコア合計が最大になる開始位置（スライディングウィンドウ）
+  let windowScore = lineScores.slice(0, maxLines).reduce((sum, s) => sum + s, 0);
+  let bestScore = windowScore;
+  let bestStart = 0;
+  for (let start = 1; start + maxLines <= lines.length; start++) {
+    windowScore += lineScores[start + maxLines - 1] - lineScores[start - 1];
+    if (windowScore > bestScore) {
+      bestScore = windowScore;
+      bestStart = start;
+    }
+  }
+
+  const selected = lines.slice(bestStart, bestStart + maxLines);
+  return {
+    startLine: bestStart + 1,
+    endLine: bestStart + selected.length,
+    content: selected.join('\n'),
+  };
+}
+
+class RetrievalIndexManager {
+  private indexes = new Map<string, BM25Index>();
+  private loading = new Map<string, Promise<BM25Index>>();
+  private ignoreRules = new Map<string, GitIgnoreRule[]>();
+  private persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * プロジェクトのインデックスを取得（未ロードなら IndexedDB から復元し差分を反映）
+   */
+  async getIndex(projectId: string): Promise<BM25Index> {
+    const existing = this.indexes.get(projectId);
+    if (existing) return existing;
+
+    let pending = this.loading.get(projectId);
+    if (!pending) {
+      pending = this.load(projectId).finally(() => this.loading.delete(projectId));
+      this.loading.set(projectId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * 質問に関連するファイルとスニペットを返す
+   */
+  async retrieve(
+    projectId: string,
+    query: string,
+    options: RetrieveOptions = {}
+  ): Promise<RetrievedSnippet[]> {
+    const limit = options.limit ?? DEFAULT_RETRIEVAL_LIMIT;
+    const budget = options.tokenBudget ?? DEFAULT_RETRIEVAL_TOKEN_BUDGET;
+    const exclude = new Set(options.exclude ?? []);
+
+    const index = await this.getIndex(projectId);
+    const candidates = index.search(query, limit + exclude.size).filter(r => !exclude.has(r.path));
+
+    const snippets: RetrievedSnippet[] = [];
+    let remaining = budget;
+    for (const candidate of candidates.slice(0, limit)) {
+      if (remaining < MIN_SNIPPET_TOKENS) break;
+
+      const file = await fileRepository.getFileByPath(projectId, candidate.path);
+      if (!file || file.type !== 'file' || typeof file.content !== 'string') continue;
+
+      let snippet = selectSnippet(file.content, query);
+      // 予算を超える場合は末尾の行を削って収める
+      while (estimateTokens(snippet.content) > remaining && snippet.endLine > snippet.startLine) {
+        const lines = snippet.content.split('\n');
+        lines.pop();
+        snippet = { ...snippet, endLine: snippet.endLine - 1, content: lines.join('\n') };
+      }
+      const tokens = estimateTokens(snippet.content);
+      if (tokens > remaining) break;
+
+      remaining -= tokens;
+      snippets.push({
+        path: candidate.path,
+        score: candidate.score,
+        ...snippet,
+        symbols: candidate.matchedSymbols,
+      });
+    }
+    return snippets;
+  }
+
+  /**
+   * プロジェクトのインデックスを破棄（保存済みデータも削除）
+   */
+  async clearProject(projectId: string): Promise<void> {
+    const timer = this.persistTimers.get(projectId);
+    if (timer) clearTimeout(timer);
+    this.persistTimers.delete(projectId);
+    this.indexes.delete(projectId);
+    this.ignoreRules.delete(projectId);
+    // 監視対象のプロジェクトがなくなったら購読を解除
+    if (this.indexes.size === 0 && this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    try {
+      await storageService.delete(STORES.AI_RETRIEVAL_INDEX, storageKey(projectId));
+    } catch (e) {
+      console.warn('[RetrievalIndex] Failed to delete stored index:', e);
+    }
+  }
+
+  private isIgnored(projectId: string, path: string): boolean {
+    if (isPathIgnored(ALWAYS_IGNORED, path)) return true;
+    const rules = this.ignoreRules.get(projectId);
+    return !!rules && isPathIgnored(rules, path);
+  }
+
+  private isIndexable(projectId: string, file: ProjectFile): boolean {
+    return (
+      file.type === 'file' &&
+      !file.isBufferArray &&
+      typeof file.content === 'string' &&
+      file.content.length <= MAX_INDEXED_FILE_SIZE &&
+      !this.isIgnored(projectId, file.path)
+    );
+  }
+
+  private async load(projectId: string): Promise<BM25Index> {
+    this.ensureListener();
+
+    let stored: SerializedBM25Index | null = null;
+    try {
+      stored = await storageService.get<SerializedBM25Index>(
+        STORES.AI_RETRIEVAL_INDEX,
+        storageKey(projectId)
+      );
+    } catch (e) {
+      console.warn('[RetrievalIndex] Failed to load stored index:', e);
+    }
+
+    const index = BM25Index.fromJSON(stored) ?? new BM25Index();
+    const changed = await this.reconcile(projectId, index);
+    this.indexes.set(projectId, index);
+    if (changed) this.schedulePersist(projectId);
+    return index;
+  }
+
+  /**
+   * 現在のファイル一覧とインデックスの差分を反映（変更があれば true）
+   */
+  private async reconcile(projectId: string, index: BM25Index): Promise<boolean> {
+    await fileRepository.init();
+    const files = await fileRepository.getProjectFiles(projectId);
+
+    const gitignore = files.find(f => f.path === GITIGNORE_PATH);
+    this.ignoreRules.set(projectId, gitignore?.content ? parseGitignore(gitignore.content) : []);
+
+    let changed = false;
+    const current = new Set<string>();
+    for (const file of files) {
+      if (!this.isIndexable(projectId, file)) continue;
+      current.add(file.path);
+
+      const updatedAt = toTimestamp(file.updatedAt);
+      const doc = index.getDocument(file.path);
+      if (!doc || doc.updatedAt !== updatedAt) {
+        index.addDocument(file.path, file.content, updatedAt);
+        changed = true;
+      }
+    }
+
+    for (const path of index.paths()) {
+      if (!current.has(path)) {
+        index.removeDocument(path);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private ensureListener(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = fileRepository.addChangeListener(event => {
+      this.handleChange(event).catch(e => console.warn('[RetrievalIndex] Update failed:', e));
+    });
+  }
+
+  private async handleChange(event: FileChangeEvent): Promise<void> {
+    const index = this.indexes.get(event.projectId);
+    if (!index) return;
+
+    const { path } = event.file;
+    if (path === GITIGNORE_PATH) {
+      // 除外ルールが変わったので全体を再照合
+      await this.reconcile(event.projectId, index);
+      this.schedulePersist(event.projectId);
+      return;
+    }
+
+    if (event.type === 'delete') {
+      let changed = index.removeDocument(path);
+      // フォルダ削除の場合は配下のファイルも除去
+      for (const docPath of index.paths()) {
+        if (docPath.startsWith(`${path}/`)) {
+          changed = index.removeDocument(docPath) || changed;
+        }
+      }
+      if (changed) this.schedulePersist(event.projectId);
+      return;
+    }
+
+    const file = event.file as ProjectFile;
+    if (this.isIndexable(event.projectId, file)) {
+      index.addDocument(file.path, file.content, toTimestamp(file.updatedAt));
+      this.schedulePersist(event.projectId);
+    } else if (index.removeDocument(file.path)) {
+      this.schedulePersist(event.projectId);
+    }
+  }
+
+  private schedulePersist(projectId: string): void {
+    const existing = this.persistTimers.get(projectId);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.persistTimers.delete(projectId);
+      const index = this.indexes.get(projectId);
+      if (!index) return;
+      storageService
+        .set(STORES.AI_RETRIEVAL_INDEX, storageKey(projectId), index.toJSON(), { cache: false })
+        .catch(e => console.warn('[RetrievalIndex] Failed to persist index:', e));
+    }, PERSIST_DELAY_MS);
+    this.persistTimers.set(projectId, timer);
+  }
+}
+
+export const retrievalIndex = new RetrievalIndexManager();
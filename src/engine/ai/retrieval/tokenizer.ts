@@ -0,0 +1,122 @@
+/**
+ * Retrieval Tokenizer
+ *
+ * 検索インデックス用のトークン化とシンボル抽出
+ * - 識別子は camelCase / snake_case / kebab-case を分割し、元の形も残す
+ * - シンボル（関数・クラス・型など）は宣言から抽出し、スコアの重み付けに使う
+ */
+
+// 頻出しすぎて検索の役に立たない語
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'do',
+  'for',
+  'from',
+  'how',
+  'if',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'to',
+  'what',
+  'where',
+  'which',
+  'why',
+  'with',
+  'const',
+  'let',
+  'var',
+  'return',
+  'import',
+  'export',
+  'default',
+  'new',
+  'true',
+  'false',
+  'null',
+  'undefined',
+]);
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+
+// 識別子（英数字・アンダースコア・$）または CJK の連続
+const WORD_PATTERN = /[A-Za-z_$][A-Za-z0-9_$]*|[0-9]+|[぀-ヿ㐀-鿿]+/g;
+
+// 宣言からシンボル名を抽出するパターン（JS/TS・Python・Go・Rust 等の主要な形）
+const SYMBOL_PATTERNS = [
+  /\b(?:function|class|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/g,
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=/g,
+  /\b(?:def|fn|func|struct|trait|impl)\s+([A-Za-z_][\w]*)/g,
+  // クラスメソッド（インデントされた name(...) { の形）
+  /^[ \t]+(?:(?:public|private|protected|static|async|get|set)[ \t]+)*([A-Za-z_$][\w$]*)[ \t]*\([^)\n]*\)[^\n;]*\{[ \t]*$/gm,
+];
+
+// メソッドパターンに誤って一致する制御構文
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return']);
+
+/**
+ * 識別子をサブワードに分割（getUserName -> get, user, name）
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_$-]+/)
+    .filter(Boolean);
+}
+
+function isIndexable(token: string): boolean {
+  return (
+    token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH && !STOP_WORDS.has(token)
+  );
+}
+
+/**
+ * テキストをトークン列に変換（小文字化済み、重複あり）
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const lower = word.toLowerCase();
+    if (isIndexable(lower)) tokens.push(lower);
+
+    const parts = splitIdentifier(word);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const lowerPart = part.toLowerCase();
+        if (isIndexable(lowerPart)) tokens.push(lowerPart);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * ソースから宣言されているシンボル名を抽出（重複なし）
+ */
+export function extractSymbols(content: string): string[] {
+  const symbols = new Set<string>();
+  for (const pattern of SYMBOL_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      const name = match[1];
+      if (name && !CONTROL_KEYWORDS.has(name) && isIndexable(name.toLowerCase())) {
+        symbols.add(name);
+      }
+    }
+  }
+  return [...symbols];
+}
@@ -1,11 +1,13 @@
 import type FS from '@isomorphic-git/lightning-fs';
 import git from 'isomorphic-git';
 
+import type { AddPatchIO } from './gitOperations/addPatch';
 import { GitCheckoutOperations } from './gitOperations/checkout';
 import { GitCloneOperations } from './gitOperations/clone';
 import { GitDiffOperations } from './gitOperations/diff';
 import type { FetchOptions } from './gitOperations/fetch';
 import { GitFileSystemHelper } from './gitOperations/fileSystemHelper';
+import type { DiffHunk, HunkSelection } from './gitOperations/hunks';
 import { type BranchFilterOptions, GitLogOperations } from './gitOperations/log';
 import { GitMergeOperations } from './gitOperations/merge';
 import { listAllRemoteRefs, toFullRemoteRef } from './gitOperations/remoteUtils';
@@ -17,7 +19,10 @@ import type { TerminalUI } from '@/engine/cmd/terminalUI';
 import { fileRepository } from '@/engine/core/fileRepository';
 import { gitFileSystem } from '@/engine/core/gitFileSystem';
 import { syncManager } from '@/engine/core/syncManager';
+import { settingsManager } from '@/engine/helper/settingsManager';
 import { authRepository } from '@/engine/user/authRepository';
+import type { GitBlameLine, GitStashEntry, GitTagEntry, RebaseTodoItem } from '@/types/git';
+import { DEFAULT_PYXIS_SETTINGS } from '@/types/settings';
 
 /**
  * [NEW ARCHITECTURE] Git操作を管理するクラス
@@ -464,6 +469,57 @@ export class GitCommands {
     return await discardChanges(this.fs, this.dir, this.projectId, filepath);
   }
 
+  // ========================================
+  // hunk / 行単位のステージング
+  // ========================================
+
+  private async getHunkOperations() {
+    await this.ensureGitRepository();
+    const { GitHunkOperations } = await import('./gitOperations/hunks');
+    return new GitHunkOperations(this.fs, this.dir, this.projectId, this.projectName);
+  }
+
+  /**
+   * ファイルの変更を hunk に分けて取得（staged: HEAD → INDEX、それ以外: INDEX → WORKDIR）
+   */
+  async getDiffHunks(filepath: string, options: { staged?: boolean } = {}): Promise<DiffHunk[]> {
+    const hunkOps = await this.getHunkOperations();
+    return hunkOps.getHunks(filepath, options);
+  }
+
+  /**
+   * 選択した hunk / 行をステージ
+   */
+  async stageHunks(filepath: string, selection: HunkSelection[]): Promise<void> {
+    const hunkOps = await this.getHunkOperations();
+    await hunkOps.stage(filepath, selection);
+  }
+
+  /**
+   * 選択した hunk / 行をアンステージ
+   */
+  async unstageHunks(filepath: string, selection: HunkSelection[]): Promise<void> {
+    const hunkOps = await this.getHunkOperations();
+    await hunkOps.unstage(filepath, selection);
+  }
+
+  /**
+   * 選択した hunk / 行のワーキングツリーの変更を破棄
+   */
+  async discardHunks(filepath: string, selection: HunkSelection[]): Promise<void> {
+    const hunkOps = await this.getHunkOperations();
+    await hunkOps.discard(filepath, selection);
+  }
+
+  /**
+   * git add -p [<pathspec>...] - hunk ごとに確認してステージ
+   */
+  async addPatch(pathspecs: string[], io: AddPatchIO): Promise<string> {
+    const hunkOps = await this.getHunkOperations();
+    const { addPatch } = await import('./gitOperations/addPatch');
+    return addPatch(hunkOps, pathspecs, io);
+  }
+
   // 指定コミット・ファイルの内容を取得 (git show 相当)
   async getFileContentAtCommit(commitId: string, filePath: string): Promise<string> {
     await this.ensureGitRepository();
@@ -571,7 +627,44 @@ export class GitCommands {
 
     // 動的インポートで循環参照を回避
     const { push } = await import('./gitOperations/push');
-    return push(this.fs, this.dir, options, this.terminalUI);
+    const corsProxy = await this.getCorsProxy();
+    return push(this.fs, this.dir, { ...options, corsProxy }, this.terminalUI);
+  }
+
+  /**
+   * git push --tags / git push <remote> <tag> / git push --delete <remote> <tag>
+   */
+  async pushTags(options: {
+    remote?: string;
+    tags: string[] | 'all';
+    force?: boolean;
+    delete?: boolean;
+  }): Promise<string> {
+    await this.ensureGitRepository();
+
+    const { pushTags } = await import('./gitOperations/push');
+    const corsProxy = await this.getCorsProxy();
+    return pushTags(this.fs, this.dir, { ...options, corsProxy }, this.terminalUI);
+  }
+
+  /**
+   * リモートが GitHub か（GitHub 以外は smart HTTP でプッシュし、SHA を作り直さない）
+   */
+  async isGitHubRemote(remote = 'origin'): Promise<boolean> {
+    await this.ensureGitRepository();
+
+    const { getSmartHttpRemoteUrl } = await import('./gitOperations/httpPush');
+    return (await getSmartHttpRemoteUrl(this.fs, this.dir, remote)) === null;
+  }
+
+  // smart HTTP 用の CORS プロキシ（プロジェクト設定）
+  private async getCorsProxy(): Promise<string> {
+    try {
+      const settings = await settingsManager.loadSettings(this.projectId);
+      return settings.git.corsProxy;
+    } catch {
+      return DEFAULT_PYXIS_SETTINGS.git.corsProxy;
+    }
   }
 
   /**
@@ -671,6 +764,235 @@ export class GitCommands {
     return await pull(this.fs, this.dir, this.projectId, this.projectName, options);
   }
 
+  // ========================================
+  // stash操作
+  // ========================================
+
+  private async getStashOperations() {
+    await this.ensureGitRepository();
+    const { GitStashOperations } = await import('./gitOperations/stash');
+    return new GitStashOperations(this.fs, this.dir, this.projectId, this.projectName);
+  }
+
+  /**
+   * git stash push - 変更を退避してワーキングツリーをHEADに戻す
+   */
+  async stashPush(options: { message?: string; includeUntracked?: boolean } = {}): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.push(options);
+  }
+
+  /**
+   * git stash list
+   */
+  async stashList(): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.formatList();
+  }
+
+  /**
+   * UI用のstash一覧を取得（index 0 が最新）
+   */
+  async getStashList(): Promise<GitStashEntry[]> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.list();
+  }
+
+  /**
+   * git stash show [-p] [-u] [stash@{n}]
+   */
+  async stashShow(
+    stashRef?: string,
+    options: { patch?: boolean; includeUntracked?: boolean } = {}
+  ): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.show(stashRef, options);
+  }
+
+  /**
+   * git stash apply [--index] [stash@{n}]
+   */
+  async stashApply(stashRef?: string, options: { index?: boolean } = {}): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.apply(stashRef, options);
+  }
+
+  /**
+   * git stash pop [--index] [stash@{n}] - 適用に成功した場合のみ削除
+   */
+  async stashPop(stashRef?: string, options: { index?: boolean } = {}): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.pop(stashRef, options);
+  }
+
+  /**
+   * git stash drop [stash@{n}]
+   */
+  async stashDrop(stashRef?: string): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.drop(stashRef);
+  }
+
+  /**
+   * git stash clear
+   */
+  async stashClear(): Promise<string> {
+    const stashOps = await this.getStashOperations();
+    return stashOps.clear();
+  }
+
+  // ========================================
+  // cherry-pick / rebase
+  // ========================================
+
+  private async getRebaseOperations() {
+    await this.ensureGitRepository();
+    const { GitRebaseOperations } = await import('./gitOperations/rebase');
+    return new GitRebaseOperations(this.fs, this.dir, this.projectId, this.projectName);
+  }
+
+  /**
+   * git cherry-pick - 指定したコミットの変更を現在のブランチに適用
+   */
+  async cherryPick(revision: string): Promise<string> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.cherryPick(revision);
+  }
+
+  async cherryPickContinue(): Promise<string> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.cherryPickContinue();
+  }
+
+  async cherryPickAbort(): Promise<string> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.cherryPickAbort();
+  }
+
+  /**
+   * git rebase - upstream..HEAD のコミットを upstream の上に再適用
+   * interactive 指定で todo がない場合はtodoリストエディタのタブを開く
+   */
+  async rebase(
+    upstream: string,
+    options: { interactive?: boolean; todo?: RebaseTodoItem[] } = {}
+  ): Promise<string> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.rebase(upstream, options);
+  }
+
+  async rebaseContinue(): Promise<string> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.rebaseContinue();
+  }
+
+  async rebaseAbort(): Promise<string> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.rebaseAbort();
+  }
+
+  /**
+   * 対話的リベースの初期todoリスト（upstream..HEAD を古い順）
+   */
+  async planRebase(upstream: string): Promise<RebaseTodoItem[]> {
+    const rebaseOps = await this.getRebaseOperations();
+    return rebaseOps.planRebase(upstream);
+  }
+
+  // ========================================
+  // blame
+  // ========================================
+
+  private async getBlameOperations() {
+    await this.ensureGitRepository();
+    const { GitBlameOperations } = await import('./gitOperations/blame');
+    return new GitBlameOperations(this.fs, this.dir);
+  }
+
+  /**
+   * git blame - 各行を最後に変更したコミットを表示
+   * rev 未指定時はワーキングツリーの内容と比較し、未コミットの行も含める
+   */
+  async blame(
+    filepath: string,
+    options: { rev?: string; lineRange?: [number, number] } = {}
+  ): Promise<string> {
+    const { rev, lineRange } = options;
+    let content: string | undefined;
+    if (rev === undefined) {
+      try {
+        content = (await this.fs.promises.readFile(`${this.dir}/${filepath}`, 'utf8')) as string;
+      } catch {
+        // ワーキングツリーにない場合は HEAD の内容
+      }
+    }
+
+    const blameOps = await this.getBlameOperations();
+    let lines = await blameOps.blame(filepath, { rev, content });
+    if (lineRange) {
+      const [start, end] = lineRange;
+      if (start > lines.length) {
+        throw new Error(`fatal: file ${filepath} has only ${lines.length} lines`);
+      }
+      lines = lines.filter(line => line.lineNumber >= start && line.lineNumber <= end);
+    }
+
+    return blameOps.format(lines);
+  }
+
+  /**
+   * エディタ用のblame情報（content にはエディタのバッファを渡す）
+   */
+  async getBlame(filepath: string, options: { content?: string } = {}): Promise<GitBlameLine[]> {
+    const blameOps = await this.getBlameOperations();
+    return blameOps.blame(filepath, options);
+  }
+
+  // ========================================
+  // tag
+  // ========================================
+
+  private async getTagOperations() {
+    await this.ensureGitRepository();
+    const { GitTagOperations } = await import('./gitOperations/tag');
+    return new GitTagOperations(this.fs, this.dir);
+  }
+
+  /**
+   * git tag [-l <pattern>] [-n] - タグ一覧を表示
+   */
+  async tagList(pattern?: string, showMessage = false): Promise<string> {
+    const tagOps = await this.getTagOperations();
+    return tagOps.formatList(pattern, showMessage);
+  }
+
+  /**
+   * タグ一覧（UI用）
+   */
+  async getTags(): Promise<GitTagEntry[]> {
+    const tagOps = await this.getTagOperations();
+    return tagOps.list();
+  }
+
+  /**
+   * git tag [-a -m <msg>] [-f] <name> [<commit>] - タグを作成
+   */
+  async tag(
+    name: string,
+    options: { message?: string; target?: string; force?: boolean } = {}
+  ): Promise<string> {
+    const tagOps = await this.getTagOperations();
+    return tagOps.create(name, options);
+  }
+
+  /**
+   * git tag -d <name>... - タグを削除
+   */
+  async deleteTags(names: string[]): Promise<string> {
+    const tagOps = await this.getTagOperations();
+    return tagOps.delete(names);
+  }
+
   /**
    * git show - コミット情報またはコミット時点のファイル内容を表示
    */
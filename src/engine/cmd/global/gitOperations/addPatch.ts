@@ -0,0 +1,105 @@
+import type { DiffHunk, GitHunkOperations, HunkSelection } from './hunks';
+
+import { ANSI } from '@/engine/cmd/terminalUI';
+
+/**
+ * git add -p - ワーキングツリーの変更を hunk ごとに確認してステージする
+ * 入出力はターミナル（フォアグラウンドのプロセスの stdin / stdout）を介して行う
+ */
+
+export interface AddPatchIO {
+  /** 改行を付けずに出力する */
+  write: (text: string) => void;
+  /** 1行読み取る（入力の終わりでは null） */
+  readLine: () => Promise<string | null>;
+}
+
+const HELP = `y - stage this hunk
+n - do not stage this hunk
+q - quit; do not stage this hunk or any of the remaining ones
+a - stage this hunk and all later hunks in the file
+d - do not stage this hunk or any of the later hunks in the file
+? - print help
+`;
+
+/**
+ * hunk を色付きの unified diff にする
+ */
+export function formatHunk(hunk: DiffHunk): string {
+  let text = `${ANSI.FG.CYAN}${hunk.header}${ANSI.RESET}\n`;
+  for (const line of hunk.lines) {
+    if (line.type === 'add') {
+      text += `${ANSI.FG.GREEN}+${line.text}${ANSI.RESET}\n`;
+    } else if (line.type === 'remove') {
+      text += `${ANSI.FG.RED}-${line.text}${ANSI.RESET}\n`;
+    } else {
+      text += ` ${line.text}\n`;
+    }
+    if (line.noNewline) text += '\\ No newline at end of file\n';
+  }
+  return text;
+}
+
+/**
+ * pathspec（ファイルまたはディレクトリ、'.' は全体）に一致するか
+ */
+function matchesPathspec(filepath: string, pathspecs: string[]): boolean {
+  const specs = pathspecs.map(spec => spec.replace(/^\.?\//, '').replace(/\/$/, ''));
+  if (specs.length === 0 || specs.some(spec => spec === '' || spec === '.')) return true;
+  return specs.some(spec => filepath === spec || filepath.startsWith(`${spec}/`));
+}
+
+/**
+ * 対話的に hunk を選び、ファイルごとにまとめてステージする
+ */
+export async function addPatch(
+  hunkOps: GitHunkOperations,
+  pathspecs: string[],
+  io: AddPatchIO
+): Promise<string> {
+  const files = (await hunkOps.getUnstagedFiles()).filter(file => matchesPathspec(file, pathspecs));
+  if (files.length === 0) return 'No changes.';
+
+  for (const file of files) {
+    const hunks = await hunkOps.getHunks(file);
+    if (hunks.length === 0) continue;
+
+    io.write(`${ANSI.BOLD}diff --git a/${file} b/${file}${ANSI.RESET}\n`);
+    const selection: HunkSelection[] = [];
+    let quit = false;
+
+    for (let i = 0; i < hunks.length; i++) {
+      io.write(formatHunk(hunks[i]));
+      let key: string | undefined;
+      while (key === undefined) {
+        io.write(
+          `${ANSI.FG.BLUE}${ANSI.BOLD}(${i + 1}/${hunks.length}) Stage this hunk [y,n,q,a,d,?]? ${ANSI.RESET}`
+        );
+        const answer = await io.readLine();
+        // 入力の終わりは q と同じ扱い
+        const input = answer === null ? 'q' : answer.trim().charAt(0).toLowerCase();
+        if (input && 'ynqad'.includes(input)) {
+          key = input;
+        } else {
+          io.write(`${ANSI.FG.RED}${HELP}${ANSI.RESET}`);
+        }
+      }
+
+      if (key === 'y') {
+        selection.push({ hunk: i });
+      } else if (key === 'a') {
+        for (let j = i; j < hunks.length; j++) selection.push({ hunk: j });
+        break;
+      } else if (key === 'd') {
+        break;
+      } else if (key === 'q') {
+        quit = true;
+        break;
+      }
+    }
+
+    if (selection.length > 0) await hunkOps.stage(file, selection);
+    if (quit) break;
+  }
+  return '';
+}
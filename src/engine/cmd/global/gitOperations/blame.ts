@@ -0,0 +1,310 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import { diffArrays } from 'diff';
+import git, { type CommitObject } from 'isomorphic-git';
+
+import { resolveRevision } from './revision';
+
+import type { GitBlameLine } from '@/types/git';
+
+export interface BlameOptions {
+  /** blame を開始するリビジョン（省略時は HEAD） */
+  rev?: string;
+  /**
+   * 現在の内容（ワーキングツリーやエディタのバッファ）
+   * rev 未指定時のみ使用し、HEAD と異なる行は未コミットとして扱う
+   */
+  content?: string;
+}
+
+export const UNCOMMITTED_OID = '0'.repeat(40);
+
+// 行を親コミットへ引き継ぐ候補（コミット + そのコミット時点の行）
+interface Suspect {
+  oid: string;
+  timestamp: number;
+  blobOid: string;
+  /** [最終的な行index, このコミット時点の行index] */
+  lines: Array<[number, number]>;
+}
+
+interface FileAtCommit {
+  blobOid: string;
+  lines: string[];
+}
+
+// blob oid ごとの blame 結果（同じ内容の再blameは履歴をたどらない）
+const BLAME_CACHE_LIMIT = 100;
+const blameCache = new Map<string, GitBlameLine[]>();
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * from の各行が to のどの行に対応するか（変更されていない行のみ）
+ */
+function mapUnchangedLines(from: string[], to: string[]): Map<number, number> {
+  const mapping = new Map<number, number>();
+  let fromIndex = 0;
+  let toIndex = 0;
+  for (const change of diffArrays(from, to)) {
+    const count = change.value.length;
+    if (change.added) {
+      toIndex += count;
+    } else if (change.removed) {
+      fromIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        mapping.set(fromIndex + i, toIndex + i);
+      }
+      fromIndex += count;
+      toIndex += count;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * [NEW ARCHITECTURE] Git blame 操作を管理するクラス
+ * - 各行を最後に変更したコミットを、履歴を新しい順にたどって求める
+ *   - 親と同じ blob ならすべての行を親へ、異なれば diff で変更されていない行だけを親へ引き継ぐ
+ *   - どの親にも引き継げなかった行がそのコミットの変更
+ * - 結果はファイルパス + blob oid でキャッシュし、同じ内容の再blameは履歴をたどらない
+ * - content を渡すと HEAD との差分行を未コミット（Not Committed Yet）として重ねる
+ */
+export class GitBlameOperations {
+  private fs: FS;
+  private dir: string;
+  private commitCache = new Map<string, CommitObject>();
+
+  constructor(fs: FS, dir: string) {
+    this.fs = fs;
+    this.dir = dir;
+  }
+
+  /**
+   * ファイルの各行の blame 情報を取得
+   */
+  async blame(filepath: string, options: BlameOptions = {}): Promise<GitBlameLine[]> {
+    const { rev, content } = options;
+
+    let committed: GitBlameLine[] = [];
+    let committedLines: string[] = [];
+    const headOid = await this.resolveStart(rev);
+    const file = headOid ? await this.readFileAt(headOid, filepath) : null;
+
+    if (file && headOid) {
+      committed = await this.blameCommitted(headOid, filepath, file);
+      committedLines = file.lines;
+    } else if (rev !== undefined || content === undefined) {
+      throw new Error(`fatal: no such path '${filepath}' in ${rev ?? 'HEAD'}`);
+    }
+
+    if (rev !== undefined || content === undefined) {
+      return committed;
+    }
+    return this.overlayUncommitted(committed, committedLines, splitLines(content));
+  }
+
+  /**
+   * git blame の出力形式に整形
+   * 例: 1a2b3c4d (Author 2024-01-01 12:00:00 +0900 12) content
+   */
+  format(lines: GitBlameLine[]): string {
+    const authorWidth = lines.reduce((max, line) => Math.max(max, line.author.length), 0);
+    const lastLine = lines.reduce((max, line) => Math.max(max, line.lineNumber), 0);
+    const lineWidth = String(lastLine).length;
+    return lines
+      .map(line => {
+        const hash = line.boundary ? `^${line.oid.slice(0, 7)}` : line.oid.slice(0, 8);
+        const author = line.author.padEnd(authorWidth);
+        const date = formatBlameDate(line.timestamp, line.timezoneOffset);
+        const lineNumber = String(line.lineNumber).padStart(lineWidth);
+        return `${hash} (${author} ${date} ${lineNumber}) ${line.content}`;
+      })
+      .join('\n');
+  }
+
+  // rev（省略時は HEAD）のコミット。コミットがまだない場合は null
+  private async resolveStart(rev: string | undefined): Promise<string | null> {
+    if (rev !== undefined) {
+      return resolveRevision(this.fs, this.dir, rev);
+    }
+    try {
+      return await git.resolveRef({ fs: this.fs, dir: this.dir, ref: 'HEAD' });
+    } catch {
+      return null;
+    }
+  }
+
+  private async blameCommitted(
+    startOid: string,
+    filepath: string,
+    file: FileAtCommit
+  ): Promise<GitBlameLine[]> {
+    const cacheKey = `${this.dir}:${filepath}:${file.blobOid}`;
+    const cached = blameCache.get(cacheKey);
+    if (cached) {
+      // LRU: 最近使ったものを末尾へ
+      blameCache.delete(cacheKey);
+      blameCache.set(cacheKey, cached);
+      return cached;
+    }
+
+    const result: GitBlameLine[] = new Array(file.lines.length);
+    const files = new Map<string, FileAtCommit>([[file.blobOid, file]]);
+    const pending = new Map<string, Suspect>();
+    const start = await this.readCommit(startOid);
+    pending.set(startOid, {
+      oid: startOid,
+      timestamp: start.committer.timestamp,
+      blobOid: file.blobOid,
+      lines: file.lines.map((_, i) => [i, i]),
+    });
+
+    while (pending.size > 0) {
+      // 新しいコミットから処理（マージで合流する行を1回でまとめて扱うため）
+      let suspect: Suspect | null = null;
+      for (const candidate of pending.values()) {
+        if (!suspect || candidate.timestamp > suspect.timestamp) suspect = candidate;
+      }
+      if (!suspect) break;
+      pending.delete(suspect.oid);
+
+      const commit = await this.readCommit(suspect.oid);
+      const current = files.get(suspect.blobOid) as FileAtCommit;
+      let remaining = suspect.lines;
+
+      for (const parentOid of commit.parent) {
+        if (remaining.length === 0) break;
+        const parentFile = await this.readFileAt(parentOid, filepath);
+        if (!parentFile) continue;
+        files.set(parentFile.blobOid, parentFile);
+
+        let passed: Array<[number, number]>;
+        if (parentFile.blobOid === suspect.blobOid) {
+          passed = remaining;
+          remaining = [];
+        } else {
+          const mapping = mapUnchangedLines(current.lines, parentFile.lines);
+          passed = [];
+          const rest: Array<[number, number]> = [];
+          for (const [finalIndex, index] of remaining) {
+            const parentIndex = mapping.get(index);
+            if (parentIndex === undefined) {
+              rest.push([finalIndex, index]);
+            } else {
+              passed.push([finalIndex, parentIndex]);
+            }
+          }
+          remaining = rest;
+        }
+        if (passed.length === 0) continue;
+
+        const existing = pending.get(parentOid);
+        if (existing) {
+          existing.lines.push(...passed);
+        } else {
+          const parent = await this.readCommit(parentOid);
+          pending.set(parentOid, {
+            oid: parentOid,
+            timestamp: parent.committer.timestamp,
+            blobOid: parentFile.blobOid,
+            lines: passed,
+          });
+        }
+      }
+
+      for (const [finalIndex, index] of remaining) {
+        result[finalIndex] = {
+          lineNumber: finalIndex + 1,
+          originalLineNumber: index + 1,
+          oid: suspect.oid,
+          author: commit.author.name,
+          authorEmail: commit.author.email,
+          timestamp: commit.author.timestamp,
+          timezoneOffset: commit.author.timezoneOffset,
+          summary: commit.message.split('\n')[0],
+          boundary: commit.parent.length === 0,
+          content: file.lines[finalIndex],
+        };
+      }
+    }
+
+    blameCache.set(cacheKey, result);
+    if (blameCache.size > BLAME_CACHE_LIMIT) {
+      const oldest = blameCache.keys().next().value;
+      if (oldest !== undefined) blameCache.delete(oldest);
+    }
+    return result;
+  }
+
+  // コミット済みの blame に、HEAD から変更された行を未コミットとして重ねる
+  private overlayUncommitted(
+    committed: GitBlameLine[],
+    committedLines: string[],
+    lines: string[]
+  ): GitBlameLine[] {
+    const mapping = mapUnchangedLines(lines, committedLines);
+    const now = Math.floor(Date.now() / 1000);
+    const timezoneOffset = new Date().getTimezoneOffset();
+
+    return lines.map((content, index) => {
+      const committedIndex = mapping.get(index);
+      if (committedIndex !== undefined) {
+        return { ...committed[committedIndex], lineNumber: index + 1 };
+      }
+      return {
+        lineNumber: index + 1,
+        originalLineNumber: index + 1,
+        oid: UNCOMMITTED_OID,
+        author: 'Not Committed Yet',
+        authorEmail: 'not.committed.yet',
+        timestamp: now,
+        timezoneOffset,
+        summary: 'Uncommitted changes',
+        boundary: false,
+        content,
+      };
+    });
+  }
+
+  private async readCommit(oid: string): Promise<CommitObject> {
+    let commit = this.commitCache.get(oid);
+    if (!commit) {
+      commit = (await git.readCommit({ fs: this.fs, dir: this.dir, oid })).commit;
+      this.commitCache.set(oid, commit);
+    }
+    return commit;
+  }
+
+  // コミット時点のファイル（存在しない場合は null）
+  private async readFileAt(commitOid: string, filepath: string): Promise<FileAtCommit | null> {
+    try {
+      const { oid, blob } = await git.readBlob({
+        fs: this.fs,
+        dir: this.dir,
+        oid: commitOid,
+        filepath,
+      });
+      return { blobOid: oid, lines: splitLines(new TextDecoder().decode(blob)) };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * コミットのタイムゾーンで 'YYYY-MM-DD HH:MM:SS +ZZZZ' に整形
+ */
+export function formatBlameDate(timestamp: number, timezoneOffset: number): string {
+  const local = new Date((timestamp - timezoneOffset * 60) * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`;
+  const time = `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}`;
+  const sign = timezoneOffset <= 0 ? '+' : '-';
+  const abs = Math.abs(timezoneOffset);
+  return `${date} ${time} ${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
@@ -3,6 +3,7 @@ import git from 'isomorphic-git';
 
 import { GitFileSystemHelper } from './fileSystemHelper';
 import { isRemoteRef, resolveRemoteRef, toFullRemoteRef } from './remoteUtils';
+import { GitTagOperations } from './tag';
 
 import { syncManager } from '@/engine/core/syncManager';
 
@@ -63,6 +64,8 @@ export class GitCheckoutOperations {
       let resolvedFromRemote = false;
       // resolvedFromLocal: whether the ref was resolved from refs/heads/...
       let resolvedFromLocal = false;
+      // resolvedFromTag: whether the ref was resolved from refs/tags/... (detached HEAD)
+      let resolvedFromTag = false;
 
       if (createNew) {
         try {
@@ -82,6 +85,27 @@ export class GitCheckoutOperations {
           }
         }
 
+        // 同名のローカルブランチがなければタグ（tags/<name> も可）を探す
+        // 注釈付きタグはコミットまでたどり、detached HEAD でチェックアウトする
+        if (!targetCommitHash) {
+          const isLocalBranch = await git
+            .resolveRef({ fs: this.fs, dir: this.dir, ref: `refs/heads/${branchName}` })
+            .then(
+              () => true,
+              () => false
+            );
+          if (!isLocalBranch) {
+            const tagName = branchName.replace(/^(?:refs\/)?tags\//, '');
+            const tagCommit = await new GitTagOperations(this.fs, this.dir).resolveTagCommit(
+              tagName
+            );
+            if (tagCommit) {
+              targetCommitHash = tagCommit;
+              resolvedFromTag = true;
+            }
+          }
+        }
+
         // If not resolved from remote, try local heads
         if (!targetCommitHash) {
           try {
@@ -171,6 +195,7 @@ export class GitCheckoutOperations {
         result = `Switched to a new branch '${branchName}'`;
       } else if (
         resolvedFromRemote ||
+        resolvedFromTag ||
         (branchName.length >= 7 && branchName === targetCommitHash.slice(0, branchName.length))
       ) {
         const shortHash = targetCommitHash.slice(0, 7);
@@ -2,6 +2,40 @@ import { authRepository } from '@/engine/user/authRepository';
 // src/engine/cmd/global/gitOperations/commit.ts
 import git from 'isomorphic-git';
 
+/**
+ * GitHubにサインインしていればそのユーザー情報、なければ fallback を返す
+ * コミットの author / committer、注釈付きタグの tagger に使う
+ */
+export async function resolveGitHubAuthor(fallback: {
+  name: string;
+  email: string;
+}): Promise<{ name: string; email: string }> {
+  try {
+    const token = await authRepository.getAccessToken();
+    if (token) {
+      const response = await fetch('https://api.github.com/user', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: 'application/vnd.github.v3+json',
+        },
+      });
+
+      if (response.ok) {
+        const userData = await response.json();
+        const author = {
+          name: userData.name || userData.login,
+          email: userData.email || `${userData.login}@users.noreply.github.com`,
+        };
+        console.log('[git commit] Using GitHub user:', author);
+        return author;
+      }
+    }
+  } catch (error) {
+    console.warn('[git commit] Failed to get GitHub user info, using default:', error);
+  }
+  return fallback;
+}
+
 export async function commit(
   fs: any,
   dir: string,
@@ -16,30 +50,7 @@ export async function commit(
       throw new Error('not a git repository (or any of the parent directories): .git');
     }
 
-    // Try to use GitHub info when available
-    let commitAuthor = author;
-    try {
-      const token = await authRepository.getAccessToken();
-      if (token) {
-        const response = await fetch('https://api.github.com/user', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            Accept: 'application/vnd.github.v3+json',
-          },
-        });
-
-        if (response.ok) {
-          const userData = await response.json();
-          commitAuthor = {
-            name: userData.name || userData.login,
-            email: userData.email || `${userData.login}@users.noreply.github.com`,
-          };
-          console.log('[git commit] Using GitHub user:', commitAuthor);
-        }
-      }
-    } catch (error) {
-      console.warn('[git commit] Failed to get GitHub user info, using default:', error);
-    }
+    const commitAuthor = await resolveGitHubAuthor(author);
 
     const sha = await git.commit({
       fs,
@@ -48,6 +48,20 @@ export interface GitTreeEntry {
   content?: string;
 }
 
+/**
+ * Annotated tag object（Git Data API）
+ */
+export interface GitTag {
+  sha: string;
+  tag: string;
+  message: string;
+  tagger: GitUser;
+  object: {
+    sha: string;
+    type: string;
+  };
+}
+
 export interface GitBlob {
   sha: string;
   content: string;
@@ -111,6 +125,10 @@ export class GitHubAPI {
       throw new Error(`GitHub API error (${response.status}): ${error.message}`);
     }
 
+    // DELETE は 204 No Content を返す
+    if (response.status === 204) {
+      return undefined as T;
+    }
     return response.json();
   }
 
@@ -166,6 +184,71 @@ export class GitHubAPI {
     }
   }
 
+  // ========================================
+  // タグ
+  // ========================================
+
+  /**
+   * タグの参照を取得（存在しない場合は null）
+   */
+  async getTagRef(tag: string): Promise<GitRef | null> {
+    try {
+      return await this.request<GitRef>(`/git/refs/tags/${tag}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('404') || message.includes('409')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * タグの参照を作成・更新（force 時は既存のタグを上書き）
+   */
+  async setTagRef(tag: string, sha: string, force = false): Promise<GitRef> {
+    if (force && (await this.getTagRef(tag))) {
+      return this.request<GitRef>(`/git/refs/tags/${tag}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ sha, force: true }),
+      });
+    }
+    return this.request<GitRef>('/git/refs', {
+      method: 'POST',
+      body: JSON.stringify({ ref: `refs/tags/${tag}`, sha }),
+    });
+  }
+
+  /**
+   * タグの参照を削除
+   */
+  async deleteTagRef(tag: string): Promise<void> {
+    await this.request<void>(`/git/refs/tags/${tag}`, { method: 'DELETE' });
+  }
+
+  /**
+   * 注釈付きタグオブジェクトを作成（参照は setTagRef で別途作成する）
+   */
+  async createTag(data: {
+    tag: string;
+    message: string;
+    object: string;
+    type: 'commit';
+    tagger: GitUser;
+  }): Promise<GitTag> {
+    return this.request<GitTag>('/git/tags', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * 注釈付きタグオブジェクトを取得
+   */
+  async getTag(sha: string): Promise<GitTag> {
+    return this.request<GitTag>(`/git/tags/${sha}`);
+  }
+
   /**
    * コミットを作成
    */
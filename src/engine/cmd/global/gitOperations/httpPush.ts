@@ -0,0 +1,209 @@
+/**
+ * git push 実装 - smart HTTP 版
+ *
+ * GitLab, Gitea, 自前のサーバーなど GitHub 以外のリモートへ
+ * git の smart HTTP プロトコル（git-receive-pack）で直接プッシュする。
+ * GitHub 版と異なりコミットを作り直さないため、ローカルとリモートの SHA は一致する。
+ */
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git, { Errors, type AuthCallback } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+
+import { parseGitHubUrl } from './github/utils';
+
+import type { TerminalUI } from '@/engine/cmd/terminalUI';
+import { authRepository } from '@/engine/user/authRepository';
+
+const ZERO_OID = '0'.repeat(40);
+
+export interface SmartHttpPushOptions {
+  remote: string;
+  url: string;
+  /** プッシュするローカルの ref（refs/heads/<branch> または refs/tags/<tag>） */
+  refs: string[];
+  force?: boolean;
+  /** リモートの ref を削除 */
+  delete?: boolean;
+  /** 空の場合は直接接続 */
+  corsProxy?: string;
+}
+
+/**
+ * smart HTTP でプッシュするリモートの URL（GitHub のリモートは null）
+ * リモートが存在しない場合も null を返し、エラーは GitHub 版に任せる
+ */
+export async function getSmartHttpRemoteUrl(
+  fs: FS,
+  dir: string,
+  remote: string
+): Promise<string | null> {
+  const remotes = await git.listRemotes({ fs, dir });
+  const remoteInfo = remotes.find(r => r.remote === remote);
+  if (!remoteInfo || parseGitHubUrl(remoteInfo.url)) {
+    return null;
+  }
+  return remoteInfo.url;
+}
+
+/**
+ * リモートのホストに登録された認証情報を返す onAuth
+ */
+function createOnAuth(url: string): AuthCallback {
+  return async () => {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return {};
+    }
+    const credential = await authRepository.getHostCredential(host);
+    return credential ? { username: credential.username, password: credential.password } : {};
+  };
+}
+
+function formatRefName(fullRef: string): string {
+  return fullRef.replace(/^refs\/(heads|tags)\//, '');
+}
+
+/**
+ * smart HTTP でプッシュし、ネイティブ git と同じ形式の結果を返す
+ * 拒否された ref があっても他の ref のプッシュは続け、最後に error 行を付ける
+ */
+export async function pushSmartHttp(
+  fs: FS,
+  dir: string,
+  options: SmartHttpPushOptions,
+  ui?: TerminalUI
+): Promise<string> {
+  const { remote, url, refs, force = false, corsProxy } = options;
+  const onAuth = createOnAuth(url);
+  const lines: string[] = [];
+  const hints: string[] = [];
+
+  if (ui) {
+    await ui.spinner.start('Pushing...');
+  }
+
+  try {
+    for (const fullRef of refs) {
+      const name = formatRefName(fullRef);
+      const isTag = fullRef.startsWith('refs/tags/');
+      let oldOid = ZERO_OID;
+      let localOid = ZERO_OID;
+      // 送るものがない（最新、または削除対象がリモートにない）場合は中止する
+      let skipped = false;
+
+      try {
+        await git.push({
+          fs,
+          http,
+          dir,
+          url,
+          remote,
+          // 削除時はローカルに ref がなくてもよい（isomorphic-git は ref の存在を確認するため HEAD を渡す）
+          ref: options.delete ? 'HEAD' : fullRef,
+          remoteRef: fullRef,
+          force,
+          delete: options.delete,
+          corsProxy: corsProxy || undefined,
+          onAuth,
+          onAuthFailure: () => ({ cancel: true }),
+          onPrePush: ({ localRef, remoteRef }) => {
+            oldOid = remoteRef.oid;
+            localOid = localRef.oid;
+            skipped = options.delete ? oldOid === ZERO_OID : oldOid === localOid;
+            return !skipped;
+          },
+        });
+      } catch (error) {
+        if (skipped) {
+          if (options.delete) {
+            lines.push(` ! [rejected]        ${name} (remote ref does not exist)`);
+          }
+          continue;
+        }
+        if (error instanceof Errors.PushRejectedError) {
+          const tagExists = error.data.reason === 'tag-exists';
+          lines.push(
+            ` ! [rejected]        ${name} -> ${name} (${tagExists ? 'already exists' : 'non-fast-forward'})`
+          );
+          hints.push(
+            tagExists
+              ? 'hint: Updates were rejected because the tag already exists in the remote.'
+              : 'hint: Updates were rejected because the remote contains work that you do not\n' +
+                  'hint: have locally. Integrate the remote changes (e.g. git pull ...) before pushing again.'
+          );
+          continue;
+        }
+        if (error instanceof Errors.GitPushError) {
+          const reason = error.data.result.refs[fullRef]?.error || 'remote rejected';
+          lines.push(` ! [remote rejected] ${name} -> ${name} (${reason})`);
+          continue;
+        }
+        if (
+          error instanceof Errors.UserCanceledError ||
+          (error instanceof Errors.HttpError && [401, 403].includes(error.data.statusCode))
+        ) {
+          throw new Error(
+            `Authentication failed for '${url}'\n` +
+              `hint: add credentials for ${new URL(url).host} in Settings > Git.`
+          );
+        }
+        throw error;
+      }
+
+      if (options.delete) {
+        lines.push(` - [deleted]         ${name}`);
+        if (!isTag) {
+          await git.deleteRef({ fs, dir, ref: `refs/remotes/${remote}/${name}` }).catch(() => {});
+        }
+        continue;
+      }
+
+      if (!isTag) {
+        // リモート追跡ブランチを更新
+        await git.writeRef({
+          fs,
+          dir,
+          ref: `refs/remotes/${remote}/${name}`,
+          value: localOid,
+          force: true,
+        });
+      }
+
+      if (oldOid === ZERO_OID) {
+        lines.push(
+          isTag
+            ? ` * [new tag]         ${name} -> ${name}`
+            : ` * [new branch]      ${name} -> ${name}`
+        );
+      } else {
+        const fastForward = await git
+          .isDescendent({ fs, dir, oid: localOid, ancestor: oldOid, depth: -1 })
+          .catch(() => false);
+        lines.push(
+          fastForward
+            ? `   ${oldOid.slice(0, 7)}..${localOid.slice(0, 7)}  ${name} -> ${name}`
+            : ` + ${oldOid.slice(0, 7)}...${localOid.slice(0, 7)} ${name} -> ${name} (forced update)`
+        );
+      }
+    }
+  } catch (error) {
+    if (ui) await ui.spinner.stop();
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Push failed: ${errorMessage}`);
+  }
+
+  if (ui) await ui.spinner.stop();
+
+  if (lines.length === 0) {
+    return 'Everything up-to-date';
+  }
+  let result = `To ${url}\n${lines.join('\n')}\n`;
+  if (lines.some(line => line.startsWith(' ! '))) {
+    result += `error: failed to push some refs to '${url}'\n`;
+    if (hints.length > 0) result += `${hints.join('\n')}\n`;
+  }
+  return result;
+}
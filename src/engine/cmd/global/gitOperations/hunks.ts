@@ -0,0 +1,425 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import { diffArrays } from 'diff';
+import git from 'isomorphic-git';
+
+import { GitFileSystemHelper } from './fileSystemHelper';
+
+import { syncManager } from '@/engine/core/syncManager';
+
+/**
+ * hunk / 行単位のステージング
+ * - ワーキングツリーの変更（INDEX → WORKDIR）の一部だけをインデックスに書き込む（stage）
+ * - ステージ済みの変更（HEAD → INDEX）の一部だけをインデックスから戻す（unstage）
+ * - ワーキングツリーの変更の一部だけを破棄する（discard）
+ * 部分的な内容のblobを作成し、git.updateIndex でインデックスに直接登録する
+ */
+
+/** diff の1行 */
+export interface DiffHunkLine {
+  type: 'context' | 'add' | 'remove';
+  /** 改行を除いた行の内容 */
+  text: string;
+  /** 行末に改行がない（ファイル末尾） */
+  noNewline?: boolean;
+  /** 変更前の行番号（1始まり、context / remove のみ） */
+  oldLineNumber?: number;
+  /** 変更後の行番号（1始まり、context / add のみ） */
+  newLineNumber?: number;
+}
+
+/** unified diff の hunk */
+export interface DiffHunk {
+  index: number;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** `@@ -1,3 +1,4 @@` */
+  header: string;
+  lines: DiffHunkLine[];
+}
+
+/**
+ * 適用する hunk の指定
+ * lines は hunk.lines のインデックス（省略時は hunk 全体）。context 行は無視する
+ */
+export interface HunkSelection {
+  hunk: number;
+  lines?: number[];
+}
+
+/** 行の選択範囲（old: 変更前のファイル, new: 変更後のファイルの行番号、1始まり） */
+export interface LineRange {
+  side: 'old' | 'new';
+  startLine: number;
+  endLine: number;
+}
+
+// hunk の前後に含める context 行の数（git の既定値）
+const CONTEXT_LINES = 3;
+
+interface DiffEntry extends DiffHunkLine {
+  /** 改行を含む元の行 */
+  raw: string;
+  /** この行より前にある変更前 / 変更後の行数 */
+  oldBefore: number;
+  newBefore: number;
+}
+
+interface DiffHunkEntries extends DiffHunk {
+  entries: DiffEntry[];
+}
+
+/**
+ * 改行を含めて行に分割する（末尾に改行がない最終行も1行）
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function toEntry(
+  raw: string,
+  type: DiffEntry['type'],
+  oldBefore: number,
+  newBefore: number
+): DiffEntry {
+  return {
+    type,
+    raw,
+    text: raw.replace(/\r?\n$/, ''),
+    noNewline: !raw.endsWith('\n') || undefined,
+    oldLineNumber: type === 'add' ? undefined : oldBefore + 1,
+    newLineNumber: type === 'remove' ? undefined : newBefore + 1,
+    oldBefore,
+    newBefore,
+  };
+}
+
+/**
+ * 2つの内容の行単位の diff を、context 行でまとめた hunk に分ける
+ */
+function buildDiff(oldText: string, newText: string) {
+  const entries: DiffEntry[] = [];
+  let oldBefore = 0;
+  let newBefore = 0;
+  for (const change of diffArrays(splitLines(oldText), splitLines(newText))) {
+    for (const raw of change.value) {
+      if (change.removed) {
+        entries.push(toEntry(raw, 'remove', oldBefore++, newBefore));
+      } else if (change.added) {
+        entries.push(toEntry(raw, 'add', oldBefore, newBefore++));
+      } else {
+        entries.push(toEntry(raw, 'context', oldBefore++, newBefore++));
+      }
+    }
+  }
+
+  const hunks: DiffHunkEntries[] = [];
+  let start = -1;
+  let end = -1;
+  const flush = () => {
+    const from = Math.max(0, start - CONTEXT_LINES);
+    const to = Math.min(entries.length - 1, end + CONTEXT_LINES);
+    const hunkEntries = entries.slice(from, to + 1);
+    const oldLines = hunkEntries.filter(e => e.type !== 'add').length;
+    const newLines = hunkEntries.filter(e => e.type !== 'remove').length;
+    const oldStart = entries[from].oldBefore + (oldLines > 0 ? 1 : 0);
+    const newStart = entries[from].newBefore + (newLines > 0 ? 1 : 0);
+    hunks.push({
+      index: hunks.length,
+      oldStart,
+      oldLines,
+      newStart,
+      newLines,
+      header: `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`,
+      lines: hunkEntries.map(({ type, text, noNewline, oldLineNumber, newLineNumber }) => ({
+        type,
+        text,
+        noNewline,
+        oldLineNumber,
+        newLineNumber,
+      })),
+      entries: hunkEntries,
+    });
+  };
+
+  entries.forEach((entry, i) => {
+    if (entry.type === 'context') return;
+    if (start === -1) {
+      start = i;
+    } else if (i - end - 1 > CONTEXT_LINES * 2) {
+      flush();
+      start = i;
+    }
+    end = i;
+  });
+  if (start !== -1) flush();
+
+  return { entries, hunks };
+}
+
+/**
+ * oldText → newText の変更を hunk に分けて返す
+ */
+export function computeDiffHunks(oldText: string, newText: string): DiffHunk[] {
+  return buildDiff(oldText, newText).hunks.map(({ entries, ...hunk }) => hunk);
+}
+
+/**
+ * 選択した変更だけを適用した内容を返す
+ * - 通常: oldText に、選択した変更を適用する（stage）
+ * - reverse: newText から、選択した変更を取り消す（unstage / discard）
+ * selection の hunk 番号は computeDiffHunks(oldText, newText) のもの
+ */
+export function applyHunkSelection(
+  oldText: string,
+  newText: string,
+  selection: HunkSelection[],
+  options: { reverse?: boolean } = {}
+): string {
+  const { entries, hunks } = buildDiff(oldText, newText);
+  const selected = new Set<DiffEntry>();
+  for (const { hunk, lines } of selection) {
+    const target = hunks[hunk];
+    if (!target) continue;
+    for (const i of lines ?? target.entries.keys()) {
+      const entry = target.entries[i];
+      if (entry && entry.type !== 'context') selected.add(entry);
+    }
+  }
+
+  // 適用しない側の変更: reverse でなければ remove を残し、reverse なら add を残す
+  const keptType = options.reverse ? 'add' : 'remove';
+  let result = '';
+  for (const entry of entries) {
+    const include =
+      entry.type === 'context' ||
+      (entry.type === keptType ? !selected.has(entry) : selected.has(entry));
+    if (!include) continue;
+    // 末尾に改行のない行の後に行が続く場合は改行を補う
+    if (result && !result.endsWith('\n')) result += '\n';
+    result += entry.raw;
+  }
+  return result;
+}
+
+/**
+ * 行の選択範囲に含まれる変更を HunkSelection に変換する
+ * - 選択した側（old / new）の変更行に加えて、同じ変更ブロックの反対側の行も含める
+ *   （VSCode の "Stage Selected Ranges" と同様に、変更行と置き換え前の行をまとめて扱う）
+ * - 反対側だけの変更ブロック（new 側で見た削除など）は、その位置の前後の行が範囲に入れば含める
+ */
+export function selectLineRanges(hunks: DiffHunk[], ranges: LineRange[]): HunkSelection[] {
+  const selection: HunkSelection[] = [];
+  for (const hunk of hunks) {
+    const lines = new Set<number>();
+    let blockStart = 0;
+    while (blockStart < hunk.lines.length) {
+      if (hunk.lines[blockStart].type === 'context') {
+        blockStart++;
+        continue;
+      }
+      let blockEnd = blockStart;
+      while (blockEnd + 1 < hunk.lines.length && hunk.lines[blockEnd + 1].type !== 'context') {
+        blockEnd++;
+      }
+
+      for (const range of ranges) {
+        const ownType = range.side === 'old' ? 'remove' : 'add';
+        const lineNumber = (line: DiffHunkLine) =>
+          range.side === 'old' ? line.oldLineNumber : line.newLineNumber;
+        const inRange = (n: number) => n >= range.startLine && n <= range.endLine;
+
+        const own: number[] = [];
+        for (let i = blockStart; i <= blockEnd; i++) {
+          if (hunk.lines[i].type === ownType) own.push(i);
+        }
+        const ownHits = own.filter(i => inRange(lineNumber(hunk.lines[i]) ?? 0));
+        // 選択した側に行がないブロックは、ブロックの直前・直後の行で判定する
+        // （hunk の先頭から始まるブロックはファイルの先頭にある）
+        const before = blockStart > 0 ? (lineNumber(hunk.lines[blockStart - 1]) ?? 0) : 0;
+        const touchesGap = own.length === 0 && (inRange(before) || inRange(before + 1));
+        if (ownHits.length === 0 && !touchesGap) continue;
+
+        for (const i of ownHits) lines.add(i);
+        // 反対側の行はブロックごと含める
+        for (let i = blockStart; i <= blockEnd; i++) {
+          if (hunk.lines[i].type !== ownType) lines.add(i);
+        }
+      }
+      blockStart = blockEnd + 1;
+    }
+    if (lines.size > 0) {
+      selection.push({ hunk: hunk.index, lines: [...lines].sort((a, b) => a - b) });
+    }
+  }
+  return selection;
+}
+
+/**
+ * hunk / 行単位のステージング操作
+ */
+export class GitHunkOperations {
+  private fs: FS;
+  private dir: string;
+  private projectId: string;
+  private projectName: string;
+
+  constructor(fs: FS, dir: string, projectId: string, projectName: string) {
+    this.fs = fs;
+    this.dir = dir;
+    this.projectId = projectId;
+    this.projectName = projectName;
+  }
+
+  /**
+   * ファイルの変更を hunk に分けて返す
+   * staged: HEAD → INDEX、それ以外: INDEX → WORKDIR
+   */
+  async getHunks(filepath: string, options: { staged?: boolean } = {}): Promise<DiffHunk[]> {
+    const { head, index, workdir } = await this.readVersions(filepath);
+    return options.staged ? computeDiffHunks(head, index) : computeDiffHunks(index, workdir);
+  }
+
+  /**
+   * ワーキングツリーの変更のうち、選択したものをインデックスに追加する
+   */
+  async stage(filepath: string, selection: HunkSelection[]): Promise<void> {
+    const versions = await this.readVersions(filepath);
+    const content = applyHunkSelection(versions.index, versions.workdir, selection);
+    // 削除されたファイルの全行をステージした場合は削除をステージする
+    const removed = !versions.workdirExists && content === '';
+    await this.writeIndex(filepath, content, removed, versions.indexMode);
+  }
+
+  /**
+   * ステージ済みの変更のうち、選択したものをインデックスから戻す
+   */
+  async unstage(filepath: string, selection: HunkSelection[]): Promise<void> {
+    const versions = await this.readVersions(filepath);
+    const content = applyHunkSelection(versions.head, versions.index, selection, {
+      reverse: true,
+    });
+    // HEAD にないファイルの追加をすべて戻した場合は未追跡に戻す
+    const removed = !versions.headExists && content === '';
+    await this.writeIndex(filepath, content, removed, versions.indexMode);
+  }
+
+  /**
+   * ワーキングツリーの変更のうち、選択したものを破棄する
+   */
+  async discard(filepath: string, selection: HunkSelection[]): Promise<void> {
+    const versions = await this.readVersions(filepath);
+    const content = applyHunkSelection(versions.index, versions.workdir, selection, {
+      reverse: true,
+    });
+    const parentDir = filepath.substring(0, filepath.lastIndexOf('/'));
+    if (parentDir) {
+      await GitFileSystemHelper.ensureDirectory(`${this.dir}/${parentDir}`);
+    }
+    await this.fs.promises.writeFile(`${this.dir}/${filepath}`, content);
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+  }
+
+  /**
+   * インデックスとワーキングツリーで内容が異なる追跡中のファイル（git add -p の対象）
+   */
+  async getUnstagedFiles(): Promise<string[]> {
+    const matrix = await git.statusMatrix({ fs: this.fs, dir: this.dir });
+    return matrix
+      .filter(([, head, workdir, stage]) => {
+        if (head === 0 && stage === 0) return false; // 未追跡
+        if (workdir === 0) return stage !== 0; // 削除
+        return stage === 3 || (stage === 1 && workdir === 2);
+      })
+      .map(([filepath]) => filepath);
+  }
+
+  private async readVersions(filepath: string) {
+    const head = await this.readHead(filepath);
+    const { content: index, mode: indexMode } = await this.readIndex(filepath);
+    let workdirBlob: Uint8Array | null = null;
+    try {
+      workdirBlob = (await this.fs.promises.readFile(`${this.dir}/${filepath}`)) as Uint8Array;
+    } catch {
+      workdirBlob = null;
+    }
+    const workdir = workdirBlob ? this.decode(workdirBlob, filepath) : null;
+    return {
+      head: head ?? '',
+      headExists: head !== null,
+      // インデックスにない（未追跡の）ファイルは HEAD の内容（空）を基準にする
+      index: index ?? head ?? '',
+      indexMode,
+      workdir: workdir ?? '',
+      workdirExists: workdir !== null,
+    };
+  }
+
+  private async readHead(filepath: string): Promise<string | null> {
+    let blob: Uint8Array;
+    try {
+      const oid = await git.resolveRef({ fs: this.fs, dir: this.dir, ref: 'HEAD' });
+      ({ blob } = await git.readBlob({ fs: this.fs, dir: this.dir, oid, filepath }));
+    } catch {
+      // コミットがない・HEAD にないファイル
+      return null;
+    }
+    return this.decode(blob, filepath);
+  }
+
+  /**
+   * インデックスの内容とファイルモード（100755 等を保つため）
+   */
+  private async readIndex(
+    filepath: string
+  ): Promise<{ content: string | null; mode: number | undefined }> {
+    let oid: string | null = null;
+    let mode: number | undefined;
+    await git.walk({
+      fs: this.fs,
+      dir: this.dir,
+      trees: [git.STAGE()],
+      map: async (path, [entry]) => {
+        if (path === '.' || filepath === path || filepath.startsWith(`${path}/`)) {
+          if (path === filepath && entry) {
+            oid = await entry.oid();
+            mode = await entry.mode();
+          }
+          return true;
+        }
+        return null;
+      },
+    });
+    if (!oid) return { content: null, mode };
+    const { blob } = await git.readBlob({ fs: this.fs, dir: this.dir, oid });
+    return { content: this.decode(blob, filepath), mode };
+  }
+
+  private async writeIndex(
+    filepath: string,
+    content: string,
+    remove: boolean,
+    mode?: number
+  ): Promise<void> {
+    if (remove) {
+      await git.remove({ fs: this.fs, dir: this.dir, filepath });
+      return;
+    }
+    const oid = await git.writeBlob({
+      fs: this.fs,
+      dir: this.dir,
+      blob: new TextEncoder().encode(content),
+    });
+    // 既存のエントリのモードを引き継ぐ（未指定だと 100644 になる）
+    await git.updateIndex({ fs: this.fs, dir: this.dir, filepath, oid, mode, add: true });
+  }
+
+  private decode(blob: Uint8Array, filepath: string): string {
+    if (blob.includes(0)) {
+      throw new Error(`Cannot stage hunks of binary file: ${filepath}`);
+    }
+    // BOM も内容の一部として保ったまま書き戻す
+    return new TextDecoder('utf-8', { ignoreBOM: true }).decode(blob);
+  }
+}
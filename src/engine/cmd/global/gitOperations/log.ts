@@ -3,6 +3,7 @@ import git from 'isomorphic-git';
 
 import { GitFileSystemHelper } from './fileSystemHelper';
 import { listAllRemoteRefs, toFullRemoteRef } from './remoteUtils';
+import { GitTagOperations } from './tag';
 
 /**
  * ブランチフィルタモード
@@ -114,6 +115,14 @@ export class GitLogOperations {
         }
       }
 
+      // タグは 'tag: <name>' として付ける（注釈付きタグはコミットまでたどる）
+      const tags = await new GitTagOperations(this.fs, this.dir).list().catch(() => []);
+      for (const tag of tags) {
+        const existing = refsByCommit.get(tag.commit) || [];
+        existing.push(`tag: ${tag.name}`);
+        refsByCommit.set(tag.commit, existing);
+      }
+
       // 3. ブランチフィルタモードに応じてコミットを取得
       let allCommits: Awaited<ReturnType<typeof git.log>> = [];
 
@@ -8,6 +8,8 @@
  * 2. バッチでコミット履歴を取得（1回のAPIで最大100件）
  * 3. ローカル履歴との比較をメモリ上で実行
  * 4. 不要なAPI呼び出しを削減
+ *
+ * GitHub 以外のリモートは httpPush.ts の smart HTTP 版でプッシュする
  */
 
 import type FS from '@isomorphic-git/lightning-fs';
@@ -16,6 +18,8 @@ import git from 'isomorphic-git';
 import { GitHubAPI } from './github/GitHubAPI';
 import { TreeBuilder } from './github/TreeBuilder';
 import { parseGitHubUrl } from './github/utils';
+import { getSmartHttpRemoteUrl, pushSmartHttp } from './httpPush';
+import { GitTagOperations } from './tag';
 
 import type { TerminalUI } from '@/engine/cmd/terminalUI';
 import { authRepository } from '@/engine/user/authRepository';
@@ -24,6 +28,8 @@ export interface PushOptions {
   remote?: string;
   branch?: string;
   force?: boolean;
+  /** GitHub 以外のリモートへの smart HTTP で使う CORS プロキシ */
+  corsProxy?: string;
 }
 
 /**
@@ -196,6 +202,27 @@ export async function push(
 ): Promise<string> {
   const { remote = 'origin', branch, force = false } = options;
 
+  // GitHub 以外のリモートは smart HTTP でプッシュ
+  const smartHttpUrl = await getSmartHttpRemoteUrl(fs, dir, remote);
+  if (smartHttpUrl) {
+    const targetBranch = branch || (await git.currentBranch({ fs, dir }));
+    if (!targetBranch) {
+      throw new Error('Push failed: No branch checked out');
+    }
+    return pushSmartHttp(
+      fs,
+      dir,
+      {
+        remote,
+        url: smartHttpUrl,
+        refs: [`refs/heads/${targetBranch}`],
+        force,
+        corsProxy: options.corsProxy,
+      },
+      ui
+    );
+  }
+
   try {
     // Start spinner if TerminalUI is available
     if (ui) {
@@ -217,19 +244,7 @@ export async function push(
       targetBranch = currentBranch;
     }
 
-    const remotes = await git.listRemotes({ fs, dir });
-    const remoteInfo = remotes.find((r: { remote: string }) => r.remote === remote);
-
-    if (!remoteInfo) {
-      throw new Error(`Remote '${remote}' not found.`);
-    }
-
-    const repoInfo = parseGitHubUrl(remoteInfo.url);
-    if (!repoInfo) {
-      throw new Error('Only GitHub repositories are supported');
-    }
-
-    const githubAPI = new GitHubAPI(token, repoInfo.owner, repoInfo.repo);
+    const { remoteInfo, githubAPI } = await connectGitHubRemote(fs, dir, remote, token);
 
     // 1. リモートHEADを取得
     const remoteRef = await githubAPI.getRef(targetBranch);
@@ -436,6 +451,220 @@ export async function push(
   }
 }
 
+export interface PushTagsOptions {
+  remote?: string;
+  /** プッシュするタグ名（'all' は --tags） */
+  tags: string[] | 'all';
+  force?: boolean;
+  /** リモートのタグを削除（git push --delete <remote> <tag>） */
+  delete?: boolean;
+  /** GitHub 以外のリモートへの smart HTTP で使う CORS プロキシ */
+  corsProxy?: string;
+}
+
+/**
+ * リモートのURLから GitHubAPI を作成
+ */
+async function connectGitHubRemote(
+  fs: FS,
+  dir: string,
+  remote: string,
+  token: string
+): Promise<{ remoteInfo: { remote: string; url: string }; githubAPI: GitHubAPI }> {
+  const remotes = await git.listRemotes({ fs, dir });
+  const remoteInfo = remotes.find((r: { remote: string }) => r.remote === remote);
+
+  if (!remoteInfo) {
+    throw new Error(`Remote '${remote}' not found.`);
+  }
+
+  const repoInfo = parseGitHubUrl(remoteInfo.url);
+  if (!repoInfo) {
+    throw new Error('Only GitHub repositories are supported');
+  }
+
+  return { remoteInfo, githubAPI: new GitHubAPI(token, repoInfo.owner, repoInfo.repo) };
+}
+
+/**
+ * ローカルのコミットに対応するリモートのコミットを探す
+ *
+ * push はコミットを API で作り直すため、リモートの SHA がローカルと異なる場合がある。
+ * SHA で見つからなければ、同名のリモートブランチの履歴からツリーとメッセージが同じコミットを探す。
+ */
+async function findRemoteCommit(
+  fs: FS,
+  dir: string,
+  localOid: string,
+  githubAPI: GitHubAPI,
+  historyCache: Map<string, Array<{ sha: string; tree: string; message: string }>>
+): Promise<string | null> {
+  if (await githubAPI.commitExists(localOid)) {
+    return localOid;
+  }
+
+  const { commit } = await git.readCommit({ fs, dir, oid: localOid });
+  const message = commit.message.trim();
+  const branches = await git.listBranches({ fs, dir });
+
+  for (const branch of branches) {
+    let history = historyCache.get(branch);
+    if (!history) {
+      const remoteRef = await githubAPI.getRef(branch);
+      const commits = remoteRef
+        ? await githubAPI.getCommitHistory(remoteRef.object.sha, MAX_COMMIT_HISTORY_DEPTH)
+        : [];
+      history = commits.map(c => ({
+        sha: c.sha,
+        tree: c.commit.tree.sha,
+        message: c.commit.message.trim(),
+      }));
+      historyCache.set(branch, history);
+    }
+    const match = history.find(c => c.tree === commit.tree && c.message === message);
+    if (match) return match.sha;
+  }
+  return null;
+}
+
+/**
+ * タグをプッシュ（git push --tags / git push <remote> <tag> / git push --delete <remote> <tag>）
+ *
+ * GitHub Git Data API でタグを作成する:
+ * - 軽量タグ: refs/tags/<name> をコミットに向ける
+ * - 注釈付きタグ: tag オブジェクトを作成してから refs/tags/<name> をそれに向ける
+ * タグが指すコミットは事前にブランチとしてプッシュされている必要がある
+ */
+export async function pushTags(
+  fs: FS,
+  dir: string,
+  options: PushTagsOptions,
+  ui?: TerminalUI
+): Promise<string> {
+  const { remote = 'origin', tags, force = false } = options;
+
+  // GitHub 以外のリモートは smart HTTP でタグの ref をそのままプッシュ
+  const smartHttpUrl = await getSmartHttpRemoteUrl(fs, dir, remote);
+  if (smartHttpUrl) {
+    const tagNames = tags === 'all' ? (await git.listTags({ fs, dir })).sort() : tags;
+    return pushSmartHttp(
+      fs,
+      dir,
+      {
+        remote,
+        url: smartHttpUrl,
+        refs: tagNames.map(name => `refs/tags/${name}`),
+        force,
+        delete: options.delete,
+        corsProxy: options.corsProxy,
+      },
+      ui
+    );
+  }
+
+  try {
+    if (ui) {
+      await ui.spinner.start('Pushing tags...');
+    }
+
+    const token = await authRepository.getAccessToken();
+    if (!token) {
+      throw new Error('GitHub authentication required. Please sign in first.');
+    }
+
+    const { remoteInfo, githubAPI } = await connectGitHubRemote(fs, dir, remote, token);
+    const tagNames = tags === 'all' ? (await git.listTags({ fs, dir })).sort() : tags;
+    const lines: string[] = [];
+    let rejected = false;
+
+    if (options.delete) {
+      for (const name of tagNames) {
+        if (!(await githubAPI.getTagRef(name))) {
+          lines.push(`error: unable to delete '${name}': remote ref does not exist`);
+          rejected = true;
+          continue;
+        }
+        await githubAPI.deleteTagRef(name);
+        lines.push(` - [deleted]         ${name}`);
+      }
+    } else {
+      const tagOperations = new GitTagOperations(fs, dir);
+      const historyCache = new Map<string, Array<{ sha: string; tree: string; message: string }>>();
+
+      for (const name of tagNames) {
+        const localCommit = await tagOperations.resolveTagCommit(name);
+        if (!localCommit) {
+          throw new Error(`src refspec ${name} does not match any`);
+        }
+
+        const remoteCommit = await findRemoteCommit(fs, dir, localCommit, githubAPI, historyCache);
+        if (!remoteCommit) {
+          lines.push(` ! [rejected]        ${name} -> ${name} (commit not found on remote)`);
+          lines.push(
+            `hint: push the branch containing ${localCommit.slice(0, 7)} before pushing the tag.`
+          );
+          rejected = true;
+          continue;
+        }
+
+        const existing = await githubAPI.getTagRef(name);
+        if (existing && !force) {
+          const existingCommit =
+            existing.object.type === 'tag'
+              ? (await githubAPI.getTag(existing.object.sha)).object.sha
+              : existing.object.sha;
+          if (existingCommit !== remoteCommit) {
+            lines.push(` ! [rejected]        ${name} -> ${name} (already exists)`);
+            rejected = true;
+          }
+          continue;
+        }
+
+        const tagOid = await git.resolveRef({ fs, dir, ref: `refs/tags/${name}` });
+        let refTarget = remoteCommit;
+        if (tagOid !== localCommit) {
+          // 注釈付きタグ: tagger とメッセージをそのまま使う
+          const { tag } = await git.readTag({ fs, dir, oid: tagOid });
+          const tagObject = await githubAPI.createTag({
+            tag: name,
+            message: tag.message,
+            object: remoteCommit,
+            type: 'commit',
+            tagger: {
+              name: tag.tagger.name,
+              email: tag.tagger.email,
+              date: new Date(tag.tagger.timestamp * 1000).toISOString(),
+            },
+          });
+          refTarget = tagObject.sha;
+        }
+        await githubAPI.setTagRef(name, refTarget, force);
+        lines.push(
+          existing
+            ? ` + ${existing.object.sha.slice(0, 7)}...${refTarget.slice(0, 7)} ${name} -> ${name} (forced update)`
+            : ` * [new tag]         ${name} -> ${name}`
+        );
+      }
+    }
+
+    if (ui) await ui.spinner.stop();
+
+    if (lines.length === 0) {
+      return 'Everything up-to-date';
+    }
+    let result = `To ${remoteInfo.url}\n${lines.join('\n')}\n`;
+    if (rejected) {
+      result += `error: failed to push some refs to '${remoteInfo.url}'\n`;
+    }
+    return result;
+  } catch (error) {
+    console.error('[git push] Error:', error);
+    if (ui) await ui.spinner.stop();
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Push failed: ${errorMessage}`);
+  }
+}
+
 /**
  * リモート追跡ブランチを更新するヘルパー関数
  */
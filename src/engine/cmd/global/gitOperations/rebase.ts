@@ -0,0 +1,754 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import git, { type CommitObject } from 'isomorphic-git';
+
+import { resolveRevision } from './revision';
+import { hasConflictMarkers, mergeText } from './threeWayMerge';
+import {
+  type TreeFile,
+  hashWorkdirFile,
+  readIndexFiles,
+  readTreeFiles,
+  removeWorkdirFile,
+  writeTreeFromFiles,
+  writeWorkdirFile,
+} from './treeObjects';
+
+import { syncManager } from '@/engine/core/syncManager';
+import type { MergeConflictFileEntry } from '@/engine/tabs/types';
+import { tabActions } from '@/stores/tabState';
+import type { RebaseAction, RebaseTodoItem } from '@/types/git';
+
+export interface RebaseOptions {
+  /** todoリストエディタを開く（git rebase -i） */
+  interactive?: boolean;
+  /** 編集済みのtodoリスト（指定時はそのまま実行） */
+  todo?: RebaseTodoItem[];
+}
+
+// コミット適用の結果
+interface ApplyResult {
+  conflicts: MergeConflictFileEntry[];
+  /** CONFLICT (...) 行 */
+  messages: string[];
+}
+
+interface RebaseState {
+  /** 'refs/heads/<branch>' または 'detached HEAD' */
+  headName: string;
+  onto: string;
+  origHead: string;
+  todo: RebaseTodoItem[];
+  done: RebaseTodoItem[];
+}
+
+const DEFAULT_AUTHOR = { name: 'User', email: 'user@pyxis.dev' };
+const REBASE_ACTIONS: RebaseAction[] = ['pick', 'reword', 'squash', 'fixup', 'drop'];
+// git-rebase-todo / done の1行: <action> <oid> <subject>
+const TODO_LINE = /^(\w+) ([0-9a-f]{40})(?: (.*))?$/;
+
+/**
+ * [NEW ARCHITECTURE] Git cherry-pick / rebase 操作を管理するクラス
+ * - コミットの再適用はツリー単位の3-wayマージ（base = 対象コミットの親, ours = HEAD, theirs = 対象コミット）
+ *   - 両側で変更されたテキストファイルは行単位でマージし、重なる変更のみコンフリクト
+ * - コンフリクト時はワーキングツリーにマーカー付きの内容を書き出し、MergeConflictResolutionTab を開く
+ * - 中断中の状態はネイティブgitと同じ場所に保存（.git/CHERRY_PICK_HEAD, .git/rebase-merge/）
+ * - ワーキングツリーを変更した後はsyncManager.syncFromFSToIndexedDB()で逆同期
+ */
+export class GitRebaseOperations {
+  private fs: FS;
+  private dir: string;
+  private projectId: string;
+  private projectName: string;
+
+  constructor(fs: FS, dir: string, projectId: string, projectName: string) {
+    this.fs = fs;
+    this.dir = dir;
+    this.projectId = projectId;
+    this.projectName = projectName;
+  }
+
+  private get rebaseDir(): string {
+    return `${this.dir}/.git/rebase-merge`;
+  }
+
+  // Gitリポジトリが初期化されているかチェック
+  private async ensureGitRepository(): Promise<void> {
+    try {
+      await this.fs.promises.stat(`${this.dir}/.git`);
+    } catch {
+      throw new Error('fatal: not a git repository (or any of the parent directories): .git');
+    }
+  }
+
+  // ========================================
+  // git cherry-pick
+  // ========================================
+
+  async cherryPick(revision: string): Promise<string> {
+    await this.ensureGitRepository();
+    await this.ensureNoOperationInProgress();
+    await this.ensureCleanWorkingTree('cherry-pick');
+
+    const oid = await resolveRevision(this.fs, this.dir, revision);
+    const headOid = await this.resolveHead();
+    const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid });
+
+    const result = await this.applyCommit(oid, headOid);
+    if (result.conflicts.length > 0) {
+      await this.writeStateFile('CHERRY_PICK_HEAD', `${oid}\n`);
+      await this.writeStateFile('ORIG_HEAD', `${headOid}\n`);
+      await this.writeStateFile('MERGE_MSG', commit.message);
+      await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+      await this.openConflictTab(result.conflicts, oid, commit, 'cherry-pick');
+      return [
+        ...result.messages,
+        `error: could not apply ${oid.slice(0, 7)}... ${subjectOf(commit)}`,
+        'hint: After resolving the conflicts, mark them with',
+        'hint: "git add/rm <pathspec>", then run',
+        'hint: "git cherry-pick --continue".',
+      ].join('\n');
+    }
+
+    const newOid = await this.commitIndex(headOid, [headOid], commit.message, commit.author);
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+    if (!newOid) {
+      throw new Error(
+        'The previous cherry-pick is now empty, possibly due to conflict resolution.\nnothing to commit, working tree clean'
+      );
+    }
+    return `[${await this.describeHead()} ${newOid.slice(0, 7)}] ${subjectOf(commit)}`;
+  }
+
+  async cherryPickContinue(): Promise<string> {
+    await this.ensureGitRepository();
+    const pickOid = await this.readStateFile('CHERRY_PICK_HEAD');
+    if (!pickOid) {
+      throw new Error('error: no cherry-pick or revert in progress');
+    }
+
+    await this.stageResolvedFiles();
+    const headOid = await this.resolveHead();
+    const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: pickOid });
+    const message = (await this.readStateFile('MERGE_MSG', false)) ?? commit.message;
+
+    const newOid = await this.commitIndex(headOid, [headOid], message, commit.author);
+    if (!newOid) {
+      throw new Error(
+        'The previous cherry-pick is now empty, possibly due to conflict resolution.\nUse "git cherry-pick --abort" to cancel the cherry-pick.'
+      );
+    }
+    await this.clearCherryPickState();
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+    return `[${await this.describeHead()} ${newOid.slice(0, 7)}] ${subjectOf(commit)}`;
+  }
+
+  async cherryPickAbort(): Promise<string> {
+    await this.ensureGitRepository();
+    if (!(await this.readStateFile('CHERRY_PICK_HEAD'))) {
+      throw new Error('error: no cherry-pick or revert in progress');
+    }
+    const origHead = await this.readStateFile('ORIG_HEAD');
+    const branch = await git.currentBranch({ fs: this.fs, dir: this.dir });
+    if (origHead) {
+      await this.checkoutForce(branch ?? origHead, branch ? origHead : undefined);
+    }
+    await this.clearCherryPickState();
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+    return '';
+  }
+
+  // ========================================
+  // git rebase
+  // ========================================
+
+  /**
+   * upstream..HEAD のコミットを古い順に並べたtodoリスト
+   * 1つ目の親をたどり、マージコミットは含めない（ネイティブgitと同様）
+   */
+  async planRebase(upstream: string): Promise<RebaseTodoItem[]> {
+    await this.ensureGitRepository();
+    const headOid = await this.resolveHead();
+    const upstreamOid = await resolveRevision(this.fs, this.dir, upstream);
+    const [mergeBase] = await git.findMergeBase({
+      fs: this.fs,
+      dir: this.dir,
+      oids: [headOid, upstreamOid],
+    });
+
+    const items: RebaseTodoItem[] = [];
+    let oid: string | undefined = headOid;
+    while (oid && oid !== mergeBase) {
+      const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid });
+      if (commit.parent.length <= 1) {
+        items.push({ action: 'pick', oid, shortOid: oid.slice(0, 7), subject: subjectOf(commit) });
+      }
+      oid = commit.parent[0];
+    }
+    return items.reverse();
+  }
+
+  async rebase(upstream: string, options: RebaseOptions = {}): Promise<string> {
+    await this.ensureGitRepository();
+    await this.ensureNoOperationInProgress();
+    await this.ensureCleanWorkingTree('rebase');
+
+    const headOid = await this.resolveHead();
+    const onto = await resolveRevision(this.fs, this.dir, upstream);
+    const branch = await git.currentBranch({ fs: this.fs, dir: this.dir });
+    const plan = await this.planRebase(upstream);
+
+    if (options.interactive && !options.todo) {
+      await tabActions.openTab(
+        {
+          projectId: this.projectId,
+          projectName: this.projectName,
+          upstream,
+          branch: branch ?? 'HEAD',
+          items: plan,
+        },
+        { kind: 'rebase-todo' }
+      );
+      return `Interactive rebase: ${plan.length} commit(s) onto ${onto.slice(0, 7)}.\nEdit the todo list in the editor tab and press Start.`;
+    }
+
+    const todo = options.todo ?? plan;
+    const firstAction = todo.find(item => item.action !== 'drop')?.action;
+    if (firstAction === 'squash' || firstAction === 'fixup') {
+      throw new Error(`error: cannot '${firstAction}' without a previous commit`);
+    }
+
+    // onto が既に HEAD の祖先なら何もしない（編集済みのtodoが渡された場合は実行する）
+    if (!options.todo) {
+      const [mergeBase] = await git.findMergeBase({
+        fs: this.fs,
+        dir: this.dir,
+        oids: [headOid, onto],
+      });
+      if (mergeBase === onto) {
+        return `Current branch ${branch ?? 'HEAD'} is up to date.`;
+      }
+    }
+
+    await this.writeRebaseState({
+      headName: branch ? `refs/heads/${branch}` : 'detached HEAD',
+      onto,
+      origHead: headOid,
+      todo,
+      done: [],
+    });
+    await this.writeStateFile('ORIG_HEAD', `${headOid}\n`);
+
+    // onto を detached HEAD でチェックアウトしてから1つずつ再適用
+    await this.checkoutForce(onto);
+    return this.runTodo();
+  }
+
+  async rebaseContinue(): Promise<string> {
+    await this.ensureGitRepository();
+    const state = await this.readRebaseState();
+    if (!state) {
+      throw new Error('fatal: No rebase in progress?');
+    }
+
+    const stopped = await this.readStateFile('rebase-merge/stopped-sha');
+    if (stopped) {
+      await this.stageResolvedFiles();
+      const item = state.done[state.done.length - 1];
+      await this.commitRebaseItem(item);
+      await this.fs.promises.unlink(`${this.rebaseDir}/stopped-sha`);
+    }
+    return this.runTodo();
+  }
+
+  async rebaseAbort(): Promise<string> {
+    await this.ensureGitRepository();
+    const state = await this.readRebaseState();
+    if (!state) {
+      throw new Error('fatal: No rebase in progress?');
+    }
+
+    if (state.headName.startsWith('refs/heads/')) {
+      await this.checkoutForce(state.headName.slice('refs/heads/'.length), state.origHead);
+    } else {
+      await this.checkoutForce(state.origHead);
+    }
+    await this.removeRebaseState();
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+    return '';
+  }
+
+  /**
+   * 進行中の操作（'cherry-pick' | 'rebase'）
+   */
+  async getOperationInProgress(): Promise<'cherry-pick' | 'rebase' | null> {
+    if (await this.readRebaseState()) return 'rebase';
+    if (await this.readStateFile('CHERRY_PICK_HEAD')) return 'cherry-pick';
+    return null;
+  }
+
+  // todoの残りを順に適用し、完了したらブランチを更新
+  private async runTodo(): Promise<string> {
+    const state = await this.readRebaseState();
+    if (!state) {
+      throw new Error('fatal: No rebase in progress?');
+    }
+
+    while (state.todo.length > 0) {
+      const item = state.todo[0];
+      if (item.action !== 'drop') {
+        const headOid = await this.resolveHead();
+        const result = await this.applyCommit(item.oid, headOid);
+        state.done.push(state.todo.shift() as RebaseTodoItem);
+        await this.writeRebaseState(state);
+
+        if (result.conflicts.length > 0) {
+          const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: item.oid });
+          await this.writeStateFile('rebase-merge/stopped-sha', `${item.oid}\n`);
+          await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+          await this.openConflictTab(result.conflicts, item.oid, commit, 'rebase');
+          return [
+            ...result.messages,
+            `error: could not apply ${item.shortOid}... ${item.subject}`,
+            'hint: Resolve all conflicts manually, mark them as resolved with',
+            'hint: "git add/rm <conflicted_files>", then run "git rebase --continue".',
+            'hint: To abort and get back to the state before "git rebase", run "git rebase --abort".',
+          ].join('\n');
+        }
+        await this.commitRebaseItem(item);
+      } else {
+        state.done.push(state.todo.shift() as RebaseTodoItem);
+        await this.writeRebaseState(state);
+      }
+    }
+
+    // ブランチを新しい先端に移動して HEAD を戻す
+    const newHead = await this.resolveHead();
+    if (state.headName.startsWith('refs/heads/')) {
+      await git.writeRef({
+        fs: this.fs,
+        dir: this.dir,
+        ref: state.headName,
+        value: newHead,
+        force: true,
+      });
+      await git.writeRef({
+        fs: this.fs,
+        dir: this.dir,
+        ref: 'HEAD',
+        value: state.headName,
+        symbolic: true,
+        force: true,
+      });
+    }
+    await this.removeRebaseState();
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+    return `Successfully rebased and updated ${state.headName}.`;
+  }
+
+  // インデックスの内容でtodoの1項目をコミット（squash/fixup は直前のコミットに統合）
+  private async commitRebaseItem(item: RebaseTodoItem): Promise<void> {
+    const headOid = await this.resolveHead();
+    const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: item.oid });
+
+    if (item.action === 'squash' || item.action === 'fixup') {
+      const { commit: head } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: headOid });
+      const message =
+        item.action === 'fixup'
+          ? head.message
+          : (item.message ?? `${head.message.trimEnd()}\n\n${commit.message}`);
+      await this.commitIndex(headOid, head.parent, message, head.author, true);
+      return;
+    }
+
+    const message = item.action === 'reword' && item.message ? item.message : commit.message;
+    await this.commitIndex(headOid, [headOid], message, commit.author);
+  }
+
+  // ========================================
+  // コミットの再適用
+  // ========================================
+
+  /**
+   * コミットの変更を HEAD に3-wayマージしてワーキングツリーとインデックスに反映
+   * 未追跡ファイルを上書きする場合は何も変更せずにエラー
+   */
+  private async applyCommit(oid: string, headOid: string): Promise<ApplyResult> {
+    const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid });
+    const short = oid.slice(0, 7);
+    if (commit.parent.length > 1) {
+      throw new Error(`error: commit ${short} is a merge but no -m option was given.`);
+    }
+
+    const baseFiles = commit.parent[0]
+      ? await readTreeFiles(this.fs, this.dir, commit.parent[0])
+      : new Map<string, TreeFile>();
+    const theirsFiles = await readTreeFiles(this.fs, this.dir, oid);
+    const oursFiles = await readTreeFiles(this.fs, this.dir, headOid);
+    const labels = { ours: 'HEAD', theirs: `${short} (${subjectOf(commit)})` };
+
+    const updates: Array<{ path: string; file: TreeFile | null }> = [];
+    const conflicts: MergeConflictFileEntry[] = [];
+    const conflictContents = new Map<string, string>();
+    const messages: string[] = [];
+
+    for (const path of [...new Set([...baseFiles.keys(), ...theirsFiles.keys()])].sort()) {
+      const base = baseFiles.get(path);
+      const theirs = theirsFiles.get(path);
+      const ours = oursFiles.get(path);
+      if (sameFile(base, theirs) || sameFile(ours, theirs)) continue;
+      if (sameFile(base, ours)) {
+        updates.push({ path, file: theirs ?? null });
+        continue;
+      }
+
+      const [baseText, oursText, theirsText] = await Promise.all([
+        this.readText(base),
+        this.readText(ours),
+        this.readText(theirs),
+      ]);
+
+      if (ours && theirs && baseText !== null && oursText !== null && theirsText !== null) {
+        messages.push(`Auto-merging ${path}`);
+        const result = mergeText(baseText, oursText, theirsText, labels);
+        if (!result.conflict) {
+          const mergedOid = await git.writeBlob({
+            fs: this.fs,
+            dir: this.dir,
+            blob: new TextEncoder().encode(result.merged),
+          });
+          updates.push({ path, file: { oid: mergedOid, mode: theirs.mode } });
+          continue;
+        }
+        messages.push(`CONFLICT (content): Merge conflict in ${path}`);
+        conflictContents.set(path, result.merged);
+      } else if (!theirs) {
+        messages.push(
+          `CONFLICT (modify/delete): ${path} deleted in ${labels.theirs} and modified in HEAD.`
+        );
+      } else if (!ours) {
+        messages.push(
+          `CONFLICT (modify/delete): ${path} deleted in HEAD and modified in ${labels.theirs}.`
+        );
+      } else {
+        messages.push(`CONFLICT (binary): Merge conflict in ${path}`);
+      }
+
+      conflicts.push({
+        filePath: `/${path}`,
+        baseContent: baseText ?? '',
+        oursContent: oursText ?? '',
+        theirsContent: theirsText ?? '',
+        resolvedContent: conflictContents.get(path) ?? oursText ?? '',
+        isResolved: false,
+      });
+    }
+
+    const overwritten: string[] = [];
+    for (const { path, file } of updates) {
+      if (!file || oursFiles.has(path)) continue;
+      const current = await hashWorkdirFile(this.fs, this.dir, path);
+      if (current !== null && current !== file.oid) overwritten.push(path);
+    }
+    if (overwritten.length > 0) {
+      throw new Error(
+        `error: The following untracked working tree files would be overwritten by merge:\n\t${overwritten.join('\n\t')}\nPlease move or remove them before you merge.\nAborting`
+      );
+    }
+
+    for (const { path, file } of updates) {
+      if (file) {
+        const { blob } = await git.readBlob({ fs: this.fs, dir: this.dir, oid: file.oid });
+        await writeWorkdirFile(this.fs, this.dir, path, blob);
+        await git.updateIndex({
+          fs: this.fs,
+          dir: this.dir,
+          filepath: path,
+          oid: file.oid,
+          mode: Number.parseInt(file.mode, 8),
+          add: true,
+        });
+      } else {
+        await removeWorkdirFile(this.fs, this.dir, path);
+        await git.remove({ fs: this.fs, dir: this.dir, filepath: path });
+      }
+    }
+    // コンフリクトしたファイルはマーカー付きでワーキングツリーに置き、インデックスは HEAD のまま
+    for (const [path, content] of conflictContents) {
+      await writeWorkdirFile(this.fs, this.dir, path, content);
+    }
+
+    return { conflicts, messages };
+  }
+
+  /**
+   * インデックスのツリーでコミットを作成し HEAD を進める
+   * ツリーが HEAD と同じ（空のコミット）場合は amend 以外は何もせず null
+   */
+  private async commitIndex(
+    headOid: string,
+    parent: string[],
+    message: string,
+    author: CommitObject['author'],
+    amend = false
+  ): Promise<string | null> {
+    const tree = await writeTreeFromFiles(
+      this.fs,
+      this.dir,
+      await readIndexFiles(this.fs, this.dir)
+    );
+    const { commit: head } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: headOid });
+    if (!amend && tree === head.tree) return null;
+
+    const oid = await git.writeCommit({
+      fs: this.fs,
+      dir: this.dir,
+      commit: {
+        tree,
+        parent,
+        message: message.endsWith('\n') ? message : `${message}\n`,
+        author,
+        committer: {
+          ...DEFAULT_AUTHOR,
+          timestamp: Math.floor(Date.now() / 1000),
+          timezoneOffset: new Date().getTimezoneOffset(),
+        },
+      },
+    });
+
+    const branch = await git.currentBranch({ fs: this.fs, dir: this.dir, fullname: true });
+    await git.writeRef({
+      fs: this.fs,
+      dir: this.dir,
+      ref: branch ?? 'HEAD',
+      value: oid,
+      force: true,
+    });
+    return oid;
+  }
+
+  /**
+   * コンフリクトの解消後、マーカーが残っていないことを確認して変更をステージ
+   */
+  private async stageResolvedFiles(): Promise<void> {
+    const matrix = await git.statusMatrix({ fs: this.fs, dir: this.dir });
+    // [filepath, HEAD, WORKDIR, STAGE] 追跡中で未ステージの変更があるファイル
+    const unstaged = matrix.filter(
+      ([, head, workdir, stage]) => !(head === 0 && stage === 0) && workdir !== stage
+    );
+
+    const unresolved: string[] = [];
+    for (const [filepath, , workdir] of unstaged) {
+      if (workdir === 0) continue;
+      const content = (await this.fs.promises.readFile(`${this.dir}/${filepath}`, {
+        encoding: 'utf8',
+      })) as string;
+      if (hasConflictMarkers(content)) unresolved.push(filepath);
+    }
+    if (unresolved.length > 0) {
+      throw new Error(
+        `${unresolved.map(path => `${path}: needs merge`).join('\n')}\nYou must edit all merge conflicts and then\nmark them as resolved using git add`
+      );
+    }
+
+    for (const [filepath, , workdir] of unstaged) {
+      if (workdir === 0) {
+        await git.remove({ fs: this.fs, dir: this.dir, filepath });
+      } else {
+        await git.add({ fs: this.fs, dir: this.dir, filepath });
+      }
+    }
+  }
+
+  private async openConflictTab(
+    conflicts: MergeConflictFileEntry[],
+    oid: string,
+    commit: CommitObject,
+    operation: 'cherry-pick' | 'rebase'
+  ): Promise<void> {
+    const state = operation === 'rebase' ? await this.readRebaseState() : null;
+    const oursBranch = state
+      ? state.headName.replace(/^refs\/heads\//, '')
+      : ((await git.currentBranch({ fs: this.fs, dir: this.dir })) ?? 'HEAD');
+
+    await tabActions.openTab(
+      {
+        conflicts,
+        oursBranch,
+        theirsBranch: `${oid.slice(0, 7)} (${subjectOf(commit)})`,
+        projectId: this.projectId,
+        projectName: this.projectName,
+        operation,
+      },
+      { kind: 'merge-conflict' }
+    );
+  }
+
+  // ========================================
+  // ヘルパー
+  // ========================================
+
+  private async ensureCleanWorkingTree(operation: 'cherry-pick' | 'rebase'): Promise<void> {
+    const matrix = await git.statusMatrix({ fs: this.fs, dir: this.dir });
+    // 未追跡ファイルは対象外
+    const dirty = matrix.filter(
+      ([, head, workdir, stage]) =>
+        !(head === 0 && stage === 0) && (head !== workdir || head !== stage)
+    );
+    if (dirty.length === 0) return;
+
+    if (operation === 'rebase') {
+      throw new Error(
+        'error: cannot rebase: You have unstaged changes.\nerror: Please commit or stash them.'
+      );
+    }
+    throw new Error(
+      'error: your local changes would be overwritten by cherry-pick.\nhint: commit your changes or stash them to proceed.\nfatal: cherry-pick failed'
+    );
+  }
+
+  private async ensureNoOperationInProgress(): Promise<void> {
+    const operation = await this.getOperationInProgress();
+    if (operation === 'rebase') {
+      throw new Error(
+        'fatal: It seems that there is already a rebase-merge directory.\nUse "git rebase --continue" or "git rebase --abort".'
+      );
+    }
+    if (operation === 'cherry-pick') {
+      throw new Error(
+        'error: cherry-pick is already in progress\nhint: try "git cherry-pick (--continue | --abort)"'
+      );
+    }
+  }
+
+  private async resolveHead(): Promise<string> {
+    try {
+      return await git.resolveRef({ fs: this.fs, dir: this.dir, ref: 'HEAD' });
+    } catch {
+      throw new Error('fatal: You do not have the initial commit yet');
+    }
+  }
+
+  private async describeHead(): Promise<string> {
+    const branch = await git.currentBranch({ fs: this.fs, dir: this.dir });
+    return branch ?? 'detached HEAD';
+  }
+
+  // テキストとして読めるblobの内容（バイナリ・存在しない場合は null）
+  private async readText(file: TreeFile | undefined): Promise<string | null> {
+    if (!file) return null;
+    const { blob } = await git.readBlob({ fs: this.fs, dir: this.dir, oid: file.oid });
+    if (blob.includes(0)) return null;
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(blob);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 強制チェックアウト（branch 指定時は先にブランチを oid に移動）
+   */
+  private async checkoutForce(ref: string, branchOid?: string): Promise<void> {
+    if (branchOid) {
+      await git.writeRef({
+        fs: this.fs,
+        dir: this.dir,
+        ref: `refs/heads/${ref}`,
+        value: branchOid,
+        force: true,
+      });
+    }
+    await git.checkout({ fs: this.fs, dir: this.dir, ref, force: true });
+  }
+
+  private async clearCherryPickState(): Promise<void> {
+    for (const name of ['CHERRY_PICK_HEAD', 'MERGE_MSG']) {
+      try {
+        await this.fs.promises.unlink(`${this.dir}/.git/${name}`);
+      } catch {
+        // 既に存在しない
+      }
+    }
+  }
+
+  private async readRebaseState(): Promise<RebaseState | null> {
+    const headName = await this.readStateFile('rebase-merge/head-name');
+    if (!headName) return null;
+
+    const messages = JSON.parse(
+      (await this.readStateFile('rebase-merge/messages.json', false)) ?? '{}'
+    ) as Record<string, string>;
+    const parseTodo = (content: string | null): RebaseTodoItem[] =>
+      (content ?? '')
+        .split('\n')
+        .map(line => line.match(TODO_LINE))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .filter(match => REBASE_ACTIONS.includes(match[1] as RebaseAction))
+        .map(([, action, oid, subject]) => ({
+          action: action as RebaseAction,
+          oid,
+          shortOid: oid.slice(0, 7),
+          subject: subject ?? '',
+          message: messages[oid],
+        }));
+
+    return {
+      headName,
+      onto: (await this.readStateFile('rebase-merge/onto')) ?? '',
+      origHead: (await this.readStateFile('rebase-merge/orig-head')) ?? '',
+      todo: parseTodo(await this.readStateFile('rebase-merge/git-rebase-todo', false)),
+      done: parseTodo(await this.readStateFile('rebase-merge/done', false)),
+    };
+  }
+
+  private async writeRebaseState(state: RebaseState): Promise<void> {
+    const formatTodo = (items: RebaseTodoItem[]) =>
+      items.map(item => `${item.action} ${item.oid} ${item.subject}\n`).join('');
+    const messages: Record<string, string> = {};
+    for (const item of [...state.done, ...state.todo]) {
+      if (item.message) messages[item.oid] = item.message;
+    }
+
+    await this.writeStateFile('rebase-merge/head-name', `${state.headName}\n`);
+    await this.writeStateFile('rebase-merge/onto', `${state.onto}\n`);
+    await this.writeStateFile('rebase-merge/orig-head', `${state.origHead}\n`);
+    await this.writeStateFile('rebase-merge/git-rebase-todo', formatTodo(state.todo));
+    await this.writeStateFile('rebase-merge/done', formatTodo(state.done));
+    await this.writeStateFile('rebase-merge/messages.json', JSON.stringify(messages));
+  }
+
+  private async removeRebaseState(): Promise<void> {
+    try {
+      for (const name of await this.fs.promises.readdir(this.rebaseDir)) {
+        await this.fs.promises.unlink(`${this.rebaseDir}/${name}`);
+      }
+      await this.fs.promises.rmdir(this.rebaseDir);
+    } catch {
+      // 既に存在しない
+    }
+  }
+
+  // .git 配下の状態ファイルを読む（trim 指定時は前後の空白を除去、存在しなければ null）
+  private async readStateFile(name: string, trim = true): Promise<string | null> {
+    try {
+      const content = (await this.fs.promises.readFile(`${this.dir}/.git/${name}`, {
+        encoding: 'utf8',
+      })) as string;
+      return trim ? content.trim() || null : content;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeStateFile(name: string, content: string): Promise<void> {
+    await writeWorkdirFile(this.fs, `${this.dir}/.git`, name, content);
+  }
+}
+
+function sameFile(a: TreeFile | undefined, b: TreeFile | undefined): boolean {
+  return a?.oid === b?.oid && a?.mode === b?.mode;
+}
+
+function subjectOf(commit: CommitObject): string {
+  return commit.message.split('\n')[0];
+}
@@ -0,0 +1,49 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+
+/**
+ * リビジョン指定（branch / tag / remote / 短縮oid + ~n ^n）をコミットoidに解決する
+ * cherry-pick / rebase / blame で共通に使う
+ */
+export async function resolveRevision(fs: FS, dir: string, revision: string): Promise<string> {
+  const [, name, suffix] = revision.match(/^(.*?)((?:[~^]\d*)*)$/) as RegExpMatchArray;
+
+  let oid: string | null = null;
+  for (const ref of [name, `refs/heads/${name}`, `refs/tags/${name}`, `refs/remotes/${name}`]) {
+    try {
+      oid = await git.resolveRef({ fs, dir, ref });
+      break;
+    } catch {
+      // 次の候補
+    }
+  }
+  if (!oid && /^[0-9a-f]{4,40}$/.test(name)) {
+    try {
+      oid = await git.expandOid({ fs, dir, oid: name });
+    } catch {
+      // 該当なし
+    }
+  }
+  if (!oid) {
+    throw new Error(`fatal: bad revision '${revision}'`);
+  }
+
+  try {
+    // 注釈付きタグはコミットまでたどる
+    let current: string | undefined = (await git.readCommit({ fs, dir, oid })).oid;
+    for (const [, op, count] of suffix.matchAll(/([~^])(\d*)/g)) {
+      const n = count === '' ? 1 : Number(count);
+      // HEAD~n は1つ目の親を n 回、HEAD^n は n 番目の親
+      const steps = op === '~' ? n : Math.min(n, 1);
+      const parentIndex = op === '~' ? 0 : n - 1;
+      for (let i = 0; i < steps && current; i++) {
+        const { commit } = await git.readCommit({ fs, dir, oid: current });
+        current = commit.parent[parentIndex];
+      }
+    }
+    if (!current) throw new Error('no parent');
+    return current;
+  } catch {
+    throw new Error(`fatal: bad revision '${revision}'`);
+  }
+}
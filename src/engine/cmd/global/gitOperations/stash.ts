@@ -0,0 +1,542 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+
+import { GitDiffOperations } from './diff';
+import {
+  type TreeFile,
+  type TreeFiles,
+  ensureDir,
+  hashWorkdirFile,
+  readIndexFiles,
+  readTreeFiles,
+  removeWorkdirFile,
+  writeTreeFromFiles,
+  writeWorkdirFile,
+} from './treeObjects';
+
+import { syncManager } from '@/engine/core/syncManager';
+import type { GitStashEntry } from '@/types/git';
+
+export interface StashPushOptions {
+  message?: string;
+  /** 未追跡ファイルも退避する（git stash -u） */
+  includeUntracked?: boolean;
+}
+
+export interface StashApplyOptions {
+  /** ステージ状態も復元する（git stash apply --index） */
+  index?: boolean;
+}
+
+export interface StashFileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'untracked';
+}
+
+const STASH_REF = 'refs/stash';
+const DEFAULT_AUTHOR = { name: 'User', email: 'user@pyxis.dev' };
+
+// .git/logs/refs/stash の1行: <old> <new> <name> <<email>> <timestamp> <tz>\t<message>
+const REFLOG_LINE = /^([0-9a-f]{40}) ([0-9a-f]{40}) (.*?) <(.*?)> (\d+) ([+-]\d{4})\t(.*)$/;
+const ZERO_OID = '0'.repeat(40);
+
+/**
+ * [NEW ARCHITECTURE] Git stash操作を管理するクラス
+ * - ネイティブgitと同じ形式（refs/stash + reflog、W/I/Uコミット）で保存
+ *   - W: ワーキングツリーの状態（親: HEAD, I, U）
+ *   - I: インデックスの状態（親: HEAD）
+ *   - U: 未追跡ファイル（-u 指定時のみ、親なし）
+ * - ワーキングツリーを変更した後はsyncManager.syncFromFSToIndexedDB()で逆同期
+ */
+export class GitStashOperations {
+  private fs: FS;
+  private dir: string;
+  private projectId: string;
+  private projectName: string;
+
+  constructor(fs: FS, dir: string, projectId: string, projectName: string) {
+    this.fs = fs;
+    this.dir = dir;
+    this.projectId = projectId;
+    this.projectName = projectName;
+  }
+
+  private get reflogPath(): string {
+    return `${this.dir}/.git/logs/refs/stash`;
+  }
+
+  // Gitリポジトリが初期化されているかチェック
+  private async ensureGitRepository(): Promise<void> {
+    try {
+      await this.fs.promises.stat(`${this.dir}/.git`);
+    } catch {
+      throw new Error('fatal: not a git repository (or any of the parent directories): .git');
+    }
+  }
+
+  // ========================================
+  // git stash push
+  // ========================================
+
+  async push(options: StashPushOptions = {}): Promise<string> {
+    await this.ensureGitRepository();
+
+    let headOid: string;
+    try {
+      headOid = await git.resolveRef({ fs: this.fs, dir: this.dir, ref: 'HEAD' });
+    } catch {
+      throw new Error('fatal: You do not have the initial commit yet');
+    }
+
+    const headCommit = await git.readCommit({ fs: this.fs, dir: this.dir, oid: headOid });
+    const branch = (await git.currentBranch({ fs: this.fs, dir: this.dir })) || '(no branch)';
+    const subject = headCommit.commit.message.split('\n')[0];
+    const baseDescription = `${branch}: ${headOid.slice(0, 7)} ${subject}`;
+
+    const headFiles = await readTreeFiles(this.fs, this.dir, headOid);
+    const indexFiles = await readIndexFiles(this.fs, this.dir);
+    const matrix = await git.statusMatrix({ fs: this.fs, dir: this.dir });
+
+    // [filepath, HEAD, WORKDIR, STAGE]
+    const isUntracked = (row: (typeof matrix)[number]) =>
+      row[1] === 0 && row[2] === 2 && row[3] === 0;
+    const changed = matrix.filter(
+      row => !(row[1] === 1 && row[2] === 1 && row[3] === 1) && !isUntracked(row)
+    );
+    const untracked = options.includeUntracked ? matrix.filter(isUntracked) : [];
+
+    if (changed.length === 0 && untracked.length === 0) {
+      return 'No local changes to save';
+    }
+
+    // I: インデックスのツリー
+    const indexTree = await writeTreeFromFiles(this.fs, this.dir, indexFiles);
+    const indexCommit = await this.writeStashCommit(
+      indexTree,
+      [headOid],
+      `index on ${baseDescription}`
+    );
+
+    // W: インデックス + 追跡中ファイルのワーキングツリー上の変更
+    const worktreeFiles: TreeFiles = new Map(indexFiles);
+    for (const [filepath, , workdir] of changed) {
+      const indexed = indexFiles.get(filepath);
+      if (!indexed) continue;
+      if (workdir === 0) {
+        worktreeFiles.delete(filepath);
+      } else {
+        const oid = await this.writeWorkdirBlob(filepath);
+        worktreeFiles.set(filepath, { oid, mode: indexed.mode });
+      }
+    }
+    const worktreeTree = await writeTreeFromFiles(this.fs, this.dir, worktreeFiles);
+
+    const parents = [headOid, indexCommit];
+
+    // U: 未追跡ファイルのみのツリー
+    if (untracked.length > 0) {
+      const untrackedFiles: TreeFiles = new Map();
+      for (const [filepath] of untracked) {
+        untrackedFiles.set(filepath, {
+          oid: await this.writeWorkdirBlob(filepath),
+          mode: '100644',
+        });
+      }
+      const untrackedTree = await writeTreeFromFiles(this.fs, this.dir, untrackedFiles);
+      parents.push(
+        await this.writeStashCommit(untrackedTree, [], `untracked files on ${baseDescription}`)
+      );
+    }
+
+    const stashMessage = options.message
+      ? `On ${branch}: ${options.message}`
+      : `WIP on ${baseDescription}`;
+    const stashOid = await this.writeStashCommit(worktreeTree, parents, stashMessage);
+
+    // refs/stash を更新し、reflog に追記（stash@{0} が最新）
+    const previous = await this.resolveStashRef();
+    await git.writeRef({
+      fs: this.fs,
+      dir: this.dir,
+      ref: STASH_REF,
+      value: stashOid,
+      force: true,
+    });
+    await this.appendReflog(previous ?? ZERO_OID, stashOid, stashMessage);
+
+    // ワーキングツリーとインデックスを HEAD の状態に戻す
+    for (const [filepath] of changed) {
+      const headFile = headFiles.get(filepath);
+      if (headFile) {
+        await this.checkoutBlob(filepath, headFile.oid);
+        await git.resetIndex({ fs: this.fs, dir: this.dir, filepath });
+      } else {
+        await removeWorkdirFile(this.fs, this.dir, filepath);
+        await git.remove({ fs: this.fs, dir: this.dir, filepath });
+      }
+    }
+    for (const [filepath] of untracked) {
+      await removeWorkdirFile(this.fs, this.dir, filepath);
+    }
+
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+
+    return `Saved working directory and index state ${stashMessage}`;
+  }
+
+  // ========================================
+  // git stash list
+  // ========================================
+
+  /**
+   * stash一覧を取得（index 0 が最新）
+   */
+  async list(): Promise<GitStashEntry[]> {
+    await this.ensureGitRepository();
+
+    let content = '';
+    try {
+      content = (await this.fs.promises.readFile(this.reflogPath, { encoding: 'utf8' })) as string;
+    } catch {
+      // reflog がない場合は refs/stash のみを確認
+      const oid = await this.resolveStashRef();
+      if (!oid) return [];
+      const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid });
+      return [
+        {
+          index: 0,
+          ref: 'stash@{0}',
+          oid,
+          message: commit.message.trim(),
+          timestamp: commit.committer.timestamp * 1000,
+        },
+      ];
+    }
+
+    const entries: GitStashEntry[] = [];
+    const lines = content.split('\n').filter(line => line.trim() !== '');
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const match = lines[i].match(REFLOG_LINE);
+      if (!match) continue;
+      const index = entries.length;
+      entries.push({
+        index,
+        ref: `stash@{${index}}`,
+        oid: match[2],
+        message: match[7],
+        timestamp: Number(match[5]) * 1000,
+      });
+    }
+    return entries;
+  }
+
+  async formatList(): Promise<string> {
+    const entries = await this.list();
+    return entries.map(entry => `${entry.ref}: ${entry.message}`).join('\n');
+  }
+
+  // ========================================
+  // git stash show
+  // ========================================
+
+  /**
+   * stashで変更されたファイル一覧
+   */
+  async getChangedFiles(
+    stashRef?: string,
+    options: { includeUntracked?: boolean } = {}
+  ): Promise<StashFileChange[]> {
+    const entry = await this.resolveStash(stashRef);
+    const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: entry.oid });
+    const baseFiles = await readTreeFiles(this.fs, this.dir, commit.parent[0]);
+    const stashFiles = await readTreeFiles(this.fs, this.dir, entry.oid);
+
+    const changes: StashFileChange[] = [];
+    for (const path of [...new Set([...baseFiles.keys(), ...stashFiles.keys()])].sort()) {
+      const before = baseFiles.get(path);
+      const after = stashFiles.get(path);
+      if (before?.oid === after?.oid) continue;
+      changes.push({ path, status: !before ? 'added' : !after ? 'deleted' : 'modified' });
+    }
+
+    if (options.includeUntracked && commit.parent[2]) {
+      for (const path of (await readTreeFiles(this.fs, this.dir, commit.parent[2])).keys()) {
+        changes.push({ path, status: 'untracked' });
+      }
+    }
+    return changes;
+  }
+
+  async show(
+    stashRef?: string,
+    options: { patch?: boolean; includeUntracked?: boolean } = {}
+  ): Promise<string> {
+    await this.ensureGitRepository();
+    const entry = await this.resolveStash(stashRef);
+
+    if (options.patch) {
+      const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: entry.oid });
+      const diffOperations = new GitDiffOperations(this.fs, this.dir);
+      return diffOperations.diffCommits(commit.parent[0], entry.oid);
+    }
+
+    const changes = await this.getChangedFiles(stashRef, options);
+    if (changes.length === 0) return '';
+
+    const statusMark: Record<StashFileChange['status'], string> = {
+      added: 'A',
+      modified: 'M',
+      deleted: 'D',
+      untracked: '?',
+    };
+    const lines = changes.map(change => `${statusMark[change.status]}\t${change.path}`);
+    lines.push(` ${changes.length} file${changes.length === 1 ? '' : 's'} changed`);
+    return lines.join('\n');
+  }
+
+  // ========================================
+  // git stash apply / pop
+  // ========================================
+
+  /**
+   * stashをワーキングツリーに適用
+   * stash作成時の状態から変更されているファイルと衝突する場合は何も変更せずにエラー
+   */
+  async apply(stashRef?: string, options: StashApplyOptions = {}): Promise<string> {
+    await this.ensureGitRepository();
+    const entry = await this.resolveStash(stashRef);
+
+    const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: entry.oid });
+    const [baseOid, indexOid, untrackedOid] = commit.parent;
+    const baseFiles = await readTreeFiles(this.fs, this.dir, baseOid);
+    const stashFiles = await readTreeFiles(this.fs, this.dir, entry.oid);
+    const indexFiles = indexOid
+      ? await readTreeFiles(this.fs, this.dir, indexOid)
+      : new Map<string, TreeFile>();
+    const untrackedFiles = untrackedOid
+      ? await readTreeFiles(this.fs, this.dir, untrackedOid)
+      : new Map<string, TreeFile>();
+
+    // 適用対象と衝突の判定
+    const updates: Array<{ path: string; oid: string | null }> = [];
+    const conflicts: string[] = [];
+    for (const path of new Set([...baseFiles.keys(), ...stashFiles.keys()])) {
+      const baseFileOid = baseFiles.get(path)?.oid ?? null;
+      const targetOid = stashFiles.get(path)?.oid ?? null;
+      if (baseFileOid === targetOid) continue;
+
+      const currentOid = await hashWorkdirFile(this.fs, this.dir, path);
+      if (currentOid === targetOid) continue;
+      if (currentOid === baseFileOid) {
+        updates.push({ path, oid: targetOid });
+      } else {
+        conflicts.push(path);
+      }
+    }
+
+    if (conflicts.length > 0) {
+      throw new Error(
+        `error: Your local changes to the following files would be overwritten by merge:\n\t${conflicts.sort().join('\n\t')}\nPlease commit your changes or stash them before you merge.\nAborting`
+      );
+    }
+
+    const existingUntracked: string[] = [];
+    for (const path of untrackedFiles.keys()) {
+      if ((await hashWorkdirFile(this.fs, this.dir, path)) !== null) existingUntracked.push(path);
+    }
+    if (existingUntracked.length > 0) {
+      throw new Error(
+        `${existingUntracked.map(path => `${path} already exists, no checkout`).join('\n')}\nerror: could not restore untracked files from stash`
+      );
+    }
+
+    for (const { path, oid } of updates) {
+      if (oid) {
+        await this.checkoutBlob(path, oid);
+      } else {
+        await removeWorkdirFile(this.fs, this.dir, path);
+      }
+    }
+    for (const [path, file] of untrackedFiles) {
+      await this.checkoutBlob(path, file.oid);
+    }
+
+    // インデックスの復元: --index 指定時はステージ状態をすべて、それ以外は新規追加ファイルのみ
+    for (const path of new Set([...baseFiles.keys(), ...indexFiles.keys()])) {
+      const baseFile = baseFiles.get(path);
+      const indexFile = indexFiles.get(path);
+      if (baseFile?.oid === indexFile?.oid) continue;
+
+      if (!indexFile) {
+        if (options.index) {
+          await git.remove({ fs: this.fs, dir: this.dir, filepath: path });
+        }
+      } else if (options.index || !baseFile) {
+        await git.updateIndex({
+          fs: this.fs,
+          dir: this.dir,
+          filepath: path,
+          oid: indexFile.oid,
+          mode: Number.parseInt(indexFile.mode, 8),
+          add: true,
+        });
+      }
+    }
+
+    await syncManager.syncFromFSToIndexedDB(this.projectId, this.projectName);
+
+    const restored = updates.length + untrackedFiles.size;
+    return `Applied ${entry.ref} (${entry.oid.slice(0, 7)}): ${restored} file${restored === 1 ? '' : 's'} restored`;
+  }
+
+  async pop(stashRef?: string, options: StashApplyOptions = {}): Promise<string> {
+    const applyResult = await this.apply(stashRef, options);
+    const dropResult = await this.drop(stashRef);
+    return `${applyResult}\n${dropResult}`;
+  }
+
+  // ========================================
+  // git stash drop / clear
+  // ========================================
+
+  async drop(stashRef?: string): Promise<string> {
+    await this.ensureGitRepository();
+    const entry = await this.resolveStash(stashRef);
+
+    let lines: string[] = [];
+    try {
+      const content = (await this.fs.promises.readFile(this.reflogPath, {
+        encoding: 'utf8',
+      })) as string;
+      lines = content.split('\n').filter(line => line.trim() !== '');
+    } catch {
+      // reflog がない場合は refs/stash の1件のみ
+    }
+
+    // reflog は古い順に並んでいる
+    lines.splice(lines.length - 1 - entry.index, 1);
+
+    if (lines.length === 0) {
+      await this.clearRefs();
+    } else {
+      const latest = lines[lines.length - 1].match(REFLOG_LINE);
+      if (latest) {
+        await git.writeRef({
+          fs: this.fs,
+          dir: this.dir,
+          ref: STASH_REF,
+          value: latest[2],
+          force: true,
+        });
+      }
+      await this.fs.promises.writeFile(this.reflogPath, `${lines.join('\n')}\n`, 'utf8');
+    }
+
+    return `Dropped refs/${entry.ref} (${entry.oid})`;
+  }
+
+  async clear(): Promise<string> {
+    await this.ensureGitRepository();
+    await this.clearRefs();
+    return '';
+  }
+
+  // ========================================
+  // ヘルパー
+  // ========================================
+
+  /**
+   * stash@{n} / n / 省略（最新）から stash を解決
+   */
+  private async resolveStash(stashRef?: string): Promise<GitStashEntry> {
+    const entries = await this.list();
+    if (entries.length === 0) {
+      throw new Error('No stash entries found.');
+    }
+
+    const ref = stashRef ?? 'stash@{0}';
+    const match = ref.match(/^(?:(?:refs\/)?stash@\{(\d+)\}|(\d+))$/);
+    const index = match ? Number(match[1] ?? match[2]) : Number.NaN;
+    const entry = entries[index];
+    if (!entry) {
+      throw new Error(`error: ${ref} is not a valid reference`);
+    }
+    return entry;
+  }
+
+  private async resolveStashRef(): Promise<string | null> {
+    try {
+      return await git.resolveRef({ fs: this.fs, dir: this.dir, ref: STASH_REF });
+    } catch {
+      return null;
+    }
+  }
+
+  private async clearRefs(): Promise<void> {
+    try {
+      await git.deleteRef({ fs: this.fs, dir: this.dir, ref: STASH_REF });
+    } catch {
+      // 既に存在しない
+    }
+    try {
+      await this.fs.promises.unlink(this.reflogPath);
+    } catch {
+      // 既に存在しない
+    }
+  }
+
+  private async appendReflog(oldOid: string, newOid: string, message: string): Promise<void> {
+    await ensureDir(this.fs, `${this.dir}/.git/logs/refs`);
+    let existing = '';
+    try {
+      existing = (await this.fs.promises.readFile(this.reflogPath, { encoding: 'utf8' })) as string;
+    } catch {
+      // 初回
+    }
+    const timestamp = Math.floor(Date.now() / 1000);
+    const line = `${oldOid} ${newOid} ${DEFAULT_AUTHOR.name} <${DEFAULT_AUTHOR.email}> ${timestamp} ${formatTimezoneOffset(new Date().getTimezoneOffset())}\t${message}\n`;
+    await this.fs.promises.writeFile(this.reflogPath, existing + line, 'utf8');
+  }
+
+  private async writeStashCommit(tree: string, parent: string[], message: string): Promise<string> {
+    return git.writeCommit({
+      fs: this.fs,
+      dir: this.dir,
+      commit: {
+        tree,
+        parent,
+        message: `${message}\n`,
+        author: {
+          ...DEFAULT_AUTHOR,
+          timestamp: Math.floor(Date.now() / 1000),
+          timezoneOffset: new Date().getTimezoneOffset(),
+        },
+        committer: {
+          ...DEFAULT_AUTHOR,
+          timestamp: Math.floor(Date.now() / 1000),
+          timezoneOffset: new Date().getTimezoneOffset(),
+        },
+      },
+    });
+  }
+
+  private async writeWorkdirBlob(filepath: string): Promise<string> {
+    const content = (await this.fs.promises.readFile(`${this.dir}/${filepath}`)) as Uint8Array;
+    return git.writeBlob({ fs: this.fs, dir: this.dir, blob: content });
+  }
+
+  // blobの内容をワーキングツリーに書き出す
+  private async checkoutBlob(filepath: string, oid: string): Promise<void> {
+    const { blob } = await git.readBlob({ fs: this.fs, dir: this.dir, oid });
+    await writeWorkdirFile(this.fs, this.dir, filepath, blob);
+  }
+}
+
+// getTimezoneOffset()（分、UTCとの差の符号反転）を +0900 形式に変換
+function formatTimezoneOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes <= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const minutes = String(abs % 60).padStart(2, '0');
+  return `${sign}${hours}${minutes}`;
+}
@@ -20,8 +20,11 @@ export function categorizeStatusFiles(status: Array<[string, number, number, num
       untracked.push(filepath);
       console.log('[categorizeStatusFiles]  -> untracked');
     } else if (HEAD === 0 && stage === 3) {
+      // stage=3: インデックスがワーキングツリーとも異なる（一部だけステージされた状態）
       staged.push(filepath);
-      console.log('[categorizeStatusFiles]  -> staged (new, stage=3)');
+      if (workdir === 0) deleted.push(filepath);
+      else modified.push(filepath);
+      console.log('[categorizeStatusFiles]  -> staged + modified (new, stage=3)');
     } else if (HEAD === 0 && stage === 2) {
       staged.push(filepath);
       console.log('[categorizeStatusFiles]  -> staged (new, stage=2)');
@@ -37,7 +40,8 @@ export function categorizeStatusFiles(status: Array<[string, number, number, num
       console.log('[categorizeStatusFiles]  -> staged + modified (staged file was modified)');
     } else if (HEAD === 1 && workdir === 1 && stage === 3) {
       staged.push(filepath);
-      console.log('[categorizeStatusFiles]  -> staged (stage=3, workdir unchanged)');
+      modified.push(filepath);
+      console.log('[categorizeStatusFiles]  -> staged + modified (stage=3, workdir unchanged)');
     } else if (HEAD === 1 && workdir === 0 && stage === 1) {
       deleted.push(filepath);
       console.log('[categorizeStatusFiles]  -> deleted (unstaged)');
@@ -46,7 +50,8 @@ export function categorizeStatusFiles(status: Array<[string, number, number, num
       console.log('[categorizeStatusFiles]  -> staged (deleted)');
     } else if (HEAD === 1 && workdir === 0 && stage === 3) {
       staged.push(filepath);
-      console.log('[categorizeStatusFiles]  -> staged (deleted, stage=3)');
+      deleted.push(filepath);
+      console.log('[categorizeStatusFiles]  -> staged + deleted (deleted, stage=3)');
     } else {
       console.log('[categorizeStatusFiles]  -> no change or unhandled case');
     }
@@ -0,0 +1,195 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+
+import { resolveGitHubAuthor } from './commit';
+import { resolveRevision } from './revision';
+
+import type { GitTagEntry } from '@/types/git';
+
+export interface CreateTagOptions {
+  /** 指定時は注釈付きタグ（-a / -m） */
+  message?: string;
+  /** タグを付けるコミット（省略時は HEAD） */
+  target?: string;
+  /** 既存のタグを置き換える（-f） */
+  force?: boolean;
+}
+
+const DEFAULT_TAGGER = { name: 'User', email: 'user@pyxis.dev' };
+
+/**
+ * glob パターン（* と ? のみ）を正規表現に変換
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+/**
+ * git check-ref-format の主なルールでタグ名を検証
+ */
+function isValidTagName(name: string): boolean {
+  return (
+    name.length > 0 &&
+    !/[\s~^:?*[\\]/.test(name) &&
+    !name.includes('..') &&
+    !name.includes('@{') &&
+    !name.includes('//') &&
+    !/^[-/.]|[/.]$|\.lock$/.test(name)
+  );
+}
+
+/**
+ * [NEW ARCHITECTURE] Git tag 操作を管理するクラス
+ * - 軽量タグ（refs/tags/<name> がコミットを直接指す）と注釈付きタグ（tagオブジェクト）の両方を扱う
+ * - 注釈付きタグの tagger はコミットと同じく GitHub のユーザー情報を優先する
+ * - ワーキングツリーは変更しないため逆同期は不要
+ */
+export class GitTagOperations {
+  private fs: FS;
+  private dir: string;
+
+  constructor(fs: FS, dir: string) {
+    this.fs = fs;
+    this.dir = dir;
+  }
+
+  /**
+   * タグ一覧（名前順）
+   */
+  async list(pattern?: string): Promise<GitTagEntry[]> {
+    const names = (await git.listTags({ fs: this.fs, dir: this.dir })).sort();
+    const matcher = pattern ? globToRegExp(pattern) : null;
+    const entries: GitTagEntry[] = [];
+
+    for (const name of names) {
+      if (matcher && !matcher.test(name)) continue;
+      const oid = await git.resolveRef({ fs: this.fs, dir: this.dir, ref: `refs/tags/${name}` });
+      const { type } = await git.readObject({ fs: this.fs, dir: this.dir, oid, format: 'parsed' });
+      if (type === 'tag') {
+        const { tag } = await git.readTag({ fs: this.fs, dir: this.dir, oid });
+        entries.push({
+          name,
+          oid,
+          commit: await this.peel(tag.object),
+          annotated: true,
+          message: tag.message.trim(),
+          tagger: tag.tagger.name,
+          timestamp: tag.tagger.timestamp,
+        });
+      } else {
+        entries.push({ name, oid, commit: oid, annotated: false });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * git tag [-l <pattern>] [-n] の出力
+   * -n では注釈付きタグはメッセージの1行目、軽量タグはコミットの1行目を表示
+   */
+  async formatList(pattern?: string, showMessage = false): Promise<string> {
+    const entries = await this.list(pattern);
+    if (!showMessage) {
+      return entries.map(entry => entry.name).join('\n');
+    }
+
+    const width = Math.max(15, ...entries.map(entry => entry.name.length));
+    const lines: string[] = [];
+    for (const entry of entries) {
+      let message = entry.message;
+      if (message === undefined) {
+        const { commit } = await git.readCommit({ fs: this.fs, dir: this.dir, oid: entry.commit });
+        message = commit.message;
+      }
+      lines.push(`${entry.name.padEnd(width)} ${message.split('\n')[0]}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * タグを作成（成功時はネイティブgitと同じく何も出力しない）
+   */
+  async create(name: string, options: CreateTagOptions = {}): Promise<string> {
+    const { message, target = 'HEAD', force = false } = options;
+    if (!isValidTagName(name)) {
+      throw new Error(`fatal: '${name}' is not a valid tag name.`);
+    }
+
+    const oid = await resolveRevision(this.fs, this.dir, target);
+    const previous = await this.resolveTag(name);
+    if (previous && !force) {
+      throw new Error(`fatal: tag '${name}' already exists`);
+    }
+
+    if (message !== undefined) {
+      const tagger = await resolveGitHubAuthor(DEFAULT_TAGGER);
+      await git.annotatedTag({
+        fs: this.fs,
+        dir: this.dir,
+        ref: name,
+        message: message.endsWith('\n') ? message : `${message}\n`,
+        object: oid,
+        tagger,
+        force,
+      });
+    } else {
+      await git.tag({ fs: this.fs, dir: this.dir, ref: name, object: oid, force });
+    }
+
+    return previous ? `Updated tag '${name}' (was ${previous.slice(0, 7)})` : '';
+  }
+
+  /**
+   * git tag -d <name>...
+   */
+  async delete(names: string[]): Promise<string> {
+    const lines: string[] = [];
+    const errors: string[] = [];
+    for (const name of names) {
+      const oid = await this.resolveTag(name);
+      if (!oid) {
+        errors.push(`error: tag '${name}' not found.`);
+        continue;
+      }
+      await git.deleteTag({ fs: this.fs, dir: this.dir, ref: name });
+      lines.push(`Deleted tag '${name}' (was ${oid.slice(0, 7)})`);
+    }
+    if (errors.length > 0 && lines.length === 0) {
+      throw new Error(errors.join('\n'));
+    }
+    return [...lines, ...errors].join('\n');
+  }
+
+  /**
+   * タグが指すコミット（注釈付きタグはたどる）。存在しない場合は null
+   */
+  async resolveTagCommit(name: string): Promise<string | null> {
+    const oid = await this.resolveTag(name);
+    return oid ? this.peel(oid) : null;
+  }
+
+  // refs/tags/<name> の値（注釈付きタグは tag オブジェクトの oid）
+  private async resolveTag(name: string): Promise<string | null> {
+    try {
+      return await git.resolveRef({ fs: this.fs, dir: this.dir, ref: `refs/tags/${name}` });
+    } catch {
+      return null;
+    }
+  }
+
+  // tag オブジェクトをコミットまでたどる
+  private async peel(oid: string): Promise<string> {
+    let current = oid;
+    for (;;) {
+      const { type } = await git.readObject({
+        fs: this.fs,
+        dir: this.dir,
+        oid: current,
+        format: 'parsed',
+      });
+      if (type !== 'tag') return current;
+      current = (await git.readTag({ fs: this.fs, dir: this.dir, oid: current })).tag.object;
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { diffArrays } from 'diff';
+
+/**
+ * 行単位の3-wayマージ（diff3相当）
+ * - base→ours / base→theirs の差分をbase上の範囲（ハンク）として求める
+ * - 重なる・隣接するハンクは1つのグループにまとめ、両側で内容が異なればコンフリクト
+ * - コンフリクト部分はネイティブgitと同じ <<<<<<< / ======= / >>>>>>> マーカーで出力
+ */
+
+export interface ThreeWayMergeLabels {
+  /** <<<<<<< の後に付けるラベル（例: HEAD） */
+  ours: string;
+  /** >>>>>>> の後に付けるラベル（例: abc1234 (commit subject)） */
+  theirs: string;
+}
+
+export interface ThreeWayMergeResult {
+  merged: string;
+  conflict: boolean;
+}
+
+// base上の [start, end) を lines に置き換える変更
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// 改行文字を保持したまま行に分割
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function computeHunks(base: string[], side: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let pos = 0;
+  let current: Hunk | null = null;
+
+  for (const change of diffArrays(base, side)) {
+    if (change.removed) {
+      current ??= { start: pos, end: pos, lines: [] };
+      pos += change.value.length;
+      current.end = pos;
+    } else if (change.added) {
+      current ??= { start: pos, end: pos, lines: [] };
+      current.lines.push(...change.value);
+    } else {
+      if (current) hunks.push(current);
+      current = null;
+      pos += change.value.length;
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+// base の [start, end) にハンクを適用した結果
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const result: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  }
+  result.push(...base.slice(pos, end));
+  return result;
+}
+
+function withTrailingNewline(lines: string[]): string {
+  const text = lines.join('');
+  return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+}
+
+/**
+ * base / ours / theirs の3つのテキストをマージ
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: ThreeWayMergeLabels
+): ThreeWayMergeResult {
+  if (ours === theirs) return { merged: ours, conflict: false };
+  if (base === ours) return { merged: theirs, conflict: false };
+  if (base === theirs) return { merged: ours, conflict: false };
+
+  const baseLines = splitLines(base);
+  const oursHunks = computeHunks(baseLines, splitLines(ours));
+  const theirsHunks = computeHunks(baseLines, splitLines(theirs));
+
+  const output: string[] = [];
+  let conflict = false;
+  let pos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    // 開始位置が最も小さいハンクからグループを作る
+    const startWithOurs =
+      j >= theirsHunks.length ||
+      (i < oursHunks.length && oursHunks[i].start <= theirsHunks[j].start);
+    const first = startWithOurs ? oursHunks[i] : theirsHunks[j];
+    const groupStart = first.start;
+    let groupEnd = first.end;
+    const oursGroup: Hunk[] = [];
+    const theirsGroup: Hunk[] = [];
+
+    // 重なる（または隣接する）ハンクを両側から取り込む
+    let absorbed = true;
+    while (absorbed) {
+      absorbed = false;
+      if (i < oursHunks.length && oursHunks[i].start <= groupEnd) {
+        groupEnd = Math.max(groupEnd, oursHunks[i].end);
+        oursGroup.push(oursHunks[i++]);
+        absorbed = true;
+      }
+      if (j < theirsHunks.length && theirsHunks[j].start <= groupEnd) {
+        groupEnd = Math.max(groupEnd, theirsHunks[j].end);
+        theirsGroup.push(theirsHunks[j++]);
+        absorbed = true;
+      }
+    }
+
+    output.push(...baseLines.slice(pos, groupStart));
+    const oursResult = applyHunks(baseLines, oursGroup, groupStart, groupEnd);
+    const theirsResult = applyHunks(baseLines, theirsGroup, groupStart, groupEnd);
+
+    if (theirsGroup.length === 0 || oursResult.join('') === theirsResult.join('')) {
+      output.push(...oursResult);
+    } else if (oursGroup.length === 0) {
+      output.push(...theirsResult);
+    } else {
+      conflict = true;
+      output.push(
+        `<<<<<<< ${labels.ours}\n`,
+        withTrailingNewline(oursResult),
+        '=======\n',
+        withTrailingNewline(theirsResult),
+        `>>>>>>> ${labels.theirs}\n`
+      );
+    }
+    pos = groupEnd;
+  }
+
+  output.push(...baseLines.slice(pos));
+  return { merged: output.join(''), conflict };
+}
+
+/**
+ * コンフリクトマーカーが残っているか
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^(<<<<<<<|>>>>>>>) /m.test(content);
+}
@@ -0,0 +1,164 @@
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+
+/**
+ * Gitのツリー・インデックスをフラットなファイル一覧として扱うヘルパー
+ * stash / cherry-pick / rebase のようにツリーを直接組み立てる操作で共通に使う
+ */
+
+/**
+ * ツリー内のファイル（パス -> blob）
+ */
+export interface TreeFile {
+  oid: string;
+  /** 8進数文字列（例: '100644'） */
+  mode: string;
+}
+
+export type TreeFiles = Map<string, TreeFile>;
+
+interface TreeNode {
+  files: Map<string, TreeFile>;
+  dirs: Map<string, TreeNode>;
+}
+
+async function walkFiles(
+  fs: FS,
+  dir: string,
+  walker: ReturnType<typeof git.TREE>
+): Promise<TreeFiles> {
+  const files: TreeFiles = new Map();
+  await git.walk({
+    fs,
+    dir,
+    trees: [walker],
+    map: async (filepath, [entry]) => {
+      if (filepath === '.' || !entry) return;
+      if ((await entry.type()) !== 'blob') return;
+      const oid = await entry.oid();
+      const mode = await entry.mode();
+      files.set(filepath, { oid, mode: mode.toString(8) });
+    },
+  });
+  return files;
+}
+
+/**
+ * コミット（またはツリー）に含まれる全ファイル
+ */
+export async function readTreeFiles(fs: FS, dir: string, ref: string): Promise<TreeFiles> {
+  return walkFiles(fs, dir, git.TREE({ ref }));
+}
+
+/**
+ * インデックスに含まれる全ファイル
+ */
+export async function readIndexFiles(fs: FS, dir: string): Promise<TreeFiles> {
+  return walkFiles(fs, dir, git.STAGE());
+}
+
+/**
+ * フラットなファイル一覧からネストしたツリーオブジェクトを書き込み、ルートのoidを返す
+ */
+export async function writeTreeFromFiles(fs: FS, dir: string, files: TreeFiles): Promise<string> {
+  const root: TreeNode = { files: new Map(), dirs: new Map() };
+  for (const [filepath, file] of files) {
+    const parts = filepath.split('/');
+    const name = parts.pop() as string;
+    let node = root;
+    for (const part of parts) {
+      let child = node.dirs.get(part);
+      if (!child) {
+        child = { files: new Map(), dirs: new Map() };
+        node.dirs.set(part, child);
+      }
+      node = child;
+    }
+    node.files.set(name, file);
+  }
+
+  const writeNode = async (node: TreeNode): Promise<string> => {
+    const tree: Array<{ mode: string; path: string; oid: string; type: 'blob' | 'tree' }> = [];
+    for (const [name, file] of node.files) {
+      tree.push({ mode: file.mode, path: name, oid: file.oid, type: 'blob' });
+    }
+    for (const [name, child] of node.dirs) {
+      tree.push({ mode: '040000', path: name, oid: await writeNode(child), type: 'tree' });
+    }
+    return git.writeTree({ fs, dir, tree });
+  };
+
+  return writeNode(root);
+}
+
+/**
+ * ワーキングツリー上のファイルのblob oid（存在しなければ null）
+ */
+export async function hashWorkdirFile(
+  fs: FS,
+  dir: string,
+  filepath: string
+): Promise<string | null> {
+  try {
+    const content = (await fs.promises.readFile(`${dir}/${filepath}`)) as Uint8Array;
+    const { oid } = await git.hashBlob({ object: content });
+    return oid;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * blobの内容をワーキングツリーに書き込む（親ディレクトリは自動作成）
+ */
+export async function writeWorkdirFile(
+  fs: FS,
+  dir: string,
+  filepath: string,
+  content: Uint8Array | string
+): Promise<void> {
+  const fullPath = `${dir}/${filepath}`;
+  await ensureDir(fs, fullPath.slice(0, fullPath.lastIndexOf('/')));
+  await fs.promises.writeFile(fullPath, content);
+}
+
+/**
+ * ファイルを削除し、空になった親ディレクトリも削除
+ */
+export async function removeWorkdirFile(fs: FS, dir: string, filepath: string): Promise<void> {
+  try {
+    await fs.promises.unlink(`${dir}/${filepath}`);
+  } catch {
+    return;
+  }
+  const parts = filepath.split('/');
+  parts.pop();
+  while (parts.length > 0) {
+    const dirPath = `${dir}/${parts.join('/')}`;
+    try {
+      const entries = await fs.promises.readdir(dirPath);
+      if (entries.length > 0) break;
+      await fs.promises.rmdir(dirPath);
+    } catch {
+      break;
+    }
+    parts.pop();
+  }
+}
+
+/**
+ * ディレクトリを再帰的に作成
+ */
+export async function ensureDir(fs: FS, dirPath: string): Promise<void> {
+  try {
+    await fs.promises.stat(dirPath);
+    return;
+  } catch {
+    // 存在しないので作成
+  }
+  const parent = dirPath.slice(0, dirPath.lastIndexOf('/'));
+  if (parent && parent !== dirPath) {
+    await ensureDir(fs, parent);
+  }
+  await fs.promises.mkdir(dirPath);
+}
@@ -9,11 +9,34 @@
  * - TerminalUI API provides advanced terminal display features
  */
 
+import {
+  MODULES_DIR,
+  parsePackageSpec,
+  readInstalledPackageJson,
+  resolveBin,
+  resolvePackageBin,
+} from './npmOperations/npmBin';
+import { clearNpmCache, getNpmCacheStats } from './npmOperations/npmCache';
 import { NpmInstall } from './npmOperations/npmInstall';
+import { fetchPackument, loadNpmConfig } from './npmOperations/npmRegistry';
+import {
+  IntegrityError,
+  type PackageJsonLike,
+  buildPackageLock,
+  findLockMismatches,
+  getLockedPackages,
+  readPackageLock,
+  satisfiesVersion,
+  writePackageLock,
+} from './npmOperations/packageLock';
 
 import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
 import type { TerminalUI } from '@/engine/cmd/terminalUI';
 import { fileRepository } from '@/engine/core/fileRepository';
+import { ensureGitignoreContains } from '@/engine/core/gitignore';
+
+// npx でインストールしたパッケージの置き場所（パッケージの組み合わせごとに node_modules を分ける）
+const NPX_CACHE_DIR = `${MODULES_DIR}/.cache/npx`;
 
 export class NpmCommands {
   private currentDir: string;
@@ -113,7 +136,7 @@ export class NpmCommands {
         let installedCount = 0;
         const failedPackages: string[] = [];
 
-        const npmInstall = new NpmInstall(this.projectName, this.projectId);
+        const npmInstall = await this.createLockedInstaller();
 
         // Set up progress callback to log all packages (direct + transitive)
         if (ui) {
@@ -135,13 +158,13 @@ export class NpmCommands {
           for (let i = 0; i < packageNames.length; i++) {
             const pkg = packageNames[i];
             const versionSpec = allDependencies[pkg];
-            const version = versionSpec.replace(/^[\^~]/, '');
 
             try {
-              await npmInstall.installWithDependencies(pkg, version, { isDirect: true });
+              // package-lock.json と照合するため、バージョン指定はそのまま渡す
+              await npmInstall.installWithDependencies(pkg, versionSpec, { isDirect: true });
               installedCount++;
             } catch (error) {
-              failedPackages.push(`${pkg}@${version}: ${(error as Error).message}`);
+              failedPackages.push(`${pkg}@${versionSpec}: ${(error as Error).message}`);
             }
           }
         } finally {
@@ -154,6 +177,8 @@ export class NpmCommands {
           }
         }
 
+        await this.updatePackageLock(npmInstall, packageJson);
+
         // Stop spinner
         if (ui) {
           await ui.spinner.stop();
@@ -189,7 +214,8 @@ export class NpmCommands {
       try {
         // Start spinner
         if (ui) {
-          await ui.spinner.start(`http fetch GET https://registry.npmjs.org/${packageName}`);
+          const config = await loadNpmConfig(this.projectId);
+          await ui.spinner.start(`http fetch GET ${config.getPackumentUrl(packageName)}`);
         }
 
         const packageInfo = await this.fetchPackageInfo(packageName);
@@ -221,17 +247,13 @@ export class NpmCommands {
         const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
         if (isInPackageJson && isActuallyInstalled) {
+          await this.updatePackageLock(await this.createLockedInstaller(), packageJson);
           if (ui) {
             await ui.spinner.stop();
           }
-          try {
-            const npmInstall = new NpmInstall(this.projectName, this.projectId);
-            // ensure .bin entries exist for already-installed package
-            // await npmInstall.ensureBinsForPackage(packageName).catch(() => {});
-          } catch {}
           return `up to date, audited 1 package in ${elapsed}s\n\nfound 0 vulnerabilities`;
         }
-        const npmInstall = new NpmInstall(this.projectName, this.projectId);
+        const npmInstall = await this.createLockedInstaller();
 
         // Set up progress callback to log all packages (direct + transitive)
         if (ui) {
@@ -250,6 +272,8 @@ export class NpmCommands {
           } catch {}
         }
 
+        await this.updatePackageLock(npmInstall, packageJson);
+
         // Stop spinner
         if (ui) {
           await ui.spinner.stop();
@@ -272,6 +296,107 @@ export class NpmCommands {
     }
   }
 
+  // npm ci コマンドの実装（package-lock.json のとおりにクリーンインストール）
+  async ci(): Promise<string> {
+    const startTime = Date.now();
+    const ui = this.terminalUI;
+    const useTerminalUI = !!ui;
+
+    if (!useTerminalUI) {
+      this.setLoading?.(true);
+    }
+
+    try {
+      const packageFile = await fileRepository.getFileByPath(this.projectId, '/package.json');
+      if (!packageFile) {
+        throw new Error('Cannot find package.json');
+      }
+      const packageJson = JSON.parse(packageFile.content);
+
+      const lock = await readPackageLock(this.projectId);
+      if (!lock) {
+        throw new Error(
+          'The `npm ci` command can only install with an existing package-lock.json or\n' +
+            'npm-shrinkwrap.json with lockfileVersion >= 1. Run an install with npm@5 or\n' +
+            'later to generate a package-lock.json file, then try again.'
+        );
+      }
+
+      const mismatches = findLockMismatches(lock, packageJson);
+      if (mismatches.length > 0) {
+        throw new Error(
+          [
+            '`npm ci` can only install packages when your package.json and package-lock.json are in sync. ' +
+              'Please update your lock file with `npm install` before continuing.',
+            '',
+            ...mismatches,
+          ].join('\n')
+        );
+      }
+
+      const packages = [...getLockedPackages(lock)];
+      if (ui) {
+        await ui.spinner.start(`reify: installing ${packages.length} packages from lockfile...`);
+      }
+
+      // 既存の node_modules は削除してからインストールする
+      const npmInstall = new NpmInstall(this.projectName, this.projectId, true);
+      await npmInstall.removeDirectory('/node_modules');
+
+      const gitignoreFile = await fileRepository.getFileByPath(this.projectId, '/.gitignore');
+      const gitignore = ensureGitignoreContains(gitignoreFile?.content, 'node_modules');
+      if (gitignore.changed) {
+        await fileRepository.createFile(this.projectId, '/.gitignore', gitignore.content, 'file');
+      }
+
+      // レジストリのメタデータは引かず、resolved から直接ダウンロードして integrity を検証する
+      npmInstall.startBatchProcessing();
+      try {
+        const BATCH_SIZE = 3;
+        for (let i = 0; i < packages.length; i += BATCH_SIZE) {
+          await Promise.all(
+            packages.slice(i, i + BATCH_SIZE).map(async ([name, pkg]) => {
+              if (ui) {
+                await ui.spinner.update(
+                  `reify:${name}@${pkg.version}: timing reifyNode:node_modules/${name} (${pkg.version})`
+                );
+              }
+              await npmInstall.downloadAndInstallPackage(
+                name,
+                pkg.version,
+                pkg.resolved,
+                pkg.integrity
+              );
+            })
+          );
+        }
+      } finally {
+        await npmInstall.finishBatchProcessing();
+      }
+
+      for (const [name] of packages) {
+        await npmInstall.ensureBinsForPackage(name).catch(() => {});
+      }
+
+      if (ui) {
+        await ui.spinner.stop();
+      }
+
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      return `added ${packages.length} packages, and audited ${packages.length + 1} packages in ${elapsed}s\n\nfound 0 vulnerabilities`;
+    } catch (error) {
+      if (ui) await ui.spinner.stop();
+      if (error instanceof IntegrityError) {
+        throw new Error(`npm ci failed: code ${error.code}\n${error.message}`);
+      }
+      throw new Error(`npm ci failed: ${(error as Error).message}`);
+    } finally {
+      if (!useTerminalUI) {
+        this.setLoading?.(false);
+      }
+    }
+  }
+
   // npm uninstall コマンドの実装
   async uninstall(packageName: string): Promise<string> {
     const startTime = Date.now();
@@ -323,9 +448,10 @@ export class NpmCommands {
       );
 
       // 依存関係を含めてパッケージを削除
-      const npmInstall = new NpmInstall(this.projectName, this.projectId, true);
+      const npmInstall = await this.createLockedInstaller(true);
       try {
         const removedPackages = await npmInstall.uninstallWithDependencies(packageName);
+        await this.updatePackageLock(npmInstall, packageJson);
         const totalRemoved = removedPackages.length;
         const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
@@ -483,38 +609,124 @@ export class NpmCommands {
     }
   }
 
-  // 実際のnpmレジストリからパッケージ情報を取得
-  private async fetchPackageInfo(packageName: string): Promise<any> {
-    try {
-      console.log('fetching package info for:', packageName);
-      // タイムアウト付きでfetch
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10秒タイムアウト
-
-      const response = await fetch(`https://registry.npmjs.org/${packageName}`, {
-        signal: controller.signal,
-        headers: {
-          Accept: 'application/json',
-        },
-      });
+  // npm cache コマンドの実装（tarball / メタデータのキャッシュはプロジェクト間で共有）
+  async cache(subcommand?: string, flags: string[] = []): Promise<string> {
+    switch (subcommand) {
+      case 'clean':
+      case 'clear':
+      case 'rm': {
+        if (!flags.includes('--force') && !flags.includes('-f')) {
+          throw new Error(
+            'npm cache clean: as of npm@5, the npm cache self-heals. Use "npm cache clean --force" to clear it anyway.'
+          );
+        }
+        await clearNpmCache();
+        return '';
+      }
+      case 'verify': {
+        const stats = await getNpmCacheStats();
+        return [
+          'Cache verified',
+          `Content verified: ${stats.tarballs} (${stats.size} bytes)`,
+          `Index entries: ${stats.packuments}`,
+        ].join('\n');
+      }
+      default:
+        throw new Error('npm cache: usage: npm cache <clean|verify> [--force]');
+    }
+  }
 
-      clearTimeout(timeoutId);
+  /**
+   * npx / npm exec: 実行する bin のエントリ（AppPath）を解決する
+   * プロジェクトの node_modules にないパッケージは、パッケージごとの実行キャッシュ
+   * （/node_modules/.cache/npx/<packages>/node_modules）にインストールする。
+   * package.json / package-lock.json やプロジェクトの node_modules は変更しない
+   * （tarball は共有キャッシュに残るので、他のプロジェクトでの再実行ではダウンロードしない）
+   * @param command 実行するコマンド（packages を省略した場合は `name@version` も可）
+   * @param packages --package で指定されたパッケージ
+   * @param install false の場合はインストールせずに失敗する（--no-install）
+   */
+  async resolveExecBin(
+    command: string,
+    packages: string[] = [],
+    install = true
+  ): Promise<{ entryPath: string; installed: string[] }> {
+    const specs = (packages.length > 0 ? packages : [command]).map(parsePackageSpec);
+
+    // パッケージ指定がなければ、まずプロジェクトにあるコマンドを探す
+    if (packages.length === 0 && specs[0].version === 'latest') {
+      const entryPath = await resolveBin(this.projectId, command);
+      if (entryPath) return { entryPath, installed: [] };
+    }
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error(`Package '${packageName}' not found`);
-        }
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    // 全てプロジェクトにあればそれを使い、なければ実行キャッシュを使う
+    const inProject = await this.findUnsatisfiedSpecs(specs, MODULES_DIR);
+    const modulesDir =
+      inProject.length === 0
+        ? MODULES_DIR
+        : `${NPX_CACHE_DIR}/${specs
+            .map(spec => spec.name.replace('/', '+'))
+            .sort()
+            .join('_')}/node_modules`;
+    const missing =
+      modulesDir === MODULES_DIR ? [] : await this.findUnsatisfiedSpecs(specs, modulesDir);
+
+    const installed: string[] = [];
+    for (const { name, version } of missing) {
+      if (!install) {
+        throw new Error(`npx canceled due to missing packages and no YES option: ["${name}"]`);
       }
 
-      const data = await response.json();
+      const npmInstall = new NpmInstall(this.projectName, this.projectId, true);
+      npmInstall.setModulesDir(modulesDir);
+      npmInstall.startBatchProcessing();
+      try {
+        await npmInstall.installWithDependencies(name, version, { isDirect: true });
+      } finally {
+        await npmInstall.finishBatchProcessing();
+      }
+      await npmInstall.ensureBinsForPackage(name);
+      const pkg = await readInstalledPackageJson(this.projectId, name, modulesDir);
+      installed.push(`${name}@${pkg?.version ?? version}`);
+    }
 
-      console.dir(data, { depth: null, colors: true });
+    const entryPath =
+      packages.length > 0
+        ? ((await resolveBin(this.projectId, command, modulesDir)) ??
+          (await resolvePackageBin(this.projectId, specs[0].name, command, modulesDir)))
+        : await resolvePackageBin(this.projectId, specs[0].name, undefined, modulesDir);
+    if (!entryPath) {
+      throw new Error('could not determine executable to run');
+    }
+    return { entryPath, installed };
+  }
 
-      // 必要なデータが存在するかチェック
-      if (!data.name || !data['dist-tags'] || !data['dist-tags'].latest) {
-        throw new Error(`Invalid package data for '${packageName}'`);
+  /**
+   * modulesDir にインストールされていないか、バージョン指定を満たさないパッケージを返す
+   */
+  private async findUnsatisfiedSpecs(
+    specs: { name: string; version: string }[],
+    modulesDir: string
+  ): Promise<{ name: string; version: string }[]> {
+    const unsatisfied: { name: string; version: string }[] = [];
+    for (const spec of specs) {
+      const current = await readInstalledPackageJson(this.projectId, spec.name, modulesDir);
+      if (
+        !current?.version ||
+        (spec.version !== 'latest' && !satisfiesVersion(current.version, spec.version))
+      ) {
+        unsatisfied.push(spec);
       }
+    }
+    return unsatisfied;
+  }
+
+  // 実際のnpmレジストリからパッケージ情報を取得
+  private async fetchPackageInfo(packageName: string): Promise<any> {
+    try {
+      console.log('fetching package info for:', packageName);
+      const config = await loadNpmConfig(this.projectId);
+      const data = await fetchPackument(config, packageName, 10000); // 10秒タイムアウト
 
       const latestVersion = data['dist-tags'].latest;
       const versionData = data.versions[latestVersion];
@@ -544,13 +756,40 @@ export class NpmCommands {
         dependencies: versionData.dependencies || {},
       };
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout for package '${packageName}'`);
-      }
       throw new Error(`Failed to fetch package info: ${(error as Error).message}`);
     }
   }
 
+  // package-lock.json があればそのパッケージを優先する NpmInstall を生成
+  private async createLockedInstaller(skipLoadingInstalledPackages = false): Promise<NpmInstall> {
+    const npmInstall = new NpmInstall(
+      this.projectName,
+      this.projectId,
+      skipLoadingInstalledPackages
+    );
+    const lock = await readPackageLock(this.projectId);
+    if (lock) {
+      npmInstall.setLockedPackages(getLockedPackages(lock));
+    }
+    return npmInstall;
+  }
+
+  // node_modules の内容から package-lock.json を書き直す
+  private async updatePackageLock(
+    npmInstall: NpmInstall,
+    packageJson: PackageJsonLike
+  ): Promise<void> {
+    try {
+      const packages = await npmInstall.collectLockedPackages({
+        ...packageJson.dependencies,
+        ...packageJson.devDependencies,
+      });
+      await writePackageLock(this.projectId, buildPackageLock(packageJson, packages));
+    } catch (error) {
+      console.warn(`[npm] Failed to update package-lock.json: ${(error as Error).message}`);
+    }
+  }
+
   // プロジェクトディレクトリからの相対パスを取得（現状未使用）
   private getRelativePathFromProject(fullPath: string): string {
     return fullPath;
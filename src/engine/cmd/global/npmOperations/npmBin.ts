@@ -0,0 +1,108 @@
+/**
+ * npmBin.ts - パッケージの実行ファイル（package.json の bin）の解決
+ *
+ * - ターミナルのコマンド → node_modules/.bin のシム → パッケージの実際のエントリファイル、の順に辿る
+ * - シムを経由せずに実際のエントリを NodeRuntime で実行することで、
+ *   process.argv[1] や require.main が本物の npm と同じくエントリファイルを指すようにする
+ * - パスはすべて AppPath（プロジェクトルート基準、例: /node_modules/prettier/bin/prettier.cjs）
+ * - modulesDir を指定すると、プロジェクト直下以外の node_modules（npx の実行キャッシュ）から解決する
+ */
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import { normalizeDotSegments } from '@/engine/core/pathUtils';
+
+export const MODULES_DIR = '/node_modules';
+export const BIN_DIR = `${MODULES_DIR}/.bin`;
+
+// ensureBinsForPackage が作るシムの require('../<package>/<entry>') からエントリを取り出す
+const SHIM_TARGET_PATTERN = /^\s*require\('(\.\.\/[^']+)'\);/m;
+
+interface BinPackageJson {
+  name?: string;
+  version?: string;
+  bin?: string | Record<string, string>;
+}
+
+/**
+ * `name@version` を分解する（スコープ付きパッケージの先頭の @ はバージョンの区切りではない）
+ */
+export function parsePackageSpec(spec: string): { name: string; version: string } {
+  const index = spec.indexOf('@', 1);
+  if (index < 0) return { name: spec, version: 'latest' };
+  return { name: spec.slice(0, index), version: spec.slice(index + 1) || 'latest' };
+}
+
+/**
+ * package.json の bin を「コマンド名 → エントリ（パッケージ内の相対パス）」の形にする
+ * 文字列の場合のコマンド名は、スコープを除いたパッケージ名
+ */
+export function getPackageBins(packageJson: BinPackageJson): Record<string, string> {
+  const { name, bin } = packageJson;
+  if (typeof bin === 'string') {
+    return name ? { [name.split('/').pop() as string]: bin } : {};
+  }
+  return bin && typeof bin === 'object' ? { ...bin } : {};
+}
+
+/**
+ * node_modules/<package>/package.json を読む（なければ null）
+ */
+export async function readInstalledPackageJson(
+  projectId: string,
+  packageName: string,
+  modulesDir = MODULES_DIR
+): Promise<BinPackageJson | null> {
+  const file = await fileRepository.getFileByPath(
+    projectId,
+    `${modulesDir}/${packageName}/package.json`
+  );
+  if (!file) return null;
+  try {
+    return JSON.parse(file.content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * インストール済みパッケージの bin のエントリを解決する
+ * command を省略した場合は、bin が1つならそれを、複数ならパッケージ名と同じ名前のものを使う（npx と同じ）
+ */
+export async function resolvePackageBin(
+  projectId: string,
+  packageName: string,
+  command?: string,
+  modulesDir = MODULES_DIR
+): Promise<string | null> {
+  const packageJson = await readInstalledPackageJson(projectId, packageName, modulesDir);
+  if (!packageJson) return null;
+
+  const bins = getPackageBins(packageJson);
+  const names = Object.keys(bins);
+  const binName = command ?? (names.length === 1 ? names[0] : packageName.split('/').pop());
+  const entry = binName ? bins[binName] : undefined;
+  if (!entry) return null;
+  return normalizeDotSegments(`${modulesDir}/${packageName}/${entry}`);
+}
+
+/**
+ * コマンド名から実行するファイルを解決する（見つからなければ null）
+ * 1. node_modules/.bin/<command>（シムならその参照先、それ以外はそのファイル）
+ * 2. 同じ名前のパッケージの bin（.bin が作られていない推移的な依存など）
+ */
+export async function resolveBin(
+  projectId: string,
+  command: string,
+  modulesDir = MODULES_DIR
+): Promise<string | null> {
+  if (!command || command.includes('/') || command.startsWith('.')) return null;
+
+  const binDir = `${modulesDir}/.bin`;
+  const shim = await fileRepository.getFileByPath(projectId, `${binDir}/${command}`);
+  if (shim && shim.type === 'file') {
+    const target = shim.content.match(SHIM_TARGET_PATTERN);
+    return target ? normalizeDotSegments(`${binDir}/${target[1]}`) : `${binDir}/${command}`;
+  }
+
+  return resolvePackageBin(projectId, command, command, modulesDir);
+}
@@ -0,0 +1,145 @@
+/**
+ * npmCache.ts - プロジェクト間で共有する npm のキャッシュ
+ *
+ * - tarball は integrity（SRI 文字列）をキーにした内容アドレス方式で保存する
+ *   → 同じバージョンを再インストールするときはダウンロードしない
+ * - tarball の URL → integrity の対応と、メタデータ（packument）も保存し、オフラインでのインストールに使う
+ * - 保存先はグローバルストレージ（IndexedDB の npm_cache ストア）。
+ *   IndexedDB がない環境（Node.js でのテストなど）ではメモリ上に保持する
+ */
+
+import { computeIntegrity } from './packageLock';
+
+import { STORES, storageService } from '@/engine/storage';
+
+const CONTENT_PREFIX = 'content:';
+const TARBALL_PREFIX = 'tarball:';
+const PACKUMENT_PREFIX = 'packument:';
+
+// IndexedDB がない環境用のフォールバック
+const memoryStore = new Map<string, unknown>();
+
+function hasIndexedDB(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+async function read<T>(id: string): Promise<T | null> {
+  if (!hasIndexedDB()) {
+    return (memoryStore.get(id) as T | undefined) ?? null;
+  }
+  return storageService.get<T>(STORES.NPM_CACHE, id);
+}
+
+async function write(id: string, data: unknown): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryStore.set(id, data);
+    return;
+  }
+  // tarball やメタデータは大きいのでメモリキャッシュには載せない
+  await storageService.set(STORES.NPM_CACHE, id, data, { cache: false });
+}
+
+/**
+ * integrity に対応する tarball を取得（なければ null）
+ */
+export async function getCachedTarball(integrity: string): Promise<Uint8Array | null> {
+  try {
+    return await read<Uint8Array>(`${CONTENT_PREFIX}${integrity}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL から tarball を取得（integrity が分からない場合用。なければ null）
+ */
+export async function getCachedTarballByUrl(
+  url: string
+): Promise<{ data: Uint8Array; integrity: string } | null> {
+  try {
+    const integrity = await read<string>(`${TARBALL_PREFIX}${url}`);
+    if (!integrity) return null;
+    const data = await getCachedTarball(integrity);
+    return data ? { data, integrity } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * tarball を保存する
+ * integrity は検証済みのものを渡す（省略した場合は sha512 を計算する）
+ * @returns 保存に使った integrity
+ */
+export async function putTarball(
+  url: string,
+  data: Uint8Array,
+  integrity?: string
+): Promise<string> {
+  const key = integrity ?? (await computeIntegrity(data));
+  try {
+    await write(`${CONTENT_PREFIX}${key}`, data);
+    await write(`${TARBALL_PREFIX}${url}`, key);
+  } catch (error) {
+    // キャッシュに保存できなくてもインストールは続行する
+    console.warn(`[npmCache] Failed to cache ${url}: ${(error as Error).message}`);
+  }
+  return key;
+}
+
+/**
+ * キャッシュ済みのメタデータを取得（なければ null）
+ */
+export async function getCachedPackument<T>(url: string): Promise<T | null> {
+  try {
+    return await read<T>(`${PACKUMENT_PREFIX}${url}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * メタデータを保存する
+ */
+export async function putPackument(url: string, data: unknown): Promise<void> {
+  try {
+    await write(`${PACKUMENT_PREFIX}${url}`, data);
+  } catch (error) {
+    console.warn(`[npmCache] Failed to cache metadata ${url}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * キャッシュの件数とサイズ（npm cache verify 用）
+ */
+export async function getNpmCacheStats(): Promise<{
+  tarballs: number;
+  packuments: number;
+  size: number;
+}> {
+  const entries: Array<[string, unknown]> = hasIndexedDB()
+    ? (await storageService.getAll<unknown>(STORES.NPM_CACHE)).map(entry => [entry.id, entry.data])
+    : [...memoryStore.entries()];
+
+  const stats = { tarballs: 0, packuments: 0, size: 0 };
+  for (const [id, data] of entries) {
+    if (id.startsWith(CONTENT_PREFIX)) {
+      stats.tarballs++;
+      stats.size += (data as Uint8Array).byteLength ?? 0;
+    } else if (id.startsWith(PACKUMENT_PREFIX)) {
+      stats.packuments++;
+    }
+  }
+  return stats;
+}
+
+/**
+ * キャッシュをすべて削除する（npm cache clean 用）
+ */
+export async function clearNpmCache(): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryStore.clear();
+    return;
+  }
+  await storageService.clear(STORES.NPM_CACHE);
+}
@@ -11,6 +11,18 @@
 import pako from 'pako';
 import tarStream from 'tar-stream';
 
+import { MODULES_DIR, getPackageBins } from './npmBin';
+import { getCachedTarball, getCachedTarballByUrl, putTarball } from './npmCache';
+import { type NpmRegistryConfig, fetchPackument, loadNpmConfig } from './npmRegistry';
+import {
+  IntegrityError,
+  type LockedPackage,
+  type PackageJsonLike,
+  isVersionRange,
+  satisfiesVersion,
+  verifyIntegrity,
+} from './packageLock';
+
 import { fileRepository } from '@/engine/core/fileRepository';
 import { ensureGitignoreContains } from '@/engine/core/gitignore';
 
@@ -19,6 +31,7 @@ interface PackageInfo {
   version: string;
   dependencies?: Record<string, string>;
   tarball: string;
+  integrity?: string;
 }
 
 /**
@@ -99,6 +112,14 @@ export class NpmInstall {
   private installedPackages: Map<string, string> = new Map();
   // 現在インストール処理中のパッケージ（循環依存回避）
   private installingPackages: Set<string> = new Set();
+  // package-lock.json に記録されたパッケージ（指定を満たす場合はこのバージョンを優先）
+  private lockedPackages: Map<string, LockedPackage> = new Map();
+  // 今回レジストリから解決したパッケージ（package-lock.json の生成に使う）
+  private resolvedPackages: Map<string, LockedPackage> = new Map();
+  // /.npmrc から読み込んだレジストリ設定（初回の使用時に読み込む）
+  private registryConfig?: Promise<NpmRegistryConfig>;
+  // インストール先の node_modules（npx の実行キャッシュでは別のディレクトリになる）
+  private modulesDir = MODULES_DIR;
 
   constructor(projectName: string, projectId: string, skipLoadingInstalledPackages = false) {
     this.projectName = projectName;
@@ -120,6 +141,21 @@ export class NpmInstall {
     this.onInstallProgress = callback;
   }
 
+  /**
+   * package-lock.json のパッケージを設定する
+   * 設定したパッケージはバージョン指定を満たす限りロックされたバージョン・URL・integrity でインストールされる
+   */
+  setLockedPackages(packages: Map<string, LockedPackage>): void {
+    this.lockedPackages = packages;
+  }
+
+  /**
+   * インストール先の node_modules を変更する（AppPath、例: /node_modules/.cache/npx/cowsay/node_modules）
+   */
+  setModulesDir(modulesDir: string): void {
+    this.modulesDir = modulesDir;
+  }
+
   // バッチ処理を開始
   startBatchProcessing(): void {
     this.batchProcessing = true;
@@ -212,9 +248,10 @@ export class NpmInstall {
   private async loadInstalledPackages(snapshotFiles?: Array<any>): Promise<void> {
     try {
       const files =
-        snapshotFiles ?? (await fileRepository.getFilesByPrefix(this.projectId, '/node_modules/'));
+        snapshotFiles ??
+        (await fileRepository.getFilesByPrefix(this.projectId, `${this.modulesDir}/`));
       const nodeModulesFiles = files.filter(
-        (f: any) => f.path.startsWith('/node_modules/') && f.path.endsWith('package.json')
+        (f: any) => f.path.startsWith(`${this.modulesDir}/`) && f.path.endsWith('package.json')
       );
       for (const file of nodeModulesFiles) {
         try {
@@ -248,10 +285,7 @@ export class NpmInstall {
 
     // cascade で消えなかった残存ファイルを個別削除
     // trailing slash で正確にプレフィックスマッチ（express-session 等を巻き込まない）
-    const remaining = await fileRepository.getFilesByPrefix(
-      this.projectId,
-      normalizedPath + '/'
-    );
+    const remaining = await fileRepository.getFilesByPrefix(this.projectId, normalizedPath + '/');
     for (const file of remaining) {
       try {
         await fileRepository.deleteFile(file.id);
@@ -264,7 +298,7 @@ export class NpmInstall {
   // 既に node_modules/<package> が存在するが .bin が無い場合、package.json の bin を基に .bin を作成する
   async ensureBinsForPackage(packageName: string): Promise<void> {
     try {
-      const pkgPath = `/node_modules/${packageName}/package.json`;
+      const pkgPath = `${this.modulesDir}/${packageName}/package.json`;
       const pkgFile = await fileRepository.getFileByPath(this.projectId, pkgPath);
       if (!pkgFile || !pkgFile.content) return;
       let pj: any;
@@ -273,18 +307,13 @@ export class NpmInstall {
       } catch {
         return;
       }
-      const binField = pj.bin;
-      let bins: Record<string, string> = {};
-      if (typeof binField === 'string' && pj.name) {
-        bins[pj.name] = binField;
-      } else if (typeof binField === 'object' && binField !== null) {
-        bins = binField as Record<string, string>;
-      }
+      // bin が文字列の場合のコマンド名はスコープを除いたパッケージ名
+      const bins = getPackageBins(pj);
 
       if (Object.keys(bins).length === 0) return;
 
       // ensure .bin folder exists
-      await this.executeFileOperation('/node_modules/.bin', 'folder');
+      await this.executeFileOperation(`${this.modulesDir}/.bin`, 'folder');
 
       for (const [name, relPath] of Object.entries(bins)) {
         try {
@@ -310,7 +339,7 @@ export class NpmInstall {
           shimLines.push('}');
 
           const shim = shimLines.join('\n');
-          await this.executeFileOperation(`/node_modules/.bin/${name}`, 'file', shim);
+          await this.executeFileOperation(`${this.modulesDir}/.bin/${name}`, 'file', shim);
         } catch (e) {
           // ignore per-bin errors
         }
@@ -504,36 +533,77 @@ export class NpmInstall {
     return removedPackages;
   }
 
-  // NPMレジストリからパッケージ情報を取得
-  private async fetchPackageInfo(packageName: string, version = 'latest'): Promise<PackageInfo> {
-    try {
-      const packageUrl = `https://registry.npmjs.org/${packageName}`;
-      console.log(`[npm.fetchPackageInfo] Fetching package info from: ${packageUrl}`);
+  /**
+   * node_modules にインストールされているパッケージを、ルートの依存関係から辿って収集する
+   * package-lock.json の生成用。resolved / integrity は今回の解決結果、設定済みのロック、
+   * レジストリの順に探す
+   */
+  async collectLockedPackages(
+    rootDependencies: Record<string, string>
+  ): Promise<Map<string, LockedPackage>> {
+    const files = await fileRepository.getFilesByPrefix(this.projectId, '/node_modules/');
+    const packageFiles = new Map(files.map(f => [f.path, f]));
+    const packages = new Map<string, LockedPackage>();
+    const queue = Object.keys(rootDependencies);
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15秒タイムアウト
+    while (queue.length > 0) {
+      const name = queue.shift() as string;
+      if (packages.has(name)) continue;
+      const file = packageFiles.get(`/node_modules/${name}/package.json`);
+      if (!file) continue;
 
-      const response = await fetch(packageUrl, {
-        signal: controller.signal,
-        headers: {
-          Accept: 'application/json',
-        },
-      });
-      clearTimeout(timeoutId);
+      let packageJson: PackageJsonLike;
+      try {
+        packageJson = JSON.parse(file.content);
+      } catch {
+        continue;
+      }
+      if (!packageJson.version) continue;
+      const version = packageJson.version;
+      const dependencies = packageJson.dependencies || {};
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error(`Package '${packageName}' not found in npm registry`);
+      let known = [this.resolvedPackages.get(name), this.lockedPackages.get(name)].find(
+        pkg => pkg?.version === version
+      );
+      if (!known) {
+        try {
+          const info = await this.fetchPackageInfo(name, version);
+          known = { version, resolved: info.tarball, integrity: info.integrity };
+        } catch (error) {
+          console.warn(
+            `[npm.collectLockedPackages] Failed to resolve ${name}@${version}: ${(error as Error).message}`
+          );
+          known = {
+            version,
+            resolved: (await this.getRegistryConfig()).getTarballUrl(name, version),
+          };
         }
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
+      packages.set(name, {
+        version,
+        resolved: known.resolved,
+        integrity: known.integrity,
+        dependencies,
+      });
+      queue.push(...Object.keys(dependencies));
+    }
+    return packages;
+  }
 
-      // 必要なデータが存在するかチェック
-      if (!data.name || !data['dist-tags'] || !data['dist-tags'].latest) {
-        throw new Error(`Invalid package data for '${packageName}'`);
-      }
+  // レジストリ設定を取得（NpmInstall ごとに1回だけ /.npmrc を読む）
+  private getRegistryConfig(): Promise<NpmRegistryConfig> {
+    if (!this.registryConfig) {
+      this.registryConfig = loadNpmConfig(this.projectId);
+    }
+    return this.registryConfig;
+  }
+
+  // NPMレジストリからパッケージ情報を取得
+  private async fetchPackageInfo(packageName: string, version = 'latest'): Promise<PackageInfo> {
+    try {
+      const config = await this.getRegistryConfig();
+      const data = await fetchPackument(config, packageName);
 
       const targetVersion = version === 'latest' ? data['dist-tags'].latest : version;
       const versionData = data.versions[targetVersion];
@@ -547,11 +617,9 @@ export class NpmInstall {
         version: targetVersion,
         dependencies: versionData.dependencies || {},
         tarball: versionData.dist.tarball,
+        integrity: versionData.dist.integrity,
       };
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout for package '${packageName}'`);
-      }
       throw new Error(`Failed to fetch package info: ${(error as Error).message}`);
     }
   }
@@ -562,6 +630,11 @@ export class NpmInstall {
     return versionSpec.replace(/^[\^~]/, '');
   }
 
+  // インストール済みのバージョンが指定を満たすか（範囲指定を判定できない場合は従来通り完全一致）
+  private matchesVersionSpec(version: string, versionSpec: string): boolean {
+    return satisfiesVersion(version, versionSpec) || version === this.resolveVersion(versionSpec);
+  }
+
   // パッケージが既にインストールされているかチェック（依存関係も含めて）
   private async isPackageInstalled(
     packageName: string,
@@ -572,12 +645,12 @@ export class NpmInstall {
       let packageFile: any | null = null;
       if (snapshotFiles) {
         packageFile = snapshotFiles.find(
-          (f: any) => f.path === `/node_modules/${packageName}/package.json`
+          (f: any) => f.path === `${this.modulesDir}/${packageName}/package.json`
         );
       } else {
         packageFile = await fileRepository.getFileByPath(
           this.projectId,
-          `/node_modules/${packageName}/package.json`
+          `${this.modulesDir}/${packageName}/package.json`
         );
       }
       if (!packageFile) return false;
@@ -602,20 +675,21 @@ export class NpmInstall {
     }
     const files = snapshotFiles ?? undefined;
     for (const [depName, depVersionSpec] of dependencyEntries) {
-      const depVersion = this.resolveVersion(depVersionSpec);
       let depPackageFile: any | null = null;
       if (files) {
-        depPackageFile = files.find((f: any) => f.path === `/node_modules/${depName}/package.json`);
+        depPackageFile = files.find(
+          (f: any) => f.path === `${this.modulesDir}/${depName}/package.json`
+        );
       } else {
         depPackageFile = await fileRepository.getFileByPath(
           this.projectId,
-          `/node_modules/${depName}/package.json`
+          `${this.modulesDir}/${depName}/package.json`
         );
       }
       if (!depPackageFile) return false;
       try {
         const depPackageJson = JSON.parse(depPackageFile.content);
-        if (depPackageJson.version !== depVersion) {
+        if (!this.matchesVersionSpec(depPackageJson.version, depVersionSpec)) {
           return false;
         }
       } catch {
@@ -631,7 +705,13 @@ export class NpmInstall {
     version = 'latest',
     options?: { autoAddGitignore?: boolean; ignoreEntry?: string; isDirect?: boolean }
   ): Promise<void> {
-    const resolvedVersion = this.resolveVersion(version);
+    // package-lock.json のバージョンが指定を満たす場合はそれを使う
+    // （dist-tag など範囲として解析できない指定はロックファイルを信頼する）
+    const locked = this.lockedPackages.get(packageName);
+    const resolvedVersion =
+      locked && (satisfiesVersion(locked.version, version) || !isVersionRange(version))
+        ? locked.version
+        : this.resolveVersion(version);
     const packageKey = `${packageName}@${resolvedVersion}`;
     const isDirect = options?.isDirect ?? true;
 
@@ -645,7 +725,7 @@ export class NpmInstall {
 
     // ファイル一覧を1回だけ取得してスナップショットとして再利用（IndexedDB往復を削減）
     // ただし全件取得は避け、node_modules 配下はプレフィックス、ルート設定は単一取得で済ませる
-    const nodeFiles = await fileRepository.getFilesByPrefix(this.projectId, '/node_modules/');
+    const nodeFiles = await fileRepository.getFilesByPrefix(this.projectId, `${this.modulesDir}/`);
     const packageFile = await fileRepository.getFileByPath(this.projectId, '/package.json');
     const gitignoreFile = await fileRepository.getFileByPath(this.projectId, '/.gitignore');
     const snapshotFiles = [packageFile, gitignoreFile, ...(nodeFiles || [])].filter(Boolean as any);
@@ -700,8 +780,23 @@ export class NpmInstall {
 
       console.log(`[npm.installWithDependencies] Installing ${packageKey}...`);
 
-      // パッケージ情報を取得
-      const packageInfo = await this.fetchPackageInfo(packageName, resolvedVersion);
+      // パッケージ情報を取得（ロックされている場合はレジストリに問い合わせない）
+      const packageInfo: PackageInfo =
+        locked && locked.version === resolvedVersion
+          ? {
+              name: packageName,
+              version: locked.version,
+              dependencies: locked.dependencies,
+              tarball: locked.resolved,
+              integrity: locked.integrity,
+            }
+          : await this.fetchPackageInfo(packageName, resolvedVersion);
+      this.resolvedPackages.set(packageName, {
+        version: packageInfo.version,
+        resolved: packageInfo.tarball,
+        integrity: packageInfo.integrity,
+        dependencies: packageInfo.dependencies,
+      });
 
       // 依存関係を先にインストール
       const dependencies = packageInfo.dependencies || {};
@@ -720,7 +815,8 @@ export class NpmInstall {
             batch.map(async ([depName, depVersion]) => {
               try {
                 // Transitive dependencies are marked as isDirect: false
-                await this.installWithDependencies(depName, this.resolveVersion(depVersion), {
+                // ロックファイルと照合できるよう、バージョン指定はそのまま渡す
+                await this.installWithDependencies(depName, depVersion, {
                   isDirect: false,
                 });
               } catch (error) {
@@ -735,7 +831,12 @@ export class NpmInstall {
       }
 
       // メインパッケージをインストール
-      await this.downloadAndInstallPackage(packageName, packageInfo.version, packageInfo.tarball);
+      await this.downloadAndInstallPackage(
+        packageName,
+        packageInfo.version,
+        packageInfo.tarball,
+        packageInfo.integrity
+      );
 
       // インストール済みマークに追加
       this.installedPackages.set(packageName, packageInfo.version);
@@ -753,57 +854,97 @@ export class NpmInstall {
   }
 
   // パッケージをダウンロードしてインストール（.tgzから直接）
+  // integrity を指定した場合は展開前に tarball 全体のハッシュを検証する
   async downloadAndInstallPackage(
     packageName: string,
     version = 'latest',
-    tarballUrl?: string
+    tarballUrl?: string,
+    integrity?: string
   ): Promise<void> {
     try {
       // .tgzのURLを構築（指定されていない場合）
-      const tgzUrl =
-        tarballUrl || `https://registry.npmjs.org/${packageName}/-/${packageName}-${version}.tgz`;
-      console.log(
-        `[npm.downloadAndInstallPackage] Downloading ${packageName}@${version} from: ${tgzUrl}`
-      );
+      const config = await this.getRegistryConfig();
+      const tgzUrl = tarballUrl || config.getTarballUrl(packageName, version);
 
-      // .tgzファイルをダウンロード（タイムアウト付き）
-      let tarballResponse: Response;
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30秒タイムアウト
-
-        tarballResponse = await fetch(tgzUrl, {
-          signal: controller.signal,
-          headers: {
-            Accept: 'application/octet-stream',
-          },
-        });
-        clearTimeout(timeoutId);
+      // キャッシュにあればダウンロードしない（integrity が分かる場合は内容で、分からなければ URL で引く）
+      const cachedData = integrity
+        ? await getCachedTarball(integrity)
+        : (await getCachedTarballByUrl(tgzUrl))?.data;
 
-        if (!tarballResponse.ok) {
-          if (tarballResponse.status === 404) {
-            throw new Error(`Package '${packageName}@${version}' not found`);
+      let tarballResponse: Response | undefined;
+      if (cachedData) {
+        console.log(
+          `[npm.downloadAndInstallPackage] Using cached tarball for ${packageName}@${version}`
+        );
+      } else {
+        console.log(
+          `[npm.downloadAndInstallPackage] Downloading ${packageName}@${version} from: ${tgzUrl}`
+        );
+
+        // .tgzファイルをダウンロード（タイムアウト付き）
+        try {
+          const controller = new AbortController();
+          const timeoutId = setTimeout(() => controller.abort(), 30000); // 30秒タイムアウト
+
+          tarballResponse = await fetch(tgzUrl, {
+            signal: controller.signal,
+            headers: {
+              Accept: 'application/octet-stream',
+              ...config.getAuthHeaders(tgzUrl),
+            },
+          });
+          clearTimeout(timeoutId);
+
+          if (!tarballResponse.ok) {
+            if (tarballResponse.status === 404) {
+              throw new Error(`Package '${packageName}@${version}' not found`);
+            }
+            throw new Error(`HTTP ${tarballResponse.status}: ${tarballResponse.statusText}`);
           }
-          throw new Error(`HTTP ${tarballResponse.status}: ${tarballResponse.statusText}`);
-        }
-      } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error(`Download timeout for ${packageName}@${version}`);
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw new Error(`Download timeout for ${packageName}@${version}`);
+          }
+          throw new Error(`Failed to download package: ${(error as Error).message}`);
         }
-        throw new Error(`Failed to download package: ${(error as Error).message}`);
+      }
+
+      // integrity の検証は展開前に行う（不一致の場合は何も書き込まない）
+      // キャッシュは integrity をキーにしているので、キャッシュから取り出したものは検証済み
+      let verifiedData: Uint8Array | undefined = cachedData ?? undefined;
+      if (tarballResponse && integrity) {
+        verifiedData = new Uint8Array(await tarballResponse.arrayBuffer());
+        await verifyIntegrity(verifiedData, integrity);
+        await putTarball(tgzUrl, verifiedData, integrity);
       }
 
       // 可能であればストリーミングで解凍・展開を行う（メモリ使用量の削減）
       let extractedFiles: Map<string, { isDirectory: boolean; content?: string; fullPath: string }>;
+      let cacheWrite: Promise<unknown> | undefined;
       try {
-        // ブラウザ/環境で ReadableStream が使える場合はストリーミング経路を使う
-        if (tarballResponse.body && typeof ReadableStream !== 'undefined') {
+        if (verifiedData || !tarballResponse) {
+          // 検証済みのデータは既に全体を読み込んでいるのでそのまま展開
+          extractedFiles = await this.extractPackage(
+            `${this.modulesDir}/${packageName}`,
+            verifiedData as Uint8Array
+          );
+        } else if (tarballResponse.body && typeof ReadableStream !== 'undefined') {
+          // ブラウザ/環境で ReadableStream が使える場合はストリーミング経路を使う
+          // 分岐させたもう一方はキャッシュへの保存に使う
+          const [body, cacheBody] = tarballResponse.body.tee();
+          cacheWrite = new Response(cacheBody)
+            .arrayBuffer()
+            .then(data => putTarball(tgzUrl, new Uint8Array(data)))
+            .catch(error => {
+              console.warn(`[npm.downloadAndInstallPackage] Failed to cache ${tgzUrl}:`, error);
+            });
+
           // DecompressionStream が使える環境ではネイティブ解凍を使う
           let decompressedStream: ReadableStream<Uint8Array> | undefined;
 
           if ((globalThis as any).DecompressionStream) {
             try {
-              decompressedStream = tarballResponse.body.pipeThrough(
+              decompressedStream = body.pipeThrough(
                 new (globalThis as any).DecompressionStream('gzip')
               );
             } catch (e) {
@@ -812,35 +953,42 @@ export class NpmInstall {
                 '[npm.downloadAndInstallPackage] DecompressionStream failed, falling back to pako',
                 e
               );
-              decompressedStream = await this.createPakoDecompressedStream(tarballResponse.body);
+              decompressedStream = await this.createPakoDecompressedStream(body);
             }
           } else {
             // DecompressionStream が無ければ pako のストリーミングで解凍
-            decompressedStream = await this.createPakoDecompressedStream(tarballResponse.body);
+            decompressedStream = await this.createPakoDecompressedStream(body);
           }
 
           extractedFiles = await this.extractPackageFromStream(
-            `/node_modules/${packageName}`,
+            `${this.modulesDir}/${packageName}`,
             decompressedStream
           );
         } else {
           // ストリーミング非対応環境では従来通り全体を読み込んでから展開
           const tarballData = await tarballResponse.arrayBuffer();
-          extractedFiles = await this.extractPackage(`/node_modules/${packageName}`, tarballData);
+          cacheWrite = putTarball(tgzUrl, new Uint8Array(tarballData));
+          extractedFiles = await this.extractPackage(
+            `${this.modulesDir}/${packageName}`,
+            tarballData
+          );
         }
       } catch (error) {
         // インストールに失敗した場合はディレクトリを削除
         try {
-          await this.removeDirectory(`/node_modules/${packageName}`);
+          await this.removeDirectory(`${this.modulesDir}/${packageName}`);
         } catch (cleanupError) {
           console.warn(`Failed to cleanup failed installation: ${cleanupError}`);
         }
         throw new Error(`Failed to extract package: ${(error as Error).message}`);
       }
 
+      // キャッシュへの保存を待つ（保存の失敗はインストールに影響させない）
+      await cacheWrite;
+
       // IndexedDBに同期（展開されたファイルのみを使用）
       try {
-        const basePath = `/node_modules/${packageName}`;
+        const basePath = `${this.modulesDir}/${packageName}`;
         await this.executeFileOperation(basePath, 'folder');
 
         // 展開されたファイルをバッチ/並列で同期
@@ -918,6 +1066,8 @@ export class NpmInstall {
         `[npm.downloadAndInstallPackage] Package ${packageName}@${version} installed successfully`
       );
     } catch (error) {
+      // integrity の不一致は npm ci などで EINTEGRITY として扱えるようそのまま投げる
+      if (error instanceof IntegrityError) throw error;
       throw new Error(
         `Installation failed for ${packageName}@${version}: ${(error as Error).message}`
       );
@@ -1120,7 +1270,7 @@ export class NpmInstall {
   // パッケージの展開（実際のtar展開）- 高速化版
   private async extractPackage(
     packageDir: string,
-    tarballData: ArrayBuffer
+    tarballData: ArrayBuffer | Uint8Array
   ): Promise<Map<string, { isDirectory: boolean; content?: string; fullPath: string }>> {
     try {
       console.log(`[npm.extractPackage] Starting tar extraction to: ${packageDir}`);
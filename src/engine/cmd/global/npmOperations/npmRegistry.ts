@@ -0,0 +1,271 @@
+/**
+ * npmRegistry.ts - レジストリ設定（.npmrc）の読み込みとパッケージメタデータの取得
+ *
+ * - プロジェクト直下の /.npmrc を読み、registry / @scope:registry / 認証情報を解決する
+ * - 認証情報は npm と同じ「nerf-dart」形式（//host/path/:_authToken=...）で、
+ *   リクエスト先の URL に最も長く一致するものを使う
+ * - 取得したメタデータは npmCache に保存し、レジストリに接続できない場合はそれを使う
+ */
+
+import { getCachedPackument, putPackument } from './npmCache';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+export const NPMRC_PATH = '/.npmrc';
+
+/**
+ * レジストリごとの認証情報
+ */
+interface RegistryAuth {
+  token?: string;
+  basic?: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * パッケージのメタデータ（packument）のうち、インストールに使う部分
+ */
+export interface PackumentVersion {
+  name: string;
+  version: string;
+  main?: string;
+  license?: string;
+  bin?: string | Record<string, string>;
+  dependencies?: Record<string, string>;
+  dist?: { tarball?: string; integrity?: string };
+}
+
+export interface Packument {
+  name: string;
+  description?: string;
+  license?: string;
+  'dist-tags': Record<string, string>;
+  versions: Record<string, PackumentVersion>;
+}
+
+/**
+ * 末尾を "/" で揃える（URL の連結と nerf-dart の比較を単純にするため）
+ */
+function normalizeRegistry(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * URL から nerf-dart（プロトコルとクエリを除いた "//host/path/"）を作る
+ */
+function toNerfDart(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.endsWith('/')
+    ? parsed.pathname
+    : parsed.pathname.slice(0, parsed.pathname.lastIndexOf('/') + 1);
+  return `//${parsed.host}${path}`;
+}
+
+/**
+ * .npmrc（ini 形式）を key / value に分解する
+ * `;` / `#` で始まる行はコメント。値の前後のクォートは取り除く
+ */
+export function parseNpmrc(content: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) continue;
+    const index = line.indexOf('=');
+    if (index <= 0) continue;
+    const key = line.slice(0, index).trim();
+    const value = line
+      .slice(index + 1)
+      .trim()
+      .replace(/^(['"])(.*)\1$/, '$2');
+    entries[key] = value;
+  }
+  return entries;
+}
+
+/**
+ * .npmrc から解決したレジストリ設定
+ */
+export class NpmRegistryConfig {
+  readonly registry: string;
+  private scopes = new Map<string, string>();
+  private auth = new Map<string, RegistryAuth>();
+
+  constructor(entries: Record<string, string> = {}) {
+    this.registry = normalizeRegistry(entries.registry || DEFAULT_REGISTRY);
+
+    for (const [key, value] of Object.entries(entries)) {
+      const scope = key.match(/^(@[^:]+):registry$/);
+      if (scope) {
+        this.scopes.set(scope[1], normalizeRegistry(value));
+        continue;
+      }
+      const credential = key.match(/^(\/\/.+?):(_authToken|_auth|username|_password)$/);
+      if (!credential) continue;
+      const nerfDart = normalizeRegistry(credential[1]);
+      const auth = this.auth.get(nerfDart) ?? {};
+      if (credential[2] === '_authToken') auth.token = value;
+      if (credential[2] === '_auth') auth.basic = value;
+      if (credential[2] === 'username') auth.username = value;
+      // npm と同じく _password は base64 で書かれている
+      if (credential[2] === '_password') auth.password = atob(value);
+      this.auth.set(nerfDart, auth);
+    }
+  }
+
+  /**
+   * パッケージ名（スコープ付きを含む）に対応するレジストリ
+   */
+  getRegistry(packageName: string): string {
+    if (packageName.startsWith('@')) {
+      const scope = packageName.split('/')[0];
+      return this.scopes.get(scope) ?? this.registry;
+    }
+    return this.registry;
+  }
+
+  /**
+   * メタデータの URL（スコープ付きは @scope%2fname の形にする）
+   */
+  getPackumentUrl(packageName: string): string {
+    return `${this.getRegistry(packageName)}${packageName.replace('/', '%2f')}`;
+  }
+
+  /**
+   * メタデータから tarball の URL が得られない場合の既定の URL
+   */
+  getTarballUrl(packageName: string, version: string): string {
+    const baseName = packageName.split('/').pop();
+    return `${this.getRegistry(packageName)}${packageName}/-/${baseName}-${version}.tgz`;
+  }
+
+  /**
+   * URL に対応する認証ヘッダー（該当する設定がなければ空）
+   */
+  getAuthHeaders(url: string): Record<string, string> {
+    let target: string;
+    try {
+      target = toNerfDart(url);
+    } catch {
+      return {};
+    }
+
+    let matched: RegistryAuth | undefined;
+    let matchedLength = 0;
+    for (const [nerfDart, auth] of this.auth) {
+      if (target.startsWith(nerfDart) && nerfDart.length > matchedLength) {
+        matched = auth;
+        matchedLength = nerfDart.length;
+      }
+    }
+
+    if (matched?.token) return { Authorization: `Bearer ${matched.token}` };
+    if (matched?.basic) return { Authorization: `Basic ${matched.basic}` };
+    if (matched?.username && matched.password !== undefined) {
+      return { Authorization: `Basic ${btoa(`${matched.username}:${matched.password}`)}` };
+    }
+    return {};
+  }
+}
+
+/**
+ * プロジェクトの /.npmrc を読み込む（存在しなければ既定のレジストリ）
+ */
+export async function loadNpmConfig(projectId: string): Promise<NpmRegistryConfig> {
+  try {
+    const file = await fileRepository.getFileByPath(projectId, NPMRC_PATH);
+    return new NpmRegistryConfig(file ? parseNpmrc(file.content) : {});
+  } catch (error) {
+    console.warn(`[npm.loadNpmConfig] Failed to read ${NPMRC_PATH}: ${(error as Error).message}`);
+    return new NpmRegistryConfig();
+  }
+}
+
+/**
+ * レジストリからメタデータを取得する
+ * ネットワークエラー・タイムアウト・5xx の場合はキャッシュ済みのメタデータを使う（オフライン対応）
+ */
+export async function fetchPackument(
+  config: NpmRegistryConfig,
+  packageName: string,
+  timeout = 15000
+): Promise<Packument> {
+  const url = config.getPackumentUrl(packageName);
+  console.log(`[npm.fetchPackument] Fetching package info from: ${url}`);
+
+  let response: Response;
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    try {
+      response = await fetch(url, {
+        signal: controller.signal,
+        headers: {
+          Accept: 'application/json',
+          ...config.getAuthHeaders(url),
+        },
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  } catch (error) {
+    const cached = await getCachedPackument<Packument>(url);
+    if (cached) {
+      console.warn(`[npm.fetchPackument] Using cached metadata for '${packageName}' (offline)`);
+      return cached;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Request timeout for package '${packageName}'`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    if (response.status >= 500) {
+      const cached = await getCachedPackument<Packument>(url);
+      if (cached) return cached;
+    }
+    if (response.status === 404) {
+      throw new Error(`Package '${packageName}' not found in ${config.getRegistry(packageName)}`);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `HTTP ${response.status}: authentication required for '${packageName}' (check ${NPMRC_PATH})`
+      );
+    }
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as Packument;
+  if (!data.name || !data['dist-tags'] || !data['dist-tags'].latest) {
+    throw new Error(`Invalid package data for '${packageName}'`);
+  }
+  await putPackument(url, slimPackument(data));
+  return data;
+}
+
+/**
+ * キャッシュ用に、インストールで使わないフィールド（README や各バージョンの詳細）を落とす
+ */
+function slimPackument(data: Packument): Packument {
+  const versions: Record<string, PackumentVersion> = {};
+  for (const [version, info] of Object.entries(data.versions || {})) {
+    versions[version] = {
+      name: info.name,
+      version: info.version,
+      main: info.main,
+      license: info.license,
+      bin: info.bin,
+      dependencies: info.dependencies,
+      dist: { tarball: info.dist?.tarball, integrity: info.dist?.integrity },
+    };
+  }
+  return {
+    name: data.name,
+    description: data.description,
+    license: data.license,
+    'dist-tags': data['dist-tags'],
+    versions,
+  };
+}
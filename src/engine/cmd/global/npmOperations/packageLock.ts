@@ -0,0 +1,466 @@
+/**
+ * packageLock.ts - package-lock.json (lockfileVersion 3) の読み書きと整合性検証
+ *
+ * - node_modules はフラット構成のため、パッケージのキーは常に "node_modules/<name>"
+ * - resolved（tarball の URL）と integrity（SRI 形式のハッシュ）を記録し、
+ *   npm install / npm ci はこれを元にレジストリのメタデータを引かずにインストールする
+ * - tarball のハッシュは Web Crypto (crypto.subtle) で計算する
+ */
+
+import { fileRepository } from '@/engine/core/fileRepository';
+
+export const PACKAGE_LOCK_PATH = '/package-lock.json';
+
+/**
+ * packages 内のエントリ
+ * ルート（キー ""）は name / dependencies / devDependencies、
+ * それ以外は version / resolved / integrity / dependencies / dev を持つ
+ */
+export interface PackageLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  dev?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export interface PackageLock {
+  name: string;
+  version: string;
+  lockfileVersion: 3;
+  requires: true;
+  packages: Record<string, PackageLockEntry>;
+}
+
+/**
+ * ロックされた1パッケージ（パッケージ名をキーにして扱う）
+ */
+export interface LockedPackage {
+  version: string;
+  resolved: string;
+  integrity?: string;
+  dependencies?: Record<string, string>;
+}
+
+export interface PackageJsonLike {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+const NODE_MODULES_PREFIX = 'node_modules/';
+
+/**
+ * tarball の integrity が一致しない場合のエラー（npm の EINTEGRITY）
+ */
+export class IntegrityError extends Error {
+  public code = 'EINTEGRITY';
+  public expected: string;
+  public actual: string;
+  constructor(expected: string, actual: string) {
+    const algorithm = actual.split('-')[0];
+    super(
+      `${expected} integrity checksum failed when using ${algorithm}: wanted ${expected} but got ${actual}.`
+    );
+    this.name = 'IntegrityError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+// 強い順。crypto.subtle.digest のアルゴリズム名に対応
+const INTEGRITY_ALGORITHMS: Record<string, string> = {
+  sha512: 'SHA-512',
+  sha384: 'SHA-384',
+  sha256: 'SHA-256',
+  sha1: 'SHA-1',
+};
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<string> {
+  const hash = await crypto.subtle.digest(INTEGRITY_ALGORITHMS[algorithm], data as BufferSource);
+  return `${algorithm}-${toBase64(new Uint8Array(hash))}`;
+}
+
+/**
+ * データの SRI 文字列（sha512-<base64>）を計算
+ */
+export async function computeIntegrity(data: Uint8Array): Promise<string> {
+  return digest('sha512', data);
+}
+
+/**
+ * データが integrity と一致するか検証し、不一致なら IntegrityError を投げる
+ * integrity に複数のハッシュがある場合は対応している最も強いものを使う
+ */
+export async function verifyIntegrity(data: Uint8Array, integrity: string): Promise<void> {
+  const hashes = integrity
+    .trim()
+    .split(/\s+/)
+    .filter(hash => hash.split('-')[0] in INTEGRITY_ALGORITHMS);
+  if (hashes.length === 0) {
+    throw new Error(`Unsupported integrity: ${integrity}`);
+  }
+
+  const order = Object.keys(INTEGRITY_ALGORITHMS);
+  const algorithm = hashes
+    .map(hash => hash.split('-')[0])
+    .sort((a, b) => order.indexOf(a) - order.indexOf(b))[0];
+  const actual = await digest(algorithm, data);
+  const expected = hashes.filter(hash => hash.startsWith(`${algorithm}-`));
+  if (!expected.includes(actual)) {
+    throw new IntegrityError(expected[0], actual);
+  }
+}
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemVer;
+}
+
+// 部分的なバージョン（1, 1.2, 1.x, 1.2.3-beta.1 など）。省略・ワイルドカードの部分は null
+interface PartialVersion {
+  major: number | null;
+  minor: number | null;
+  patch: number | null;
+  prerelease: Array<string | number>;
+}
+
+const PARTIAL_VERSION_PATTERN =
+  /^[v=]?(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*])(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?)?)?$/;
+
+function parsePrerelease(prerelease: string | undefined): Array<string | number> {
+  if (!prerelease) return [];
+  return prerelease.split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id));
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = text.match(PARTIAL_VERSION_PATTERN);
+  if (!match) return null;
+  const part = (value: string | undefined) =>
+    value === undefined || /^[xX*]$/.test(value) ? null : Number(value);
+  const major = part(match[1]);
+  const minor = major === null ? null : part(match[2]);
+  const patch = minor === null ? null : part(match[3]);
+  return { major, minor, patch, prerelease: patch === null ? [] : parsePrerelease(match[4]) };
+}
+
+function parseVersion(version: string): SemVer | null {
+  const partial = parsePartial(version.trim());
+  if (!partial || partial.major === null || partial.minor === null || partial.patch === null) {
+    return null;
+  }
+  return semver(partial.major, partial.minor, partial.patch, partial.prerelease);
+}
+
+function semver(
+  major: number,
+  minor = 0,
+  patch = 0,
+  prerelease: Array<string | number> = []
+): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+function comparePrerelease(a: Array<string | number>, b: Array<string | number>): number {
+  // プレリリースなしの方が新しい
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+    // 数値の識別子は文字列より前
+    if (typeof a[i] === 'number' && typeof b[i] !== 'number') return -1;
+    if (typeof a[i] !== 'number' && typeof b[i] === 'number') return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+function compareVersions(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * 演算子付きの部分バージョンを基本の比較に展開する（node-semver と同じ規則）
+ */
+function expandComparator(operator: string, partial: PartialVersion): Comparator[] | null {
+  const { major, minor, patch, prerelease } = partial;
+  // ワイルドカードのみ（*, x）
+  if (major === null) {
+    return operator === '<' || operator === '>' ? null : [];
+  }
+  const lower = semver(major, minor ?? 0, patch ?? 0, prerelease);
+  // 省略された部分の次の上限（1 -> 2.0.0, 1.2 -> 1.3.0）
+  const upperOfPartial = minor === null ? semver(major + 1) : semver(major, minor + 1);
+
+  switch (operator) {
+    case '^': {
+      let upper: SemVer;
+      if (major > 0 || minor === null) upper = semver(major + 1);
+      else if (minor > 0 || patch === null) upper = semver(0, minor + 1);
+      else upper = semver(0, 0, patch + 1);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~':
+    case '~>':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upperOfPartial },
+      ];
+    case '>':
+      return [
+        { operator: patch === null ? '>=' : '>', version: patch === null ? upperOfPartial : lower },
+      ];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: lower }];
+    case '<=':
+      return [
+        { operator: patch === null ? '<' : '<=', version: patch === null ? upperOfPartial : lower },
+      ];
+    default:
+      if (patch !== null) return [{ operator: '=', version: lower }];
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upperOfPartial },
+      ];
+  }
+}
+
+/**
+ * 範囲指定を解析する（|| で区切った比較の組。解析できない場合は null）
+ */
+function parseRange(spec: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+  for (const part of spec.split('||')) {
+    const range = part.trim();
+    const comparators: Comparator[] = [];
+
+    const hyphen = range.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      const from = parsePartial(hyphen[1]);
+      const to = parsePartial(hyphen[2]);
+      if (!from || !to) return null;
+      const lower = from.major === null ? [] : expandComparator('>=', from);
+      const upper = to.major === null ? [] : expandComparator('<=', to);
+      if (!lower || !upper) return null;
+      sets.push([...lower, ...upper]);
+      continue;
+    }
+
+    // 演算子と値の間の空白を詰めてから比較ごとに分ける（">= 1.2.0" -> ">=1.2.0"）
+    const tokens = range
+      .replace(/(<=|>=|<|>|=|\^|~>|~)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean);
+    for (const token of tokens) {
+      const match = token.match(/^(<=|>=|<|>|=|\^|~>|~)?(.*)$/) as RegExpMatchArray;
+      const partial = parsePartial(match[2]);
+      if (!partial) return null;
+      const expanded = expandComparator(match[1] ?? '', partial);
+      if (!expanded) return null;
+      comparators.push(...expanded);
+    }
+    sets.push(comparators);
+  }
+  return sets;
+}
+
+function testComparator(version: SemVer, { operator, version: target }: Comparator): boolean {
+  const cmp = compareVersions(version, target);
+  switch (operator) {
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    default:
+      return cmp === 0;
+  }
+}
+
+/**
+ * 範囲指定として解析できるか（dist-tag や URL などは false）
+ */
+export function isVersionRange(spec: string): boolean {
+  return parseRange(spec.trim()) !== null;
+}
+
+/**
+ * バージョンが範囲指定（^, ~, x-range, 比較演算子, ハイフン, || など）を満たすか
+ * プレリリース版は同じ major.minor.patch のプレリリースを含む範囲でのみ一致する（npm と同じ）
+ * 範囲として解析できない指定は latest を除いて false を返す
+ */
+export function satisfiesVersion(version: string, spec: string): boolean {
+  const range = spec.trim();
+  if (range === 'latest') return true;
+
+  const actual = parseVersion(version);
+  const sets = parseRange(range);
+  if (!actual || !sets) return false;
+
+  return sets.some(
+    comparators =>
+      comparators.every(comparator => testComparator(actual, comparator)) &&
+      (actual.prerelease.length === 0 ||
+        comparators.some(
+          ({ version: v }) =>
+            v.prerelease.length > 0 &&
+            v.major === actual.major &&
+            v.minor === actual.minor &&
+            v.patch === actual.patch
+        ))
+  );
+}
+
+/**
+ * /package-lock.json を読み込む（存在しない、または v2 以降でない場合は null）
+ */
+export async function readPackageLock(projectId: string): Promise<PackageLock | null> {
+  const file = await fileRepository.getFileByPath(projectId, PACKAGE_LOCK_PATH);
+  if (!file) return null;
+  try {
+    const lock = JSON.parse(file.content);
+    if (!lock || typeof lock.packages !== 'object' || lock.lockfileVersion < 2) {
+      return null;
+    }
+    return lock as PackageLock;
+  } catch {
+    console.warn('[packageLock] Failed to parse /package-lock.json');
+    return null;
+  }
+}
+
+export async function writePackageLock(projectId: string, lock: PackageLock): Promise<void> {
+  await fileRepository.createFile(
+    projectId,
+    PACKAGE_LOCK_PATH,
+    `${JSON.stringify(lock, null, 2)}\n`,
+    'file'
+  );
+}
+
+/**
+ * ロックファイルのパッケージをパッケージ名のマップに変換
+ */
+export function getLockedPackages(lock: PackageLock): Map<string, LockedPackage> {
+  const packages = new Map<string, LockedPackage>();
+  for (const [key, entry] of Object.entries(lock.packages)) {
+    if (!key.startsWith(NODE_MODULES_PREFIX) || !entry.version || !entry.resolved) continue;
+    packages.set(key.slice(NODE_MODULES_PREFIX.length), {
+      version: entry.version,
+      resolved: entry.resolved,
+      integrity: entry.integrity,
+      dependencies: entry.dependencies,
+    });
+  }
+  return packages;
+}
+
+/**
+ * package.json と解決済みパッケージからロックファイルを組み立てる
+ * ルートから辿れないパッケージは含めず、devDependencies からのみ辿れるものには dev: true を付ける
+ */
+export function buildPackageLock(
+  packageJson: PackageJsonLike,
+  packages: Map<string, LockedPackage>
+): PackageLock {
+  const dependencies = packageJson.dependencies ?? {};
+  const devDependencies = packageJson.devDependencies ?? {};
+
+  const collect = (roots: string[]) => {
+    const reachable = new Set<string>();
+    const queue = [...roots];
+    while (queue.length > 0) {
+      const name = queue.shift() as string;
+      const pkg = packages.get(name);
+      if (reachable.has(name) || !pkg) continue;
+      reachable.add(name);
+      queue.push(...Object.keys(pkg.dependencies ?? {}));
+    }
+    return reachable;
+  };
+  const prod = collect(Object.keys(dependencies));
+  const all = collect([...Object.keys(dependencies), ...Object.keys(devDependencies)]);
+
+  const root: PackageLockEntry = {
+    name: packageJson.name,
+    version: packageJson.version,
+  };
+  if (Object.keys(dependencies).length > 0) root.dependencies = dependencies;
+  if (Object.keys(devDependencies).length > 0) root.devDependencies = devDependencies;
+
+  const entries: Record<string, PackageLockEntry> = { '': root };
+  for (const name of [...all].sort()) {
+    const pkg = packages.get(name) as LockedPackage;
+    const entry: PackageLockEntry = { version: pkg.version, resolved: pkg.resolved };
+    if (pkg.integrity) entry.integrity = pkg.integrity;
+    if (!prod.has(name)) entry.dev = true;
+    if (pkg.dependencies && Object.keys(pkg.dependencies).length > 0) {
+      entry.dependencies = pkg.dependencies;
+    }
+    entries[`${NODE_MODULES_PREFIX}${name}`] = entry;
+  }
+
+  return {
+    name: packageJson.name ?? '',
+    version: packageJson.version ?? '',
+    lockfileVersion: 3,
+    requires: true,
+    packages: entries,
+  };
+}
+
+/**
+ * package.json とロックファイルの食い違いを npm と同じ形式で返す（空なら同期済み）
+ */
+export function findLockMismatches(lock: PackageLock, packageJson: PackageJsonLike): string[] {
+  const root = lock.packages[''] ?? {};
+  const locked = getLockedPackages(lock);
+  const problems: string[] = [];
+
+  for (const field of ['dependencies', 'devDependencies'] as const) {
+    for (const [name, spec] of Object.entries(packageJson[field] ?? {})) {
+      const pkg = locked.get(name);
+      if (!pkg) {
+        problems.push(`Missing: ${name}@${spec} from lock file`);
+      } else if (root[field]?.[name] !== spec && !satisfiesVersion(pkg.version, spec)) {
+        problems.push(
+          `Invalid: lock file's ${name}@${pkg.version} does not satisfy ${name}@${spec}`
+        );
+      }
+    }
+  }
+  return problems;
+}
@@ -278,8 +278,8 @@ export class UnixCommands {
     return await this.rmCmd.execute(args);
   }
 
-  async cat(args: string[]): Promise<string> {
-    return await this.catCmd.execute(args);
+  async cat(args: string[], stdin: NodeJS.ReadableStream | string | null = null): Promise<string> {
+    return await this.catCmd.execute(args, stdin);
   }
 
   async head(args: string[]): Promise<string> {
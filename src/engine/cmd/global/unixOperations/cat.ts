@@ -23,11 +23,14 @@ import type { ProjectFile } from '@/types';
  *
  * 動作:
  *   - 複数のファイルを連結して表示
- *   - ファイル名が指定されない場合は空
+ *   - ファイル名が指定されない場合、または `-` は stdin（パイプ・here-document）を読む
  *   - ワイルドカード対応
  */
 export class CatCommand extends UnixCommandBase {
-  async execute(args: string[]): Promise<string> {
+  async execute(
+    args: string[],
+    stdin: NodeJS.ReadableStream | string | null = null
+  ): Promise<string> {
     const optstring = 'nbsETvAet';
     const longopts = [
       'number',
@@ -46,10 +49,8 @@ export class CatCommand extends UnixCommandBase {
       return 'Usage: cat [options] [file...]\n\nConcatenate FILE(s) to standard output. Common options: -n, -b, -s, -E, -T';
     }
 
-    if (positional.length === 0) {
-      // stdinがない場合は空を返す
-      return '';
-    }
+    // ファイル名がなければ stdin を読む
+    const operands = positional.length === 0 ? ['-'] : positional;
 
     // オプション解析
     const showAll = flags.has('-A') || flags.has('--show-all');
@@ -65,9 +66,26 @@ export class CatCommand extends UnixCommandBase {
       flags.has('-e') ||
       flags.has('-t');
 
+    const opts = {
+      numberAll,
+      numberNonblank,
+      squeezeBlank,
+      showEnds,
+      showTabs,
+      showNonprinting,
+    };
     const results: string[] = [];
+    // stdin は一度だけ読める（2つ目以降の `-` は空）
+    let stdinConsumed = false;
+
+    for (const arg of operands) {
+      if (arg === '-') {
+        const content = stdin !== null && !stdinConsumed ? await this.readStdin(stdin) : '';
+        stdinConsumed = true;
+        results.push(this.processContent(content, opts));
+        continue;
+      }
 
-    for (const arg of positional) {
       const expanded = await this.expandPathPattern(arg);
 
       if (expanded.length === 0) {
@@ -77,15 +95,7 @@ export class CatCommand extends UnixCommandBase {
       for (const path of expanded) {
         try {
           const content = await this.readFile(path);
-          const processed = this.processContent(content, {
-            numberAll,
-            numberNonblank,
-            squeezeBlank,
-            showEnds,
-            showTabs,
-            showNonprinting,
-          });
-          results.push(processed);
+          results.push(this.processContent(content, opts));
         } catch (error) {
           throw new Error(`cat: ${path}: ${(error as Error).message}`);
         }
@@ -95,6 +105,21 @@ export class CatCommand extends UnixCommandBase {
     return results.join('');
   }
 
+  /**
+   * stdinを終わり（EOF）まで読み取り
+   */
+  private async readStdin(stdin: NodeJS.ReadableStream | string): Promise<string> {
+    if (typeof stdin === 'string') return stdin;
+    return new Promise<string>(resolve => {
+      let buf = '';
+      stdin.on('data', (chunk: Buffer | string) => {
+        buf += String(chunk);
+      });
+      stdin.on('end', () => resolve(buf));
+      stdin.on('close', () => resolve(buf));
+    });
+  }
+
   /**
    * ファイルの内容を読み取る
    */
@@ -134,7 +159,11 @@ export class CatCommand extends UnixCommandBase {
       showNonprinting: boolean;
     }
   ): string {
-    let lines = content.split('\n');
+    if (content === '') return '';
+
+    // 末尾の改行は行の区切りとして扱い、空行として番号を振らない
+    const trailingNewline = content.endsWith('\n');
+    let lines = (trailingNewline ? content.slice(0, -1) : content).split('\n');
     let lineNumber = 1;
 
     // 連続空行を圧縮
@@ -181,7 +210,7 @@ export class CatCommand extends UnixCommandBase {
       return result;
     });
 
-    return processed.join('\n');
+    return processed.join('\n') + (trailingNewline ? '\n' : '');
   }
 
   /**
@@ -142,6 +142,12 @@ Shell Features (StreamShell):
     例: echo $((5 + 3)) → 8
         COUNT=$((COUNT + 1))
   
+  ヒアドキュメント:
+    cmd <<EOF   - 次の行から EOF の行までを標準入力に渡す（変数を展開）
+    cmd <<'EOF' - 本文を展開せずに渡す
+    cmd <<-EOF  - 本文と区切り行の先頭のタブを取り除く
+    cmd <<< str - 文字列を標準入力に渡す（ヒアストリング）
+  
   論理演算子:
     &&          - 前のコマンドが成功したら次を実行
     ||          - 前のコマンドが失敗したら次を実行
@@ -165,6 +171,17 @@ Shell Features (StreamShell):
       commands
     done
     
+    case word in
+      pattern1|pattern2) commands ;;
+      *) commands ;;
+    esac
+    
+    name() {
+      local var=value
+      commands
+      return n
+    }
+    
     break       - ループを抜ける
     continue    - 次のループへ
     
@@ -197,6 +214,18 @@ Shell Features (StreamShell):
       -p        - パスのみ表示
     true        - 常に成功（終了コード0）
     [           - testコマンドのエイリアス
+    sleep <秒>  - 指定した時間待つ（例: sleep 5, sleep 0.5, sleep 1m）
+  
+  ジョブ制御:
+    cmd &       - バックグラウンドで実行（[ジョブ番号] pid を表示）
+    Ctrl+Z      - フォアグラウンドのジョブを停止
+    jobs [-l|-p] - ジョブの一覧を表示
+    fg [%n]     - ジョブをフォアグラウンドで再開
+    bg [%n]     - 停止したジョブをバックグラウンドで再開
+    wait [%n|pid] - ジョブの終了を待つ
+    kill [-SIG] %n|pid - ジョブにシグナルを送る（-l で一覧、-STOP / -CONT で停止・再開）
+    $!          - 最後のバックグラウンドジョブの pid
+    %n, %%, %-, %cmd - ジョブ指定（番号、現在、直前、コマンド名の先頭）
 
 Git Commands:
   git init                       - リポジトリ初期化（プロジェクト作成時に自動実行）
@@ -244,9 +273,13 @@ NPM Commands:
   npm install [package] [flags]  - パッケージをインストール
     --save-dev, -D               - devDependenciesに追加
     （引数なし）                 - package.jsonの全依存関係をインストール
+  npm ci                         - package-lock.jsonのとおりにクリーンインストール
   npm uninstall <package>        - パッケージをアンインストール
   npm list                       - インストール済みパッケージ一覧
   npm run <script>               - スクリプトを実行
+  npm exec -- <command> [args]   - パッケージのコマンドを実行
+  npm cache <clean|verify>       - tarballキャッシュを削除・確認
+  npx [-p <pkg>] <command>       - パッケージのコマンドを実行（なければ実行キャッシュにインストール）
 
 Pyxis Commands:
   pyxis export --page <path>     - ページをエクスポート
@@ -599,10 +632,13 @@ Node Runtime:
 
 スクリプト内で使用可能な機能:
   - 変数: VAR=value, $VAR
-  - 位置パラメータ: $0, $1, $2, ..., $@
+  - 位置パラメータ: $0, $1, $2, ..., $@, $#, shift
+  - 終了ステータス: $?, exit [n]
   - 算術展開: $((expr))
   - コマンド置換: $(command), \`command\`
-  - 制御構文: if/then/else/fi, for/do/done, while/do/done
+  - 制御構文: if/then/else/fi, for/do/done, while/do/done, case/esac
+  - 関数: name() { ... }, function name { ... }, local, return [n]
+  - ヒアドキュメント: <<EOF, <<'EOF', <<-EOF
   - 条件: test, [ expr ]
   - ループ制御: break, continue
 
@@ -622,6 +658,18 @@ Node Runtime:
   else
     echo "File not found"
   fi
+  
+  greet() {
+    local name=$1
+    cat <<EOF
+  Hello, $name
+  EOF
+  }
+  
+  case "$2" in
+    -v|--verbose) greet "verbose" ;;
+    *) greet "world" ;;
+  esac
 
 実行:
   sh script.sh arg1 arg2`,
@@ -800,9 +848,18 @@ Node Runtime:
   npm install                  - 全ての依存関係をインストール
   npm install <package>        - パッケージをインストール
   npm install <package> -D     - devDependenciesにインストール
+  npm ci                       - package-lock.jsonのとおりにクリーンインストール
   npm uninstall <package>      - パッケージをアンインストール
   npm list                     - インストール済みパッケージ一覧
   npm run <script>             - package.jsonのスクリプトを実行
+  npm exec -- <command>        - node_modules/.bin のコマンドを実行
+  npm cache clean --force      - tarball・メタデータのキャッシュを削除
+  npm cache verify             - キャッシュの件数とサイズを表示
+
+レジストリ設定（/.npmrc）:
+  registry=https://npm.example.com/
+  @myorg:registry=https://npm.pkg.github.com/
+  //npm.pkg.github.com/:_authToken=<token>
 
 例:
   npm init                     - package.jsonを対話的に作成
@@ -816,7 +873,32 @@ Node Runtime:
   npm install [package] [--save-dev|-D]
 
 説明:
-  package.json の依存関係を IndexedDB 内に反映し、必要なパッケージをダウンロードして node_modules 配下に配置します（シミュレート/最適化実装）。`,
+  package.json の依存関係を IndexedDB 内に反映し、必要なパッケージをダウンロードして node_modules 配下に配置します（シミュレート/最適化実装）。
+  package-lock.json（lockfileVersion 3）があれば、バージョン指定を満たす限りロックされたバージョンを使い、
+  インストール後に resolved と integrity を記録した package-lock.json を書き出します。
+  レジストリはプロジェクトの /.npmrc（registry / @scope:registry / 認証トークン）に従います。
+  ダウンロードした tarball はプロジェクト間で共有するキャッシュに保存し、同じバージョンは再ダウンロードしません。
+  レジストリに接続できない場合はキャッシュ済みのメタデータと tarball でインストールします。`,
+
+      'npm-ci': `npm ci - package-lock.json からクリーンインストール
+
+使用法:
+  npm ci
+
+説明:
+  node_modules を削除し、package-lock.json に記録されたバージョンを resolved の URL から
+  そのままインストールします。tarball は integrity（SHA-512）で検証し、一致しない場合は
+  EINTEGRITY で失敗します。package-lock.json がない、または package.json と一致しない場合はエラーです。`,
+
+      'npm-cache': `npm cache - パッケージキャッシュの管理
+
+使用法:
+  npm cache clean --force
+  npm cache verify
+
+説明:
+  npm install / npm ci がダウンロードした tarball とメタデータのキャッシュ（IndexedDB、プロジェクト間で共有）を操作します。
+  tarball は integrity をキーに保存されるため、同じ内容は一度だけ保存されます。`,
 
       'npm-uninstall': `npm uninstall - パッケージをアンインストール
 
@@ -848,7 +930,33 @@ Node Runtime:
   npm run <script>
 
 説明:
-  package.json の scripts に定義されたコマンドを StreamShell 上で実行します。`,
+  package.json の scripts に定義されたコマンドを StreamShell 上で実行します。
+  node_modules/.bin のコマンド（prettier や tsc など）はそのままコマンド名で実行できます。`,
+
+      'npm-exec': `npm exec - パッケージのコマンドを実行
+
+使用法:
+  npm exec [--package=<pkg>]... -- <command> [args...]
+
+説明:
+  npx と同じです（npx を参照）。`,
+
+      npx: `npx - パッケージのコマンドを実行
+
+使用法:
+  npx [-p <pkg>]... [-y] [--no-install] <command>[@version] [args...]
+
+説明:
+  node_modules/.bin からコマンドを探し、パッケージの bin のエントリファイルを NodeRuntime で実行します
+  （process.argv は [node, <エントリファイル>, ...args]）。
+  プロジェクトにないパッケージは、パッケージごとの実行キャッシュ
+  （node_modules/.cache/npx/<パッケージ>/node_modules）にインストールします。
+  package.json / package-lock.json やプロジェクトの node_modules は変更せず、
+  2回目以降はキャッシュから実行します。--no-install を指定した場合はインストールせずに失敗します。
+
+例:
+  npx cowsay hello
+  npx -p typescript tsc --version`,
 
       node: `Node.js - JavaScriptランタイム
 
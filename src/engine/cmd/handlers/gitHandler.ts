@@ -1,10 +1,60 @@
 import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
 
+/**
+ * Terminal input for interactive subcommands (git add -p)
+ */
+export interface GitInteractiveIO {
+  stdin: NodeJS.ReadableStream;
+  /** write without appending a newline (prompts) */
+  write: (text: string) => void;
+}
+
+/**
+ * Read stdin line by line; resolves null once the stream has ended
+ */
+function createLineReader(stdin: NodeJS.ReadableStream): () => Promise<string | null> {
+  let buffer = '';
+  let ended = false;
+  let waiting: (() => void) | null = null;
+  const wake = () => {
+    waiting?.();
+    waiting = null;
+  };
+  stdin.on('data', (chunk: unknown) => {
+    buffer += String(chunk);
+    wake();
+  });
+  stdin.on('end', () => {
+    ended = true;
+    wake();
+  });
+
+  return async () => {
+    while (true) {
+      const newline = buffer.indexOf('\n');
+      if (newline !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        return line;
+      }
+      if (ended) {
+        const rest = buffer;
+        buffer = '';
+        return rest ? rest : null;
+      }
+      await new Promise<void>(resolve => {
+        waiting = resolve;
+      });
+    }
+  };
+}
+
 export async function handleGitCommand(
   args: string[],
   projectName: string,
   projectId: string,
-  writeOutput: (output: string) => Promise<void>
+  writeOutput: (output: string) => Promise<void>,
+  io?: GitInteractiveIO
 ) {
   if (!args[0]) {
     await writeOutput('git: missing command');
@@ -21,7 +71,7 @@ export async function handleGitCommand(
 Commands:
   clone <url> [dir]      Clone a repository
   status                 Show the working tree status
-  add <file>             Add file contents to the index
+  add <file> | -p        Add file contents (or selected hunks) to the index
   commit -m <msg>        Record changes to the repository
   push [remote] [branch] Push commits to remote
   pull [remote] [branch] Fetch and merge from remote
@@ -34,6 +84,11 @@ Commands:
   revert <commit>        Revert a commit
   remote [--v]           Manage set of tracked repositories
   show <commit|file>     Show various types of objects
+  stash [push|list|...]  Stash the changes in a dirty working directory away
+  cherry-pick <commit>   Apply the changes introduced by an existing commit
+  rebase [-i] <base>     Reapply commits on top of another base tip
+  blame [<rev>] <file>   Show what revision and author last modified each line
+  tag [-a -m <msg>] [-d] Create, list or delete tags
 `;
     if (!cmd) return general;
 
@@ -51,7 +106,7 @@ Commands:
       case 'clone':
         return 'usage: git clone <url> [dir]';
       case 'add':
-        return 'usage: git add <pathspec>\nAdd file contents to the index.';
+        return 'usage: git add <pathspec>\n       git add -p|--patch [<pathspec>...]\nAdd file contents to the index. With -p, choose hunks to stage interactively.';
       case 'commit':
         return 'usage: git commit -m <message>\nRecord changes to the repository.';
       case 'log':
@@ -71,11 +126,43 @@ Commands:
       case 'merge':
         return 'usage: git merge [--no-ff] <branch>\nJoin two development histories together.';
       case 'push':
-        return 'usage: git push [<remote>] [<branch>] [--force]\nUpdate remote refs along with associated objects.';
+        return `usage: git push [<remote>] [<branch>] [--force]
+       git push [<remote>] --tags
+       git push [<remote>] <tag>...
+       git push --delete <remote> <tag>...
+Update remote refs along with associated objects.
+GitHub remotes are pushed through the GitHub API; other remotes use smart HTTP
+(CORS proxy and credentials per host in Settings > Git).`;
       case 'remote':
         return 'usage: git remote [-v] | git remote add <name> <url> | git remote remove <name>\nManage set of tracked repositories.';
       case 'show':
         return 'usage: git show <object>\nShow various types of objects.';
+      case 'stash':
+        return `usage: git stash [push [-u|--include-untracked] [-m <message>]]
+       git stash list
+       git stash show [-p|--patch] [-u|--include-untracked] [<stash>]
+       git stash apply [--index] [<stash>]
+       git stash pop [--index] [<stash>]
+       git stash drop [<stash>]
+       git stash clear
+Stash the changes in a dirty working directory away. <stash> is stash@{n} (default stash@{0}).`;
+      case 'cherry-pick':
+        return `usage: git cherry-pick <commit>
+       git cherry-pick (--continue | --abort)
+Apply the changes introduced by an existing commit. Conflicts open the merge conflict tab.`;
+      case 'rebase':
+        return `usage: git rebase [-i | --interactive] <upstream>
+       git rebase (--continue | --abort)
+Reapply commits on top of <upstream>. -i opens the todo list editor (pick/reword/squash/fixup/drop).`;
+      case 'blame':
+        return `usage: git blame [-L <start>,<end>] [<rev>] [--] <file>
+Show what revision and author last modified each line of a file.
+Without <rev>, lines changed in the working tree are shown as "Not Committed Yet".`;
+      case 'tag':
+        return `usage: git tag [-l | --list] [-n] [<pattern>]
+       git tag [-a] [-f] [-m <msg>] <tagname> [<commit>]
+       git tag -d <tagname>...
+Create, list or delete tags. With -m (or -a) an annotated tag is created.`;
       default:
         return general;
     }
@@ -175,7 +262,17 @@ Commands:
       break;
 
     case 'add':
-      if (args[1]) {
+      if (args[1] === '-p' || args[1] === '--patch') {
+        if (!io) {
+          await writeOutput('git add -p: interactive input is not available');
+          break;
+        }
+        const patchResult = await git.addPatch(args.slice(2), {
+          write: io.write,
+          readLine: createLineReader(io.stdin),
+        });
+        if (patchResult) await writeOutput(patchResult);
+      } else if (args[1]) {
         const addResult = await git.add(args[1]);
         await writeOutput(addResult);
       } else {
@@ -392,6 +489,36 @@ Commands:
       const force = args.includes('--force') || args.includes('-f');
 
       try {
+        // タグのプッシュ・削除はブランチのプッシュと異なり、自動 fetch / reset を行わない
+        const positional = args.slice(1).filter(arg => !arg.startsWith('-'));
+        const refs = positional.slice(1);
+        const deleteRefs = args.includes('--delete') || args.includes('-d');
+        let tagRefs: string[] | null = null;
+        if (refs.length > 0) {
+          const tagNames = new Set((await git.getTags()).map(tag => tag.name));
+          const { local } = await git.getAvailableBranches();
+          const names = refs.map(ref => ref.replace(/^refs\/tags\//, ''));
+          if (
+            deleteRefs ||
+            refs.every(
+              (ref, i) =>
+                ref.startsWith('refs/tags/') || (tagNames.has(names[i]) && !local.includes(ref))
+            )
+          ) {
+            tagRefs = names;
+          }
+        }
+        if (args.includes('--tags') || tagRefs) {
+          const tagResult = await git.pushTags({
+            remote: positional[0],
+            tags: tagRefs ?? 'all',
+            force,
+            delete: deleteRefs,
+          });
+          await writeOutput(tagResult);
+          break;
+        }
+
         const pushResult = await git.push({ remote, branch, force });
         await writeOutput(pushResult);
 
@@ -400,7 +527,8 @@ Commands:
           const match = pushResult.match(/\s([\w\-]+) -> [\w\-]+/);
           if (match?.[1]) usedBranch = match[1];
         }
-        if (usedBranch) {
+        // GitHub はコミットを作り直すため、リモートの状態に合わせる（smart HTTP では SHA が同じなので不要）
+        if (usedBranch && (await git.isGitHubRemote(remote))) {
           const fetchResult = await git.fetch({ remote: 'origin', branch: usedBranch });
           await writeOutput(`(auto) git fetch origin ${usedBranch}\n${fetchResult}`);
           const resetResult = await git.reset({ hard: true, commit: `origin/${usedBranch}` });
@@ -458,6 +586,179 @@ Commands:
       break;
     }
 
+    case 'stash': {
+      const stashSubcommands = ['push', 'save', 'list', 'show', 'apply', 'pop', 'drop', 'clear'];
+      const hasSubcommand = !!args[1] && stashSubcommands.includes(args[1]);
+      const sub = hasSubcommand ? args[1] : 'push';
+      const stashArgs = args.slice(hasSubcommand ? 2 : 1);
+      const stashRef = stashArgs.find(arg => !arg.startsWith('-'));
+
+      try {
+        let stashResult: string;
+        switch (sub) {
+          case 'push':
+          case 'save': {
+            const includeUntracked =
+              stashArgs.includes('-u') || stashArgs.includes('--include-untracked');
+            let message: string | undefined;
+            const messageIndex = Math.max(stashArgs.indexOf('-m'), stashArgs.indexOf('--message'));
+            const messageArgs =
+              sub === 'save'
+                ? stashArgs.filter(arg => !arg.startsWith('-'))
+                : messageIndex !== -1
+                  ? stashArgs.slice(messageIndex + 1).filter(arg => !arg.startsWith('-'))
+                  : [];
+            if (messageArgs.length > 0) {
+              message = messageArgs.join(' ').replace(/['\"]/g, '');
+            }
+            stashResult = await git.stashPush({ message, includeUntracked });
+            break;
+          }
+          case 'list':
+            stashResult = await git.stashList();
+            break;
+          case 'show':
+            stashResult = await git.stashShow(stashRef, {
+              patch: stashArgs.includes('-p') || stashArgs.includes('--patch'),
+              includeUntracked:
+                stashArgs.includes('-u') || stashArgs.includes('--include-untracked'),
+            });
+            break;
+          case 'apply':
+            stashResult = await git.stashApply(stashRef, { index: stashArgs.includes('--index') });
+            break;
+          case 'pop':
+            stashResult = await git.stashPop(stashRef, { index: stashArgs.includes('--index') });
+            break;
+          case 'drop':
+            stashResult = await git.stashDrop(stashRef);
+            break;
+          default:
+            stashResult = await git.stashClear();
+            break;
+        }
+        if (stashResult) await writeOutput(stashResult);
+      } catch (error) {
+        await writeOutput(`git stash: ${(error as Error).message}`);
+      }
+      break;
+    }
+
+    case 'cherry-pick': {
+      const revision = args.slice(1).find(arg => !arg.startsWith('-'));
+      try {
+        let cherryPickResult: string;
+        if (args.includes('--continue')) {
+          cherryPickResult = await git.cherryPickContinue();
+        } else if (args.includes('--abort')) {
+          cherryPickResult = await git.cherryPickAbort();
+        } else if (revision) {
+          cherryPickResult = await git.cherryPick(revision);
+        } else {
+          cherryPickResult = getGitUsage('cherry-pick');
+        }
+        if (cherryPickResult) await writeOutput(cherryPickResult);
+      } catch (error) {
+        await writeOutput(`git cherry-pick: ${(error as Error).message}`);
+      }
+      break;
+    }
+
+    case 'rebase': {
+      const upstream = args.slice(1).find(arg => !arg.startsWith('-'));
+      try {
+        let rebaseResult: string;
+        if (args.includes('--continue')) {
+          rebaseResult = await git.rebaseContinue();
+        } else if (args.includes('--abort')) {
+          rebaseResult = await git.rebaseAbort();
+        } else if (upstream) {
+          rebaseResult = await git.rebase(upstream, {
+            interactive: args.includes('-i') || args.includes('--interactive'),
+          });
+        } else {
+          rebaseResult = getGitUsage('rebase');
+        }
+        if (rebaseResult) await writeOutput(rebaseResult);
+      } catch (error) {
+        await writeOutput(`git rebase: ${(error as Error).message}`);
+      }
+      break;
+    }
+
+    case 'blame': {
+      const positional: string[] = [];
+      let lineRange: [number, number] | undefined;
+      try {
+        for (let i = 1; i < args.length; i++) {
+          const arg = args[i];
+          if (arg === '-L') {
+            // -L <start>,<end> / -L <start>,+<count> / -L <start>
+            const match = (args[++i] ?? '').match(/^(\d+)(?:,(\+?)(\d+)?)?$/);
+            if (!match) throw new Error('fatal: -L requires <start>,<end>');
+            const start = Number(match[1]);
+            let end = Number.POSITIVE_INFINITY;
+            if (match[3]) {
+              end = match[2] ? start + Number(match[3]) - 1 : Number(match[3]);
+            }
+            lineRange = [start, end];
+          } else if (arg !== '--') {
+            positional.push(arg);
+          }
+        }
+        if (positional.length === 0 || positional.length > 2) {
+          await writeOutput(getGitUsage('blame'));
+          break;
+        }
+        const filepath = positional[positional.length - 1];
+        const rev = positional.length === 2 ? positional[0] : undefined;
+        const blameResult = await git.blame(filepath, { rev, lineRange });
+        if (blameResult) await writeOutput(blameResult);
+      } catch (error) {
+        await writeOutput(`git blame: ${(error as Error).message}`);
+      }
+      break;
+    }
+
+    case 'tag': {
+      const positional: string[] = [];
+      let message: string | undefined;
+      let list = false;
+      try {
+        for (let i = 1; i < args.length; i++) {
+          const arg = args[i];
+          if (arg === '-m' || arg === '--message') {
+            message = (args[++i] ?? '').replace(/['\"]/g, '');
+          } else if (arg === '-l' || arg === '--list') {
+            list = true;
+          } else if (!arg.startsWith('-')) {
+            positional.push(arg);
+          }
+        }
+
+        let tagResult: string;
+        if (args.includes('-d') || args.includes('--delete')) {
+          tagResult = positional.length > 0 ? await git.deleteTags(positional) : getGitUsage('tag');
+        } else if (list || positional.length === 0) {
+          const showMessage = args.some(arg => /^-n\d*$/.test(arg));
+          tagResult = await git.tagList(positional[0], showMessage);
+        } else {
+          if ((args.includes('-a') || args.includes('--annotate')) && message === undefined) {
+            throw new Error('fatal: no tag message given (use -m <msg>)');
+          }
+          tagResult = await git.tag(positional[0], {
+            message,
+            target: positional[1],
+            force: args.includes('-f') || args.includes('--force'),
+          });
+        }
+        if (tagResult) await writeOutput(tagResult);
+      } catch (error) {
+        await writeOutput(`git tag: ${(error as Error).message}`);
+      }
+      break;
+    }
+
     default:
       await writeOutput(`git: '${gitCmd}' is not a git command`);
       break;
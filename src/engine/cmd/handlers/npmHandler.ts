@@ -1,4 +1,5 @@
 import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { toFSPath } from '@/engine/core/pathUtils';
 
 export async function handleNPMCommand(
   args: string[],
@@ -45,6 +46,13 @@ export async function handleNPMCommand(
       break;
     }
 
+    case 'ci':
+    case 'clean-install': {
+      const ciResult = await npm.ci();
+      await writeOutput(ciResult);
+      break;
+    }
+
     case 'uninstall':
     case 'remove':
     case 'rm': {
@@ -74,6 +82,12 @@ export async function handleNPMCommand(
       break;
     }
 
+    case 'cache': {
+      const cacheResult = await npm.cache(args[1], args.slice(2));
+      await writeOutput(cacheResult);
+      break;
+    }
+
     default:
       await writeOutput(`npm: '${npmCmd}' is not a supported npm command`);
       break;
@@ -82,81 +96,65 @@ export async function handleNPMCommand(
 
 export default handleNPMCommand;
 
-export async function handleNPXCommand(
+/**
+ * Target of `npx` / `npm exec`: the bin entry (FS path) and the arguments passed to it
+ */
+export interface ExecTarget {
+  entryPath: string;
+  args: string[];
+}
+
+/**
+ * Resolve `npx [-p <pkg>]... [-y] [--no-install] [--] <command> [args...]`
+ * (`npm exec` takes the same form) to the bin to run in NodeRuntime.
+ * Packages that are not installed are installed without touching package.json.
+ */
+export async function resolveExecTarget(
   args: string[],
   projectName: string,
   projectId: string,
-  writeOutput: (output: string) => Promise<void>
-): Promise<number> {
-  // npx <bin> [args...]
-  if (!args[0]) {
-    await writeOutput('npx: missing command');
-    return 2;
+  writeError: (output: string) => Promise<void>
+): Promise<ExecTarget> {
+  const packages: string[] = [];
+  let install = true;
+  let i = 0;
+  for (; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      i++;
+      break;
+    }
+    if (arg === '-p' || arg === '--package') {
+      if (args[i + 1]) packages.push(args[++i]);
+    } else if (arg.startsWith('--package=')) {
+      packages.push(arg.slice('--package='.length));
+    } else if (arg === '-y' || arg === '--yes') {
+      install = true;
+    } else if (arg === '--no' || arg === '--no-install') {
+      install = false;
+    } else if (arg.startsWith('-')) {
+      // Unknown npm options are ignored, as npm does for config flags
+    } else {
+      break;
+    }
   }
 
-  const binary = args[0];
-  const binArgs = args.slice(1);
-
-  // Resolve using UnixCommands to access project FS
-  const unix = terminalCommandRegistry.getUnixCommands(projectName, projectId);
-  try {
-    const cwdFs = await unix.pwd();
-    // Try common shim names
-    const candidates = [
-      `node_modules/.bin/${binary}`,
-      `node_modules/.bin/${binary}.js`,
-      `node_modules/.bin/${binary}.cmd`,
-    ];
-
-    // Lazy import path utils and NodeRuntime to avoid cycles
-    const { fsPathToAppPath, resolvePath, toFSPath } = await import('@/engine/core/pathUtils');
-    const { NodeRuntime } = await import('../../runtime/nodejs/nodeRuntime');
-
-    for (const cand of candidates) {
-      const cwdApp = fsPathToAppPath(cwdFs, projectName);
-      const resolvedApp = resolvePath(cwdApp, cand.replace(/^\.\//, ''));
-      const absFs = toFSPath(projectName, resolvedApp);
-      const exists = await unix.cat([absFs]).catch(() => null);
-      if (exists !== null) {
-        // Execute via NodeRuntime
-        const debugConsole = {
-          log: async (...a: unknown[]) => await writeOutput(a.map(x => String(x)).join(' ') + '\n'),
-          error: async (...a: unknown[]) =>
-            await writeOutput(a.map(x => String(x)).join(' ') + '\n'),
-          warn: async (...a: unknown[]) =>
-            await writeOutput(a.map(x => String(x)).join(' ') + '\n'),
-          clear: () => {},
-        };
-
-        const runtime = new NodeRuntime({
-          projectId,
-          projectName,
-          filePath: absFs,
-          debugConsole: {
-            log: (...p: unknown[]) => debugConsole.log(...p),
-            error: (...p: unknown[]) => debugConsole.error(...p),
-            warn: (...p: unknown[]) => debugConsole.warn(...p),
-            clear: () => {},
-          },
-          terminalColumns: 80,
-          terminalRows: 24,
-        });
-
-        try {
-          await runtime.execute(absFs, binArgs);
-          await runtime.waitForEventLoop();
-          return 0;
-        } catch (e: any) {
-          await writeOutput(String(e?.message ?? e) + '\n');
-          return 1;
-        }
-      }
-    }
+  const command = args[i];
+  if (!command) {
+    throw new Error('missing command. Usage: npx [-p <pkg>] <command> [args...]');
+  }
 
-    await writeOutput(`${binary}: command not found`);
-    return 127;
-  } catch (e: any) {
-    await writeOutput(String(e?.message ?? e) + '\n');
-    return 1;
+  const npm = terminalCommandRegistry.getNpmCommands(
+    projectName,
+    projectId,
+    `/projects/${projectName}`
+  );
+  const { entryPath, installed } = await npm.resolveExecBin(command, packages, install);
+  if (installed.length > 0) {
+    await writeError(
+      `npm WARN exec The following package${installed.length > 1 ? 's were' : ' was'} not found and will be installed: ${installed.join(', ')}`
+    );
   }
+
+  return { entryPath: toFSPath(projectName, entryPath), args: args.slice(i + 1) };
 }
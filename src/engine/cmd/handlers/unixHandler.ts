@@ -1,3 +1,4 @@
+import type { UnixCommands } from '@/engine/cmd/global/unix';
 import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
 
 export async function handleUnixCommand(
@@ -7,9 +8,11 @@ export async function handleUnixCommand(
   projectId: string,
   writeOutput: (output: string) => Promise<void>,
   writeError: (err: string) => Promise<void>,
-  stdin: NodeJS.ReadableStream | string | null = null
+  stdin: NodeJS.ReadableStream | string | null = null,
+  unixCommands?: UnixCommands
 ): Promise<{ code: number; output: string }> {
-  const unix = terminalCommandRegistry.getUnixCommands(projectName, projectId);
+  // ターミナルごとの UnixCommands（cwd）が渡されればそちらを使う
+  const unix = unixCommands ?? terminalCommandRegistry.getUnixCommands(projectName, projectId);
 
   let out = '';
   let exitCode = 0;
@@ -156,12 +159,9 @@ export async function handleUnixCommand(
       }
 
       case 'cat': {
-        if (args.length === 0) {
-          await appendError('cat: missing file operand\nUsage: cat FILE...', 2);
-        } else {
-          const result = await unix.cat(args);
-          await append(result);
-        }
+        // ファイル名がなければ stdin（パイプ・here-document）を出力する
+        const result = await unix.cat(args, stdin);
+        await append(result);
         break;
       }
 
@@ -1,13 +1,19 @@
 import type { Readable, Writable } from 'node:stream';
 
-import { UNIX_COMMANDS } from '@/engine/cmd/global/unix';
+import { UNIX_COMMANDS, type UnixCommands } from '@/engine/cmd/global/unix';
 import handleUnixCommand from '../handlers/unixHandler';
+import { runCurl } from './curl';
+import { type Job, type JobControl, SIGNALS, normalizeSignal } from './jobs';
 
 export type StreamCtx = {
   stdin: Readable;
   stdout: Writable;
   stderr: Writable;
   onSignal: (fn: (sig: string) => void) => void;
+  /** Stopped with Ctrl+Z / kill -STOP (only the output is held back; pause timers etc. here) */
+  onStop: (fn: () => void) => void;
+  /** Continued with fg / bg / kill -CONT */
+  onContinue: (fn: () => void) => void;
   projectName?: string;
   projectId?: string;
   /** Terminal columns (width) */
@@ -30,8 +36,9 @@ const normalizeArgs = (args?: Array<string | { text?: string }>): string[] => {
 /**
  * unixHandlerへの統一ブリッジ関数
  * ストリーム対応しながらunixHandlerの完全なロジックを活用
+ * @param unix - シェルが持つ UnixCommands（ターミナルごとの cwd）。未指定ならプロジェクト共通のもの
  */
-const makeUnixBridge = (name: string) => {
+const makeUnixBridge = (name: string, unix?: UnixCommands) => {
   return async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
     const nArgs = normalizeArgs(args || []);
     let exitCode = 0;
@@ -68,7 +75,8 @@ const makeUnixBridge = (name: string) => {
         projectId,
         writeOutput,
         writeError,
-        stdinStream
+        stdinStream,
+        unix
       );
 
       exitCode = result.code ?? 0;
@@ -98,14 +106,157 @@ const makeUnixBridge = (name: string) => {
   };
 };
 
+// sleep の時間の単位
+const SLEEP_UNITS: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * ジョブ制御ビルトイン（jobs / fg / bg / wait / kill）
+ */
+const makeJobBuiltins = (jobControl: JobControl) => {
+  const { table } = jobControl;
+
+  // 失敗時: メッセージを出して終了コードを返す
+  const fail = (ctx: StreamCtx, message: string, code = 1): never => {
+    ctx.stderr.write(`${message}\n`);
+    ctx.stdout.end();
+    ctx.stderr.end();
+    throw { __silent: true, code };
+  };
+
+  const resolveJob = (ctx: StreamCtx, name: string, spec?: string): Job => {
+    const job = table.resolve(spec);
+    if (!job) fail(ctx, `${name}: ${spec ?? 'current'}: no such job`);
+    return job as Job;
+  };
+
+  return {
+    jobs: async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+      const nArgs = normalizeArgs(args);
+      const flags = nArgs.filter(a => a.startsWith('-')).join('');
+      const specs = nArgs.filter(a => !a.startsWith('-'));
+      const jobs =
+        specs.length > 0 ? specs.map(spec => resolveJob(ctx, 'jobs', spec)) : table.list();
+      for (const job of jobs) {
+        if (flags.includes('p')) {
+          ctx.stdout.write(`${job.pid}\n`);
+        } else {
+          ctx.stdout.write(`${table.format(job, { pid: flags.includes('l') })}\n`);
+        }
+      }
+      // 終了を表示したジョブは表から消える（プロンプト前の通知も不要になる）
+      table.takeNotifications();
+      ctx.stdout.end();
+      ctx.stderr.end();
+    },
+
+    fg: async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+      const job = resolveJob(ctx, 'fg', normalizeArgs(args)[0]);
+      ctx.stdout.write(`${job.command}\n`);
+      const code = await jobControl.foreground(job);
+      if (code === null) {
+        // Ctrl+Z で再び停止した
+        ctx.stdout.write(`${table.format(job)}\n`);
+      }
+      ctx.stdout.end();
+      ctx.stderr.end();
+      if (code !== 0) throw { __silent: true, code: code ?? 148 };
+    },
+
+    bg: async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+      const job = resolveJob(ctx, 'bg', normalizeArgs(args)[0]);
+      if (job.state !== 'stopped') {
+        fail(ctx, `bg: job ${job.id} already in background`, 0);
+      }
+      job.resume();
+      table.add(job, { background: true, notify: job.notify });
+      ctx.stdout.write(`[${job.id}]+ ${job.command} &\n`);
+      ctx.stdout.end();
+      ctx.stderr.end();
+    },
+
+    wait: async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+      const specs = normalizeArgs(args);
+      // Ctrl+C で待機を中断する
+      const interrupted = new Promise<number>(resolve => ctx.onSignal(() => resolve(130)));
+      let code = 0;
+      if (specs.length === 0) {
+        await Promise.race([Promise.all(table.list().map(job => job.done)), interrupted]);
+      } else {
+        for (const spec of specs) {
+          const job = table.resolve(spec);
+          if (!job) {
+            ctx.stderr.write(
+              /^\d+$/.test(spec)
+                ? `wait: pid ${spec} is not a child of this shell\n`
+                : `wait: ${spec}: no such job\n`
+            );
+            code = 127;
+            continue;
+          }
+          code = await Promise.race([job.done, interrupted]);
+        }
+      }
+      ctx.stdout.end();
+      ctx.stderr.end();
+      if (code !== 0) throw { __silent: true, code };
+    },
+
+    kill: async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+      const nArgs = normalizeArgs(args);
+      if (nArgs[0] === '-l') {
+        const names = Object.entries(SIGNALS).map(([name, n]) => `${n}) ${name}`);
+        ctx.stdout.write(`${names.join('\t')}\n`);
+        ctx.stdout.end();
+        ctx.stderr.end();
+        return;
+      }
+
+      let signal = 'SIGTERM';
+      let targets = nArgs;
+      if (nArgs[0] === '-s' || nArgs[0] === '-n') {
+        signal = normalizeSignal(nArgs[1] ?? '') ?? fail(ctx, `kill: ${nArgs[1]}: invalid signal`);
+        targets = nArgs.slice(2);
+      } else if (/^-\w+$/.test(nArgs[0] ?? '')) {
+        signal =
+          normalizeSignal(nArgs[0].slice(1)) ?? fail(ctx, `kill: ${nArgs[0]}: invalid signal`);
+        targets = nArgs.slice(1);
+      }
+      if (targets.length === 0) {
+        fail(ctx, 'kill: usage: kill [-s sigspec | -sigspec] pid | jobspec ... or kill -l', 2);
+      }
+
+      let code = 0;
+      for (const target of targets) {
+        const job = table.resolve(target);
+        if (!job) {
+          ctx.stderr.write(
+            target.startsWith('%')
+              ? `kill: ${target}: no such job\n`
+              : `kill: (${target}) - No such process\n`
+          );
+          code = 1;
+          continue;
+        }
+        if (signal === 'SIGSTOP' || signal === 'SIGTSTP') job.stop();
+        else if (signal === 'SIGCONT') job.resume();
+        else job.kill(signal);
+      }
+      ctx.stdout.end();
+      ctx.stderr.end();
+      if (code !== 0) throw { __silent: true, code };
+    },
+  };
+};
+
 /**
  * unixからビルトインコマンドを生成
+ * @param jobControl - 指定するとジョブ制御ビルトイン（jobs / fg / bg / wait / kill）を追加
  */
-export default function adaptUnixToStream(unix: any) {
+export default function adaptUnixToStream(unix: any, jobControl?: JobControl) {
   const obj: Record<string, any> = {};
 
   for (const cmd of UNIX_COMMANDS) {
-    obj[cmd] = makeUnixBridge(cmd);
+    obj[cmd] = makeUnixBridge(cmd, unix ?? undefined);
   }
 
   // test/[ ビルトイン - TestCommandに委譲
@@ -129,6 +280,64 @@ export default function adaptUnixToStream(unix: any) {
     ctx.stdout.end();
   };
 
+  // sleep: 指定した時間待つ（Ctrl+C / kill で中断、Ctrl+Z で停止中は時間を数えない）
+  obj.sleep = async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+    const nArgs = normalizeArgs(args || []);
+    let seconds = 0;
+    for (const a of nArgs) {
+      const m = a.match(/^(\d+(?:\.\d*)?|\.\d+)([smhd]?)$/);
+      if (!m) {
+        ctx.stderr.write(`sleep: invalid time interval '${a}'\n`);
+        ctx.stdout.end();
+        ctx.stderr.end();
+        throw { __silent: true, code: 1 };
+      }
+      seconds += Number(m[1]) * SLEEP_UNITS[m[2]];
+    }
+    if (nArgs.length === 0) {
+      ctx.stderr.write('sleep: missing operand\n');
+      ctx.stdout.end();
+      ctx.stderr.end();
+      throw { __silent: true, code: 1 };
+    }
+    await new Promise<void>(resolve => {
+      let remaining = seconds * 1000;
+      let startedAt = Date.now();
+      let timer = setTimeout(resolve, remaining);
+      ctx.onStop(() => {
+        clearTimeout(timer);
+        remaining -= Date.now() - startedAt;
+      });
+      ctx.onContinue(() => {
+        startedAt = Date.now();
+        timer = setTimeout(resolve, Math.max(0, remaining));
+      });
+      ctx.onSignal(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    ctx.stdout.end();
+    ctx.stderr.end();
+  };
+
+  // curl: localhost:<port> は http.createServer で起動した仮想サーバーへ
+  obj.curl = async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
+    const code = await runCurl(normalizeArgs(args || []), {
+      stdout: text => ctx.stdout.write(text),
+      stderr: text => ctx.stderr.write(text),
+    });
+    ctx.stdout.end();
+    ctx.stderr.end();
+    if (code !== 0) {
+      throw { __silent: true, code };
+    }
+  };
+
+  if (jobControl) {
+    Object.assign(obj, makeJobBuiltins(jobControl));
+  }
+
   // exit: POSIX builtin
   obj.exit = async (ctx: StreamCtx, args: Array<string | { text?: string }> = []) => {
     const nArgs = normalizeArgs(args || []);
@@ -327,6 +536,9 @@ export default function adaptUnixToStream(unix: any) {
         terminalRows: ctx.terminalRows,
       });
 
+      // Ctrl+C / kill: listen 中のサーバーを閉じて終了する
+      ctx.onSignal(() => runtime.terminate());
+
       // NodeRuntimeを実行
       await runtime.execute(entryPath, args.slice(1));
 
@@ -339,7 +551,10 @@ export default function adaptUnixToStream(unix: any) {
       ctx.stderr.end();
     } catch (e: any) {
       const msg = e?.message ? String(e.message) : String(e);
-      ctx.stderr.write(`node: error: ${msg}\n`);
+      // 実行したコードで投げられたエラーは、元のファイルの位置に戻したスタック付きで表示する
+      const { formatUncaughtError } = await import('../../runtime/nodejs/nodeErrors');
+      const uncaught = formatUncaughtError(e);
+      ctx.stderr.write(uncaught ? `${uncaught}\n` : `node: error: ${msg}\n`);
       ctx.stdout.end();
       ctx.stderr.end();
       throw { __silent: true, code: 1 };
@@ -0,0 +1,216 @@
+import {
+  type VirtualHttpResponse,
+  httpServerRegistry,
+  parseLocalServerUrl,
+} from '@/engine/runtime/nodejs/httpServerRegistry';
+
+/**
+ * curl - minimal HTTP client builtin
+ *
+ * Requests to localhost:<port> are dispatched to the in-browser servers started with
+ * `http.createServer().listen(port)`; any other URL goes through fetch (subject to CORS).
+ * Supported options: -X/--request, -H/--header, -d/--data/--data-raw, --json,
+ * -i/--include, -I/--head, -s/--silent, -L/--location.
+ */
+
+export type CurlOptions = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  data?: string;
+  include: boolean;
+  head: boolean;
+  silent: boolean;
+  location: boolean;
+};
+
+export type CurlOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+// curl exit codes
+const EXIT_USAGE = 2;
+const EXIT_COULDNT_CONNECT = 7;
+const EXIT_TOO_MANY_REDIRECTS = 47;
+
+const MAX_REDIRECTS = 10;
+
+/**
+ * Parse curl arguments. Throws an Error with a curl-style message on bad usage.
+ */
+export function parseCurlArgs(args: string[]): CurlOptions {
+  const options: CurlOptions = {
+    url: '',
+    method: '',
+    headers: {},
+    include: false,
+    head: false,
+    silent: false,
+    location: false,
+  };
+
+  const takeValue = (i: number, name: string): string => {
+    const value = args[i + 1];
+    if (value === undefined) throw new Error(`curl: option ${name}: requires parameter`);
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-X':
+      case '--request':
+        options.method = takeValue(i++, arg).toUpperCase();
+        break;
+      case '-H':
+      case '--header': {
+        const header = takeValue(i++, arg);
+        const colon = header.indexOf(':');
+        if (colon > 0) {
+          options.headers[header.slice(0, colon).trim().toLowerCase()] = header
+            .slice(colon + 1)
+            .trim();
+        }
+        break;
+      }
+      case '-d':
+      case '--data':
+      case '--data-raw': {
+        const data = takeValue(i++, arg);
+        options.data = options.data === undefined ? data : `${options.data}&${data}`;
+        options.headers['content-type'] ??= 'application/x-www-form-urlencoded';
+        break;
+      }
+      case '--json':
+        options.data = takeValue(i++, arg);
+        options.headers['content-type'] = 'application/json';
+        options.headers.accept = 'application/json';
+        break;
+      case '-i':
+      case '--include':
+        options.include = true;
+        break;
+      case '-I':
+      case '--head':
+        options.head = true;
+        break;
+      case '-s':
+      case '--silent':
+        options.silent = true;
+        break;
+      case '-L':
+      case '--location':
+        options.location = true;
+        break;
+      default:
+        if (arg.startsWith('-') && arg.length > 1) {
+          throw new Error(`curl: option ${arg}: is unknown`);
+        }
+        options.url = arg;
+    }
+  }
+
+  if (!options.url) throw new Error('curl: no URL specified!');
+  if (!options.method) {
+    options.method = options.head ? 'HEAD' : options.data !== undefined ? 'POST' : 'GET';
+  }
+  return options;
+}
+
+async function request(
+  url: string,
+  method: string,
+  headers: Record<string, string>,
+  data?: string
+): Promise<VirtualHttpResponse> {
+  const body = data !== undefined ? new TextEncoder().encode(data) : undefined;
+
+  const local = parseLocalServerUrl(url);
+  if (local) {
+    return httpServerRegistry.dispatch(local.port, {
+      method,
+      url: local.path,
+      headers: { host: `localhost:${local.port}`, 'user-agent': 'curl/8.0', ...headers },
+      body,
+    });
+  }
+
+  const absolute = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`;
+  const response = await fetch(absolute, { method, headers, body, redirect: 'manual' });
+  const responseHeaders: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    responseHeaders[key] = value;
+  });
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+    body: new Uint8Array(await response.arrayBuffer()),
+  };
+}
+
+function formatHead(response: VirtualHttpResponse): string {
+  const lines = [`HTTP/1.1 ${response.status} ${response.statusText}`.trimEnd()];
+  for (const [key, value] of Object.entries(response.headers)) {
+    lines.push(`${key}: ${value}`);
+  }
+  return `${lines.join('\r\n')}\r\n\r\n`;
+}
+
+/**
+ * Run curl with the given arguments and return its exit code
+ */
+export async function runCurl(args: string[], out: CurlOutput): Promise<number> {
+  let options: CurlOptions;
+  try {
+    options = parseCurlArgs(args);
+  } catch (e) {
+    out.stderr(`${(e as Error).message}\n`);
+    return EXIT_USAGE;
+  }
+
+  let url = options.url;
+  let method = options.method;
+  let data = options.data;
+  let response: VirtualHttpResponse;
+  for (let redirects = 0; ; redirects++) {
+    try {
+      response = await request(url, method, options.headers, data);
+    } catch (e) {
+      const err = e as Error & { code?: string; port?: number };
+      if (!options.silent) {
+        const reason =
+          err.code === 'ECONNREFUSED'
+            ? `Failed to connect to localhost port ${err.port}: Connection refused`
+            : `Failed to connect: ${err.message}`;
+        out.stderr(`curl: (${EXIT_COULDNT_CONNECT}) ${reason}\n`);
+      }
+      return EXIT_COULDNT_CONNECT;
+    }
+
+    const location = response.headers.location;
+    if (!options.location || !location || response.status < 300 || response.status >= 400) break;
+    if (redirects >= MAX_REDIRECTS) {
+      if (!options.silent) {
+        out.stderr(
+          `curl: (${EXIT_TOO_MANY_REDIRECTS}) Maximum (${MAX_REDIRECTS}) redirects followed\n`
+        );
+      }
+      return EXIT_TOO_MANY_REDIRECTS;
+    }
+    if (options.include) out.stdout(formatHead(response));
+    url = new URL(location, /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`).href;
+    // 303 (and 301/302 for POST, like browsers) switch to GET
+    if (response.status === 303 || (method === 'POST' && response.status <= 302)) {
+      method = 'GET';
+      data = undefined;
+    }
+  }
+
+  if (options.include || options.head) out.stdout(formatHead(response));
+  if (!options.head && response.body.length > 0) {
+    out.stdout(new TextDecoder().decode(response.body));
+  }
+  return 0;
+}
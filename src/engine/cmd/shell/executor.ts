@@ -5,11 +5,14 @@
  * without unnecessary provider abstraction layer.
  */
 
+import type { Readable } from 'node:stream';
+
 import adaptBuiltins, { type StreamCtx } from './builtins';
 import { expandTokens } from './expansion';
+import { Job, type JobControl, JobTable } from './jobs';
 import { parseCommandLine } from './parser';
 import { Process } from './process';
-import { runScript } from './scriptRunner';
+import { type ScriptShell, runScript } from './scriptRunner';
 import { type Segment, type TokenObj, isDevNull } from './types';
 
 import type TerminalUI from '@/engine/cmd/terminalUI';
@@ -51,6 +54,22 @@ export interface OutputCallbacks {
   stderr?: (data: string) => void;
 }
 
+/**
+ * Options for a single command line execution
+ */
+interface ExecuteOptions {
+  // interactive (top-level) command line: tracks the foreground job for Ctrl+C / Ctrl+Z
+  // and reports background jobs
+  jobControl: boolean;
+  // process of the script running this line; its signals / stop / continue are forwarded
+  parent?: Process;
+  // stdin of the whole line (e.g. a child_process); read by the first process of each foreground pipeline
+  stdin?: Readable;
+}
+
+// exit status of a pipeline stopped with Ctrl+Z (128 + SIGTSTP)
+const STOPPED_EXIT_CODE = 148;
+
 /**
  * Execution Context - simplified version without provider overhead
  */
@@ -74,8 +93,9 @@ export class ShellExecutor {
   private fileRepository: typeof FileRepository | undefined;
   private commandRegistry: any;
   private terminalUI?: TerminalUI;
-  private foregroundProc: Process | null = null;
+  private foregroundJob: Job | null = null;
   private builtins: Record<string, any> | null = null;
+  private jobs = new JobTable();
 
   constructor(options: ShellExecutorOptions) {
     this.context = {
@@ -118,7 +138,11 @@ export class ShellExecutor {
   private async getBuiltins(): Promise<Record<string, any>> {
     if (this.builtins) return this.builtins;
     const unix = await this.getUnix();
-    this.builtins = adaptBuiltins(unix);
+    const jobControl: JobControl = {
+      table: this.jobs,
+      foreground: job => this.foreground(job),
+    };
+    this.builtins = adaptBuiltins(unix, jobControl);
     return this.builtins;
   }
 
@@ -169,11 +193,28 @@ export class ShellExecutor {
   /**
    * Run a command line
    */
-  async run(line: string, callbacks?: OutputCallbacks): Promise<ShellRunResult> {
-    // Parse command line
+  async run(line: string, callbacks?: OutputCallbacks, stdin?: Readable): Promise<ShellRunResult> {
+    return this.execute(line, callbacks, { jobControl: true, stdin });
+  }
+
+  /**
+   * Execute a command line (also used for scripts, aliases and command substitutions)
+   */
+  private async execute(
+    line: string,
+    callbacks: OutputCallbacks | undefined,
+    options: ExecuteOptions
+  ): Promise<ShellRunResult> {
+    // Parse command line against this session's env over process.env
+    // ($! expands to the pid of the last background job)
     let segments: Segment[];
     try {
-      segments = parseCommandLine(line) as Segment[];
+      const env: Record<string, string> = {
+        ...(process.env as Record<string, string>),
+        ...this.context.env,
+      };
+      if (this.jobs.lastBackgroundPid !== null) env['!'] = String(this.jobs.lastBackgroundPid);
+      segments = parseCommandLine(line, env) as Segment[];
     } catch (parseErr: any) {
       const msg = String(parseErr?.message || parseErr);
       return { stdout: '', stderr: `Parse error: ${msg}\n`, code: 2 };
@@ -230,24 +271,56 @@ export class ShellExecutor {
       }
 
       // Watch output from last process
+      // (background jobs keep their own buffers: their output is not part of this result)
       const lastProc = procs[procs.length - 1];
       const lastSegOfGroup = group.segs[group.segs.length - 1];
-      this.watchProcessOutput(lastProc, lastSegOfGroup, fdBuffers, callbacks);
-
-      // Set foreground process
-      if (gi === groups.length - 1 && !lastSegOfGroup.background) {
-        this.foregroundProc = lastProc;
-        lastProc.on('exit', () => {
-          if (this.foregroundProc?.pid === lastProc.pid) {
-            this.foregroundProc = null;
-          }
-        });
+      const groupBuffers: Record<number, string[]> = lastSegOfGroup.background
+        ? { 1: [], 2: [] }
+        : fdBuffers;
+      this.watchProcessOutput(lastProc, lastSegOfGroup, groupBuffers, callbacks);
+
+      const job = new Job(
+        this.describePipeline(group.segs, groups.length === 1 ? line : null),
+        procs
+      );
+
+      // cmd & -> register as a background job and continue without waiting
+      if (lastSegOfGroup.background) {
+        this.jobs.add(job, { background: true, notify: options.jobControl });
+        if (options.jobControl) {
+          callbacks?.stdout?.(`[${job.id}] ${job.pid}\n`);
+        }
+        this.redirectWhenDone(job, lastSegOfGroup, groupBuffers);
+        lastExitCode = 0;
+        continue;
       }
 
-      // Wait for all processes to complete
-      const exits = await Promise.all(procs.map(p => p.wait()));
-      const exitOfLast = exits[exits.length - 1]?.code ?? 0;
-      lastExitCode = exitOfLast;
+      const disconnectStdin = options.stdin
+        ? this.connectStdin(options.stdin, procs[0], group.segs[0])
+        : null;
+
+      // Wait for all processes to complete (or, for the interactive foreground job, until stopped)
+      let exitCode: number | null;
+      if (options.jobControl) {
+        const previous = this.foregroundJob;
+        this.foregroundJob = job;
+        exitCode = await this.waitForeground(job);
+        this.foregroundJob = previous;
+      } else {
+        const unlink = options.parent ? this.linkToParent(job, options.parent) : null;
+        exitCode = await job.done;
+        unlink?.();
+      }
+      disconnectStdin?.();
+
+      // Ctrl+Z: the job moves to the job table and the rest of the line is abandoned
+      if (exitCode === null) {
+        this.jobs.add(job, { background: false, notify: true });
+        callbacks?.stdout?.(`${this.jobs.format(job)}\n`);
+        this.redirectWhenDone(job, lastSegOfGroup, fdBuffers);
+        return { stdout: '', stderr: '', code: STOPPED_EXIT_CODE };
+      }
+      lastExitCode = exitCode;
       overallLastSeg = lastSegOfGroup;
     }
 
@@ -271,6 +344,87 @@ export class ShellExecutor {
     };
   }
 
+  /**
+   * Command text of a pipeline as shown by `jobs`
+   */
+  private describePipeline(segs: Segment[], line: string | null): string {
+    if (line !== null) return line.trim().replace(/\s*&$/, '');
+    return segs
+      .map(seg => seg.tokens.map(t => (typeof t === 'string' ? t : t.text)).join(' '))
+      .join(' | ');
+  }
+
+  /**
+   * Wait for the foreground job; resolves null when it is stopped (Ctrl+Z)
+   */
+  private waitForeground(job: Job): Promise<number | null> {
+    return new Promise(resolve => {
+      const onStop = () => resolve(null);
+      job.once('stop', onStop);
+      job.done.then(code => {
+        job.off('stop', onStop);
+        resolve(code);
+      });
+    });
+  }
+
+  /**
+   * Forward signals and stop / continue of a script process to a job it started
+   */
+  private linkToParent(job: Job, parent: Process): () => void {
+    const onSignal = (sig: string) => job.kill(sig);
+    const onStop = () => job.stop();
+    const onContinue = () => job.resume();
+    parent.on('signal', onSignal);
+    parent.on('stop', onStop);
+    parent.on('continue', onContinue);
+    if (parent.isStopped) job.stop();
+    return () => {
+      parent.off('signal', onSignal);
+      parent.off('stop', onStop);
+      parent.off('continue', onContinue);
+    };
+  }
+
+  /**
+   * Feed the stdin of the command line to the first process of a pipeline (unless it redirects stdin)
+   * @returns function that disconnects it again when the pipeline is done
+   */
+  private connectStdin(stdin: Readable, proc: Process, seg: Segment): (() => void) | null {
+    if (seg.hereDoc != null || seg.stdinFile) return null;
+    if (stdin.readableEnded) {
+      proc.stdinStream.end();
+      return null;
+    }
+    stdin.pipe(proc.stdinStream);
+    return () => stdin.unpipe(proc.stdinStream);
+  }
+
+  /**
+   * Write the redirections of a job that finishes after the command line returned
+   */
+  private redirectWhenDone(job: Job, seg: Segment, buffers: Record<number, string[]>): void {
+    job.done.then(async () => {
+      if (!this.fileRepository) return;
+      await this.handleRedirections(seg, buffers, buffers[1].join(''), buffers[2].join(''));
+    });
+  }
+
+  /**
+   * Bring a job to the foreground (fg) and wait for it
+   * @returns exit code, or null when the job was stopped again
+   */
+  async foreground(job: Job): Promise<number | null> {
+    const previous = this.foregroundJob;
+    this.foregroundJob = job;
+    this.jobs.touch(job);
+    job.resume();
+    const code = await this.waitForeground(job);
+    this.foregroundJob = previous;
+    if (code !== null) this.jobs.remove(job);
+    return code;
+  }
+
   /**
    * Create a process for a single command segment
    */
@@ -295,7 +449,7 @@ export class ShellExecutor {
       for (const tk of seg.tokens) {
         if (typeof tk !== 'string' && tk.cmdSub) {
           try {
-            const subRes = await this.run(tk.cmdSub);
+            const subRes = await this.execute(tk.cmdSub, undefined, { jobControl: false });
             const rawOut = String(subRes.stdout || '');
             const normalized = rawOut.replace(/\r?\n/g, ' ').replace(/\s+$/g, '');
             withCmdSub.push({
@@ -323,8 +477,11 @@ export class ShellExecutor {
     });
     (seg as any).tokens = finalWords;
 
-    // Handle stdin redirection
-    if (seg.stdinFile && unix) {
+    // Handle here-document / here-string (<<EOF, <<<word)
+    if (seg.hereDoc != null) {
+      proc.stdin.write(seg.hereDoc);
+      proc.stdin.end();
+    } else if (seg.stdinFile && unix) {
       if (isDevNull(seg.stdinFile)) {
         proc.stdin.end();
       } else {
@@ -369,12 +526,13 @@ export class ShellExecutor {
     const cmd = String(rawTokens[0] ?? '');
     const args = rawTokens.slice(1).map(t => String(t));
 
-    // 'npx' is handled by npm handler now; let executeCommand route it
-
     // Check for alias expansion
     if (this.context.aliases[cmd]) {
       const expandedLine = `${this.context.aliases[cmd]} ${args.join(' ')}`;
-      const result = await this.run(expandedLine);
+      const result = await this.execute(expandedLine, undefined, {
+        jobControl: false,
+        parent: proc,
+      });
       proc.writeStdout(result.stdout);
       proc.writeStderr(result.stderr);
       proc.endStdout();
@@ -420,10 +578,12 @@ export class ShellExecutor {
 
             // Otherwise treat as a shell script
             const scriptArgs = [cmd, ...args];
+            let scriptCode = 0;
             try {
-              await runScript(text, scriptArgs, proc, this as any);
+              scriptCode = await runScript(text, scriptArgs, proc, this.scriptShell(proc));
             } catch (e: any) {
               proc.writeStderr(e?.message ?? String(e));
+              scriptCode = 1;
             }
 
             // Restore parent context CWD after script completes
@@ -431,7 +591,7 @@ export class ShellExecutor {
 
             proc.endStdout();
             proc.endStderr();
-            proc.exit(0);
+            proc.exit(scriptCode);
             return;
           }
         }
@@ -459,7 +619,12 @@ export class ShellExecutor {
         const savedCwd = unix ? await this.saveCwd(unix) : null;
 
         // Run script in isolated context
-        await runScript(String(content), args, proc, this as any).catch(() => {});
+        const scriptCode = await runScript(
+          String(content),
+          args,
+          proc,
+          this.scriptShell(proc)
+        ).catch(() => 1);
 
         // Restore parent context CWD after script completes
         if (unix) {
@@ -468,7 +633,7 @@ export class ShellExecutor {
 
         proc.endStdout();
         proc.endStderr();
-        proc.exit(0);
+        proc.exit(scriptCode);
         return;
       }
 
@@ -517,7 +682,16 @@ export class ShellExecutor {
     if (cmd === 'git') {
       try {
         const { handleGitCommand } = await import('../handlers/gitHandler');
-        await handleGitCommand(args, this.context.projectName, this.context.projectId, writeOutput);
+        await handleGitCommand(
+          args,
+          this.context.projectName,
+          this.context.projectId,
+          writeOutput,
+          {
+            stdin: proc.stdinStream,
+            write: text => proc.writeStdout(text),
+          }
+        );
         return 0;
       } catch (e: any) {
         await writeError(`git: ${e.message}`);
@@ -525,37 +699,38 @@ export class ShellExecutor {
       }
     }
 
-    // 2. NPM command
-    if (cmd === 'npm') {
+    // 2. npx / npm exec - run a package bin (installed on demand) in NodeRuntime
+    if (cmd === 'npx' || (cmd === 'npm' && args[0] === 'exec')) {
+      const name = cmd === 'npx' ? 'npx' : 'npm exec';
       try {
-        const { handleNPMCommand } = await import('../handlers/npmHandler');
-        await handleNPMCommand(
-          args,
+        const { resolveExecTarget } = await import('../handlers/npmHandler');
+        const target = await resolveExecTarget(
+          cmd === 'npx' ? args : args.slice(1),
           this.context.projectName,
           this.context.projectId,
-          writeOutput,
-          () => {} // setLoading - no-op in shell context
+          writeError
         );
-        return 0;
+        return await this.executeCommand('node', [target.entryPath, ...target.args], proc);
       } catch (e: any) {
-        await writeError(`npm: ${e.message}`);
+        await writeError(`${name}: ${e.message}`);
         return 1;
       }
     }
 
-    // 2b. NPX command - delegate to npm handler
-    if (cmd === 'npx') {
+    // 2b. NPM command
+    if (cmd === 'npm') {
       try {
-        const { handleNPXCommand } = await import('../handlers/npmHandler');
-        const code = await handleNPXCommand(
+        const { handleNPMCommand } = await import('../handlers/npmHandler');
+        await handleNPMCommand(
           args,
           this.context.projectName,
           this.context.projectId,
-          writeOutput
+          writeOutput,
+          () => {} // setLoading - no-op in shell context
         );
-        return typeof code === 'number' ? code : 0;
+        return 0;
       } catch (e: any) {
-        await writeError(`npx: ${e.message}`);
+        await writeError(`npm: ${e.message}`);
         return 1;
       }
     }
@@ -644,6 +819,8 @@ export class ShellExecutor {
         stdout: proc.stdoutStream,
         stderr: proc.stderrStream,
         onSignal: fn => proc.on('signal', fn),
+        onStop: fn => proc.on('stop', fn),
+        onContinue: fn => proc.on('continue', fn),
         projectName: this.context.projectName,
         projectId: this.context.projectId,
         terminalColumns: this.context.terminalColumns,
@@ -661,7 +838,18 @@ export class ShellExecutor {
       }
     }
 
-    // 7. Command not found
+    // 7. Package bins (node_modules/.bin is on PATH, as in `npm run`)
+    const { resolveBin } = await import('../global/npmOperations/npmBin');
+    const binPath = await resolveBin(this.context.projectId, cmd).catch(() => null);
+    if (binPath) {
+      return this.executeCommand(
+        'node',
+        [toFSPath(this.context.projectName, binPath), ...args],
+        proc
+      );
+    }
+
+    // 8. Command not found
     proc.writeStderr(`${cmd}: command not found\n`);
     return 127;
   }
@@ -680,6 +868,10 @@ export class ShellExecutor {
       if ((seg as any).logicalOp) {
         groups.push({ segs: currentGroup, opAfter: (seg as any).logicalOp });
         currentGroup = [];
+      } else if (seg.background) {
+        // `a & b` - the background pipeline ends here
+        groups.push({ segs: currentGroup });
+        currentGroup = [];
       }
     }
 
@@ -860,17 +1052,76 @@ export class ShellExecutor {
     return false;
   }
 
+  /**
+   * Shell used by scripts run in a process: commands are non-interactive and follow the
+   * script process (Ctrl+C / Ctrl+Z of the script also reach the command it is running)
+   */
+  private scriptShell(proc: Process): ScriptShell {
+    return {
+      run: (line, callbacks) => this.execute(line, callbacks, { jobControl: false, parent: proc }),
+    };
+  }
+
   /**
    * Kill the foreground process
    */
   killForeground(signal = 'SIGINT'): void {
     try {
-      if (this.foregroundProc) {
-        this.foregroundProc.kill(signal);
+      if (this.foregroundJob) {
+        this.foregroundJob.kill(signal);
       }
     } catch {}
   }
 
+  /**
+   * Write terminal input to the stdin of the foreground job (its first process)
+   * @returns false if there is no foreground job reading stdin
+   */
+  writeForegroundStdin(data: string): boolean {
+    const stdin = this.foregroundJob?.procs[0]?.stdinStream;
+    if (!stdin || stdin.writableEnded || this.foregroundJob?.state !== 'running') return false;
+    stdin.write(data);
+    return true;
+  }
+
+  /**
+   * End the stdin of the foreground job (Ctrl+D)
+   * @returns false if there is no foreground job reading stdin
+   */
+  endForegroundStdin(): boolean {
+    const stdin = this.foregroundJob?.procs[0]?.stdinStream;
+    if (!stdin || stdin.writableEnded || this.foregroundJob?.state !== 'running') return false;
+    stdin.end();
+    return true;
+  }
+
+  /**
+   * Stop the foreground job (Ctrl+Z)
+   * @returns false if there is no foreground job
+   */
+  suspendForeground(): boolean {
+    if (!this.foregroundJob || this.foregroundJob.state !== 'running') return false;
+    this.foregroundJob.stop();
+    return true;
+  }
+
+  /**
+   * "Done" lines of background jobs that finished since the last call
+   */
+  takeJobNotifications(): string[] {
+    return this.jobs.takeNotifications();
+  }
+
+  /**
+   * Send SIGHUP to the foreground job and every job in the table (terminal closed)
+   */
+  hangup(): void {
+    this.killForeground('SIGHUP');
+    for (const job of this.jobs.list()) {
+      job.kill('SIGHUP');
+    }
+  }
+
   /**
    * Set an alias
    */
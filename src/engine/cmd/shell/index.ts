@@ -28,7 +28,8 @@
  * - Redirections (>, >>, <, 2>&1, /dev/null)
  * - Command substitution ($(cmd), `cmd`)
  * - Brace/glob expansion
- * - Control flow (if/for/while)
+ * - Control flow (if/for/while/case, functions)
+ * - Job control (cmd &, jobs, fg, bg, wait, kill, Ctrl+Z)
  *
  * Files:
  * ======
@@ -40,6 +41,7 @@
  * - builtins.ts           - Builtin command implementations
  * - process.ts            - Process abstraction with streams
  * - scriptRunner.ts       - Shell script execution
+ * - jobs.ts               - Job table for background / stopped jobs
  * - braceExpand.ts        - Brace expansion utility
  * - types.ts              - Shared type definitions
  */
@@ -56,6 +58,9 @@ export {
 // Parser
 export { parseCommandLine } from './parser';
 
+// Job control
+export { Job, JobTable, type JobControl, type JobState } from './jobs';
+
 // Types
 export {
   isDevNull,
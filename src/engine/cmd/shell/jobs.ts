@@ -0,0 +1,213 @@
+import EventEmitter from 'node:events';
+
+import type { Process } from './process';
+
+/**
+ * Job control - job table for background / stopped pipelines
+ *
+ * A job is one pipeline (the processes of a single `a | b | c` group).
+ * Foreground jobs are only entered into the table once they are stopped (Ctrl+Z);
+ * `cmd &` enters the job immediately. Finished jobs of an interactive shell stay in
+ * the table until their "Done" line has been reported (before the next prompt or by `jobs`).
+ */
+
+export type JobState = 'running' | 'stopped' | 'done';
+
+// Signal numbers used for exit statuses (128 + n) and `kill -n`
+export const SIGNALS: Record<string, number> = {
+  SIGHUP: 1,
+  SIGINT: 2,
+  SIGKILL: 9,
+  SIGTERM: 15,
+  SIGCONT: 18,
+  SIGSTOP: 19,
+  SIGTSTP: 20,
+};
+
+// Status text shown by `jobs` for jobs killed by a signal
+const SIGNAL_DESCRIPTIONS: Record<string, string> = {
+  SIGHUP: 'Hangup',
+  SIGINT: 'Interrupt',
+  SIGKILL: 'Killed',
+  SIGTERM: 'Terminated',
+};
+
+/**
+ * Normalize a signal name or number (INT, SIGINT, 2) to its SIG* name
+ */
+export function normalizeSignal(sig: string): string | null {
+  if (/^\d+$/.test(sig)) {
+    const entry = Object.entries(SIGNALS).find(([, n]) => n === Number(sig));
+    return entry ? entry[0] : null;
+  }
+  const name = sig.toUpperCase().startsWith('SIG') ? sig.toUpperCase() : `SIG${sig.toUpperCase()}`;
+  return name in SIGNALS ? name : null;
+}
+
+/**
+ * Job - a pipeline that can be stopped, resumed and waited for
+ * Emits 'stop', 'continue' and 'exit' (code)
+ */
+export class Job extends EventEmitter {
+  public id = 0;
+  public state: JobState = 'running';
+  public exitCode: number | null = null;
+  public signal: string | null = null;
+  // report the "Done" line when the job finishes (interactive shells only)
+  public notify = false;
+  public readonly command: string;
+  public readonly procs: Process[];
+  public readonly done: Promise<number>;
+
+  constructor(command: string, procs: Process[]) {
+    super();
+    this.command = command;
+    this.procs = procs;
+    this.done = Promise.all(procs.map(p => p.wait())).then(exits => {
+      const last = exits[exits.length - 1];
+      this.signal = last?.signal ?? null;
+      // killed by a signal -> 128 + signal number (like POSIX shells)
+      this.exitCode =
+        last?.code ?? (this.signal ? 128 + (SIGNALS[this.signal] ?? SIGNALS.SIGINT) : 0);
+      this.state = 'done';
+      this.emit('exit', this.exitCode);
+      return this.exitCode;
+    });
+  }
+
+  /** pid of the last process in the pipeline ($!) */
+  get pid(): number {
+    return this.procs[this.procs.length - 1]?.pid ?? 0;
+  }
+
+  stop(): void {
+    if (this.state !== 'running') return;
+    this.state = 'stopped';
+    for (const p of this.procs) p.stop();
+    this.emit('stop');
+  }
+
+  resume(): void {
+    if (this.state !== 'stopped') return;
+    this.state = 'running';
+    for (const p of this.procs) p.cont();
+    this.emit('continue');
+  }
+
+  kill(signal = 'SIGTERM'): void {
+    if (this.state === 'done') return;
+    for (const p of this.procs) p.kill(signal);
+  }
+
+  /** Status column of `jobs` (Running / Stopped / Done / Exit n / Terminated ...) */
+  get statusText(): string {
+    if (this.state === 'running') return 'Running';
+    if (this.state === 'stopped') return 'Stopped';
+    if (this.signal) return SIGNAL_DESCRIPTIONS[this.signal] ?? this.signal;
+    return this.exitCode ? `Exit ${this.exitCode}` : 'Done';
+  }
+}
+
+/**
+ * Operations the job control builtins (jobs/fg/bg/wait/kill) need from the shell
+ */
+export interface JobControl {
+  table: JobTable;
+  /** Move a job to the foreground and wait for it; null when it was stopped again */
+  foreground(job: Job): Promise<number | null>;
+}
+
+/**
+ * JobTable - the jobs of one shell, addressed by %n job specs
+ */
+export class JobTable {
+  private jobs = new Map<number, Job>();
+  // most recent jobs last; the last one is the current job (%+), the one before it %-
+  private order: number[] = [];
+  /** pid of the most recent background job ($!) */
+  public lastBackgroundPid: number | null = null;
+
+  /**
+   * Enter a job into the table and return its id
+   * @param background - started with `&` (sets $!)
+   */
+  add(job: Job, options: { background: boolean; notify: boolean }): number {
+    if (job.id === 0) {
+      job.id = Math.max(0, ...this.jobs.keys()) + 1;
+      this.jobs.set(job.id, job);
+      job.done.then(() => {
+        // non-interactive shells forget finished jobs right away
+        if (!job.notify) this.remove(job);
+      });
+    }
+    job.notify = options.notify;
+    this.touch(job);
+    if (options.background) this.lastBackgroundPid = job.pid;
+    return job.id;
+  }
+
+  remove(job: Job): void {
+    this.jobs.delete(job.id);
+    this.order = this.order.filter(id => id !== job.id);
+  }
+
+  /** Make a job the current job (%+) */
+  touch(job: Job): void {
+    this.order = this.order.filter(id => id !== job.id);
+    this.order.push(job.id);
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()].sort((a, b) => a.id - b.id);
+  }
+
+  get current(): Job | null {
+    return this.jobs.get(this.order[this.order.length - 1]) ?? null;
+  }
+
+  get previous(): Job | null {
+    return this.jobs.get(this.order[this.order.length - 2]) ?? null;
+  }
+
+  /**
+   * Resolve a job spec: %n, %%, %+, %-, %prefix, %?substring, or a pid
+   */
+  resolve(spec?: string): Job | null {
+    if (spec === undefined || spec === '%' || spec === '%%' || spec === '%+') return this.current;
+    if (spec === '%-') return this.previous;
+    if (/^\d+$/.test(spec)) {
+      return this.list().find(job => job.procs.some(p => p.pid === Number(spec))) ?? null;
+    }
+    if (!spec.startsWith('%')) return null;
+    const body = spec.slice(1);
+    if (/^\d+$/.test(body)) return this.jobs.get(Number(body)) ?? null;
+    const matches = this.list().filter(job =>
+      body.startsWith('?') ? job.command.includes(body.slice(1)) : job.command.startsWith(body)
+    );
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * Format a job like bash: "[1]+  Running                 sleep 10 &"
+   */
+  format(job: Job, options: { pid?: boolean } = {}): string {
+    const mark = job === this.current ? '+' : job === this.previous ? '-' : ' ';
+    const pid = options.pid ? `${job.pid} ` : '';
+    const suffix = job.state === 'running' ? ' &' : '';
+    return `[${job.id}]${mark}  ${pid}${job.statusText.padEnd(24)}${job.command}${suffix}`;
+  }
+
+  /**
+   * Lines for jobs that finished since the last call ("[1]+  Done  cmd"); reported jobs are removed
+   */
+  takeNotifications(): string[] {
+    const lines: string[] = [];
+    for (const job of this.list()) {
+      if (job.state === 'done' && job.notify) {
+        lines.push(this.format(job));
+        this.remove(job);
+      }
+    }
+    return lines;
+  }
+}
@@ -24,8 +24,126 @@ export type Segment = {
   fdFiles?: Record<number, { path: string; append: boolean }>;
   append?: boolean;
   background?: boolean;
+  // here-document / here-string の内容（stdin に渡す）
+  hereDoc?: string | null;
 };
 
+export type HereDocOperator = {
+  delimiter: string;
+  // デリミタがクォートされている場合は本文を展開しない（<<'EOF'）
+  quoted: boolean;
+  // <<- の場合は本文とデリミタ行の先頭のタブを取り除く
+  stripTabs: boolean;
+  start: number;
+  end: number;
+};
+
+// Find here-document operators (<<WORD, <<-WORD, <<'WORD') in a single command line.
+// Operators inside quotes, $(...) / $((...)) and here-strings (<<<) are ignored.
+export function scanHereDocOperators(line: string): HereDocOperator[] {
+  const ops: HereDocOperator[] = [];
+  let inSingle = false;
+  let inDouble = false;
+  let parenDepth = 0;
+  let i = 0;
+  while (i < line.length) {
+    const ch = line[i];
+    if (ch === '\\' && !inSingle) {
+      i += 2;
+      continue;
+    }
+    if (ch === "'" && !inDouble) inSingle = !inSingle;
+    else if (ch === '"' && !inSingle) inDouble = !inDouble;
+    else if (!inSingle && !inDouble) {
+      if (ch === '$' && line[i + 1] === '(') {
+        parenDepth++;
+        i += 2;
+        continue;
+      }
+      if (ch === '(' && parenDepth > 0) parenDepth++;
+      if (ch === ')' && parenDepth > 0) parenDepth--;
+      if (ch === '<' && line[i + 1] === '<' && parenDepth === 0) {
+        if (line[i + 2] === '<') {
+          i += 3;
+          continue;
+        }
+        const start = i;
+        let j = i + 2;
+        const stripTabs = line[j] === '-';
+        if (stripTabs) j++;
+        while (line[j] === ' ' || line[j] === '\t') j++;
+        let delimiter = '';
+        let quoted = false;
+        let quote: string | null = null;
+        while (j < line.length) {
+          const c = line[j];
+          if (quote) {
+            if (c === quote) quote = null;
+            else delimiter += c;
+          } else if (c === "'" || c === '"') {
+            quote = c;
+            quoted = true;
+          } else if (c === '\\') {
+            quoted = true;
+            if (j + 1 < line.length) delimiter += line[++j];
+          } else if (/[\s;&|<>()]/.test(c)) {
+            break;
+          } else {
+            delimiter += c;
+          }
+          j++;
+        }
+        if (delimiter) {
+          ops.push({ delimiter, quoted, stripTabs, start, end: j });
+        }
+        i = j;
+        continue;
+      }
+    }
+    i++;
+  }
+  return ops;
+}
+
+// Split a here-document command ("cat <<EOF\nbody\nEOF") into the command line, with each
+// operator replaced by a placeholder, and the bodies keyed by placeholder.
+function extractHereDocs(line: string): {
+  line: string;
+  map: Record<string, { body: string; quoted: boolean }>;
+} {
+  const map: Record<string, { body: string; quoted: boolean }> = {};
+  const newline = line.indexOf('\n');
+  const head = newline === -1 ? line : line.slice(0, newline);
+  const ops = scanHereDocOperators(head);
+  if (ops.length === 0) return { line, map };
+
+  const bodyLines = newline === -1 ? [] : line.slice(newline + 1).split('\n');
+  let cursor = 0;
+  let out = head;
+  const keys: string[] = [];
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k];
+    const collected: string[] = [];
+    while (cursor < bodyLines.length) {
+      const bodyLine = op.stripTabs ? bodyLines[cursor].replace(/^\t+/, '') : bodyLines[cursor];
+      cursor++;
+      if (bodyLine === op.delimiter) break;
+      collected.push(bodyLine);
+    }
+    const key = `__HEREDOC_${k}__`;
+    keys.push(key);
+    map[key] = {
+      body: collected.length > 0 ? `${collected.join('\n')}\n` : '',
+      quoted: op.quoted,
+    };
+  }
+  // replace from the end so earlier offsets stay valid
+  for (let k = ops.length - 1; k >= 0; k--) {
+    out = `${out.slice(0, ops[k].start)}<< ${keys[k]}${out.slice(ops[k].end)}`;
+  }
+  return { line: out, map };
+}
+
 // Extract command-substitution segments and replace them with placeholders so
 // our tokenizer can safely treat them as words. Supports backticks and $(...).
 function extractCommandSubstitutions(line: string): {
@@ -149,20 +267,21 @@ function extractCommandSubstitutions(line: string): {
 }
 
 // Variable expansion similar to previous implementation (respect single quotes)
-function expandVariables(input: string, env: Record<string, string>): string {
+// Here-document bodies are expanded with respectQuotes=false (quotes are literal there)
+function expandVariables(input: string, env: Record<string, string>, respectQuotes = true): string {
   let out = '';
   let i = 0;
   let inSingle = false;
   let inDouble = false;
   while (i < input.length) {
     const ch = input[i];
-    if (ch === "'" && !inDouble) {
+    if (respectQuotes && ch === "'" && !inDouble) {
       inSingle = !inSingle;
       out += ch;
       i++;
       continue;
     }
-    if (ch === '"' && !inSingle) {
+    if (respectQuotes && ch === '"' && !inSingle) {
       inDouble = !inDouble;
       out += ch;
       i++;
@@ -178,6 +297,12 @@ function expandVariables(input: string, env: Record<string, string>): string {
         i = j;
         continue;
       }
+      // special parameter $! (pid of the last background job)
+      if (input[i + 1] === '!') {
+        out += env['!'] ?? '';
+        i += 2;
+        continue;
+      }
       let j = i + 1;
       let name = '';
       while (j < input.length && /[A-Za-z0-9_]/.test(input[j])) name += input[j++];
@@ -198,20 +323,20 @@ function expandVariables(input: string, env: Record<string, string>): string {
 
 // Expand arithmetic expressions of the form $(( ... )) outside single quotes.
 // Only allow digits, whitespace and the operators + - * / % and parentheses for safety.
-function expandArithmetic(input: string): string {
+function expandArithmetic(input: string, respectQuotes = true): string {
   let out = '';
   let i = 0;
   let inSingle = false;
   let inDouble = false;
   while (i < input.length) {
     const ch = input[i];
-    if (ch === "'" && !inDouble) {
+    if (respectQuotes && ch === "'" && !inDouble) {
       inSingle = !inSingle;
       out += ch;
       i++;
       continue;
     }
-    if (ch === '"' && !inSingle) {
+    if (respectQuotes && ch === '"' && !inSingle) {
       inDouble = !inDouble;
       out += ch;
       i++;
@@ -308,6 +433,16 @@ function tokenizeLine(line: string): Array<string | { op: string }> {
     }
     if (!inSingle && !inDouble) {
       // check multi-char operators first
+      if (ch === '<' && line[i + 1] === '<') {
+        if (cur !== '') {
+          tokens.push(cur);
+          cur = '';
+        }
+        const isHereString = line[i + 2] === '<';
+        tokens.push({ op: isHereString ? '<<<' : '<<' });
+        i += isHereString ? 3 : 2;
+        continue;
+      }
       if (ch === '>' && line[i + 1] === '>') {
         if (cur !== '') {
           tokens.push(cur);
@@ -365,7 +500,9 @@ export function parseCommandLine(
   line: string,
   env: Record<string, string> = process.env as any
 ): Segment[] {
-  const extracted = extractCommandSubstitutions(line);
+  // here-documents must be split off first: their bodies are not tokenized
+  const hereDocs = extractHereDocs(line);
+  const extracted = extractCommandSubstitutions(hereDocs.line);
   const expanded = expandVariables(extracted.line, env);
   // expand arithmetic $(( ... )) before tokenizing (but respect single quotes)
   const arithmeticExpanded = expandArithmetic(expanded);
@@ -382,7 +519,7 @@ export function parseCommandLine(
   };
 
   const pushCur = () => {
-    if (cur.tokens.length > 0 || cur.stdinFile || cur.stdoutFile) {
+    if (cur.tokens.length > 0 || cur.stdinFile || cur.stdoutFile || cur.hereDoc != null) {
       cur.raw = cur.tokens.map(t => t.text).join(' ');
       segs.push(cur);
     }
@@ -484,6 +621,25 @@ export function parseCommandLine(
         cur.stdinFile = tkn.text;
         continue;
       }
+      if (op === '<<') {
+        const next = toks[++i];
+        const doc = typeof next === 'string' ? hereDocs.map[next] : undefined;
+        if (!doc) {
+          // <<EOF without a body (e.g. typed interactively) behaves like an empty document
+          cur.hereDoc = '';
+          continue;
+        }
+        cur.hereDoc = doc.quoted
+          ? doc.body
+          : expandArithmetic(expandVariables(doc.body, env, false), false);
+        continue;
+      }
+      if (op === '<<<') {
+        // here-string: the word followed by a newline
+        const next = toks[++i];
+        cur.hereDoc = `${makeTokenFromRaw(next ?? '').text}\n`;
+        continue;
+      }
       if (op === '&') {
         // Support &> redirection (both stdout and stderr to file), e.g. '&> file' or '&>> file'
         const lookahead = toks[i + 1];
@@ -502,8 +658,9 @@ export function parseCommandLine(
           cur.append = outOp.op === '>>';
           continue;
         }
-        // otherwise '&' as background operator
+        // otherwise '&' as background operator; it also ends the pipeline (`a & b`)
         cur.background = true;
+        pushCur();
         continue;
       }
       if (op === ';') {
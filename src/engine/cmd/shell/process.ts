@@ -7,6 +7,9 @@ import { PassThrough, type Readable, type Writable } from 'node:stream';
  */
 export type ProcExit = { code: number | null; signal?: string | null };
 
+// pids are handed out sequentially so they can be used with `kill <pid>`
+let nextPid = 1000;
+
 export class Process extends EventEmitter {
   public stdin: Writable;
   public stdout: Readable;
@@ -18,6 +21,9 @@ export class Process extends EventEmitter {
   private _fdMap: Map<number, PassThrough>;
   public pid: number;
   private exited = false;
+  // job control: a stopped process holds back its output until it is continued
+  private stopped = false;
+  private pausedStreams: PassThrough[] = [];
   private exitPromise: Promise<ProcExit>;
   private resolveExit!: (r: ProcExit) => void;
 
@@ -33,7 +39,7 @@ export class Process extends EventEmitter {
     this.stdin = this._stdin as unknown as Writable;
     this.stdout = this._stdout as unknown as Readable;
     this.stderr = this._stderr as unknown as Readable;
-    this.pid = Math.floor(Math.random() * 1e9);
+    this.pid = nextPid++;
     this.exitPromise = new Promise(resolve => {
       this.resolveExit = resolve;
     });
@@ -135,8 +141,58 @@ export class Process extends EventEmitter {
     return this.exitPromise;
   }
 
+  get hasExited(): boolean {
+    return this.exited;
+  }
+
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Stop the process (SIGTSTP / SIGSTOP): output is buffered until cont() is called
+   */
+  stop() {
+    if (this.exited || this.stopped) return;
+    this.stopped = true;
+    // only pause streams that are already flowing; resuming a stream without
+    // consumers would discard its data
+    this.pausedStreams = [...new Set(this._fdMap.values())].filter(s => s.readableFlowing);
+    for (const s of this.pausedStreams) s.pause();
+    this.emit('stop');
+  }
+
+  /**
+   * Continue a stopped process (SIGCONT)
+   */
+  cont() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    for (const s of this.pausedStreams) s.resume();
+    this.pausedStreams = [];
+    this.emit('continue');
+  }
+
+  /**
+   * Resolve once the process is not stopped (immediately if it is running or has exited)
+   */
+  async waitUntilRunning(): Promise<void> {
+    if (!this.stopped || this.exited) return;
+    await new Promise<void>(resolve => {
+      const done = () => {
+        this.off('continue', done);
+        this.off('exit', done);
+        resolve();
+      };
+      this.on('continue', done);
+      this.on('exit', done);
+    });
+  }
+
   exit(code: number | null = 0, signal: string | null = null) {
     if (this.exited) return;
+    // flush output held back while stopped
+    this.cont();
     this.exited = true;
     // end streams
     try {
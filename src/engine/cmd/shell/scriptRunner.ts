@@ -2,13 +2,38 @@ import type { Process } from './process';
 import type { StreamShell } from './streamShell';
 
 import expandBraces from './braceExpand';
+import { scanHereDocOperators } from './parser';
 
 /**
  * ScriptRunner - Executes shell scripts with control flow support
- * Handles if/elif/else/fi, for loops, while loops, break/continue
+ * Handles if/elif/else/fi, for loops, while loops, case/esac, break/continue,
+ * functions (name() { ... } / function name { ... }) with local/return,
+ * and here-documents (<<EOF / <<-EOF)
  */
 
+/**
+ * The part of the shell a script needs: running one command line
+ */
+export type ScriptShell = Pick<StreamShell, 'run'>;
+
 const MAX_LOOP = 10000;
+// Guard against runaway recursion in script functions
+const MAX_CALL_DEPTH = 256;
+
+/**
+ * State shared by a single script run
+ */
+interface ScriptContext {
+  // function name -> body statements
+  functions: Map<string, string[]>;
+  // values shadowed by `local`, one frame per active function call (restored on return)
+  localFrames: Array<Map<string, string | undefined>>;
+  // exit status of the last command ($?)
+  status: number;
+}
+
+const FUNCTION_HEADER =
+  /^(?:function\s+([A-Za-z_][\w.-]*)\s*(?:\(\s*\))?|([A-Za-z_][\w.-]*)\s*\(\s*\))\s*(\{.*)?$/s;
 
 /**
  * Split the script into physical lines while respecting quotes, backticks and $(...)
@@ -59,6 +84,16 @@ function splitPhysicalLines(src: string): string[] {
         continue;
       }
       if (ch === '\n' && parenDepth === 0) {
+        // here-document bodies belong to the command line that opened them
+        for (const op of scanHereDocOperators(cur)) {
+          while (i < src.length) {
+            const next = src.indexOf('\n', i + 1);
+            const bodyLine = src.slice(i + 1, next === -1 ? src.length : next);
+            cur += `\n${bodyLine}`;
+            i = next === -1 ? src.length : next;
+            if ((op.stripTabs ? bodyLine.replace(/^\t+/, '') : bodyLine) === op.delimiter) break;
+          }
+        }
         out.push(cur);
         cur = '';
         continue;
@@ -121,6 +156,11 @@ function splitTopLevelSemicolons(s: string): string[] {
       if (ch === ';' && parenDepth === 0) {
         out.push(cur);
         cur = '';
+        // `;;` terminates a case clause; keep it as its own statement
+        if (s[i + 1] === ';') {
+          out.push(';;');
+          i++;
+        }
         continue;
       }
     }
@@ -158,7 +198,7 @@ function evalArithmeticInString(s: string, localVars: Record<string, string>): s
 async function evalCommandSubstitutions(
   s: string,
   localVars: Record<string, string>,
-  shell: StreamShell
+  shell: ScriptShell
 ): Promise<string> {
   // handle backticks first (non-nested simple support)
   let out = s;
@@ -218,8 +258,14 @@ async function evalCommandSubstitutions(
 /**
  * Interpolate variables in a line
  */
-function interpolate(line: string, localVars: Record<string, string>, args: string[]): string {
-  // Supports $0 (script name), $1..$9, $@ (all args), and local vars $VAR or ${VAR}
+function interpolate(
+  line: string,
+  localVars: Record<string, string>,
+  args: string[],
+  status = 0
+): string {
+  // Supports $0 (script name), $1..$9, $@ (all args), $# (arg count), $? (last exit status),
+  // and local vars $VAR or ${VAR}
   let out = line;
   // Replace $@ with context-sensitive expansion
   const replaceAt = (s: string) => {
@@ -264,6 +310,9 @@ function interpolate(line: string, localVars: Record<string, string>, args: stri
     return res;
   };
   out = replaceAt(out);
+  // $? -> exit status of the last command, $# -> number of positional args
+  out = out.replace(/\$\?/g, String(status));
+  out = out.replace(/\$#/g, String(Math.max(0, args.length - 1)));
   // $0 -> script name (args[0])
   out = out.replace(/\$0\b/g, args[0] || '');
   // positional $1..$9 -> args[1]..args[9]
@@ -290,10 +339,11 @@ async function evaluateLine(
   lineStr: string,
   localVars: Record<string, string>,
   args: string[],
-  shell: StreamShell
+  shell: ScriptShell,
+  status = 0
 ): Promise<string> {
   // first do variable/positional interpolation
-  const afterInterp = interpolate(lineStr, localVars, args);
+  const afterInterp = interpolate(lineStr, localVars, args, status);
   // then expand command substitutions and nested arithmetic
   const afterCmdSub = await evalCommandSubstitutions(afterInterp, localVars, shell);
   // finally arithmetic expansion
@@ -304,6 +354,290 @@ async function evaluateLine(
   }
 }
 
+/**
+ * Split a string into shell words at unquoted whitespace (quotes are kept)
+ */
+function splitWords(s: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let inS = false;
+  let inD = false;
+  let parenDepth = 0;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '\\' && !inS) {
+      cur += ch;
+      if (i + 1 < s.length) cur += s[++i];
+      continue;
+    }
+    if (ch === "'" && !inD) inS = !inS;
+    else if (ch === '"' && !inS) inD = !inD;
+    else if (!inS && !inD) {
+      if (ch === '$' && s[i + 1] === '(') parenDepth++;
+      else if (ch === ')' && parenDepth > 0) parenDepth--;
+      else if (/\s/.test(ch) && parenDepth === 0) {
+        if (cur !== '') out.push(cur);
+        cur = '';
+        continue;
+      }
+    }
+    cur += ch;
+  }
+  if (cur !== '') out.push(cur);
+  return out;
+}
+
+/**
+ * Remove shell quoting from a word ("a b" -> a b, 'x' -> x, \$ -> $)
+ */
+function unquote(word: string): string {
+  let out = '';
+  let inS = false;
+  let inD = false;
+  for (let i = 0; i < word.length; i++) {
+    const ch = word[i];
+    if (ch === '\\' && !inS && i + 1 < word.length) {
+      out += word[++i];
+      continue;
+    }
+    if (ch === "'" && !inD) {
+      inS = !inS;
+      continue;
+    }
+    if (ch === '"' && !inS) {
+      inD = !inD;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+}
+
+/**
+ * Split a command at top-level && / || (not inside quotes or $(...))
+ */
+function splitAndOr(s: string): Array<{ cmd: string; op: '&&' | '||' | null }> {
+  const out: Array<{ cmd: string; op: '&&' | '||' | null }> = [];
+  let cur = '';
+  let inS = false;
+  let inD = false;
+  let parenDepth = 0;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '\\' && !inS) {
+      cur += ch;
+      if (i + 1 < s.length) cur += s[++i];
+      continue;
+    }
+    if (ch === "'" && !inD) inS = !inS;
+    else if (ch === '"' && !inS) inD = !inD;
+    else if (!inS && !inD) {
+      if (ch === '$' && s[i + 1] === '(') parenDepth++;
+      else if (ch === ')' && parenDepth > 0) parenDepth--;
+      else if (parenDepth === 0 && (s.startsWith('&&', i) || s.startsWith('||', i))) {
+        out.push({ cmd: cur, op: s.slice(i, i + 2) as '&&' | '||' });
+        cur = '';
+        i++;
+        continue;
+      }
+    }
+    cur += ch;
+  }
+  out.push({ cmd: cur, op: null });
+  return out;
+}
+
+/**
+ * Convert a case pattern (glob with *, ?, [...]; quoted parts are literal) to a RegExp
+ */
+function casePatternToRegExp(pattern: string): RegExp {
+  let re = '';
+  let quote: string | null = null;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else re += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === '\\' && i + 1 < pattern.length) {
+      re += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (ch === '*') {
+      re += '.*';
+    } else if (ch === '?') {
+      re += '.';
+    } else if (ch === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        re += '\\[';
+      } else {
+        const body = pattern
+          .slice(i + 1, close)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\');
+        re += `[${body}]`;
+        i = close;
+      }
+    } else {
+      re += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`, 's');
+}
+
+/**
+ * Parse the pattern part of a case clause: "a|b) cmd" -> { patterns: ['a', 'b'], rest: 'cmd' }
+ */
+function parseCaseClause(stmt: string): { patterns: string[]; rest: string } | null {
+  const s = stmt.trim().replace(/^\(\s*/, '');
+  let inS = false;
+  let inD = false;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch === "'" && !inD) inS = !inS;
+    else if (ch === '"' && !inS) inD = !inD;
+    else if (ch === ')' && !inS && !inD) {
+      const patterns = s
+        .slice(0, i)
+        .split('|')
+        .map(p => p.trim());
+      return { patterns, rest: s.slice(i + 1).trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * Move inline statements after a keyword (then / do / { / in / pattern) to their own statement.
+ * The keyword statement is rewritten without them so that re-running the block
+ * (e.g. inside a loop) does not insert them again
+ */
+function spliceInline(lines: string[], idx: number, head: string, trailing: string): void {
+  lines[idx] = head;
+  lines.splice(idx + 1, 0, trailing);
+}
+
+function isControlResult(r: RunRangeResult): r is { exit: number } | { return: number } {
+  return typeof r === 'object' && r !== null;
+}
+
+/**
+ * Call a script function with its own positional parameters ($1.. = callArgs, $0 unchanged)
+ */
+async function callFunction(
+  name: string,
+  callArgs: string[],
+  localVars: Record<string, string>,
+  args: string[],
+  proc: Process,
+  shell: ScriptShell,
+  ctx: ScriptContext
+): Promise<number | { exit: number }> {
+  if (ctx.localFrames.length >= MAX_CALL_DEPTH) {
+    proc.writeStderr(`${name}: maximum function nesting level exceeded (${MAX_CALL_DEPTH})\n`);
+    return 1;
+  }
+  const body = ctx.functions.get(name) ?? [];
+  const frame = new Map<string, string | undefined>();
+  ctx.localFrames.push(frame);
+  try {
+    // copy the body: runRange splices inline statements into the array it runs
+    const r = await runRange(
+      [...body],
+      0,
+      body.length,
+      localVars,
+      [args[0] ?? '', ...callArgs],
+      proc,
+      shell,
+      ctx
+    );
+    if (isControlResult(r)) {
+      if ('exit' in r) return r;
+      ctx.status = r.return;
+    }
+    return ctx.status;
+  } finally {
+    ctx.localFrames.pop();
+    // restore variables shadowed by `local`
+    for (const [key, previous] of frame) {
+      if (previous === undefined) delete localVars[key];
+      else localVars[key] = previous;
+    }
+  }
+}
+
+/**
+ * Run one command statement: && / || lists, script function calls and here-documents.
+ * Output is streamed to the script process. Returns the exit status (or an exit request).
+ */
+async function runStatement(
+  stmt: string,
+  localVars: Record<string, string>,
+  args: string[],
+  proc: Process,
+  shell: ScriptShell,
+  ctx: ScriptContext
+): Promise<number | { exit: number }> {
+  const onData = {
+    stdout: (data: string) => {
+      proc.writeStdout(data);
+    },
+    stderr: (data: string) => {
+      proc.writeStderr(data);
+    },
+  };
+
+  // here-document: expand the command line, and the body only when the delimiter is unquoted
+  const newline = stmt.indexOf('\n');
+  const hereDocs = newline === -1 ? [] : scanHereDocOperators(stmt.slice(0, newline));
+  if (hereDocs.length > 0) {
+    const head = await evaluateLine(stmt.slice(0, newline), localVars, args, shell, ctx.status);
+    const rawBody = stmt.slice(newline + 1);
+    const body = hereDocs.some(op => op.quoted)
+      ? rawBody
+      : await evaluateLine(rawBody, localVars, args, shell, ctx.status);
+    const res = await shell.run(`${head}\n${body}`, onData);
+    return res.code ?? 0;
+  }
+
+  let status = 0;
+  let prevOp: '&&' | '||' | null = null;
+  for (const { cmd, op } of splitAndOr(stmt)) {
+    const skip = (prevOp === '&&' && status !== 0) || (prevOp === '||' && status === 0);
+    prevOp = op;
+    if (skip) continue;
+
+    const evaled = await evaluateLine(cmd.trim(), localVars, args, shell, ctx.status);
+    const words = splitWords(evaled);
+    const name = words[0] ?? '';
+    if (ctx.functions.has(name)) {
+      const r = await callFunction(
+        name,
+        words.slice(1).map(unquote),
+        localVars,
+        args,
+        proc,
+        shell,
+        ctx
+      );
+      if (typeof r === 'object') return r;
+      status = r;
+    } else {
+      const res = await shell.run(evaled, onData);
+      status = res.code ?? 0;
+    }
+    ctx.status = status;
+  }
+  return status;
+}
+
 /**
  * Evaluate a condition used in if/elif/while
  */
@@ -311,9 +645,11 @@ async function runCondition(
   condExpr: string,
   localVars: Record<string, string>,
   args: string[],
-  shell: StreamShell
-): Promise<{ stdout: string; stderr: string; code: number }> {
-  if (!condExpr) return { stdout: '', stderr: '', code: 1 };
+  proc: Process,
+  shell: ScriptShell,
+  ctx: ScriptContext
+): Promise<number | { exit: number }> {
+  if (!condExpr) return 1;
   // count leading ! operators
   let s = condExpr.trimStart();
   let neg = 0;
@@ -321,19 +657,16 @@ async function runCondition(
     neg++;
     s = s.slice(1).trimStart();
   }
-  if (!s) return { stdout: '', stderr: '', code: neg % 2 === 1 ? 0 : 1 };
-  // evaluate expansions then run
-  const evaled = await evaluateLine(s, localVars, args, shell);
-  const res = await shell.run(evaled);
-  const codeNum = typeof res.code === 'number' ? res.code : 0;
-  const finalCode = neg % 2 === 1 ? (codeNum === 0 ? 1 : 0) : codeNum;
-  return { stdout: res.stdout, stderr: res.stderr, code: finalCode };
+  if (!s) return neg % 2 === 1 ? 0 : 1;
+  const codeNum = await runStatement(s, localVars, args, proc, shell, ctx);
+  if (typeof codeNum === 'object') return codeNum;
+  return neg % 2 === 1 ? (codeNum === 0 ? 1 : 0) : codeNum;
 }
 
-export type RunRangeResult = 'ok' | 'break' | 'continue' | { exit: number };
+export type RunRangeResult = 'ok' | 'break' | 'continue' | { exit: number } | { return: number };
 
 /**
- * Run a range [start, end) of lines; supports break/continue signaling
+ * Run a range [start, end) of lines; supports break/continue/return signaling
  */
 async function runRange(
   lines: string[],
@@ -342,9 +675,16 @@ async function runRange(
   localVars: Record<string, string>,
   args: string[],
   proc: Process,
-  shell: StreamShell
+  shell: ScriptShell,
+  ctx: ScriptContext
 ): Promise<RunRangeResult> {
-  for (let i = start; i < end; i++) {
+  // inline statements (e.g. after `then` / `{` / `pattern)`) are spliced into `lines`
+  // within the range, so the end moves along with the array length
+  const initialLength = lines.length;
+  for (let i = start; i < end + lines.length - initialLength; i++) {
+    // job control: wait while the script is stopped, give up once it has been killed
+    await proc.waitUntilRunning();
+    if (proc.hasExited) return { exit: 130 };
     const raw = lines[i] ?? '';
     const trimmed = raw.trim();
     if (!trimmed || trimmed.startsWith('#')) continue;
@@ -355,11 +695,59 @@ async function runRange(
       trimmed === 'do' ||
       trimmed === 'done' ||
       trimmed === 'else' ||
+      trimmed === 'esac' ||
+      trimmed === ';;' ||
+      trimmed === '}' ||
       trimmed.startsWith('elif ')
     ) {
       continue;
     }
 
+    // FUNCTION definition: name() { ... } / function name { ... }
+    const fnMatch = trimmed.match(FUNCTION_HEADER);
+    if (fnMatch && !/^(if|for|while|case)$/.test(fnMatch[1] ?? fnMatch[2])) {
+      const name = fnMatch[1] ?? fnMatch[2];
+      let openIdx = i;
+      let opener = fnMatch[3];
+      if (!opener) {
+        // the opening brace may be on the next statement
+        let j = i + 1;
+        while (j < lines.length && !(lines[j] || '').trim()) j++;
+        const t = (lines[j] || '').trim();
+        if (!t.startsWith('{')) {
+          proc.writeStderr(`syntax error near unexpected token \`${t || 'newline'}'\n`);
+          return { exit: 2 };
+        }
+        openIdx = j;
+        opener = t;
+      }
+      const inline = opener.replace(/^\{/, '').trim();
+      if (inline) spliceInline(lines, openIdx, openIdx === i ? `${name}() {` : '{', inline);
+
+      // find the matching closing brace
+      let depth = 1;
+      let closeIdx = -1;
+      for (let j = openIdx + 1; j < lines.length; j++) {
+        const t = (lines[j] || '').trim();
+        if (t.startsWith('{') || /\{$/.test(t)) depth++;
+        if (t.startsWith('}')) {
+          depth--;
+          if (depth === 0) {
+            closeIdx = j;
+            break;
+          }
+        }
+      }
+      if (closeIdx === -1) {
+        proc.writeStderr(`syntax error: unexpected end of file in function '${name}'\n`);
+        return { exit: 2 };
+      }
+      ctx.functions.set(name, lines.slice(openIdx + 1, closeIdx));
+      ctx.status = 0;
+      i = closeIdx;
+      continue;
+    }
+
     // IF block
     if (/^if\b/.test(trimmed)) {
       // extract conditional expression between 'if' and 'then' (may be on same statement)
@@ -371,7 +759,7 @@ async function runRange(
         condLine = condLine.slice(0, thenMatch.index).trim();
         const trailing = thenMatch[1] ? thenMatch[1].trim() : '';
         if (trailing) {
-          lines.splice(i + 1, 0, trailing);
+          spliceInline(lines, i, `if ${condLine} then`, trailing);
         }
         thenIdx = i;
       } else {
@@ -381,7 +769,7 @@ async function runRange(
           if (/^then\b/.test(t)) {
             thenIdx = j;
             const trailing = t.replace(/^then\b/, '').trim();
-            if (trailing) lines.splice(j + 1, 0, trailing);
+            if (trailing) spliceInline(lines, j, 'then', trailing);
             break;
           }
         }
@@ -413,16 +801,15 @@ async function runRange(
         fiIdx = lines.length - 1;
       }
 
-      // evaluate condition
-      const condEval = await runCondition(condLine, localVars, args, shell);
-
-      // forward any output from condition evaluation to the script process
-      if (condEval.stdout) proc.writeStdout(condEval.stdout);
-      if (condEval.stderr) proc.writeStderr(condEval.stderr);
-      if (condEval.code === 0) {
+      // evaluate condition (its output is streamed to the script process)
+      const condCode = await runCondition(condLine, localVars, args, proc, shell, ctx);
+      if (typeof condCode === 'object') return condCode;
+      let branchTaken = false;
+      if (condCode === 0) {
         const thenStart = thenIdx === -1 ? i + 1 : thenIdx + 1;
         const thenEnd = elifs.length > 0 ? elifs[0] : elseIdx !== -1 ? elseIdx : fiIdx;
-        const r = await runRange(lines, thenStart, thenEnd, localVars, args, proc, shell);
+        branchTaken = true;
+        const r = await runRange(lines, thenStart, thenEnd, localVars, args, proc, shell, ctx);
         if (r !== 'ok') return r;
       } else {
         // check elifs in order
@@ -437,7 +824,7 @@ async function runRange(
             const trailing = m[1] ? m[1].trim() : '';
             if (trailing) {
               // insert the trailing inline statements right after this elif
-              lines.splice(eIdx + 1, 0, trailing);
+              spliceInline(lines, eIdx, `elif ${eCond} then`, trailing);
               // Adjust stored indices because we've mutated `lines`.
               // Subsequent `elifs` indices (those after the current one) must be incremented.
               for (let t = k + 1; t < elifs.length; t++) {
@@ -448,29 +835,120 @@ async function runRange(
               if (fiIdx !== -1 && fiIdx > eIdx) fiIdx += 1;
             }
           }
-          const eRes = await runCondition(eCond, localVars, args, shell);
-
-          if (eRes.stdout) proc.writeStdout(eRes.stdout);
-          if (eRes.stderr) proc.writeStderr(eRes.stderr);
-          if (eRes.code === 0) {
+          const eCode = await runCondition(eCond, localVars, args, proc, shell, ctx);
+          if (typeof eCode === 'object') return eCode;
+          if (eCode === 0) {
             const eThenStart = eIdx + 1;
             const eThenEnd = k + 1 < elifs.length ? elifs[k + 1] : elseIdx !== -1 ? elseIdx : fiIdx;
-            const r = await runRange(lines, eThenStart, eThenEnd, localVars, args, proc, shell);
+            branchTaken = true;
+            const r = await runRange(
+              lines,
+              eThenStart,
+              eThenEnd,
+              localVars,
+              args,
+              proc,
+              shell,
+              ctx
+            );
             if (r !== 'ok') return r;
             matched = true;
             break;
           }
         }
         if (!matched && elseIdx !== -1) {
-          const r = await runRange(lines, elseIdx + 1, fiIdx, { ...localVars }, args, proc, shell);
+          branchTaken = true;
+          const r = await runRange(lines, elseIdx + 1, fiIdx, localVars, args, proc, shell, ctx);
           if (r !== 'ok') return r;
         }
       }
+      // an if without a taken branch succeeds
+      if (!branchTaken) ctx.status = 0;
       // advance i to fiIdx
       i = fiIdx;
       continue;
     }
 
+    // CASE block
+    if (/^case\b/.test(trimmed)) {
+      const m = trimmed.match(/^case\s+(.+?)\s+in\b(.*)$/s);
+      if (!m) {
+        proc.writeStderr(`syntax error near \`${trimmed}'\n`);
+        return { exit: 2 };
+      }
+      const trailing = m[2].trim();
+      if (trailing) spliceInline(lines, i, `case ${m[1]} in`, trailing);
+
+      // collect clauses up to the matching esac (nested case statements are skipped)
+      const clauses: Array<{ patterns: string[]; start: number; end: number }> = [];
+      let esacIdx = -1;
+      let depth = 0;
+      let expectPattern = true;
+      for (let j = i + 1; j < lines.length; j++) {
+        const t = (lines[j] || '').trim();
+        if (!t) continue;
+        if (depth === 0 && expectPattern) {
+          if (/^esac\b/.test(t)) {
+            esacIdx = j;
+            break;
+          }
+          const clause = parseCaseClause(t);
+          if (!clause) continue;
+          if (clause.rest) spliceInline(lines, j, `${clause.patterns.join('|')})`, clause.rest);
+          clauses.push({ patterns: clause.patterns, start: j + 1, end: j + 1 });
+          expectPattern = false;
+          continue;
+        }
+        if (/^case\b/.test(t)) depth++;
+        if (/^esac\b/.test(t)) {
+          if (depth === 0) {
+            clauses[clauses.length - 1].end = j;
+            esacIdx = j;
+            break;
+          }
+          depth--;
+          continue;
+        }
+        if (t === ';;' && depth === 0) {
+          clauses[clauses.length - 1].end = j;
+          expectPattern = true;
+        }
+      }
+      if (esacIdx === -1) {
+        proc.writeStderr("syntax error: unexpected end of file (expecting 'esac')\n");
+        return { exit: 2 };
+      }
+
+      const word = unquote(await evaluateLine(m[1], localVars, args, shell, ctx.status));
+      ctx.status = 0;
+      for (const clause of clauses) {
+        let matched = false;
+        for (const pattern of clause.patterns) {
+          const expanded = interpolate(pattern, localVars, args, ctx.status);
+          if (casePatternToRegExp(expanded).test(word)) {
+            matched = true;
+            break;
+          }
+        }
+        if (matched) {
+          const r = await runRange(
+            lines,
+            clause.start,
+            clause.end,
+            localVars,
+            args,
+            proc,
+            shell,
+            ctx
+          );
+          if (r !== 'ok') return r;
+          break;
+        }
+      }
+      i = esacIdx;
+      continue;
+    }
+
     // FOR block
     if (/^for\b/.test(trimmed)) {
       const m = trimmed.match(/^for\s+(\w+)\s+in\s*(.*)$/);
@@ -484,7 +962,7 @@ async function runRange(
         const parts = itemsStr.split(/\bdo\b/);
         itemsStr = parts[0].trim();
         const trailing = parts.slice(1).join('do').trim();
-        if (trailing) lines.splice(i + 1, 0, trailing);
+        if (trailing) spliceInline(lines, i, `for ${varName} in ${itemsStr} do`, trailing);
       }
       // find 'do' for this for-header first
       let doIdx = -1;
@@ -493,7 +971,7 @@ async function runRange(
         const t = (lines[j] || '').trim();
         if (/^do\b/.test(t)) {
           const trailing = t.replace(/^do\b/, '').trim();
-          if (trailing) lines.splice(j + 1, 0, trailing);
+          if (trailing) spliceInline(lines, j, 'do', trailing);
           doIdx = j;
           break;
         }
@@ -531,7 +1009,7 @@ async function runRange(
       }
       const bodyStart = doIdx + 1;
       const bodyEnd = doneIdx;
-      const interpItems = await evaluateLine(itemsStr, localVars, args, shell);
+      const interpItems = await evaluateLine(itemsStr, localVars, args, shell, ctx.status);
       // split items and support simple brace expansion
       const rawItems = interpItems.split(/\s+/).filter(Boolean);
       const items: string[] = [];
@@ -540,15 +1018,17 @@ async function runRange(
         if (expanded.length > 1 || expanded[0] !== it) items.push(...expanded);
         else items.push(it);
       }
+      // a loop whose body never runs succeeds
+      ctx.status = 0;
       let iter = 0;
       for (const it of items) {
         if (++iter > MAX_LOOP) break;
         // set loop variable in localVars
         localVars[varName] = it;
-        const r = await runRange(lines, bodyStart, bodyEnd, localVars, args, proc, shell);
+        const r = await runRange(lines, bodyStart, bodyEnd, localVars, args, proc, shell, ctx);
         if (r === 'break') break;
         if (r === 'continue') continue;
-        if (typeof r === 'object' && r && 'exit' in r) return r;
+        if (isControlResult(r)) return r;
       }
       i = doneIdx;
       continue;
@@ -562,7 +1042,7 @@ async function runRange(
         const parts = condLine.split(/\bdo\b/);
         condLine = parts[0].trim();
         const trailing = parts.slice(1).join('do').trim();
-        if (trailing) lines.splice(i + 1, 0, trailing);
+        if (trailing) spliceInline(lines, i, `while ${condLine} do`, trailing);
       }
       let doIdx = -1;
       let doneIdx = -1;
@@ -570,7 +1050,7 @@ async function runRange(
         const t = (lines[j] || '').trim();
         if (/^do\b/.test(t) && doIdx === -1) {
           const trailing = t.replace(/^do\b/, '').trim();
-          if (trailing) lines.splice(j + 1, 0, trailing);
+          if (trailing) spliceInline(lines, j, 'do', trailing);
           doIdx = j;
         }
         if (/^done\b/.test(t)) {
@@ -584,18 +1064,20 @@ async function runRange(
       }
       const bodyStart = doIdx + 1;
       const bodyEnd = doneIdx;
+      let loopStatus = 0;
       let count = 0;
       while (true) {
         if (++count > MAX_LOOP) break;
-        const cres = await runCondition(condLine, localVars, args, shell);
-        if (cres.stdout) proc.writeStdout(cres.stdout);
-        if (cres.stderr) proc.writeStderr(cres.stderr);
-        if (cres.code !== 0) break;
-        const r = await runRange(lines, bodyStart, bodyEnd, localVars, args, proc, shell);
+        const cres = await runCondition(condLine, localVars, args, proc, shell, ctx);
+        if (typeof cres === 'object') return cres;
+        if (cres !== 0) break;
+        const r = await runRange(lines, bodyStart, bodyEnd, localVars, args, proc, shell, ctx);
+        loopStatus = ctx.status;
         if (r === 'break') break;
         if (r === 'continue') continue;
-        if (typeof r === 'object' && r && 'exit' in r) return r;
+        if (isControlResult(r)) return r;
       }
+      ctx.status = loopStatus;
       i = doneIdx;
       continue;
     }
@@ -606,13 +1088,15 @@ async function runRange(
 
     // exit builtin (POSIX): exit [n]
     if (/^exit\b/.test(trimmed)) {
-      const parts = trimmed.split(/\s+/).slice(1);
+      const parts = interpolate(trimmed, localVars, args, ctx.status).split(/\s+/).slice(1);
       // Too many args -> error, do not exit script (behave like interactive shells)
       if (parts.length > 1) {
         proc.writeStderr('exit: too many arguments\n');
+        ctx.status = 1;
         continue;
       }
-      let code = 0;
+      // without an argument, exit with the status of the last command
+      let code = ctx.status;
       if (parts.length === 1) {
         const a = parts[0];
         if (!/^-?\d+$/.test(a)) {
@@ -624,8 +1108,64 @@ async function runRange(
       return { exit: code };
     }
 
+    // return builtin: return [n] (only inside functions)
+    if (/^return(\s|$)/.test(trimmed)) {
+      const parts = interpolate(trimmed, localVars, args, ctx.status).split(/\s+/).slice(1);
+      if (ctx.localFrames.length === 0) {
+        proc.writeStderr("return: can only `return' from a function or sourced script\n");
+        ctx.status = 1;
+        continue;
+      }
+      if (parts.length === 0) return { return: ctx.status };
+      if (!/^-?\d+$/.test(parts[0])) {
+        proc.writeStderr(`return: ${parts[0]}: numeric argument required\n`);
+        return { return: 2 };
+      }
+      return { return: Number(parts[0]) & 0xff };
+    }
+
+    // local builtin: local NAME[=VALUE]... (only inside functions)
+    if (/^local(\s|$)/.test(trimmed)) {
+      const frame = ctx.localFrames[ctx.localFrames.length - 1];
+      if (!frame) {
+        proc.writeStderr('local: can only be used in a function\n');
+        ctx.status = 1;
+        continue;
+      }
+      ctx.status = 0;
+      for (const word of splitWords(trimmed.replace(/^local\s*/, ''))) {
+        const eq = word.indexOf('=');
+        const name = eq === -1 ? word : word.slice(0, eq);
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+          proc.writeStderr(`local: \`${word}': not a valid identifier\n`);
+          ctx.status = 1;
+          continue;
+        }
+        const value =
+          eq === -1
+            ? (localVars[name] ?? '')
+            : unquote(await evaluateLine(word.slice(eq + 1), localVars, args, shell, ctx.status));
+        // remember the outer value only once per call
+        if (!frame.has(name)) frame.set(name, localVars[name]);
+        localVars[name] = value;
+      }
+      continue;
+    }
+
+    // shift builtin: shift [n]
+    if (/^shift(\s|$)/.test(trimmed)) {
+      const n = Number(trimmed.split(/\s+/)[1] ?? 1);
+      if (!Number.isInteger(n) || n < 0 || n > args.length - 1) {
+        ctx.status = 1;
+        continue;
+      }
+      args.splice(1, n);
+      ctx.status = 0;
+      continue;
+    }
+
     // regular command or assignment: interpolate and execute
-    let execLine = interpolate(trimmed, localVars, args);
+    const execLine = interpolate(trimmed, localVars, args, ctx.status);
 
     // handle `set ...` as a noop for now
     if (execLine.startsWith('set ')) {
@@ -651,25 +1191,14 @@ async function runRange(
       } catch (e) {
         localVars[name] = rhs;
       }
+      ctx.status = 0;
       continue;
     }
-    // For non-assignment commands, perform full evaluation pipeline
-    try {
-      execLine = await evaluateLine(execLine, localVars, args, shell);
-    } catch (e) {
-      // ignore evaluation errors and use original execLine
-    }
-    // Pass real-time output callbacks to enable streaming output
-    const res = await shell.run(execLine, {
-      stdout: (data: string) => {
-        proc.writeStdout(data);
-      },
-      stderr: (data: string) => {
-        proc.writeStderr(data);
-      },
-    });
-    // Note: output is already written via callbacks, no need to write again
-    // continue even on non-zero exit
+    // For non-assignment commands, run the statement (&&/||, function calls, here-documents).
+    // Output is streamed to the script process; continue even on non-zero exit
+    const r = await runStatement(trimmed, localVars, args, proc, shell, ctx);
+    if (typeof r === 'object') return r;
+    ctx.status = r;
   }
   return 'ok';
 }
@@ -679,31 +1208,39 @@ async function runRange(
  * @param text - Script text
  * @param args - Positional args passed to the script (argv[0..])
  * @param proc - Process to write output to
- * @param shell - StreamShell instance for running commands
+ * @param shell - Shell for running commands
+ * @returns Exit status of the script (`exit n`, or the status of the last command)
  */
 export async function runScript(
   text: string,
   args: string[],
   proc: Process,
-  shell: StreamShell
-): Promise<void> {
+  shell: ScriptShell
+): Promise<number> {
   const rawLines = splitPhysicalLines(text);
   // Build statement list by splitting each physical line at top-level semicolons
   const lines: string[] = [];
   for (const rl of rawLines) {
-    const parts = splitTopLevelSemicolons(rl);
+    // a here-document body stays attached to the command that reads it
+    const newline = rl.indexOf('\n');
+    const head = newline === -1 ? rl : rl.slice(0, newline);
+    const hasHereDoc = newline !== -1 && scanHereDocOperators(head).length > 0;
+    const parts = splitTopLevelSemicolons(hasHereDoc ? head : rl);
+    if (hasHereDoc) {
+      const owner = parts.findLastIndex(p => scanHereDocOperators(p).length > 0);
+      parts[owner] += rl.slice(newline);
+    }
     for (const p of parts) {
       lines.push(p);
     }
   }
 
-  const result = await runRange(lines, 0, lines.length, {}, args, proc, shell);
+  const ctx: ScriptContext = { functions: new Map(), localFrames: [], status: 0 };
+  const result = await runRange(lines, 0, lines.length, {}, [...args], proc, shell, ctx);
 
-  // If an exit object was returned, terminate the script process
+  // If an exit object was returned, terminate with its code
   if (typeof result === 'object' && result && 'exit' in result) {
-    try {
-      proc.exit(result.exit);
-    } catch (e) {}
-    return;
+    return result.exit;
   }
+  return ctx.status;
 }
@@ -5,6 +5,8 @@
  * while maintaining the existing StreamShell API for backward compatibility.
  */
 
+import type { Readable } from 'node:stream';
+
 import type TerminalUI from '@/engine/cmd/terminalUI';
 import type { fileRepository } from '@/engine/core/fileRepository';
 import type { UnixCommands } from '../global/unix';
@@ -86,6 +88,7 @@ export class StreamShell {
    *
    * @param line - Command line to execute
    * @param onData - Optional callbacks for real-time output
+   * @param stdin - Optional input for the command line (ending it sends EOF)
    * @returns Promise with stdout, stderr, and exit code
    */
   async run(
@@ -93,7 +96,8 @@ export class StreamShell {
     onData?: {
       stdout?: (data: string) => void;
       stderr?: (data: string) => void;
-    }
+    },
+    stdin?: Readable
   ): Promise<ShellRunResult> {
     const callbacks: OutputCallbacks | undefined = onData
       ? {
@@ -102,7 +106,7 @@ export class StreamShell {
         }
       : undefined;
 
-    return this.executor.run(line, callbacks);
+    return this.executor.run(line, callbacks, stdin);
   }
 
   /**
@@ -112,6 +116,44 @@ export class StreamShell {
     this.executor.killForeground(signal);
   }
 
+  /**
+   * Send a line typed in the terminal to the running foreground command (stdin)
+   * @returns false if nothing is running in the foreground
+   */
+  writeStdin(data: string): boolean {
+    return this.executor.writeForegroundStdin(data);
+  }
+
+  /**
+   * Send EOF to the running foreground command (Ctrl+D)
+   * @returns false if nothing is running in the foreground
+   */
+  endStdin(): boolean {
+    return this.executor.endForegroundStdin();
+  }
+
+  /**
+   * Stop the current foreground job (Ctrl+Z)
+   * @returns false if nothing is running in the foreground
+   */
+  suspendForeground(): boolean {
+    return this.executor.suspendForeground();
+  }
+
+  /**
+   * Lines for background jobs that finished since the last call (shown before the prompt)
+   */
+  takeJobNotifications(): string[] {
+    return this.executor.takeJobNotifications();
+  }
+
+  /**
+   * Terminate the foreground and background jobs (call when the terminal is closed)
+   */
+  hangup(): void {
+    this.executor.hangup();
+  }
+
   /**
    * Set an alias
    */
@@ -23,6 +23,8 @@ export type Segment = {
   append?: boolean;
   background?: boolean;
   logicalOp?: string | null;
+  // here-document / here-string body fed to stdin
+  hereDoc?: string | null;
 };
 
 // Shell options for StreamShell constructor
@@ -6,19 +6,33 @@ import type TerminalUI from './terminalUI';
 
 import type { fileRepository } from '@/engine/core/fileRepository';
 
+/**
+ * Id of the project's first terminal. It uses the project-level UnixCommands / StreamShell,
+ * so callers that don't know about terminal sessions (AI tools, file tree, npm) share its cwd.
+ */
+export const DEFAULT_TERMINAL_ID = 'default';
+
+// Additional terminal: own UnixCommands (cwd) and StreamShell (env, history of jobs, processes)
+type TerminalSessionEntry = {
+  unix?: UnixCommands;
+  shell?: StreamShell;
+};
+
 type ProjectEntry = {
   unix?: UnixCommands;
   git?: GitCommands;
   npm?: NpmCommands;
   shell?: StreamShell;
   terminalUI?: TerminalUI; // TerminalUI instance per-project
+  sessions: Map<string, TerminalSessionEntry>;
   createdAt: number;
 };
 
 /**
  * TerminalCommandRegistry
  * - Provides per-project singleton instances of command classes (Git/Unix/Npm)
- * - Keeps lifecycle management (disposeProject / clearAll)
+ * - Unix commands and shells can additionally be scoped to a terminal session (terminalId)
+ * - Keeps lifecycle management (disposeTerminal / disposeProject / clearAll)
  * - Instances are created lazily on first request
  */
 class TerminalCommandRegistry {
@@ -27,7 +41,7 @@ class TerminalCommandRegistry {
   private getOrCreateEntry(projectId: string): ProjectEntry {
     let entry = this.projects.get(projectId);
     if (!entry) {
-      entry = { createdAt: Date.now() } as ProjectEntry;
+      entry = { sessions: new Map(), createdAt: Date.now() };
       this.projects.set(projectId, entry);
     }
     return entry;
@@ -44,6 +58,9 @@ class TerminalCommandRegistry {
     if (entry.git) entry.git.setTerminalUI?.(ui);
     if (entry.npm) entry.npm.setTerminalUI?.(ui);
     if (entry.unix) entry.unix.setTerminalUI?.(ui);
+    for (const session of entry.sessions.values()) {
+      session.unix?.setTerminalUI?.(ui);
+    }
   }
 
   /**
@@ -53,8 +70,33 @@ class TerminalCommandRegistry {
     return this.projects.get(projectId)?.terminalUI;
   }
 
-  getUnixCommands(projectName: string, projectId: string): UnixCommands {
+  /**
+   * Scope for a terminal: the project entry itself for the default terminal, otherwise its session
+   */
+  private getScope(projectId: string, terminalId?: string): ProjectEntry | TerminalSessionEntry {
     const entry = this.getOrCreateEntry(projectId);
+    if (!terminalId || terminalId === DEFAULT_TERMINAL_ID) return entry;
+    let session = entry.sessions.get(terminalId);
+    if (!session) {
+      session = {};
+      entry.sessions.set(terminalId, session);
+    }
+    return session;
+  }
+
+  /**
+   * @param terminalId - return the UnixCommands (cwd) of that terminal instead of the project's
+   */
+  getUnixCommands(projectName: string, projectId: string, terminalId?: string): UnixCommands {
+    const entry = this.getOrCreateEntry(projectId);
+    const scope = this.getScope(projectId, terminalId);
+    if (scope !== entry) {
+      if (!scope.unix) {
+        scope.unix = new UnixCommands(projectName, projectId);
+        if (entry.terminalUI) scope.unix.setTerminalUI(entry.terminalUI);
+      }
+      return scope.unix;
+    }
     if (!entry.unix) {
       // Construct UnixCommands using the existing constructor signature
       entry.unix = new UnixCommands(projectName, projectId);
@@ -81,7 +123,7 @@ class TerminalCommandRegistry {
     return entry.npm!;
   }
 
-  // Return or lazily construct a StreamShell instance for the project.
+  // Return or lazily construct a StreamShell instance for the project (or one of its terminals).
   async getShell(
     projectName: string,
     projectId: string,
@@ -91,16 +133,20 @@ class TerminalCommandRegistry {
       fileRepository?: typeof fileRepository;
       terminalColumns?: number;
       terminalRows?: number;
+      terminalId?: string;
     }
   ) {
     const entry = this.getOrCreateEntry(projectId);
-    if (entry.shell) return entry.shell;
+    const scope = this.getScope(projectId, opts?.terminalId);
+    if (scope.shell) return scope.shell;
     try {
       const { default: StreamShell } = await import('./shell/streamShell');
       // prefer provided unix from opts, otherwise use registry's unix commands
-      const unix = opts?.unix ? opts.unix : this.getUnixCommands(projectName, projectId);
+      const unix = opts?.unix
+        ? opts.unix
+        : this.getUnixCommands(projectName, projectId, opts?.terminalId);
       const commandRegistry = opts?.commandRegistry ? opts.commandRegistry : undefined;
-      entry.shell = new StreamShell({
+      scope.shell = new StreamShell({
         projectName,
         projectId,
         unix,
@@ -110,7 +156,7 @@ class TerminalCommandRegistry {
         terminalRows: opts?.terminalRows,
         terminalUI: entry.terminalUI,
       });
-      return entry.shell;
+      return scope.shell;
     } catch (e) {
       console.error('[terminalRegistry] failed to construct StreamShell', e);
       return null;
@@ -118,13 +164,32 @@ class TerminalCommandRegistry {
   }
 
   /**
-   * Update terminal size for a project's shell
+   * Update terminal size for a project's shell (or the shell of one of its terminals)
    */
-  updateShellSize(projectId: string, columns: number, rows: number): void {
+  updateShellSize(projectId: string, columns: number, rows: number, terminalId?: string): void {
     const entry = this.projects.get(projectId);
-    if (entry?.shell) {
-      entry.shell.setTerminalSize(columns, rows);
+    if (!entry) return;
+    const shell =
+      !terminalId || terminalId === DEFAULT_TERMINAL_ID
+        ? entry.shell
+        : entry.sessions.get(terminalId)?.shell;
+    shell?.setTerminalSize(columns, rows);
+  }
+
+  /**
+   * Close a terminal: hang up its jobs and forget its shell and cwd
+   * The default terminal keeps its project-level UnixCommands; only the shell is recreated.
+   */
+  disposeTerminal(projectId: string, terminalId: string): void {
+    const entry = this.projects.get(projectId);
+    if (!entry) return;
+    if (terminalId === DEFAULT_TERMINAL_ID) {
+      entry.shell?.hangup();
+      entry.shell = undefined;
+      return;
     }
+    entry.sessions.get(terminalId)?.shell?.hangup();
+    entry.sessions.delete(terminalId);
   }
 
   /**
@@ -134,6 +199,11 @@ class TerminalCommandRegistry {
     const entry = this.projects.get(projectId);
     if (!entry) return;
 
+    entry.shell?.hangup();
+    for (const session of entry.sessions.values()) {
+      session.shell?.hangup();
+    }
+
     // Call dispose if provided on each command
     try {
       if (entry.git && typeof (entry.git as any).dispose === 'function') {
@@ -0,0 +1,262 @@
+import { DEFAULT_TERMINAL_ID, terminalCommandRegistry } from './terminalRegistry';
+
+import {
+  type SavedTerminalSession,
+  clearTerminalHistory,
+  getTerminalSessions,
+  saveTerminalSessions,
+} from '@/stores/terminalHistoryStorage';
+
+/**
+ * A terminal instance shown in the bottom panel
+ */
+export interface TerminalSession extends SavedTerminalSession {
+  /** Command typed into the terminal once it is ready (not persisted) */
+  initialCommand?: string;
+}
+
+/**
+ * Terminals of one project. Replaced (never mutated) on every change so React can compare snapshots.
+ */
+export interface TerminalSessionsState {
+  projectName: string;
+  sessions: TerminalSession[];
+  activeId: string;
+}
+
+export interface OpenTerminalOptions {
+  /** Tab label (defaults to "Terminal n") */
+  name?: string;
+  /** Command to run as soon as the terminal is ready */
+  command?: string;
+  /** Initial working directory (FS path, e.g. /projects/app/src) */
+  cwd?: string;
+  /** Show the terminal side by side with the active one instead of in a new tab */
+  split?: boolean;
+}
+
+/**
+ * TerminalSessionManager
+ * - Keeps the list of terminal instances per project (name, split group, cwd)
+ * - Persists the list through terminalHistoryStorage so it survives reloads
+ * - Shells and cwd of each terminal live in terminalCommandRegistry, keyed by the session id
+ */
+class TerminalSessionManager {
+  private projects = new Map<string, TerminalSessionsState>();
+  private loading = new Map<string, Promise<TerminalSessionsState>>();
+  private changeListeners = new Set<(projectId: string) => void>();
+  private revealListeners = new Set<(projectId: string, sessionId: string) => void>();
+  private current: { projectName: string; projectId: string } | null = null;
+  private idCounter = 0;
+
+  /**
+   * Load the terminals of a project (restores the saved list, or creates the first terminal)
+   */
+  load(projectName: string, projectId: string): Promise<TerminalSessionsState> {
+    const loaded = this.projects.get(projectId);
+    if (loaded) return Promise.resolve(loaded);
+    let pending = this.loading.get(projectId);
+    if (!pending) {
+      pending = getTerminalSessions(projectName).then(saved => {
+        const state: TerminalSessionsState = saved
+          ? {
+              projectName,
+              sessions: saved.sessions,
+              activeId: saved.sessions.some(s => s.id === saved.activeId)
+                ? saved.activeId
+                : saved.sessions[0].id,
+            }
+          : {
+              projectName,
+              sessions: [
+                { id: DEFAULT_TERMINAL_ID, name: 'Terminal 1', groupId: DEFAULT_TERMINAL_ID },
+              ],
+              activeId: DEFAULT_TERMINAL_ID,
+            };
+        this.projects.set(projectId, state);
+        this.loading.delete(projectId);
+        this.notifyChange(projectId);
+        return state;
+      });
+      this.loading.set(projectId, pending);
+    }
+    return pending;
+  }
+
+  getState(projectId: string): TerminalSessionsState | null {
+    return this.projects.get(projectId) ?? null;
+  }
+
+  getSession(projectId: string, sessionId: string): TerminalSession | null {
+    return this.projects.get(projectId)?.sessions.find(s => s.id === sessionId) ?? null;
+  }
+
+  /**
+   * Project that extension calls to openTerminal() target
+   */
+  setCurrentProject(projectName: string, projectId: string): void {
+    this.current = { projectName, projectId };
+  }
+
+  /**
+   * Create a terminal and make it active
+   */
+  async create(
+    projectName: string,
+    projectId: string,
+    options: OpenTerminalOptions = {}
+  ): Promise<TerminalSession> {
+    const state = await this.load(projectName, projectId);
+    const id = state.sessions.some(s => s.id === DEFAULT_TERMINAL_ID)
+      ? `term-${Date.now().toString(36)}-${++this.idCounter}`
+      : DEFAULT_TERMINAL_ID;
+    const active = state.sessions.find(s => s.id === state.activeId);
+    const session: TerminalSession = {
+      id,
+      name: options.name?.trim() || this.nextName(state),
+      groupId: options.split && active ? active.groupId : id,
+      cwd: options.cwd,
+      initialCommand: options.command,
+    };
+    this.update(projectId, { ...state, sessions: [...state.sessions, session], activeId: id });
+    return session;
+  }
+
+  /**
+   * Close a terminal: its jobs get SIGHUP and its history is deleted
+   * Closing the last terminal opens a fresh one, so the panel is never empty.
+   */
+  async close(projectId: string, sessionId: string): Promise<void> {
+    const state = this.projects.get(projectId);
+    const index = state?.sessions.findIndex(s => s.id === sessionId) ?? -1;
+    if (!state || index === -1) return;
+
+    terminalCommandRegistry.disposeTerminal(projectId, sessionId);
+    await clearTerminalHistory(state.projectName, sessionId);
+
+    const closed = state.sessions[index];
+    const sessions = state.sessions.filter(s => s.id !== sessionId);
+    if (sessions.length === 0) {
+      this.update(projectId, { ...state, sessions, activeId: '' });
+      await this.create(state.projectName, projectId);
+      return;
+    }
+    let activeId = state.activeId;
+    if (activeId === sessionId) {
+      // prefer a terminal of the same split group, then the tab to the left
+      const sameGroup = sessions.find(s => s.groupId === closed.groupId);
+      activeId = (sameGroup ?? sessions[Math.max(0, index - 1)]).id;
+    }
+    this.update(projectId, { ...state, sessions, activeId });
+  }
+
+  rename(projectId: string, sessionId: string, name: string): void {
+    const state = this.projects.get(projectId);
+    if (!state || !name.trim()) return;
+    this.update(projectId, {
+      ...state,
+      sessions: state.sessions.map(s => (s.id === sessionId ? { ...s, name: name.trim() } : s)),
+    });
+  }
+
+  activate(projectId: string, sessionId: string): void {
+    const state = this.projects.get(projectId);
+    if (!state || state.activeId === sessionId) return;
+    if (!state.sessions.some(s => s.id === sessionId)) return;
+    this.update(projectId, { ...state, activeId: sessionId });
+  }
+
+  /**
+   * Remember the working directory of a terminal (restored after a reload)
+   */
+  setCwd(projectId: string, sessionId: string, cwd: string): void {
+    const state = this.projects.get(projectId);
+    const session = state?.sessions.find(s => s.id === sessionId);
+    if (!state || !session || session.cwd === cwd) return;
+    this.update(projectId, {
+      ...state,
+      sessions: state.sessions.map(s => (s.id === sessionId ? { ...s, cwd } : s)),
+    });
+  }
+
+  /**
+   * Return the command a terminal was opened with, once
+   */
+  takeInitialCommand(projectId: string, sessionId: string): string | undefined {
+    const state = this.projects.get(projectId);
+    const session = state?.sessions.find(s => s.id === sessionId);
+    if (!state || !session?.initialCommand) return undefined;
+    const command = session.initialCommand;
+    this.projects.set(projectId, {
+      ...state,
+      sessions: state.sessions.map(s =>
+        s.id === sessionId ? { ...s, initialCommand: undefined } : s
+      ),
+    });
+    return command;
+  }
+
+  /**
+   * Open a terminal in the current project and bring the terminal panel to front (extension API)
+   * @returns id of the new terminal
+   */
+  async openTerminal(options: OpenTerminalOptions = {}): Promise<string> {
+    if (!this.current) {
+      throw new Error('No project is open');
+    }
+    const { projectName, projectId } = this.current;
+    const session = await this.create(projectName, projectId, options);
+    for (const listener of this.revealListeners) {
+      listener(projectId, session.id);
+    }
+    return session.id;
+  }
+
+  /**
+   * Listen for changes of the terminal list
+   */
+  addChangeListener(listener: (projectId: string) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Listen for requests to show the terminal panel (openTerminal)
+   */
+  addRevealListener(listener: (projectId: string, sessionId: string) => void): () => void {
+    this.revealListeners.add(listener);
+    return () => this.revealListeners.delete(listener);
+  }
+
+  private nextName(state: TerminalSessionsState): string {
+    const used = new Set(state.sessions.map(s => s.name));
+    let n = 1;
+    while (used.has(`Terminal ${n}`)) n++;
+    return `Terminal ${n}`;
+  }
+
+  private update(projectId: string, state: TerminalSessionsState): void {
+    this.projects.set(projectId, state);
+    if (state.sessions.length > 0) {
+      saveTerminalSessions(state.projectName, {
+        sessions: state.sessions.map(({ initialCommand: _, ...saved }) => saved),
+        activeId: state.activeId,
+      });
+    }
+    this.notifyChange(projectId);
+  }
+
+  private notifyChange(projectId: string): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(projectId);
+      } catch (error) {
+        console.error('[TerminalSessionManager] Error in change listener:', error);
+      }
+    }
+  }
+}
+
+export const terminalSessionManager = new TerminalSessionManager();
+
+export default terminalSessionManager;
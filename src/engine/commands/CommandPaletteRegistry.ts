@@ -0,0 +1,171 @@
+// src/engine/commands/CommandPaletteRegistry.ts
+import type { PaletteCommand } from './types';
+
+import { STORES, storageService } from '@/engine/storage';
+import { pushLogMessage } from '@/stores/loggerStore';
+
+const RECENT_COMMANDS_KEY = 'commandPaletteRecent';
+const MAX_RECENT_COMMANDS = 20;
+
+/**
+ * コマンドパレットのコマンドレジストリ
+ * ビルトインのアクション・Git操作・拡張機能のコマンドを一元管理し、最近使ったコマンドを保存する
+ */
+class CommandPaletteRegistry {
+  private commands = new Map<string, PaletteCommand>();
+  private recentIds: string[] = [];
+  private recentLoaded: Promise<void> | null = null;
+  // getAll() の結果を変更があるまで使い回す（useSyncExternalStore のスナップショット用）
+  private snapshot: PaletteCommand[] | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * コマンドを登録（同じIDは上書き）
+   * @returns 登録解除関数
+   */
+  register(command: PaletteCommand): () => void {
+    if (this.commands.has(command.id)) {
+      console.warn(`[CommandPalette] Command "${command.id}" is already registered. Overwriting.`);
+    }
+    this.commands.set(command.id, command);
+    this.notifyListeners();
+
+    return () => {
+      // 上書きされた後のコマンドは消さない
+      if (this.commands.get(command.id) === command) {
+        this.unregister(command.id);
+      }
+    };
+  }
+
+  unregister(id: string): void {
+    if (this.commands.delete(id)) {
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * 拡張機能が登録したコマンドを全て削除
+   */
+  unregisterExtension(extensionId: string): void {
+    let changed = false;
+    for (const [id, command] of this.commands) {
+      if (command.source === 'extension' && command.extensionId === extensionId) {
+        this.commands.delete(id);
+        changed = true;
+      }
+    }
+    if (changed) this.notifyListeners();
+  }
+
+  get(id: string): PaletteCommand | undefined {
+    return this.commands.get(id);
+  }
+
+  /**
+   * 全コマンドを取得
+   * 最近使った順に並べ、残りはカテゴリ・タイトル順
+   */
+  getAll(): PaletteCommand[] {
+    if (this.snapshot) return this.snapshot;
+    const recent = this.recentIds
+      .map(id => this.commands.get(id))
+      .filter((command): command is PaletteCommand => Boolean(command));
+    const recentSet = new Set(recent);
+    const rest = Array.from(this.commands.values())
+      .filter(command => !recentSet.has(command))
+      .sort(
+        (a, b) =>
+          (a.category ?? '').localeCompare(b.category ?? '') || a.title.localeCompare(b.title)
+      );
+    this.snapshot = [...recent, ...rest];
+    return this.snapshot;
+  }
+
+  /**
+   * 最近使ったコマンドのID（新しい順）
+   */
+  getRecentIds(): string[] {
+    return this.recentIds;
+  }
+
+  /**
+   * 保存された「最近使ったコマンド」を読み込む
+   */
+  loadRecent(): Promise<void> {
+    if (!this.recentLoaded) {
+      this.recentLoaded = (async () => {
+        try {
+          const saved = await storageService.get<string[]>(
+            STORES.USER_PREFERENCES,
+            RECENT_COMMANDS_KEY
+          );
+          if (Array.isArray(saved)) {
+            // 読み込み中に実行されたコマンドを優先する
+            this.recentIds = [...new Set([...this.recentIds, ...saved])].slice(
+              0,
+              MAX_RECENT_COMMANDS
+            );
+            this.notifyListeners();
+          }
+        } catch (error) {
+          console.error('[CommandPalette] Failed to load recent commands:', error);
+        }
+      })();
+    }
+    return this.recentLoaded;
+  }
+
+  /**
+   * コマンドを実行し、最近使ったコマンドとして記録する
+   * @returns コマンドが見つかったかどうか
+   */
+  async execute(id: string): Promise<boolean> {
+    const command = this.commands.get(id);
+    if (!command) {
+      console.warn(`[CommandPalette] Command "${id}" not found`);
+      return false;
+    }
+
+    this.recentIds = [id, ...this.recentIds.filter(r => r !== id)].slice(0, MAX_RECENT_COMMANDS);
+    this.notifyListeners();
+    storageService
+      .set(STORES.USER_PREFERENCES, RECENT_COMMANDS_KEY, this.recentIds)
+      .catch(error => console.error('[CommandPalette] Failed to save recent commands:', error));
+
+    try {
+      await command.run();
+    } catch (error) {
+      console.error(`[CommandPalette] Command "${id}" failed:`, error);
+      pushLogMessage(
+        (error as Error).message,
+        'error',
+        command.category ? `${command.category}: ${command.title}` : command.title
+      );
+    }
+    return true;
+  }
+
+  /**
+   * 変更リスナーを登録
+   */
+  addChangeListener(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notifyListeners(): void {
+    this.snapshot = null;
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[CommandPalette] Error in change listener:', error);
+      }
+    }
+  }
+}
+
+export const commandPaletteRegistry = new CommandPaletteRegistry();
+
+export default commandPaletteRegistry;
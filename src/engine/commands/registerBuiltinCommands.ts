@@ -0,0 +1,113 @@
+// src/engine/commands/registerBuiltinCommands.ts
+import { commandPaletteRegistry } from './CommandPaletteRegistry';
+
+import type { GitCommands } from '@/engine/cmd/global/git';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { httpServerRegistry } from '@/engine/runtime/nodejs/httpServerRegistry';
+import { DEFAULT_BINDINGS } from '@/hooks/keybindings/defaultKeybindings';
+import { triggerAction } from '@/hooks/keybindings/useKeyBindings';
+import { pushLogMessage } from '@/stores/loggerStore';
+import { tabActions } from '@/stores/tabState';
+
+// パレット自身を開くアクションはパレットに出さない
+const EXCLUDED_ACTIONS = new Set(['quickOpen', 'commandPalette']);
+
+// キーバインディングのカテゴリ（'file'）を表示用（'File'）に変換
+function toCategoryLabel(category?: string): string | undefined {
+  return category ? category.charAt(0).toUpperCase() + category.slice(1) : undefined;
+}
+
+/**
+ * キーバインディングのアクションをコマンドとして登録
+ * 実行は triggerAction に委譲するので、アクションを登録しているコンポーネントの処理がそのまま動く
+ */
+export function registerBuiltinCommands(): () => void {
+  const unregisters = DEFAULT_BINDINGS.filter(b => !EXCLUDED_ACTIONS.has(b.id)).map(binding =>
+    commandPaletteRegistry.register({
+      id: `workbench.${binding.id}`,
+      title: binding.name,
+      category: toCategoryLabel(binding.category),
+      keybindingId: binding.id,
+      source: 'builtin',
+      run: () => triggerAction(binding.id),
+    })
+  );
+
+  return () => {
+    for (const unregister of unregisters) unregister();
+  };
+}
+
+// 現在のプロジェクトに対するGit操作（結果は出力パネルに表示）
+const GIT_COMMANDS: {
+  id: string;
+  title: string;
+  context: string;
+  run: (git: GitCommands) => Promise<string>;
+}[] = [
+  { id: 'stageAll', title: 'Stage All Changes', context: 'git add', run: git => git.add('.') },
+  { id: 'pull', title: 'Pull', context: 'git pull', run: git => git.pull() },
+  { id: 'push', title: 'Push', context: 'git push', run: git => git.push() },
+  { id: 'fetch', title: 'Fetch', context: 'git fetch', run: git => git.fetch() },
+  { id: 'stash', title: 'Stash', context: 'git stash', run: git => git.stashPush() },
+  { id: 'stashPop', title: 'Pop Stash', context: 'git stash pop', run: git => git.stashPop() },
+];
+
+/**
+ * プロジェクトのGit操作をコマンドとして登録
+ * プロジェクトを切り替えたら返り値の関数で登録解除する
+ */
+export function registerGitCommands(projectName: string, projectId: string): () => void {
+  const unregisters = GIT_COMMANDS.map(command =>
+    commandPaletteRegistry.register({
+      id: `git.${command.id}`,
+      title: command.title,
+      category: 'Git',
+      source: 'git',
+      run: async () => {
+        const git = terminalCommandRegistry.getGitCommands(projectName, projectId);
+        try {
+          pushLogMessage(await command.run(git), 'info', command.context);
+        } catch (error) {
+          pushLogMessage((error as Error).message, 'error', command.context);
+        }
+      },
+    })
+  );
+
+  return () => {
+    for (const unregister of unregisters) unregister();
+  };
+}
+
+/**
+ * Nodeランタイムで listen 中のサーバーを開くコマンドを登録
+ * ポートが listen / close されるたびにコマンドを入れ替える
+ */
+export function registerLocalServerCommands(): () => void {
+  let unregisters: (() => void)[] = [];
+
+  const sync = () => {
+    for (const unregister of unregisters) unregister();
+    unregisters = httpServerRegistry.getPorts().map(port =>
+      commandPaletteRegistry.register({
+        id: `preview.localhost.${port}`,
+        title: `Open localhost:${port} in Web Preview`,
+        category: 'Preview',
+        source: 'builtin',
+        run: () =>
+          tabActions.openTab(
+            { name: `localhost:${port}`, path: `localhost:${port}` },
+            { kind: 'webPreview', webPreviewUrl: `http://localhost:${port}/` }
+          ),
+      })
+    );
+  };
+
+  sync();
+  const removeListener = httpServerRegistry.addChangeListener(sync);
+  return () => {
+    removeListener();
+    for (const unregister of unregisters) unregister();
+  };
+}
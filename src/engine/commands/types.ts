@@ -0,0 +1,42 @@
+// src/engine/commands/types.ts
+
+/**
+ * コマンドの提供元
+ * - builtin: キーバインディングのアクション（DEFAULT_BINDINGS）
+ * - git: 現在のプロジェクトに対するGit操作
+ * - extension: 拡張機能が registerPaletteCommand で追加したコマンド
+ */
+export type PaletteCommandSource = 'builtin' | 'git' | 'extension';
+
+/**
+ * コマンドパレットに表示されるコマンド
+ */
+export interface PaletteCommand {
+  /** コマンドID（レジストリ内で一意） */
+  id: string;
+  /** 表示タイトル */
+  title: string;
+  /** カテゴリ（"Git: Pull" の "Git" の部分） */
+  category?: string;
+  /** ショートカットキーを表示するためのキーバインディングID */
+  keybindingId?: string;
+  source: PaletteCommandSource;
+  /** 登録した拡張機能のID（source が extension の場合） */
+  extensionId?: string;
+  /** 実行処理 */
+  run: () => void | Promise<void>;
+}
+
+/**
+ * 拡張機能がコマンドパレットに追加するコマンドの定義
+ */
+export interface PaletteCommandDefinition {
+  /** コマンドID（拡張機能内で一意） */
+  id: string;
+  /** 表示タイトル */
+  title: string;
+  /** カテゴリ（省略時は拡張機能ID） */
+  category?: string;
+  /** 選択時に実行されるハンドラ */
+  handler: () => void | Promise<void>;
+}
@@ -53,6 +53,9 @@ class ExtensionManager {
   /** アクティブな拡張機能 (extensionId -> ActiveExtension) */
   private activeExtensions: Map<string, ActiveExtension> = new Map();
 
+  /** 有効化処理中の拡張機能 (依存関係の循環検出用) */
+  private enabling: Set<string> = new Set();
+
   /** 初期化済みフラグ */
   private initialized = false;
 
@@ -172,7 +175,7 @@ class ExtensionManager {
           const dep = await loadInstalledExtension(depId);
           if (!dep) {
             console.warn(
-              `[ExtensionManager] Dependency not found: ${depId}. Please install it first.`
+              `[ExtensionManager] Dependency not found: ${depId}. The extension cannot be enabled until it is installed.`
             );
           }
         }
@@ -365,6 +368,7 @@ class ExtensionManager {
         console.log('[ExtensionManager] Extension already enabled:', extensionId);
         return true;
       }
+      this.enabling.add(extensionId);
 
       // インストール済み拡張を取得
       const installed = await loadInstalledExtension(extensionId);
@@ -394,8 +398,11 @@ class ExtensionManager {
         }
       }
 
+      // 依存する拡張機能を先に有効化（依存先のAPIがアクティベート時点で取得できるように）
+      await this.enableDependencies(installed.manifest);
+
       // コンテキストを作成
-      const context = await this.createExtensionContext(extensionId);
+      const context = await this.createExtensionContext(extensionId, installed.manifest);
 
       // モジュールをロード（追加ファイルも渡す）
       const exports = await loadExtensionModule(
@@ -439,6 +446,26 @@ class ExtensionManager {
     } catch (error) {
       console.error('[ExtensionManager] Failed to enable extension:', extensionId, error);
       return false;
+    } finally {
+      this.enabling.delete(extensionId);
+    }
+  }
+
+  /**
+   * manifest.dependencies の拡張機能を依存グラフの順に有効化
+   * 依存先がインストールされていない・有効化できない・循環している場合はエラー
+   */
+  private async enableDependencies(manifest: ExtensionManifest): Promise<void> {
+    for (const dependencyId of manifest.dependencies ?? []) {
+      if (this.activeExtensions.has(dependencyId)) continue;
+      if (this.enabling.has(dependencyId)) {
+        throw new Error(
+          `Circular extension dependency: ${[...this.enabling, dependencyId].join(' -> ')}`
+        );
+      }
+      if (!(await this.enableExtension(dependencyId))) {
+        throw new Error(`Dependency could not be enabled: ${dependencyId}`);
+      }
     }
   }
 
@@ -455,7 +482,15 @@ class ExtensionManager {
         return false;
       }
 
-      // TabAPI, SidebarAPI, ExplorerMenuAPIをクリーンアップ
+      // この拡張機能に依存している拡張機能を先に無効化
+      const dependents = [...this.activeExtensions.values()].filter(other =>
+        other.manifest.dependencies?.includes(extensionId)
+      );
+      for (const dependent of dependents) {
+        await this.disableExtension(dependent.manifest.id);
+      }
+
+      // TabAPI, SidebarAPI, ExplorerMenuAPI, CommandPaletteAPI, MessagingAPI, ProjectTemplateAPIをクリーンアップ
       const context = (active as any)._context;
       if (context) {
         if ((context as any)._tabAPI) {
@@ -467,6 +502,15 @@ class ExtensionManager {
         if ((context as any)._explorerMenuAPI) {
           (context as any)._explorerMenuAPI.dispose();
         }
+        if ((context as any)._commandPaletteAPI) {
+          (context as any)._commandPaletteAPI.dispose();
+        }
+        if ((context as any)._messagingAPI) {
+          (context as any)._messagingAPI.dispose();
+        }
+        if ((context as any)._projectTemplateAPI) {
+          (context as any)._projectTemplateAPI.dispose();
+        }
       }
 
       // コマンドをクリーンアップ
@@ -589,12 +633,19 @@ class ExtensionManager {
   /**
    * ExtensionContextを作成
    */
-  private async createExtensionContext(extensionId: string): Promise<ExtensionContext> {
+  private async createExtensionContext(
+    extensionId: string,
+    manifest: ExtensionManifest
+  ): Promise<ExtensionContext> {
     // Load APIs we need to wire into the context. Import commandRegistry here so
     // we can create a fully-typed `ExtensionContext` literal (no `as` cast).
     const { TabAPI } = await import('./system-api/TabAPI');
     const { SidebarAPI } = await import('./system-api/SidebarAPI');
     const { ExplorerMenuAPI } = await import('./system-api/ExplorerMenuAPI');
+    const { TerminalAPI } = await import('./system-api/TerminalAPI');
+    const { CommandPaletteAPI } = await import('./system-api/CommandPaletteAPI');
+    const { MessagingAPI } = await import('./system-api/MessagingAPI');
+    const { ProjectTemplateAPI } = await import('./system-api/ProjectTemplateAPI');
     const { commandRegistry } = await import('./commandRegistry');
 
     // Helper used for strict initial stubs: if a consumer calls an API too
@@ -741,11 +792,35 @@ class ExtensionManager {
           };
           return commandRegistry.registerCommand(extensionId, commandName, wrappedHandler);
         },
+        registerPaletteCommand: notInitialized('commands.registerPaletteCommand'),
       },
       explorerMenu: {
         addMenuItem: notInitialized('explorerMenu.addMenuItem'),
         removeMenuItem: notInitialized('explorerMenu.removeMenuItem'),
       },
+      terminal: {
+        openTerminal: notInitialized('terminal.openTerminal'),
+      },
+      messaging: {
+        send: notInitialized('messaging.send'),
+        onMessage: notInitialized('messaging.onMessage'),
+      },
+      templates: {
+        registerTemplate: notInitialized('templates.registerTemplate'),
+      },
+      getExtensionAPI: <T = unknown>(targetId: string): T => {
+        // 依存関係に宣言した拡張機能のAPIのみ取得できる（有効化の順序が保証されるため）
+        if (!manifest.dependencies?.includes(targetId)) {
+          throw new Error(
+            `[Extension:${extensionId}] '${targetId}' is not declared in manifest.dependencies`
+          );
+        }
+        const target = this.activeExtensions.get(targetId);
+        if (!target) {
+          throw new Error(`[Extension:${extensionId}] Dependency '${targetId}' is not enabled`);
+        }
+        return target.activation.api as T;
+      },
     };
 
     // Initialize real API instances and overwrite the strict stubs with
@@ -753,6 +828,10 @@ class ExtensionManager {
     const tabAPI = new TabAPI(context);
     const sidebarAPI = new SidebarAPI(context);
     const explorerMenuAPI = new ExplorerMenuAPI(context);
+    const terminalAPI = new TerminalAPI(context);
+    const commandPaletteAPI = new CommandPaletteAPI(context);
+    const messagingAPI = new MessagingAPI(context);
+    const projectTemplateAPI = new ProjectTemplateAPI(context);
 
     context.tabs = {
       registerTabType: (component: any) => tabAPI.registerTabType(component),
@@ -777,13 +856,31 @@ class ExtensionManager {
       removeMenuItem: (itemId: string) => explorerMenuAPI.removeMenuItem(itemId),
     };
 
-    // commands was created above with a working implementation that uses the
-    // imported commandRegistry — nothing more to do here.
+    context.terminal = {
+      openTerminal: options => terminalAPI.openTerminal(options),
+    };
+
+    context.messaging = {
+      send: (targetId, message) => messagingAPI.send(targetId, message),
+      onMessage: handler => messagingAPI.onMessage(handler),
+    };
+
+    context.templates = {
+      registerTemplate: definition => projectTemplateAPI.registerTemplate(definition),
+    };
+
+    // registerCommand was created above with a working implementation that uses
+    // the imported commandRegistry; only the palette commands need an API instance.
+    context.commands.registerPaletteCommand = definition =>
+      commandPaletteAPI.registerPaletteCommand(definition);
 
     // APIインスタンスを保存（dispose用）
     (context as any)._tabAPI = tabAPI;
     (context as any)._sidebarAPI = sidebarAPI;
     (context as any)._explorerMenuAPI = explorerMenuAPI;
+    (context as any)._commandPaletteAPI = commandPaletteAPI;
+    (context as any)._messagingAPI = messagingAPI;
+    (context as any)._projectTemplateAPI = projectTemplateAPI;
 
     return context;
   }
@@ -0,0 +1,43 @@
+/**
+ * Command Palette API for Extensions
+ * 拡張機能がコマンドパレット（Ctrl+Shift+P / ">" で始まる検索）にコマンドを追加するためのAPI
+ */
+
+import type { ExtensionContext } from '../types';
+
+import { commandPaletteRegistry } from '@/engine/commands/CommandPaletteRegistry';
+import type { PaletteCommandDefinition } from '@/engine/commands/types';
+
+/**
+ * CommandPaletteAPI - 拡張機能がパレットコマンドを管理するためのAPI
+ */
+export class CommandPaletteAPI {
+  private extensionId: string;
+
+  constructor(context: ExtensionContext) {
+    this.extensionId = context.extensionId;
+  }
+
+  /**
+   * パレットコマンドを登録
+   * IDは `${extensionId}.${definition.id}` で登録される
+   * @returns 登録解除関数
+   */
+  registerPaletteCommand(definition: PaletteCommandDefinition): () => void {
+    return commandPaletteRegistry.register({
+      id: `${this.extensionId}.${definition.id}`,
+      title: definition.title,
+      category: definition.category ?? this.extensionId,
+      source: 'extension',
+      extensionId: this.extensionId,
+      run: definition.handler,
+    });
+  }
+
+  /**
+   * クリーンアップ - 全パレットコマンドを削除
+   */
+  dispose(): void {
+    commandPaletteRegistry.unregisterExtension(this.extensionId);
+  }
+}
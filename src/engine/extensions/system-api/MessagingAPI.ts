@@ -0,0 +1,70 @@
+/**
+ * Messaging API for Extensions
+ * 拡張機能同士がメッセージをやり取りするためのAPI
+ */
+
+import type { ExtensionContext } from '../types';
+
+/**
+ * メッセージハンドラー
+ * 戻り値（Promiseの場合は解決値）が送信元への応答になる
+ */
+export type ExtensionMessageHandler = (message: unknown, sender: string) => unknown;
+
+/**
+ * 全拡張機能で共有するメッセージバス (extensionId -> ハンドラー)
+ */
+const messageHandlers = new Map<string, Set<ExtensionMessageHandler>>();
+
+/**
+ * MessagingAPI - 拡張機能がメッセージを送受信するためのAPI
+ */
+export class MessagingAPI {
+  private extensionId: string;
+
+  constructor(context: ExtensionContext) {
+    this.extensionId = context.extensionId;
+  }
+
+  /**
+   * 他の拡張機能にメッセージを送信
+   * 受信側のハンドラーを登録順に呼び、最初に undefined 以外を返したものを応答とする
+   * 受信側がハンドラーを登録していない（有効化されていない）場合はエラー
+   */
+  async send(targetId: string, message: unknown): Promise<unknown> {
+    const handlers = messageHandlers.get(targetId);
+    if (!handlers || handlers.size === 0) {
+      throw new Error(`Extension '${targetId}' is not listening for messages`);
+    }
+
+    let response: unknown;
+    for (const handler of [...handlers]) {
+      const result = await handler(message, this.extensionId);
+      if (response === undefined) response = result;
+    }
+    return response;
+  }
+
+  /**
+   * この拡張機能宛てのメッセージを受信するハンドラーを登録
+   * @returns 登録解除関数
+   */
+  onMessage(handler: ExtensionMessageHandler): () => void {
+    let handlers = messageHandlers.get(this.extensionId);
+    if (!handlers) {
+      handlers = new Set();
+      messageHandlers.set(this.extensionId, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /**
+   * クリーンアップ - 全ハンドラーを削除
+   */
+  dispose(): void {
+    messageHandlers.delete(this.extensionId);
+  }
+}
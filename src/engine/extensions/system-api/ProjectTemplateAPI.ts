@@ -0,0 +1,42 @@
+/**
+ * Project Template API for Extensions
+ * 拡張機能が「新規プロジェクト」のテンプレートを追加するためのAPI
+ */
+
+import type { ExtensionContext } from '../types';
+
+import { projectTemplateRegistry } from '@/engine/templates/ProjectTemplateRegistry';
+import type { ProjectTemplateDefinition } from '@/engine/templates/types';
+
+/**
+ * ProjectTemplateAPI - 拡張機能がプロジェクトテンプレートを管理するためのAPI
+ */
+export class ProjectTemplateAPI {
+  private extensionId: string;
+
+  constructor(context: ExtensionContext) {
+    this.extensionId = context.extensionId;
+  }
+
+  /**
+   * テンプレートを登録
+   * IDは `${extensionId}.${definition.id}` で登録され、カテゴリの省略時は拡張機能IDになる
+   * @returns 登録解除関数
+   */
+  registerTemplate(definition: ProjectTemplateDefinition): () => void {
+    return projectTemplateRegistry.register({
+      ...definition,
+      id: `${this.extensionId}.${definition.id}`,
+      category: definition.category ?? this.extensionId,
+      source: 'extension',
+      extensionId: this.extensionId,
+    });
+  }
+
+  /**
+   * クリーンアップ - 全テンプレートを削除
+   */
+  dispose(): void {
+    projectTemplateRegistry.unregisterExtension(this.extensionId);
+  }
+}
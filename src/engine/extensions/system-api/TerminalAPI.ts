@@ -0,0 +1,29 @@
+/**
+ * Terminal API for Extensions
+ * 拡張機能がボトムパネルにターミナルを開き、コマンドを実行するためのAPI
+ */
+
+import type { ExtensionContext } from '../types';
+
+import { type OpenTerminalOptions, terminalSessionManager } from '@/engine/cmd/terminalSessions';
+
+/**
+ * TerminalAPI - 拡張機能がターミナルインスタンスを開くためのAPI
+ */
+export class TerminalAPI {
+  private extensionId: string;
+
+  constructor(context: ExtensionContext) {
+    this.extensionId = context.extensionId;
+  }
+
+  /**
+   * 現在のプロジェクトにターミナルを開き、指定されたコマンドを実行する
+   * @returns 開いたターミナルのID
+   */
+  async openTerminal(options: OpenTerminalOptions = {}): Promise<string> {
+    const id = await terminalSessionManager.openTerminal(options);
+    console.log(`[TerminalAPI] ${this.extensionId} opened terminal: ${id}`);
+    return id;
+  }
+}
@@ -53,7 +53,7 @@ export interface SystemModuleMap {
   commandRegistry: CommandRegistry;
   /** Terminal/CLI command singletons provider */
   systemBuiltinCommands: {
-    getUnixCommands: (projectName: string, projectId?: string) => UnixCommands;
+    getUnixCommands: (projectName: string, projectId?: string, terminalId?: string) => UnixCommands;
     getGitCommands: (projectName: string, projectId?: string) => GitCommands;
     getNpmCommands: (projectName: string, projectId?: string, projectPath?: string) => NpmCommands;
     /**
@@ -63,7 +63,7 @@ export interface SystemModuleMap {
     getShell: (
       projectName: string,
       projectId?: string,
-      opts?: { unix?: any; commandRegistry?: any; fileRepository?: any }
+      opts?: { unix?: any; commandRegistry?: any; fileRepository?: any; terminalId?: string }
     ) => Promise<StreamShell | null>;
   };
 }
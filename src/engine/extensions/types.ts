@@ -17,6 +17,10 @@
 
 import type { CommandHandler } from './commandRegistry';
 import type { ExplorerMenuItemDefinition } from './system-api/ExplorerMenuAPI';
+
+import type { OpenTerminalOptions } from '@/engine/cmd/terminalSessions';
+import type { PaletteCommandDefinition } from '@/engine/commands/types';
+import type { ProjectTemplateDefinition } from '@/engine/templates/types';
 import type {
   CreateTabOptions,
   ExtensionTabData,
@@ -208,12 +212,22 @@ export interface ExtensionContext {
     isReady?: () => boolean;
   }) => Promise<void>;
 
-  /** 他の拡張機能との通信 (オプション・未実装) */
-  messaging?: {
+  /**
+   * 他の拡張機能との通信
+   * - send: 宛先の onMessage ハンドラーの戻り値が応答になる（宛先が受信していなければ reject）
+   * - onMessage: sender は送信元の拡張機能ID。登録解除関数を返す
+   */
+  messaging: {
     send: (targetId: string, message: unknown) => Promise<unknown>;
-    onMessage: (handler: (message: unknown) => unknown) => void;
+    onMessage: (handler: (message: unknown, sender: string) => unknown) => () => void;
   };
 
+  /**
+   * 依存する拡張機能（manifest.dependencies）が activate() の api で公開したAPIを取得
+   * 依存関係に宣言されていない、または有効化されていない場合はエラー
+   */
+  getExtensionAPI: <T = unknown>(extensionId: string) => T;
+
   /** Tab API - 拡張機能が自分のタブを作成・管理 */
   tabs: {
     registerTabType: (component: any) => void;
@@ -241,9 +255,10 @@ export interface ExtensionContext {
     onPanelActivate: (panelId: string, callback: (panelId: string) => void | Promise<void>) => void;
   };
 
-  /** Commands API - 拡張機能がターミナルコマンドを追加 */
+  /** Commands API - 拡張機能がターミナルコマンド・コマンドパレットのコマンドを追加 */
   commands: {
     registerCommand: (commandName: string, handler: CommandHandler) => () => void;
+    registerPaletteCommand: (definition: PaletteCommandDefinition) => () => void;
   };
 
   /** Explorer Menu API - 拡張機能がExplorerコンテキストメニューに項目を追加 */
@@ -251,6 +266,16 @@ export interface ExtensionContext {
     addMenuItem: (definition: ExplorerMenuItemDefinition) => void;
     removeMenuItem: (itemId: string) => void;
   };
+
+  /** Terminal API - 拡張機能がターミナルを開いてコマンドを実行 */
+  terminal: {
+    openTerminal: (options?: OpenTerminalOptions) => Promise<string>;
+  };
+
+  /** Templates API - 拡張機能が新規プロジェクトのテンプレートを追加 */
+  templates: {
+    registerTemplate: (definition: ProjectTemplateDefinition) => () => void;
+  };
 }
 
 /**
@@ -294,6 +319,9 @@ export interface ExtensionActivation {
     [key: string]: unknown;
   };
 
+  /** 他の拡張機能に公開するAPI (依存する拡張機能が context.getExtensionAPI() で取得する) */
+  api?: unknown;
+
   /** サービスの実装 (serviceタイプの拡張機能のみ。現在は language-pack のみ使用) */
   services?: Record<string, unknown>;
 
@@ -0,0 +1,293 @@
+// アーカイブ（.zip / .tar / .tar.gz）やローカルフォルダから新しいプロジェクトを作成する
+// テキスト/バイナリは内容で判定し、.gitignore に一致するファイルは（指定があれば）取り込まない
+// 含まれている .git ディレクトリは GitFileSystem にそのまま書き込み、履歴として使えるようにする
+import JSZip from 'jszip';
+import pako from 'pako';
+import tarStream from 'tar-stream';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import { gitFileSystem } from '@/engine/core/gitFileSystem';
+import { isPathIgnored, parseGitignore } from '@/engine/core/gitignore';
+import { isLikelyTextFile } from '@/engine/helper/isLikelyTextFile';
+import type { Project } from '@/types';
+
+/**
+ * 取り込むエントリ（パスはソースのルートからの相対パス、content が null ならディレクトリ）
+ */
+export interface ImportEntry {
+  path: string;
+  content: Uint8Array | null;
+}
+
+export type ProjectImportSource =
+  | { kind: 'archive'; file: File }
+  | { kind: 'folder'; files: File[] };
+
+export interface ImportProjectOptions {
+  description?: string;
+  /** ルートの .gitignore に一致するファイルを取り込まない（デフォルト true） */
+  respectGitignore?: boolean;
+  /** ソースの名前（getImportSourceName）。同じ名前のトップレベルのディレクトリは取り除く */
+  sourceName?: string;
+}
+
+export interface ImportProjectResult {
+  project: Project;
+  /** 取り込んだファイル数（.git を除く） */
+  fileCount: number;
+  /** .gitignore により取り込まなかったファイル数 */
+  ignoredCount: number;
+  /** .git ディレクトリを取り込んだか */
+  hasGitHistory: boolean;
+}
+
+const ARCHIVE_EXTENSION = /\.(zip|tar\.gz|tgz|tar)$/i;
+
+/**
+ * ソースの名前（拡張子を除いたアーカイブのファイル名・選択したフォルダ名）
+ */
+export function getImportSourceName(source: ProjectImportSource): string {
+  return source.kind === 'archive'
+    ? source.file.name.replace(ARCHIVE_EXTENSION, '')
+    : (source.files[0]?.webkitRelativePath || source.files[0]?.name || '').split('/')[0];
+}
+
+/**
+ * ソースの名前からプロジェクト名の候補を作る（英数字とハイフンのみ）
+ */
+export function suggestProjectName(source: ProjectImportSource): string {
+  return getImportSourceName(source)
+    .replace(/[^a-zA-Z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/-{2,}/g, '-');
+}
+
+/**
+ * ソースからエントリを読み取る
+ */
+export async function readImportSource(source: ProjectImportSource): Promise<ImportEntry[]> {
+  if (source.kind === 'folder') {
+    return Promise.all(
+      source.files.map(async file => ({
+        path: file.webkitRelativePath || file.name,
+        content: new Uint8Array(await file.arrayBuffer()),
+      }))
+    );
+  }
+
+  const data = new Uint8Array(await source.file.arrayBuffer());
+  // 拡張子ではなく先頭のバイトで形式を判定する
+  if (data[0] === 0x50 && data[1] === 0x4b) return readZipEntries(data);
+  if (data[0] === 0x1f && data[1] === 0x8b) return readTarEntries(pako.ungzip(data));
+  if (isTarArchive(data)) return readTarEntries(data);
+  throw new Error(`Unsupported archive format: ${source.file.name}`);
+}
+
+/**
+ * ZIP のエントリを読み取る
+ */
+export async function readZipEntries(data: Uint8Array | ArrayBuffer): Promise<ImportEntry[]> {
+  const zip = await JSZip.loadAsync(data);
+  const entries: ImportEntry[] = [];
+  for (const [path, entry] of Object.entries(zip.files)) {
+    entries.push({ path, content: entry.dir ? null : await entry.async('uint8array') });
+  }
+  return entries;
+}
+
+/**
+ * tar のエントリを読み取る（ファイルとディレクトリのみ、シンボリックリンク等は無視）
+ */
+export function readTarEntries(data: Uint8Array): Promise<ImportEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: ImportEntry[] = [];
+    const extract = tarStream.extract();
+
+    extract.on('entry', (header, stream, next) => {
+      const chunks: Uint8Array[] = [];
+      stream.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+      stream.on('end', () => {
+        if (header.type === 'directory') {
+          entries.push({ path: header.name, content: null });
+        } else if (header.type === 'file' || header.type === 'contiguous-file') {
+          const content = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+          let offset = 0;
+          for (const chunk of chunks) {
+            content.set(chunk, offset);
+            offset += chunk.length;
+          }
+          entries.push({ path: header.name, content });
+        }
+        next();
+      });
+      stream.resume();
+    });
+    extract.on('finish', () => resolve(entries));
+    extract.on('error', reject);
+
+    extract.end(data);
+  });
+}
+
+/**
+ * ustar のマジック（257 バイト目からの "ustar"）があるか
+ */
+function isTarArchive(data: Uint8Array): boolean {
+  return data.length >= 512 && new TextDecoder().decode(data.subarray(257, 262)) === 'ustar';
+}
+
+/**
+ * エントリから新しいプロジェクトを作成する
+ */
+export async function importProject(
+  name: string,
+  sourceEntries: ImportEntry[],
+  options: ImportProjectOptions = {}
+): Promise<ImportProjectResult> {
+  const entries = stripCommonRoot(normalizeEntries(sourceEntries), [name, options.sourceName]);
+
+  const gitEntries = entries.filter(e => e.path === '.git' || e.path.startsWith('.git/'));
+  const workEntries = entries.filter(e => !gitEntries.includes(e));
+
+  // ルートの .gitignore に一致するものは取り込まない
+  let ignoredCount = 0;
+  let included = workEntries;
+  const gitignore = workEntries.find(e => e.path === '.gitignore' && e.content);
+  if (gitignore?.content && options.respectGitignore !== false) {
+    const rules = parseGitignore(new TextDecoder().decode(gitignore.content));
+    included = workEntries.filter(entry => {
+      const ignored = isPathIgnored(rules, entry.path, entry.content === null);
+      if (ignored && entry.content !== null) ignoredCount++;
+      return !ignored;
+    });
+  }
+
+  const files: Array<{
+    path: string;
+    content: string;
+    type: 'file' | 'folder';
+    isBufferArray?: boolean;
+    bufferContent?: ArrayBuffer;
+  }> = [];
+  const folders = new Set<string>();
+  const addParentFolders = (path: string) => {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+  };
+
+  for (const entry of included) {
+    if (entry.content === null) {
+      folders.add(entry.path);
+      addParentFolders(entry.path);
+      continue;
+    }
+    addParentFolders(entry.path);
+    if (await isLikelyTextFile(entry.path, entry.content)) {
+      files.push({
+        path: `/${entry.path}`,
+        content: new TextDecoder().decode(entry.content),
+        type: 'file',
+      });
+    } else {
+      files.push({
+        path: `/${entry.path}`,
+        content: '',
+        type: 'file',
+        isBufferArray: true,
+        bufferContent: entry.content.buffer.slice(
+          entry.content.byteOffset,
+          entry.content.byteOffset + entry.content.byteLength
+        ) as ArrayBuffer,
+      });
+    }
+  }
+
+  await fileRepository.init();
+  const project = await fileRepository.createEmptyProject(name, options.description);
+
+  // 親フォルダが先に作られるよう浅い順に並べる
+  const folderEntries = [...folders]
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .map(path => ({ path: `/${path}`, content: '', type: 'folder' as const }));
+  await fileRepository.createFilesBulk(project.id, [...folderEntries, ...files]);
+
+  for (const entry of gitEntries) {
+    if (entry.content !== null) {
+      await gitFileSystem.writeFile(project.name, `/${entry.path}`, entry.content);
+    }
+  }
+  if (gitEntries.length > 0) await gitFileSystem.flush();
+
+  return {
+    project,
+    fileCount: files.length,
+    ignoredCount,
+    hasGitHistory: gitEntries.some(e => e.path === '.git/HEAD'),
+  };
+}
+
+/**
+ * アーカイブ内のパスを / 区切りの相対パスにする
+ * 空のパスや、ルートの外を指す（.. を含む）パスは null
+ */
+export function normalizeArchivePath(rawPath: string): string | null {
+  const path = rawPath
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(part => part !== '' && part !== '.')
+    .join('/');
+  if (!path || path.split('/').includes('..')) return null;
+  return path;
+}
+
+/**
+ * パスを正規化し（区切り・先頭の ./ と / を除去）、外に出るパスや空のパスを捨てる
+ */
+function normalizeEntries(entries: ImportEntry[]): ImportEntry[] {
+  const result: ImportEntry[] = [];
+  for (const entry of entries) {
+    const path = normalizeArchivePath(entry.path);
+    if (!path) continue;
+    // macOS の ZIP に含まれるメタデータ
+    if (path === '__MACOSX' || path.startsWith('__MACOSX/')) continue;
+    result.push({ path, content: entry.content });
+  }
+  return result;
+}
+
+/** プロジェクトのルートに置かれるファイル（これを含むディレクトリはラッパーとみなす） */
+const PROJECT_ROOT_MARKERS = new Set([
+  '.git',
+  '.gitignore',
+  'package.json',
+  'tsconfig.json',
+  'README.md',
+  'index.html',
+  'pyproject.toml',
+  'Cargo.toml',
+  'go.mod',
+]);
+
+/**
+ * 全エントリが同じトップレベルのディレクトリの下にあり、それがラッパーであれば、その階層を取り除く
+ * （フォルダ選択や「フォルダを圧縮」したアーカイブは、フォルダ名が先頭に付く）
+ * ソース・プロジェクトと同じ名前か、直下にプロジェクトの目印があるディレクトリだけをラッパーとみなし、
+ * src/ だけのアーカイブなどはそのまま取り込む
+ */
+function stripCommonRoot(
+  entries: ImportEntry[],
+  wrapperNames: Array<string | undefined>
+): ImportEntry[] {
+  const files = entries.filter(e => e.content !== null);
+  if (files.length === 0) return entries;
+  const [root] = files[0].path.split('/');
+  const prefix = `${root}/`;
+  if (!files.every(e => e.path.startsWith(prefix))) return entries;
+  const isWrapper =
+    wrapperNames.includes(root) ||
+    files.some(e => PROJECT_ROOT_MARKERS.has(e.path.slice(prefix.length).split('/')[0]));
+  if (!isWrapper) return entries;
+  return entries
+    .filter(e => e.path !== root)
+    .map(e => ({ ...e, path: e.path.slice(prefix.length) }));
+}
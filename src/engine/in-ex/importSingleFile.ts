@@ -1,4 +1,5 @@
 import { fileRepository } from '@/engine/core/fileRepository';
+import { isLikelyTextFile } from '@/engine/helper/isLikelyTextFile';
 
 /**
  * [NEW ARCHITECTURE] ファイルアップロード(インポート)機能
@@ -14,11 +15,6 @@ export async function importSingleFile(
   projectName: string,
   projectId?: string
 ) {
-  // バイナリ拡張子リスト
-  const binaryExt =
-    /\.(png|jpg|jpeg|gif|bmp|webp|svg|pdf|zip|ico|tar|gz|rar|exe|dll|so|mp3|mp4|avi|mov|woff|woff2|ttf|eot)$/i;
-  const isBinary = binaryExt.test(file.name.toLowerCase());
-
   console.log(`[importSingleFile] [NEW ARCHITECTURE] ファイルアップロード開始: ${targetPath}`);
 
   // targetPath からプロジェクト内パスを抽出
@@ -30,13 +26,14 @@ export async function importSingleFile(
     return;
   }
 
-  if (!isBinary) {
+  // テキストかバイナリかは拡張子ではなく内容で判定する
+  const arrayBuffer = await file.arrayBuffer();
+  if (await isLikelyTextFile(file.name, new Uint8Array(arrayBuffer))) {
     // テキストファイルは直接createFileで登録（touch+echoの代替）
-    const content = await file.text();
+    const content = new TextDecoder().decode(arrayBuffer);
     await fileRepository.createFile(projectId, filePath, content, 'file');
   } else {
     // バイナリファイルはArrayBufferを渡して作成
-    const arrayBuffer = await file.arrayBuffer();
     await fileRepository.createFile(projectId, filePath, '', 'file', true, arrayBuffer);
   }
 
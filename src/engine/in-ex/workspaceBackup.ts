@@ -0,0 +1,522 @@
+// ワークスペース全体のバックアップ（ZIP）の作成・復元
+// 全プロジェクト（.git・.pyxis/settings.json を含む）と、storageService のキーバインド・
+// 拡張機能・チャットスペース・AIレビューを1つのアーカイブにまとめ、別のブラウザで復元できるようにする
+import JSZip from 'jszip';
+
+import { normalizeArchivePath } from './importProject';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import { gitFileSystem } from '@/engine/core/gitFileSystem';
+import { isLikelyTextFile } from '@/engine/helper/isLikelyTextFile';
+import { STORES, type StoreName, storageService } from '@/engine/storage';
+import { deleteChatSpacesForProject } from '@/engine/storage/chatStorageAdapter';
+import type { Project } from '@/types';
+
+/** アーカイブの形式のバージョン（形式を変えたら上げて、MIGRATIONS に変換を追加する） */
+export const WORKSPACE_BACKUP_VERSION = 1;
+
+const BACKUP_FORMAT = 'pyxis-workspace-backup';
+const MANIFEST_PATH = 'pyxis-backup.json';
+const BINARY_DIR = 'stores/binary';
+
+/** バックアップに含める storageService のストア */
+const BACKUP_STORES: StoreName[] = [
+  STORES.KEYBINDINGS,
+  STORES.EXTENSIONS,
+  STORES.CHAT_SPACES,
+  STORES.AI_REVIEWS,
+];
+
+export interface WorkspaceBackupProject {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** ZIP 内のプロジェクトのルート（末尾の / 付き） */
+  root: string;
+  /** バイナリとして復元するファイル（プロジェクト内のパス） */
+  binaryPaths: string[];
+}
+
+export interface WorkspaceBackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  projects: WorkspaceBackupProject[];
+  /** 含まれている storageService のストア（stores/<name>.json） */
+  stores: StoreName[];
+}
+
+export interface WorkspaceBackup {
+  manifest: WorkspaceBackupManifest;
+  /** 読み込んだアーカイブのバージョン（変換前） */
+  sourceVersion: number;
+  zip: JSZip;
+}
+
+/**
+ * 名前が重複したプロジェクトの扱い
+ * - rename: 空いている名前（name-2 など）で復元
+ * - replace: 既存のプロジェクトを削除して復元
+ * - skip: 復元しない
+ */
+export type RestoreConflictResolution = 'rename' | 'replace' | 'skip';
+
+export interface RestoreResult {
+  restored: Project[];
+  skipped: string[];
+}
+
+// ==================== 作成 ====================
+
+/**
+ * ワークスペース全体のバックアップを作成
+ */
+export async function createWorkspaceBackup(): Promise<Blob> {
+  await fileRepository.init();
+  const zip = new JSZip();
+  const projects = await fileRepository.getProjects();
+  const manifest: WorkspaceBackupManifest = {
+    format: BACKUP_FORMAT,
+    version: WORKSPACE_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    projects: [],
+    stores: [],
+  };
+
+  for (const project of projects) {
+    const root = `projects/${project.name}/`;
+    const binaryPaths: string[] = [];
+    for (const file of await fileRepository.getProjectFiles(project.id)) {
+      const path = file.path.replace(/^\/+/, '');
+      if (file.type === 'folder') {
+        zip.folder(`${root}${path}`);
+      } else if (file.isBufferArray && file.bufferContent) {
+        zip.file(`${root}${path}`, file.bufferContent);
+        binaryPaths.push(file.path);
+      } else {
+        zip.file(`${root}${path}`, file.content ?? '');
+      }
+    }
+
+    // .git はファイル一覧にないため GitFileSystem から読み取る
+    for (const gitFile of await readGitDirectory(project.name)) {
+      zip.file(`${root}${gitFile.path}`, gitFile.content);
+    }
+
+    manifest.projects.push({
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      createdAt: new Date(project.createdAt).toISOString(),
+      updatedAt: new Date(project.updatedAt).toISOString(),
+      root,
+      binaryPaths,
+    });
+  }
+
+  let binaryCount = 0;
+  const addBinary = (data: Uint8Array) => {
+    const path = `${BINARY_DIR}/${binaryCount++}.bin`;
+    zip.file(path, data);
+    return path;
+  };
+  for (const store of BACKUP_STORES) {
+    const entries = await storageService.getAll(store);
+    const encoded = [];
+    for (const entry of entries) {
+      encoded.push({ id: entry.id, data: await encodeStoreValue(entry.data, addBinary) });
+    }
+    zip.file(`stores/${store}.json`, JSON.stringify(encoded, null, 2));
+    manifest.stores.push(store);
+  }
+
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * ワークスペース全体のバックアップをダウンロード
+ */
+export async function downloadWorkspaceBackup(): Promise<void> {
+  const blob = await createWorkspaceBackup();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `pyxis-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 1000);
+}
+
+/**
+ * プロジェクトの .git 配下のファイルを再帰的に読み取る（パスはプロジェクトルートから）
+ */
+async function readGitDirectory(
+  projectName: string
+): Promise<Array<{ path: string; content: Uint8Array }>> {
+  const fs = gitFileSystem.getFS();
+  const projectDir = gitFileSystem.getProjectDir(projectName);
+  const result: Array<{ path: string; content: Uint8Array }> = [];
+
+  const walk = async (relativeDir: string) => {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(`${projectDir}/${relativeDir}`);
+    } catch {
+      return;
+    }
+    for (const name of names) {
+      const relativePath = `${relativeDir}/${name}`;
+      const stat = await fs.promises.stat(`${projectDir}/${relativePath}`);
+      if (stat.isDirectory()) {
+        await walk(relativePath);
+      } else {
+        const content = await fs.promises.readFile(`${projectDir}/${relativePath}`);
+        result.push({ path: relativePath, content: content as Uint8Array });
+      }
+    }
+  };
+  await walk('.git');
+  return result;
+}
+
+// ==================== 読み込み・バージョン変換 ====================
+
+type Migration = (
+  manifest: WorkspaceBackupManifest,
+  zip: JSZip
+) => Promise<WorkspaceBackupManifest>;
+
+/**
+ * バージョン n → n + 1 の変換
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 0: マニフェストのない、プロジェクト単位の ZIP エクスポート（<name>/.project.json + ファイル）
+  0: async (manifest, zip) => {
+    const projects: WorkspaceBackupProject[] = [];
+    for (const [path, projectFile] of Object.entries(zip.files)) {
+      const match = path.match(/^([^/]+)\/\.project\.json$/);
+      if (!match) continue;
+      const info = JSON.parse(await projectFile.async('string')) as Partial<Project>;
+      const root = `${match[1]}/`;
+      const binaryPaths: string[] = [];
+      for (const [entryPath, entry] of Object.entries(zip.files)) {
+        if (entry.dir || !entryPath.startsWith(root) || entryPath === path) continue;
+        const filePath = entryPath.slice(root.length - 1);
+        if (filePath.startsWith('/.git/')) continue;
+        if (!(await isLikelyTextFile(filePath, await entry.async('uint8array')))) {
+          binaryPaths.push(filePath);
+        }
+      }
+      const now = new Date().toISOString();
+      projects.push({
+        id: info.id ?? match[1],
+        name: info.name ?? match[1],
+        description: info.description,
+        createdAt: info.createdAt ? new Date(info.createdAt).toISOString() : now,
+        updatedAt: info.updatedAt ? new Date(info.updatedAt).toISOString() : now,
+        root,
+        binaryPaths,
+      });
+    }
+    return { ...manifest, version: 1, projects, stores: [] };
+  },
+};
+
+/**
+ * アーカイブを読み込み、マニフェストを現在のバージョンに変換する
+ */
+export async function readWorkspaceBackup(
+  data: Blob | ArrayBuffer | Uint8Array
+): Promise<WorkspaceBackup> {
+  const zip = await JSZip.loadAsync(data instanceof Blob ? await data.arrayBuffer() : data);
+
+  let manifest: WorkspaceBackupManifest;
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (manifestFile) {
+    manifest = JSON.parse(await manifestFile.async('string'));
+    if (manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+      throw new Error('Not a Pyxis workspace backup');
+    }
+  } else if (Object.keys(zip.files).some(path => /^[^/]+\/\.project\.json$/.test(path))) {
+    manifest = {
+      format: BACKUP_FORMAT,
+      version: 0,
+      createdAt: new Date().toISOString(),
+      projects: [],
+      stores: [],
+    };
+  } else {
+    throw new Error('Not a Pyxis workspace backup');
+  }
+
+  if (manifest.version > WORKSPACE_BACKUP_VERSION) {
+    throw new Error(
+      `Backup version ${manifest.version} is newer than supported version ${WORKSPACE_BACKUP_VERSION}`
+    );
+  }
+
+  const sourceVersion = manifest.version;
+  while (manifest.version < WORKSPACE_BACKUP_VERSION) {
+    const migrate = MIGRATIONS[manifest.version];
+    if (!migrate) throw new Error(`Unsupported backup version: ${manifest.version}`);
+    manifest = await migrate(manifest, zip);
+  }
+  return { manifest, sourceVersion, zip };
+}
+
+/**
+ * 既存のプロジェクトと名前が重複するプロジェクト名
+ */
+export async function findRestoreConflicts(backup: WorkspaceBackup): Promise<string[]> {
+  await fileRepository.init();
+  const existing = new Set((await fileRepository.getProjects()).map(p => p.name));
+  return backup.manifest.projects.map(p => p.name).filter(name => existing.has(name));
+}
+
+/**
+ * 重複しない名前（name-2, name-3, ...）
+ */
+export function getAvailableProjectName(name: string, existingNames: Iterable<string>): string {
+  const names = new Set(existingNames);
+  if (!names.has(name)) return name;
+  let n = 2;
+  while (names.has(`${name}-${n}`)) n++;
+  return `${name}-${n}`;
+}
+
+// ==================== 復元 ====================
+
+/**
+ * バックアップを復元する
+ * @param resolutions 名前が重複したプロジェクトの扱い（指定がなければ rename）
+ */
+export async function restoreWorkspaceBackup(
+  backup: WorkspaceBackup,
+  resolutions: Record<string, RestoreConflictResolution> = {}
+): Promise<RestoreResult> {
+  await fileRepository.init();
+  const { manifest, zip } = backup;
+  const existingProjects = await fileRepository.getProjects();
+  const usedNames = new Set(existingProjects.map(p => p.name));
+  const idMap = new Map<string, string>();
+  const result: RestoreResult = { restored: [], skipped: [] };
+
+  for (const entry of manifest.projects) {
+    let name = entry.name;
+    const existing = existingProjects.find(p => p.name === name);
+    if (existing) {
+      const resolution = resolutions[name] ?? 'rename';
+      if (resolution === 'skip') {
+        result.skipped.push(name);
+        continue;
+      }
+      if (resolution === 'replace') {
+        await fileRepository.deleteProject(existing.id);
+        // 削除はバックグラウンドでも行われるが、同じ名前のディレクトリに書き込む前に完了させる
+        await gitFileSystem.deleteProject(name);
+      } else {
+        name = getAvailableProjectName(name, usedNames);
+      }
+    }
+    usedNames.add(name);
+
+    const project = await fileRepository.createEmptyProject(name, entry.description);
+    const restoredProject = { ...project, createdAt: new Date(entry.createdAt) };
+    await fileRepository.saveProject(restoredProject);
+    idMap.set(entry.id, project.id);
+
+    await restoreProjectFiles(zip, entry, project);
+    result.restored.push(restoredProject);
+  }
+
+  await restoreStores(manifest, zip, idMap);
+  return result;
+}
+
+/**
+ * プロジェクトのファイルと .git を書き込む
+ */
+async function restoreProjectFiles(
+  zip: JSZip,
+  entry: WorkspaceBackupProject,
+  project: Project
+): Promise<void> {
+  const binaryPaths = new Set(entry.binaryPaths);
+  const files: Array<{
+    path: string;
+    content: string;
+    type: 'file' | 'folder';
+    isBufferArray?: boolean;
+    bufferContent?: ArrayBuffer;
+  }> = [];
+  const gitFiles: Array<{ path: string; content: Uint8Array }> = [];
+
+  for (const [zipPath, zipEntry] of Object.entries(zip.files)) {
+    if (!zipPath.startsWith(entry.root)) continue;
+    // プロジェクトの外（.. を含むパス）には書き込まない
+    const relativePath = normalizeArchivePath(zipPath.slice(entry.root.length));
+    if (!relativePath) continue;
+    const path = `/${relativePath}`;
+    if (path === '/.project.json') continue;
+    if (path === '/.git' || path.startsWith('/.git/')) {
+      if (!zipEntry.dir) gitFiles.push({ path, content: await zipEntry.async('uint8array') });
+      continue;
+    }
+    if (zipEntry.dir) {
+      files.push({ path, content: '', type: 'folder' });
+    } else if (binaryPaths.has(path)) {
+      const bytes = await zipEntry.async('uint8array');
+      files.push({
+        path,
+        content: '',
+        type: 'file',
+        isBufferArray: true,
+        bufferContent: bytes.buffer.slice(
+          bytes.byteOffset,
+          bytes.byteOffset + bytes.byteLength
+        ) as ArrayBuffer,
+      });
+    } else {
+      files.push({ path, content: await zipEntry.async('string'), type: 'file' });
+    }
+  }
+
+  // 親フォルダが先に作られるよう浅い順に並べる
+  files.sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  await fileRepository.createFilesBulk(project.id, files);
+
+  const fs = gitFileSystem.getFS();
+  const projectDir = gitFileSystem.getProjectDir(project.name);
+  for (const gitFile of gitFiles) {
+    const fullPath = `${projectDir}${gitFile.path}`;
+    await gitFileSystem.ensureDirectory(fullPath.substring(0, fullPath.lastIndexOf('/')));
+    await fs.promises.writeFile(fullPath, gitFile.content);
+  }
+  if (gitFiles.length > 0) await gitFileSystem.flush();
+}
+
+/**
+ * storageService のストアを書き込む
+ * プロジェクト単位のエントリ（キー: <種類>:<projectId>:...）は復元後のプロジェクト ID に付け替え、
+ * 復元しなかったプロジェクトのものは捨てる
+ */
+async function restoreStores(
+  manifest: WorkspaceBackupManifest,
+  zip: JSZip,
+  idMap: Map<string, string>
+): Promise<void> {
+  const archivedProjectIds = new Set(manifest.projects.map(p => p.id));
+  const readBinary = async (path: string) => {
+    const file = zip.file(path);
+    if (!file) throw new Error(`Missing binary data in backup: ${path}`);
+    return file.async('uint8array');
+  };
+
+  for (const store of manifest.stores) {
+    if (!BACKUP_STORES.includes(store)) continue;
+    const file = zip.file(`stores/${store}.json`);
+    if (!file) continue;
+    const entries = JSON.parse(await file.async('string')) as Array<{ id: string; data: unknown }>;
+
+    // バックアップにチャットスペースがあるプロジェクトは、作成時の初期チャットスペースを置き換える
+    if (store === STORES.CHAT_SPACES) {
+      const projectIds = new Set(entries.map(entry => idMap.get(entry.id.split(':')[1])));
+      for (const projectId of projectIds) {
+        if (projectId) await deleteChatSpacesForProject(projectId);
+      }
+    }
+
+    for (const entry of entries) {
+      const [kind, projectId, ...rest] = entry.id.split(':');
+      let id = entry.id;
+      let data = await decodeStoreValue(entry.data, readBinary);
+      if (projectId !== undefined && archivedProjectIds.has(projectId)) {
+        const newProjectId = idMap.get(projectId);
+        if (!newProjectId) continue;
+        id = [kind, newProjectId, ...rest].join(':');
+        if (data && typeof data === 'object' && 'projectId' in data) {
+          data = { ...data, projectId: newProjectId };
+        }
+      }
+      await storageService.set(store, id, data, { cache: false });
+    }
+  }
+}
+
+// ==================== ストアの値のエンコード ====================
+
+// JSON にできない値（バイナリ・日付）の表現
+type EncodedValue =
+  | { $pyxis: 'blob'; path: string; mimeType: string }
+  | { $pyxis: 'arraybuffer'; path: string }
+  | { $pyxis: 'uint8array'; path: string }
+  | { $pyxis: 'date'; value: string };
+
+async function encodeStoreValue(
+  value: unknown,
+  addBinary: (data: Uint8Array) => string
+): Promise<unknown> {
+  if (value instanceof Date) return { $pyxis: 'date', value: value.toISOString() };
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    const path = addBinary(new Uint8Array(await value.arrayBuffer()));
+    return { $pyxis: 'blob', path, mimeType: value.type };
+  }
+  if (value instanceof ArrayBuffer) {
+    return { $pyxis: 'arraybuffer', path: addBinary(new Uint8Array(value)) };
+  }
+  if (ArrayBuffer.isView(value)) {
+    const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return { $pyxis: 'uint8array', path: addBinary(bytes.slice()) };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => encodeStoreValue(item, addBinary)));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = await encodeStoreValue(item, addBinary);
+    }
+    return result;
+  }
+  return value;
+}
+
+async function decodeStoreValue(
+  value: unknown,
+  readBinary: (path: string) => Promise<Uint8Array>
+): Promise<unknown> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => decodeStoreValue(item, readBinary)));
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  if ('$pyxis' in value) {
+    const encoded = value as EncodedValue;
+    switch (encoded.$pyxis) {
+      case 'date':
+        return new Date(encoded.value);
+      case 'blob':
+        return new Blob([(await readBinary(encoded.path)) as BlobPart], {
+          type: encoded.mimeType,
+        });
+      case 'arraybuffer': {
+        const bytes = await readBinary(encoded.path);
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+      }
+      case 'uint8array':
+        return readBinary(encoded.path);
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = await decodeStoreValue(item, readBinary);
+  }
+  return result;
+}
@@ -0,0 +1,184 @@
+/**
+ * Webプレビュー用の仮想開発サーバー
+ *
+ * 実際の配信は Service Worker（public/sw.js）が `/preview/<project>/...` を
+ * IndexedDB のファイルリポジトリから直接返すことで行う。
+ * また `/localhost/<port>/...` は Node ランタイムの http.createServer で起動したサーバーに転送される。
+ * このモジュールはアプリ側の役割を担う:
+ * - TypeScript/JSX のトランスパイル要求に応答（transpileManager はページ側にしかないため）
+ * - 仮想HTTPサーバーへのリクエストを中継（サーバーはページ側の httpServerRegistry にある）
+ * - fileRepository の変更をプレビューへ通知（ライブリロード）
+ */
+
+import { type FileChangeEvent, fileRepository } from '@/engine/core/fileRepository';
+import {
+  type VirtualHttpRequest,
+  httpServerRegistry,
+} from '@/engine/runtime/nodejs/httpServerRegistry';
+import { transpileManager } from '@/engine/runtime/transpiler/transpileManager';
+
+/** ライブリロード用の BroadcastChannel 名（public/sw.js と共通） */
+export const PREVIEW_CHANNEL = 'pyxis-preview';
+
+/** Service Worker からのトランスパイル要求のメッセージ種別（public/sw.js と共通） */
+export const PREVIEW_TRANSPILE_MESSAGE = 'PYXIS_PREVIEW_TRANSPILE';
+
+/** Service Worker からの仮想HTTPサーバーへのリクエストのメッセージ種別（public/sw.js と共通） */
+export const PREVIEW_HTTP_MESSAGE = 'PYXIS_PREVIEW_HTTP';
+
+/** ライブリロード通知 */
+export interface PreviewFileChangeMessage {
+  type: 'file-change';
+  projectName: string;
+  path: string;
+  changeType: FileChangeEvent['type'];
+}
+
+/** トランスパイル要求への応答 */
+export interface PreviewTranspileResult {
+  code?: string;
+  error?: string;
+}
+
+/** 仮想HTTPサーバーへのリクエストへの応答（refused: このページにサーバーが無い） */
+export interface PreviewHttpResult {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: Uint8Array;
+  refused?: boolean;
+  error?: string;
+}
+
+function getBasePath(): string {
+  return process.env.NEXT_PUBLIC_BASE_PATH || '';
+}
+
+/**
+ * プロジェクト内のファイル（またはフォルダ）のプレビューURLを取得
+ * @param filePath プロジェクトルートからのパス（例: `/index.html`, `/docs`）
+ */
+export function getPreviewUrl(projectName: string, filePath = '/'): string {
+  const normalized = filePath.startsWith('/') ? filePath : `/${filePath}`;
+  const encodedPath = normalized
+    .split('/')
+    .map(segment => encodeURIComponent(segment))
+    .join('/');
+  return `${getBasePath()}/preview/${encodeURIComponent(projectName)}${encodedPath}`;
+}
+
+/**
+ * ローカルサーバー（http.createServer().listen(port)）のプレビューURLを取得
+ */
+export function getLocalServerPreviewUrl(port: number, path = '/'): string {
+  return `${getBasePath()}/localhost/${port}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Service Worker からの仮想HTTPサーバーへのリクエストを処理
+ */
+export async function handleHttpRequest(
+  port: number,
+  request: VirtualHttpRequest
+): Promise<PreviewHttpResult> {
+  if (!httpServerRegistry.isListening(port)) {
+    return { refused: true };
+  }
+  try {
+    const response = await httpServerRegistry.dispatch(port, request);
+    return { ...response };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Service Worker からのトランスパイル要求を処理
+ * 失敗した場合も例外は投げず、エラーメッセージを返す（SW側で 500 として返される）
+ */
+export async function handleTranspileRequest(
+  path: string,
+  code: string
+): Promise<PreviewTranspileResult> {
+  try {
+    return { code: await transpileManager.transpileForBrowser({ code, filePath: path }) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function handleServiceWorkerMessage(event: MessageEvent): void {
+  const data = event.data;
+  const port = event.ports[0];
+  if (!data || !port) return;
+
+  if (data.type === PREVIEW_TRANSPILE_MESSAGE) {
+    void handleTranspileRequest(data.path, data.code).then(result => port.postMessage(result));
+  } else if (data.type === PREVIEW_HTTP_MESSAGE) {
+    const { method, url, headers, body } = data;
+    void handleHttpRequest(data.port, { method, url, headers, body }).then(result =>
+      port.postMessage(result)
+    );
+  }
+}
+
+// プロジェクトID → プロジェクト名（変更通知ごとに全プロジェクトを読み直さない）
+const projectNames = new Map<string, string>();
+
+async function resolveProjectName(projectId: string): Promise<string | undefined> {
+  if (!projectNames.has(projectId)) {
+    const projects = await fileRepository.getProjects();
+    projectNames.clear();
+    for (const project of projects) {
+      projectNames.set(project.id, project.name);
+    }
+  }
+  return projectNames.get(projectId);
+}
+
+let startPromise: Promise<void> | null = null;
+
+/**
+ * プレビューサーバーを開始（何度呼んでも一度だけ初期化される）
+ * Service Worker が有効になるまで待つので、解決後にプレビューURLを iframe に設定する
+ */
+export function startPreviewServer(): Promise<void> {
+  if (!startPromise) {
+    startPromise = (async () => {
+      if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+        throw new Error('Service Worker is not supported in this browser');
+      }
+
+      const container = navigator.serviceWorker;
+      container.addEventListener('message', handleServiceWorkerMessage);
+      container.startMessages();
+
+      // sw-register.js が登録前でも確実に有効にする（登録済みなら同じ登録が返る）
+      await container.register(`${getBasePath()}/sw.js`);
+      await container.ready;
+
+      await fileRepository.init();
+      const channel = new BroadcastChannel(PREVIEW_CHANNEL);
+      fileRepository.addChangeListener(async (event: FileChangeEvent) => {
+        try {
+          const projectName = await resolveProjectName(event.projectId);
+          if (!projectName) return;
+          const message: PreviewFileChangeMessage = {
+            type: 'file-change',
+            projectName,
+            path: event.file.path,
+            changeType: event.type,
+          };
+          channel.postMessage(message);
+        } catch (error) {
+          console.warn('[PreviewServer] Failed to notify file change:', error);
+        }
+      });
+    })().catch(error => {
+      // 次回呼び出し時に再試行できるようにする
+      startPromise = null;
+      throw error;
+    });
+  }
+  return startPromise;
+}
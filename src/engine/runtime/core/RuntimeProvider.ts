@@ -143,6 +143,8 @@ export interface TranspilerProvider {
       isTypeScript?: boolean;
       isESModule?: boolean;
       isJSX?: boolean;
+      /** 'browser' の場合はESモジュールのまま出力する（既定は 'node'） */
+      target?: 'node' | 'browser';
     }
   ): Promise<{
     code: string;
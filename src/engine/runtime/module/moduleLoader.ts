@@ -10,11 +10,12 @@
 
 import { fsPathToAppPath, getParentPath, toAppPath } from '@/engine/core/pathUtils';
 import { runtimeRegistry } from '../core/RuntimeRegistry';
-import { ModuleCache } from './moduleCache';
-import { ModuleResolver } from './moduleResolver';
-import { createModuleNotFoundError } from '../nodejs/nodeErrors';
 import { runtimeError, runtimeInfo, runtimeWarn } from '../core/runtimeLogger';
+import { createModuleNotFoundError } from '../nodejs/nodeErrors';
+import { registerScript } from '../nodejs/sourceMapSupport';
 import { transpileManager } from '../transpiler/transpileManager';
+import { ModuleCache } from './moduleCache';
+import { ModuleResolver } from './moduleResolver';
 
 import { fileRepository } from '@/engine/core/fileRepository';
 
@@ -185,7 +186,7 @@ export class ModuleLoader {
 
       // トランスパイル済みコードと依存関係を取得（キャッシュ優先）
       const transpileResult = await this.getTranspiledCodeWithDeps(resolvedPath, fileContent);
-      const { code, dependencies } = transpileResult;
+      const { code, dependencies, sourceMap } = transpileResult;
 
       // デバッグ: codeとdependenciesの型を確認
       runtimeInfo('📝 Code type:', typeof code, 'Dependencies type:', typeof dependencies);
@@ -210,7 +211,7 @@ export class ModuleLoader {
 
       // すべての依存関係がロードされた後、モジュールを実行（同期実行）
       runtimeInfo('📝 About to execute module with code type:', typeof code);
-      const moduleExports = this.executeModule(code, resolvedPath);
+      const moduleExports = this.executeModule(code, resolvedPath, sourceMap);
 
       // 実行キャッシュを更新
       this.executionCache[resolvedPath].exports = moduleExports;
@@ -243,11 +244,12 @@ export class ModuleLoader {
    * トランスパイル済みコードと依存関係を取得
    *
    * 依存関係の事前ロードに使用する
+   * sourceMap はトランスパイル済みコード → 元のファイルの対応（スタックトレースの変換用）
    */
   async getTranspiledCodeWithDeps(
     filePath: string,
     content: string
-  ): Promise<{ code: string; dependencies: string[] }> {
+  ): Promise<{ code: string; dependencies: string[]; sourceMap?: string }> {
     // キャッシュをチェック
     const version = this.computeContentVersion(content);
     const cached = await this.cache.get(filePath, version);
@@ -262,7 +264,7 @@ export class ModuleLoader {
         'deps:',
         cached.deps
       );
-      return { code: cached.code, dependencies: cached.deps || [] };
+      return { code: cached.code, dependencies: cached.deps || [], sourceMap: cached.sourceMap };
     }
 
     // JSONファイルの場合はそのままJSオブジェクトとしてエクスポート
@@ -310,7 +312,7 @@ export class ModuleLoader {
           size: result.code.length,
         });
 
-        return { code: result.code, dependencies: deps };
+        return { code: result.code, dependencies: deps, sourceMap: result.map };
       } catch (error) {
         runtimeError(`❌ Transpiler failed: ${transpiler.id}`, error);
         throw error;
@@ -325,7 +327,7 @@ export class ModuleLoader {
       isESModule: this.isESModule(content),
       isJSX: false,
     });
-    
+
     // キャッシュに保存
     await this.cache.set(filePath, {
       originalPath: filePath,
@@ -337,8 +339,7 @@ export class ModuleLoader {
       size: result.code.length,
     });
 
-    // transpileManager.transpile は既に { code: string, dependencies: string[] } を返すので、そのまま返す
-    return result;
+    return { code: result.code, dependencies: result.dependencies, sourceMap: result.sourceMap };
   }
 
   /**
@@ -424,7 +425,7 @@ export class ModuleLoader {
   /**
    * モジュールを実行
    */
-  private executeModule(code: string, filePath: string): unknown {
+  private executeModule(code: string, filePath: string, sourceMap?: string): unknown {
     const module = { exports: {} };
     const exports = module.exports;
     const __filename = filePath;
@@ -610,12 +611,18 @@ export class ModuleLoader {
     // コードをラップして実行。console を受け取るようにして、モジュール内の
     // console.log 呼び出しがここで用意した sandboxConsole を使うようにする。
     // 同期実行のため async は削除
-    const wrappedCode = `
-      (function(module, exports, require, __filename, __dirname, console, process, Buffer, setTimeout, setInterval, clearTimeout, clearInterval, global) {
-        ${code}
-        return module.exports;
-      })
-    `;
+    // スタックトレースを元のファイルの位置に戻せるよう、コードは2行目の先頭から始め、
+    // sourceURL にファイルパスを付けてラッパーの行数とソースマップを登録する
+    const wrappedCode = `(function(module, exports, require, __filename, __dirname, console, process, Buffer, setTimeout, setInterval, clearTimeout, clearInterval, global) {
+${code}
+return module.exports;
+})
+//# sourceURL=${filePath}`;
+    registerScript(filePath, {
+      lineOffset: 1,
+      lineCount: code.split('\n').length,
+      sourceMap,
+    });
 
     try {
       const executeFunc = eval(wrappedCode);
@@ -123,7 +123,7 @@ export class ModuleResolver {
     }
 
     // 6. node_modules
-    const nodeModulePath = await this.resolveNodeModules(moduleName);
+    const nodeModulePath = await this.resolveNodeModules(moduleName, currentFilePath);
     if (nodeModulePath) {
       return {
         path: nodeModulePath.path,
@@ -190,7 +190,8 @@ export class ModuleResolver {
    * node_modulesからモジュールを解決
    */
   private async resolveNodeModules(
-    moduleName: string
+    moduleName: string,
+    currentFilePath: string
   ): Promise<{ path: string; packageJson?: PackageJson } | null> {
     // Validate module name is not empty
     if (!moduleName || moduleName.trim() === '') {
@@ -225,7 +226,8 @@ export class ModuleResolver {
     runtimeInfo('📦 Resolving node_modules:', { packageName, subPath });
 
     // package.jsonを読み込み
-    const packageJsonPath = `${this.projectDir}/node_modules/${packageName}/package.json`;
+    const packageDir = await this.findPackageDir(packageName, currentFilePath);
+    const packageJsonPath = `${packageDir}/package.json`;
     runtimeInfo('🔍 Looking for package.json at:', packageJsonPath);
 
     const packageJson = await this.loadPackageJson(packageJsonPath);
@@ -257,7 +259,7 @@ export class ModuleResolver {
       if (packageJson.exports) {
         const exportPath = this.resolveExports(packageJson.exports, `./${subPath}`);
         if (exportPath) {
-          const fullPath = `${this.projectDir}/node_modules/${packageName}/${exportPath}`;
+          const fullPath = `${packageDir}/${exportPath}`;
           if (await this.fileExists(fullPath)) {
             return { path: fullPath, packageJson };
           }
@@ -265,7 +267,7 @@ export class ModuleResolver {
       }
 
       // 直接パス
-      const directPath = `${this.projectDir}/node_modules/${packageName}/${subPath}`;
+      const directPath = `${packageDir}/${subPath}`;
       const finalPath = await this.addExtensionIfNeeded(directPath);
       if (finalPath) {
         return { path: finalPath, packageJson };
@@ -279,7 +281,7 @@ export class ModuleResolver {
       if (exportPath) {
         let ep = exportPath;
         if (ep.startsWith('./')) ep = ep.slice(2);
-        const fullExportPath = `${this.projectDir}/node_modules/${packageName}/${ep}`;
+        const fullExportPath = `${packageDir}/${ep}`;
         if (await this.fileExists(fullExportPath)) {
           runtimeInfo('✅ Resolved via exports["."]:', fullExportPath);
           return { path: fullExportPath, packageJson };
@@ -294,7 +296,7 @@ export class ModuleResolver {
       entryPoint = entryPoint.slice(2);
     }
     runtimeInfo('📦 Entry point:', entryPoint, 'for', packageName);
-    const fullPath = `${this.projectDir}/node_modules/${packageName}/${entryPoint}`;
+    const fullPath = `${packageDir}/${entryPoint}`;
     const finalPath = await this.addExtensionIfNeeded(fullPath);
 
     if (finalPath) {
@@ -306,6 +308,26 @@ export class ModuleResolver {
     return this.tryFallbackPaths(packageName, subPath);
   }
 
+  /**
+   * パッケージのディレクトリを探す
+   * Node.js と同様に require したファイルのディレクトリから親へ node_modules を遡り、
+   * 見つからなければプロジェクト直下の node_modules を返す（npx の実行キャッシュ内のパッケージ用）
+   */
+  private async findPackageDir(packageName: string, currentFilePath: string): Promise<string> {
+    const rootDir = `${this.projectDir}/node_modules/${packageName}`;
+    let dir = getParentPath(currentFilePath);
+    while (dir.startsWith(`${this.projectDir}/`)) {
+      if (!dir.endsWith('/node_modules')) {
+        const candidate = `${dir}/node_modules/${packageName}`;
+        if (candidate !== rootDir && (await this.fileExists(`${candidate}/package.json`))) {
+          return candidate;
+        }
+      }
+      dir = getParentPath(dir);
+    }
+    return rootDir;
+  }
+
   /**
    * package.jsonのimportsフィールドを解決 (#で始まるモジュール)
    */
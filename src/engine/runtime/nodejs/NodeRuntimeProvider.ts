@@ -6,8 +6,9 @@
  * - RuntimeProviderインターフェースを実装
  */
 
-import { NodeRuntime } from './nodeRuntime';
 import { runtimeInfo } from '../core/runtimeLogger';
+import { formatUncaughtError } from './nodeErrors';
+import { NodeRuntime } from './nodeRuntime';
 
 import { fileRepository } from '@/engine/core/fileRepository';
 
@@ -78,7 +79,8 @@ export class NodeRuntimeProvider implements RuntimeProvider {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
-        stderr: errorMessage,
+        // 実行したコードのエラーは元のファイルの位置に戻したスタック付きにする
+        stderr: formatUncaughtError(error) ?? errorMessage,
         exitCode: 1,
       };
     }
@@ -30,21 +30,36 @@
 import * as stream from 'node:stream';
 import { createAssertModule } from './modules/assertModule';
 import { Buffer } from './modules/bufferModule';
+import {
+  type ChildProcessModuleOptions,
+  createChildProcessModule,
+} from './modules/childProcessModule';
+import { createCryptoModule } from './modules/cryptoModule';
 import { createEventsModule } from './modules/eventsModule';
 import { type FSModuleOptions, createFSModule } from './modules/fsModule';
-import { createHTTPModule, createHTTPSModule } from './modules/httpModule';
+import { type HTTPModuleOptions, createHTTPModule, createHTTPSModule } from './modules/httpModule';
 import { createModuleModule } from './modules/moduleModule';
 import { createOSModule } from './modules/osModule';
 import { createPathModule } from './modules/pathModule';
+import { createQuerystringModule } from './modules/querystringModule';
 import { createReadlineModule } from './modules/readlineModule';
+import { createStringDecoderModule } from './modules/stringDecoderModule';
+import { type TimerFunctions, createTimersModule } from './modules/timersModule';
 import * as urlModule from './modules/urlModule';
 import { createUtilModule } from './modules/utilModule';
+import { createZlibModule } from './modules/zlibModule';
 
 export interface BuiltInModulesOptions {
   projectDir: string;
   projectId: string;
   projectName: string;
   onInput?: (prompt: string, callback: (input: string) => void) => void;
+  /** http.createServer の listen / close の通知（イベントループ追跡用） */
+  httpServerHooks?: HTTPModuleOptions;
+  /** timers / timers/promises が使うタイマー（省略時はグローバルのタイマー） */
+  timers?: TimerFunctions;
+  /** 子プロセスの開始・終了の通知（イベントループ追跡用） */
+  childProcessHooks?: Pick<ChildProcessModuleOptions, 'onSpawn' | 'onExit'>;
 }
 
 export interface BuiltInModules {
@@ -61,6 +76,12 @@ export interface BuiltInModules {
   readline: ReturnType<typeof createReadlineModule>;
   assert: any;
   module: ReturnType<typeof createModuleModule>;
+  crypto: ReturnType<typeof createCryptoModule>;
+  zlib: ReturnType<typeof createZlibModule>;
+  stringDecoder: ReturnType<typeof createStringDecoderModule>;
+  querystring: ReturnType<typeof createQuerystringModule>;
+  timers: ReturnType<typeof createTimersModule>;
+  childProcess: ReturnType<typeof createChildProcessModule>;
 }
 
 /**
@@ -70,15 +91,23 @@ export interface BuiltInModules {
  * @returns すべてのビルトインモジュール
  */
 export function createBuiltInModules(options: BuiltInModulesOptions): BuiltInModules {
-  const { projectDir, projectId, projectName, onInput } = options;
+  const {
+    projectDir,
+    projectId,
+    projectName,
+    onInput,
+    httpServerHooks,
+    timers,
+    childProcessHooks,
+  } = options;
 
   return {
     fs: createFSModule({ projectDir, projectId, projectName }),
     path: createPathModule(projectDir),
     os: createOSModule(),
     util: createUtilModule(),
-    http: createHTTPModule(),
-    https: createHTTPSModule(),
+    http: createHTTPModule(httpServerHooks),
+    https: createHTTPSModule(httpServerHooks),
     events: createEventsModule(),
     Buffer: Buffer,
     readline: createReadlineModule(onInput),
@@ -86,6 +115,12 @@ export function createBuiltInModules(options: BuiltInModulesOptions): BuiltInMod
     module: createModuleModule(),
     url: urlModule,
     stream: stream,
+    crypto: createCryptoModule(),
+    zlib: createZlibModule(),
+    stringDecoder: createStringDecoderModule(),
+    querystring: createQuerystringModule(),
+    timers: createTimersModule(timers),
+    childProcess: createChildProcessModule({ projectId, projectName, ...childProcessHooks }),
   };
 }
 
@@ -104,6 +139,12 @@ export {
   createReadlineModule,
   createAssertModule,
   createModuleModule,
+  createCryptoModule,
+  createZlibModule,
+  createStringDecoderModule,
+  createQuerystringModule,
+  createTimersModule,
+  createChildProcessModule,
   urlModule,
   stream,
 };
@@ -111,4 +152,4 @@ export {
 /**
  * 型定義のエクスポート
  */
-export type { FSModuleOptions };
+export type { FSModuleOptions, HTTPModuleOptions, TimerFunctions, ChildProcessModuleOptions };
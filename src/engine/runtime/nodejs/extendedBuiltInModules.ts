@@ -64,6 +64,15 @@ export async function resolveBuiltInModule(
     https: coreModules.https,
     buffer: { Buffer: coreModules.Buffer },
     readline: coreModules.readline,
+    stream: coreModules.stream,
+    'stream/promises': coreModules.stream.promises,
+    crypto: coreModules.crypto,
+    zlib: coreModules.zlib,
+    string_decoder: coreModules.stringDecoder,
+    querystring: coreModules.querystring,
+    timers: coreModules.timers,
+    'timers/promises': coreModules.timers.promises,
+    child_process: coreModules.childProcess,
   };
 
   return builtIns[moduleName] || null;
@@ -0,0 +1,155 @@
+/**
+ * [NEW ARCHITECTURE] ブラウザ内の仮想HTTPサーバーレジストリ
+ *
+ * ## 役割
+ * - `http.createServer().listen(port)` がポートにリクエストハンドラを登録する
+ * - Webプレビュー（Service Worker 経由）・`curl`・`http.request` がポート番号でハンドラを呼び出す
+ * - 実際のネットワークは使わず、同じページ内で完結する
+ */
+
+/**
+ * 仮想HTTPリクエスト
+ */
+export interface VirtualHttpRequest {
+  method: string;
+  /** パス + クエリ（例: `/api/users?page=1`） */
+  url: string;
+  headers: Record<string, string>;
+  body?: Uint8Array;
+}
+
+/**
+ * 仮想HTTPレスポンス
+ */
+export interface VirtualHttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Uint8Array;
+}
+
+export type VirtualHttpHandler = (request: VirtualHttpRequest) => Promise<VirtualHttpResponse>;
+
+// listen(0) で割り当てるポートの範囲（Node.js のエフェメラルポートと同じ）
+const EPHEMERAL_PORT_START = 49152;
+const EPHEMERAL_PORT_END = 65535;
+
+// ローカルホストとして扱うホスト名
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '0.0.0.0', '[::1]', '::1']);
+
+/**
+ * Node.js 形式のネットワークエラー（err.code で判定できる）
+ */
+export function createNetworkError(
+  code: 'EADDRINUSE' | 'ECONNREFUSED',
+  port: number
+): Error & { code: string; port: number } {
+  const message =
+    code === 'EADDRINUSE'
+      ? `listen EADDRINUSE: address already in use :::${port}`
+      : `connect ECONNREFUSED 127.0.0.1:${port}`;
+  return Object.assign(new Error(message), { code, port });
+}
+
+/**
+ * ローカルホストのURLからポートとパスを取り出す
+ * `localhost:3000`・`http://127.0.0.1:3000/api?x=1` などに対応し、それ以外は null
+ */
+export function parseLocalServerUrl(url: string): { port: number; path: string } | null {
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`;
+  let parsed: URL;
+  try {
+    parsed = new URL(withProtocol);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' || !LOCAL_HOSTNAMES.has(parsed.hostname)) return null;
+  const port = parsed.port ? Number(parsed.port) : 80;
+  return { port, path: `${parsed.pathname}${parsed.search}` };
+}
+
+/**
+ * 仮想HTTPサーバーレジストリ
+ */
+class HttpServerRegistry {
+  private handlers = new Map<number, VirtualHttpHandler>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * ポートにハンドラを登録
+   * @param port 0 の場合は空いているポートを割り当てる
+   * @returns 実際に割り当てたポート
+   * @throws EADDRINUSE 既に使用中の場合
+   */
+  listen(port: number, handler: VirtualHttpHandler): number {
+    const actualPort = port === 0 ? this.allocatePort() : port;
+    if (this.handlers.has(actualPort)) {
+      throw createNetworkError('EADDRINUSE', actualPort);
+    }
+    this.handlers.set(actualPort, handler);
+    this.notifyListeners();
+    return actualPort;
+  }
+
+  /**
+   * ポートの登録を解除（handler を指定した場合は同じハンドラの場合のみ）
+   */
+  close(port: number, handler?: VirtualHttpHandler): void {
+    if (handler && this.handlers.get(port) !== handler) return;
+    if (this.handlers.delete(port)) {
+      this.notifyListeners();
+    }
+  }
+
+  isListening(port: number): boolean {
+    return this.handlers.has(port);
+  }
+
+  /**
+   * 使用中のポート（昇順）
+   */
+  getPorts(): number[] {
+    return Array.from(this.handlers.keys()).sort((a, b) => a - b);
+  }
+
+  /**
+   * ポートのサーバーにリクエストを送る
+   * @throws ECONNREFUSED サーバーが無い場合
+   */
+  async dispatch(port: number, request: VirtualHttpRequest): Promise<VirtualHttpResponse> {
+    const handler = this.handlers.get(port);
+    if (!handler) {
+      throw createNetworkError('ECONNREFUSED', port);
+    }
+    return handler(request);
+  }
+
+  /**
+   * 変更リスナーを登録（listen / close 時に呼ばれる）
+   */
+  addChangeListener(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private allocatePort(): number {
+    for (let port = EPHEMERAL_PORT_START; port <= EPHEMERAL_PORT_END; port++) {
+      if (!this.handlers.has(port)) return port;
+    }
+    throw createNetworkError('EADDRINUSE', 0);
+  }
+
+  private notifyListeners(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[HttpServerRegistry] Error in change listener:', error);
+      }
+    }
+  }
+}
+
+export const httpServerRegistry = new HttpServerRegistry();
+
+export default httpServerRegistry;
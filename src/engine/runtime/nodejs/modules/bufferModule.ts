@@ -2,6 +2,92 @@
  * [NEW ARCHITECTURE] Buffer クラスのエミュレーション
  */
 
+/**
+ * 文字列をエンコーディングに従ってバイト列に変換（utf8 / hex / base64 / latin1 / ascii / utf16le）
+ */
+export function encodeString(str: string, encoding = 'utf8'): Uint8Array {
+  switch (encoding.toLowerCase()) {
+    case 'hex': {
+      const bytes = new Uint8Array(Math.floor(str.length / 2));
+      for (let i = 0; i < bytes.length; i++) {
+        const byte = Number.parseInt(str.slice(i * 2, i * 2 + 2), 16);
+        if (Number.isNaN(byte)) return bytes.slice(0, i);
+        bytes[i] = byte;
+      }
+      return bytes;
+    }
+    case 'base64':
+    case 'base64url': {
+      const normalized = str
+        .replace(/-/g, '+')
+        .replace(/_/g, '/')
+        .replace(/[^A-Za-z0-9+/]/g, '');
+      const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+      return Uint8Array.from(binary, c => c.charCodeAt(0));
+    }
+    case 'latin1':
+    case 'binary':
+    case 'ascii':
+      return Uint8Array.from(str, c => c.charCodeAt(0) & 0xff);
+    case 'ucs2':
+    case 'ucs-2':
+    case 'utf16le':
+    case 'utf-16le': {
+      const bytes = new Uint8Array(str.length * 2);
+      for (let i = 0; i < str.length; i++) {
+        const code = str.charCodeAt(i);
+        bytes[i * 2] = code & 0xff;
+        bytes[i * 2 + 1] = code >> 8;
+      }
+      return bytes;
+    }
+    default:
+      return new TextEncoder().encode(str);
+  }
+}
+
+/**
+ * バイト列をエンコーディングに従って文字列に変換
+ */
+export function decodeBytes(bytes: Uint8Array, encoding = 'utf8'): string {
+  switch (encoding.toLowerCase()) {
+    case 'hex':
+      return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    case 'base64':
+    case 'base64url': {
+      const base64 = btoa(decodeBytes(bytes, 'latin1'));
+      return encoding.toLowerCase() === 'base64'
+        ? base64
+        : base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+    case 'latin1':
+    case 'binary':
+    case 'ascii': {
+      const mask = encoding.toLowerCase() === 'ascii' ? 0x7f : 0xff;
+      let result = '';
+      for (const byte of bytes) result += String.fromCharCode(byte & mask);
+      return result;
+    }
+    default:
+      return new TextDecoder(encoding).decode(bytes);
+  }
+}
+
+/**
+ * Buffer（エミュレーション）・Uint8Array・ArrayBuffer・文字列をバイト列に変換
+ */
+export function toUint8Array(chunk: unknown, encoding?: string): Uint8Array {
+  if (chunk instanceof Uint8Array) return chunk;
+  if (chunk && (chunk as { _data?: unknown })._data instanceof Uint8Array) {
+    return (chunk as { _data: Uint8Array })._data;
+  }
+  if (chunk instanceof ArrayBuffer) return new Uint8Array(chunk);
+  if (ArrayBuffer.isView(chunk)) {
+    return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  }
+  return encodeString(String(chunk), encoding);
+}
+
 class BufferEmulation {
   public _data: Uint8Array;
 
@@ -27,8 +113,7 @@ class BufferEmulation {
 
   static from(data: string | ArrayBuffer | ArrayLike<number>, encoding?: string): BufferEmulation {
     if (typeof data === 'string') {
-      const encoder = new TextEncoder();
-      return new BufferEmulation(encoder.encode(data));
+      return new BufferEmulation(encodeString(data, encoding));
     }
     if (data instanceof ArrayBuffer) {
       return new BufferEmulation(data);
@@ -55,9 +140,12 @@ class BufferEmulation {
     return result;
   }
 
+  static isBuffer(obj: unknown): boolean {
+    return obj instanceof BufferEmulation;
+  }
+
   toString(encoding = 'utf8'): string {
-    const decoder = new TextDecoder(encoding);
-    return decoder.decode(this._data);
+    return decodeBytes(this._data, encoding);
   }
 
   toJSON(): { type: 'Buffer'; data: number[] } {
@@ -0,0 +1,252 @@
+/**
+ * [NEW ARCHITECTURE] child_process モジュールのエミュレーション
+ *
+ * 子プロセスはターミナルと同じ StreamShell でコマンドを実行する。
+ * 実行中のターミナルとジョブや cwd を共有しないよう、子プロセスごとに専用のシェルを作り、終了後に破棄する。
+ * ブラウザではプロセスを同期的に待てないため、execSync / spawnSync / execFileSync / fork はサポートしない。
+ */
+
+import EventEmitter from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+
+export interface ChildProcessModuleOptions {
+  projectId: string;
+  projectName: string;
+  /** 子プロセスの開始・終了の通知（イベントループ追跡用） */
+  onSpawn?: (child: ChildProcess) => void;
+  onExit?: (child: ChildProcess) => void;
+}
+
+interface SpawnOptions {
+  cwd?: string;
+  shell?: boolean | string;
+}
+
+type ExecCallback = (error: ExecError | null, stdout: string, stderr: string) => void;
+
+type ExecError = Error & {
+  code: number | null;
+  killed: boolean;
+  signal: string | null;
+  cmd: string;
+};
+
+// pid は子プロセスごとに連番で割り当てる（シェルのスコープ名にも使う）
+let nextPid = 3000;
+
+/**
+ * シェルの単語として安全な形にクォートする
+ */
+function quoteArg(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function buildCommandLine(command: string, args: string[], options: SpawnOptions): string {
+  return options.shell ? [command, ...args].join(' ') : [command, ...args].map(quoteArg).join(' ');
+}
+
+export class ChildProcess extends EventEmitter {
+  public readonly pid = nextPid++;
+  public readonly stdin = new PassThrough();
+  public readonly stdout = new PassThrough();
+  public readonly stderr = new PassThrough();
+  public exitCode: number | null = null;
+  public signalCode: string | null = null;
+  public killed = false;
+  public readonly spawnfile: string;
+  public readonly spawnargs: string[];
+  private killShell: ((signal: string) => void) | null = null;
+  private killSignal: string | null = null;
+
+  constructor(
+    private options: ChildProcessModuleOptions,
+    commandLine: string,
+    command: string,
+    args: string[],
+    cwd?: string
+  ) {
+    super();
+    this.spawnfile = command;
+    this.spawnargs = [command, ...args];
+    options.onSpawn?.(this);
+    void this.run(commandLine, cwd);
+  }
+
+  /**
+   * フォアグラウンドのコマンドにシグナルを送る（Ctrl+C と同じ扱い）
+   */
+  kill(signal = 'SIGTERM'): boolean {
+    if (this.exitCode !== null || this.signalCode !== null) return false;
+    this.killed = true;
+    this.killSignal = signal;
+    this.killShell?.(signal);
+    return true;
+  }
+
+  ref(): this {
+    return this;
+  }
+
+  unref(): this {
+    return this;
+  }
+
+  private async run(commandLine: string, cwd?: string): Promise<void> {
+    const { projectId, projectName } = this.options;
+    const terminalId = `child_process-${this.pid}`;
+    const { terminalCommandRegistry } = await import('@/engine/cmd/terminalRegistry');
+
+    try {
+      const shell = await terminalCommandRegistry.getShell(projectName, projectId, {
+        fileRepository,
+        terminalId,
+      });
+      if (!shell) {
+        throw Object.assign(new Error(`spawn ${this.spawnfile} ENOENT`), { code: 'ENOENT' });
+      }
+      const onData = {
+        stdout: (data: string) => this.stdout.write(data),
+        stderr: (data: string) => this.stderr.write(data),
+      };
+      // cwd は先に移動しておく（stdin をコマンド本体だけに渡すため）
+      const cd = cwd ? await shell.run(`cd ${quoteArg(cwd)}`, onData) : null;
+      // stdin への書き込みはコマンドの標準入力に流れ、end() で EOF になる
+      const running = cd?.code ? Promise.resolve(cd) : shell.run(commandLine, onData, this.stdin);
+      this.killShell = signal => shell.killForeground(signal);
+      this.emit('spawn');
+      // spawn 前に kill された場合
+      if (this.killSignal) this.killShell(this.killSignal);
+      const result = await running;
+
+      if (this.killSignal) {
+        this.signalCode = this.killSignal;
+      } else {
+        this.exitCode = result.code ?? 0;
+      }
+    } catch (error) {
+      this.exitCode = -2;
+      // Node.js と同様、'error' のリスナーが無ければ握りつぶさずに表示する
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      } else {
+        console.error(error);
+      }
+    } finally {
+      terminalCommandRegistry.disposeTerminal(projectId, terminalId);
+    }
+
+    const code = this.signalCode ? null : this.exitCode;
+    this.emit('exit', code, this.signalCode);
+    this.stdout.end();
+    this.stderr.end();
+    // 'close' は stdio が閉じた後
+    setTimeout(() => {
+      this.emit('close', code, this.signalCode);
+      this.options.onExit?.(this);
+    }, 0);
+  }
+}
+
+export function createChildProcessModule(options: ChildProcessModuleOptions) {
+  function spawn(command: string, args?: string[] | SpawnOptions, spawnOptions?: SpawnOptions) {
+    const argList = Array.isArray(args) ? args : [];
+    const opts = (Array.isArray(args) ? spawnOptions : args) ?? {};
+    return new ChildProcess(
+      options,
+      buildCommandLine(command, argList, opts),
+      command,
+      argList,
+      opts.cwd
+    );
+  }
+
+  function runWithOutput(
+    child: ChildProcess,
+    commandLine: string,
+    callback?: ExecCallback
+  ): ChildProcess {
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', chunk => {
+      stdout += chunk;
+    });
+    child.stderr.on('data', chunk => {
+      stderr += chunk;
+    });
+    child.on('error', error => callback?.(error as ExecError, stdout, stderr));
+    child.on('close', (code: number | null, signal: string | null) => {
+      if (!callback || child.exitCode === -2) return;
+      if (code === 0) {
+        callback(null, stdout, stderr);
+        return;
+      }
+      const error = Object.assign(new Error(`Command failed: ${commandLine}\n${stderr}`), {
+        code,
+        killed: child.killed,
+        signal,
+        cmd: commandLine,
+      });
+      callback(error, stdout, stderr);
+    });
+    return child;
+  }
+
+  /**
+   * コマンドラインをシェルで実行し、終了後に stdout / stderr をまとめてコールバックに渡す
+   */
+  function exec(
+    command: string,
+    execOptions?: SpawnOptions | ExecCallback,
+    callback?: ExecCallback
+  ): ChildProcess {
+    const cb = typeof execOptions === 'function' ? execOptions : callback;
+    const opts = typeof execOptions === 'function' ? {} : (execOptions ?? {});
+    const commandLine = buildCommandLine(command, [], { ...opts, shell: true });
+    return runWithOutput(
+      new ChildProcess(options, commandLine, command, [], opts.cwd),
+      commandLine,
+      cb
+    );
+  }
+
+  function execFile(
+    file: string,
+    args?: string[] | SpawnOptions | ExecCallback,
+    execOptions?: SpawnOptions | ExecCallback,
+    callback?: ExecCallback
+  ): ChildProcess {
+    const rest = [args, execOptions, callback];
+    const argList = (rest.find(Array.isArray) as string[] | undefined) ?? [];
+    const opts = (rest.find(v => v && typeof v === 'object' && !Array.isArray(v)) ??
+      {}) as SpawnOptions;
+    const cb = rest.find(v => typeof v === 'function') as ExecCallback | undefined;
+    const commandLine = buildCommandLine(file, argList, { ...opts, shell: false });
+    return runWithOutput(
+      new ChildProcess(options, commandLine, file, argList, opts.cwd),
+      commandLine,
+      cb
+    );
+  }
+
+  const unsupported = (name: string) => () => {
+    throw new Error(
+      `child_process.${name} is not supported in the browser runtime. Use exec() or spawn() instead.`
+    );
+  };
+
+  return {
+    ChildProcess,
+    spawn,
+    exec,
+    execFile,
+    execSync: unsupported('execSync'),
+    execFileSync: unsupported('execFileSync'),
+    spawnSync: unsupported('spawnSync'),
+    fork: unsupported('fork'),
+  };
+}
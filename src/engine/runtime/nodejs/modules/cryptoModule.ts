@@ -0,0 +1,160 @@
+/**
+ * [NEW ARCHITECTURE] crypto モジュールのエミュレーション
+ *
+ * - createHash / createHmac は同期APIなので crypto-browserify で計算する（WebCrypto の digest は非同期）
+ * - randomBytes / randomUUID / randomInt / webcrypto はブラウザの WebCrypto を使う
+ * - 暗号化（createCipheriv 等）・pbkdf2 は crypto-browserify をそのまま公開する
+ */
+
+import cryptoBrowserify from 'crypto-browserify';
+
+import { Buffer, decodeBytes, toUint8Array } from './bufferModule';
+
+// crypto.getRandomValues は一度に 65536 バイトまで
+const MAX_RANDOM_BYTES_PER_CALL = 65536;
+
+type Callback<T> = (err: Error | null, result?: T) => void;
+
+interface NativeDigest {
+  update(data: string | Uint8Array, encoding?: string): unknown;
+  digest(): Uint8Array;
+}
+
+/**
+ * Hash / Hmac（update は Buffer エミュレーションも受け付け、digest は Buffer エミュレーションを返す）
+ */
+class Digest {
+  private digested = false;
+
+  constructor(private native: NativeDigest) {}
+
+  update(data: unknown, encoding?: string): this {
+    if (this.digested) throw new Error('Digest already called');
+    if (typeof data === 'string') {
+      this.native.update(data, encoding);
+    } else {
+      this.native.update(toUint8Array(data));
+    }
+    return this;
+  }
+
+  digest(encoding?: string): unknown {
+    if (this.digested) throw new Error('Digest already called');
+    this.digested = true;
+    const bytes = toUint8Array(this.native.digest());
+    return encoding ? decodeBytes(bytes, encoding) : Buffer.from(bytes);
+  }
+}
+
+function getWebCrypto(): Crypto {
+  if (!globalThis.crypto?.getRandomValues) {
+    throw new Error('WebCrypto is not available in this environment');
+  }
+  return globalThis.crypto;
+}
+
+function fillRandom(bytes: Uint8Array): Uint8Array {
+  const webcrypto = getWebCrypto();
+  for (let offset = 0; offset < bytes.length; offset += MAX_RANDOM_BYTES_PER_CALL) {
+    webcrypto.getRandomValues(bytes.subarray(offset, offset + MAX_RANDOM_BYTES_PER_CALL));
+  }
+  return bytes;
+}
+
+function randomBytes(size: number, callback?: Callback<unknown>): unknown {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new RangeError(`The value of "size" is out of range. Received ${size}`);
+  }
+  const buffer = Buffer.from(fillRandom(new Uint8Array(size)));
+  if (callback) {
+    Promise.resolve().then(() => callback(null, buffer));
+    return undefined;
+  }
+  return buffer;
+}
+
+function randomUUID(): string {
+  const webcrypto = getWebCrypto();
+  if (typeof webcrypto.randomUUID === 'function') {
+    return webcrypto.randomUUID();
+  }
+  // randomUUID は secure context でしか使えないため、乱数から RFC 4122 v4 を組み立てる
+  const bytes = fillRandom(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = decodeBytes(bytes, 'hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * min 以上 max 未満の整数（max のみ指定した場合は 0 以上 max 未満）
+ */
+function randomInt(
+  minOrMax: number,
+  maxOrCallback?: number | Callback<number>,
+  callback?: Callback<number>
+) {
+  const hasMin = typeof maxOrCallback === 'number';
+  const min = hasMin ? minOrMax : 0;
+  const max = hasMin ? (maxOrCallback as number) : minOrMax;
+  const cb = hasMin ? callback : (maxOrCallback as Callback<number> | undefined);
+  const range = max - min;
+  if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || range <= 0) {
+    throw new RangeError(`The value of "max" is out of range. It must be greater than "min"`);
+  }
+  // 剰余による偏りを避けるため、range の倍数に収まらない値は引き直す
+  const limit = 2 ** 32 - (2 ** 32 % range);
+  const values = new Uint32Array(1);
+  let value: number;
+  do {
+    getWebCrypto().getRandomValues(values);
+    value = values[0];
+  } while (value >= limit);
+  const result = min + (value % range);
+  if (cb) {
+    Promise.resolve().then(() => cb(null, result));
+    return undefined;
+  }
+  return result;
+}
+
+function timingSafeEqual(a: unknown, b: unknown): boolean {
+  const left = toUint8Array(a);
+  const right = toUint8Array(b);
+  if (left.length !== right.length) {
+    throw new RangeError('Input buffers must have the same byte length');
+  }
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i];
+  }
+  return diff === 0;
+}
+
+export function createCryptoModule() {
+  return {
+    ...cryptoBrowserify,
+    createHash: (algorithm: string) => new Digest(cryptoBrowserify.createHash(algorithm)),
+    createHmac: (algorithm: string, key: unknown) =>
+      new Digest(
+        cryptoBrowserify.createHmac(algorithm, typeof key === 'string' ? key : toUint8Array(key))
+      ),
+    randomBytes,
+    pseudoRandomBytes: randomBytes,
+    randomFillSync: (buffer: unknown) => {
+      fillRandom(toUint8Array(buffer));
+      return buffer;
+    },
+    randomUUID,
+    randomInt,
+    timingSafeEqual,
+    getRandomValues: <T extends Uint8Array | Uint16Array | Uint32Array>(array: T) =>
+      getWebCrypto().getRandomValues(array),
+    get webcrypto() {
+      return getWebCrypto();
+    },
+    get subtle() {
+      return getWebCrypto().subtle;
+    },
+  };
+}
@@ -1,7 +1,23 @@
 /**
  * [NEW ARCHITECTURE] http/https モジュールのエミュレーション
+ *
+ * - クライアント（http.request / http.get）は fetch で送信する
+ * - localhost 宛てのリクエストと http.createServer は仮想HTTPサーバーレジストリで処理する
+ *   （Webプレビュー・curl からも同じサーバーにアクセスできる）
  */
 
+import EventEmitter from 'node:events';
+
+import { Buffer, toUint8Array } from './bufferModule';
+
+import {
+  type VirtualHttpHandler,
+  type VirtualHttpRequest,
+  type VirtualHttpResponse,
+  httpServerRegistry,
+  parseLocalServerUrl,
+} from '../httpServerRegistry';
+
 interface RequestOptions {
   hostname?: string;
   port?: number;
@@ -21,7 +37,34 @@ interface RequestOptions {
   protocol?: string;
 }
 
-// IncomingMessageクラス（レスポンス）
+const STATUS_CODES: { [code: number]: string } = {
+  100: 'Continue',
+  101: 'Switching Protocols',
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  300: 'Multiple Choices',
+  301: 'Moved Permanently',
+  302: 'Found',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  413: 'Payload Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+// IncomingMessageクラス（レスポンス・サーバーが受け取るリクエスト）
 class IncomingMessage {
   public statusCode = 200;
   public statusMessage = 'OK';
@@ -235,6 +278,13 @@ class ClientRequest {
     const url = `${protocol}//${hostname}${port !== 80 && port !== 443 ? `:${port}` : ''}${path}`;
 
     try {
+      // localhost 宛ては仮想HTTPサーバーへ（ブラウザから実際の localhost には接続しない）
+      const local = protocol === 'http:' ? parseLocalServerUrl(url) : null;
+      if (local) {
+        await this._sendLocalRequest(local.port, local.path, method);
+        return;
+      }
+
       const response = await fetch(url, {
         method,
         headers: this._options.headers,
@@ -269,12 +319,334 @@ class ClientRequest {
       this.emit('error', error);
     }
   }
+
+  private async _sendLocalRequest(port: number, path: string, method: string): Promise<void> {
+    const headers: { [key: string]: string } = { host: `localhost:${port}` };
+    for (const [key, value] of Object.entries(this._options.headers || {})) {
+      headers[key.toLowerCase()] = String(value);
+    }
+    const hasBody = method !== 'GET' && method !== 'HEAD' && this._body.length > 0;
+
+    const response = await httpServerRegistry.dispatch(port, {
+      method,
+      url: path,
+      headers,
+      body: hasBody ? new TextEncoder().encode(this._body) : undefined,
+    });
+
+    const incomingMessage = new IncomingMessage();
+    incomingMessage.statusCode = response.status;
+    incomingMessage.statusMessage = response.statusText;
+    incomingMessage.headers = { ...response.headers };
+
+    this._response = incomingMessage;
+    this.emit('response', incomingMessage);
+    // レスポンスハンドラが data / end のリスナーを登録してから流す
+    setTimeout(() => {
+      if (response.body.length > 0) {
+        incomingMessage._addData(response.body);
+      }
+      incomingMessage._end();
+    }, 0);
+  }
+}
+
+/**
+ * http モジュールのオプション
+ */
+export interface HTTPModuleOptions {
+  /** サーバーが listen を開始したとき（NodeRuntime がプロセスを終了させないために使う） */
+  onServerListening?: (server: Server) => void;
+  /** サーバーが close したとき */
+  onServerClose?: (server: Server) => void;
+}
+
+// http.createServer のリクエストハンドラ
+type RequestListener = (req: IncomingMessage, res: ServerResponse) => void;
+// write / end の完了コールバック
+type WriteCallback = (error?: Error | null) => void;
+
+// Node.js と同じ code 付きのエラー
+function createHttpError(message: string, code: string): Error & { code: string } {
+  return Object.assign(new Error(message), { code });
+}
+
+// ServerResponseクラス（サーバーが返すレスポンス）
+class ServerResponse extends EventEmitter {
+  public statusCode = 200;
+  public statusMessage = '';
+  public headersSent = false;
+  public writableEnded = false;
+  public finished = false;
+  public sendDate = true;
+  public req: IncomingMessage;
+  private _headers = new Map<string, { name: string; value: string | string[] }>();
+  private _chunks: Uint8Array[] = [];
+  private _onFinish: (response: VirtualHttpResponse) => void;
+
+  constructor(req: IncomingMessage, onFinish: (response: VirtualHttpResponse) => void) {
+    super();
+    this.req = req;
+    this._onFinish = onFinish;
+  }
+
+  setHeader(name: string, value: string | number | readonly string[]): this {
+    if (this.headersSent) {
+      throw createHttpError(
+        'Cannot set headers after they are sent to the client',
+        'ERR_HTTP_HEADERS_SENT'
+      );
+    }
+    this._headers.set(name.toLowerCase(), {
+      name,
+      value: Array.isArray(value) ? value.map(String) : String(value),
+    });
+    return this;
+  }
+
+  getHeader(name: string): string | string[] | undefined {
+    return this._headers.get(name.toLowerCase())?.value;
+  }
+
+  getHeaders(): { [key: string]: string | string[] } {
+    const headers: { [key: string]: string | string[] } = {};
+    for (const [key, { value }] of this._headers) {
+      headers[key] = value;
+    }
+    return headers;
+  }
+
+  getHeaderNames(): string[] {
+    return Array.from(this._headers.keys());
+  }
+
+  hasHeader(name: string): boolean {
+    return this._headers.has(name.toLowerCase());
+  }
+
+  removeHeader(name: string): void {
+    this._headers.delete(name.toLowerCase());
+  }
+
+  writeHead(
+    statusCode: number,
+    reasonOrHeaders?: string | { [key: string]: string | number | string[] },
+    headers?: { [key: string]: string | number | string[] }
+  ): this {
+    this.statusCode = statusCode;
+    if (typeof reasonOrHeaders === 'string') {
+      this.statusMessage = reasonOrHeaders;
+    }
+    const fields = typeof reasonOrHeaders === 'object' ? reasonOrHeaders : headers;
+    for (const [name, value] of Object.entries(fields || {})) {
+      this.setHeader(name, value);
+    }
+    this.headersSent = true;
+    return this;
+  }
+
+  flushHeaders(): void {
+    this.headersSent = true;
+  }
+
+  write(
+    chunk: string | Uint8Array,
+    encoding?: string | WriteCallback,
+    callback?: WriteCallback
+  ): boolean {
+    const done = typeof encoding === 'function' ? encoding : callback;
+    if (this.writableEnded) {
+      this.emit('error', createHttpError('write after end', 'ERR_STREAM_WRITE_AFTER_END'));
+      return false;
+    }
+    this.headersSent = true;
+    if (chunk !== undefined && chunk !== null) {
+      this._chunks.push(toUint8Array(chunk, typeof encoding === 'string' ? encoding : undefined));
+    }
+    if (done) done();
+    return true;
+  }
+
+  end(
+    chunk?: string | Uint8Array | WriteCallback,
+    encoding?: string | WriteCallback,
+    callback?: WriteCallback
+  ): this {
+    const done =
+      typeof chunk === 'function' ? chunk : typeof encoding === 'function' ? encoding : callback;
+    if (this.writableEnded) return this;
+    if (chunk !== undefined && chunk !== null && typeof chunk !== 'function') {
+      this.write(chunk, typeof encoding === 'string' ? encoding : undefined);
+    }
+    this.headersSent = true;
+    this.writableEnded = true;
+    this.finished = true;
+    this._onFinish(this._toResponse());
+    if (done) done();
+    this.emit('finish');
+    this.emit('close');
+    return this;
+  }
+
+  setTimeout(msecs: number, callback?: () => void): this {
+    return this;
+  }
+
+  private _toResponse(): VirtualHttpResponse {
+    const headers: { [key: string]: string } = {};
+    for (const [key, { value }] of this._headers) {
+      headers[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    if (this.sendDate && !headers.date) {
+      headers.date = new Date().toUTCString();
+    }
+
+    const length = this._chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const body = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of this._chunks) {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return {
+      status: this.statusCode,
+      statusText: this.statusMessage || STATUS_CODES[this.statusCode] || '',
+      headers,
+      body,
+    };
+  }
 }
 
-export function createHTTPModule() {
+// Serverクラス（http.createServer）
+// listen すると仮想HTTPサーバーレジストリにポートを登録する
+class Server extends EventEmitter {
+  public listening = false;
+  private _port: number | null = null;
+  private _handler: VirtualHttpHandler | null = null;
+  private _options: HTTPModuleOptions;
+
+  constructor(options: HTTPModuleOptions, requestListener?: RequestListener) {
+    super();
+    this._options = options;
+    if (requestListener) {
+      this.on('request', requestListener);
+    }
+  }
+
+  /**
+   * listen(port?, host?, backlog?, callback?) / listen({ port }, callback?)
+   */
+  listen(...args: unknown[]): this {
+    const callback =
+      typeof args[args.length - 1] === 'function' ? (args.pop() as () => void) : null;
+    const first = args[0];
+    const port =
+      typeof first === 'object' && first !== null
+        ? Number((first as { port?: number | string }).port ?? 0)
+        : Number(first ?? 0);
+
+    if (callback) {
+      this.once('listening', callback);
+    }
+    if (this.listening) {
+      throw createHttpError(
+        'Listen method has been called more than once without closing.',
+        'ERR_SERVER_ALREADY_LISTEN'
+      );
+    }
+
+    const handler: VirtualHttpHandler = request => this._handleRequest(request);
+    try {
+      this._port = httpServerRegistry.listen(port, handler);
+    } catch (error) {
+      setTimeout(() => this.emit('error', error), 0);
+      return this;
+    }
+    this._handler = handler;
+    this.listening = true;
+    this._options.onServerListening?.(this);
+    setTimeout(() => this.emit('listening'), 0);
+    return this;
+  }
+
+  address(): { address: string; family: string; port: number } | null {
+    if (!this.listening || this._port === null) return null;
+    return { address: '::', family: 'IPv6', port: this._port };
+  }
+
+  close(callback?: (error?: Error) => void): this {
+    if (!this.listening || this._port === null) {
+      if (callback) {
+        const error = createHttpError('Server is not running.', 'ERR_SERVER_NOT_RUNNING');
+        setTimeout(() => callback(error), 0);
+      }
+      return this;
+    }
+    if (callback) {
+      this.once('close', callback);
+    }
+    httpServerRegistry.close(this._port, this._handler ?? undefined);
+    this.listening = false;
+    this._handler = null;
+    this._options.onServerClose?.(this);
+    setTimeout(() => this.emit('close'), 0);
+    return this;
+  }
+
+  closeAllConnections(): void {}
+  closeIdleConnections(): void {}
+  setTimeout(msecs?: number, callback?: () => void): this {
+    return this;
+  }
+  ref(): this {
+    return this;
+  }
+  unref(): this {
+    return this;
+  }
+
+  private _handleRequest(request: VirtualHttpRequest): Promise<VirtualHttpResponse> {
+    return new Promise(resolve => {
+      const req = new IncomingMessage();
+      req.method = request.method;
+      req.url = request.url;
+      req.headers = { ...request.headers };
+      req.rawHeaders = Object.entries(request.headers).flat();
+      // Express などが参照するソケット情報
+      const socket = { remoteAddress: '127.0.0.1', remotePort: 0, encrypted: false };
+      Object.assign(req, { socket, connection: socket });
+
+      const res = new ServerResponse(req, resolve);
+      try {
+        this.emit('request', req, res);
+      } catch (error) {
+        console.error(error);
+        if (!res.writableEnded) {
+          res.statusCode = 500;
+          res.end(error instanceof Error ? (error.stack ?? error.message) : String(error));
+        }
+        return;
+      }
+
+      // ハンドラがリスナーを登録してからボディを流す
+      setTimeout(() => {
+        if (request.body && request.body.length > 0) {
+          req._addData(Buffer.from(request.body) as unknown as Uint8Array);
+        }
+        req._end();
+      }, 0);
+    });
+  }
+}
+
+export function createHTTPModule(options: HTTPModuleOptions = {}) {
   return {
     request: (options: RequestOptions | string, callback?: Function): ClientRequest => {
-      return new ClientRequest(options, callback);
+      return new ClientRequest(
+        typeof options === 'string' ? options : { protocol: 'http:', ...options },
+        callback
+      );
     },
     get: (options: RequestOptions | string, callback?: Function): ClientRequest => {
       if (typeof options === 'string') {
@@ -287,47 +659,31 @@ export function createHTTPModule() {
           method: 'GET',
         };
       }
-      const req = new ClientRequest({ ...options, method: 'GET' }, callback);
+      const req = new ClientRequest({ protocol: 'http:', ...options, method: 'GET' }, callback);
       req.end();
       return req;
     },
-    createServer: (requestListener?: Function): any => {
-      console.warn('http.createServer is not supported in browser environment');
-      return {
-        listen: () => {},
-        close: () => {},
-      };
+    createServer: (
+      optionsOrListener?: Record<string, unknown> | RequestListener,
+      requestListener?: RequestListener
+    ): Server => {
+      const listener =
+        typeof optionsOrListener === 'function' ? optionsOrListener : requestListener;
+      return new Server(options, listener);
     },
     Agent: class Agent {},
     globalAgent: new (class Agent {})(),
-    STATUS_CODES: {
-      100: 'Continue',
-      101: 'Switching Protocols',
-      200: 'OK',
-      201: 'Created',
-      202: 'Accepted',
-      204: 'No Content',
-      300: 'Multiple Choices',
-      301: 'Moved Permanently',
-      302: 'Found',
-      304: 'Not Modified',
-      400: 'Bad Request',
-      401: 'Unauthorized',
-      403: 'Forbidden',
-      404: 'Not Found',
-      405: 'Method Not Allowed',
-      500: 'Internal Server Error',
-      502: 'Bad Gateway',
-      503: 'Service Unavailable',
-    },
+    STATUS_CODES,
     METHODS: ['GET', 'POST', 'PUT', 'DELETE', 'HEAD', 'OPTIONS', 'PATCH', 'TRACE', 'CONNECT'],
     IncomingMessage,
     ClientRequest,
+    Server,
+    ServerResponse,
   };
 }
 
-export function createHTTPSModule() {
-  const httpModule = createHTTPModule();
+export function createHTTPSModule(options: HTTPModuleOptions = {}) {
+  const httpModule = createHTTPModule(options);
 
   return {
     ...httpModule,
@@ -350,9 +706,12 @@ export function createHTTPSModule() {
       req.end();
       return req;
     },
-    createServer: (options?: any, requestListener?: Function): any => {
-      console.warn('https.createServer is not supported in browser environment');
-      return httpModule.createServer(requestListener);
+    // TLS は扱わない（仮想サーバーは http として動作する）
+    createServer: (
+      options?: Record<string, unknown> | RequestListener,
+      requestListener?: RequestListener
+    ): Server => {
+      return httpModule.createServer(options, requestListener);
     },
     Agent: class Agent extends httpModule.Agent {},
     globalAgent: new (class Agent extends httpModule.Agent {})(),
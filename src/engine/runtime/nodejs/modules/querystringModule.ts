@@ -0,0 +1,107 @@
+/**
+ * [NEW ARCHITECTURE] querystring モジュールのエミュレーション
+ */
+
+type ParsedQuery = Record<string, string | string[]>;
+
+interface ParseOptions {
+  maxKeys?: number;
+  decodeURIComponent?: (str: string) => string;
+}
+
+interface StringifyOptions {
+  encodeURIComponent?: (str: string) => string;
+}
+
+function qsEscape(str: string): string {
+  return encodeURIComponent(str);
+}
+
+/**
+ * 不正なエスケープ（`%zz` 等）があっても例外にせず、できる範囲でデコードする
+ */
+function qsUnescape(str: string): string {
+  try {
+    return decodeURIComponent(str);
+  } catch {
+    return str.replace(/(%[0-9a-f]{2})+/gi, match => {
+      try {
+        return decodeURIComponent(match);
+      } catch {
+        return match;
+      }
+    });
+  }
+}
+
+function stringifyPrimitive(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if ((typeof value === 'number' && Number.isFinite(value)) || typeof value === 'bigint') {
+    return String(value);
+  }
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return '';
+}
+
+function parse(str: string, sep = '&', eq = '=', options: ParseOptions = {}): ParsedQuery {
+  const result: ParsedQuery = Object.create(null);
+  if (typeof str !== 'string' || str.length === 0) return result;
+
+  const decode = options.decodeURIComponent ?? qsUnescape;
+  const maxKeys = options.maxKeys ?? 1000;
+  let pairs = str.split(sep);
+  if (maxKeys > 0) pairs = pairs.slice(0, maxKeys);
+
+  for (const pair of pairs) {
+    if (pair.length === 0) continue;
+    const index = pair.indexOf(eq);
+    const rawKey = index >= 0 ? pair.slice(0, index) : pair;
+    const rawValue = index >= 0 ? pair.slice(index + eq.length) : '';
+    const key = decode(rawKey.replace(/\+/g, ' '));
+    const value = decode(rawValue.replace(/\+/g, ' '));
+
+    const existing = result[key];
+    if (existing === undefined) {
+      result[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[key] = [existing, value];
+    }
+  }
+  return result;
+}
+
+function stringify(
+  obj: Record<string, unknown> | null | undefined,
+  sep = '&',
+  eq = '=',
+  options: StringifyOptions = {}
+): string {
+  if (obj === null || typeof obj !== 'object') return '';
+  const encode = options.encodeURIComponent ?? qsEscape;
+
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(obj)) {
+    const encodedKey = `${encode(stringifyPrimitive(key))}${eq}`;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        parts.push(encodedKey + encode(stringifyPrimitive(item)));
+      }
+    } else {
+      parts.push(encodedKey + encode(stringifyPrimitive(value)));
+    }
+  }
+  return parts.join(sep);
+}
+
+export function createQuerystringModule() {
+  return {
+    parse,
+    stringify,
+    decode: parse,
+    encode: stringify,
+    escape: qsEscape,
+    unescape: qsUnescape,
+  };
+}
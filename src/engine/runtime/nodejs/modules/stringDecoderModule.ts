@@ -0,0 +1,71 @@
+/**
+ * [NEW ARCHITECTURE] string_decoder モジュールのエミュレーション
+ *
+ * チャンクの境界で分割されたマルチバイト文字を次の write まで持ち越す
+ */
+
+import { decodeBytes, toUint8Array } from './bufferModule';
+
+// 文字の途中で切れないよう、何バイト単位で区切るか（utf8 / utf16le は TextDecoder が処理する）
+const BYTE_GROUP: Record<string, number> = {
+  base64: 3,
+  base64url: 3,
+};
+
+function normalizeEncoding(encoding = 'utf8'): string {
+  const lower = encoding.toLowerCase();
+  if (lower === 'utf-8') return 'utf8';
+  if (lower === 'ucs2' || lower === 'ucs-2' || lower === 'utf-16le') return 'utf16le';
+  if (lower === 'binary') return 'latin1';
+  return lower;
+}
+
+class StringDecoder {
+  public readonly encoding: string;
+  private decoder: TextDecoder | null = null;
+  private pending = new Uint8Array(0);
+
+  constructor(encoding?: string) {
+    this.encoding = normalizeEncoding(encoding);
+    if (this.encoding === 'utf8') {
+      this.decoder = new TextDecoder('utf-8');
+    } else if (this.encoding === 'utf16le') {
+      this.decoder = new TextDecoder('utf-16le');
+    } else if (!['hex', 'base64', 'base64url', 'latin1', 'ascii'].includes(this.encoding)) {
+      throw new TypeError(`Unknown encoding: ${encoding}`);
+    }
+  }
+
+  write(chunk: unknown): string {
+    if (typeof chunk === 'string') return chunk;
+    const bytes = toUint8Array(chunk);
+    if (this.decoder) {
+      return this.decoder.decode(bytes, { stream: true });
+    }
+
+    const group = BYTE_GROUP[this.encoding] ?? 1;
+    const joined = new Uint8Array(this.pending.length + bytes.length);
+    joined.set(this.pending);
+    joined.set(bytes, this.pending.length);
+    const usable = joined.length - (joined.length % group);
+    this.pending = joined.slice(usable);
+    return decodeBytes(joined.subarray(0, usable), this.encoding);
+  }
+
+  end(chunk?: unknown): string {
+    let result = chunk === undefined ? '' : this.write(chunk);
+    if (this.decoder) {
+      result += this.decoder.decode();
+    } else if (this.pending.length > 0) {
+      result += decodeBytes(this.pending, this.encoding);
+    }
+    this.pending = new Uint8Array(0);
+    return result;
+  }
+}
+
+export function createStringDecoderModule() {
+  return {
+    StringDecoder,
+  };
+}
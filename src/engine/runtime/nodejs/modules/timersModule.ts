@@ -0,0 +1,127 @@
+/**
+ * [NEW ARCHITECTURE] timers / timers/promises モジュールのエミュレーション
+ *
+ * NodeRuntime のタイマー（イベントループ追跡用にラップされたもの）を受け取って使う
+ */
+
+export interface TimerFunctions {
+  setTimeout: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number;
+  clearTimeout: (id?: number) => void;
+  setInterval: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number;
+  clearInterval: (id?: number) => void;
+}
+
+interface TimerPromiseOptions {
+  signal?: AbortSignal;
+  ref?: boolean;
+}
+
+const defaultTimers: TimerFunctions = {
+  setTimeout: (handler, timeout, ...args) =>
+    globalThis.setTimeout(handler, timeout, ...args) as unknown as number,
+  clearTimeout: id => globalThis.clearTimeout(id),
+  setInterval: (handler, timeout, ...args) =>
+    globalThis.setInterval(handler, timeout, ...args) as unknown as number,
+  clearInterval: id => globalThis.clearInterval(id),
+};
+
+function createAbortError(signal: AbortSignal): Error {
+  return Object.assign(new Error('The operation was aborted'), {
+    name: 'AbortError',
+    code: 'ABORT_ERR',
+    cause: signal.reason,
+  });
+}
+
+/**
+ * timers/promises
+ */
+export function createTimersPromisesModule(timers: TimerFunctions = defaultTimers) {
+  function setTimeoutPromise<T = void>(
+    delay?: number,
+    value?: T,
+    options: TimerPromiseOptions = {}
+  ): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError(signal));
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        timers.clearTimeout(id);
+        reject(createAbortError(signal as AbortSignal));
+      };
+      const id = timers.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  function setImmediatePromise<T = void>(value?: T, options: TimerPromiseOptions = {}) {
+    return setTimeoutPromise(0, value, options);
+  }
+
+  /**
+   * `for await (const value of setInterval(100, 'tick'))` の形で使う
+   */
+  async function* setIntervalPromise<T = void>(
+    delay?: number,
+    value?: T,
+    options: TimerPromiseOptions = {}
+  ): AsyncGenerator<T> {
+    const { signal } = options;
+    if (signal?.aborted) throw createAbortError(signal);
+
+    let pending = 0;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+    const id = timers.setInterval(() => {
+      pending++;
+      notify();
+    }, delay);
+    signal?.addEventListener('abort', notify, { once: true });
+
+    try {
+      while (true) {
+        if (pending === 0) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+        if (signal?.aborted) throw createAbortError(signal);
+        pending--;
+        yield value as T;
+      }
+    } finally {
+      timers.clearInterval(id);
+      signal?.removeEventListener('abort', notify);
+    }
+  }
+
+  return {
+    setTimeout: setTimeoutPromise,
+    setImmediate: setImmediatePromise,
+    setInterval: setIntervalPromise,
+    scheduler: {
+      wait: (delay: number, options?: TimerPromiseOptions) =>
+        setTimeoutPromise(delay, undefined, options),
+      yield: () => setImmediatePromise(),
+    },
+  };
+}
+
+/**
+ * timers
+ */
+export function createTimersModule(timers: TimerFunctions = defaultTimers) {
+  return {
+    ...timers,
+    setImmediate: (callback: (...args: unknown[]) => void, ...args: unknown[]) =>
+      timers.setTimeout(() => callback(...args), 0),
+    clearImmediate: (id?: number) => timers.clearTimeout(id),
+    promises: createTimersPromisesModule(timers),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * [NEW ARCHITECTURE] zlib モジュールのエミュレーション
+ *
+ * - 同期API（gzipSync 等）とストリーム（createGzip 等）は pako で処理する
+ * - コールバックAPIの展開は、使える環境では DecompressionStream（ネイティブ）を使い、失敗したら pako に戻す
+ */
+
+import { Transform, type TransformCallback } from 'node:stream';
+import pako from 'pako';
+
+import { Buffer, toUint8Array } from './bufferModule';
+
+type ZlibFormat = 'gzip' | 'deflate' | 'deflate-raw';
+
+type ZlibOptions = pako.DeflateFunctionOptions & { chunkSize?: number };
+
+type ZlibCallback = (err: Error | null, result?: unknown) => void;
+
+const ERROR_CODES: Record<number, string> = {
+  [-2]: 'Z_STREAM_ERROR',
+  [-3]: 'Z_DATA_ERROR',
+  [-5]: 'Z_BUF_ERROR',
+};
+
+/**
+ * pako は文字列を throw するので、Node.js と同じく errno / code 付きの Error にする
+ */
+function toZlibError(error: unknown, errno = -3): Error {
+  if (error instanceof Error) return error;
+  return Object.assign(new Error(String(error)), {
+    errno,
+    code: ERROR_CODES[errno] ?? 'Z_DATA_ERROR',
+  });
+}
+
+function compress(format: ZlibFormat, data: unknown, options?: ZlibOptions): Uint8Array {
+  const bytes = toUint8Array(data);
+  if (format === 'gzip') return pako.gzip(bytes, options);
+  if (format === 'deflate-raw') return pako.deflateRaw(bytes, options);
+  return pako.deflate(bytes, options);
+}
+
+function decompress(format: ZlibFormat | 'auto', data: unknown): Uint8Array {
+  const bytes = toUint8Array(data);
+  let result: Uint8Array | undefined;
+  try {
+    // pako.inflate はヘッダーから gzip / zlib を自動判別する
+    result = format === 'deflate-raw' ? pako.inflateRaw(bytes) : pako.inflate(bytes);
+  } catch (error) {
+    throw toZlibError(error);
+  }
+  // 途中で切れたデータは例外ではなく undefined が返る
+  if (!result) throw toZlibError('unexpected end of file', -5);
+  return result;
+}
+
+async function decompressNative(format: ZlibFormat, bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream(format) as unknown as ReadableWritablePair<Uint8Array>);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function syncMethod(run: (data: unknown, options?: ZlibOptions) => Uint8Array) {
+  return (data: unknown, options?: ZlibOptions) => Buffer.from(run(data, options));
+}
+
+function callbackMethod(run: (data: unknown, options?: ZlibOptions) => Promise<Uint8Array>) {
+  return (data: unknown, options?: ZlibOptions | ZlibCallback, callback?: ZlibCallback) => {
+    const cb = (typeof options === 'function' ? options : callback) as ZlibCallback;
+    const opts = typeof options === 'function' ? undefined : options;
+    run(data, opts).then(
+      result => cb(null, Buffer.from(result)),
+      error => cb(toZlibError(error))
+    );
+  };
+}
+
+/**
+ * 展開（コールバックAPI）: DecompressionStream → pako の順に試す
+ */
+async function decompressAsync(format: ZlibFormat | 'auto', data: unknown): Promise<Uint8Array> {
+  const bytes = toUint8Array(data);
+  const nativeFormat: ZlibFormat =
+    format === 'auto' ? (bytes[0] === 0x1f && bytes[1] === 0x8b ? 'gzip' : 'deflate') : format;
+  if (typeof DecompressionStream !== 'undefined') {
+    try {
+      return await decompressNative(nativeFormat, bytes);
+    } catch {
+      // 壊れたデータ等はエラーメッセージを得るため pako で処理し直す
+    }
+  }
+  return decompress(format, bytes);
+}
+
+/**
+ * 圧縮・展開ストリーム（書き込み側は Buffer エミュレーションも受け付ける）
+ */
+class ZlibTransform extends Transform {
+  private engine: pako.Deflate | pako.Inflate;
+
+  constructor(mode: 'compress' | 'decompress', format: ZlibFormat | 'auto', options?: ZlibOptions) {
+    super({ writableObjectMode: true });
+    const raw = format === 'deflate-raw';
+    this.engine =
+      mode === 'compress'
+        ? new pako.Deflate({ ...options, gzip: format === 'gzip', raw })
+        : new pako.Inflate(options?.chunkSize ? { raw, chunkSize: options.chunkSize } : { raw });
+    this.engine.onData = chunk => {
+      this.push(new Uint8Array(chunk as Uint8Array));
+    };
+  }
+
+  _transform(chunk: unknown, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.engine.push(toUint8Array(chunk, encoding), false);
+    callback(this.engine.err ? toZlibError(this.engine.msg, this.engine.err) : null);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.engine.push(new Uint8Array(0), true);
+    callback(this.engine.err ? toZlibError(this.engine.msg, this.engine.err) : null);
+  }
+}
+
+export function createZlibModule() {
+  const constants = { ...pako.constants };
+
+  return {
+    constants,
+    ...constants,
+
+    gzipSync: syncMethod((data, options) => compress('gzip', data, options)),
+    deflateSync: syncMethod((data, options) => compress('deflate', data, options)),
+    deflateRawSync: syncMethod((data, options) => compress('deflate-raw', data, options)),
+    gunzipSync: syncMethod(data => decompress('gzip', data)),
+    inflateSync: syncMethod(data => decompress('deflate', data)),
+    inflateRawSync: syncMethod(data => decompress('deflate-raw', data)),
+    unzipSync: syncMethod(data => decompress('auto', data)),
+
+    gzip: callbackMethod(async (data, options) => compress('gzip', data, options)),
+    deflate: callbackMethod(async (data, options) => compress('deflate', data, options)),
+    deflateRaw: callbackMethod(async (data, options) => compress('deflate-raw', data, options)),
+    gunzip: callbackMethod(data => decompressAsync('gzip', data)),
+    inflate: callbackMethod(data => decompressAsync('deflate', data)),
+    inflateRaw: callbackMethod(data => decompressAsync('deflate-raw', data)),
+    unzip: callbackMethod(data => decompressAsync('auto', data)),
+
+    createGzip: (options?: ZlibOptions) => new ZlibTransform('compress', 'gzip', options),
+    createDeflate: (options?: ZlibOptions) => new ZlibTransform('compress', 'deflate', options),
+    createDeflateRaw: (options?: ZlibOptions) =>
+      new ZlibTransform('compress', 'deflate-raw', options),
+    createGunzip: (options?: ZlibOptions) => new ZlibTransform('decompress', 'gzip', options),
+    createInflate: (options?: ZlibOptions) => new ZlibTransform('decompress', 'deflate', options),
+    createInflateRaw: (options?: ZlibOptions) =>
+      new ZlibTransform('decompress', 'deflate-raw', options),
+    createUnzip: (options?: ZlibOptions) => new ZlibTransform('decompress', 'auto', options),
+  };
+}
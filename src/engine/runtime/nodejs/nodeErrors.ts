@@ -3,6 +3,8 @@
  * エラーをNode.jsと同様の形式でフォーマットする
  */
 
+import { formatStackFrame, mapStackTrace } from './sourceMapSupport';
+
 /**
  * Maximum number of stack frames to include in formatted errors
  */
@@ -27,6 +29,17 @@ export function formatNodeError(
   const errorType = err.name || 'Error';
   lines.push(`${errorType}: ${err.message}`);
 
+  // Frames from executed user code, remapped to the original file/line/column
+  // through source maps. When there are any, only those are shown (like Node.js).
+  const mappedFrames = mapStackTrace(err);
+  if (mappedFrames.length > 0) {
+    lines.push(...mappedFrames.slice(0, MAX_STACK_FRAMES).map(formatStackFrame));
+    if (context?.moduleName) {
+      lines.push(`    module: '${context.moduleName}'`);
+    }
+    return lines.join('\n');
+  }
+
   // Add context information if available
   if (context?.filePath) {
     lines.push(`    at ${context.filePath}`);
@@ -57,6 +70,17 @@ export function formatNodeError(
   return lines.join('\n');
 }
 
+/**
+ * Format an error thrown by executed code the way Node.js reports an uncaught
+ * exception: the message followed by frames remapped to the original sources.
+ * Returns null when the error did not come from executed code (e.g. a runtime
+ * failure before execution), so callers can fall back to the plain message.
+ */
+export function formatUncaughtError(error: unknown): string | null {
+  if (mapStackTrace(error).length === 0) return null;
+  return formatNodeError(error);
+}
+
 /**
  * Create a Node.js-style MODULE_NOT_FOUND error
  */
@@ -10,13 +10,14 @@
  * 6. require()は非同期化（await __require__()に変換）
  */
 
+import { runtimeError, runtimeInfo, runtimeWarn } from '../core/runtimeLogger';
 import { ModuleLoader } from '../module/moduleLoader';
 import { createModuleNotFoundError, formatNodeError } from './nodeErrors';
-import { runtimeError, runtimeInfo, runtimeWarn } from '../core/runtimeLogger';
+import { getFunctionHeaderLines, registerScript } from './sourceMapSupport';
 
 import { fileRepository } from '@/engine/core/fileRepository';
 import { fsPathToAppPath, getParentPath, resolvePath, toAppPath } from '@/engine/core/pathUtils';
-import { type BuiltInModules, createBuiltInModules } from './builtInModule';
+import { type BuiltInModules, type TimerFunctions, createBuiltInModules } from './builtInModule';
 
 /**
  * 実行オプション
@@ -54,6 +55,12 @@ export class NodeRuntime {
 
   // イベントループ追跡
   private activeTimers: Set<any> = new Set();
+  // listen 中の http サーバー（close されるまでプロセスを終了しない）
+  private activeServers: Set<{ close: () => unknown }> = new Set();
+  // 実行中の子プロセス（終了するまでプロセスを終了しない）
+  private activeChildProcesses: Set<{ kill: () => unknown }> = new Set();
+  // イベントループ追跡用にラップしたタイマー（グローバルと timers モジュールで共有）
+  private timers: TimerFunctions;
   private eventLoopResolve: (() => void) | null = null;
 
   constructor(options: ExecutionOptions) {
@@ -65,12 +72,29 @@ export class NodeRuntime {
     this.terminalColumns = options.terminalColumns ?? 80;
     this.terminalRows = options.terminalRows ?? 24;
 
+    this.timers = this.createTrackedTimers();
+
     // ビルトインモジュールの初期化（onInputを渡す）
     this.builtInModules = createBuiltInModules({
       projectDir: this.projectDir,
       projectId: this.projectId,
       projectName: this.projectName,
       onInput: this.onInput,
+      httpServerHooks: {
+        onServerListening: server => this.activeServers.add(server),
+        onServerClose: server => {
+          this.activeServers.delete(server);
+          this.checkEventLoop();
+        },
+      },
+      timers: this.timers,
+      childProcessHooks: {
+        onSpawn: child => this.activeChildProcesses.add(child),
+        onExit: child => {
+          this.activeChildProcesses.delete(child);
+          this.checkEventLoop();
+        },
+      },
     });
 
     // ModuleLoaderの初期化
@@ -143,10 +167,13 @@ export class NodeRuntime {
       }
 
       // トランスパイル済みコードを取得（依存関係は既にロード済みなので、コードのみ必要）
-      const { code } = await this.moduleLoader.getTranspiledCodeWithDeps(filePath, fileContent);
+      const { code, sourceMap } = await this.moduleLoader.getTranspiledCodeWithDeps(
+        filePath,
+        fileContent
+      );
 
       // コードをラップして同期実行
-      const wrappedCode = this.wrapCode(code, filePath);
+      const wrappedCode = this.wrapCode(code, filePath, sourceMap);
       const executeFunc = new Function(...Object.keys(sandbox), wrappedCode);
 
       runtimeInfo('✅ Code compiled successfully');
@@ -164,32 +191,72 @@ export class NodeRuntime {
    * イベントループが空になるまで待つ（本物のNode.jsと同じ挙動）
    */
   async waitForEventLoop(): Promise<void> {
-    // アクティブなタイマーがなければすぐに完了
-    if (this.activeTimers.size === 0) {
+    // アクティブなタイマー・サーバー・子プロセスがなければすぐに完了
+    if (!this.hasActiveHandles()) {
       runtimeInfo('✅ Event loop is already empty');
       return;
     }
 
     runtimeInfo('⏳ Waiting for event loop to complete...', {
       activeTimers: this.activeTimers.size,
+      activeServers: this.activeServers.size,
+      activeChildProcesses: this.activeChildProcesses.size,
     });
 
     // イベントループが空になるまで待機
     return new Promise<void>(resolve => {
       this.eventLoopResolve = resolve;
       // タイムアウト: 最大30秒待つ（無限ループ防止）
-      setTimeout(() => {
-        if (this.eventLoopResolve) {
-          runtimeInfo('⚠️ Event loop timeout after 30s');
-          this.eventLoopResolve();
-          this.eventLoopResolve = null;
+      // listen 中のサーバー・実行中の子プロセスがある場合は終了 / terminate() されるまで待つ
+      const timeoutCheck = () => {
+        if (!this.eventLoopResolve) return;
+        if (this.activeServers.size > 0 || this.activeChildProcesses.size > 0) {
+          setTimeout(timeoutCheck, 30000);
+          return;
         }
-      }, 30000);
+        runtimeInfo('⚠️ Event loop timeout after 30s');
+        this.eventLoopResolve();
+        this.eventLoopResolve = null;
+      };
+      setTimeout(timeoutCheck, 30000);
     });
   }
 
+  /**
+   * 実行を終了（Ctrl+C / kill）
+   * listen 中のサーバーを閉じ、子プロセスとタイマーを止めてイベントループの待機を終わらせる
+   */
+  terminate(): void {
+    for (const child of [...this.activeChildProcesses]) {
+      child.kill();
+    }
+    this.activeChildProcesses.clear();
+    for (const server of [...this.activeServers]) {
+      try {
+        server.close();
+      } catch (error) {
+        runtimeWarn('⚠️ Failed to close server:', error);
+      }
+    }
+    this.activeServers.clear();
+    for (const timer of this.activeTimers) {
+      clearTimeout(timer);
+      clearInterval(timer);
+    }
+    this.activeTimers.clear();
+    this.checkEventLoop();
+  }
+
+  private hasActiveHandles(): boolean {
+    return (
+      this.activeTimers.size > 0 ||
+      this.activeServers.size > 0 ||
+      this.activeChildProcesses.size > 0
+    );
+  }
+
   private checkEventLoop() {
-    if (this.activeTimers.size === 0 && this.eventLoopResolve) {
+    if (!this.hasActiveHandles() && this.eventLoopResolve) {
       runtimeInfo('✅ Event loop is now empty');
       this.eventLoopResolve();
       this.eventLoopResolve = null;
@@ -234,27 +301,75 @@ export class NodeRuntime {
 
   /**
    * コードをラップ（同期実行）
+   * スタックトレースを元のファイルの位置に戻せるよう、コードは行の先頭から始め、
+   * sourceURL にファイルパスを付けてラッパーの行数とソースマップを登録する
    */
-  private wrapCode(code: string, filePath: string): string {
+  private wrapCode(code: string, filePath: string, sourceMap?: string): string {
     // Shebangを削除 (#!/usr/bin/env node など)
     // eval/new Function は Shebang をサポートしていないため
     if (code.startsWith('#!')) {
       code = `//${code}`; // コメントアウトして行数を維持
     }
 
-    return `
-      return (() => {
-        'use strict';
-        const module = { exports: {} };
-        const exports = module.exports;
-        const __filename = ${JSON.stringify(filePath)};
-        const __dirname = ${JSON.stringify(getParentPath(filePath))};
-        
-        ${code}
-        
-        return module.exports;
-      })();
-    `;
+    const header = `return (() => {
+  'use strict';
+  const module = { exports: {} };
+  const exports = module.exports;
+  const __filename = ${JSON.stringify(filePath)};
+  const __dirname = ${JSON.stringify(getParentPath(filePath))};
+`;
+    registerScript(filePath, {
+      lineOffset: getFunctionHeaderLines() + header.split('\n').length - 1,
+      lineCount: code.split('\n').length,
+      sourceMap,
+    });
+
+    return `${header}${code}
+return module.exports;
+})();
+//# sourceURL=${filePath}`;
+  }
+
+  /**
+   * イベントループ追跡用にラップした setTimeout / setInterval を作成
+   */
+  private createTrackedTimers(): TimerFunctions {
+    return {
+      setTimeout: (handler: TimerHandler, timeout?: number, ...args: unknown[]): number => {
+        const timerId = setTimeout(() => {
+          this.activeTimers.delete(timerId);
+          if (typeof handler === 'function') {
+            handler(...args);
+          }
+          this.checkEventLoop();
+        }, timeout) as any;
+        this.activeTimers.add(timerId);
+        return timerId as number;
+      },
+      setInterval: (handler: TimerHandler, timeout?: number, ...args: unknown[]): number => {
+        const intervalId = setInterval(() => {
+          if (typeof handler === 'function') {
+            handler(...args);
+          }
+        }, timeout) as any;
+        this.activeTimers.add(intervalId);
+        return intervalId as number;
+      },
+      clearTimeout: (id?: number) => {
+        if (id !== undefined) {
+          clearTimeout(id);
+          this.activeTimers.delete(id);
+          this.checkEventLoop();
+        }
+      },
+      clearInterval: (id?: number) => {
+        if (id !== undefined) {
+          clearInterval(id);
+          this.activeTimers.delete(id);
+          this.checkEventLoop();
+        }
+      },
+    };
   }
 
   /**
@@ -404,40 +519,7 @@ export class NodeRuntime {
         clear: () => this.debugConsole?.clear(),
       },
       // ラップされたsetTimeout/setInterval（イベントループ追跡用）
-      setTimeout: (handler: TimerHandler, timeout?: number, ...args: unknown[]): number => {
-        const timerId = setTimeout(() => {
-          this.activeTimers.delete(timerId);
-          if (typeof handler === 'function') {
-            handler(...args);
-          }
-          this.checkEventLoop();
-        }, timeout) as any;
-        this.activeTimers.add(timerId);
-        return timerId as number;
-      },
-      setInterval: (handler: TimerHandler, timeout?: number, ...args: unknown[]): number => {
-        const intervalId = setInterval(() => {
-          if (typeof handler === 'function') {
-            handler(...args);
-          }
-        }, timeout) as any;
-        this.activeTimers.add(intervalId);
-        return intervalId as number;
-      },
-      clearTimeout: (id?: number) => {
-        if (id !== undefined) {
-          clearTimeout(id);
-          this.activeTimers.delete(id);
-          this.checkEventLoop();
-        }
-      },
-      clearInterval: (id?: number) => {
-        if (id !== undefined) {
-          clearInterval(id);
-          this.activeTimers.delete(id);
-          this.checkEventLoop();
-        }
-      },
+      ...this.timers,
       Promise,
       Array,
       Object,
@@ -596,16 +678,16 @@ export class NodeRuntime {
       module: this.builtInModules.module,
       url: this.builtInModules.url,
       stream: this.builtInModules.stream,
+      'stream/promises': this.builtInModules.stream.promises,
+      crypto: this.builtInModules.crypto,
+      zlib: this.builtInModules.zlib,
+      string_decoder: this.builtInModules.stringDecoder,
+      querystring: this.builtInModules.querystring,
+      child_process: this.builtInModules.childProcess,
       // process モジュール - createProcessObjectで統一
       process: this.createProcessObject(),
-      timers: {
-        setTimeout: globalThis.setTimeout,
-        clearTimeout: globalThis.clearTimeout,
-        setInterval: globalThis.setInterval,
-        clearInterval: globalThis.clearInterval,
-        setImmediate: (fn: Function, ...args: unknown[]) => setTimeout(() => fn(...args), 0),
-        clearImmediate: (id: any) => clearTimeout(id),
-      },
+      timers: this.builtInModules.timers,
+      'timers/promises': this.builtInModules.timers.promises,
       console: globalThis.console,
     };
 
@@ -0,0 +1,194 @@
+/**
+ * Source map support for NodeRuntime
+ * 実行したコードのスタックトレースを、トランスパイル前のファイル・行・列に戻す
+ *
+ * - NodeRuntime / ModuleLoader は実行するコードに `//# sourceURL=<ファイルパス>` を付け、
+ *   ラッパーで増えた行数とソースマップを registerScript() で登録する
+ * - スタックのフレームのうち登録済みのファイルのものだけを、行のずれとソースマップで元の位置に戻す
+ *   （エミュレーター自身のフレームは含めない）
+ * - ソースマップのセグメントは次のセグメントまでの範囲を表すものとし、列はセグメントの先頭からの差分を足す
+ *   → normalizeCjsEsm の行単位のマップでも、書き換えていない行は列まで正確になる
+ */
+
+import ErrorStackParser from 'error-stack-parser';
+
+/**
+ * 実行したコードの情報
+ */
+export interface ScriptInfo {
+  /** 実行したソースの先頭から、トランスパイル済みコードの1行目までの行数（ラッパー分） */
+  lineOffset: number;
+  /** トランスパイル済みコードの行数（範囲外のフレームはラッパーのもの） */
+  lineCount: number;
+  /** トランスパイル済みコード → 元のファイルのソースマップ（Source Map v3 の JSON） */
+  sourceMap?: string;
+}
+
+/**
+ * 元の位置に戻したスタックフレーム（行・列は1始まり）
+ */
+export interface MappedStackFrame {
+  functionName?: string;
+  fileName: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/** デコード済みのマッピング: 生成コードの行ごとの [生成列, 元の行, 元の列]（0始まり） */
+type DecodedMappings = Array<Array<[number, number, number]>>;
+
+interface RegisteredScript extends ScriptInfo {
+  mappings?: DecodedMappings | null;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const PROBE_URL = 'pyxis-runtime-probe.js';
+
+// sourceURL → 実行したコードの情報
+const scripts = new Map<string, RegisteredScript>();
+
+let functionHeaderLines: number | null = null;
+
+/**
+ * 実行するコードを登録する（同じ URL は上書き）
+ */
+export function registerScript(url: string, info: ScriptInfo): void {
+  scripts.set(url, { ...info });
+}
+
+/**
+ * `new Function(...)` が本体の前に付ける行数（V8 では `function anonymous(...\n) {\n` の2行）
+ * エンジンごとに異なるため、一度だけ実際に計測する
+ */
+export function getFunctionHeaderLines(): number {
+  if (functionHeaderLines === null) {
+    functionHeaderLines = 2;
+    try {
+      new Function(`throw new Error('probe');\n//# sourceURL=${PROBE_URL}`)();
+    } catch (error) {
+      const frame = parseFrames(error).find(f => f.fileName === PROBE_URL);
+      if (frame?.lineNumber) functionHeaderLines = frame.lineNumber - 1;
+    }
+  }
+  return functionHeaderLines;
+}
+
+/**
+ * エラーのスタックのうち、実行したコードのフレームを元のファイル・行・列に戻して返す
+ */
+export function mapStackTrace(error: unknown): MappedStackFrame[] {
+  const mapped: MappedStackFrame[] = [];
+  for (const frame of parseFrames(error)) {
+    const script = frame.fileName ? scripts.get(frame.fileName) : undefined;
+    if (!script || !frame.fileName || !frame.lineNumber) continue;
+
+    const line = frame.lineNumber - script.lineOffset;
+    if (line < 1 || line > script.lineCount) continue;
+
+    const position = originalPositionFor(script, line, frame.columnNumber ?? 1);
+    mapped.push({
+      // トップレベルのコードは eval / anonymous として報告される
+      functionName:
+        frame.functionName && frame.functionName !== 'eval' ? frame.functionName : undefined,
+      fileName: frame.fileName,
+      lineNumber: position.line,
+      columnNumber: position.column,
+    });
+  }
+  return mapped;
+}
+
+/**
+ * フレームを Node.js と同じ形式（`    at fn (file:line:column)`）にする
+ */
+export function formatStackFrame(frame: MappedStackFrame): string {
+  const location = `${frame.fileName}:${frame.lineNumber}:${frame.columnNumber}`;
+  return frame.functionName ? `    at ${frame.functionName} (${location})` : `    at ${location}`;
+}
+
+function parseFrames(error: unknown) {
+  if (!(error instanceof Error) || !error.stack) return [];
+  try {
+    return ErrorStackParser.parse(error);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * トランスパイル済みコードの位置（1始まり）を元の位置に変換する
+ * ソースマップがない・対応するセグメントがない場合はそのまま返す
+ */
+function originalPositionFor(
+  script: RegisteredScript,
+  line: number,
+  column: number
+): { line: number; column: number } {
+  if (script.mappings === undefined) {
+    script.mappings = script.sourceMap ? decodeSourceMap(script.sourceMap) : null;
+  }
+  const segments = script.mappings?.[line - 1];
+  if (!segments || segments.length === 0) return { line, column };
+
+  // 列以前で最も近いセグメント（なければ行の最初のセグメント）
+  let segment = segments[0];
+  for (const candidate of segments) {
+    if (candidate[0] > column - 1) break;
+    segment = candidate;
+  }
+  const [generatedColumn, originalLine, originalColumn] = segment;
+  return {
+    line: originalLine + 1,
+    column: originalColumn + Math.max(0, column - 1 - generatedColumn) + 1,
+  };
+}
+
+/**
+ * Source Map v3 の mappings をデコードする（単一ソースを前提に、ソースのインデックスは無視する）
+ */
+function decodeSourceMap(sourceMap: string): DecodedMappings | null {
+  let mappings: unknown;
+  try {
+    mappings = JSON.parse(sourceMap).mappings;
+  } catch {
+    return null;
+  }
+  if (typeof mappings !== 'string') return null;
+
+  const decoded: DecodedMappings = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+  for (const lineText of mappings.split(';')) {
+    const segments: Array<[number, number, number]> = [];
+    let generatedColumn = 0;
+    for (const segmentText of lineText.split(',')) {
+      if (!segmentText) continue;
+      const values = decodeVlq(segmentText);
+      generatedColumn += values[0];
+      if (values.length < 4) continue;
+      originalLine += values[2];
+      originalColumn += values[3];
+      segments.push([generatedColumn, originalLine, originalColumn]);
+    }
+    decoded.push(segments);
+  }
+  return decoded;
+}
+
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of text) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
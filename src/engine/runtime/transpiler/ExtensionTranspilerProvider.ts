@@ -45,6 +45,8 @@ export class ExtensionTranspilerProvider implements TranspilerProvider {
       isTypeScript?: boolean;
       isESModule?: boolean;
       isJSX?: boolean;
+      /** 'browser' の場合はESモジュールのまま出力する（既定は 'node'） */
+      target?: 'node' | 'browser';
     }
   ): Promise<{
     code: string;
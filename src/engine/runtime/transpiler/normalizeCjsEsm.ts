@@ -1,8 +1,14 @@
 /**
  * import/export/requireの超速CJS/ESM変換
- * @returns {{ code: string; dependencies: string[] }} 変換後のコードと依存モジュールのリスト
+ * @param options.sourceMap true の場合、変換後 → 変換前の行単位のソースマップ（Source Map v3）も返す
+ * @param options.filePath ソースマップの sources に入れるファイルパス
+ * @returns {{ code: string; dependencies: string[]; map?: string }} 変換後のコードと依存モジュールのリスト
  */
-export function normalizeCjsEsm(code: string): { code: string; dependencies: string[] } {
+export function normalizeCjsEsm(
+  code: string,
+  options: { sourceMap?: boolean; filePath?: string } = {}
+): { code: string; dependencies: string[]; map?: string } {
+  const originalCode = code;
   const dependencies: string[] = []; // 検出された依存関係のリスト
   // Protect `import.meta` and dynamic `import(...)` from accidental transforms by
   // masking them before we run a series of regex-based replacements, then
@@ -556,5 +562,60 @@ export function normalizeCjsEsm(code: string): { code: string; dependencies: str
   // 重複を除去してユニークな依存関係リストを返す
   const uniqueDependencies = Array.from(new Set(dependencies));
 
-  return { code, dependencies: uniqueDependencies };
+  if (!options.sourceMap) {
+    return { code, dependencies: uniqueDependencies };
+  }
+  return {
+    code,
+    dependencies: uniqueDependencies,
+    map: createLineSourceMap(originalCode, code, options.filePath ?? ''),
+  };
+
+  /**
+   * 変換後の各行を変換前の行に対応付けた、行単位のソースマップを作る
+   * 変換は行内の書き換えと複数行の文の結合が中心なので、変換後の行と同じ内容の行を
+   * 変換前のコードの少し先まで探し、見つからなければ書き換えられた行として次の行に対応付ける
+   * ※ この関数は文字列化して Worker に渡されることがあるため、ヘルパーも関数内に置く
+   */
+  function createLineSourceMap(original: string, generated: string, source: string): string {
+    const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    const LOOKAHEAD = 50;
+    const encodeVlq = (value: number): string => {
+      let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+      let encoded = '';
+      do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) digit |= 32;
+        encoded += BASE64[digit];
+      } while (vlq > 0);
+      return encoded;
+    };
+
+    const originalLines = original.split('\n');
+    const segments: string[] = [];
+    let next = 0; // 次に対応付ける変換前の行
+    let previous = 0; // mappings の行番号は直前のセグメントからの差分
+    for (const line of generated.split('\n')) {
+      let target = Math.min(next, originalLines.length - 1);
+      const limit = Math.min(originalLines.length, next + LOOKAHEAD);
+      for (let i = next; i < limit; i++) {
+        if (originalLines[i] === line) {
+          target = i;
+          break;
+        }
+      }
+      // [生成列 0, ソース 0, 行の差分, 元の列 0]
+      segments.push(`AA${encodeVlq(target - previous)}A`);
+      previous = target;
+      next = target + 1;
+    }
+
+    return JSON.stringify({
+      version: 3,
+      sources: [source],
+      names: [],
+      mappings: segments.join(';'),
+    });
+  }
 }
@@ -10,8 +10,10 @@
  * - TypeScriptはビルトインで保証されていないため、ここではサポートしない
  * - CJS/ESM変換のみを行う（transpileWorker経由でnormalizeCjsEsm使用）
  * - moduleLoaderから使用される
+ * - Webプレビュー用のTypeScript/JSX変換（transpileForBrowser）は拡張機能のトランスパイラに委譲する
  */
 
+import { runtimeRegistry } from '../core/RuntimeRegistry';
 import { runtimeError, runtimeInfo } from '../core/runtimeLogger';
 import type { TranspileRequest, TranspileResult } from './transpileWorker';
 
@@ -104,6 +106,40 @@ export class TranspileManager {
       }
     });
   }
+
+  /**
+   * Webプレビュー用にTypeScript/JSXをブラウザで実行できるESモジュールへ変換
+   *
+   * import/export はそのまま残す（CJSへ正規化しない）。
+   * 変換は拡張機能が登録したトランスパイラ（RuntimeRegistry）に委譲する。
+   */
+  async transpileForBrowser(options: BrowserTranspileOptions): Promise<string> {
+    const { code, filePath } = options;
+    const transpiler = runtimeRegistry.getTranspilerForFile(filePath);
+    if (!transpiler) {
+      throw new Error(
+        `No transpiler found for ${filePath}. Please install the TypeScript runtime extension.`
+      );
+    }
+
+    runtimeInfo(`🔄 Transpiling for browser with ${transpiler.id}:`, filePath);
+    const result = await transpiler.transpile(code, {
+      filePath,
+      isTypeScript: /\.(ts|mts|cts|tsx)$/.test(filePath),
+      isJSX: /\.(jsx|tsx)$/.test(filePath),
+      isESModule: true,
+      target: 'browser',
+    });
+    return result.code;
+  }
+}
+
+/**
+ * ブラウザ向けトランスパイルのオプション
+ */
+export interface BrowserTranspileOptions {
+  code: string;
+  filePath: string;
 }
 
 /**
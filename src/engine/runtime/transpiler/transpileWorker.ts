@@ -6,7 +6,7 @@
  * メインスレッドをブロックせず、完了後にWorkerを即座に終了してメモリを解放
  *
  * ## 処理フロー
- * 1. normalizeCjsEsmでCJS/ESM変換
+ * 1. normalizeCjsEsmでCJS/ESM変換（スタックトレース用の行単位のソースマップも生成）
  * 2. 依存関係を抽出
  * 3. 結果をメインスレッドに返す
  * 4. Worker終了
@@ -52,10 +52,10 @@ export interface TranspileResult {
  */
 function transpile(request: TranspileRequest): TranspileResult {
   try {
-    const { code } = request;
+    const { code, filePath } = request;
 
     // CJS/ESM正規化を実行（依存関係も同時に抽出される）
-    const normalized = normalizeCjsEsm(code);
+    const normalized = normalizeCjsEsm(code, { sourceMap: true, filePath });
 
     // デバッグ: normalizeCjsEsmの戻り値を確認
     console.log('🔍 normalizeCjsEsm result:', typeof normalized, normalized);
@@ -65,6 +65,7 @@ function transpile(request: TranspileRequest): TranspileResult {
     return {
       id: request.id,
       code: normalized.code,
+      sourceMap: normalized.map,
       dependencies: normalized.dependencies,
     };
   } catch (error) {
@@ -18,7 +18,7 @@
  */
 
 const DB_NAME = 'pyxis-global';
-const DB_VERSION = 5; // Breaking change: ChatSpace key format changed to include projectId
+const DB_VERSION = 7; // Added npm_cache store
 
 /**
  * ストアの定義
@@ -32,6 +32,8 @@ export const STORES = {
   TAB_STATE: 'tab_state', // タブ・ペイン状態
   CHAT_SPACES: 'chat_spaces', // チャットスペース（AIチャット）
   AI_REVIEWS: 'ai_reviews', // AIレビュー用スナップショット／メタデータ
+  AI_RETRIEVAL_INDEX: 'ai_retrieval_index', // AIコンテキスト検索用のBM25インデックス
+  NPM_CACHE: 'npm_cache', // npm の tarball / メタデータのキャッシュ（プロジェクト間で共有）
 } as const;
 
 export type StoreName = (typeof STORES)[keyof typeof STORES];
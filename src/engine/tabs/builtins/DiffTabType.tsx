@@ -5,7 +5,10 @@ import { useCallback, useEffect, useMemo, useRef } from 'react';
 import type { DiffFileEntry, DiffTab, TabComponentProps, TabTypeDefinition } from '../types';
 
 import { useGitContext } from '@/components/Pane/PaneContainer';
-import DiffTabComponent from '@/components/Tab/DiffTab';
+import DiffTabComponent, { type HunkAction } from '@/components/Tab/DiffTab';
+import type { HunkSelection } from '@/engine/cmd/global/gitOperations/hunks';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository, toGitPath } from '@/engine/core/fileRepository';
 import { useKeyBinding } from '@/hooks/keybindings/useKeyBindings';
 import { useSettings } from '@/hooks/state/useSettings';
 import { useProjectSnapshot } from '@/stores/projectStore';
@@ -14,6 +17,8 @@ import {
   initTabSaveSync,
   saveImmediately,
   setContent as setTabContent,
+  tabActions,
+  updateFromExternal,
 } from '@/stores/tabState';
 
 import { useTabContent } from '@/stores/tabContentStore';
@@ -90,6 +95,50 @@ const DiffTabRenderer: React.FC<TabComponentProps> = ({ tab }) => {
     [diffTab.editable, diffTab.path]
   );
 
+  // ワーキングツリー（INDEX/HEAD → WORKDIR）とステージ済み（HEAD → INDEX）の単一ファイル diff だけ hunk を操作できる
+  const hunkTarget =
+    diffTab.diffs.length === 1 && diffTab.path
+      ? diffTab.diffs[0].latterCommitId === 'WORKDIR'
+        ? 'workdir'
+        : diffTab.diffs[0].latterCommitId === 'INDEX'
+          ? 'index'
+          : null
+      : null;
+
+  const handleHunkAction = useCallback(
+    async (action: HunkAction, selection: HunkSelection[]) => {
+      if (!currentProject || !hunkTarget) return;
+      // 表示中の内容と hunk の位置を一致させるため、未保存の編集を先に保存する
+      if (diffTab.editable) await saveImmediately(diffTab.path);
+
+      const git = terminalCommandRegistry.getGitCommands(currentProject.name, currentProject.id);
+      const gitPath = toGitPath(diffTab.path);
+      if (action === 'stage') await git.stageHunks(gitPath, selection);
+      else if (action === 'unstage') await git.unstageHunks(gitPath, selection);
+      else await git.discardHunks(gitPath, selection);
+
+      // 操作後の INDEX（とワーキングツリー）で diff を更新
+      const indexContent =
+        (await git.getStagedFileContent(gitPath)) ?? (await git.getHeadFileContent(gitPath)) ?? '';
+      const [diff] = diffTab.diffs;
+      let updated = { ...diff };
+      if (hunkTarget === 'index') {
+        updated = { ...updated, latterContent: indexContent };
+      } else {
+        updated = { ...updated, formerCommitId: 'INDEX', formerContent: indexContent };
+        if (action === 'discard') {
+          const file = await fileRepository.getFileByPath(currentProject.id, diffTab.path);
+          const workdirContent = file?.content ?? '';
+          updated = { ...updated, latterContent: workdirContent };
+          updateFromExternal(diffTab.path, workdirContent);
+        }
+      }
+      tabActions.updateTab(diffTab.paneId, diffTab.id, { diffs: [updated] } as Partial<DiffTab>);
+      setGitRefreshTrigger(prev => prev + 1);
+    },
+    [currentProject, hunkTarget, diffTab, setGitRefreshTrigger]
+  );
+
   return (
     <DiffTabComponent
       diffs={mergedDiffs}
@@ -97,6 +146,9 @@ const DiffTabRenderer: React.FC<TabComponentProps> = ({ tab }) => {
       wordWrapConfig={wordWrapConfig}
       onImmediateContentChange={handleImmediateContentChange}
       onContentChange={handleContentChange}
+      hunkActions={
+        hunkTarget ? { staged: hunkTarget === 'index', onAction: handleHunkAction } : undefined
+      }
     />
   );
 };
@@ -59,11 +59,20 @@ const MergeConflictTabRenderer: React.FC<TabComponentProps> = ({ tab }) => {
           await git.add(gitPath);
         }
 
-        // Create merge commit
-        console.log('[MergeConflictTabType] Creating merge commit...');
-        const commitMessage = `Merge branch '${mergeTab.theirsBranch}' into ${mergeTab.oursBranch}`;
-        await git.commit(commitMessage);
-        console.log('[MergeConflictTabType] Merge commit created successfully');
+        if (mergeTab.operation === 'cherry-pick' || mergeTab.operation === 'rebase') {
+          // Resume the interrupted cherry-pick / rebase (may open another conflict tab)
+          const result =
+            mergeTab.operation === 'cherry-pick'
+              ? await git.cherryPickContinue()
+              : await git.rebaseContinue();
+          console.log(`[MergeConflictTabType] ${mergeTab.operation} continued:`, result);
+        } else {
+          // Create merge commit
+          console.log('[MergeConflictTabType] Creating merge commit...');
+          const commitMessage = `Merge branch '${mergeTab.theirsBranch}' into ${mergeTab.oursBranch}`;
+          await git.commit(commitMessage);
+          console.log('[MergeConflictTabType] Merge commit created successfully');
+        }
 
         // Close tab
         closeTab(mergeTab.paneId, mergeTab.id);
@@ -146,9 +155,13 @@ export const MergeConflictTabType: TabTypeDefinition = {
     const theirsBranch = (data.theirsBranch as string) || 'MERGE_HEAD';
     const projectId = (data.projectId as string) || '';
     const projectName = (data.projectName as string) || '';
+    const operation = (data.operation as MergeConflictTab['operation']) || 'merge';
 
     const tabId = `merge-conflict:${oursBranch}-${theirsBranch}-${Date.now()}`;
-    const tabName = `Merge: ${theirsBranch} → ${oursBranch}`;
+    const operationLabel = { merge: 'Merge', 'cherry-pick': 'Cherry-pick', rebase: 'Rebase' }[
+      operation
+    ];
+    const tabName = `${operationLabel}: ${theirsBranch} → ${oursBranch}`;
 
     return {
       id: tabId,
@@ -161,6 +174,7 @@ export const MergeConflictTabType: TabTypeDefinition = {
       theirsBranch,
       projectId,
       projectName,
+      operation,
     };
   },
 
@@ -0,0 +1,98 @@
+// src/engine/tabs/builtins/RebaseTodoTabType.tsx
+import type React from 'react';
+import { useCallback } from 'react';
+
+import type { RebaseTodoTab, TabComponentProps, TabTypeDefinition } from '../types';
+
+import RebaseTodoEditorTab from '@/components/Tab/RebaseTodoEditorTab';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { pushLogMessage } from '@/stores/loggerStore';
+import { tabActions } from '@/stores/tabState';
+import type { RebaseTodoItem } from '@/types/git';
+
+/**
+ * Interactive Rebase Todo Tab Renderer
+ */
+const RebaseTodoTabRenderer: React.FC<TabComponentProps> = ({ tab }) => {
+  const rebaseTab = tab as RebaseTodoTab;
+  const { closeTab, updateTab } = tabActions;
+
+  const handleChange = useCallback(
+    (items: RebaseTodoItem[]) => {
+      updateTab(rebaseTab.paneId, rebaseTab.id, { items } as Partial<RebaseTodoTab>);
+    },
+    [rebaseTab, updateTab]
+  );
+
+  /**
+   * Start handler
+   * エラー時は閉じずにタブ内に表示する（コンフリクト時はマージタブが開く）
+   */
+  const handleStart = useCallback(async () => {
+    const git = terminalCommandRegistry.getGitCommands(rebaseTab.projectName, rebaseTab.projectId);
+    const result = await git.rebase(rebaseTab.upstream, { todo: [...rebaseTab.items] });
+    pushLogMessage(result, 'info', 'git rebase');
+    closeTab(rebaseTab.paneId, rebaseTab.id);
+  }, [rebaseTab, closeTab]);
+
+  const handleCancel = useCallback(() => {
+    closeTab(rebaseTab.paneId, rebaseTab.id);
+  }, [rebaseTab, closeTab]);
+
+  return (
+    <RebaseTodoEditorTab
+      items={rebaseTab.items}
+      upstream={rebaseTab.upstream}
+      branch={rebaseTab.branch}
+      onChange={handleChange}
+      onStart={handleStart}
+      onCancel={handleCancel}
+    />
+  );
+};
+
+/**
+ * Interactive Rebase Todo Tab Type Definition
+ */
+export const RebaseTodoTabType: TabTypeDefinition = {
+  kind: 'rebase-todo',
+  displayName: 'Interactive Rebase',
+  icon: 'GitPullRequestArrow',
+  canEdit: true,
+  canPreview: false,
+  component: RebaseTodoTabRenderer,
+  needsSessionRestore: false, // items 配列は保持されるので復元不要
+
+  createTab: (data, options): RebaseTodoTab => {
+    const projectId = (data.projectId as string) || '';
+    const projectName = (data.projectName as string) || '';
+    const upstream = (data.upstream as string) || '';
+    const branch = (data.branch as string) || 'HEAD';
+
+    return {
+      id: `rebase-todo:${projectId}-${branch}-${upstream}`,
+      name: `Rebase: ${branch} → ${upstream}`,
+      kind: 'rebase-todo',
+      path: '',
+      paneId: options?.paneId || '',
+      projectId,
+      projectName,
+      upstream,
+      branch,
+      items: (data.items as RebaseTodoItem[]) || [],
+    };
+  },
+
+  shouldReuseTab: (existingTab, newFile) => {
+    // 同じブランチ・リベース先のtodoリストは再利用
+    const rebaseTab = existingTab as RebaseTodoTab;
+    return (
+      rebaseTab.kind === 'rebase-todo' &&
+      rebaseTab.projectId === newFile.projectId &&
+      rebaseTab.branch === newFile.branch &&
+      rebaseTab.upstream === newFile.upstream
+    );
+  },
+
+  // items 配列はデフォルトシリアライズで保持される
+};
@@ -12,3 +12,4 @@ export { PreviewTabType } from './PreviewTabType';
 export { BinaryTabType } from './BinaryTabType';
 export { ExtensionInfoTabType } from './ExtensionInfoTabType';
 export { MergeConflictTabType } from './MergeConflictTabType';
+export { RebaseTodoTabType } from './RebaseTodoTabType';
@@ -8,6 +8,7 @@ import {
   ExtensionInfoTabType,
   MergeConflictTabType,
   PreviewTabType,
+  RebaseTodoTabType,
   SettingsTabType,
   WebPreviewTabType,
   WelcomeTabType,
@@ -27,6 +28,7 @@ export function registerBuiltinTabs() {
   tabRegistry.register(BinaryTabType);
   tabRegistry.register(ExtensionInfoTabType);
   tabRegistry.register(MergeConflictTabType);
+  tabRegistry.register(RebaseTodoTabType);
 
   console.log('[TabRegistry] Builtin tab types registered');
 }
@@ -2,6 +2,7 @@
 
 import type { ExtensionManifest } from '@/engine/extensions/types';
 import type { AIReviewEntry, AIReviewHistoryEntry, FileItem } from '@/types';
+import type { RebaseTodoItem } from '@/types/git';
 
 /**
  * タブの種類を表す型
@@ -16,6 +17,7 @@ export type TabKind =
   | 'settings'
   | 'extension-info'
   | 'merge-conflict'
+  | 'rebase-todo'
   | string;
 
 /**
@@ -162,6 +164,22 @@ export interface MergeConflictTab extends BaseTab {
   projectId: string;
   /** Project name */
   projectName: string;
+  /** Operation that produced the conflicts (default: 'merge') */
+  operation?: 'merge' | 'cherry-pick' | 'rebase';
+}
+
+/**
+ * 対話的リベースのtodoリスト編集タブ
+ */
+export interface RebaseTodoTab extends BaseTab {
+  kind: 'rebase-todo';
+  projectId: string;
+  projectName: string;
+  /** リベース先（git rebase -i <upstream>） */
+  upstream: string;
+  /** リベースするブランチ */
+  branch: string;
+  items: readonly RebaseTodoItem[];
 }
 
 /**
@@ -177,7 +195,8 @@ export type Tab =
   | WelcomeTab
   | BinaryTab
   | ExtensionInfoTab
-  | MergeConflictTab;
+  | MergeConflictTab
+  | RebaseTodoTab;
 
 /**
  * タブを開くときのオプション
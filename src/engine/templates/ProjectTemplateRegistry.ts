@@ -0,0 +1,95 @@
+// src/engine/templates/ProjectTemplateRegistry.ts
+import type { ProjectTemplate } from './types';
+
+/**
+ * プロジェクトテンプレートのレジストリ
+ * ビルトインと拡張機能のテンプレートを一元管理し、ProjectModal に一覧を提供する
+ */
+class ProjectTemplateRegistry {
+  private templates = new Map<string, ProjectTemplate>();
+  // getAll() の結果を変更があるまで使い回す（useSyncExternalStore のスナップショット用）
+  private snapshot: ProjectTemplate[] | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * テンプレートを登録（同じIDは上書き）
+   * @returns 登録解除関数
+   */
+  register(template: ProjectTemplate): () => void {
+    if (this.templates.has(template.id)) {
+      console.warn(
+        `[ProjectTemplates] Template "${template.id}" is already registered. Overwriting.`
+      );
+    }
+    this.templates.set(template.id, template);
+    this.notifyListeners();
+
+    return () => {
+      // 上書きされた後のテンプレートは消さない
+      if (this.templates.get(template.id) === template) {
+        this.unregister(template.id);
+      }
+    };
+  }
+
+  unregister(id: string): void {
+    if (this.templates.delete(id)) {
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * 拡張機能が登録したテンプレートを全て削除
+   */
+  unregisterExtension(extensionId: string): void {
+    let changed = false;
+    for (const [id, template] of this.templates) {
+      if (template.source === 'extension' && template.extensionId === extensionId) {
+        this.templates.delete(id);
+        changed = true;
+      }
+    }
+    if (changed) this.notifyListeners();
+  }
+
+  get(id: string): ProjectTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * 全テンプレートを取得（ビルトインが先、その後はカテゴリ・名前順）
+   */
+  getAll(): ProjectTemplate[] {
+    if (this.snapshot) return this.snapshot;
+    this.snapshot = Array.from(this.templates.values()).sort(
+      (a, b) =>
+        Number(a.source === 'extension') - Number(b.source === 'extension') ||
+        (a.category ?? '').localeCompare(b.category ?? '') ||
+        a.name.localeCompare(b.name)
+    );
+    return this.snapshot;
+  }
+
+  /**
+   * 変更リスナーを登録
+   */
+  addChangeListener(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notifyListeners(): void {
+    this.snapshot = null;
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[ProjectTemplates] Error in change listener:', error);
+      }
+    }
+  }
+}
+
+export const projectTemplateRegistry = new ProjectTemplateRegistry();
+
+export default projectTemplateRegistry;
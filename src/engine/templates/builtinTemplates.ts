@@ -0,0 +1,139 @@
+// src/engine/templates/builtinTemplates.ts
+import { projectTemplateRegistry } from './ProjectTemplateRegistry';
+import type { ProjectTemplateDefinition } from './types';
+
+const NODE_GITIGNORE = 'node_modules/\ndist/\n.env\n';
+
+const README = '# {{projectName}}\n\n{{description}}\n';
+
+/**
+ * Pyxis 本体に含まれるテンプレート
+ * ファイルの内容・パスの `{{name}}` は作成時に置き換えられる（組み込み変数: projectName, description, year）
+ */
+export const BUILTIN_TEMPLATES: ProjectTemplateDefinition[] = [
+  {
+    id: 'vanilla-web',
+    name: 'Vanilla Web',
+    description: 'HTML, CSS and JavaScript page without a build step',
+    category: 'Web',
+    prompts: [{ name: 'title', label: 'Page title', default: '{{projectName}}', required: true }],
+    files: {
+      'README.md': `${README}\nOpen \`index.html\` in the preview.\n`,
+      'index.html':
+        '<!DOCTYPE html>\n<html lang="en">\n<head>\n  <meta charset="UTF-8">\n  <meta name="viewport" content="width=device-width, initial-scale=1.0">\n  <title>{{title}}</title>\n  <link rel="stylesheet" href="style.css">\n</head>\n<body>\n  <h1>{{title}}</h1>\n  <button id="counter">Clicked 0 times</button>\n  <script src="main.js"></script>\n</body>\n</html>\n',
+      'style.css':
+        'body {\n  font-family: system-ui, sans-serif;\n  margin: 2rem;\n}\n\nbutton {\n  padding: 0.5rem 1rem;\n}\n',
+      'main.js':
+        "let count = 0;\nconst button = document.getElementById('counter');\nbutton.addEventListener('click', () => {\n  count++;\n  button.textContent = `Clicked ${count} times`;\n});\n",
+    },
+    postCreate: ['git-init'],
+  },
+  {
+    id: 'node-cli',
+    name: 'Node.js CLI',
+    description: 'Command-line script with argument parsing and an npm start script',
+    category: 'Node.js',
+    prompts: [
+      {
+        name: 'command',
+        label: 'Command name',
+        default: '{{projectName}}',
+        required: true,
+        pattern: '[a-z0-9][a-z0-9-]*',
+      },
+    ],
+    files: {
+      'README.md': `${README}\n\`\`\`sh\nnpm start -- --name Pyxis\n\`\`\`\n`,
+      '.gitignore': NODE_GITIGNORE,
+      'package.json':
+        '{\n  "name": "{{command}}",\n  "version": "1.0.0",\n  "description": "{{description}}",\n  "main": "src/index.js",\n  "bin": {\n    "{{command}}": "src/index.js"\n  },\n  "scripts": {\n    "start": "node src/index.js"\n  },\n  "license": "MIT"\n}\n',
+      'src/index.js':
+        "#!/usr/bin/env node\nconst { parseArgs } = require('./args');\n\nconst options = parseArgs(process.argv.slice(2));\nconsole.log(`Hello, ${options.name ?? 'world'}!`);\n",
+      'src/args.js':
+        "/**\n * --key value / --flag 形式の引数をオブジェクトにする\n */\nfunction parseArgs(argv) {\n  const options = {};\n  for (let i = 0; i < argv.length; i++) {\n    if (!argv[i].startsWith('--')) continue;\n    const key = argv[i].slice(2);\n    const next = argv[i + 1];\n    if (next === undefined || next.startsWith('--')) {\n      options[key] = true;\n    } else {\n      options[key] = next;\n      i++;\n    }\n  }\n  return options;\n}\n\nmodule.exports = { parseArgs };\n",
+    },
+    postCreate: ['git-init'],
+  },
+  {
+    id: 'react-jsx',
+    name: 'React + JSX',
+    description: 'React component previewed with react-build',
+    category: 'Web',
+    prompts: [
+      { name: 'component', label: 'Component name', default: 'App', pattern: '[A-Z][A-Za-z0-9]*' },
+    ],
+    files: {
+      'README.md': `${README}\n\`\`\`sh\nreact-build src/{{component}}.jsx --tailwind\n\`\`\`\n`,
+      '.gitignore': NODE_GITIGNORE,
+      'package.json':
+        '{\n  "name": "{{projectName}}",\n  "version": "1.0.0",\n  "private": true,\n  "dependencies": {\n    "react": "^18.3.1",\n    "react-dom": "^18.3.1"\n  }\n}\n',
+      'src/{{component}}.jsx':
+        'import React, { useState } from \'react\';\n\nexport default function {{component}}() {\n  const [count, setCount] = useState(0);\n\n  return (\n    <main className="p-8 font-sans">\n      <h1 className="text-2xl font-bold mb-4">{{projectName}}</h1>\n      <button\n        className="px-4 py-2 rounded bg-blue-600 text-white"\n        onClick={() => setCount(count + 1)}\n      >\n        Clicked {count} times\n      </button>\n    </main>\n  );\n}\n',
+    },
+    postCreate: ['git-init', 'npm-install'],
+  },
+  {
+    id: 'typescript-library',
+    name: 'TypeScript Library',
+    description: 'Library module with typed exports and a usage example',
+    category: 'Node.js',
+    prompts: [
+      { name: 'packageName', label: 'Package name', default: '{{projectName}}', required: true },
+      { name: 'author', label: 'Author', default: '' },
+    ],
+    files: {
+      'README.md': `${README}\n\`\`\`ts\nimport { greet } from '{{packageName}}';\n\`\`\`\n\nRun \`node examples/usage.ts\` to try it.\n`,
+      '.gitignore': NODE_GITIGNORE,
+      LICENSE: 'MIT License\n\nCopyright (c) {{year}} {{author}}\n',
+      'package.json':
+        '{\n  "name": "{{packageName}}",\n  "version": "0.1.0",\n  "description": "{{description}}",\n  "author": "{{author}}",\n  "main": "dist/index.js",\n  "types": "dist/index.d.ts",\n  "files": ["dist"],\n  "license": "MIT"\n}\n',
+      'tsconfig.json':
+        '{\n  "compilerOptions": {\n    "target": "ES2020",\n    "module": "ESNext",\n    "declaration": true,\n    "outDir": "dist",\n    "strict": true\n  },\n  "include": ["src"]\n}\n',
+      'src/index.ts':
+        "export interface GreetOptions {\n  excited?: boolean;\n}\n\nexport function greet(name: string, options: GreetOptions = {}): string {\n  return `Hello, ${name}${options.excited ? '!' : '.'}`;\n}\n",
+      'examples/usage.ts':
+        "import { greet } from '../src/index';\n\nconsole.log(greet('Pyxis', { excited: true }));\n",
+    },
+    postCreate: ['git-init'],
+  },
+  {
+    id: 'python-script',
+    name: 'Python Script',
+    description: 'Python script with a main function',
+    category: 'Python',
+    prompts: [
+      {
+        name: 'module',
+        label: 'Module name',
+        default: 'main',
+        required: true,
+        pattern: '[a-z_][a-z0-9_]*',
+      },
+    ],
+    files: {
+      'README.md': `${README}\n\`\`\`sh\npython {{module}}.py\n\`\`\`\n`,
+      '.gitignore': '__pycache__/\n*.pyc\n.venv/\n',
+      '{{module}}.py':
+        '"""{{projectName}}"""\n\n\ndef main() -> None:\n    print("Hello from {{projectName}}!")\n\n\nif __name__ == "__main__":\n    main()\n',
+    },
+    postCreate: ['git-init'],
+  },
+];
+
+/**
+ * ビルトインのテンプレートをレジストリに登録
+ * @returns 登録解除関数
+ */
+export function registerBuiltinTemplates(): () => void {
+  const unregisters = BUILTIN_TEMPLATES.map(template =>
+    projectTemplateRegistry.register({
+      ...template,
+      id: `builtin.${template.id}`,
+      source: 'builtin',
+    })
+  );
+
+  return () => {
+    for (const unregister of unregisters) unregister();
+  };
+}
@@ -0,0 +1,150 @@
+// src/engine/templates/scaffold.ts
+import type { ProjectTemplate, TemplatePostCreateStep } from './types';
+
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository } from '@/engine/core/fileRepository';
+import type { Project } from '@/types';
+
+// {{name}} / {{ name }} のみを変数として扱う（JSX の style={{ color: 'red' }} などは対象外）
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export interface CreateFromTemplateOptions {
+  /** プロジェクト名 */
+  name: string;
+  description?: string;
+  /** プロンプトの入力値（未入力の変数は既定値を使う） */
+  variables?: Record<string, string>;
+  /** 実行する作成後の処理（省略時はテンプレートの postCreate 全て） */
+  postCreate?: TemplatePostCreateStep[];
+  /** 作成後の処理を開始するたびに呼ばれる（進捗表示用） */
+  onStep?: (step: TemplatePostCreateStep) => void;
+}
+
+export interface CreateFromTemplateResult {
+  project: Project;
+  /** 失敗した作成後の処理（プロジェクト自体は作成済み） */
+  failedSteps: { step: TemplatePostCreateStep; error: string }[];
+}
+
+/**
+ * `{{name}}` を変数の値に置き換える（未定義の変数はそのまま残す）
+ */
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+/**
+ * 全テンプレートで使える組み込み変数
+ */
+function getBuiltinVariables(projectName: string, description?: string): Record<string, string> {
+  return {
+    projectName,
+    description: description ?? '',
+    year: String(new Date().getFullYear()),
+  };
+}
+
+/**
+ * プロンプトの既定値（入力欄の初期値）
+ */
+export function getTemplateDefaults(
+  template: ProjectTemplate,
+  projectName: string
+): Record<string, string> {
+  const builtins = getBuiltinVariables(projectName);
+  return Object.fromEntries(
+    (template.prompts ?? []).map(prompt => [
+      prompt.name,
+      renderTemplate(prompt.default ?? '', builtins),
+    ])
+  );
+}
+
+/**
+ * 入力値と既定値・組み込み変数をまとめ、required / pattern を検証する
+ */
+export function resolveTemplateVariables(
+  template: ProjectTemplate,
+  projectName: string,
+  values: Record<string, string> = {},
+  description?: string
+): Record<string, string> {
+  const variables = getBuiltinVariables(projectName, description);
+  const defaults = getTemplateDefaults(template, projectName);
+
+  for (const prompt of template.prompts ?? []) {
+    const value = (values[prompt.name] ?? defaults[prompt.name]).trim();
+    if (prompt.required && !value) {
+      throw new Error(`Missing value for "${prompt.label}"`);
+    }
+    if (value && prompt.pattern && !new RegExp(`^(?:${prompt.pattern})$`).test(value)) {
+      throw new Error(`Invalid value for "${prompt.label}": ${value}`);
+    }
+    variables[prompt.name] = value;
+  }
+  return variables;
+}
+
+/**
+ * テンプレートから新しいプロジェクトを作成し、作成後の処理を実行する
+ * 作成後の処理（git init / npm install）が失敗してもプロジェクトは残し、failedSteps で返す
+ */
+export async function createProjectFromTemplate(
+  template: ProjectTemplate,
+  options: CreateFromTemplateOptions
+): Promise<CreateFromTemplateResult> {
+  const variables = resolveTemplateVariables(
+    template,
+    options.name,
+    options.variables,
+    options.description
+  );
+
+  const files = new Map<string, string>();
+  const folders = new Set<string>();
+  for (const [rawPath, content] of Object.entries(template.files)) {
+    const parts = renderTemplate(rawPath, variables).split('/').filter(Boolean);
+    for (let i = 1; i < parts.length; i++) folders.add(`/${parts.slice(0, i).join('/')}`);
+    files.set(`/${parts.join('/')}`, renderTemplate(content, variables));
+  }
+
+  await fileRepository.init();
+  const project = await fileRepository.createEmptyProject(options.name, options.description);
+  await fileRepository.createFilesBulk(project.id, [
+    // 親フォルダが先に作られるよう浅い順に並べる
+    ...[...folders]
+      .sort((a, b) => a.split('/').length - b.split('/').length)
+      .map(path => ({ path, content: '', type: 'folder' as const })),
+    ...[...files].map(([path, content]) => ({ path, content, type: 'file' as const })),
+  ]);
+
+  const steps = options.postCreate ?? template.postCreate ?? [];
+  const failedSteps: CreateFromTemplateResult['failedSteps'] = [];
+  for (const step of steps) {
+    options.onStep?.(step);
+    try {
+      await runPostCreateStep(step, project);
+    } catch (error) {
+      console.error(`[ProjectTemplates] ${step} failed:`, error);
+      failedSteps.push({ step, error: (error as Error).message });
+    }
+  }
+
+  return { project, failedSteps };
+}
+
+/**
+ * 作成後の処理を既存のコマンドクラスで実行する
+ */
+async function runPostCreateStep(step: TemplatePostCreateStep, project: Project): Promise<void> {
+  switch (step) {
+    case 'git-init':
+      await terminalCommandRegistry.getGitCommands(project.name, project.id).init();
+      break;
+    case 'npm-install':
+      await terminalCommandRegistry.getNpmCommands(project.name, project.id).install();
+      break;
+  }
+}
@@ -0,0 +1,63 @@
+// src/engine/templates/types.ts
+
+/**
+ * テンプレートの提供元
+ * - builtin: Pyxis 本体に含まれるテンプレート（builtinTemplates.ts）
+ * - extension: 拡張機能が registerTemplate で追加したテンプレート
+ */
+export type ProjectTemplateSource = 'builtin' | 'extension';
+
+/**
+ * プロジェクト作成後に実行する処理
+ * - git-init: GitCommands.init() でリポジトリを初期化
+ * - npm-install: NpmCommands.install() で package.json の依存関係をインストール
+ */
+export type TemplatePostCreateStep = 'git-init' | 'npm-install';
+
+/**
+ * 作成時にユーザーに入力してもらう変数
+ * ファイルの内容・パスの `{{name}}` が入力値に置き換えられる
+ */
+export interface TemplatePrompt {
+  /** 変数名（英数字と _ のみ） */
+  name: string;
+  /** 表示ラベル */
+  label: string;
+  /** 説明（オプション） */
+  description?: string;
+  /** 既定値（`{{projectName}}` などの組み込み変数を使える） */
+  default?: string;
+  /** 未入力を許可しない */
+  required?: boolean;
+  /** 入力値が一致すべき正規表現（オプション） */
+  pattern?: string;
+}
+
+/**
+ * テンプレートのマニフェスト（拡張機能が registerTemplate に渡す定義）
+ */
+export interface ProjectTemplateDefinition {
+  /** テンプレートID（拡張機能内で一意） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** 説明 */
+  description: string;
+  /** カテゴリ（"Web", "Node.js" など、オプション） */
+  category?: string;
+  /** 入力してもらう変数 */
+  prompts?: TemplatePrompt[];
+  /** ファイル（プロジェクトルートからのパス -> 内容）。フォルダは自動で作成される */
+  files: Record<string, string>;
+  /** 作成後に実行する処理（作成時にユーザーが個別に外せる） */
+  postCreate?: TemplatePostCreateStep[];
+}
+
+/**
+ * レジストリに登録されたテンプレート
+ */
+export interface ProjectTemplate extends ProjectTemplateDefinition {
+  source: ProjectTemplateSource;
+  /** 登録した拡張機能のID（source が extension の場合） */
+  extensionId?: string;
+}
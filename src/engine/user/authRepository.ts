@@ -1,10 +1,14 @@
 /**
  * AuthRepository - GitHub認証情報管理
  * LocalStorageにPersonal Access Token (PAT)を暗号化して保存
+ * GitHub以外のリモート（GitLab, Gitea 等）の認証情報もホストごとに暗号化して保存する
  */
 
 import { clearEncryptionKey, decryptText, encryptText } from './crypto';
 
+// ホストの認証情報は専用のキーで暗号化する（GitHubのサインアウトで読めなくならないように）
+const HOST_CREDENTIAL_KEY_NAME = '__pyxis_host_credential_key';
+
 export interface GitHubUser {
   login: string;
   name: string | null;
@@ -20,6 +24,22 @@ export interface GitHubAuthData {
   createdAt: number;
 }
 
+/**
+ * GitHub以外のホストの認証情報（smart HTTP の Basic 認証に使う）
+ */
+export interface HostCredential {
+  host: string;
+  username: string;
+  password: string; // パスワードまたはアクセストークン
+}
+
+// 内部ストレージ用の暗号化データ型
+interface EncryptedHostCredential {
+  host: string;
+  username: string;
+  encryptedPassword: string;
+}
+
 // 内部ストレージ用の暗号化データ型
 interface EncryptedAuthData {
   encryptedToken: string;
@@ -30,7 +50,7 @@ interface EncryptedAuthData {
 
 export class AuthRepository {
   private dbName = 'PyxisAuth';
-  private version = 1;
+  private version = 2;
   private db: IDBDatabase | null = null;
   private static instance: AuthRepository | null = null;
 
@@ -74,6 +94,12 @@ export class AuthRepository {
           const store = db.createObjectStore('auth', { keyPath: 'id' });
           console.log('[AuthRepository] Created "auth" object store');
         }
+
+        // ホストごとの認証情報ストア（v2）
+        if (!db.objectStoreNames.contains('credentials')) {
+          db.createObjectStore('credentials', { keyPath: 'host' });
+          console.log('[AuthRepository] Created "credentials" object store');
+        }
       };
     });
   }
@@ -159,7 +185,7 @@ export class AuthRepository {
   async clearAuth(): Promise<void> {
     await this.init();
 
-    // 暗号化キーもクリア
+    // 暗号化キーもクリア（ホストの認証情報のキーは残す）
     clearEncryptionKey();
 
     return new Promise((resolve, reject) => {
@@ -198,6 +224,93 @@ export class AuthRepository {
     const auth = await this.getAuth();
     return auth?.user || null;
   }
+
+  // 初期化済みのデータベース
+  private async getDatabase(): Promise<IDBDatabase> {
+    await this.init();
+    if (!this.db) {
+      throw new Error('[AuthRepository] Database is not initialized');
+    }
+    return this.db;
+  }
+
+  /**
+   * ホストの認証情報を暗号化して保存
+   */
+  async saveHostCredential(credential: HostCredential): Promise<void> {
+    const db = await this.getDatabase();
+
+    const record: EncryptedHostCredential = {
+      host: credential.host.toLowerCase(),
+      username: credential.username,
+      encryptedPassword: await encryptText(credential.password, HOST_CREDENTIAL_KEY_NAME),
+    };
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['credentials'], 'readwrite');
+      const request = transaction.objectStore('credentials').put(record);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  /**
+   * ホストの認証情報を取得（復号化）。未登録の場合は null
+   */
+  async getHostCredential(host: string): Promise<HostCredential | null> {
+    const db = await this.getDatabase();
+
+    const record = await new Promise<EncryptedHostCredential | undefined>((resolve, reject) => {
+      const transaction = db.transaction(['credentials'], 'readonly');
+      const request = transaction.objectStore('credentials').get(host.toLowerCase());
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+    if (!record) return null;
+
+    try {
+      const password = await decryptText(record.encryptedPassword, HOST_CREDENTIAL_KEY_NAME);
+      return { host: record.host, username: record.username, password };
+    } catch (error) {
+      console.error('[AuthRepository] Failed to decrypt host credential:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 認証情報が登録されているホストの一覧（パスワードは含めない）
+   */
+  async listHostCredentials(): Promise<Array<{ host: string; username: string }>> {
+    const db = await this.getDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['credentials'], 'readonly');
+      const request = transaction.objectStore('credentials').getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const records = request.result as EncryptedHostCredential[];
+        resolve(records.map(({ host, username }) => ({ host, username })));
+      };
+    });
+  }
+
+  /**
+   * ホストの認証情報を削除
+   */
+  async deleteHostCredential(host: string): Promise<void> {
+    const db = await this.getDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['credentials'], 'readwrite');
+      const request = transaction.objectStore('credentials').delete(host.toLowerCase());
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
 }
 
 // シングルトンインスタンスをエクスポート
@@ -3,13 +3,17 @@
  * Web Crypto APIを使用してトークンを暗号化/復号化
  */
 
+// GitHubトークン用のキー（サインアウト時に破棄される）
+const DEFAULT_KEY_NAME = '__pyxis_encryption_key';
+
 /**
  * ランダムな暗号化キーを生成
  * localStorageに保存してブラウザを閉じても維持
+ * @param keyName - キーの保存名（用途ごとに別のキーを使う）
  */
-async function getEncryptionKey(): Promise<CryptoKey> {
+async function getEncryptionKey(keyName = DEFAULT_KEY_NAME): Promise<CryptoKey> {
   // localStorageからキーを取得（既存の場合）
-  const storedKey = localStorage.getItem('__pyxis_encryption_key');
+  const storedKey = localStorage.getItem(keyName);
 
   if (storedKey) {
     const keyData = JSON.parse(storedKey);
@@ -27,7 +31,7 @@ async function getEncryptionKey(): Promise<CryptoKey> {
 
   // localStorageに保存（ブラウザを閉じても維持）
   const exportedKey = await crypto.subtle.exportKey('jwk', key);
-  localStorage.setItem('__pyxis_encryption_key', JSON.stringify(exportedKey));
+  localStorage.setItem(keyName, JSON.stringify(exportedKey));
 
   return key;
 }
@@ -35,9 +39,9 @@ async function getEncryptionKey(): Promise<CryptoKey> {
 /**
  * テキストを暗号化
  */
-export async function encryptText(text: string): Promise<string> {
+export async function encryptText(text: string, keyName?: string): Promise<string> {
   try {
-    const key = await getEncryptionKey();
+    const key = await getEncryptionKey(keyName);
     const iv = crypto.getRandomValues(new Uint8Array(12)); // 初期化ベクトル
     const encoder = new TextEncoder();
     const data = encoder.encode(text);
@@ -59,9 +63,9 @@ export async function encryptText(text: string): Promise<string> {
 /**
  * 暗号化されたテキストを復号化
  */
-export async function decryptText(encryptedText: string): Promise<string> {
+export async function decryptText(encryptedText: string, keyName?: string): Promise<string> {
   try {
-    const key = await getEncryptionKey();
+    const key = await getEncryptionKey(keyName);
 
     // Base64デコード
     const combined = Uint8Array.from(atob(encryptedText), c => c.charCodeAt(0));
@@ -83,6 +87,6 @@ export async function decryptText(encryptedText: string): Promise<string> {
 /**
  * 暗号化キーをクリア（サインアウト時）
  */
-export function clearEncryptionKey(): void {
-  localStorage.removeItem('__pyxis_encryption_key');
+export function clearEncryptionKey(keyName = DEFAULT_KEY_NAME): void {
+  localStorage.removeItem(keyName);
 }
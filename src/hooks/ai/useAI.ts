@@ -2,19 +2,28 @@
 
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 import { pushLogMessage } from '@/stores/loggerStore';
-import { LOCALSTORAGE_KEY } from '@/constants/config';
 import { getCustomInstructions, getSelectedFileContexts } from '@/engine/ai/contextBuilder';
-import { generateChatResponse, generateCodeEdit } from '@/engine/ai/fetchAI';
+import { type AgentStep, runAgent } from '@/engine/ai/agent/agentLoop';
+import { streamChatResponse, streamCodeEdit } from '@/engine/ai/fetchAI';
+import {
+  type StreamedPatchEvent,
+  StreamingPatchParser,
+  applySearchReplaceBlock,
+} from '@/engine/ai/patchApplier';
+import { getAIProvider, isAIConfigReady, isAbortError, loadAIConfig } from '@/engine/ai/providers';
 import { ASK_PROMPT_TEMPLATE, EDIT_PROMPT_TEMPLATE } from '@/engine/ai/prompts';
+import { type RetrievedSnippet, retrievalIndex } from '@/engine/ai/retrieval';
 import {
+  cleanupMessage,
   extractFilePathsFromResponse,
   parseEditResponse,
   validateResponse,
 } from '@/engine/ai/responseParser';
 import { fileRepository } from '@/engine/core/fileRepository';
+import { settingsManager } from '@/engine/helper/settingsManager';
 import type { AIEditResponse, AIFileContext, ChatSpaceMessage } from '@/types';
 
 interface UseAIProps {
@@ -29,11 +38,58 @@ interface UseAIProps {
   onUpdateSelectedFiles?: (files: string[]) => void;
   messages?: ChatSpaceMessage[];
   projectId?: string;
+  projectName?: string;
+}
+
+// ストリーミング中の仮メッセージに使うID（保存はされない）
+const STREAMING_MESSAGE_ID = '__streaming__';
+
+// settings.ai.autoContext が有効な場合、質問に関連するスニペットを検索インデックスから取得
+async function retrieveRelatedSnippets(
+  projectId: string | undefined,
+  query: string,
+  exclude: string[]
+): Promise<RetrievedSnippet[]> {
+  if (!projectId) return [];
+  try {
+    const settings = await settingsManager.loadSettings(projectId);
+    if (!settings.ai.autoContext) return [];
+    return await retrievalIndex.retrieve(projectId, query, {
+      limit: settings.ai.autoContextMaxFiles,
+      tokenBudget: settings.ai.autoContextTokenBudget,
+      exclude,
+    });
+  } catch (e) {
+    console.warn('[useAI] Related file retrieval failed:', e);
+    return [];
+  }
+}
+
+// チャットに表示するツール出力の最大文字数
+const MAX_STEP_OUTPUT_PREVIEW = 1500;
+
+// エージェントの1ステップをチャット表示用の Markdown に整形
+function formatAgentStep(step: AgentStep): string {
+  const status = step.isError ? ' (error)' : '';
+  const args = Object.entries(step.args)
+    .filter(([key]) => key !== 'content' && key !== 'search' && key !== 'replace')
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(' ');
+  const output =
+    step.output.length > MAX_STEP_OUTPUT_PREVIEW
+      ? `${step.output.slice(0, MAX_STEP_OUTPUT_PREVIEW)}\n...`
+      : step.output;
+  const thought = step.thought ? `${step.thought}\n\n` : '';
+  return `${thought}**Step ${step.index}${status}:** \`${step.tool}\` ${args}\n\n\`\`\`\n${output}\n\`\`\``;
 }
 
 export function useAI(props?: UseAIProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [fileContexts, setFileContexts] = useState<AIFileContext[]>([]);
+  // ストリーミング中のアシスタントメッセージと、閉じたブロックから組み立てた変更ファイル
+  const [streamingMessage, setStreamingMessage] = useState<ChatSpaceMessage | null>(null);
+  const [streamingChanges, setStreamingChanges] = useState<AIEditResponse['changedFiles']>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // storage adapter for AI review metadata
   // import dynamically to avoid circular deps in some build setups
@@ -90,12 +146,62 @@ export function useAI(props?: UseAIProps) {
     [props?.onAddMessage]
   );
 
+  // プロジェクトから既存ファイルの内容を取得（存在しなければ新規ファイル扱い）
+  const loadOriginalFile = useCallback(
+    async (path: string): Promise<{ path: string; content: string; isNewFile: boolean }> => {
+      try {
+        if (props?.projectId) {
+          await fileRepository.init();
+          const file = await fileRepository.getFileByPath(props.projectId, path);
+          if (file?.content) {
+            console.log('[useAI] Fetched existing file content for:', path);
+            return { path, content: file.content, isNewFile: false };
+          }
+        }
+      } catch (e) {
+        console.warn('[useAI] Could not fetch file content for:', path, e);
+      }
+      // This is a new file that will be created
+      return { path, content: '', isNewFile: true };
+    },
+    [props?.projectId]
+  );
+
+  // AIレビュー用のメタデータ/スナップショットを保存（projectId がある場合のみ）
+  const saveReviewEntries = useCallback(
+    (editResponse: AIEditResponse, message: string, parentMessageId?: string) => {
+      try {
+        if (props?.projectId && aiStorage && typeof aiStorage.saveAIReviewEntry === 'function') {
+          for (const f of editResponse.changedFiles) {
+            aiStorage
+              .saveAIReviewEntry(props.projectId, f.path, f.originalContent, f.suggestedContent, {
+                message,
+                parentMessageId,
+              })
+              .catch(err => console.warn('[useAI] saveAIReviewEntry failed', err));
+          }
+        }
+      } catch (e) {
+        console.warn('[useAI] AI review storage skipped:', e);
+      }
+    },
+    [aiStorage, props?.projectId]
+  );
+
+  // 生成中のリクエストを中断
+  const cancelRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   // メッセージを送信（Ask/Edit統合）
   const sendMessage = useCallback(
     async (content: string, mode: 'ask' | 'edit'): Promise<AIEditResponse | null> => {
-      const apiKey = localStorage.getItem(LOCALSTORAGE_KEY.GEMINI_API_KEY);
-      if (!apiKey) {
-        throw new Error('Gemini APIキーが設定されていません。設定画面で設定してください。');
+      const aiConfig = await loadAIConfig(props?.projectId);
+      if (!isAIConfigReady(aiConfig)) {
+        const providerName = getAIProvider(aiConfig.provider).name;
+        throw new Error(
+          `${providerName} APIキーが設定されていません。設定画面で設定してください。`
+        );
       }
 
       const selectedFiles = getSelectedFileContexts(fileContexts);
@@ -118,10 +224,31 @@ export function useAI(props?: UseAIProps) {
           editResponse: msg.editResponse, // プロンプト最適化用
         }));
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      // ストリーミング中の表示用メッセージ（確定時に addMessage で保存する）
+      let streamedText = '';
+      const updateStreamingMessage = () => {
+        setStreamingMessage({
+          id: STREAMING_MESSAGE_ID,
+          type: 'assistant',
+          content: mode === 'edit' ? cleanupMessage(streamedText) : streamedText,
+          timestamp: new Date(),
+          mode,
+        });
+      };
+
       setIsProcessing(true);
       try {
         // Get custom instructions if available
         const customInstructions = getCustomInstructions(fileContexts);
+        // 選択されていない関連ファイルのスニペットを自動で追加
+        const relatedSnippets = await retrieveRelatedSnippets(
+          props?.projectId,
+          content,
+          selectedFiles.map(f => f.path)
+        );
 
         if (mode === 'ask') {
           // Ask モード
@@ -129,9 +256,19 @@ export function useAI(props?: UseAIProps) {
             selectedFiles,
             content,
             previousMessages,
-            customInstructions
+            customInstructions,
+            relatedSnippets
+          );
+          const response = await streamChatResponse(
+            prompt,
+            [],
+            aiConfig,
+            chunk => {
+              streamedText += chunk;
+              updateStreamingMessage();
+            },
+            abortController.signal
           );
-          const response = await generateChatResponse(prompt, [], apiKey);
 
           await addMessage(response, 'assistant', 'ask');
           return null;
@@ -141,9 +278,59 @@ export function useAI(props?: UseAIProps) {
           selectedFiles,
           content,
           previousMessages,
-          customInstructions
+          customInstructions,
+          relatedSnippets
+        );
+
+        // ブロックが閉じるたびに対象ファイルへ適用し、変更ファイル一覧を段階的に更新する
+        const patchParser = new StreamingPatchParser();
+        const progressiveFiles = new Map<string, AIEditResponse['changedFiles'][number]>();
+        let pendingPatch: Promise<void> = Promise.resolve();
+
+        const applyStreamedPatch = async (event: StreamedPatchEvent) => {
+          let current = progressiveFiles.get(event.filePath);
+          if (!current) {
+            const selected = selectedFiles.find(f => f.path === event.filePath);
+            const original = selected
+              ? { path: selected.path, content: selected.content, isNewFile: false }
+              : await loadOriginalFile(event.filePath);
+            current = {
+              path: event.filePath,
+              originalContent: original.content,
+              suggestedContent: original.content,
+              explanation: '',
+              isNewFile: original.isNewFile,
+            };
+          }
+
+          const suggestedContent =
+            event.fullContent !== undefined
+              ? event.fullContent
+              : event.block
+                ? applySearchReplaceBlock(current.suggestedContent, event.block).content
+                : current.suggestedContent;
+
+          progressiveFiles.set(event.filePath, { ...current, suggestedContent });
+          if (!abortController.signal.aborted) {
+            setStreamingChanges(Array.from(progressiveFiles.values()));
+          }
+        };
+
+        const response = await streamCodeEdit(
+          prompt,
+          aiConfig,
+          chunk => {
+            streamedText += chunk;
+            updateStreamingMessage();
+            for (const event of patchParser.push(chunk)) {
+              pendingPatch = pendingPatch
+                .then(() => applyStreamedPatch(event))
+                .catch(e => console.warn('[useAI] Failed to apply streamed patch:', e));
+            }
+          },
+          abortController.signal
         );
-        const response = await generateCodeEdit(prompt, apiKey);
+        await pendingPatch;
 
         // レスポンスのバリデーション
         const validation = validateResponse(response);
@@ -169,24 +356,7 @@ export function useAI(props?: UseAIProps) {
         console.log('[useAI] New paths (not in selected):', newPaths);
 
         // Fetch actual content for files not in selectedFiles from the repository
-        const newFilesWithContent = await Promise.all(
-          newPaths.map(async (path: string) => {
-            try {
-              if (props?.projectId) {
-                await fileRepository.init();
-                const file = await fileRepository.getFileByPath(props.projectId, path);
-                if (file?.content) {
-                  console.log('[useAI] Fetched existing file content for:', path);
-                  return { path, content: file.content, isNewFile: false };
-                }
-              }
-            } catch (e) {
-              console.warn('[useAI] Could not fetch file content for:', path, e);
-            }
-            // This is a new file that will be created
-            return { path, content: '', isNewFile: true };
-          })
-        );
+        const newFilesWithContent = await Promise.all(newPaths.map(loadOriginalFile));
 
         // Define proper type for file objects with isNewFile
         interface OriginalFileWithMeta {
@@ -259,31 +429,149 @@ export function useAI(props?: UseAIProps) {
         );
 
         // Persist AI review metadata / snapshots using storage adapter when projectId provided
-        try {
-          if (props?.projectId && aiStorage && typeof aiStorage.saveAIReviewEntry === 'function') {
-            for (const f of editResponse.changedFiles) {
-              aiStorage
-                .saveAIReviewEntry(props.projectId, f.path, f.originalContent, f.suggestedContent, {
-                  message: parseResult.message,
-                  parentMessageId: assistantMsg?.id,
-                })
-                .catch(err => console.warn('[useAI] saveAIReviewEntry failed', err));
-            }
-          }
-        } catch (e) {
-          console.warn('[useAI] AI review storage skipped:', e);
-        }
+        saveReviewEntries(editResponse, parseResult.message, assistantMsg?.id);
 
         return editResponse;
       } catch (error) {
+        // ユーザーによる中断: 受信済みの本文を残して終了（Editモードの変更は採用しない）
+        if (isAbortError(error)) {
+          const partial = mode === 'edit' ? cleanupMessage(streamedText) : streamedText.trim();
+          const cancelNote = '_(Generation cancelled)_';
+          await addMessage(partial ? `${partial}\n\n${cancelNote}` : cancelNote, 'assistant', mode);
+          return null;
+        }
         const errorMessage = `Error: ${(error as Error).message}`;
         await addMessage(errorMessage, 'assistant', mode);
         throw error;
       } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
+        setStreamingMessage(null);
+        setStreamingChanges([]);
+        setIsProcessing(false);
+      }
+    },
+    [
+      fileContexts,
+      addMessage,
+      loadOriginalFile,
+      saveReviewEntries,
+      props?.messages,
+      props?.projectId,
+    ]
+  );
+
+  // エージェントモードで送信（ツール呼び出しを繰り返し、変更はレビューへ回す）
+  const sendAgentMessage = useCallback(
+    async (content: string): Promise<AIEditResponse | null> => {
+      const aiConfig = await loadAIConfig(props?.projectId);
+      if (!isAIConfigReady(aiConfig)) {
+        const providerName = getAIProvider(aiConfig.provider).name;
+        throw new Error(
+          `${providerName} APIキーが設定されていません。設定画面で設定してください。`
+        );
+      }
+      if (!props?.projectId || !props.projectName) {
+        throw new Error('プロジェクトが選択されていません。');
+      }
+
+      const selectedFiles = getSelectedFileContexts(fileContexts);
+      await addMessage(
+        content,
+        'user',
+        'edit',
+        selectedFiles.map(f => f.path)
+      );
+
+      const previousMessages = props.messages
+        ?.filter(msg => typeof msg.content === 'string' && msg.content.trim().length > 0)
+        ?.map(msg => ({
+          type: msg.type,
+          content: msg.content,
+          mode: msg.mode,
+          editResponse: msg.editResponse,
+        }));
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      setIsProcessing(true);
+      try {
+        const result = await runAgent({
+          config: aiConfig,
+          instruction: content,
+          projectId: props.projectId,
+          projectName: props.projectName,
+          files: selectedFiles,
+          previousMessages,
+          customInstructions: getCustomInstructions(fileContexts),
+          relatedSnippets: await retrieveRelatedSnippets(
+            props.projectId,
+            content,
+            selectedFiles.map(f => f.path)
+          ),
+          signal: abortController.signal,
+          // 各ステップをチャットに表示
+          onStep: async step => {
+            await addMessage(formatAgentStep(step), 'assistant', 'edit');
+          },
+          onChanges: changes => setStreamingChanges(changes),
+        });
+
+        const editResponse: AIEditResponse = {
+          changedFiles: result.changedFiles,
+          message: result.summary,
+        };
+
+        let detailedMessage = result.summary;
+        if (editResponse.changedFiles.length > 0) {
+          detailedMessage = `Agent finished after ${result.steps.length} steps.\n\n**Changed files:** ${editResponse.changedFiles.length}\n\n`;
+          editResponse.changedFiles.forEach((file, index) => {
+            const newLabel = file.isNewFile ? ' (new)' : '';
+            detailedMessage += `${index + 1}. **${file.path}**${newLabel}\n`;
+            if (file.explanation) {
+              detailedMessage += `   - ${file.explanation}\n`;
+            }
+            detailedMessage += '\n';
+          });
+          detailedMessage += result.summary;
+        }
+
+        const assistantMsg = await addMessage(
+          detailedMessage,
+          'assistant',
+          'edit',
+          [],
+          editResponse.changedFiles.length > 0 ? editResponse : undefined
+        );
+        saveReviewEntries(editResponse, result.summary, assistantMsg?.id);
+
+        return editResponse;
+      } catch (error) {
+        // ユーザーによる中断: 途中までの変更提案は採用しない
+        if (isAbortError(error)) {
+          await addMessage('_(Agent cancelled)_', 'assistant', 'edit');
+          return null;
+        }
+        await addMessage(`Error: ${(error as Error).message}`, 'assistant', 'edit');
+        throw error;
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
+        setStreamingChanges([]);
         setIsProcessing(false);
       }
     },
-    [fileContexts, addMessage, props?.messages]
+    [
+      fileContexts,
+      addMessage,
+      saveReviewEntries,
+      props?.messages,
+      props?.projectId,
+      props?.projectName,
+    ]
   );
 
   // ファイルコンテキストを更新
@@ -350,8 +638,12 @@ export function useAI(props?: UseAIProps) {
   return {
     messages: props?.messages || [],
     isProcessing,
+    streamingMessage,
+    streamingChanges,
     fileContexts,
     sendMessage,
+    sendAgentMessage,
+    cancelRequest,
     updateFileContexts,
     toggleFileSelection,
     generatePromptText,
@@ -4,6 +4,7 @@ export const DEFAULT_BINDINGS: Binding[] = [
   { id: 'saveFile', name: 'Save File', combo: 'Ctrl+S', category: 'file' },
   { id: 'saveFileAs', name: 'Save File As', combo: 'Ctrl+Shift+S', category: 'file' },
   { id: 'quickOpen', name: 'Quick Open', combo: 'Ctrl+P', category: 'file' },
+  { id: 'commandPalette', name: 'Command Palette', combo: 'Ctrl+Shift+P', category: 'view' },
   { id: 'newFile', name: 'New File', combo: 'Ctrl+N', category: 'file' },
 
   // Search
@@ -0,0 +1,27 @@
+// src/stores/gitHistoryStore.ts
+/**
+ * Git履歴パネルへの表示リクエストを管理するストア
+ *
+ * エディタの blame ホバーなど、GitHistory の外からコミットを表示したい場合に使う。
+ * page.tsx が Git パネルに切り替え、GitHistory が該当コミットを展開してスクロールする。
+ */
+
+import { proxy, useSnapshot } from 'valtio';
+
+export const gitHistoryState = proxy({
+  /** 表示したいコミットID（処理後に null に戻す） */
+  revealCommit: null as string | null,
+  /** 同じコミットの再リクエストも検知するための連番 */
+  revealRequestId: 0,
+});
+
+export const revealCommitInHistory = (commitId: string) => {
+  gitHistoryState.revealCommit = commitId;
+  gitHistoryState.revealRequestId += 1;
+};
+
+export const clearRevealCommit = () => {
+  gitHistoryState.revealCommit = null;
+};
+
+export const useGitHistorySnapshot = () => useSnapshot(gitHistoryState);
@@ -4,15 +4,49 @@ import { STORES, storageService } from '@/engine/storage';
  * Terminal History Storage (migrated)
  * - Previously used sessionStorage. Now persisted in IndexedDB via storageService under USER_PREFERENCES.
  * - All APIs are async and return Promises.
+ * - Each terminal instance has its own history; the layout of the terminals is stored per project.
  */
 const TERMINAL_HISTORY_KEY_PREFIX = 'terminalHistory_';
+const TERMINAL_SESSIONS_KEY_PREFIX = 'terminalSessions_';
+
+/**
+ * 保存するターミナルインスタンスの情報
+ */
+export interface SavedTerminalSession {
+  id: string;
+  name: string;
+  /** 同じ groupId のターミナルは横に並べて表示する */
+  groupId: string;
+  /** 最後に記録したカレントディレクトリ */
+  cwd?: string;
+}
+
+/**
+ * プロジェクトのターミナル一覧とアクティブなターミナル
+ */
+export interface SavedTerminalSessions {
+  sessions: SavedTerminalSession[];
+  activeId: string;
+}
+
+// 最初のターミナル（'default'）は以前と同じキーを使い、既存の履歴を引き継ぐ
+function historyKey(projectName: string, terminalId?: string): string {
+  return !terminalId || terminalId === 'default'
+    ? `${TERMINAL_HISTORY_KEY_PREFIX}${projectName}`
+    : `${TERMINAL_HISTORY_KEY_PREFIX}${projectName}::${terminalId}`;
+}
 
 /**
  * ターミナルコマンド履歴を保存
+ * @param terminalId - ターミナルインスタンスのID（省略時は最初のターミナル）
  */
-export async function saveTerminalHistory(projectName: string, history: string[]): Promise<void> {
+export async function saveTerminalHistory(
+  projectName: string,
+  history: string[],
+  terminalId?: string
+): Promise<void> {
   try {
-    const key = `${TERMINAL_HISTORY_KEY_PREFIX}${projectName}`;
+    const key = historyKey(projectName, terminalId);
     await storageService.set(STORES.USER_PREFERENCES, key, history);
   } catch (error) {
     console.warn('[terminalHistoryStorage] Failed to save terminal history:', error);
@@ -22,9 +56,12 @@ export async function saveTerminalHistory(projectName: string, history: string[]
 /**
  * ターミナルコマンド履歴を取得
  */
-export async function getTerminalHistory(projectName: string): Promise<string[]> {
+export async function getTerminalHistory(
+  projectName: string,
+  terminalId?: string
+): Promise<string[]> {
   try {
-    const key = `${TERMINAL_HISTORY_KEY_PREFIX}${projectName}`;
+    const key = historyKey(projectName, terminalId);
     const saved = await storageService.get<string[]>(STORES.USER_PREFERENCES, key);
     return saved || [];
   } catch (error) {
@@ -36,15 +73,49 @@ export async function getTerminalHistory(projectName: string): Promise<string[]>
 /**
  * ターミナルコマンド履歴を削除
  */
-export async function clearTerminalHistory(projectName: string): Promise<void> {
+export async function clearTerminalHistory(
+  projectName: string,
+  terminalId?: string
+): Promise<void> {
   try {
-    const key = `${TERMINAL_HISTORY_KEY_PREFIX}${projectName}`;
+    const key = historyKey(projectName, terminalId);
     await storageService.delete(STORES.USER_PREFERENCES, key);
   } catch (error) {
     console.warn('[terminalHistoryStorage] Failed to clear terminal history:', error);
   }
 }
 
+/**
+ * ターミナル一覧を保存
+ */
+export async function saveTerminalSessions(
+  projectName: string,
+  state: SavedTerminalSessions
+): Promise<void> {
+  try {
+    const key = `${TERMINAL_SESSIONS_KEY_PREFIX}${projectName}`;
+    await storageService.set(STORES.USER_PREFERENCES, key, state);
+  } catch (error) {
+    console.warn('[terminalHistoryStorage] Failed to save terminal sessions:', error);
+  }
+}
+
+/**
+ * ターミナル一覧を取得（未保存なら null）
+ */
+export async function getTerminalSessions(
+  projectName: string
+): Promise<SavedTerminalSessions | null> {
+  try {
+    const key = `${TERMINAL_SESSIONS_KEY_PREFIX}${projectName}`;
+    const saved = await storageService.get<SavedTerminalSessions>(STORES.USER_PREFERENCES, key);
+    return saved && Array.isArray(saved.sessions) && saved.sessions.length > 0 ? saved : null;
+  } catch (error) {
+    console.warn('[terminalHistoryStorage] Failed to load terminal sessions:', error);
+    return null;
+  }
+}
+
 /**
  * 全てのターミナルコマンド履歴を削除
  */
@@ -53,7 +124,10 @@ export async function clearAllTerminalHistory(): Promise<void> {
     const all = await storageService.getAll(STORES.USER_PREFERENCES);
     const keysToDelete = all
       .map(e => e.id)
-      .filter(id => id.startsWith(TERMINAL_HISTORY_KEY_PREFIX));
+      .filter(
+        id =>
+          id.startsWith(TERMINAL_HISTORY_KEY_PREFIX) || id.startsWith(TERMINAL_SESSIONS_KEY_PREFIX)
+      );
 
     await Promise.all(keysToDelete.map(k => storageService.delete(STORES.USER_PREFERENCES, k)));
   } catch (error) {
@@ -44,3 +44,65 @@ export interface GitRepository {
   status: GitStatus;
   currentBranch: string;
 }
+
+export interface GitStashEntry {
+  /** stash@{index} の index（0 が最新） */
+  index: number;
+  /** 例: 'stash@{0}' */
+  ref: string;
+  oid: string;
+  /** 例: 'WIP on main: abc1234 message' */
+  message: string;
+  timestamp: number;
+}
+
+export interface GitTagEntry {
+  name: string;
+  /** refs/tags/<name> の値（注釈付きタグは tag オブジェクトの oid） */
+  oid: string;
+  /** タグが指すコミット */
+  commit: string;
+  annotated: boolean;
+  /** 注釈付きタグのみ */
+  message?: string;
+  tagger?: string;
+  timestamp?: number;
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop';
+
+/**
+ * 対話的リベースのtodoリストの1行
+ */
+export interface RebaseTodoItem {
+  action: RebaseAction;
+  oid: string;
+  shortOid: string;
+  /** コミットメッセージの1行目 */
+  subject: string;
+  /** reword / squash で使う新しいコミットメッセージ（省略時は元のメッセージ） */
+  message?: string;
+}
+
+/**
+ * git blame の1行分
+ */
+export interface GitBlameLine {
+  /** 現在のファイルでの行番号（1始まり） */
+  lineNumber: number;
+  /** コミット時点のファイルでの行番号（1始まり） */
+  originalLineNumber: number;
+  /** 未コミットの行は '0' x 40 */
+  oid: string;
+  author: string;
+  authorEmail: string;
+  /** UNIX時間（秒） */
+  timestamp: number;
+  /** UTCとの差（分）。isomorphic-git と同じく UTC+9 は -540 */
+  timezoneOffset: number;
+  /** コミットメッセージの1行目 */
+  summary: string;
+  /** 親を持たないコミット（履歴の起点） */
+  boundary: boolean;
+  content: string;
+}
@@ -2,6 +2,12 @@
  * .pyxis/settings.json の型定義
  */
 
+/**
+ * AIプロバイダーの識別子
+ * - local: llama.cpp server 等のローカルOpenAI互換エンドポイント
+ */
+export type AIProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+
 export interface PyxisSettings {
   // エディター設定
   editor: {
@@ -9,6 +15,7 @@ export interface PyxisSettings {
     tabSize: number;
     insertSpaces: boolean;
     wordWrap: boolean;
+    gitBlame: boolean; // Monaco エディタに行ごとの git blame を表示
   };
 
   // テーマ設定
@@ -42,6 +49,24 @@ export interface PyxisSettings {
       delimiter: 'dollar' | 'bracket' | 'both';
     };
   };
+
+  // Git設定（認証情報は authRepository に保存し、ここには含めない）
+  git: {
+    // GitHub以外のリモートへの smart HTTP で使う CORS プロキシ（空の場合は直接接続）
+    corsProxy: string;
+  };
+
+  // AI設定（APIキーはlocalStorageに保存し、ここには含めない）
+  ai: {
+    provider: AIProviderId;
+    model: string; // 空の場合はプロバイダーの既定モデル
+    baseUrl: string; // 空の場合はプロバイダーの既定URL
+    temperature?: number; // 未指定の場合は用途ごとの既定値
+    maxOutputTokens?: number;
+    autoContext: boolean; // 質問に関連するファイルを自動でコンテキストに追加
+    autoContextMaxFiles: number;
+    autoContextTokenBudget: number; // 自動追加するスニペット全体のトークン数（概算）
+  };
 }
 
 /**
@@ -53,6 +78,7 @@ export const DEFAULT_PYXIS_SETTINGS: PyxisSettings = {
     tabSize: 2,
     insertSpaces: true,
     wordWrap: false,
+    gitBlame: false,
   },
   theme: {
     colorTheme: 'dark',
@@ -83,4 +109,15 @@ export const DEFAULT_PYXIS_SETTINGS: PyxisSettings = {
   files: {
     exclude: ['**/.git', '**/.DS_Store', '**/Thumbs.db'],
   },
+  git: {
+    corsProxy: 'https://cors.isomorphic-git.org',
+  },
+  ai: {
+    provider: 'gemini',
+    model: '',
+    baseUrl: '',
+    autoContext: true,
+    autoContextMaxFiles: 5,
+    autoContextTokenBudget: 6000,
+  },
 };
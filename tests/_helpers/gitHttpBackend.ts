@@ -0,0 +1,98 @@
+/**
+ * smart HTTP の git サーバーヘルパー
+ * git http-backend を CGI として起動するローカルの HTTP サーバー（GitLab / Gitea 等の代わり）
+ */
+
+import { execFileSync, spawn } from 'node:child_process';
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+export interface GitHttpBackend {
+  /** http://127.0.0.1:<port>/repo.git */
+  url: string;
+  /** ベアリポジトリのパス */
+  repoPath: string;
+  /** ベアリポジトリで git コマンドを実行して標準出力を返す */
+  git: (...args: string[]) => string;
+  close: () => Promise<void>;
+}
+
+/**
+ * ベアリポジトリ repo.git を公開するサーバーを起動する
+ * auth を指定すると Basic 認証を要求する
+ */
+export async function startGitHttpBackend(
+  options: { auth?: { username: string; password: string } } = {}
+): Promise<GitHttpBackend> {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-git-http-'));
+  const repoPath = path.join(root, 'repo.git');
+  execFileSync('git', ['init', '--quiet', '--bare', '--initial-branch=main', repoPath]);
+  execFileSync('git', ['--git-dir', repoPath, 'config', 'http.receivepack', 'true']);
+
+  const expectedAuth = options.auth
+    ? `Basic ${Buffer.from(`${options.auth.username}:${options.auth.password}`).toString('base64')}`
+    : null;
+
+  const server = http.createServer((req, res) => {
+    if (expectedAuth && req.headers.authorization !== expectedAuth) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="git"' });
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const child = spawn('git', ['http-backend'], {
+      env: {
+        ...process.env,
+        GIT_PROJECT_ROOT: root,
+        GIT_HTTP_EXPORT_ALL: '1',
+        PATH_INFO: url.pathname,
+        QUERY_STRING: url.search.slice(1),
+        REQUEST_METHOD: req.method ?? 'GET',
+        CONTENT_TYPE: req.headers['content-type'] ?? '',
+        REMOTE_ADDR: '127.0.0.1',
+      },
+    });
+    req.pipe(child.stdin);
+
+    // CGI の出力（ヘッダー + 空行 + ボディ）を HTTP レスポンスに変換
+    const chunks: Buffer[] = [];
+    child.stdout.on('data', chunk => chunks.push(chunk));
+    child.on('close', () => {
+      const output = Buffer.concat(chunks);
+      const separator = output.indexOf('\r\n\r\n');
+      const headerText = output.subarray(0, separator).toString();
+      const headers: Record<string, string> = {};
+      let status = 200;
+      for (const line of headerText.split('\r\n')) {
+        const index = line.indexOf(':');
+        const name = line.slice(0, index).trim();
+        const value = line.slice(index + 1).trim();
+        if (name.toLowerCase() === 'status') {
+          status = Number.parseInt(value, 10);
+        } else if (name) {
+          headers[name] = value;
+        }
+      }
+      res.writeHead(status, headers);
+      res.end(output.subarray(separator + 4));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/repo.git`,
+    repoPath,
+    git: (...args) =>
+      execFileSync('git', ['--git-dir', repoPath, ...args], { encoding: 'utf8' }).trim(),
+    close: async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      fs.rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
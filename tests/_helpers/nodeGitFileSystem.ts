@@ -0,0 +1,56 @@
+/**
+ * GitFileSystem のテストヘルパー
+ * gitFileSystem を一時ディレクトリ上の node:fs に差し替える
+ *
+ * vi.mock は巻き上げられるため、ファクトリの中で動的に import して使う:
+ *   vi.mock('@/engine/core/gitFileSystem', async () => {
+ *     const { createNodeGitFileSystem } = await import('../../_helpers/nodeGitFileSystem');
+ *     return { gitFileSystem: createNodeGitFileSystem() };
+ *   });
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { vi } from 'vitest';
+
+/** プロジェクトのディレクトリを置く一時ディレクトリ（createTempGitRoot で作り直す） */
+export const gitRoot = { dir: '' };
+
+/**
+ * gitRoot.dir/<プロジェクト名> を各プロジェクトのディレクトリとする gitFileSystem
+ */
+export function createNodeGitFileSystem() {
+  return {
+    getFS: () => fs,
+    getProjectDir: (name: string) => `${gitRoot.dir}/${name}`,
+    ensureDirectory: async (dir: string) => {
+      fs.mkdirSync(dir, { recursive: true });
+    },
+    writeFile: async (name: string, filePath: string, content: string | Uint8Array) => {
+      const fullPath = path.join(gitRoot.dir, name, filePath);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+    },
+    deleteProject: async (name: string) => {
+      fs.rmSync(`${gitRoot.dir}/${name}`, { recursive: true, force: true });
+    },
+    flush: vi.fn(),
+  };
+}
+
+/**
+ * 一時ディレクトリを作成して gitRoot.dir に設定する（beforeEach で呼ぶ）
+ */
+export function createTempGitRoot(prefix: string): string {
+  gitRoot.dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  return gitRoot.dir;
+}
+
+/**
+ * gitRoot.dir を削除する（afterEach で呼ぶ）
+ */
+export function removeTempGitRoot(): void {
+  fs.rmSync(gitRoot.dir, { recursive: true, force: true });
+}
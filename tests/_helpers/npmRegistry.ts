@@ -0,0 +1,71 @@
+/**
+ * npm レジストリのテストヘルパー
+ * tarball の作成と、fetch をメモリ上のレジストリに差し替えるモック（ネットワークに依存しない）
+ */
+
+import pako from 'pako';
+import tarStream from 'tar-stream';
+import { vi } from 'vitest';
+
+export interface FakeNpmRegistry {
+  /** URL → tarball（Uint8Array）またはメタデータ（JSON で返す） */
+  responses: Map<string, Uint8Array | object>;
+  /** 受け取ったリクエスト（URL と Authorization ヘッダー） */
+  requests: Array<{ url: string; authorization?: string }>;
+  /** true の間は fetch がネットワークエラーで失敗する */
+  offline: boolean;
+}
+
+/**
+ * package/ 以下にファイルを置いた .tgz を作成する
+ */
+export async function createTarball(files: Record<string, string>): Promise<Uint8Array> {
+  const pack = tarStream.pack();
+  const chunks: Uint8Array[] = [];
+  pack.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+  const done = new Promise(resolve => pack.on('end', resolve));
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name: `package/${name}` }, content);
+  }
+  pack.finalize();
+  await done;
+  return pako.gzip(Buffer.concat(chunks));
+}
+
+/**
+ * package.json と index.js だけのパッケージの .tgz を作成する
+ */
+export function createPackageTarball(
+  name: string,
+  version: string,
+  dependencies?: Record<string, string>
+): Promise<Uint8Array> {
+  return createTarball({
+    'package.json': JSON.stringify({ name, version, dependencies }),
+    'index.js': `module.exports = '${name}@${version}';\n`,
+  });
+}
+
+/**
+ * fetch をメモリ上のレジストリに差し替える
+ * 登録されていない URL は 404 を返す（afterEach で vi.unstubAllGlobals() を呼ぶこと）
+ */
+export function stubNpmRegistry(): FakeNpmRegistry {
+  const registry: FakeNpmRegistry = { responses: new Map(), requests: [], offline: false };
+
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (input: string, init?: RequestInit) => {
+      const url = String(input);
+      const headers = (init?.headers ?? {}) as Record<string, string>;
+      registry.requests.push({ url, authorization: headers.Authorization });
+      if (registry.offline) throw new TypeError('Failed to fetch');
+      const body = registry.responses.get(url);
+      if (body instanceof Uint8Array) return new Response(body);
+      if (body) return Response.json(body);
+      return new Response('not found', { status: 404, statusText: 'Not Found' });
+    })
+  );
+
+  return registry;
+}
@@ -0,0 +1,286 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { type AgentStep, parseToolCall, runAgent } from '@/engine/ai/agent/agentLoop';
+import { createAgentTools } from '@/engine/ai/agent/tools';
+import { generateAgentStep } from '@/engine/ai/fetchAI';
+import type { AIProviderConfig } from '@/engine/ai/providers';
+
+/**
+ * エージェントループのテスト
+ * モデルの応答を順番に返すモックで、ツール呼び出し・変更提案・終了条件を検証
+ */
+
+vi.mock('@/engine/ai/fetchAI', () => ({
+  generateAgentStep: vi.fn(),
+}));
+
+// エディタでの保存（ユーザーの編集）を再現するため、保存リスナーを差し替える
+const editor = vi.hoisted(() => ({
+  listeners: new Set<(path: string, success: boolean) => void>(),
+  // run_command が保存リスナーを登録したとき（実行前のスナップショット後）に呼ばれる
+  onListen: null as (() => void) | null,
+}));
+vi.mock('@/stores/tabState', () => ({
+  addSaveListener: (listener: (path: string, success: boolean) => void) => {
+    editor.listeners.add(listener);
+    editor.onListen?.();
+    return () => editor.listeners.delete(listener);
+  },
+}));
+
+const config: AIProviderConfig = {
+  provider: 'local',
+  model: 'test',
+  baseUrl: 'http://localhost',
+  apiKey: '',
+};
+
+function toolCall(name: string, args: Record<string, unknown>, thought = ''): string {
+  return `${thought}\n<tool_call>\n${JSON.stringify({ name, arguments: args })}\n</tool_call>`;
+}
+
+function scriptResponses(responses: string[]) {
+  const mock = vi.mocked(generateAgentStep);
+  mock.mockReset();
+  for (const response of responses) {
+    mock.mockResolvedValueOnce(response);
+  }
+  return mock;
+}
+
+// シェルに依存しないツールのみを使う
+const fileTools = () =>
+  createAgentTools().filter(t =>
+    ['read_file', 'write_file', 'edit_file', 'finish'].includes(t.name)
+  );
+
+describe('parseToolCall', () => {
+  it('説明文とツール呼び出しを分離する', () => {
+    const result = parseToolCall(toolCall('read_file', { path: '/a.ts' }, 'まず読みます'));
+    expect(result.thought).toBe('まず読みます');
+    expect(result.call).toEqual({ name: 'read_file', arguments: { path: '/a.ts' } });
+  });
+
+  it('コードフェンスで囲まれた JSON も受け付ける', () => {
+    const result = parseToolCall(
+      '<tool_call>\n```json\n{"name": "finish", "arguments": {"summary": "ok"}}\n```\n</tool_call>'
+    );
+    expect(result.call?.name).toBe('finish');
+  });
+
+  it('壊れた JSON はエラーを返す', () => {
+    const result = parseToolCall('<tool_call>{"name": </tool_call>');
+    expect(result.call).toBeNull();
+    expect(result.error).toMatch(/Invalid tool call JSON/);
+  });
+
+  it('ツール呼び出しがなければ最終回答として扱う', () => {
+    const result = parseToolCall('完了しました');
+    expect(result).toEqual({ thought: '完了しました', call: null });
+  });
+});
+
+describe('runAgent', () => {
+  let projectId: string;
+  let projectName: string;
+
+  beforeEach(async () => {
+    const setup = await setupTestProject('AgentProject');
+    projectId = setup.projectId;
+    projectName = setup.projectName;
+    await setup.repo.createFilesBulk(projectId, [
+      { path: '/src', content: '', type: 'folder' },
+      { path: '/src/a.ts', content: 'export const a = 1;\n', type: 'file' },
+    ]);
+  });
+
+  it('ファイルを読んで編集し、変更はリポジトリに書き込まず提案として返す', async () => {
+    const mock = scriptResponses([
+      toolCall('read_file', { path: '/src/a.ts' }),
+      toolCall('edit_file', {
+        path: '/src/a.ts',
+        search: 'export const a = 1;',
+        replace: 'export const a = 2;',
+        reason: 'bump',
+      }),
+      toolCall('write_file', { path: 'src/b.ts', content: 'export const b = 1;\n' }),
+      toolCall('finish', { summary: '2ファイルを変更しました' }),
+    ]);
+
+    const steps: AgentStep[] = [];
+    const onChanges = vi.fn();
+    const result = await runAgent({
+      config,
+      instruction: 'a を 2 にして b を追加',
+      projectId,
+      projectName,
+      tools: fileTools(),
+      onStep: step => {
+        steps.push(step);
+      },
+      onChanges,
+    });
+
+    expect(result.summary).toBe('2ファイルを変更しました');
+    expect(result.reachedStepLimit).toBe(false);
+    expect(steps.map(s => s.tool)).toEqual(['read_file', 'edit_file', 'write_file']);
+    expect(steps[0].output).toBe('export const a = 1;\n');
+    expect(onChanges).toHaveBeenCalledTimes(2);
+
+    expect(result.changedFiles).toEqual([
+      {
+        path: '/src/a.ts',
+        originalContent: 'export const a = 1;\n',
+        suggestedContent: 'export const a = 2;\n',
+        explanation: 'bump',
+        isNewFile: false,
+      },
+      {
+        path: '/src/b.ts',
+        originalContent: '',
+        suggestedContent: 'export const b = 1;\n',
+        explanation: '',
+        isNewFile: true,
+      },
+    ]);
+
+    // 2回目以降のプロンプトには前のステップの結果が含まれる
+    expect(mock.mock.calls[1][0]).toContain('### Step 1');
+    expect(mock.mock.calls[1][0]).toContain('export const a = 1;');
+
+    // リポジトリは変更されていない
+    const { fileRepository } = await import('@/engine/core/fileRepository');
+    const file = await fileRepository.getFileByPath(projectId, '/src/a.ts');
+    expect(file?.content).toBe('export const a = 1;\n');
+  });
+
+  it('run_command が変更したファイルは元に戻して変更提案にする', async () => {
+    scriptResponses([
+      toolCall('run_command', { command: 'echo changed > /src/a.ts' }),
+      toolCall('run_command', { command: 'echo new > /src/c.ts' }),
+      toolCall('run_command', { command: 'rm /src/b.txt' }),
+      toolCall('finish', { summary: 'done' }),
+    ]);
+    const { fileRepository } = await import('@/engine/core/fileRepository');
+    await fileRepository.createFile(projectId, '/src/b.txt', 'keep\n', 'file');
+
+    const result = await runAgent({
+      config,
+      instruction: 'コマンドで変更',
+      projectId,
+      projectName,
+      tools: createAgentTools().filter(t => ['run_command', 'finish'].includes(t.name)),
+    });
+
+    expect(result.steps.map(step => step.output)).toEqual([
+      '[exit code: 0]\n[file changes queued for review: /src/a.ts]',
+      '[exit code: 0]\n[file changes queued for review: /src/c.ts]',
+      expect.stringContaining('[deleted files were restored: /src/b.txt]'),
+    ]);
+    expect(result.changedFiles).toEqual([
+      {
+        path: '/src/a.ts',
+        originalContent: 'export const a = 1;\n',
+        suggestedContent: 'changed\n',
+        explanation: 'Changed by `echo changed > /src/a.ts`',
+        isNewFile: false,
+      },
+      expect.objectContaining({ path: '/src/c.ts', suggestedContent: 'new\n', isNewFile: true }),
+    ]);
+
+    // リポジトリは実行前の状態に戻っている
+    expect((await fileRepository.getFileByPath(projectId, '/src/a.ts'))?.content).toBe(
+      'export const a = 1;\n'
+    );
+    expect(await fileRepository.getFileByPath(projectId, '/src/c.ts')).toBeNull();
+    expect((await fileRepository.getFileByPath(projectId, '/src/b.txt'))?.content).toBe('keep\n');
+  });
+
+  it('run_command の実行中にユーザーが保存したファイルは元に戻さず提案にも含めない', async () => {
+    scriptResponses([
+      toolCall('run_command', { command: 'sleep 0.3' }),
+      toolCall('finish', { summary: 'done' }),
+    ]);
+    const { fileRepository } = await import('@/engine/core/fileRepository');
+    editor.onListen = () => {
+      editor.onListen = null;
+      setTimeout(async () => {
+        await fileRepository.saveFileByPath(projectId, '/src/a.ts', 'export const a = 3;\n');
+        for (const listener of editor.listeners) listener('/src/a.ts', true);
+      }, 50);
+    };
+
+    const result = await runAgent({
+      config,
+      instruction: '待つ',
+      projectId,
+      projectName,
+      tools: createAgentTools().filter(t => ['run_command', 'finish'].includes(t.name)),
+    });
+
+    expect(result.steps[0].output).toBe('[exit code: 0]');
+    expect(result.changedFiles).toEqual([]);
+    expect((await fileRepository.getFileByPath(projectId, '/src/a.ts'))?.content).toBe(
+      'export const a = 3;\n'
+    );
+  });
+
+  it('ツールのエラーはモデルに返して続行する', async () => {
+    scriptResponses([
+      toolCall('read_file', { path: '/missing.ts' }),
+      toolCall('unknown_tool', {}),
+      '修正できませんでした',
+    ]);
+
+    const result = await runAgent({
+      config,
+      instruction: 'test',
+      projectId,
+      projectName,
+      tools: fileTools(),
+    });
+
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0]).toMatchObject({ isError: true, output: 'File not found: /missing.ts' });
+    expect(result.steps[1].output).toMatch(/^Unknown tool: unknown_tool/);
+    expect(result.summary).toBe('修正できませんでした');
+  });
+
+  it('ステップ上限に達したら終了する', async () => {
+    const mock = vi.mocked(generateAgentStep);
+    mock.mockReset();
+    mock.mockResolvedValue(toolCall('read_file', { path: '/src/a.ts' }));
+
+    const result = await runAgent({
+      config,
+      instruction: 'loop',
+      projectId,
+      projectName,
+      tools: fileTools(),
+      maxSteps: 3,
+    });
+
+    expect(result.reachedStepLimit).toBe(true);
+    expect(result.steps).toHaveLength(3);
+    expect(mock).toHaveBeenCalledTimes(3);
+  });
+
+  it('中断されたら AbortError を投げる', async () => {
+    const controller = new AbortController();
+    scriptResponses([toolCall('read_file', { path: '/src/a.ts' })]);
+
+    await expect(
+      runAgent({
+        config,
+        instruction: 'abort',
+        projectId,
+        projectName,
+        tools: fileTools(),
+        signal: controller.signal,
+        onStep: () => controller.abort(),
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { generateText, isAIConfigReady, resolveAIConfig, streamText } from '@/engine/ai/providers';
+
+/**
+ * AIプロバイダー層のテスト
+ * 設定の解決と、各プロバイダーのリクエスト/レスポンス変換を検証
+ */
+
+function mockFetch(body: unknown, ok = true, status = 200) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok,
+    status,
+    json: async () => body,
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const request = { prompt: 'hello', temperature: 0.7, maxOutputTokens: 2048 };
+
+describe('AI providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // ==================== resolveAIConfig ====================
+
+  describe('resolveAIConfig', () => {
+    it('未設定の場合は Gemini の既定値を使う', () => {
+      const config = resolveAIConfig(undefined, 'key');
+      expect(config.provider).toBe('gemini');
+      expect(config.model).toBe('gemini-2.5-flash');
+      expect(config.baseUrl).toBe('https://generativelanguage.googleapis.com/v1beta');
+    });
+
+    it('モデル名とベースURLを設定で上書きする（末尾スラッシュは除去）', () => {
+      const config = resolveAIConfig(
+        { provider: 'local', model: 'qwen2.5-coder', baseUrl: 'http://127.0.0.1:9000/v1/' },
+        ''
+      );
+      expect(config.model).toBe('qwen2.5-coder');
+      expect(config.baseUrl).toBe('http://127.0.0.1:9000/v1');
+    });
+
+    it('ローカルプロバイダーはAPIキー無しで利用可能', () => {
+      expect(isAIConfigReady(resolveAIConfig({ provider: 'local', model: '', baseUrl: '' }, ''))).toBe(
+        true
+      );
+      expect(isAIConfigReady(resolveAIConfig({ provider: 'openai', model: '', baseUrl: '' }, ''))).toBe(
+        false
+      );
+    });
+  });
+
+  // ==================== generateText ====================
+
+  describe('generateText', () => {
+    it('Gemini の generateContent を呼び出す', async () => {
+      const fetchMock = mockFetch({ candidates: [{ content: { parts: [{ text: 'hi' }] } }] });
+      const config = resolveAIConfig(undefined, 'gkey');
+
+      await expect(generateText(config, request)).resolves.toBe('hi');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toContain('/models/gemini-2.5-flash:generateContent?key=gkey');
+      expect(JSON.parse(init.body).generationConfig).toEqual({
+        temperature: 0.7,
+        maxOutputTokens: 2048,
+      });
+    });
+
+    it('OpenAI互換の chat/completions を呼び出し、設定の温度を優先する', async () => {
+      const fetchMock = mockFetch({ choices: [{ message: { content: 'ok' } }] });
+      const config = resolveAIConfig(
+        { provider: 'openai', model: 'gpt-test', baseUrl: '', temperature: 0 },
+        'okey'
+      );
+
+      await expect(generateText(config, request)).resolves.toBe('ok');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/chat/completions');
+      expect(init.headers.Authorization).toBe('Bearer okey');
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe('gpt-test');
+      expect(body.temperature).toBe(0);
+      expect(body.max_tokens).toBe(2048);
+    });
+
+    it('Anthropic の messages レスポンスからテキストブロックを連結する', async () => {
+      const fetchMock = mockFetch({
+        content: [
+          { type: 'text', text: 'foo' },
+          { type: 'text', text: 'bar' },
+        ],
+      });
+      const config = resolveAIConfig({ provider: 'anthropic', model: '', baseUrl: '' }, 'akey');
+
+      await expect(generateText(config, request)).resolves.toBe('foobar');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers['x-api-key']).toBe('akey');
+    });
+
+    it('HTTPエラーをプロバイダー名付きで返す', async () => {
+      mockFetch({ error: { message: 'bad key' } }, false, 401);
+      const config = resolveAIConfig({ provider: 'openai', model: '', baseUrl: '' }, 'x');
+
+      await expect(generateText(config, request)).rejects.toThrow(
+        'OpenAI API error: HTTP error! status: 401 - bad key'
+      );
+    });
+
+    it('APIキーが無い場合は送信前にエラー', async () => {
+      const fetchMock = mockFetch({});
+      await expect(generateText(resolveAIConfig(undefined, ''), request)).rejects.toThrow(
+        'Gemini API key is missing'
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==================== streamText ====================
+
+  describe('streamText', () => {
+    function mockStream(events: string[]) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        start(controller) {
+          for (const event of events) controller.enqueue(encoder.encode(event));
+          controller.close();
+        },
+      });
+      const fetchMock = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('OpenAI互換の SSE を断片ごとに通知する（イベントがチャンク境界で分割されても良い）', async () => {
+      const fetchMock = mockStream([
+        'data: {"choices":[{"delta":{"content":"He"}}]}\n\ndata: {"choices":[{"del',
+        'ta":{"content":"llo"}}]}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+      const chunks: string[] = [];
+      const config = resolveAIConfig({ provider: 'local', model: '', baseUrl: '' }, '');
+
+      await expect(streamText(config, request, c => chunks.push(c))).resolves.toBe('Hello');
+      expect(chunks).toEqual(['He', 'llo']);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('Gemini は streamGenerateContent?alt=sse を呼び出す', async () => {
+      const fetchMock = mockStream([
+        'data: {"candidates":[{"content":{"parts":[{"text":"a"}]}}]}\r\n\r\n',
+        'data: {"candidates":[{"content":{"parts":[{"text":"b"}]}}]}\r\n\r\n',
+      ]);
+      const config = resolveAIConfig(undefined, 'gkey');
+
+      await expect(streamText(config, request, () => {})).resolves.toBe('ab');
+      expect(fetchMock.mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse&key=gkey');
+    });
+
+    it('中断エラーはプロバイダー名で包まずにそのまま投げる', async () => {
+      const abortError = new DOMException('The operation was aborted.', 'AbortError');
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(abortError));
+      const config = resolveAIConfig(undefined, 'gkey');
+
+      await expect(streamText(config, request, () => {})).rejects.toBe(abortError);
+    });
+  });
+});
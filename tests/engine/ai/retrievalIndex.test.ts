@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resetRepository } from '../../_helpers/testProject';
+
+import { BM25Index, estimateTokens, retrievalIndex, selectSnippet } from '@/engine/ai/retrieval';
+import { extractSymbols, splitIdentifier, tokenize } from '@/engine/ai/retrieval/tokenizer';
+import { storageService } from '@/engine/storage';
+
+/**
+ * 関連ファイル検索インデックスのテスト
+ * トークン化・BM25 のランキング・.gitignore の除外・変更イベントによる更新・トークン予算を検証
+ */
+
+// IndexedDB の代わりにメモリ上の Map に保存する
+vi.mock('@/engine/storage', () => {
+  const data = new Map<string, unknown>();
+  return {
+    STORES: { AI_RETRIEVAL_INDEX: 'ai_retrieval_index' },
+    storageService: {
+      get: vi.fn(async (store: string, id: string) => data.get(`${store}:${id}`) ?? null),
+      set: vi.fn(async (store: string, id: string, value: unknown) => {
+        data.set(`${store}:${id}`, value);
+      }),
+      delete: vi.fn(async (store: string, id: string) => {
+        data.delete(`${store}:${id}`);
+      }),
+    },
+  };
+});
+
+describe('tokenizer', () => {
+  it('識別子をサブワードに分割する', () => {
+    expect(splitIdentifier('getUserName')).toEqual(['get', 'User', 'Name']);
+    expect(splitIdentifier('parse_HTTPResponse')).toEqual(['parse', 'HTTP', 'Response']);
+  });
+
+  it('元の識別子とサブワードの両方をトークンにする', () => {
+    expect(tokenize('const fileRepository = init();')).toEqual([
+      'filerepository',
+      'file',
+      'repository',
+      'init',
+    ]);
+  });
+
+  it('宣言からシンボルを抽出する', () => {
+    const source = [
+      'export function loadSettings() {}',
+      'class SettingsManager {',
+      '  async updateSettings(patch) {',
+      '    if (patch) {',
+      '    }',
+      '  }',
+      '}',
+      'export const DEFAULT_VALUE = 1;',
+    ].join('\n');
+    expect(extractSymbols(source).sort()).toEqual(
+      ['DEFAULT_VALUE', 'SettingsManager', 'loadSettings', 'updateSettings'].sort()
+    );
+  });
+});
+
+describe('BM25Index', () => {
+  it('クエリ語を多く含むファイル・シンボルが一致するファイルを上位にする', () => {
+    const index = new BM25Index();
+    index.addDocument('/src/auth/login.ts', 'export function login(user) { return token; }');
+    index.addDocument('/src/utils/math.ts', 'export function add(a, b) { return a + b; }');
+    index.addDocument('/README.md', 'This project has a login page.');
+
+    const results = index.search('How does login work?');
+    expect(results.map(r => r.path)).toEqual(['/src/auth/login.ts', '/README.md']);
+    expect(results[0].matchedSymbols).toEqual(['login']);
+  });
+
+  it('シリアライズして復元できる', () => {
+    const index = new BM25Index();
+    index.addDocument('/a.ts', 'alpha beta', 123);
+    index.addDocument('/b.ts', 'beta gamma', 456);
+    index.removeDocument('/a.ts');
+
+    const restored = BM25Index.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored?.paths()).toEqual(['/b.ts']);
+    expect(restored?.getDocument('/b.ts')?.updatedAt).toBe(456);
+    expect(restored?.search('gamma')[0].path).toBe('/b.ts');
+    expect(BM25Index.fromJSON({ version: 0, documents: [] })).toBeNull();
+  });
+
+  it('Object.prototype と同名の語（constructor / toString）も検索できる', () => {
+    const index = new BM25Index();
+    index.addDocument('/src/user.ts', 'class User { constructor(name) { this.name = name; } }');
+    index.addDocument('/src/format.ts', 'export const format = value => value.toString();');
+
+    const results = index.search('constructor user');
+    expect(results.map(r => r.path)).toEqual(['/src/user.ts']);
+    expect(Number.isFinite(results[0].score)).toBe(true);
+    expect(index.search('tostring').map(r => r.path)).toEqual(['/src/format.ts']);
+
+    // 復元したインデックス（通常のオブジェクト）でも同じ結果になる
+    const restored = BM25Index.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored?.search('constructor user').map(r => r.path)).toEqual(['/src/user.ts']);
+    expect(restored?.search('hasOwnProperty')).toEqual([]);
+  });
+});
+
+describe('selectSnippet', () => {
+  it('クエリ語が集中している範囲を選ぶ', () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`);
+    lines[70] = 'function parseConfig() {';
+    lines[72] = '  return parseConfig;';
+    const snippet = selectSnippet(lines.join('\n'), 'parseConfig', 10);
+    expect(snippet.startLine).toBeLessThanOrEqual(71);
+    expect(snippet.endLine).toBeGreaterThanOrEqual(73);
+    expect(snippet.endLine - snippet.startLine + 1).toBe(10);
+    expect(snippet.content).toContain('function parseConfig()');
+  });
+
+  it('短いファイルは全体を返す', () => {
+    expect(selectSnippet('a\nb', 'x')).toEqual({ startLine: 1, endLine: 2, content: 'a\nb' });
+  });
+});
+
+describe('retrievalIndex', () => {
+  let repo: ReturnType<typeof resetRepository>;
+  let projectId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    repo = resetRepository();
+    await repo.init();
+    const project = await repo.createEmptyProject('RetrievalProject');
+    projectId = project.id;
+    await repo.createFilesBulk(projectId, [
+      { path: '/.gitignore', content: 'dist/\n', type: 'file' },
+      { path: '/src', content: '', type: 'folder' },
+      { path: '/src/cart.ts', content: 'export function addToCart(item) {}\n', type: 'file' },
+      { path: '/src/user.ts', content: 'export function getUser() {}\n', type: 'file' },
+      { path: '/dist', content: '', type: 'folder' },
+      { path: '/dist/cart.js', content: 'function addToCart(item) {}\n', type: 'file' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await retrievalIndex.clearProject(projectId);
+    vi.useRealTimers();
+  });
+
+  it('.gitignore で除外されたファイルを返さない', async () => {
+    const results = await retrievalIndex.retrieve(projectId, 'addToCart');
+    expect(results.map(r => r.path)).toEqual(['/src/cart.ts']);
+    expect(results[0]).toMatchObject({ startLine: 1, symbols: ['addToCart'] });
+  });
+
+  it('除外パスを指定できる', async () => {
+    const results = await retrievalIndex.retrieve(projectId, 'addToCart getUser', {
+      exclude: ['/src/cart.ts'],
+    });
+    expect(results.map(r => r.path)).toEqual(['/src/user.ts']);
+  });
+
+  it('ファイルの変更イベントでインデックスを更新し、遅延して保存する', async () => {
+    await retrievalIndex.getIndex(projectId);
+
+    await repo.createFile(projectId, '/src/checkout.ts', 'export function checkout() {}', 'file');
+    // inmemory 実装は作成イベントを非同期に発火する
+    await vi.runOnlyPendingTimersAsync();
+    const results = await retrievalIndex.retrieve(projectId, 'checkout');
+    expect(results.map(r => r.path)).toEqual(['/src/checkout.ts']);
+
+    const file = await repo.getFileByPath(projectId, '/src/checkout.ts');
+    if (file) await repo.deleteFile(file.id);
+    expect(await retrievalIndex.retrieve(projectId, 'checkout')).toEqual([]);
+
+    await vi.runAllTimersAsync();
+    expect(storageService.set).toHaveBeenCalled();
+  });
+
+  it('トークン予算を超えないようにスニペットを切り詰める', async () => {
+    const longContent = Array.from({ length: 30 }, (_, i) => `const value${i} = searchTerm;`).join(
+      '\n'
+    );
+    await repo.createFile(projectId, '/src/long.ts', longContent, 'file');
+    await vi.runOnlyPendingTimersAsync();
+
+    const results = await retrievalIndex.retrieve(projectId, 'searchTerm', { tokenBudget: 120 });
+    expect(results).toHaveLength(1);
+    expect(estimateTokens(results[0].content)).toBeLessThanOrEqual(120);
+    expect(results[0].endLine).toBeLessThan(30);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { StreamingPatchParser } from '@/engine/ai/patchApplier';
+
+/**
+ * StreamingPatchParser のテスト
+ * ストリーミング中のチャンク境界でブロックが閉じた時点で検出されることを検証
+ */
+
+const RESPONSE = [
+  '変更します。',
+  '',
+  '### File: src/a.ts',
+  '**Reason**: rename',
+  '',
+  '<<<<<<< SEARCH',
+  'const a = 1;',
+  '=======',
+  'const b = 1;',
+  '>>>>>>> REPLACE',
+  '',
+  '### File: src/new.ts',
+  '<<<<<<< NEW_FILE',
+  'export const x = 1;',
+  '>>>>>>> NEW_FILE',
+  '',
+].join('\n');
+
+function feedInChunks(parser: StreamingPatchParser, text: string, size: number) {
+  const events = [];
+  for (let i = 0; i < text.length; i += size) {
+    events.push(...parser.push(text.slice(i, i + size)));
+  }
+  return events;
+}
+
+describe('StreamingPatchParser', () => {
+  it('1文字ずつ受信しても全ブロックを検出する', () => {
+    const events = feedInChunks(new StreamingPatchParser(), RESPONSE, 1);
+    expect(events).toEqual([
+      { filePath: 'src/a.ts', block: { search: 'const a = 1;', replace: 'const b = 1;' } },
+      { filePath: 'src/new.ts', fullContent: 'export const x = 1;' },
+    ]);
+  });
+
+  it('閉じマーカーを受信するまでブロックを報告しない', () => {
+    const parser = new StreamingPatchParser();
+    const closeAt = RESPONSE.indexOf('>>>>>>> REPLACE');
+
+    expect(parser.push(RESPONSE.slice(0, closeAt + 10))).toEqual([]);
+    const events = parser.push(RESPONSE.slice(closeAt + 10, closeAt + 15));
+    expect(events).toHaveLength(1);
+    expect(events[0].filePath).toBe('src/a.ts');
+  });
+
+  it('SEARCH 内の File ヘッダー風の行をヘッダーとして扱わない', () => {
+    const text = [
+      '### File: doc.md',
+      '<<<<<<< SEARCH',
+      '### File: fake.md',
+      '=======',
+      '### File: still-doc.md',
+      '>>>>>>> REPLACE',
+      '',
+    ].join('\n');
+    const events = feedInChunks(new StreamingPatchParser(), text, 7);
+    expect(events).toHaveLength(1);
+    expect(events[0].filePath).toBe('doc.md');
+  });
+
+  it('CRLF の応答も扱える', () => {
+    const events = new StreamingPatchParser().push(RESPONSE.replace(/\n/g, '\r\n'));
+    expect(events).toHaveLength(2);
+  });
+});
@@ -0,0 +1,167 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GitBlameOperations, UNCOMMITTED_OID } from '@/engine/cmd/global/gitOperations/blame';
+
+/**
+ * git blame のテスト
+ * 一時ディレクトリ上の実リポジトリで行ごとのコミット特定・マージ・未コミット行・キャッシュを検証
+ */
+
+describe('GitBlameOperations', () => {
+  let dir: string;
+  let ops: GitBlameOperations;
+  let time = 1700000000;
+
+  const write = (filepath: string, content: string) => {
+    fs.writeFileSync(path.join(dir, filepath), content);
+  };
+  // blame は新しいコミットから処理するため、コミット時刻を1秒ずつ進める
+  const commit = async (message: string, name = 'Alice') => {
+    await git.add({ fs, dir, filepath: '.' });
+    time += 1;
+    const author = { name, email: `${name.toLowerCase()}@example.com`, timestamp: time };
+    return git.commit({ fs, dir, message, author, committer: author });
+  };
+  const owners = async (options?: { rev?: string; content?: string }) =>
+    (await ops.blame('a.txt', options)).map(line => line.oid);
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-blame-'));
+    await git.init({ fs, dir, defaultBranch: 'main' });
+    ops = new GitBlameOperations(fs as unknown as FS, dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('各行を最後に変更したコミットを返す', async () => {
+    write('a.txt', 'one\ntwo\nthree\n');
+    const first = await commit('initial');
+    write('a.txt', 'one\nTWO\nthree\nfour\n');
+    const second = await commit('edit two', 'Bob');
+    write('b.txt', 'unrelated\n');
+    await commit('add b');
+
+    const lines = await ops.blame('a.txt');
+    expect(lines.map(line => line.oid)).toEqual([first, second, first, second]);
+    expect(lines[1]).toMatchObject({
+      lineNumber: 2,
+      originalLineNumber: 2,
+      author: 'Bob',
+      authorEmail: 'bob@example.com',
+      summary: 'edit two',
+      boundary: false,
+      content: 'TWO',
+    });
+    expect(lines[0].boundary).toBe(true);
+
+    // 行の移動後も元のコミット時点の行番号を保持する
+    write('a.txt', 'zero\none\nTWO\nthree\nfour\n');
+    const third = await commit('add zero');
+    const moved = await ops.blame('a.txt');
+    expect(moved.map(line => line.oid)).toEqual([third, first, second, first, second]);
+    expect(moved[3]).toMatchObject({ lineNumber: 4, originalLineNumber: 3 });
+
+    expect(await owners({ rev: 'HEAD~1' })).toEqual([first, second, first, second]);
+    await expect(ops.blame('missing.txt')).rejects.toThrow("no such path 'missing.txt' in HEAD");
+  });
+
+  it('マージコミットでは各親から行を引き継ぐ', async () => {
+    write('a.txt', 'a\nb\nc\nd\n');
+    const base = await commit('initial');
+    await git.branch({ fs, dir, ref: 'feature', checkout: true });
+    write('a.txt', 'A\nb\nc\nd\n');
+    const feature = await commit('feature: upper a');
+    await git.checkout({ fs, dir, ref: 'main' });
+    write('a.txt', 'a\nb\nc\nD\n');
+    const main = await commit('main: upper d');
+
+    write('a.txt', 'A\nb\nc\nD\n');
+    await git.add({ fs, dir, filepath: 'a.txt' });
+    time += 1;
+    const author = { name: 'Alice', email: 'alice@example.com', timestamp: time };
+    await git.commit({
+      fs,
+      dir,
+      message: 'merge feature',
+      author,
+      committer: author,
+      parent: [main, feature],
+    });
+
+    expect(await owners()).toEqual([feature, base, base, main]);
+  });
+
+  it('content を渡すと HEAD と異なる行を未コミットとして扱う', async () => {
+    write('a.txt', 'one\ntwo\n');
+    const first = await commit('initial');
+
+    const lines = await ops.blame('a.txt', { content: 'one\nnew\ntwo\n' });
+    expect(lines.map(line => line.oid)).toEqual([first, UNCOMMITTED_OID, first]);
+    expect(lines[1]).toMatchObject({ author: 'Not Committed Yet', content: 'new' });
+    expect(lines[2]).toMatchObject({ lineNumber: 3, originalLineNumber: 2 });
+
+    // HEAD にないファイルは全行が未コミット
+    const untracked = await ops.blame('new.txt', { content: 'x\n' });
+    expect(untracked.map(line => line.oid)).toEqual([UNCOMMITTED_OID]);
+  });
+
+  it('同じ blob の再blameはキャッシュを使い、履歴をたどらない', async () => {
+    write('a.txt', 'one\n');
+    await commit('initial');
+    write('b.txt', 'b\n');
+    await commit('add b');
+
+    const first = await ops.blame('a.txt');
+    const readCommit = vi.spyOn(git, 'readCommit');
+    try {
+      const again = await new GitBlameOperations(fs as unknown as FS, dir).blame('a.txt');
+      expect(again).toEqual(first);
+      expect(readCommit).not.toHaveBeenCalled();
+    } finally {
+      readCommit.mockRestore();
+    }
+  });
+
+  it('format はネイティブgitと同じ形式で出力する', () => {
+    const output = ops.format([
+      {
+        lineNumber: 9,
+        originalLineNumber: 9,
+        oid: 'abcdef1234567890abcdef1234567890abcdef12',
+        author: 'Bob',
+        authorEmail: 'bob@example.com',
+        timestamp: 1700000000,
+        timezoneOffset: -540,
+        summary: 'edit',
+        boundary: false,
+        content: 'nine',
+      },
+      {
+        lineNumber: 10,
+        originalLineNumber: 1,
+        oid: '1234567890abcdef1234567890abcdef12345678',
+        author: 'Alice',
+        authorEmail: 'alice@example.com',
+        timestamp: 1700000000,
+        timezoneOffset: 0,
+        summary: 'initial',
+        boundary: true,
+        content: 'ten',
+      },
+    ]);
+    expect(output).toBe(
+      [
+        'abcdef12 (Bob   2023-11-15 07:13:20 +0900  9) nine',
+        '^1234567 (Alice 2023-11-14 22:13:20 +0000 10) ten',
+      ].join('\n')
+    );
+  });
+});
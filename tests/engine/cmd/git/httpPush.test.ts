@@ -0,0 +1,128 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type GitHttpBackend, startGitHttpBackend } from '@tests/_helpers/gitHttpBackend';
+
+import { push, pushTags } from '@/engine/cmd/global/gitOperations/push';
+import { authRepository } from '@/engine/user/authRepository';
+
+vi.mock('@/engine/user/authRepository', () => ({
+  authRepository: {
+    getAccessToken: vi.fn(async () => null),
+    getHostCredential: vi.fn(async () => null),
+  },
+}));
+
+/**
+ * smart HTTP の git push のテスト
+ * git http-backend を GitHub 以外のリモートに見立て、実際にプッシュした結果をベアリポジトリで確認
+ */
+
+describe('push (smart HTTP)', () => {
+  let dir: string;
+  let backend: GitHttpBackend;
+  let time = 1700000000;
+  const gitFs = fs as unknown as FS;
+
+  const commit = async (message: string) => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), `${message}\n`);
+    await git.add({ fs, dir, filepath: 'a.txt' });
+    time += 1;
+    const author = { name: 'Alice', email: 'alice@example.com', timestamp: time };
+    return git.commit({ fs, dir, message, author, committer: author });
+  };
+
+  const setup = async (auth?: { username: string; password: string }) => {
+    backend = await startGitHttpBackend({ auth });
+    await git.addRemote({ fs, dir, remote: 'origin', url: backend.url });
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-http-push-'));
+    await git.init({ fs, dir, defaultBranch: 'main' });
+  });
+
+  afterEach(async () => {
+    await backend?.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('GitHub 以外のリモートにはコミットをそのままプッシュする', async () => {
+    await setup();
+    const first = await commit('first');
+
+    const created = await push(gitFs, dir, { corsProxy: '' });
+    expect(created).toBe(`To ${backend.url}\n * [new branch]      main -> main\n`);
+    expect(backend.git('rev-parse', 'refs/heads/main')).toBe(first);
+    expect(await git.resolveRef({ fs, dir, ref: 'refs/remotes/origin/main' })).toBe(first);
+
+    const second = await commit('second');
+    expect(await push(gitFs, dir, {})).toBe(
+      `To ${backend.url}\n   ${first.slice(0, 7)}..${second.slice(0, 7)}  main -> main\n`
+    );
+    expect(backend.git('rev-parse', 'refs/heads/main')).toBe(second);
+    expect(await push(gitFs, dir, {})).toBe('Everything up-to-date');
+  });
+
+  it('non-fast-forward は拒否し、--force では上書きする', async () => {
+    await setup();
+    const first = await commit('first');
+    const second = await commit('second');
+    await push(gitFs, dir, {});
+
+    // 履歴を巻き戻して別のコミットを作る
+    await git.writeRef({ fs, dir, ref: 'refs/heads/main', value: first, force: true });
+    const diverged = await commit('diverged');
+
+    const rejected = await push(gitFs, dir, {});
+    expect(rejected).toContain(' ! [rejected]        main -> main (non-fast-forward)');
+    expect(rejected).toContain(`error: failed to push some refs to '${backend.url}'`);
+    expect(backend.git('rev-parse', 'refs/heads/main')).toBe(second);
+
+    expect(await push(gitFs, dir, { force: true })).toContain(
+      ` + ${second.slice(0, 7)}...${diverged.slice(0, 7)} main -> main (forced update)`
+    );
+    expect(backend.git('rev-parse', 'refs/heads/main')).toBe(diverged);
+  });
+
+  it('タグをプッシュ・削除できる', async () => {
+    await setup();
+    const first = await commit('first');
+    await push(gitFs, dir, {});
+    const tagger = { name: 'Alice', email: 'alice@example.com', timestamp: time };
+    await git.annotatedTag({ fs, dir, ref: 'v1.0', message: 'Release 1.0\n', tagger });
+    await git.tag({ fs, dir, ref: 'light' });
+
+    const pushed = await pushTags(gitFs, dir, { tags: 'all' });
+    expect(pushed).toBe(
+      `To ${backend.url}\n * [new tag]         light -> light\n * [new tag]         v1.0 -> v1.0\n`
+    );
+    expect(backend.git('rev-parse', 'v1.0^{commit}')).toBe(first);
+    expect(backend.git('cat-file', '-t', 'v1.0')).toBe('tag');
+
+    const deleted = await pushTags(gitFs, dir, { tags: ['light', 'missing'], delete: true });
+    expect(deleted).toContain(' - [deleted]         light');
+    expect(deleted).toContain(' ! [rejected]        missing (remote ref does not exist)');
+    expect(backend.git('tag', '--list')).toBe('v1.0');
+  });
+
+  it('ホストの認証情報を authRepository から取得する', async () => {
+    await setup({ username: 'alice', password: 'secret' });
+    await commit('first');
+
+    await expect(push(gitFs, dir, {})).rejects.toThrow(
+      `Authentication failed for '${backend.url}'`
+    );
+
+    vi.mocked(authRepository.getHostCredential).mockImplementation(async host =>
+      host === new URL(backend.url).host ? { host, username: 'alice', password: 'secret' } : null
+    );
+    expect(await push(gitFs, dir, {})).toContain('[new branch]      main -> main');
+    expect(authRepository.getHostCredential).toHaveBeenCalledWith(new URL(backend.url).host);
+  });
+});
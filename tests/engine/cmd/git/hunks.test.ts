@@ -0,0 +1,218 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { addPatch } from '@/engine/cmd/global/gitOperations/addPatch';
+import {
+  GitHunkOperations,
+  applyHunkSelection,
+  computeDiffHunks,
+  selectLineRanges,
+} from '@/engine/cmd/global/gitOperations/hunks';
+import { syncManager } from '@/engine/core/syncManager';
+
+/**
+ * hunk / 行単位のステージングのテスト
+ * diff の分割・部分適用と、一時ディレクトリ上の実リポジトリでの stage/unstage/discard・git add -p を検証
+ */
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+// 1〜20 の行。指定した行だけ書き換える
+const lines = (overrides: Record<number, string | null> = {}) => {
+  const result: string[] = [];
+  for (let i = 1; i <= 20; i++) {
+    const value = i in overrides ? overrides[i] : `line${i}`;
+    if (value !== null) result.push(value);
+  }
+  return `${result.join('\n')}\n`;
+};
+
+describe('computeDiffHunks / applyHunkSelection', () => {
+  it('離れた変更を別々の hunk に分け、前後3行のコンテキストを付ける', () => {
+    const hunks = computeDiffHunks(lines(), lines({ 2: 'two', 18: 'eighteen' }));
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].header).toBe('@@ -1,5 +1,5 @@');
+    expect(hunks[1].header).toBe('@@ -15,6 +15,6 @@');
+    expect(hunks[0].lines.filter(l => l.type !== 'context').map(l => [l.type, l.text])).toEqual([
+      ['remove', 'line2'],
+      ['add', 'two'],
+    ]);
+  });
+
+  it('選択した hunk だけを適用し、reverse では選択した変更だけを取り消す', () => {
+    const oldText = lines();
+    const newText = lines({ 2: 'two', 18: 'eighteen' });
+
+    expect(applyHunkSelection(oldText, newText, [{ hunk: 1 }])).toBe(lines({ 18: 'eighteen' }));
+    expect(applyHunkSelection(oldText, newText, [{ hunk: 1 }], { reverse: true })).toBe(
+      lines({ 2: 'two' })
+    );
+  });
+
+  it('hunk 内の行を選んで適用する', () => {
+    const oldText = 'a\nb\n';
+    const newText = 'a\nx\ny\nb\n';
+    const [hunk] = computeDiffHunks(oldText, newText);
+    const yIndex = hunk.lines.findIndex(l => l.text === 'y');
+
+    expect(applyHunkSelection(oldText, newText, [{ hunk: 0, lines: [yIndex] }])).toBe('a\ny\nb\n');
+  });
+
+  it('末尾の改行がない行も扱う', () => {
+    const hunks = computeDiffHunks('a\nb', 'a\nb\nc\n');
+    expect(hunks[0].lines.find(l => l.text === 'b' && l.type === 'remove')?.noNewline).toBe(true);
+    expect(applyHunkSelection('a\nb', 'a\nb\nc\n', [{ hunk: 0 }])).toBe('a\nb\nc\n');
+  });
+});
+
+describe('selectLineRanges', () => {
+  it('選択した側の行と、同じ変更ブロックの反対側の行を含める', () => {
+    const hunks = computeDiffHunks('a\nb\nc\nd\n', 'a\nB\nc\nD\n');
+    const selection = selectLineRanges(hunks, [{ side: 'new', startLine: 4, endLine: 4 }]);
+
+    expect(selection).toHaveLength(1);
+    const texts = selection[0].lines?.map(i => hunks[0].lines[i].text);
+    expect(texts).toEqual(['d', 'D']);
+    expect(applyHunkSelection('a\nb\nc\nd\n', 'a\nB\nc\nD\n', selection)).toBe('a\nb\nc\nD\n');
+  });
+
+  it('new 側で見えない削除は、その位置に接する行を選ぶと含める', () => {
+    const hunks = computeDiffHunks('a\nb\nc\n', 'a\nc\n');
+
+    expect(selectLineRanges(hunks, [{ side: 'new', startLine: 2, endLine: 2 }])).toHaveLength(1);
+    expect(selectLineRanges(hunks, [{ side: 'old', startLine: 1, endLine: 1 }])).toEqual([]);
+  });
+});
+
+describe('GitHunkOperations', () => {
+  let dir: string;
+  let hunkOps: GitHunkOperations;
+
+  const write = (filepath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, filepath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, filepath), content);
+  };
+  const read = (filepath: string) => fs.readFileSync(path.join(dir, filepath), 'utf8');
+  const readIndex = async (filepath: string) => {
+    const [oid] = await git.walk({
+      fs,
+      dir,
+      trees: [git.STAGE()],
+      map: async (file, [entry]) => (file === filepath && entry ? entry.oid() : undefined),
+    });
+    if (!oid) return null;
+    const { blob } = await git.readBlob({ fs, dir, oid });
+    return new TextDecoder().decode(blob);
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-hunks-'));
+    await git.init({ fs, dir, defaultBranch: 'main' });
+    write('a.txt', lines());
+    await git.add({ fs, dir, filepath: '.' });
+    await git.commit({ fs, dir, message: 'initial', author });
+    hunkOps = new GitHunkOperations(fs as unknown as FS, dir, 'project-id', 'project');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('選択した hunk だけをインデックスに書き込み、アンステージで戻す', async () => {
+    write('a.txt', lines({ 2: 'two', 18: 'eighteen' }));
+
+    const hunks = await hunkOps.getHunks('a.txt');
+    expect(hunks).toHaveLength(2);
+    await hunkOps.stage('a.txt', [{ hunk: 0 }]);
+
+    expect(await readIndex('a.txt')).toBe(lines({ 2: 'two' }));
+    expect(read('a.txt')).toBe(lines({ 2: 'two', 18: 'eighteen' }));
+    expect(await hunkOps.getHunks('a.txt')).toHaveLength(1);
+    expect(await hunkOps.getHunks('a.txt', { staged: true })).toHaveLength(1);
+
+    await hunkOps.unstage('a.txt', [{ hunk: 0 }]);
+    expect(await readIndex('a.txt')).toBe(lines());
+    expect(await git.status({ fs, dir, filepath: 'a.txt' })).toBe('*modified');
+  });
+
+  it('選択した hunk のワーキングツリーの変更を破棄する', async () => {
+    write('a.txt', lines({ 2: 'two', 18: 'eighteen' }));
+
+    await hunkOps.discard('a.txt', [{ hunk: 1 }]);
+
+    expect(read('a.txt')).toBe(lines({ 2: 'two' }));
+    expect(syncManager.syncFromFSToIndexedDB).toHaveBeenCalledWith('project-id', 'project');
+  });
+
+  it('新規ファイルの全体をステージし、アンステージでインデックスから外す', async () => {
+    write('new.txt', 'hello\n');
+
+    await hunkOps.stage('new.txt', [{ hunk: 0 }]);
+    expect(await git.status({ fs, dir, filepath: 'new.txt' })).toBe('added');
+
+    await hunkOps.unstage('new.txt', [{ hunk: 0 }]);
+    expect(await git.status({ fs, dir, filepath: 'new.txt' })).toBe('*added');
+  });
+
+  it('ステージしても実行権限と BOM を保つ', async () => {
+    write('run.sh', `\uFEFF${lines()}`);
+    fs.chmodSync(path.join(dir, 'run.sh'), 0o755);
+    await git.add({ fs, dir, filepath: 'run.sh' });
+    await git.commit({ fs, dir, message: 'add script', author });
+    write('run.sh', `\uFEFF${lines({ 2: 'two', 18: 'eighteen' })}`);
+
+    await hunkOps.stage('run.sh', [{ hunk: 0 }]);
+
+    const [entry] = await git.walk({
+      fs,
+      dir,
+      trees: [git.STAGE()],
+      map: async (file, [e]) =>
+        file === 'run.sh' && e ? { oid: await e.oid(), mode: await e.mode() } : undefined,
+    });
+    expect(entry.mode).toBe(0o100755);
+    const { blob } = await git.readBlob({ fs, dir, oid: entry.oid });
+    expect(Buffer.from(blob).toString('utf8')).toBe(`\uFEFF${lines({ 2: 'two' })}`);
+  });
+
+  it('バイナリファイルはエラーにする', async () => {
+    write('a.txt', 'bin\0ary');
+    await expect(hunkOps.getHunks('a.txt')).rejects.toThrow(
+      'Cannot stage hunks of binary file: a.txt'
+    );
+  });
+
+  it('git add -p: 回答に従って hunk をステージする', async () => {
+    write('a.txt', lines({ 2: 'two', 18: 'line18 changed' }));
+    const answers = ['?', 'n', 'y'];
+    let output = '';
+
+    const result = await addPatch(hunkOps, [], {
+      write: text => {
+        output += text;
+      },
+      readLine: async () => answers.shift() ?? null,
+    });
+
+    expect(result).toBe('');
+    expect(output).toContain('diff --git a/a.txt b/a.txt');
+    expect(output).toContain('(1/2) Stage this hunk [y,n,q,a,d,?]?');
+    expect(output).toContain('y - stage this hunk');
+    expect(output).toContain('(2/2) Stage this hunk');
+    expect(await readIndex('a.txt')).toBe(lines({ 18: 'line18 changed' }));
+  });
+
+  it('git add -p: 変更がなければ No changes. を返す', async () => {
+    const result = await addPatch(hunkOps, ['a.txt'], {
+      write: () => {},
+      readLine: async () => null,
+    });
+    expect(result).toBe('No changes.');
+  });
+});
@@ -0,0 +1,191 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GitRebaseOperations } from '@/engine/cmd/global/gitOperations/rebase';
+import { tabActions } from '@/stores/tabState';
+
+vi.mock('@/stores/tabState', () => ({
+  tabActions: { openTab: vi.fn() },
+}));
+
+/**
+ * git cherry-pick / rebase のテスト
+ * 一時ディレクトリ上の実リポジトリでコミットの再適用・コンフリクト・--continue/--abort を検証
+ */
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+describe('GitRebaseOperations', () => {
+  let dir: string;
+  let ops: GitRebaseOperations;
+
+  const write = (filepath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, filepath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, filepath), content);
+  };
+  const read = (filepath: string) =>
+    fs.existsSync(path.join(dir, filepath))
+      ? fs.readFileSync(path.join(dir, filepath), 'utf8')
+      : null;
+  const commitAll = async (message: string) => {
+    await git.add({ fs, dir, filepath: '.' });
+    return git.commit({ fs, dir, message, author });
+  };
+  const subjects = async (ref = 'HEAD') =>
+    (await git.log({ fs, dir, ref })).map(entry => entry.commit.message.trim());
+
+  beforeEach(async () => {
+    vi.mocked(tabActions.openTab).mockClear();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-rebase-'));
+    await git.init({ fs, dir, defaultBranch: 'main' });
+    write('a.txt', 'one\ntwo\nthree\nfour\nfive\n');
+    await commitAll('initial');
+    await git.branch({ fs, dir, ref: 'feature', checkout: true });
+    write('a.txt', 'ONE\ntwo\nthree\nfour\nfive\n');
+    await commitAll('feature: upper one');
+    write('b.txt', 'b\n');
+    await commitAll('feature: add b');
+    await git.checkout({ fs, dir, ref: 'main' });
+    write('a.txt', 'one\ntwo\nthree\nfour\nFIVE\n');
+    await commitAll('main: upper five');
+    ops = new GitRebaseOperations(fs as unknown as FS, dir, 'project-id', 'project');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('cherry-pick は変更を3-wayマージして新しいコミットを作る', async () => {
+    const result = await ops.cherryPick('feature~1');
+    expect(result).toMatch(/^\[main [0-9a-f]{7}\] feature: upper one$/);
+    expect(read('a.txt')).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+    expect(read('b.txt')).toBeNull();
+    expect(await subjects()).toEqual(['feature: upper one', 'main: upper five', 'initial']);
+
+    // 元の author を保持する
+    const [head] = await git.log({ fs, dir, ref: 'HEAD', depth: 1 });
+    expect(head.commit.author.name).toBe('Test');
+
+    await expect(ops.cherryPick('feature~1')).rejects.toThrow('cherry-pick is now empty');
+  });
+
+  it('cherry-pick のコンフリクトはマージタブを開き、--continue で完了する', async () => {
+    write('a.txt', 'one\ntwo\nthree\nfour\nfive!\n');
+    await commitAll('main: edit five again');
+    await git.checkout({ fs, dir, ref: 'feature' });
+    write('a.txt', 'ONE\ntwo\nthree\nfour\nfive?\n');
+    await commitAll('feature: edit five');
+    await git.checkout({ fs, dir, ref: 'main' });
+
+    const result = await ops.cherryPick('feature');
+    expect(result).toContain('CONFLICT (content): Merge conflict in a.txt');
+    expect(await ops.getOperationInProgress()).toBe('cherry-pick');
+    expect(read('a.txt')).toContain('<<<<<<< HEAD\nfive!\n=======\nfive?\n>>>>>>> ');
+    expect(tabActions.openTab).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'cherry-pick', oursBranch: 'main' }),
+      { kind: 'merge-conflict' }
+    );
+
+    await expect(ops.cherryPickContinue()).rejects.toThrow('a.txt: needs merge');
+
+    write('a.txt', 'ONE\ntwo\nthree\nfour\nresolved\n');
+    expect(await ops.cherryPickContinue()).toMatch(/feature: edit five$/);
+    expect(await ops.getOperationInProgress()).toBeNull();
+    expect(await git.status({ fs, dir, filepath: 'a.txt' })).toBe('unmodified');
+  });
+
+  it('cherry-pick --abort は元の状態に戻す', async () => {
+    write('a.txt', 'conflict\n');
+    await commitAll('main: rewrite');
+    await ops.cherryPick('feature~1');
+    expect(await ops.getOperationInProgress()).toBe('cherry-pick');
+
+    await ops.cherryPickAbort();
+    expect(read('a.txt')).toBe('conflict\n');
+    expect(await ops.getOperationInProgress()).toBeNull();
+    await expect(ops.cherryPickAbort()).rejects.toThrow('no cherry-pick or revert in progress');
+  });
+
+  it('rebase はブランチのコミットを upstream の上に並べ直す', async () => {
+    await git.checkout({ fs, dir, ref: 'feature' });
+    expect((await ops.planRebase('main')).map(item => item.subject)).toEqual([
+      'feature: upper one',
+      'feature: add b',
+    ]);
+
+    expect(await ops.rebase('main')).toBe('Successfully rebased and updated refs/heads/feature.');
+    expect(await git.currentBranch({ fs, dir })).toBe('feature');
+    expect(read('a.txt')).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+    expect(await subjects()).toEqual([
+      'feature: add b',
+      'feature: upper one',
+      'main: upper five',
+      'initial',
+    ]);
+    expect(await ops.rebase('main')).toBe('Current branch feature is up to date.');
+  });
+
+  it('対話的リベースで並べ替え・squash・reword・drop を適用する', async () => {
+    await git.checkout({ fs, dir, ref: 'feature' });
+    write('c.txt', 'c\n');
+    await commitAll('feature: add c');
+
+    const [upperOne, addB, addC] = await ops.planRebase('main');
+    const result = await ops.rebase('main', {
+      todo: [
+        { ...addB, action: 'reword', message: 'feature: add b (reworded)' },
+        { ...upperOne, action: 'squash' },
+        { ...addC, action: 'drop' },
+      ],
+    });
+    expect(result).toBe('Successfully rebased and updated refs/heads/feature.');
+    expect(read('c.txt')).toBeNull();
+    expect(read('b.txt')).toBe('b\n');
+    expect(read('a.txt')).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+
+    const log = await git.log({ fs, dir, ref: 'HEAD' });
+    expect(log).toHaveLength(3);
+    expect(log[0].commit.message).toBe('feature: add b (reworded)\n\nfeature: upper one\n');
+
+    // -i 指定で todo がない場合はエディタタブを開くだけ
+    await ops.rebase('HEAD~1', { interactive: true });
+    expect(tabActions.openTab).toHaveBeenCalledWith(
+      expect.objectContaining({ upstream: 'HEAD~1', branch: 'feature' }),
+      { kind: 'rebase-todo' }
+    );
+  });
+
+  it('rebase のコンフリクトは --continue / --abort で再開・中止できる', async () => {
+    await git.checkout({ fs, dir, ref: 'feature' });
+    write('a.txt', 'ONE\ntwo\nthree\nfour\nfive (feature)\n');
+    await commitAll('feature: edit five');
+    const origHead = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+
+    const result = await ops.rebase('main');
+    expect(result).toContain('could not apply');
+    expect(await ops.getOperationInProgress()).toBe('rebase');
+    await expect(ops.cherryPick('main')).rejects.toThrow('already a rebase-merge directory');
+
+    await ops.rebaseAbort();
+    expect(await git.currentBranch({ fs, dir })).toBe('feature');
+    expect(await git.resolveRef({ fs, dir, ref: 'HEAD' })).toBe(origHead);
+    expect(read('a.txt')).toBe('ONE\ntwo\nthree\nfour\nfive (feature)\n');
+
+    await ops.rebase('main');
+    write('a.txt', 'ONE\ntwo\nthree\nfour\nFIVE (both)\n');
+    expect(await ops.rebaseContinue()).toBe('Successfully rebased and updated refs/heads/feature.');
+    expect(await ops.getOperationInProgress()).toBeNull();
+    expect(await subjects()).toEqual([
+      'feature: edit five',
+      'feature: add b',
+      'feature: upper one',
+      'main: upper five',
+      'initial',
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { GitStashOperations } from '@/engine/cmd/global/gitOperations/stash';
+import { syncManager } from '@/engine/core/syncManager';
+
+/**
+ * git stash のテスト
+ * 一時ディレクトリ上の実リポジトリで push/list/show/apply/pop/drop を検証
+ */
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+describe('GitStashOperations', () => {
+  let dir: string;
+  let stash: GitStashOperations;
+
+  const write = (filepath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, filepath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, filepath), content);
+  };
+  const read = (filepath: string) =>
+    fs.existsSync(path.join(dir, filepath))
+      ? fs.readFileSync(path.join(dir, filepath), 'utf8')
+      : null;
+  const status = async (filepath: string) => git.status({ fs, dir, filepath });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-stash-'));
+    await git.init({ fs, dir, defaultBranch: 'main' });
+    write('a.txt', 'a1\n');
+    write('src/b.txt', 'b1\n');
+    await git.add({ fs, dir, filepath: '.' });
+    await git.commit({ fs, dir, message: 'initial', author });
+    stash = new GitStashOperations(fs as unknown as FS, dir, 'project-id', 'project');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('変更を退避してワーキングツリーを HEAD に戻し、pop で復元する', async () => {
+    write('a.txt', 'a2 modified\n');
+    write('src/c.txt', 'new\n');
+    await git.add({ fs, dir, filepath: 'src/c.txt' });
+
+    const result = await stash.push();
+    expect(result).toMatch(
+      /^Saved working directory and index state WIP on main: [0-9a-f]{7} initial$/
+    );
+    expect(read('a.txt')).toBe('a1\n');
+    expect(read('src/c.txt')).toBeNull();
+    expect(await status('src/c.txt')).toBe('absent');
+    expect(syncManager.syncFromFSToIndexedDB).toHaveBeenCalledWith('project-id', 'project');
+
+    const entries = await stash.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ index: 0, ref: 'stash@{0}' });
+    expect(await stash.formatList()).toMatch(/^stash@\{0\}: WIP on main: /);
+
+    // ネイティブ git と同じく W の親は HEAD と I
+    const { commit } = await git.readCommit({ fs, dir, oid: entries[0].oid });
+    expect(commit.parent).toHaveLength(2);
+
+    expect(await stash.show()).toBe('M\ta.txt\nA\tsrc/c.txt\n 2 files changed');
+
+    const popResult = await stash.pop();
+    expect(popResult).toContain('Dropped refs/stash@{0}');
+    expect(read('a.txt')).toBe('a2 modified\n');
+    expect(read('src/c.txt')).toBe('new\n');
+    // 新規追加ファイルはステージされた状態で戻る
+    expect(await status('src/c.txt')).toBe('added');
+    expect(await status('a.txt')).toBe('*modified');
+    expect(await stash.list()).toEqual([]);
+  });
+
+  it('-u 指定時のみ未追跡ファイルを退避する', async () => {
+    write('a.txt', 'a2 modified\n');
+    write('notes.txt', 'untracked\n');
+
+    await stash.push({ message: 'keep untracked' });
+    expect(read('notes.txt')).toBe('untracked\n');
+
+    await stash.push({ includeUntracked: true });
+    expect(await stash.push({ includeUntracked: true })).toBe('No local changes to save');
+    expect(read('notes.txt')).toBeNull();
+
+    const entries = await stash.list();
+    expect(entries.map(e => e.message)).toEqual([
+      expect.stringMatching(/^WIP on main: /),
+      'On main: keep untracked',
+    ]);
+    expect(await stash.show('stash@{0}', { includeUntracked: true })).toBe(
+      '?\tnotes.txt\n 1 file changed'
+    );
+
+    await stash.apply('stash@{0}');
+    expect(read('notes.txt')).toBe('untracked\n');
+    // 未追跡ファイルが既に存在する場合は適用しない
+    await expect(stash.apply('stash@{0}')).rejects.toThrow('notes.txt already exists, no checkout');
+  });
+
+  it('ローカルの変更と衝突する場合は何も変更せずにエラーにする', async () => {
+    write('a.txt', 'stashed\n');
+    write('src/b.txt', 'b2 modified\n');
+    await stash.push();
+
+    write('a.txt', 'local\n');
+    await expect(stash.apply()).rejects.toThrow(
+      /would be overwritten by merge:\n\ta\.txt\nPlease commit/
+    );
+    expect(read('src/b.txt')).toBe('b1\n');
+    expect(await stash.list()).toHaveLength(1);
+  });
+
+  it('drop は指定した stash のみを削除する', async () => {
+    write('a.txt', 'first\n');
+    await stash.push({ message: 'first' });
+    write('a.txt', 'second\n');
+    await stash.push({ message: 'second' });
+
+    expect(await stash.drop('stash@{1}')).toMatch(/^Dropped refs\/stash@\{1\} \([0-9a-f]{40}\)$/);
+    const entries = await stash.list();
+    expect(entries.map(e => e.message)).toEqual(['On main: second']);
+    expect(await git.resolveRef({ fs, dir, ref: 'refs/stash' })).toBe(entries[0].oid);
+
+    await expect(stash.drop('stash@{5}')).rejects.toThrow('stash@{5} is not a valid reference');
+    await stash.drop();
+    await expect(stash.apply()).rejects.toThrow('No stash entries found.');
+  });
+});
@@ -0,0 +1,180 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GitCheckoutOperations } from '@/engine/cmd/global/gitOperations/checkout';
+import { pushTags } from '@/engine/cmd/global/gitOperations/push';
+import { GitTagOperations } from '@/engine/cmd/global/gitOperations/tag';
+
+vi.mock('@/engine/user/authRepository', () => ({
+  authRepository: { getAccessToken: vi.fn(async () => 'token') },
+}));
+
+// GitHub Git Data API のタグ関連だけを持つ簡易リモート
+const remote = vi.hoisted(() => ({
+  commits: new Set<string>(),
+  tagRefs: new Map<string, { sha: string; type: string }>(),
+  tagObjects: new Map<string, { object: { sha: string } }>(),
+}));
+
+vi.mock('@/engine/cmd/global/gitOperations/github/GitHubAPI', () => ({
+  GitHubAPI: class {
+    async commitExists(sha: string) {
+      return remote.commits.has(sha);
+    }
+    async getRef() {
+      return null;
+    }
+    async getCommitHistory() {
+      return [];
+    }
+    async getTagRef(tag: string) {
+      const object = remote.tagRefs.get(tag);
+      return object ? { ref: `refs/tags/${tag}`, object } : null;
+    }
+    async setTagRef(tag: string, sha: string) {
+      remote.tagRefs.set(tag, { sha, type: remote.tagObjects.has(sha) ? 'tag' : 'commit' });
+    }
+    async deleteTagRef(tag: string) {
+      remote.tagRefs.delete(tag);
+    }
+    async createTag(data: { tag: string; object: string }) {
+      const sha = `tag-${data.tag}`;
+      remote.tagObjects.set(sha, { object: { sha: data.object } });
+      return { sha };
+    }
+    async getTag(sha: string) {
+      return remote.tagObjects.get(sha);
+    }
+  },
+}));
+
+/**
+ * git tag のテスト
+ * 一時ディレクトリ上の実リポジトリでタグの作成・一覧・削除・チェックアウトと、タグのプッシュを検証
+ */
+
+describe('GitTagOperations', () => {
+  let dir: string;
+  let ops: GitTagOperations;
+  let time = 1700000000;
+
+  const commit = async (message: string) => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), `${message}\n`);
+    await git.add({ fs, dir, filepath: 'a.txt' });
+    time += 1;
+    const author = { name: 'Alice', email: 'alice@example.com', timestamp: time };
+    return git.commit({ fs, dir, message, author, committer: author });
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pyxis-tag-'));
+    await git.init({ fs, dir, defaultBranch: 'main' });
+    await git.addRemote({ fs, dir, remote: 'origin', url: 'https://github.com/owner/repo.git' });
+    ops = new GitTagOperations(fs as unknown as FS, dir);
+    remote.commits.clear();
+    remote.tagRefs.clear();
+    remote.tagObjects.clear();
+    // tagger の GitHub ユーザー取得は行わずデフォルトを使う
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: false }))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('軽量タグと注釈付きタグを作成して一覧できる', async () => {
+    const first = await commit('first');
+    const second = await commit('second');
+
+    expect(await ops.create('v1.0', { target: 'HEAD~1' })).toBe('');
+    await ops.create('v2.0', { message: 'Release 2.0' });
+
+    const tags = await ops.list();
+    expect(tags.map(tag => tag.name)).toEqual(['v1.0', 'v2.0']);
+    expect(tags[0]).toMatchObject({ oid: first, commit: first, annotated: false });
+    expect(tags[1]).toMatchObject({ commit: second, annotated: true, message: 'Release 2.0' });
+    expect(tags[1].oid).not.toBe(second);
+
+    expect(await ops.formatList('v2*')).toBe('v2.0');
+    expect(await ops.formatList(undefined, true)).toBe(
+      ['v1.0            first', 'v2.0            Release 2.0'].join('\n')
+    );
+    expect(await ops.resolveTagCommit('v2.0')).toBe(second);
+    expect(await ops.resolveTagCommit('missing')).toBeNull();
+  });
+
+  it('既存のタグは -f なしでは上書きできない', async () => {
+    const first = await commit('first');
+    await commit('second');
+    await ops.create('v1.0', { target: first });
+
+    await expect(ops.create('v1.0')).rejects.toThrow("tag 'v1.0' already exists");
+    expect(await ops.create('v1.0', { force: true })).toBe(
+      `Updated tag 'v1.0' (was ${first.slice(0, 7)})`
+    );
+    await expect(ops.create('bad..name')).rejects.toThrow('not a valid tag name');
+  });
+
+  it('タグを削除し、存在しないタグはエラーにする', async () => {
+    const first = await commit('first');
+    await ops.create('v1.0');
+
+    expect(await ops.delete(['v1.0', 'nope'])).toBe(
+      [`Deleted tag 'v1.0' (was ${first.slice(0, 7)})`, "error: tag 'nope' not found."].join('\n')
+    );
+    await expect(ops.delete(['nope'])).rejects.toThrow("error: tag 'nope' not found.");
+    expect(await ops.list()).toEqual([]);
+  });
+
+  it('タグをチェックアウトすると detached HEAD になる', async () => {
+    const first = await commit('first');
+    await commit('second');
+    await ops.create('v1.0', { message: 'Release 1.0', target: first });
+
+    const checkout = new GitCheckoutOperations(fs as unknown as FS, dir, 'project-id', 'project');
+    await checkout.checkout('v1.0');
+
+    expect(await git.currentBranch({ fs, dir })).toBeUndefined();
+    expect(await git.resolveRef({ fs, dir, ref: 'HEAD' })).toBe(first);
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe('first\n');
+  });
+
+  it('pushTags はリモートにあるコミットへタグを作成し、既存の別タグは拒否する', async () => {
+    const first = await commit('first');
+    const second = await commit('second');
+    remote.commits.add(first);
+    await ops.create('v1.0', { target: first });
+    await ops.create('v1.1', { message: 'Release 1.1', target: first });
+    await ops.create('v2.0');
+
+    const result = await pushTags(fs as unknown as FS, dir, { tags: 'all' });
+    expect(result).toContain(' * [new tag]         v1.0 -> v1.0');
+    expect(result).toContain(' * [new tag]         v1.1 -> v1.1');
+    expect(result).toContain(' ! [rejected]        v2.0 -> v2.0 (commit not found on remote)');
+    expect(result).toContain(
+      "error: failed to push some refs to 'https://github.com/owner/repo.git'"
+    );
+    expect(remote.tagRefs.get('v1.0')).toEqual({ sha: first, type: 'commit' });
+    expect(remote.tagRefs.get('v1.1')).toEqual({ sha: 'tag-v1.1', type: 'tag' });
+
+    // 同じコミットを指す既存のタグは up-to-date、異なるコミットは拒否
+    remote.commits.add(second);
+    await ops.create('v1.0', { target: second, force: true });
+    const again = await pushTags(fs as unknown as FS, dir, { tags: ['v1.0', 'v1.1'] });
+    expect(again).toContain(' ! [rejected]        v1.0 -> v1.0 (already exists)');
+    expect(again).not.toContain('v1.1');
+
+    const deleted = await pushTags(fs as unknown as FS, dir, { tags: ['v1.1'], delete: true });
+    expect(deleted).toContain(' - [deleted]         v1.1');
+    expect(remote.tagRefs.has('v1.1')).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { hasConflictMarkers, mergeText } from '@/engine/cmd/global/gitOperations/threeWayMerge';
+
+/**
+ * 行単位の3-wayマージのテスト
+ */
+
+const labels = { ours: 'HEAD', theirs: 'abc1234 (change)' };
+
+describe('mergeText', () => {
+  it('片側のみの変更はそのまま採用する', () => {
+    expect(mergeText('a\nb\n', 'a\nb\n', 'a\nB\n', labels)).toEqual({
+      merged: 'a\nB\n',
+      conflict: false,
+    });
+  });
+
+  it('離れた位置の変更は両方を取り込む', () => {
+    const base = 'one\ntwo\nthree\nfour\nfive\n';
+    const ours = 'ONE\ntwo\nthree\nfour\nfive\n';
+    const theirs = 'one\ntwo\nthree\nfour\nFIVE\nsix\n';
+    expect(mergeText(base, ours, theirs, labels)).toEqual({
+      merged: 'ONE\ntwo\nthree\nfour\nFIVE\nsix\n',
+      conflict: false,
+    });
+  });
+
+  it('両側で同じ変更をした場合はコンフリクトにしない', () => {
+    const base = 'a\nb\nc\nd\n';
+    const result = mergeText(base, 'a\nX\nc\nD\n', 'a\nX\nc\nd\n', labels);
+    expect(result).toEqual({ merged: 'a\nX\nc\nD\n', conflict: false });
+  });
+
+  it('重なる変更はコンフリクトマーカーで出力する', () => {
+    const result = mergeText('a\nb\nc\n', 'a\nours\nc\n', 'a\ntheirs\nc\n', labels);
+    expect(result.conflict).toBe(true);
+    expect(result.merged).toBe(
+      'a\n<<<<<<< HEAD\nours\n=======\ntheirs\n>>>>>>> abc1234 (change)\nc\n'
+    );
+    expect(hasConflictMarkers(result.merged)).toBe(true);
+    expect(hasConflictMarkers('a\n=======\nb\n')).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { setupTestProject } from '../../../_helpers/testProject';
+
+import { type ShellExecutor, createShellExecutor } from '@/engine/cmd/shell/executor';
+import { Job, JobTable } from '@/engine/cmd/shell/jobs';
+import { Process } from '@/engine/cmd/shell/process';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository } from '@/engine/core/fileRepository';
+
+/**
+ * ジョブ制御のテスト
+ * cmd & / jobs / fg / bg / wait / kill / $! と Ctrl+Z（suspendForeground）
+ */
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('JobTable', () => {
+  it('%n / %% / %- / %文字列 / pid でジョブを解決する', () => {
+    const table = new JobTable();
+    const first = new Job('sleep 10', [new Process()]);
+    const second = new Job('npm run dev', [new Process(), new Process()]);
+    table.add(first, { background: true, notify: true });
+    table.add(second, { background: true, notify: true });
+
+    expect([first.id, second.id]).toEqual([1, 2]);
+    expect(table.resolve('%1')).toBe(first);
+    expect(table.resolve('%%')).toBe(second);
+    expect(table.resolve()).toBe(second);
+    expect(table.resolve('%-')).toBe(first);
+    expect(table.resolve('%npm')).toBe(second);
+    expect(table.resolve('%?10')).toBe(first);
+    expect(table.resolve(String(second.pid))).toBe(second);
+    expect(table.resolve('%3')).toBeNull();
+    expect(table.lastBackgroundPid).toBe(second.pid);
+    expect(table.format(first)).toBe('[1]-  Running                 sleep 10 &');
+  });
+
+  it('終了したジョブは一度だけ Done として通知される', async () => {
+    const table = new JobTable();
+    const proc = new Process();
+    const job = new Job('sleep 1', [proc]);
+    table.add(job, { background: true, notify: true });
+
+    proc.exit(0);
+    await job.done;
+    expect(table.takeNotifications()).toEqual(['[1]+  Done                    sleep 1']);
+    expect(table.takeNotifications()).toEqual([]);
+    expect(table.list()).toEqual([]);
+  });
+});
+
+describe('ShellExecutor のジョブ制御', () => {
+  let shell: ShellExecutor;
+  let projectId: string;
+
+  const run = async (line: string) => {
+    let stdout = '';
+    let stderr = '';
+    const result = await shell.run(line, {
+      stdout: data => {
+        stdout += data;
+      },
+      stderr: data => {
+        stderr += data;
+      },
+    });
+    return { stdout, stderr, code: result.code };
+  };
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('JobControlTest');
+    projectId = ctx.projectId;
+    shell = createShellExecutor({
+      projectName: ctx.projectName,
+      projectId,
+      unix: terminalCommandRegistry.getUnixCommands(ctx.projectName, projectId),
+      fileRepository,
+    });
+  });
+
+  it('cmd & はジョブ番号と pid を表示してすぐに戻り、jobs / $! / wait で扱える', async () => {
+    const started = await run('sleep 0.2 & echo next');
+    const pid = started.stdout.match(/^\[1\] (\d+)\n/)?.[1];
+    expect(pid).toBeDefined();
+    expect(started.stdout).toContain('next');
+
+    expect((await run('jobs')).stdout).toBe('[1]+  Running                 sleep 0.2 &\n');
+    expect((await run('echo $!')).stdout).toBe(`${pid}\n`);
+
+    expect((await run('wait %1')).code).toBe(0);
+    expect(shell.takeJobNotifications()).toEqual(['[1]+  Done                    sleep 0.2']);
+    expect((await run('jobs')).stdout).toBe('');
+  });
+
+  it('kill %n でバックグラウンドジョブを終了する', async () => {
+    await run('sleep 10 &');
+    await run('kill %1');
+    await tick();
+    expect(shell.takeJobNotifications()).toEqual(['[1]+  Terminated              sleep 10']);
+
+    const missing = await run('kill %5');
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain('kill: %5: no such job');
+  });
+
+  it('Ctrl+Z で停止したジョブを bg / fg で再開する', async () => {
+    const pending = run('sleep 0.1');
+    await tick();
+    expect(shell.suspendForeground()).toBe(true);
+    const stopped = await pending;
+    expect(stopped.code).toBe(148);
+    expect(stopped.stdout).toBe('[1]+  Stopped                 sleep 0.1\n');
+
+    expect((await run('bg')).stdout).toBe('[1]+ sleep 0.1 &\n');
+    expect((await run('jobs')).stdout).toContain('Running');
+
+    const fg = await run('fg %1');
+    expect(fg.stdout).toBe('sleep 0.1\n');
+    expect(fg.code).toBe(0);
+    expect((await run('jobs')).stdout).toBe('');
+  });
+
+  it('停止中は sleep の残り時間が進まない', async () => {
+    const pending = run('sleep 0.2');
+    await tick();
+    shell.suspendForeground();
+    expect((await pending).code).toBe(148);
+
+    await tick(300);
+    expect((await run('jobs')).stdout).toContain('Stopped');
+    const started = Date.now();
+    expect((await run('fg')).code).toBe(0);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+  });
+
+  it('停止中のスクリプトは次のコマンドに進まない', async () => {
+    await fileRepository.createFile(
+      projectId,
+      '/watch.sh',
+      ['echo first', 'sleep 0.05', 'echo second > /out.txt'].join('\n'),
+      'file'
+    );
+    const pending = run('sh watch.sh');
+    await tick();
+    shell.suspendForeground();
+    expect((await pending).code).toBe(148);
+
+    await tick(100);
+    expect(await fileRepository.getFileByPath(projectId, '/out.txt')).toBeNull();
+
+    const fg = await run('fg');
+    expect(fg.code).toBe(0);
+    expect((await fileRepository.getFileByPath(projectId, '/out.txt'))?.content).toBe('second\n');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseCommandLine, ParseError } from '@/engine/cmd/shell/parser';
+import { parseCommandLine, ParseError, scanHereDocOperators } from '@/engine/cmd/shell/parser';
 
 /**
  * Shell パーサーのテスト
@@ -183,6 +183,50 @@ describe('parseCommandLine', () => {
     });
   });
 
+  // ==================== ヒアドキュメント ====================
+
+  describe('ヒアドキュメント', () => {
+    it('<<EOF の本文を hereDoc に格納し、変数を展開する', () => {
+      const segs = parseCommandLine('cat <<EOF\nhello $NAME\nbye\nEOF', { NAME: 'pyxis' });
+      expect(segs).toHaveLength(1);
+      expect(segs[0].tokens.map(t => t.text)).toEqual(['cat']);
+      expect(segs[0].hereDoc).toBe('hello pyxis\nbye\n');
+    });
+
+    it('区切り文字がクォートされている場合は展開しない', () => {
+      const segs = parseCommandLine("cat <<'EOF'\nhello $NAME\nEOF", { NAME: 'pyxis' });
+      expect(segs[0].hereDoc).toBe('hello $NAME\n');
+    });
+
+    it('<<- は本文と区切り行の先頭タブを取り除く', () => {
+      const segs = parseCommandLine('cat <<-END\n\tindented\n\t\tmore\n\tEND');
+      expect(segs[0].hereDoc).toBe('indented\nmore\n');
+    });
+
+    it('ヒアドキュメントの後ろにパイプとリダイレクトを続けられる', () => {
+      const segs = parseCommandLine('cat <<EOF | grep a > out.txt\nabc\nxyz\nEOF');
+      expect(segs).toHaveLength(2);
+      expect(segs[0].hereDoc).toBe('abc\nxyz\n');
+      expect(segs[1].tokens.map(t => t.text)).toEqual(['grep', 'a']);
+      expect(segs[1].stdoutFile).toBe('out.txt');
+    });
+
+    it('<<< はヒアストリングとして改行付きで渡す', () => {
+      const segs = parseCommandLine('cat <<< "one two"');
+      expect(segs[0].tokens.map(t => t.text)).toEqual(['cat']);
+      expect(segs[0].hereDoc).toBe('one two\n');
+    });
+
+    it('scanHereDocOperators はクォート内や <<< を無視する', () => {
+      expect(scanHereDocOperators('cat <<EOF <<-"END"')).toMatchObject([
+        { delimiter: 'EOF', quoted: false, stripTabs: false },
+        { delimiter: 'END', quoted: true, stripTabs: true },
+      ]);
+      expect(scanHereDocOperators('echo "<<EOF" \'<<X\'')).toEqual([]);
+      expect(scanHereDocOperators('cat <<< EOF')).toEqual([]);
+    });
+  });
+
   // ==================== エッジケース ====================
 
   describe('エッジケース', () => {
@@ -0,0 +1,331 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { setupTestProject } from '../../../_helpers/testProject';
+
+import { type ShellExecutor, createShellExecutor } from '@/engine/cmd/shell/executor';
+import { parseCommandLine } from '@/engine/cmd/shell/parser';
+import type { Process } from '@/engine/cmd/shell/process';
+import { runScript } from '@/engine/cmd/shell/scriptRunner';
+import type { StreamShell } from '@/engine/cmd/shell/streamShell';
+import type { ShellRunResult } from '@/engine/cmd/shell/types';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository } from '@/engine/core/fileRepository';
+
+/**
+ * ScriptRunner のテスト
+ * 関数・case・local/return・ヒアドキュメントと終了ステータス
+ *
+ * StreamShell の代わりに、parseCommandLine でパースして
+ * echo / cat / true / false / test だけを実行する簡易シェルを使う
+ */
+
+function runBuiltin(args: string[], stdin: string): { out: string; code: number } {
+  const [cmd, ...rest] = args;
+  switch (cmd) {
+    case 'echo':
+      return { out: `${rest.join(' ')}\n`, code: 0 };
+    case 'cat':
+      return { out: stdin, code: 0 };
+    case 'true':
+      return { out: '', code: 0 };
+    case 'false':
+      return { out: '', code: 1 };
+    case 'test':
+    case '[': {
+      const expr = cmd === '[' ? rest.slice(0, -1) : rest;
+      const [a, op, b] = expr;
+      const ok =
+        (op === '=' && a === b) ||
+        (op === '!=' && a !== b) ||
+        (op === '-eq' && Number(a) === Number(b)) ||
+        (op === '-gt' && Number(a) > Number(b)) ||
+        (op === '-lt' && Number(a) < Number(b));
+      return { out: '', code: ok ? 0 : 1 };
+    }
+    default:
+      return { out: '', code: 127 };
+  }
+}
+
+function createFakeShell() {
+  const shell = {
+    async run(
+      line: string,
+      onData?: { stdout?: (data: string) => void; stderr?: (data: string) => void }
+    ): Promise<ShellRunResult> {
+      // セグメントはパイプでつながっているものとして扱う（&& / || は runScript が分割する）
+      let stdout = '';
+      let code = 0;
+      for (const seg of parseCommandLine(line, {})) {
+        const res = runBuiltin(
+          seg.tokens.map(t => t.text),
+          seg.hereDoc ?? stdout
+        );
+        stdout = res.out;
+        code = res.code;
+      }
+      onData?.stdout?.(stdout);
+      return { stdout, stderr: '', code };
+    },
+  };
+  return shell as unknown as StreamShell;
+}
+
+async function run(script: string, args: string[] = ['test.sh']) {
+  let stdout = '';
+  let stderr = '';
+  const proc = {
+    writeStdout: (data: string) => {
+      stdout += data;
+    },
+    writeStderr: (data: string) => {
+      stderr += data;
+    },
+    waitUntilRunning: async () => {},
+    hasExited: false,
+  } as unknown as Process;
+  const code = await runScript(script, args, proc, createFakeShell());
+  return { stdout, stderr, code };
+}
+
+describe('runScript', () => {
+  describe('関数', () => {
+    it('name() { ... } で定義した関数を呼び出し、位置パラメータを関数ごとに切り替える', async () => {
+      const { stdout } = await run(
+        [
+          'greet() {',
+          '  echo "hello $1 ($#)"',
+          '}',
+          'greet "big world" x',
+          'echo "script $1"',
+        ].join('\n'),
+        ['test.sh', 'outer']
+      );
+      expect(stdout).toBe('hello big world (2)\nscript outer\n');
+    });
+
+    it('function name { ... } 形式と1行の定義、関数内からの関数呼び出し', async () => {
+      const { stdout } = await run(
+        [
+          'inner() { echo "inner $1"; }',
+          'function outer {',
+          '  inner "$1-x"',
+          '  echo "outer $1"',
+          '}',
+          'outer a',
+        ].join('\n')
+      );
+      expect(stdout).toBe('inner a-x\nouter a\n');
+    });
+
+    it('local は呼び出し元の変数を隠し、戻ったら元に戻す', async () => {
+      const { stdout, stderr, code } = await run(
+        [
+          'x=global',
+          'f() {',
+          '  local x=inner y',
+          '  echo "in $x"',
+          '}',
+          'f',
+          'echo "out $x"',
+          'local z=1',
+        ].join('\n')
+      );
+      expect(stdout).toBe('in inner\nout global\n');
+      expect(stderr).toContain('local: can only be used in a function');
+      expect(code).toBe(1);
+    });
+
+    it('return の値が $? と if の条件に反映される', async () => {
+      const { stdout } = await run(
+        [
+          'is_big() {',
+          '  if [ "$1" -gt 10 ]; then',
+          '    return 0',
+          '  fi',
+          '  return 3',
+          '  echo unreachable',
+          '}',
+          'is_big 5',
+          'echo "status $?"',
+          'if is_big 42; then echo big; else echo small; fi',
+          'is_big 1 || echo "fallback"',
+        ].join('\n')
+      );
+      expect(stdout).toBe('status 3\nbig\nfallback\n');
+    });
+
+    it('return を省略すると最後のコマンドの終了ステータスを返す', async () => {
+      const { stdout } = await run(['f() { false; }', 'f', 'echo $?'].join('\n'));
+      expect(stdout).toBe('1\n');
+    });
+  });
+
+  describe('case', () => {
+    it('最初に一致した節だけを実行し、| と glob パターンに対応する', async () => {
+      const script = [
+        'for arg in start stop foo.txt other; do',
+        '  case $arg in',
+        '    start|begin) echo "starting";;',
+        '    stop)',
+        '      echo "stopping"',
+        '      ;;',
+        '    *.txt) echo "text $arg" ;;',
+        '    *) echo "unknown $arg" ;;',
+        '  esac',
+        'done',
+      ].join('\n');
+      const { stdout } = await run(script);
+      expect(stdout).toBe('starting\nstopping\ntext foo.txt\nunknown other\n');
+    });
+
+    it('クォートしたパターンは文字どおりに比較する', async () => {
+      const { stdout } = await run(
+        ['v="*"', 'case "$v" in', '  "*") echo star ;;', '  *) echo any ;;', 'esac'].join('\n')
+      );
+      expect(stdout).toBe('star\n');
+    });
+  });
+
+  describe('ヒアドキュメント', () => {
+    it('本文の変数を展開し、<<- は先頭のタブを取り除く', async () => {
+      const { stdout } = await run(
+        [
+          'name=pyxis',
+          'cat <<EOF',
+          'Hello $name',
+          'EOF',
+          'if true; then',
+          '\tcat <<-END',
+          '\t\tindented $1',
+          '\tEND',
+          'fi',
+        ].join('\n'),
+        ['test.sh', 'arg']
+      );
+      expect(stdout).toBe('Hello pyxis\nindented arg\n');
+    });
+
+    it('区切り文字をクォートすると本文を展開しない', async () => {
+      const { stdout } = await run(["cat <<'EOF'", 'cost: $1 $(echo x)', 'EOF'].join('\n'));
+      expect(stdout).toBe('cost: $1 $(echo x)\n');
+    });
+
+    it('関数内で位置パラメータを展開する', async () => {
+      const { stdout } = await run(
+        ['show() {', '  cat <<EOF', 'arg=$1', 'EOF', '}', 'show value'].join('\n')
+      );
+      expect(stdout).toBe('arg=value\n');
+    });
+  });
+
+  describe('終了ステータス', () => {
+    it('最後のコマンドの終了ステータスを返す', async () => {
+      expect((await run('echo ok; false')).code).toBe(1);
+      expect((await run('false; true')).code).toBe(0);
+    });
+
+    it('exit は引数がなければ直前の終了ステータスで終了する', async () => {
+      const { stdout, code } = await run(['false', 'exit', 'echo unreachable'].join('\n'));
+      expect(stdout).toBe('');
+      expect(code).toBe(1);
+    });
+
+    it('関数内の exit はスクリプト全体を終了する', async () => {
+      const { stdout, code } = await run(
+        ['die() { echo "fatal: $1"; exit 4; }', 'die oops', 'echo unreachable'].join('\n')
+      );
+      expect(stdout).toBe('fatal: oops\n');
+      expect(code).toBe(4);
+    });
+
+    it('関数の外の return はエラーになる', async () => {
+      const { stderr, code } = await run('return 1');
+      expect(stderr).toContain("can only `return' from a function");
+      expect(code).toBe(1);
+    });
+  });
+});
+
+describe('ShellExecutor でのヒアドキュメント', () => {
+  let shell: ShellExecutor;
+  let projectId: string;
+
+  const run = async (line: string) => {
+    let stdout = '';
+    let stderr = '';
+    const result = await shell.run(line, {
+      stdout: data => {
+        stdout += data;
+      },
+      stderr: data => {
+        stderr += data;
+      },
+    });
+    return { stdout, stderr, code: result.code };
+  };
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('HereDocTest');
+    projectId = ctx.projectId;
+    shell = createShellExecutor({
+      projectName: ctx.projectName,
+      projectId,
+      unix: terminalCommandRegistry.getUnixCommands(ctx.projectName, projectId),
+      fileRepository,
+    });
+  });
+
+  it('関数内の cat <<EOF が展開した本文を出力する', async () => {
+    await fileRepository.createFile(
+      projectId,
+      '/script.sh',
+      [
+        'greet() {',
+        '  local name=$1',
+        '  cat <<EOF',
+        'Hello, $name',
+        'EOF',
+        '}',
+        'case "$2" in',
+        '  -v|--verbose) greet "verbose" ;;',
+        '  *) greet "world" ;;',
+        'esac',
+        "cat <<'EOF'",
+        'from $1',
+        'EOF',
+      ].join('\n'),
+      'file'
+    );
+
+    const { stdout, stderr, code } = await run('sh script.sh arg1 -v');
+    expect(stderr).toBe('');
+    expect(code).toBe(0);
+    expect(stdout).toBe('Hello, verbose\nfrom $1\n');
+  });
+
+  it('cat はパイプの上流が遅れて書き込んでも終わりまで読む', async () => {
+    await fileRepository.createFile(
+      projectId,
+      '/slow.sh',
+      ['echo first', 'sleep 0.1', 'echo second'].join('\n'),
+      'file'
+    );
+
+    const { stdout, code } = await run('sh slow.sh | cat');
+    expect(code).toBe(0);
+    expect(stdout).toBe('first\nsecond\n');
+
+    // ターミナルからの入力は Ctrl+D（endForegroundStdin）で終わる
+    const typed = run('cat');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(shell.writeForegroundStdin('typed\n')).toBe(true);
+    expect(shell.endForegroundStdin()).toBe(true);
+    expect((await typed).stdout).toBe('typed\n');
+  });
+
+  it('cat はファイル名がなければ、または - で標準入力を読む', async () => {
+    expect((await run('echo piped | cat')).stdout).toBe('piped\n');
+    expect((await run('cat -n - <<<line')).stdout).toBe('     1  line\n');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { DEFAULT_TERMINAL_ID, terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { terminalSessionManager } from '@/engine/cmd/terminalSessions';
+import { fileRepository } from '@/engine/core/fileRepository';
+import {
+  getTerminalHistory,
+  getTerminalSessions,
+  saveTerminalHistory,
+} from '@/stores/terminalHistoryStorage';
+
+/**
+ * 複数ターミナルのテスト
+ * ターミナルごとの cwd・環境変数、一覧の保存、新規作成・分割・名前変更・クローズ、拡張機能からの openTerminal
+ */
+
+// IndexedDB の代わりにメモリ上の Map に保存する
+vi.mock('@/engine/storage', () => {
+  const data = new Map<string, unknown>();
+  return {
+    STORES: { USER_PREFERENCES: 'user_preferences' },
+    storageService: {
+      get: vi.fn(async (store: string, id: string) => data.get(`${store}:${id}`) ?? null),
+      set: vi.fn(async (store: string, id: string, value: unknown) => {
+        data.set(`${store}:${id}`, value);
+      }),
+      delete: vi.fn(async (store: string, id: string) => {
+        data.delete(`${store}:${id}`);
+      }),
+      getAll: vi.fn(async () => []),
+    },
+  };
+});
+
+describe('terminalCommandRegistry のターミナルごとのシェル', () => {
+  it('ターミナルごとに cwd と環境変数が分かれ、最初のターミナルはプロジェクト共通の cwd を使う', async () => {
+    const { projectName, projectId } = await setupTestProject('TerminalSessionsShell');
+    await fileRepository.createFile(projectId, '/src', '', 'folder');
+
+    const first = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+    });
+    const second = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+      terminalId: 'term-2',
+    });
+    expect(first).not.toBe(second);
+
+    await second?.run('cd src');
+    await second?.run('export NAME=second');
+    expect((await second?.run('pwd'))?.stdout).toBe(`/projects/${projectName}/src`);
+    expect((await first?.run('pwd'))?.stdout).toBe(`/projects/${projectName}`);
+    expect((await first?.run('echo "[$NAME]"'))?.stdout).toBe('[]\n');
+
+    // 最初のターミナルはファイルツリーや AI ツールと同じ UnixCommands を共有する
+    expect(
+      terminalCommandRegistry.getUnixCommands(projectName, projectId, DEFAULT_TERMINAL_ID)
+    ).toBe(terminalCommandRegistry.getUnixCommands(projectName, projectId));
+  });
+
+  it('同じ環境変数をターミナルごとに別の値で展開し、未設定なら process.env を使う', async () => {
+    const { projectName, projectId } = await setupTestProject('TerminalSessionsEnv');
+    const first = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+      terminalId: 'term-env-1',
+    });
+    const second = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+      terminalId: 'term-env-2',
+    });
+    process.env.PYXIS_TEST_GREETING = 'from-process';
+
+    try {
+      first?.setEnv('PYXIS_TEST_GREETING', 'hello');
+      second?.setEnv('PYXIS_TEST_GREETING', 'bonjour');
+      expect((await first?.run('echo $PYXIS_TEST_GREETING'))?.stdout).toBe('hello\n');
+      expect((await second?.run('echo $PYXIS_TEST_GREETING'))?.stdout).toBe('bonjour\n');
+
+      const third = await terminalCommandRegistry.getShell(projectName, projectId, {
+        fileRepository,
+        terminalId: 'term-env-3',
+      });
+      expect((await third?.run('echo $PYXIS_TEST_GREETING'))?.stdout).toBe('from-process\n');
+    } finally {
+      delete process.env.PYXIS_TEST_GREETING;
+    }
+  });
+
+  it('disposeTerminal はジョブに SIGHUP を送り、次はシェルを作り直す', async () => {
+    const { projectName, projectId } = await setupTestProject('TerminalSessionsDispose');
+    const shell = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+      terminalId: 'term-bg',
+    });
+    await shell?.run('sleep 10 &');
+
+    terminalCommandRegistry.disposeTerminal(projectId, 'term-bg');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(shell?.takeJobNotifications()).toEqual(['[1]+  Hangup                  sleep 10']);
+
+    const next = await terminalCommandRegistry.getShell(projectName, projectId, {
+      terminalId: 'term-bg',
+    });
+    expect(next).not.toBe(shell);
+  });
+});
+
+describe('terminalSessionManager', () => {
+  it('最初のターミナルを用意し、新規作成・分割・名前変更を保存する', async () => {
+    const projectId = 'sessions-layout';
+    const state = await terminalSessionManager.load('SessionsLayout', projectId);
+    expect(state.sessions).toEqual([
+      { id: DEFAULT_TERMINAL_ID, name: 'Terminal 1', groupId: DEFAULT_TERMINAL_ID },
+    ]);
+
+    const second = await terminalSessionManager.create('SessionsLayout', projectId);
+    const split = await terminalSessionManager.create('SessionsLayout', projectId, {
+      split: true,
+    });
+    expect(second.name).toBe('Terminal 2');
+    expect(split.groupId).toBe(second.id);
+    expect(terminalSessionManager.getState(projectId)?.activeId).toBe(split.id);
+
+    terminalSessionManager.rename(projectId, second.id, 'server');
+    terminalSessionManager.setCwd(projectId, split.id, '/projects/SessionsLayout/src');
+
+    expect(await getTerminalSessions('SessionsLayout')).toEqual({
+      sessions: [
+        { id: DEFAULT_TERMINAL_ID, name: 'Terminal 1', groupId: DEFAULT_TERMINAL_ID },
+        { id: second.id, name: 'server', groupId: second.id },
+        {
+          id: split.id,
+          name: 'Terminal 3',
+          groupId: second.id,
+          cwd: '/projects/SessionsLayout/src',
+        },
+      ],
+      activeId: split.id,
+    });
+  });
+
+  it('閉じたターミナルの履歴を削除し、同じグループのターミナルをアクティブにする', async () => {
+    const projectId = 'sessions-close';
+    await terminalSessionManager.load('SessionsClose', projectId);
+    const left = await terminalSessionManager.create('SessionsClose', projectId);
+    const right = await terminalSessionManager.create('SessionsClose', projectId, { split: true });
+    await saveTerminalHistory('SessionsClose', ['npm run dev'], right.id);
+    await saveTerminalHistory('SessionsClose', ['ls'], DEFAULT_TERMINAL_ID);
+
+    await terminalSessionManager.close(projectId, right.id);
+    expect(terminalSessionManager.getState(projectId)?.activeId).toBe(left.id);
+    expect(await getTerminalHistory('SessionsClose', right.id)).toEqual([]);
+    expect(await getTerminalHistory('SessionsClose')).toEqual(['ls']);
+
+    // 最後のターミナルを閉じると新しいターミナルが開く
+    await terminalSessionManager.close(projectId, left.id);
+    await terminalSessionManager.close(projectId, DEFAULT_TERMINAL_ID);
+    expect(terminalSessionManager.getState(projectId)?.sessions).toEqual([
+      { id: DEFAULT_TERMINAL_ID, name: 'Terminal 1', groupId: DEFAULT_TERMINAL_ID },
+    ]);
+  });
+
+  it('openTerminal は現在のプロジェクトにターミナルを開き、コマンドを一度だけ渡す', async () => {
+    const projectId = 'sessions-open';
+    const reveal = vi.fn();
+    const unsubscribe = terminalSessionManager.addRevealListener(reveal);
+    terminalSessionManager.setCurrentProject('SessionsOpen', projectId);
+
+    const id = await terminalSessionManager.openTerminal({
+      name: 'dev server',
+      command: 'npm run dev',
+    });
+    unsubscribe();
+
+    expect(reveal).toHaveBeenCalledWith(projectId, id);
+    expect(terminalSessionManager.getSession(projectId, id)?.name).toBe('dev server');
+    expect(terminalSessionManager.takeInitialCommand(projectId, id)).toBe('npm run dev');
+    expect(terminalSessionManager.takeInitialCommand(projectId, id)).toBeUndefined();
+    // 実行するコマンドは保存しない
+    const saved = await getTerminalSessions('SessionsOpen');
+    expect(saved?.sessions.find(s => s.id === id)).toEqual({ id, name: 'dev server', groupId: id });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { commandPaletteRegistry } from '@/engine/commands/CommandPaletteRegistry';
+import { registerBuiltinCommands } from '@/engine/commands/registerBuiltinCommands';
+import type { PaletteCommand } from '@/engine/commands/types';
+import { CommandPaletteAPI } from '@/engine/extensions/system-api/CommandPaletteAPI';
+import type { ExtensionContext } from '@/engine/extensions/types';
+
+/**
+ * コマンドパレットのレジストリのテスト
+ * 並び順（最近使った順 → カテゴリ・タイトル順）、最近使ったコマンドの保存、拡張機能のコマンド
+ */
+
+// IndexedDB の代わりにメモリ上の Map に保存する
+vi.mock('@/engine/storage', () => {
+  const data = new Map<string, unknown>();
+  return {
+    STORES: { USER_PREFERENCES: 'user_preferences', KEYBINDINGS: 'keybindings' },
+    storageService: {
+      get: vi.fn(async (store: string, id: string) => data.get(`${store}:${id}`) ?? null),
+      set: vi.fn(async (store: string, id: string, value: unknown) => {
+        data.set(`${store}:${id}`, value);
+      }),
+      delete: vi.fn(async (store: string, id: string) => {
+        data.delete(`${store}:${id}`);
+      }),
+    },
+  };
+});
+
+function command(id: string, title: string, category: string, run = vi.fn()): PaletteCommand {
+  return { id, title, category, source: 'builtin', run };
+}
+
+describe('commandPaletteRegistry', () => {
+  it('最近使ったコマンドを先頭に並べ、実行履歴を保存する', async () => {
+    const { storageService } = await import('@/engine/storage');
+    // 前回のセッションで保存された履歴
+    await storageService.set('user_preferences', 'commandPaletteRecent', ['test.b']);
+
+    const runC = vi.fn();
+    const unregisters = [
+      commandPaletteRegistry.register(command('test.c', 'Charlie', 'Test', runC)),
+      commandPaletteRegistry.register(command('test.a', 'Alpha', 'Test')),
+      commandPaletteRegistry.register(command('test.b', 'Bravo', 'Test')),
+    ];
+    const ids = () =>
+      commandPaletteRegistry
+        .getAll()
+        .map(c => c.id)
+        .filter(id => id.startsWith('test.'));
+
+    expect(ids()).toEqual(['test.a', 'test.b', 'test.c']);
+    await commandPaletteRegistry.loadRecent();
+    expect(ids()).toEqual(['test.b', 'test.a', 'test.c']);
+
+    expect(await commandPaletteRegistry.execute('test.c')).toBe(true);
+    expect(runC).toHaveBeenCalledTimes(1);
+    expect(ids()).toEqual(['test.c', 'test.b', 'test.a']);
+    expect(await storageService.get('user_preferences', 'commandPaletteRecent')).toEqual([
+      'test.c',
+      'test.b',
+    ]);
+
+    expect(await commandPaletteRegistry.execute('test.missing')).toBe(false);
+    for (const unregister of unregisters) unregister();
+    expect(ids()).toEqual([]);
+  });
+
+  it('実行に失敗したコマンドも例外を投げずに履歴へ残る', async () => {
+    const unregister = commandPaletteRegistry.register(
+      command(
+        'test.fail',
+        'Fail',
+        'Test',
+        vi.fn(async () => {
+          throw new Error('boom');
+        })
+      )
+    );
+    await expect(commandPaletteRegistry.execute('test.fail')).resolves.toBe(true);
+    expect(commandPaletteRegistry.getRecentIds()[0]).toBe('test.fail');
+    unregister();
+  });
+
+  it('キーバインディングのアクションをコマンドとして登録する', () => {
+    const unregister = registerBuiltinCommands();
+    const save = commandPaletteRegistry.get('workbench.saveFile');
+    expect(save).toMatchObject({
+      title: 'Save File',
+      category: 'File',
+      keybindingId: 'saveFile',
+      source: 'builtin',
+    });
+    // パレット自身を開くアクションは含めない
+    expect(commandPaletteRegistry.get('workbench.commandPalette')).toBeUndefined();
+
+    unregister();
+    expect(commandPaletteRegistry.get('workbench.saveFile')).toBeUndefined();
+  });
+
+  it('拡張機能のコマンドは拡張機能IDで区別され、dispose で削除される', async () => {
+    const api = new CommandPaletteAPI({ extensionId: 'pyxis.sample' } as ExtensionContext);
+    const handler = vi.fn();
+    api.registerPaletteCommand({ id: 'hello', title: 'Say Hello', handler });
+    api.registerPaletteCommand({ id: 'bye', title: 'Say Bye', category: 'Sample', handler });
+
+    expect(commandPaletteRegistry.get('pyxis.sample.hello')).toMatchObject({
+      category: 'pyxis.sample',
+      source: 'extension',
+      extensionId: 'pyxis.sample',
+    });
+    await commandPaletteRegistry.execute('pyxis.sample.bye');
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    api.dispose();
+    expect(commandPaletteRegistry.get('pyxis.sample.hello')).toBeUndefined();
+    expect(commandPaletteRegistry.get('pyxis.sample.bye')).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { extensionManager } from '@/engine/extensions/extensionManager';
+import {
+  type ExtensionContext,
+  type ExtensionExports,
+  type ExtensionManifest,
+  ExtensionStatus,
+  ExtensionType,
+  type InstalledExtension,
+} from '@/engine/extensions/types';
+
+/**
+ * 拡張機能間のメッセージング・公開API・依存関係順の有効化のテスト
+ *
+ * インストール済み拡張機能の保存先はメモリ上の Map に、
+ * モジュールの読み込みは entryCode をキーにした ExtensionExports の表に差し替える。
+ */
+
+const { installedExtensions, modules } = vi.hoisted(() => ({
+  installedExtensions: new Map<string, unknown>(),
+  modules: new Map<string, unknown>(),
+}));
+
+vi.mock('@/engine/extensions/storage-adapter', () => ({
+  saveInstalledExtension: async (ext: InstalledExtension) => {
+    installedExtensions.set(ext.manifest.id, ext);
+  },
+  loadInstalledExtension: async (id: string) => installedExtensions.get(id) ?? null,
+  loadAllInstalledExtensions: async () => [...installedExtensions.values()],
+  deleteInstalledExtension: async (id: string) => {
+    installedExtensions.delete(id);
+  },
+}));
+
+vi.mock('@/engine/extensions/extensionLoader', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/engine/extensions/extensionLoader')>()),
+  loadExtensionModule: async (entryCode: string) => modules.get(entryCode) ?? null,
+}));
+
+describe('拡張機能間の連携', () => {
+  let activationOrder: string[];
+
+  function install(id: string, exports: ExtensionExports, dependencies?: string[]) {
+    const manifest: ExtensionManifest = {
+      id,
+      name: id,
+      version: '1.0.0',
+      type: ExtensionType.SERVICE,
+      description: id,
+      author: 'test',
+      entry: 'index.js',
+      dependencies,
+    };
+    modules.set(id, {
+      ...exports,
+      activate: async (context: ExtensionContext) => {
+        activationOrder.push(id);
+        return exports.activate(context);
+      },
+    });
+    installedExtensions.set(id, {
+      manifest,
+      status: ExtensionStatus.INSTALLED,
+      installedAt: 0,
+      updatedAt: 0,
+      enabled: false,
+      cache: { entryCode: id, cachedAt: 0 },
+    });
+  }
+
+  beforeEach(async () => {
+    for (const active of extensionManager.getActiveExtensions()) {
+      await extensionManager.disableExtension(active.manifest.id);
+    }
+    installedExtensions.clear();
+    modules.clear();
+    activationOrder = [];
+  });
+
+  it('依存先を先にアクティベートし、activate() の api を getExtensionAPI で取得できる', async () => {
+    let received: { greet: (name: string) => string } | undefined;
+    install(
+      'test.app',
+      {
+        activate: async context => {
+          received = context.getExtensionAPI('test.greeter');
+          expect(() => context.getExtensionAPI('test.other')).toThrow(
+            "'test.other' is not declared in manifest.dependencies"
+          );
+          return {};
+        },
+      },
+      ['test.greeter']
+    );
+    install(
+      'test.greeter',
+      {
+        activate: async () => ({ api: { greet: (name: string) => `hello ${name}` } }),
+      },
+      ['test.base']
+    );
+    install('test.base', { activate: async () => ({}) });
+
+    expect(await extensionManager.enableExtension('test.app')).toBe(true);
+
+    expect(activationOrder).toEqual(['test.base', 'test.greeter', 'test.app']);
+    expect(received?.greet('pyxis')).toBe('hello pyxis');
+
+    // 依存先を無効化すると、依存している拡張機能も無効化される
+    await extensionManager.disableExtension('test.base');
+    expect(extensionManager.getActiveExtensions()).toEqual([]);
+  });
+
+  it('依存先がない・循環している場合は有効化しない', async () => {
+    install('test.orphan', { activate: async () => ({}) }, ['test.missing']);
+    install('test.a', { activate: async () => ({}) }, ['test.b']);
+    install('test.b', { activate: async () => ({}) }, ['test.a']);
+
+    expect(await extensionManager.enableExtension('test.orphan')).toBe(false);
+    expect(await extensionManager.enableExtension('test.a')).toBe(false);
+    expect(activationOrder).toEqual([]);
+    expect(extensionManager.getActiveExtensions()).toEqual([]);
+  });
+
+  it('messaging.send は宛先の onMessage の戻り値を応答として受け取る', async () => {
+    let sender: ExtensionContext | undefined;
+    install('test.echo', {
+      activate: async context => {
+        context.messaging.onMessage((message, from) => ({ echo: message, from }));
+        return {};
+      },
+    });
+    install('test.sender', {
+      activate: async context => {
+        sender = context;
+        return {};
+      },
+    });
+    await extensionManager.enableExtension('test.echo');
+    await extensionManager.enableExtension('test.sender');
+
+    expect(await sender?.messaging.send('test.echo', 'ping')).toEqual({
+      echo: 'ping',
+      from: 'test.sender',
+    });
+
+    // 無効化されるとハンドラーも削除される
+    await extensionManager.disableExtension('test.echo');
+    await expect(sender?.messaging.send('test.echo', 'ping')).rejects.toThrow(
+      "Extension 'test.echo' is not listening for messages"
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import JSZip from 'jszip';
+import pako from 'pako';
+import tarStream from 'tar-stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createTempGitRoot, gitRoot, removeTempGitRoot } from '../../_helpers/nodeGitFileSystem';
+import { resetRepository } from '../../_helpers/testProject';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import {
+  getImportSourceName,
+  importProject,
+  readImportSource,
+  suggestProjectName,
+} from '@/engine/in-ex/importProject';
+
+/**
+ * アーカイブ・フォルダからのプロジェクト作成のテスト
+ * zip / tar.gz / フォルダ選択の読み取り、内容によるバイナリ判定、.gitignore、.git の保持を検証
+ */
+
+// GitFileSystem の代わりに一時ディレクトリの node:fs を使う
+vi.mock('@/engine/core/gitFileSystem', async () => {
+  const { createNodeGitFileSystem } = await import('../../_helpers/nodeGitFileSystem');
+  return { gitFileSystem: createNodeGitFileSystem() };
+});
+
+const BINARY = new Uint8Array([0x00, 0xff, 0x10, 0x00, 0x80, 0x81, 0x00, 0x02]);
+
+async function buildTarGz(files: Record<string, string | Uint8Array>): Promise<Uint8Array> {
+  const pack = tarStream.pack();
+  const chunks: Uint8Array[] = [];
+  pack.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+  const done = new Promise(resolve => pack.on('end', resolve));
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name }, Buffer.from(content));
+  }
+  pack.finalize();
+  await done;
+  return pako.gzip(Buffer.concat(chunks));
+}
+
+describe('アーカイブ・フォルダからのプロジェクト作成', () => {
+  beforeEach(async () => {
+    createTempGitRoot('pyxis-import-');
+    resetRepository();
+    await fileRepository.init();
+  });
+
+  afterEach(() => {
+    removeTempGitRoot();
+  });
+
+  it('zip を読み込み、共通のトップレベルフォルダを取り除いて作成する', async () => {
+    const zip = new JSZip();
+    zip.file('my-app/README.md', '# app\n');
+    zip.file('my-app/src/index.ts', 'export {};\n');
+    // 拡張子からはわからないバイナリ
+    zip.file('my-app/assets/logo.dat', BINARY);
+    const file = new File([await zip.generateAsync({ type: 'uint8array' })], 'my-app.zip');
+
+    const entries = await readImportSource({ kind: 'archive', file });
+    const result = await importProject('my-app', entries, { description: 'imported' });
+
+    expect(result.fileCount).toBe(3);
+    expect(result.project.description).toBe('imported');
+    const projectId = result.project.id;
+    expect((await fileRepository.getFileByPath(projectId, '/README.md'))?.content).toBe('# app\n');
+    expect((await fileRepository.getFileByPath(projectId, '/src'))?.type).toBe('folder');
+    const logo = await fileRepository.getFileByPath(projectId, '/assets/logo.dat');
+    expect(logo?.isBufferArray).toBe(true);
+    expect([...new Uint8Array(logo?.bufferContent as ArrayBuffer)]).toEqual([...BINARY]);
+  });
+
+  it('ラッパーでないトップレベルのフォルダ（src/ だけのアーカイブ）は取り除かない', async () => {
+    const zip = new JSZip();
+    zip.file('src/index.ts', 'export {};\n');
+    zip.file('src/util.ts', 'export const x = 1;\n');
+    const file = new File([await zip.generateAsync({ type: 'uint8array' })], 'sources.zip');
+
+    const result = await importProject(
+      'sources',
+      await readImportSource({ kind: 'archive', file })
+    );
+
+    expect((await fileRepository.getFileByPath(result.project.id, '/src/index.ts'))?.content).toBe(
+      'export {};\n'
+    );
+    expect(await fileRepository.getFileByPath(result.project.id, '/index.ts')).toBeNull();
+
+    // ソースと同じ名前のフォルダは目印がなくても取り除く
+    const wrapped = new JSZip();
+    wrapped.file('lib/main.ts', 'export {};\n');
+    const source = {
+      kind: 'archive' as const,
+      file: new File([await wrapped.generateAsync({ type: 'uint8array' })], 'lib.zip'),
+    };
+    const stripped = await importProject('renamed', await readImportSource(source), {
+      sourceName: getImportSourceName(source),
+    });
+    expect(await fileRepository.getFileByPath(stripped.project.id, '/main.ts')).not.toBeNull();
+  });
+
+  it('tar.gz を読み込み、.git をそのまま履歴として書き込む', async () => {
+    const data = await buildTarGz({
+      'index.js': 'console.log(1);\n',
+      '.git/HEAD': 'ref: refs/heads/main\n',
+      '.git/refs/heads/main': 'abc123\n',
+    });
+    const file = new File([data], 'repo.tar.gz');
+
+    const result = await importProject('repo', await readImportSource({ kind: 'archive', file }));
+
+    expect(result.hasGitHistory).toBe(true);
+    expect(result.fileCount).toBe(1);
+    expect(await fileRepository.getFileByPath(result.project.id, '/.git/HEAD')).toBeNull();
+    expect(fs.readFileSync(path.join(gitRoot.dir, 'repo/.git/refs/heads/main'), 'utf8')).toBe(
+      'abc123\n'
+    );
+  });
+
+  it('.gitignore に一致するファイルは、指定があるときだけ取り込まない', async () => {
+    const folder = () => [
+      new File(['node_modules/\n*.log\n'], '.gitignore'),
+      new File(['{}'], 'package.json'),
+      new File(['x'], 'debug.log'),
+      new File(['module.exports = 1;'], 'index.js'),
+    ];
+    const setPaths = (files: File[]) => {
+      const paths = [
+        'site/.gitignore',
+        'site/package.json',
+        'site/debug.log',
+        'site/node_modules/a/index.js',
+      ];
+      files.forEach((file, i) => {
+        Object.defineProperty(file, 'webkitRelativePath', { value: paths[i] });
+      });
+      return files;
+    };
+
+    const source = { kind: 'folder' as const, files: setPaths(folder()) };
+    expect(suggestProjectName(source)).toBe('site');
+
+    const ignored = await importProject('site', await readImportSource(source));
+    expect(ignored.fileCount).toBe(2);
+    expect(ignored.ignoredCount).toBe(2);
+    expect(await fileRepository.getFileByPath(ignored.project.id, '/node_modules')).toBeNull();
+
+    const all = await importProject(
+      'site-all',
+      await readImportSource({ kind: 'folder', files: setPaths(folder()) }),
+      { respectGitignore: false }
+    );
+    expect(all.fileCount).toBe(4);
+    expect(
+      (await fileRepository.getFileByPath(all.project.id, '/node_modules/a/index.js'))?.content
+    ).toBe('module.exports = 1;');
+  });
+
+  it('対応していない形式はエラーにする', async () => {
+    const file = new File(['plain text'], 'notes.rar');
+    await expect(readImportSource({ kind: 'archive', file })).rejects.toThrow(
+      'Unsupported archive format: notes.rar'
+    );
+    expect(suggestProjectName({ kind: 'archive', file: new File([], 'My App v2.tar.gz') })).toBe(
+      'My-App-v2'
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createTempGitRoot, gitRoot, removeTempGitRoot } from '../../_helpers/nodeGitFileSystem';
+import { resetRepository } from '../../_helpers/testProject';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import {
+  WORKSPACE_BACKUP_VERSION,
+  createWorkspaceBackup,
+  findRestoreConflicts,
+  getAvailableProjectName,
+  readWorkspaceBackup,
+  restoreWorkspaceBackup,
+} from '@/engine/in-ex/workspaceBackup';
+import { STORES, storageService } from '@/engine/storage';
+
+/**
+ * ワークスペースのバックアップ・復元のテスト
+ * プロジェクトのファイル・.git・storageService のストアの往復、名前の重複、旧形式の変換を検証
+ */
+
+// GitFileSystem の代わりに一時ディレクトリの node:fs を使う
+vi.mock('@/engine/core/gitFileSystem', async () => {
+  const { createNodeGitFileSystem } = await import('../../_helpers/nodeGitFileSystem');
+  return { gitFileSystem: createNodeGitFileSystem() };
+});
+
+// IndexedDB の代わりにメモリ上の Map に保存する
+vi.mock('@/engine/storage', () => {
+  const data = new Map<string, { id: string; data: unknown; timestamp: number }>();
+  return {
+    STORES: {
+      KEYBINDINGS: 'keybindings',
+      EXTENSIONS: 'extensions',
+      CHAT_SPACES: 'chat_spaces',
+      AI_REVIEWS: 'ai_reviews',
+    },
+    storageService: {
+      get: vi.fn(async (store: string, id: string) => data.get(`${store}:${id}`)?.data ?? null),
+      set: vi.fn(async (store: string, id: string, value: unknown) => {
+        data.set(`${store}:${id}`, { id, data: value, timestamp: Date.now() });
+      }),
+      delete: vi.fn(async (store: string, id: string) => {
+        data.delete(`${store}:${id}`);
+      }),
+      getAll: vi.fn(async (store: string) =>
+        [...data.entries()].filter(([key]) => key.startsWith(`${store}:`)).map(([, e]) => e)
+      ),
+      clearAll: async () => data.clear(),
+    },
+  };
+});
+
+const clearStorage = () =>
+  (storageService as unknown as { clearAll: () => Promise<void> }).clearAll();
+
+describe('ワークスペースのバックアップ', () => {
+  beforeEach(async () => {
+    createTempGitRoot('pyxis-backup-');
+    resetRepository();
+    await clearStorage();
+    await fileRepository.init();
+  });
+
+  afterEach(() => {
+    removeTempGitRoot();
+  });
+
+  async function createSampleWorkspace() {
+    const project = await fileRepository.createEmptyProject('app', 'sample');
+    await fileRepository.createFilesBulk(project.id, [
+      { path: '/src', content: '', type: 'folder' },
+      { path: '/src/index.ts', content: 'console.log(1);\n', type: 'file' },
+      { path: '/.pyxis', content: '', type: 'folder' },
+      { path: '/.pyxis/settings.json', content: '{"editor":{"fontSize":16}}', type: 'file' },
+      {
+        path: '/logo.png',
+        content: '',
+        type: 'file',
+        isBufferArray: true,
+        bufferContent: new Uint8Array([0x89, 0x50, 0x00, 0xff]).buffer,
+      },
+    ]);
+    fs.mkdirSync(path.join(gitRoot.dir, 'app/.git/refs/heads'), { recursive: true });
+    fs.writeFileSync(path.join(gitRoot.dir, 'app/.git/HEAD'), 'ref: refs/heads/main\n');
+    fs.writeFileSync(path.join(gitRoot.dir, 'app/.git/refs/heads/main'), 'abc123\n');
+
+    await storageService.set(STORES.KEYBINDINGS, 'keybindings', [{ id: 'save', key: 'Ctrl+S' }]);
+    await storageService.set(STORES.EXTENSIONS, 'pyxis.sample', {
+      manifest: { id: 'pyxis.sample' },
+      cache: { entryCode: 'x', files: { 'icon.png': new Blob([new Uint8Array([1, 2, 3])]) } },
+    });
+    await storageService.set(STORES.CHAT_SPACES, `chatSpace:${project.id}:space-1`, {
+      id: 'space-1',
+      projectId: project.id,
+      name: 'chat',
+      messages: [],
+    });
+    await storageService.set(STORES.AI_REVIEWS, `aiReview:${project.id}:src/index.ts`, {
+      projectId: project.id,
+      filePath: 'src/index.ts',
+    });
+    return project;
+  }
+
+  it('全プロジェクトとストアを保存し、別の環境に復元する', async () => {
+    await createSampleWorkspace();
+    const blob = await createWorkspaceBackup();
+
+    // 別のブラウザ（空の環境）で復元
+    resetRepository();
+    await clearStorage();
+    fs.rmSync(path.join(gitRoot.dir, 'app'), { recursive: true, force: true });
+
+    const backup = await readWorkspaceBackup(blob);
+    expect(backup.sourceVersion).toBe(WORKSPACE_BACKUP_VERSION);
+    expect(await findRestoreConflicts(backup)).toEqual([]);
+
+    const result = await restoreWorkspaceBackup(backup);
+    expect(result.restored.map(p => p.name)).toEqual(['app']);
+    const projectId = result.restored[0].id;
+
+    const settings = await fileRepository.getFileByPath(projectId, '/.pyxis/settings.json');
+    expect(settings?.content).toBe('{"editor":{"fontSize":16}}');
+    expect((await fileRepository.getFileByPath(projectId, '/src'))?.type).toBe('folder');
+    const logo = await fileRepository.getFileByPath(projectId, '/logo.png');
+    expect(logo?.isBufferArray).toBe(true);
+    expect([...new Uint8Array(logo?.bufferContent as ArrayBuffer)]).toEqual([
+      0x89, 0x50, 0x00, 0xff,
+    ]);
+    expect(fs.readFileSync(path.join(gitRoot.dir, 'app/.git/refs/heads/main'), 'utf8')).toBe(
+      'abc123\n'
+    );
+
+    expect(await storageService.get(STORES.KEYBINDINGS, 'keybindings')).toEqual([
+      { id: 'save', key: 'Ctrl+S' },
+    ]);
+    const extension = (await storageService.get(STORES.EXTENSIONS, 'pyxis.sample')) as {
+      cache: { files: Record<string, Blob> };
+    };
+    const icon = extension.cache.files['icon.png'];
+    expect(icon).toBeInstanceOf(Blob);
+    expect([...new Uint8Array(await icon.arrayBuffer())]).toEqual([1, 2, 3]);
+
+    // プロジェクト単位のエントリは新しいプロジェクト ID に付け替える
+    expect(
+      await storageService.get(STORES.CHAT_SPACES, `chatSpace:${projectId}:space-1`)
+    ).toMatchObject({ projectId });
+    expect(
+      await storageService.get(STORES.AI_REVIEWS, `aiReview:${projectId}:src/index.ts`)
+    ).toMatchObject({ projectId, filePath: 'src/index.ts' });
+  });
+
+  it('名前が重複したプロジェクトは指定に従って別名・置き換え・スキップする', async () => {
+    const original = await createSampleWorkspace();
+    const other = await fileRepository.createEmptyProject('lib');
+    const backup = await readWorkspaceBackup(await createWorkspaceBackup());
+    expect(await findRestoreConflicts(backup)).toEqual(['app', 'lib']);
+
+    const result = await restoreWorkspaceBackup(backup, { app: 'rename', lib: 'skip' });
+    expect(result.restored.map(p => p.name)).toEqual(['app-2']);
+    expect(result.skipped).toEqual(['lib']);
+    const names = (await fileRepository.getProjects()).map(p => p.name).sort();
+    expect(names).toEqual(['app', 'app-2', 'lib']);
+
+    const replaced = await restoreWorkspaceBackup(backup, { app: 'replace', lib: 'skip' });
+    const projects = await fileRepository.getProjects();
+    expect(projects.find(p => p.id === original.id)).toBeUndefined();
+    expect(projects.find(p => p.name === 'app')?.id).toBe(replaced.restored[0].id);
+    expect(projects.find(p => p.name === 'lib')?.id).toBe(other.id);
+  });
+
+  it('旧形式（プロジェクト単位の ZIP エクスポート）を変換して復元する', async () => {
+    const zip = new JSZip();
+    zip.file('legacy/.project.json', JSON.stringify({ id: 'old-id', name: 'legacy' }));
+    zip.file('legacy/README.md', '# legacy\n');
+    zip.file('legacy/data.bin', new Uint8Array([0x00, 0xff, 0x10, 0x00, 0x80, 0x81, 0x00, 0x02]));
+    zip.file('legacy/.git/HEAD', 'ref: refs/heads/main\n');
+
+    const backup = await readWorkspaceBackup(await zip.generateAsync({ type: 'uint8array' }));
+    expect(backup.sourceVersion).toBe(0);
+    expect(backup.manifest.version).toBe(WORKSPACE_BACKUP_VERSION);
+
+    const { restored } = await restoreWorkspaceBackup(backup);
+    const projectId = restored[0].id;
+    expect((await fileRepository.getFileByPath(projectId, '/README.md'))?.content).toBe(
+      '# legacy\n'
+    );
+    expect((await fileRepository.getFileByPath(projectId, '/data.bin'))?.isBufferArray).toBe(true);
+    expect(await fileRepository.getFileByPath(projectId, '/.project.json')).toBeNull();
+    expect(fs.existsSync(path.join(gitRoot.dir, 'legacy/.git/HEAD'))).toBe(true);
+  });
+
+  it('.. を含むパスはプロジェクトの外に書き込まない', async () => {
+    const zip = new JSZip();
+    zip.file('legacy/.project.json', JSON.stringify({ name: 'legacy' }));
+    zip.file('legacy/src\\index.ts', 'export {};\n');
+    // JSZip は / 区切りの .. を解決するため、\\ 区切りで外を指すパスを入れる
+    zip.file('legacy/..\\escape.txt', 'escaped\n');
+    zip.file('legacy/.git\\..\\..\\..\\outside\\HEAD', 'escaped\n');
+
+    const { restored } = await restoreWorkspaceBackup(
+      await readWorkspaceBackup(await zip.generateAsync({ type: 'uint8array' }))
+    );
+    const files = await fileRepository.getProjectFiles(restored[0].id);
+
+    expect(files.map(f => f.path)).toEqual(['/src/index.ts']);
+    expect(fs.readdirSync(gitRoot.dir)).toEqual([]);
+  });
+
+  it('新しいバージョンや Pyxis 以外のアーカイブは読み込まない', async () => {
+    const newer = new JSZip();
+    newer.file(
+      'pyxis-backup.json',
+      JSON.stringify({ format: 'pyxis-workspace-backup', version: WORKSPACE_BACKUP_VERSION + 1 })
+    );
+    await expect(
+      readWorkspaceBackup(await newer.generateAsync({ type: 'uint8array' }))
+    ).rejects.toThrow(`Backup version ${WORKSPACE_BACKUP_VERSION + 1} is newer than supported`);
+
+    const other = new JSZip();
+    other.file('hello.txt', 'hi');
+    await expect(
+      readWorkspaceBackup(await other.generateAsync({ type: 'uint8array' }))
+    ).rejects.toThrow('Not a Pyxis workspace backup');
+  });
+
+  it('重複しない名前に連番を付ける', () => {
+    expect(getAvailableProjectName('app', ['lib'])).toBe('app');
+    expect(getAvailableProjectName('app', ['app', 'app-2'])).toBe('app-3');
+  });
+});
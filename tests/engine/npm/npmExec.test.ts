@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type FakeNpmRegistry, createTarball, stubNpmRegistry } from '../../_helpers/npmRegistry';
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { clearNpmCache } from '@/engine/cmd/global/npmOperations/npmCache';
+import { computeIntegrity } from '@/engine/cmd/global/npmOperations/packageLock';
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository } from '@/engine/core/fileRepository';
+import { normalizeCjsEsm } from '@/engine/runtime/transpiler/normalizeCjsEsm';
+
+// transpileManager は Web Worker を使うため Node 環境では動かない → normalizeCjsEsm で代用
+vi.mock('@/engine/runtime/transpiler/transpileManager', () => ({
+  transpileManager: {
+    transpile: async (options: { code: string }) => {
+      const result = normalizeCjsEsm(options.code);
+      return { id: 'mock', code: result.code, dependencies: result.dependencies };
+    },
+  },
+}));
+
+/**
+ * npx / npm exec / node_modules/.bin のコマンド解決のテスト
+ *
+ * bin を持つパッケージをメモリ上のレジストリに置き、ターミナルのシェルから実行する。
+ */
+
+const REGISTRY = 'https://registry.npmjs.org/';
+
+// argv（エントリファイル名と引数）を出力する bin
+const HELLO_BIN = [
+  '#!/usr/bin/env node',
+  "const name = process.argv[1].split('/').pop();",
+  "console.log(`hello from ${name}: ${process.argv.slice(2).join(',')}`);",
+].join('\n');
+
+describe('npx / npm exec', () => {
+  let projectId: string;
+  let projectName: string;
+  let registry: FakeNpmRegistry;
+
+  async function publish(
+    name: string,
+    version: string,
+    bin?: string | Record<string, string>,
+    files: Record<string, string> = { 'bin/cli.js': HELLO_BIN },
+    dependencies?: Record<string, string>
+  ) {
+    const tarballUrl = `${REGISTRY}${name}/-/${name}-${version}.tgz`;
+    const tarball = await createTarball({
+      'package.json': JSON.stringify({ name, version, bin, dependencies }),
+      ...files,
+    });
+    registry.responses.set(tarballUrl, tarball);
+    registry.responses.set(`${REGISTRY}${name}`, {
+      name,
+      'dist-tags': { latest: version },
+      versions: {
+        [version]: {
+          name,
+          version,
+          bin,
+          dependencies,
+          dist: { tarball: tarballUrl, integrity: await computeIntegrity(tarball) },
+        },
+      },
+    });
+  }
+
+  async function run(line: string) {
+    const shell = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+    });
+    if (!shell) throw new Error('shell unavailable');
+    return shell.run(line);
+  }
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('NpmExecTest');
+    projectId = ctx.projectId;
+    projectName = ctx.projectName;
+    await clearNpmCache();
+    await fileRepository.createFile(
+      projectId,
+      '/package.json',
+      JSON.stringify({ name: 'app', version: '1.0.0', dependencies: {} }),
+      'file'
+    );
+    registry = stubNpmRegistry();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('npx は未インストールのパッケージを実行キャッシュに入れ、bin のエントリを argv 付きで実行する', async () => {
+    await publish('hello-cli', '1.0.0', 'bin/cli.js');
+
+    const result = await run('npx hello-cli a "b c"');
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toBe('hello from cli.js: a,b c\n');
+    expect(result.stderr).toContain('will be installed: hello-cli@1.0.0');
+    const packageJson = await fileRepository.getFileByPath(projectId, '/package.json');
+    expect(JSON.parse(packageJson?.content ?? '{}').dependencies).toEqual({});
+    expect(await fileRepository.getFileByPath(projectId, '/node_modules/hello-cli')).toBeNull();
+    expect(
+      await fileRepository.getFileByPath(
+        projectId,
+        '/node_modules/.cache/npx/hello-cli/node_modules/hello-cli/package.json'
+      )
+    ).not.toBeNull();
+
+    // 2回目はキャッシュにインストール済みのものを使う
+    const again = await run('npx hello-cli again');
+    expect(again.stdout).toBe('hello from cli.js: again\n');
+    expect(again.stderr).toBe('');
+  });
+
+  it('実行キャッシュのパッケージは依存パッケージもキャッシュから require する', async () => {
+    await publish('greeting', '1.0.0', undefined, {
+      'index.js': 'module.exports = name => `hi ${name}`;',
+    });
+    await publish(
+      'greet-cli',
+      '1.0.0',
+      'bin/cli.js',
+      { 'bin/cli.js': "console.log(require('greeting')(process.argv[2]));" },
+      { greeting: '^1.0.0' }
+    );
+
+    const result = await run('npx greet-cli pyxis');
+
+    expect(result.stdout).toBe('hi pyxis\n');
+    expect(await fileRepository.getFileByPath(projectId, '/node_modules/greeting')).toBeNull();
+  });
+
+  it('npm exec / npx -p はパッケージ名と異なる bin を実行する', async () => {
+    await publish('multi-tool', '2.0.0', { greet: 'bin/cli.js', other: 'bin/cli.js' });
+
+    const execResult = await run('npm exec --package=multi-tool -- greet x');
+    expect(execResult.stdout).toBe('hello from cli.js: x\n');
+
+    const npxResult = await run('npx -p multi-tool other y');
+    expect(npxResult.stdout).toBe('hello from cli.js: y\n');
+
+    const missing = await run('npx --no-install not-published');
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain('npx canceled due to missing packages');
+  });
+
+  it('npm run のスクリプトとシェルで node_modules/.bin のコマンドを解決する', async () => {
+    await publish('hello-cli', '1.0.0', { hello: 'bin/cli.js' });
+    await fileRepository.createFile(
+      projectId,
+      '/package.json',
+      JSON.stringify({
+        name: 'app',
+        version: '1.0.0',
+        scripts: { greet: 'hello from-script' },
+        dependencies: { 'hello-cli': '1.0.0' },
+      }),
+      'file'
+    );
+    await run('npm install');
+
+    const direct = await run('hello 1 2');
+    expect(direct.stdout).toBe('hello from cli.js: 1,2\n');
+
+    const script = await run('npm run greet');
+    expect(script.stdout).toContain('hello from cli.js: from-script');
+    expect(script.stdout).toContain("Script 'greet' completed successfully.");
+
+    expect((await run('no-such-bin')).code).toBe(127);
+  });
+});
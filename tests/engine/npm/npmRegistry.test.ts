@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  type FakeNpmRegistry,
+  createPackageTarball,
+  stubNpmRegistry,
+} from '../../_helpers/npmRegistry';
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { NpmCommands } from '@/engine/cmd/global/npm';
+import { clearNpmCache, getNpmCacheStats } from '@/engine/cmd/global/npmOperations/npmCache';
+import { NpmRegistryConfig, parseNpmrc } from '@/engine/cmd/global/npmOperations/npmRegistry';
+import { computeIntegrity } from '@/engine/cmd/global/npmOperations/packageLock';
+import { fileRepository } from '@/engine/core/fileRepository';
+
+/**
+ * .npmrc（レジストリ・スコープ・認証）とパッケージキャッシュのテスト
+ *
+ * fetch を複数のホストを持つメモリ上のレジストリに差し替え、
+ * どのホストにどの認証ヘッダーでリクエストしたかを記録する。
+ */
+
+const PRIVATE_REGISTRY = 'https://npm.example.com/repo/';
+const SCOPED_REGISTRY = 'https://npm.pkg.example.org/';
+
+describe('NpmRegistryConfig', () => {
+  it('.npmrc から registry / スコープ / 認証ヘッダーを解決する', () => {
+    const config = new NpmRegistryConfig(
+      parseNpmrc(
+        [
+          '; comment',
+          `registry = "${PRIVATE_REGISTRY}"`,
+          '@acme:registry=https://npm.pkg.example.org',
+          '//npm.pkg.example.org/:_authToken=secret',
+          '//npm.example.com/:username=alice',
+          `//npm.example.com/:_password=${btoa('pw')}`,
+          '//npm.example.com/repo/:_auth=dXNlcjpwYXNz',
+        ].join('\n')
+      )
+    );
+
+    expect(config.getRegistry('lodash')).toBe(PRIVATE_REGISTRY);
+    expect(config.getRegistry('@acme/ui')).toBe(SCOPED_REGISTRY);
+    expect(config.getRegistry('@other/ui')).toBe(PRIVATE_REGISTRY);
+    expect(config.getPackumentUrl('@acme/ui')).toBe(`${SCOPED_REGISTRY}@acme%2fui`);
+    expect(config.getTarballUrl('@acme/ui', '1.0.0')).toBe(
+      `${SCOPED_REGISTRY}@acme/ui/-/ui-1.0.0.tgz`
+    );
+
+    expect(config.getAuthHeaders(`${SCOPED_REGISTRY}@acme%2fui`)).toEqual({
+      Authorization: 'Bearer secret',
+    });
+    // パスまで一致する設定が優先される
+    expect(config.getAuthHeaders(`${PRIVATE_REGISTRY}lodash`)).toEqual({
+      Authorization: 'Basic dXNlcjpwYXNz',
+    });
+    expect(config.getAuthHeaders('https://npm.example.com/other/lodash')).toEqual({
+      Authorization: `Basic ${btoa('alice:pw')}`,
+    });
+    expect(config.getAuthHeaders('https://registry.npmjs.org/lodash')).toEqual({});
+  });
+});
+
+describe('npm install with .npmrc and cache', () => {
+  let projectId: string;
+  let fake: FakeNpmRegistry;
+
+  async function publish(registry: string, name: string, version: string) {
+    const tarball = `${registry}${name}/-/${name.split('/').pop()}-${version}.tgz`;
+    const data = await createPackageTarball(name, version);
+    fake.responses.set(tarball, data);
+    fake.responses.set(`${registry}${name.replace('/', '%2f')}`, {
+      name,
+      'dist-tags': { latest: version },
+      versions: {
+        [version]: {
+          name,
+          version,
+          dist: { tarball, integrity: await computeIntegrity(data) },
+        },
+      },
+    });
+  }
+
+  async function setupProject(name: string, dependencies: Record<string, string>) {
+    const ctx = await setupTestProject(name);
+    projectId = ctx.projectId;
+    await fileRepository.createFile(
+      projectId,
+      '/.npmrc',
+      [
+        `registry=${PRIVATE_REGISTRY}`,
+        `@acme:registry=${SCOPED_REGISTRY}`,
+        '//npm.pkg.example.org/:_authToken=secret',
+      ].join('\n'),
+      'file'
+    );
+    await fileRepository.createFile(
+      projectId,
+      '/package.json',
+      JSON.stringify({ name: 'app', version: '1.0.0', dependencies }),
+      'file'
+    );
+    return new NpmCommands(ctx.projectName, projectId, `/projects/${ctx.projectName}`);
+  }
+
+  async function installedVersion(name: string) {
+    const file = await fileRepository.getFileByPath(
+      projectId,
+      `/node_modules/${name}/package.json`
+    );
+    return file ? JSON.parse(file.content).version : null;
+  }
+
+  beforeEach(async () => {
+    await clearNpmCache();
+    fake = stubNpmRegistry();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('.npmrc のレジストリとスコープ別レジストリ（認証付き）からインストールする', async () => {
+    await publish(PRIVATE_REGISTRY, 'alpha', '1.0.0');
+    await publish(SCOPED_REGISTRY, '@acme/ui', '2.0.0');
+    const npm = await setupProject('NpmRegistryTest', { alpha: '1.0.0', '@acme/ui': '2.0.0' });
+
+    await npm.install();
+
+    expect(await installedVersion('alpha')).toBe('1.0.0');
+    expect(await installedVersion('@acme/ui')).toBe('2.0.0');
+    expect(fake.requests).toEqual(
+      expect.arrayContaining([
+        { url: `${PRIVATE_REGISTRY}alpha`, authorization: undefined },
+        { url: `${SCOPED_REGISTRY}@acme%2fui`, authorization: 'Bearer secret' },
+        { url: `${SCOPED_REGISTRY}@acme/ui/-/ui-2.0.0.tgz`, authorization: 'Bearer secret' },
+      ])
+    );
+    expect(fake.requests.some(r => r.url.startsWith('https://registry.npmjs.org'))).toBe(false);
+
+    const lock = JSON.parse(
+      (await fileRepository.getFileByPath(projectId, '/package-lock.json'))?.content ?? '{}'
+    );
+    expect(lock.packages['node_modules/@acme/ui'].resolved).toBe(
+      `${SCOPED_REGISTRY}@acme/ui/-/ui-2.0.0.tgz`
+    );
+  });
+
+  it('別のプロジェクトでも同じバージョンはキャッシュから入れ、オフラインでもインストールできる', async () => {
+    await publish(PRIVATE_REGISTRY, 'alpha', '1.0.0');
+    await (await setupProject('NpmCacheFirst', { alpha: '1.0.0' })).install();
+    expect((await getNpmCacheStats()).tarballs).toBe(1);
+
+    // 2つ目のプロジェクト: メタデータは取得するが tarball はダウンロードしない
+    fake.requests = [];
+    await (await setupProject('NpmCacheSecond', { alpha: '1.0.0' })).install();
+    expect(await installedVersion('alpha')).toBe('1.0.0');
+    expect(fake.requests.map(r => r.url)).toEqual([`${PRIVATE_REGISTRY}alpha`]);
+
+    // オフライン: キャッシュ済みのメタデータと tarball を使う
+    fake.offline = true;
+    await (await setupProject('NpmCacheOffline', { alpha: '1.0.0' })).install();
+    expect(await installedVersion('alpha')).toBe('1.0.0');
+  });
+});
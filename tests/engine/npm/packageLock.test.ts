@@ -0,0 +1,340 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  type FakeNpmRegistry,
+  createPackageTarball,
+  stubNpmRegistry,
+} from '../../_helpers/npmRegistry';
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { NpmCommands } from '@/engine/cmd/global/npm';
+import { clearNpmCache } from '@/engine/cmd/global/npmOperations/npmCache';
+import {
+  computeIntegrity,
+  isVersionRange,
+  satisfiesVersion,
+  verifyIntegrity,
+} from '@/engine/cmd/global/npmOperations/packageLock';
+import { fileRepository } from '@/engine/core/fileRepository';
+
+/**
+ * package-lock.json / npm ci のテスト
+ *
+ * ネットワークに依存しないよう、fetch をメモリ上のレジストリに差し替える。
+ * tarball は tar-stream + pako で実際に作成し、integrity も本物の SHA-512 を使う。
+ */
+
+const REGISTRY = 'https://registry.npmjs.org';
+
+interface FakeVersion {
+  dependencies?: Record<string, string>;
+}
+
+describe('package-lock.json', () => {
+  let projectId: string;
+  let projectName: string;
+  let packages: Record<string, Record<string, FakeVersion>>;
+  let fake: FakeNpmRegistry;
+
+  const tarballUrl = (name: string, version: string) =>
+    `${REGISTRY}/${name}/-/${name}-${version}.tgz`;
+
+  async function publish(name: string, version: string, options: FakeVersion = {}) {
+    packages[name] ??= {};
+    packages[name][version] = options;
+    fake.responses.set(
+      tarballUrl(name, version),
+      await createPackageTarball(name, version, options.dependencies)
+    );
+    fake.responses.set(`${REGISTRY}/${name}`, await metadata(name));
+  }
+
+  async function metadata(name: string) {
+    const versions: Record<string, unknown> = {};
+    for (const [version, options] of Object.entries(packages[name])) {
+      const tarball = tarballUrl(name, version);
+      versions[version] = {
+        name,
+        version,
+        dependencies: options.dependencies,
+        dist: {
+          tarball,
+          integrity: await computeIntegrity(fake.responses.get(tarball) as Uint8Array),
+        },
+      };
+    }
+    const latest = Object.keys(versions).sort().at(-1);
+    return { name, 'dist-tags': { latest }, versions };
+  }
+
+  async function writePackageJson(pkg: Record<string, unknown>) {
+    await fileRepository.createFile(projectId, '/package.json', JSON.stringify(pkg), 'file');
+  }
+
+  async function readLock() {
+    const file = await fileRepository.getFileByPath(projectId, '/package-lock.json');
+    return file ? JSON.parse(file.content) : null;
+  }
+
+  async function installedVersion(name: string) {
+    const file = await fileRepository.getFileByPath(
+      projectId,
+      `/node_modules/${name}/package.json`
+    );
+    return file ? JSON.parse(file.content).version : null;
+  }
+
+  function createNpm() {
+    return new NpmCommands(projectName, projectId, `/projects/${projectName}`);
+  }
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('PackageLockTest');
+    projectId = ctx.projectId;
+    projectName = ctx.projectName;
+    await clearNpmCache();
+    packages = {};
+    fake = stubNpmRegistry();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('npm install が resolved と integrity を含む lockfileVersion 3 を書き出す', async () => {
+    await publish('alpha', '1.0.0', { dependencies: { beta: '^2.1.0' } });
+    await publish('beta', '2.1.0');
+    await publish('gamma', '3.0.0');
+    await writePackageJson({
+      name: 'app',
+      version: '1.0.0',
+      dependencies: { alpha: '^1.0.0' },
+      devDependencies: { gamma: '3.0.0' },
+    });
+
+    await createNpm().install();
+
+    const lock = await readLock();
+    expect(lock).toMatchObject({ name: 'app', lockfileVersion: 3, requires: true });
+    expect(lock.packages['']).toEqual({
+      name: 'app',
+      version: '1.0.0',
+      dependencies: { alpha: '^1.0.0' },
+      devDependencies: { gamma: '3.0.0' },
+    });
+    expect(Object.keys(lock.packages)).toEqual([
+      '',
+      'node_modules/alpha',
+      'node_modules/beta',
+      'node_modules/gamma',
+    ]);
+    expect(lock.packages['node_modules/alpha']).toEqual({
+      version: '1.0.0',
+      resolved: tarballUrl('alpha', '1.0.0'),
+      integrity: await computeIntegrity(
+        fake.responses.get(tarballUrl('alpha', '1.0.0')) as Uint8Array
+      ),
+      dependencies: { beta: '^2.1.0' },
+    });
+    expect(lock.packages['node_modules/beta'].version).toBe('2.1.0');
+    expect(lock.packages['node_modules/gamma'].dev).toBe(true);
+    expect(await installedVersion('beta')).toBe('2.1.0');
+  });
+
+  it('npm install は指定を満たすロック済みのバージョンをメタデータなしでインストールする', async () => {
+    await publish('alpha', '1.0.0');
+    await publish('alpha', '1.2.0');
+    await writePackageJson({ name: 'app', version: '1.0.0', dependencies: { alpha: '^1.0.0' } });
+    await fileRepository.createFile(
+      projectId,
+      '/package-lock.json',
+      JSON.stringify({
+        name: 'app',
+        version: '1.0.0',
+        lockfileVersion: 3,
+        requires: true,
+        packages: {
+          '': { name: 'app', version: '1.0.0', dependencies: { alpha: '^1.0.0' } },
+          'node_modules/alpha': {
+            version: '1.2.0',
+            resolved: tarballUrl('alpha', '1.2.0'),
+            integrity: await computeIntegrity(
+              fake.responses.get(tarballUrl('alpha', '1.2.0')) as Uint8Array
+            ),
+          },
+        },
+      }),
+      'file'
+    );
+
+    await createNpm().install();
+
+    expect(await installedVersion('alpha')).toBe('1.2.0');
+    expect(fake.requests.map(r => r.url)).toEqual([tarballUrl('alpha', '1.2.0')]);
+  });
+
+  it('npm ci はロックファイルのとおりにクリーンインストールする', async () => {
+    await publish('alpha', '1.0.0', { dependencies: { beta: '^2.1.0' } });
+    await publish('beta', '2.1.0');
+    await writePackageJson({ name: 'app', version: '1.0.0', dependencies: { alpha: '^1.0.0' } });
+    const npm = createNpm();
+    await npm.install();
+
+    // ロックにない余分なパッケージは削除される
+    await fileRepository.createFile(projectId, '/node_modules/extra/package.json', '{}', 'file');
+    // キャッシュがあるとダウンロードしないので、resolved から取得することを確かめるために消す
+    await clearNpmCache();
+    fake.requests = [];
+
+    const result = await npm.ci();
+    expect(result).toContain('added 2 packages');
+    expect(await installedVersion('alpha')).toBe('1.0.0');
+    expect(await installedVersion('beta')).toBe('2.1.0');
+    expect(
+      await fileRepository.getFileByPath(projectId, '/node_modules/extra/package.json')
+    ).toBeNull();
+    expect(fake.requests.map(r => r.url).sort()).toEqual([
+      tarballUrl('alpha', '1.0.0'),
+      tarballUrl('beta', '2.1.0'),
+    ]);
+  });
+
+  it('npm ci はロックファイルがない、または package.json と一致しない場合に失敗する', async () => {
+    await publish('alpha', '1.0.0');
+    await writePackageJson({ name: 'app', version: '1.0.0', dependencies: { alpha: '^1.0.0' } });
+    const npm = createNpm();
+    await expect(npm.ci()).rejects.toThrow('can only install with an existing package-lock.json');
+
+    await npm.install();
+    await writePackageJson({
+      name: 'app',
+      version: '1.0.0',
+      dependencies: { alpha: '^2.0.0', delta: '^1.0.0' },
+    });
+    const error = await npm.ci().catch(e => e as Error);
+    expect(error.message).toContain('package.json and package-lock.json are in sync');
+    expect(error.message).toContain(
+      "Invalid: lock file's alpha@1.0.0 does not satisfy alpha@^2.0.0"
+    );
+    expect(error.message).toContain('Missing: delta@^1.0.0 from lock file');
+  });
+
+  it('tarball の integrity が一致しない場合は展開せずに EINTEGRITY で失敗する', async () => {
+    await publish('alpha', '1.0.0');
+    await writePackageJson({ name: 'app', version: '1.0.0', dependencies: { alpha: '^1.0.0' } });
+    const npm = createNpm();
+    await npm.install();
+
+    // レジストリ上の tarball が差し替えられた（キャッシュにない状態でダウンロードし直す）
+    await clearNpmCache();
+    fake.responses.set(
+      tarballUrl('alpha', '1.0.0'),
+      await createPackageTarball('alpha', '1.0.0-evil')
+    );
+
+    const error = await npm.ci().catch(e => e as Error);
+    expect(error.message).toContain('code EINTEGRITY');
+    expect(error.message).toContain('integrity checksum failed when using sha512');
+    expect(await installedVersion('alpha')).toBeNull();
+  });
+
+  it('verifyIntegrity / satisfiesVersion', async () => {
+    const data = new TextEncoder().encode('hello');
+    const integrity = await computeIntegrity(data);
+    expect(integrity).toMatch(/^sha512-[A-Za-z0-9+/]+=*$/);
+    await expect(verifyIntegrity(data, `sha1-xxx ${integrity}`)).resolves.toBeUndefined();
+    await expect(verifyIntegrity(new TextEncoder().encode('world'), integrity)).rejects.toThrow(
+      'integrity checksum failed'
+    );
+
+    expect(satisfiesVersion('1.4.0', '^1.2.0')).toBe(true);
+    expect(satisfiesVersion('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfiesVersion('0.2.9', '^0.2.3')).toBe(true);
+    expect(satisfiesVersion('0.3.0', '^0.2.3')).toBe(false);
+    expect(satisfiesVersion('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfiesVersion('1.3.0', '~1.2.3')).toBe(false);
+    expect(satisfiesVersion('1.2.3', '1.2.3')).toBe(true);
+    expect(satisfiesVersion('1.2.3', '>=1.0.0')).toBe(true);
+  });
+
+  it('satisfiesVersion は比較演算子・x-range・ハイフン・|| とプレリリースを判定する', () => {
+    const cases: Array<[string, string, boolean]> = [
+      ['1.5.0', '>=1.2 <2', true],
+      ['2.0.0', '>=1.2 <2', false],
+      ['1.1.9', '>= 1.2.0 < 2.0.0', false],
+      ['1.9.9', '1.x', true],
+      ['2.0.0', '1.x', false],
+      ['1.2.7', '1.2', true],
+      ['1.3.0', '1.2', false],
+      ['1.2.3', '1', true],
+      ['3.1.0', '^1.0.0 || ^3.0.0', true],
+      ['2.1.0', '^1.0.0 || ^3.0.0', false],
+      ['2.3.4', '1.2.3 - 2.3.4', true],
+      ['2.3.5', '1.2.3 - 2.3.4', false],
+      ['2.9.0', '1.2 - 2', true],
+      ['2.1.0', '>2', false],
+      ['3.0.0', '>2', true],
+      ['1.2.9', '<=1.2', true],
+      ['0.0.4', '^0.0.3', false],
+      ['0.0.9', '^0.0', true],
+      ['1.2.3', 'v1.2.3', true],
+      ['1.2.3', '=1.2.3', true],
+      ['1.2.3', '*', true],
+      // プレリリースは同じ major.minor.patch のプレリリースを含む範囲でのみ一致する
+      ['1.2.3-beta.3', '^1.2.3-beta.2', true],
+      ['1.2.3-beta.1', '^1.2.3-beta.2', false],
+      ['1.3.0-beta.1', '^1.2.3-beta.2', false],
+      ['2.0.0-rc.1', '>=1.0.0', false],
+      ['1.2.3-beta.10', '>=1.2.3-beta.9', true],
+      ['1.2.3', '>1.2.3-alpha', true],
+      // 範囲として解析できない指定
+      ['1.2.3', 'next', false],
+      ['1.2.3', 'https://example.com/pkg.tgz', false],
+    ];
+    for (const [version, range, expected] of cases) {
+      expect([version, range, satisfiesVersion(version, range)]).toEqual([
+        version,
+        range,
+        expected,
+      ]);
+    }
+    expect(isVersionRange('>=1.2 <2 || 3.x')).toBe(true);
+    expect(isVersionRange('next')).toBe(false);
+  });
+
+  it('ロックファイルのバージョンが >=, x-range の指定を満たす場合は再解決しない', async () => {
+    await publish('alpha', '1.0.0');
+    await publish('alpha', '1.2.0');
+    await writePackageJson({
+      name: 'app',
+      version: '1.0.0',
+      dependencies: { alpha: '>=1.0 <2' },
+    });
+    await fileRepository.createFile(
+      projectId,
+      '/package-lock.json',
+      JSON.stringify({
+        name: 'app',
+        version: '1.0.0',
+        lockfileVersion: 3,
+        requires: true,
+        packages: {
+          '': { name: 'app', version: '1.0.0', dependencies: { alpha: '>=1.0 <2' } },
+          'node_modules/alpha': {
+            version: '1.0.0',
+            resolved: tarballUrl('alpha', '1.0.0'),
+            integrity: await computeIntegrity(
+              fake.responses.get(tarballUrl('alpha', '1.0.0')) as Uint8Array
+            ),
+          },
+        },
+      }),
+      'file'
+    );
+
+    await createNpm().install();
+
+    expect(await installedVersion('alpha')).toBe('1.0.0');
+    expect(fake.requests.map(r => r.url)).toEqual([tarballUrl('alpha', '1.0.0')]);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getPreviewUrl, handleTranspileRequest } from '@/engine/preview/previewServer';
+import { runtimeRegistry } from '@/engine/runtime/core/RuntimeRegistry';
+import type { TranspilerProvider } from '@/engine/runtime/core/RuntimeProvider';
+
+/**
+ * Webプレビュー（Service Worker の仮想開発サーバー）のアプリ側のテスト
+ * プレビューURLの生成と、Service Worker からのトランスパイル要求
+ */
+
+describe('getPreviewUrl', () => {
+  it('プロジェクト名とパスをエンコードしてプレビューURLを作る', () => {
+    expect(getPreviewUrl('my-app', '/index.html')).toBe('/preview/my-app/index.html');
+    expect(getPreviewUrl('my app', 'src/日本語.html')).toBe(
+      '/preview/my%20app/src/%E6%97%A5%E6%9C%AC%E8%AA%9E.html'
+    );
+    expect(getPreviewUrl('a/b')).toBe('/preview/a%2Fb/');
+  });
+});
+
+describe('handleTranspileRequest', () => {
+  afterEach(() => {
+    runtimeRegistry.unregisterTranspiler('test-preview');
+  });
+
+  it('拡張機能のトランスパイラにブラウザ向けとして変換を依頼する', async () => {
+    const transpile = vi.fn(async (code: string) => ({ code: `/* compiled */ ${code}` }));
+    const provider: TranspilerProvider = {
+      id: 'test-preview',
+      supportedExtensions: ['.tsx'],
+      needsTranspile: () => true,
+      transpile,
+    };
+    runtimeRegistry.registerTranspiler(provider);
+
+    const result = await handleTranspileRequest('/src/App.tsx', 'export const a = 1;');
+
+    expect(result).toEqual({ code: '/* compiled */ export const a = 1;' });
+    expect(transpile).toHaveBeenCalledWith('export const a = 1;', {
+      filePath: '/src/App.tsx',
+      isTypeScript: true,
+      isJSX: true,
+      isESModule: true,
+      target: 'browser',
+    });
+  });
+
+  it('トランスパイラが無い・失敗した場合は例外を投げずにエラーを返す', async () => {
+    const missing = await handleTranspileRequest('/src/main.jsx', 'x');
+    expect(missing.error).toContain('No transpiler found for /src/main.jsx');
+
+    runtimeRegistry.registerTranspiler({
+      id: 'test-preview',
+      supportedExtensions: ['.jsx'],
+      needsTranspile: () => true,
+      transpile: async () => {
+        throw new Error('Unexpected token');
+      },
+    });
+    expect(await handleTranspileRequest('/src/main.jsx', '<')).toEqual({
+      error: 'Unexpected token',
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { createChildProcessModule } from '@/engine/runtime/nodejs/modules/childProcessModule';
+import { createCryptoModule } from '@/engine/runtime/nodejs/modules/cryptoModule';
+import { createQuerystringModule } from '@/engine/runtime/nodejs/modules/querystringModule';
+import { createStringDecoderModule } from '@/engine/runtime/nodejs/modules/stringDecoderModule';
+import { createZlibModule } from '@/engine/runtime/nodejs/modules/zlibModule';
+import { normalizeCjsEsm } from '@/engine/runtime/transpiler/normalizeCjsEsm';
+
+// transpileManager は Web Worker を使うため Node 環境では動かない → normalizeCjsEsm で代用
+vi.mock('@/engine/runtime/transpiler/transpileManager', () => ({
+  transpileManager: {
+    transpile: async (options: { code: string }) => {
+      const result = normalizeCjsEsm(options.code);
+      return { id: 'mock', code: result.code, dependencies: result.dependencies };
+    },
+  },
+}));
+
+import { NodeRuntime } from '@/engine/runtime/nodejs/nodeRuntime';
+
+/**
+ * crypto / zlib / string_decoder / querystring / timers / child_process のエミュレーションのテスト
+ */
+
+describe('crypto', () => {
+  it('ハッシュ・HMAC・乱数を計算できる', () => {
+    const crypto = createCryptoModule();
+    expect(crypto.createHash('sha256').update('hello').digest('hex')).toBe(
+      '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+    );
+    expect(crypto.createHmac('sha256', 'key').update('hello').digest('base64')).toBe(
+      'kwezuRXvtRcf8U2MtV+8x5jGwO8UVtZt7RpqpyOli3s='
+    );
+    const digest = crypto.createHash('md5').update('hello').digest() as {
+      toString(e: string): string;
+    };
+    expect(digest.toString('hex')).toBe('5d41402abc4b2a76b9719d911017c592');
+
+    const bytes = crypto.randomBytes(16) as { length: number; toString(e: string): string };
+    expect(bytes.length).toBe(16);
+    expect(bytes.toString('hex')).toMatch(/^[0-9a-f]{32}$/);
+    expect(crypto.randomUUID()).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+    const n = crypto.randomInt(5, 8) as number;
+    expect(n).toBeGreaterThanOrEqual(5);
+    expect(n).toBeLessThan(8);
+  });
+});
+
+describe('zlib', () => {
+  it('同期・コールバック・ストリームで圧縮と展開ができる', async () => {
+    const zlib = createZlibModule();
+    const text = 'hello zlib '.repeat(50);
+
+    const gzipped = zlib.gzipSync(text);
+    expect(zlib.gunzipSync(gzipped).toString()).toBe(text);
+    expect(zlib.unzipSync(zlib.deflateSync(text)).toString()).toBe(text);
+    expect(zlib.inflateRawSync(zlib.deflateRawSync(text)).toString()).toBe(text);
+    expect(() => zlib.gunzipSync('not gzip')).toThrow(
+      expect.objectContaining({ code: 'Z_DATA_ERROR' })
+    );
+    expect(() => zlib.gunzipSync(gzipped.slice(0, gzipped.length - 10))).toThrow(
+      expect.objectContaining({ code: 'Z_BUF_ERROR' })
+    );
+
+    const unzipped = await new Promise<string>((resolve, reject) =>
+      zlib.gunzip(gzipped, (err, result) => (err ? reject(err) : resolve(String(result))))
+    );
+    expect(unzipped).toBe(text);
+
+    const gzip = zlib.createGzip();
+    const gunzip = zlib.createGunzip();
+    gzip.pipe(gunzip);
+    let streamed = '';
+    gunzip.setEncoding('utf8');
+    gunzip.on('data', chunk => {
+      streamed += chunk;
+    });
+    const ended = new Promise(resolve => gunzip.on('end', resolve));
+    gzip.write('hello ');
+    gzip.end('stream');
+    await ended;
+    expect(streamed).toBe('hello stream');
+  });
+});
+
+describe('string_decoder / querystring', () => {
+  it('分割されたマルチバイト文字を持ち越してデコードする', () => {
+    const { StringDecoder } = createStringDecoderModule();
+    const bytes = new TextEncoder().encode('あい');
+    const decoder = new StringDecoder('utf8');
+    expect(decoder.write(bytes.subarray(0, 2))).toBe('');
+    expect(decoder.write(bytes.subarray(2, 4))).toBe('あ');
+    expect(decoder.end(bytes.subarray(4))).toBe('い');
+
+    const base64 = new StringDecoder('base64');
+    expect(base64.write(new Uint8Array([104, 105]))).toBe('');
+    expect(base64.end(new Uint8Array([33]))).toBe('aGkh');
+  });
+
+  it('クエリ文字列を Node.js と同じ形で parse / stringify する', () => {
+    const qs = createQuerystringModule();
+    expect({ ...qs.parse('a=1&b=x+y&a=2&c&d=%E3%81%82&e=%zz') }).toEqual({
+      a: ['1', '2'],
+      b: 'x y',
+      c: '',
+      d: 'あ',
+      e: '%zz',
+    });
+    expect(qs.stringify({ a: [1, 2], b: 'x y', c: true, d: null })).toBe(
+      'a=1&a=2&b=x%20y&c=true&d='
+    );
+    expect(qs.stringify({ a: 'b' }, ';', ':')).toBe('a:b');
+  });
+});
+
+describe('NodeRuntime', () => {
+  let projectId: string;
+  let projectName: string;
+  let repo: Awaited<ReturnType<typeof setupTestProject>>['repo'];
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('BuiltinModulesTest');
+    projectId = ctx.projectId;
+    projectName = ctx.projectName;
+    repo = ctx.repo;
+  });
+
+  async function runScript(code: string) {
+    await repo.createFile(projectId, '/main.js', code, 'file');
+    const logs: string[] = [];
+    const runtime = new NodeRuntime({
+      projectId,
+      projectName,
+      filePath: `/projects/${projectName}/main.js`,
+      debugConsole: {
+        log: (...args) => logs.push(args.join(' ')),
+        error: (...args) => logs.push(`error: ${args.join(' ')}`),
+        warn: () => {},
+        clear: () => {},
+      },
+    });
+    await runtime.execute(`/projects/${projectName}/main.js`);
+    await runtime.waitForEventLoop();
+    return logs;
+  }
+
+  it('timers/promises と child_process.exec の完了までイベントループを待つ', async () => {
+    const logs = await runScript(
+      [
+        "const { setTimeout: sleep } = require('node:timers/promises');",
+        "const { exec } = require('child_process');",
+        "sleep(20, 'slept').then(value => console.log(value));",
+        "exec('echo from-child', (err, stdout) => console.log('exec:', err === null, stdout.trim()));",
+      ].join('\n')
+    );
+    expect(logs).toContain('slept');
+    expect(logs).toContain('exec: true from-child');
+  });
+
+  it('spawn の出力をストリームで受け取り、終了コードを返す', async () => {
+    const childProcess = createChildProcessModule({ projectId, projectName });
+    const child = childProcess.spawn('echo', ['hello world']);
+    let stdout = '';
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', chunk => {
+      stdout += chunk;
+    });
+    const [code] = await new Promise<unknown[]>(resolve =>
+      child.on('close', (...args: unknown[]) => resolve(args))
+    );
+    expect(code).toBe(0);
+    expect(stdout).toBe('hello world\n');
+
+    const failed = await new Promise<Error & { code?: number }>(resolve =>
+      childProcess.exec('no-such-command-xyz', err => resolve(err as Error))
+    );
+    expect(failed.message).toContain('Command failed: no-such-command-xyz');
+    expect(failed.code).not.toBe(0);
+    expect(() => childProcess.execSync()).toThrow('not supported');
+  });
+
+  it('spawn した子プロセスの stdin に書き込んだ内容がコマンドに渡る', async () => {
+    const childProcess = createChildProcessModule({ projectId, projectName });
+    const child = childProcess.spawn('cat', [], { cwd: `/projects/${projectName}` });
+    let stdout = '';
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', chunk => {
+      stdout += chunk;
+    });
+    child.stdin.write('line 1\n');
+    setTimeout(() => child.stdin.end('line 2\n'), 50);
+    const [code] = await new Promise<unknown[]>(resolve =>
+      child.on('close', (...args: unknown[]) => resolve(args))
+    );
+    expect(code).toBe(0);
+    expect(stdout).toBe('line 1\nline 2\n');
+  });
+});
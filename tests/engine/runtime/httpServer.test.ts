@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { runCurl } from '@/engine/cmd/shell/curl';
+import { handleHttpRequest } from '@/engine/preview/previewServer';
+import { httpServerRegistry } from '@/engine/runtime/nodejs/httpServerRegistry';
+import { createHTTPModule } from '@/engine/runtime/nodejs/modules/httpModule';
+import { normalizeCjsEsm } from '@/engine/runtime/transpiler/normalizeCjsEsm';
+
+// transpileManager は Web Worker を使うため Node 環境では動かない → normalizeCjsEsm で代用
+vi.mock('@/engine/runtime/transpiler/transpileManager', () => ({
+  transpileManager: {
+    transpile: async (options: { code: string }) => {
+      const result = normalizeCjsEsm(options.code);
+      return { id: 'mock', code: result.code, dependencies: result.dependencies };
+    },
+  },
+}));
+
+import { NodeRuntime } from '@/engine/runtime/nodejs/nodeRuntime';
+
+/**
+ * http.createServer の仮想サーバーのテスト
+ * listen したサーバーに http.request・curl・プレビュー（Service Worker 経由の中継）から接続できること
+ */
+
+async function curl(args: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = await runCurl(args, {
+    stdout: text => {
+      stdout += text;
+    },
+    stderr: text => {
+      stderr += text;
+    },
+  });
+  return { code, stdout, stderr };
+}
+
+function waitFor(emitter: { once: (event: string, fn: Function) => unknown }, event: string) {
+  return new Promise<unknown[]>(resolve =>
+    emitter.once(event, (...args: unknown[]) => resolve(args))
+  );
+}
+
+describe('http.createServer', () => {
+  it('listen したサーバーに curl と http.get で接続できる', async () => {
+    const http = createHTTPModule();
+    const server = http.createServer((req: any, res: any) => {
+      let body = '';
+      // チャンクは Buffer（文字列に変換できる）
+      req.on('data', (chunk: unknown) => {
+        body += String(chunk);
+      });
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ method: req.method, url: req.url, body }));
+      });
+    });
+    server.listen(4100);
+    await waitFor(server, 'listening');
+    expect(httpServerRegistry.getPorts()).toContain(4100);
+
+    const get = await curl(['-i', 'localhost:4100/api?x=1']);
+    expect(get.code).toBe(0);
+    expect(get.stdout).toContain('HTTP/1.1 200 OK');
+    expect(get.stdout).toContain('content-type: application/json');
+    expect(get.stdout).toContain('{"method":"GET","url":"/api?x=1","body":""}');
+
+    const post = await curl(['-X', 'PUT', '--json', '{"a":1}', 'http://127.0.0.1:4100/items']);
+    expect(JSON.parse(post.stdout)).toEqual({ method: 'PUT', url: '/items', body: '{"a":1}' });
+
+    const [res] = (await waitFor(
+      http.get('http://localhost:4100/hello', () => {}),
+      'response'
+    )) as [any];
+    await waitFor(res, 'end');
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.getText()).url).toBe('/hello');
+
+    server.close();
+    expect(httpServerRegistry.isListening(4100)).toBe(false);
+    const refused = await curl(['localhost:4100']);
+    expect(refused.code).toBe(7);
+    expect(refused.stderr).toContain('Connection refused');
+  });
+
+  it('使用中のポートは EADDRINUSE、ハンドラの例外は 500 になる', async () => {
+    const http = createHTTPModule();
+    const first = http.createServer(() => {
+      throw new Error('boom');
+    });
+    first.listen(4101);
+    const second = http.createServer(() => {});
+    second.listen(4101);
+    const [error] = (await waitFor(second, 'error')) as [{ code: string }];
+    expect(error.code).toBe('EADDRINUSE');
+
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await handleHttpRequest(4101, { method: 'GET', url: '/', headers: {} });
+    expect(result.status).toBe(500);
+    expect(new TextDecoder().decode(result.body)).toContain('boom');
+    errorSpy.mockRestore();
+
+    // サーバーが無いポートは別のウィンドウに任せる
+    first.close();
+    expect(await handleHttpRequest(4101, { method: 'GET', url: '/', headers: {} })).toEqual({
+      refused: true,
+    });
+  });
+});
+
+describe('NodeRuntime', () => {
+  let projectId: string;
+  let projectName: string;
+  let repo: Awaited<ReturnType<typeof setupTestProject>>['repo'];
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('HttpServerTest');
+    projectId = ctx.projectId;
+    projectName = ctx.projectName;
+    repo = ctx.repo;
+  });
+
+  it('listen 中はイベントループが終わらず、terminate でサーバーを閉じて終了する', async () => {
+    await repo.createFile(
+      projectId,
+      '/server.js',
+      [
+        "const http = require('http');",
+        'const server = http.createServer((req, res) => {',
+        "  res.writeHead(201, { 'X-Powered-By': 'pyxis' });",
+        "  res.end('hello ' + req.url);",
+        '});',
+        "server.listen(4102, () => console.log('listening on ' + server.address().port));",
+      ].join('\n'),
+      'file'
+    );
+
+    const logs: string[] = [];
+    const runtime = new NodeRuntime({
+      projectId,
+      projectName,
+      filePath: `/projects/${projectName}/server.js`,
+      debugConsole: {
+        log: (...args) => logs.push(args.join(' ')),
+        error: () => {},
+        warn: () => {},
+        clear: () => {},
+      },
+    });
+    await runtime.execute(`/projects/${projectName}/server.js`);
+
+    let exited = false;
+    const done = runtime.waitForEventLoop().then(() => {
+      exited = true;
+    });
+
+    await vi.waitFor(() => expect(logs).toContain('listening on 4102'));
+    const response = await curl(['-i', 'localhost:4102/world']);
+    expect(response.stdout).toContain('HTTP/1.1 201 Created');
+    expect(response.stdout).toContain('x-powered-by: pyxis');
+    expect(response.stdout).toContain('hello /world');
+    expect(exited).toBe(false);
+
+    runtime.terminate();
+    await done;
+    expect(httpServerRegistry.isListening(4102)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { setupTestProject } from '../../_helpers/testProject';
+
+import { terminalCommandRegistry } from '@/engine/cmd/terminalRegistry';
+import { fileRepository } from '@/engine/core/fileRepository';
+import { runtimeRegistry } from '@/engine/runtime/core/RuntimeRegistry';
+import { normalizeCjsEsm } from '@/engine/runtime/transpiler/normalizeCjsEsm';
+
+// transpileManager は Web Worker を使うため Node 環境では動かない → normalizeCjsEsm で代用
+vi.mock('@/engine/runtime/transpiler/transpileManager', () => ({
+  transpileManager: {
+    transpile: async (options: { code: string; filePath: string }) => {
+      const result = normalizeCjsEsm(options.code, {
+        sourceMap: true,
+        filePath: options.filePath,
+      });
+      return {
+        id: 'mock',
+        code: result.code,
+        dependencies: result.dependencies,
+        sourceMap: result.map,
+      };
+    },
+  },
+}));
+
+/**
+ * ソースマップによるスタックトレースの変換のテスト
+ *
+ * ターミナルの node コマンドで例外を投げるスクリプトを実行し、
+ * 未捕捉エラーのスタックが元のファイルの行・列を指すことを確認する。
+ */
+
+describe('スタックトレースのソースマップ変換', () => {
+  let projectId: string;
+  let projectName: string;
+
+  async function run(line: string) {
+    const shell = await terminalCommandRegistry.getShell(projectName, projectId, {
+      fileRepository,
+    });
+    if (!shell) throw new Error('shell unavailable');
+    return shell.run(line);
+  }
+
+  beforeEach(async () => {
+    const ctx = await setupTestProject('StackTraceTest');
+    projectId = ctx.projectId;
+    projectName = ctx.projectName;
+  });
+
+  afterEach(() => {
+    runtimeRegistry.unregisterTranspiler('test-ts');
+  });
+
+  it('ESM を書き換えたファイルでも、元の行・列のフレームを Node.js の形式で出力する', async () => {
+    await fileRepository.createFile(
+      projectId,
+      '/lib.js',
+      ['// helper', 'export function fail(message) {', '  throw new Error(message);', '}'].join(
+        '\n'
+      ),
+      'file'
+    );
+    await fileRepository.createFile(
+      projectId,
+      '/main.js',
+      [
+        'import {',
+        '  fail,',
+        "} from './lib.js';",
+        '',
+        'function run() {',
+        "  fail('boom');",
+        '}',
+        'run();',
+      ].join('\n'),
+      'file'
+    );
+
+    const root = `/projects/${projectName}`;
+    const result = await run(`node ${root}/main.js`);
+
+    expect(result.stderr).toContain('Error: boom');
+    expect(result.stderr).toContain(`    at fail (${root}/lib.js:3:9)`);
+    expect(result.stderr).toContain(`    at run (${root}/main.js:6:3)`);
+    expect(result.stderr).toContain(`    at ${root}/main.js:8:1`);
+    // エミュレーター自身のフレームは含めない
+    expect(result.stderr).not.toMatch(/nodeRuntime|moduleLoader/);
+  });
+
+  it('トランスパイラーが返したソースマップで TypeScript の行に戻す', async () => {
+    // 型注釈の行を消して1行ずつ詰めるトランスパイラー（生成1行目 → 元の3行目, 2行目 → 4行目）
+    runtimeRegistry.registerTranspiler({
+      id: 'test-ts',
+      supportedExtensions: ['.ts'],
+      needsTranspile: () => true,
+      transpile: async code => ({
+        code: code.split('\n').slice(2).join('\n'),
+        map: JSON.stringify({ version: 3, sources: ['main.ts'], mappings: 'AAEA;AACA' }),
+        dependencies: [],
+      }),
+    });
+    await fileRepository.createFile(
+      projectId,
+      '/main.ts',
+      ['type Id = string;', 'interface User { id: Id }', '', "throw new TypeError('bad');"].join(
+        '\n'
+      ),
+      'file'
+    );
+
+    const result = await run(`node /projects/${projectName}/main.ts`);
+
+    expect(result.stderr).toContain('TypeError: bad');
+    expect(result.stderr).toContain(`    at /projects/${projectName}/main.ts:4:7`);
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resetRepository } from '../../_helpers/testProject';
+
+import { fileRepository } from '@/engine/core/fileRepository';
+import { ProjectTemplateAPI } from '@/engine/extensions/system-api/ProjectTemplateAPI';
+import type { ExtensionContext } from '@/engine/extensions/types';
+import { projectTemplateRegistry } from '@/engine/templates/ProjectTemplateRegistry';
+import { registerBuiltinTemplates } from '@/engine/templates/builtinTemplates';
+import {
+  createProjectFromTemplate,
+  renderTemplate,
+  resolveTemplateVariables,
+} from '@/engine/templates/scaffold';
+import type { ProjectTemplate } from '@/engine/templates/types';
+
+/**
+ * プロジェクトテンプレートのテスト
+ * 変数の置き換え・検証、テンプレートからの作成と作成後の処理、拡張機能からの登録を検証
+ */
+
+// 作成後の処理は GitCommands / NpmCommands を呼ぶだけなので、呼び出しを記録する
+const commands = vi.hoisted(() => ({
+  calls: [] as string[],
+  npmError: null as Error | null,
+}));
+vi.mock('@/engine/cmd/terminalRegistry', () => ({
+  terminalCommandRegistry: {
+    getGitCommands: (name: string) => ({
+      init: async () => {
+        commands.calls.push(`git init ${name}`);
+        return '';
+      },
+    }),
+    getNpmCommands: (name: string) => ({
+      install: async () => {
+        commands.calls.push(`npm install ${name}`);
+        if (commands.npmError) throw commands.npmError;
+        return '';
+      },
+    }),
+  },
+}));
+
+const template = (overrides: Partial<ProjectTemplate> = {}): ProjectTemplate => ({
+  id: 'test.template',
+  name: 'Test',
+  description: 'test template',
+  source: 'builtin',
+  files: {},
+  ...overrides,
+});
+
+describe('renderTemplate / resolveTemplateVariables', () => {
+  it('定義された変数だけを置き換え、JSX の {{ }} や未定義の変数は残す', () => {
+    expect(
+      renderTemplate('{{ name }}: <div style={{ color: "red" }}>{{unknown}}</div>', { name: 'app' })
+    ).toBe('app: <div style={{ color: "red" }}>{{unknown}}</div>');
+    expect(renderTemplate('{{constructor}}', {})).toBe('{{constructor}}');
+  });
+
+  it('既定値と組み込み変数を使い、required / pattern を検証する', () => {
+    const t = template({
+      prompts: [
+        { name: 'pkg', label: 'Package name', default: '{{projectName}}-lib', required: true },
+        { name: 'module', label: 'Module name', pattern: '[a-z]+' },
+      ],
+    });
+
+    expect(resolveTemplateVariables(t, 'demo', {}, 'desc')).toMatchObject({
+      projectName: 'demo',
+      description: 'desc',
+      pkg: 'demo-lib',
+      module: '',
+      year: String(new Date().getFullYear()),
+    });
+    expect(() => resolveTemplateVariables(t, 'demo', { pkg: ' ' })).toThrow(
+      'Missing value for "Package name"'
+    );
+    expect(() => resolveTemplateVariables(t, 'demo', { module: 'Bad1' })).toThrow(
+      'Invalid value for "Module name": Bad1'
+    );
+  });
+});
+
+describe('createProjectFromTemplate', () => {
+  beforeEach(async () => {
+    resetRepository();
+    commands.calls = [];
+    commands.npmError = null;
+    await fileRepository.init();
+  });
+
+  it('ファイルの内容とパスの変数を置き換えて作成し、作成後の処理を順に実行する', async () => {
+    const unregister = registerBuiltinTemplates();
+    const react = projectTemplateRegistry.get('builtin.react-jsx') as ProjectTemplate;
+    unregister();
+
+    const { project, failedSteps } = await createProjectFromTemplate(react, {
+      name: 'my-app',
+      variables: { component: 'Counter' },
+    });
+
+    expect(failedSteps).toEqual([]);
+    expect(commands.calls).toEqual(['git init my-app', 'npm install my-app']);
+    expect((await fileRepository.getFileByPath(project.id, '/src'))?.type).toBe('folder');
+    const component = await fileRepository.getFileByPath(project.id, '/src/Counter.jsx');
+    expect(component?.content).toContain('export default function Counter()');
+    expect(component?.content).toContain('<h1 className="text-2xl font-bold mb-4">my-app</h1>');
+    expect((await fileRepository.getFileByPath(project.id, '/package.json'))?.content).toContain(
+      '"name": "my-app"'
+    );
+  });
+
+  it('選んだ処理だけを実行し、失敗してもプロジェクトは残す', async () => {
+    commands.npmError = new Error('npm install failed: offline');
+    const t = template({
+      files: { 'index.js': 'console.log("{{projectName}}");\n' },
+      postCreate: ['git-init', 'npm-install'],
+    });
+
+    const skipped = await createProjectFromTemplate(t, { name: 'no-steps', postCreate: [] });
+    expect(commands.calls).toEqual([]);
+    expect((await fileRepository.getFileByPath(skipped.project.id, '/index.js'))?.content).toBe(
+      'console.log("no-steps");\n'
+    );
+
+    const onStep = vi.fn();
+    const result = await createProjectFromTemplate(t, { name: 'offline', onStep });
+    expect(onStep.mock.calls.map(([step]) => step)).toEqual(['git-init', 'npm-install']);
+    expect(result.failedSteps).toEqual([
+      { step: 'npm-install', error: 'npm install failed: offline' },
+    ]);
+    expect((await fileRepository.getProjects()).map(p => p.name)).toContain('offline');
+  });
+});
+
+describe('ProjectTemplateAPI', () => {
+  it('拡張機能のテンプレートを ID を付けて登録し、無効化で削除する', () => {
+    const unregisterBuiltins = registerBuiltinTemplates();
+    const api = new ProjectTemplateAPI({ extensionId: 'acme.templates' } as ExtensionContext);
+    api.registerTemplate({ id: 'svelte', name: 'Svelte', description: 'Svelte app', files: {} });
+
+    const all = projectTemplateRegistry.getAll();
+    const svelte = all.find(t => t.id === 'acme.templates.svelte');
+    expect(svelte).toMatchObject({
+      source: 'extension',
+      extensionId: 'acme.templates',
+      category: 'acme.templates',
+    });
+    // ビルトインが先に並ぶ
+    expect(all.indexOf(svelte as ProjectTemplate)).toBe(all.length - 1);
+
+    api.dispose();
+    expect(projectTemplateRegistry.get('acme.templates.svelte')).toBeUndefined();
+    expect(projectTemplateRegistry.getAll()).toHaveLength(5);
+
+    unregisterBuiltins();
+    expect(projectTemplateRegistry.getAll()).toEqual([]);
+  });
+});
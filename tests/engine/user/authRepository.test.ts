@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { authRepository } from '@/engine/user/authRepository';
+
+/**
+ * 認証情報リポジトリのテスト
+ * GitHubのサインアウト後もホストごとの認証情報を復号できることを検証
+ *
+ * Node 環境には IndexedDB / localStorage がないため、メモリ上の最小実装に差し替える。
+ */
+
+interface FakeRequest {
+  result?: unknown;
+  error?: unknown;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: (event: { target: FakeRequest }) => void;
+}
+
+function createFakeIndexedDB() {
+  const stores = new Map<string, { keyPath: string; records: Map<string, unknown> }>();
+
+  // IndexedDB と同じく結果は非同期に通知する
+  const request = (run: () => unknown): FakeRequest => {
+    const req: FakeRequest = {};
+    setTimeout(() => {
+      req.result = run();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string, options: { keyPath: string }) => {
+      stores.set(name, { keyPath: options.keyPath, records: new Map() });
+    },
+    transaction: () => ({
+      objectStore: (name: string) => {
+        const store = stores.get(name);
+        if (!store) throw new Error(`No object store: ${name}`);
+        return {
+          put: (value: Record<string, string>) =>
+            request(() => store.records.set(value[store.keyPath], structuredClone(value))),
+          get: (key: string) => request(() => store.records.get(key)),
+          getAll: () => request(() => [...store.records.values()]),
+          delete: (key: string) => request(() => store.records.delete(key)),
+        };
+      },
+    }),
+  };
+
+  return {
+    open: () => {
+      const req: FakeRequest = { result: db };
+      setTimeout(() => {
+        req.onupgradeneeded?.({ target: req });
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  };
+}
+
+function createFakeLocalStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  };
+}
+
+describe('authRepository', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDB());
+    vi.stubGlobal('localStorage', createFakeLocalStorage());
+    // @ts-expect-error -- テスト用にシングルトンのデータベースをリセット
+    authRepository.db = null;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('GitHubからサインアウトしてもホストの認証情報は復号できる', async () => {
+    await authRepository.saveAuth({
+      accessToken: 'ghp_secret',
+      user: { login: 'alice', name: null, email: null, avatar_url: '', id: 1 },
+      createdAt: Date.now(),
+    });
+    await authRepository.saveHostCredential({
+      host: 'GitLab.example.com',
+      username: 'alice',
+      password: 'glpat-secret',
+    });
+
+    await authRepository.clearAuth();
+
+    expect(await authRepository.getAuth()).toBeNull();
+    expect(await authRepository.getHostCredential('gitlab.example.com')).toEqual({
+      host: 'gitlab.example.com',
+      username: 'alice',
+      password: 'glpat-secret',
+    });
+    expect(await authRepository.listHostCredentials()).toEqual([
+      { host: 'gitlab.example.com', username: 'alice' },
+    ]);
+  });
+});